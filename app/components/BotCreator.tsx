@@ -3,7 +3,8 @@
 /**
  * Character Chatbot Generator - Character creation form component.
  *
- * Allows users to create a new chatbot persona by entering a name or choosing a random character.
+ * Allows users to create a new chatbot persona by entering a name or choosing a random character,
+ * or by naming and describing an original character of their own.
  * Handles personality, avatar, and voice generation with progress feedback.
  *
  * @module BotCreator
@@ -11,12 +12,26 @@
 
 import React, { useRef, useEffect, useContext, useState } from "react";
 import { useSearchParams } from "next/navigation";
+import Image from "next/image";
 import { DarkModeContext } from "./DarkModeContext";
+import { LanguageContext, useTranslation } from "./LanguageContext";
 import { authenticatedFetch } from "../../src/utils/api";
 import styles from "./styles/BotCreator.module.css";
 import DarkModeToggle from "./DarkModeToggle";
 import { useBotCreation } from "./useBotCreation";
 import { CopyrightWarningModal } from "./CopyrightWarningModal";
+import PersonalityEditor from "./PersonalityEditor";
+import { CharacterCardError, readCharacterCardFile } from "../../src/utils/characterCard";
+import { logEvent, sanitizeLogMeta } from "../../src/utils/logger";
+import { getAvatarThumbnailUrl } from "../../src/utils/avatarUrl";
+import { AVATAR_UPLOAD_ACCEPT, api_storeCardPortraits, api_uploadAvatar } from "./api_uploadAvatar";
+import {
+  DESCRIPTION_FIELDS,
+  MAX_DESCRIPTION_FIELD_LENGTH,
+  type DescriptionField,
+} from "../../src/utils/characterDescription";
+import { LANGUAGES, parseLanguage } from "../../src/utils/language";
+import type { UiStringKey } from "../../src/data/uiStrings";
 
 interface Bot {
   name: string;
@@ -24,40 +39,71 @@ interface Bot {
   avatarUrl: string;
   voiceConfig: import("../../src/utils/characterVoices").CharacterVoiceConfig | null;
   gender?: string | null;
+  /** Structured fields the personality prompt is built from; absent for older or imported bots. */
+  profile?: import("../../src/utils/personalityProfile").PersonalityProfile | null;
+  /** Conversation language; absent means English. */
+  language?: import("../../src/utils/language").LanguageCode;
+  /** Portraits per mood, shown as the character's replies change mood; absent for older, uploaded or imported bots. */
+  expressions?: import("../../src/utils/avatarMoods").AvatarExpressions;
 }
 
 interface BotCreatorProps {
   onBotCreated: (bot: Bot) => void;
   returningToCreator?: boolean;
+  /** Overrides the main heading, e.g. when adding a character to a group conversation. */
+  heading?: string;
+  /** When set, shows a button that leaves the creator without creating a character. */
+  onCancel?: () => void;
+  /** Rendered below the form, e.g. the gallery of saved characters. */
+  library?: React.ReactNode;
 }
 
-const progressSteps = [
+const progressSteps: { key: string; label: UiStringKey }[] = [
   {
     key: "personality",
-    label: "Creating personality"
+    label: "stepPersonality"
   },
   {
     key: "avatar",
-    label: "Generating portrait — this may take a minute"
+    label: "stepAvatar"
   },
   {
     key: "voice",
-    label: "Selecting voice"
+    label: "stepVoice"
   }
 ];
 
+const DESCRIPTION_LABELS: Record<DescriptionField, { label: UiStringKey; placeholder: string }> = {
+  backstory: { label: "fieldBackstory", placeholder: "A lighthouse keeper who once sailed with smugglers" },
+  era: { label: "fieldEra", placeholder: "Cornwall, 1880s" },
+  appearance: { label: "fieldAppearance", placeholder: "Weathered face, grey beard, oilskin coat" },
+  temperament: { label: "fieldTemperament", placeholder: "Gruff but kind, slow to trust" },
+  speakingStyle: { label: "fieldSpeakingStyle", placeholder: "Short sentences, sea slang, dry humour" },
+};
+
+/** Renders a translated sentence with its `{placeholder}` words in bold. */
+function withBoldWords(template: string, words: Record<string, string>): React.ReactNode[] {
+  return template.split(/\{(\w+)\}/).map((part, i) => (i % 2 === 1 ? <b key={i}>{words[part] ?? part}</b> : part));
+}
 
-const BotCreator: React.FC<BotCreatorProps> = ({ onBotCreated, returningToCreator = false }) => {
+const BotCreator: React.FC<BotCreatorProps> = ({ onBotCreated, returningToCreator = false, heading, onCancel, library }) => {
   const inputRef = useRef<HTMLInputElement>(null);
   const { darkMode } = useContext(DarkModeContext);
+  const { language, setLanguage } = useContext(LanguageContext);
+  const t = useTranslation();
   const searchParams = useSearchParams();
   const nameFromUrl = searchParams?.get('name') || null;
+  // When reviewing, a generated character goes to the personality editor before it is created
+  const [reviewPersonality, setReviewPersonality] = useState(false);
+  const [draftBot, setDraftBot] = useState<Bot | null>(null);
   const {
     input, setInput, error, loading, progress,
     randomizing, loadingMessage, validating, validationResult, showValidationModal,
+    describing, setDescribing, description, setDescription,
+    customAvatarUrl, setCustomAvatarUrl,
     handleCreate, handleCancel, handleRandomCharacter,
     handleValidationContinue, handleValidationCancel, handleValidationSuggestion
-  } = useBotCreation(onBotCreated);
+  } = useBotCreation(reviewPersonality ? setDraftBot : onBotCreated, language);
 
   useEffect(() => {
     if (inputRef.current) {
@@ -70,6 +116,53 @@ const BotCreator: React.FC<BotCreatorProps> = ({ onBotCreated, returningToCreato
   const [elapsed, setElapsed] = useState<number>(0);
   const [MAX_AVATAR_SECONDS, setMaxAvatarSeconds] = useState<number | null>(null);
   const [hasAutoSubmitted, setHasAutoSubmitted] = useState<boolean>(false);
+  const cardInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string>("");
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+  const [uploadingAvatar, setUploadingAvatar] = useState(false);
+  const [avatarError, setAvatarError] = useState<string>("");
+
+  const handleUploadAvatar = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so choosing the same file again still fires a change
+    e.target.value = "";
+    if (!file) return;
+    setAvatarError("");
+    setUploadingAvatar(true);
+    try {
+      const avatarUrl = await api_uploadAvatar(file);
+      logEvent("info", "bot_avatar_uploaded", "Custom avatar uploaded", sanitizeLogMeta({ avatarUrl, fileType: file.type }));
+      setCustomAvatarUrl(avatarUrl);
+    } catch (err) {
+      setAvatarError(err instanceof Error ? err.message : "Could not upload the portrait.");
+      logEvent("error", "bot_avatar_upload_failed", "Failed to upload custom avatar", sanitizeLogMeta({
+        fileType: file.type,
+        error: err instanceof Error ? err.message : String(err),
+      }));
+    } finally {
+      setUploadingAvatar(false);
+    }
+  };
+
+  const handleImportCard = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so choosing the same file again still fires a change
+    e.target.value = "";
+    if (!file) return;
+    setImportError("");
+    try {
+      const bot = await api_storeCardPortraits(await readCharacterCardFile(file));
+      logEvent("info", "bot_card_imported", "Character card imported", sanitizeLogMeta({ botName: bot.name, fileType: file.type }));
+      onBotCreated(bot);
+    } catch (err) {
+      const message = err instanceof CharacterCardError ? err.message : "Could not read the character card.";
+      setImportError(message);
+      logEvent("error", "bot_card_import_failed", "Failed to import character card", sanitizeLogMeta({
+        fileType: file.type,
+        error: err instanceof Error ? err.message : String(err),
+      }));
+    }
+  };
 
   useEffect(() => {
     if (nameFromUrl && !input.trim()) {
@@ -109,6 +202,16 @@ const BotCreator: React.FC<BotCreatorProps> = ({ onBotCreated, returningToCreato
     return () => { if (timer) window.clearInterval(timer); };
   }, [loading, progress, MAX_AVATAR_SECONDS]);
 
+  if (draftBot) {
+    return (
+      <PersonalityEditor
+        bot={draftBot}
+        onSave={(bot) => { setDraftBot(null); onBotCreated(bot); }}
+        onCancel={() => setDraftBot(null)}
+      />
+    );
+  }
+
   return (
     <>
       <form
@@ -116,13 +219,23 @@ const BotCreator: React.FC<BotCreatorProps> = ({ onBotCreated, returningToCreato
         className={styles.formContainer}
         autoComplete="off"
       >
-        <h1 className={styles.mainHeading}>Character Chatbot Generator</h1>
+        <h1 className={styles.mainHeading}>{heading ?? t("appTitle")}</h1>
+        {onCancel && !isBusy && (
+          <button
+            type="button"
+            className={styles.backLink}
+            onClick={onCancel}
+            data-testid="bot-creator-cancel"
+          >
+            {t("backToChat")}
+          </button>
+        )}
         <div className={styles.inputGroup}>
           <input
             type="text"
             value={input}
             onChange={e => setInput(e.target.value)}
-            placeholder="Enter a name"
+            placeholder={describing ? t("nameOwnPlaceholder") : t("namePlaceholder")}
             className={styles.input + (darkMode ? ' dark' : '')}
             disabled={loading}
             data-testid="bot-creator-input"
@@ -131,24 +244,74 @@ const BotCreator: React.FC<BotCreatorProps> = ({ onBotCreated, returningToCreato
             ref={inputRef}
           />
         </div>
-        <div className={styles.buttonRow + (isBusy ? ' ' + styles.hideMobile : '')}>
-          <button
-            type="button"
-            className={styles.randomButton}
+        {describing && (
+          <div className={styles.describeFields} data-testid="bot-creator-description">
+            {DESCRIPTION_FIELDS.map((field) => {
+              const { label, placeholder } = DESCRIPTION_LABELS[field];
+              const id = `bot-creator-${field}`;
+              const props = {
+                id,
+                className: styles.describeField,
+                value: description[field],
+                placeholder,
+                maxLength: MAX_DESCRIPTION_FIELD_LENGTH,
+                disabled: loading,
+                onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+                  setDescription((prev) => ({ ...prev, [field]: e.target.value })),
+              };
+              return (
+                <div key={field} className={styles.describeRow}>
+                  <label htmlFor={id} className={styles.describeLabel}>{t(label)}</label>
+                  {field === "era" ? <input type="text" {...props} /> : <textarea rows={2} {...props} />}
+                </div>
+              );
+            })}
+          </div>
+        )}
+        <label className={styles.languageRow}>
+          {t("languageLabel")}
+          <select
+            value={language}
+            onChange={(e) => setLanguage(parseLanguage(e.target.value) ?? language)}
             disabled={isBusy}
-            aria-label="Choose a random character name"
-            onClick={handleRandomCharacter}
+            className={styles.languageSelect}
+            data-testid="bot-creator-language"
           >
-            <svg width="28" height="28" viewBox="0 0 28 28" fill="none" xmlns="http://www.w3.org/2000/svg" aria-hidden="true" focusable="false" style={{ display: 'block' }}>
-              <rect x="5" y="5" width="18" height="18" rx="4" stroke="currentColor" strokeWidth="2" fill="none" />
-              <circle cx="9.5" cy="9.5" r="2" fill="currentColor" />
-              <circle cx="18.5" cy="9.5" r="2" fill="currentColor" />
-              <circle cx="9.5" cy="18.5" r="2" fill="currentColor" />
-              <circle cx="18.5" cy="18.5" r="2" fill="currentColor" />
-              <circle cx="14" cy="14" r="2" fill="currentColor" />
-            </svg>
-            <span style={{ display: 'none' }}>🎲</span>
-          </button>
+            {LANGUAGES.map(({ code, nativeName }) => (
+              <option key={code} value={code}>{nativeName}</option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.reviewToggle}>
+          <input
+            type="checkbox"
+            checked={reviewPersonality}
+            onChange={(e) => setReviewPersonality(e.target.checked)}
+            disabled={isBusy}
+            data-testid="bot-creator-review"
+          />
+          {t("reviewPersonality")}
+        </label>
+        <div className={styles.buttonRow + (isBusy ? ' ' + styles.hideMobile : '')}>
+          {!describing && (
+            <button
+              type="button"
+              className={styles.randomButton}
+              disabled={isBusy}
+              aria-label="Choose a random character name"
+              onClick={handleRandomCharacter}
+            >
+              <svg width="28" height="28" viewBox="0 0 28 28" fill="none" xmlns="http://www.w3.org/2000/svg" aria-hidden="true" focusable="false" style={{ display: 'block' }}>
+                <rect x="5" y="5" width="18" height="18" rx="4" stroke="currentColor" strokeWidth="2" fill="none" />
+                <circle cx="9.5" cy="9.5" r="2" fill="currentColor" />
+                <circle cx="18.5" cy="9.5" r="2" fill="currentColor" />
+                <circle cx="9.5" cy="18.5" r="2" fill="currentColor" />
+                <circle cx="18.5" cy="18.5" r="2" fill="currentColor" />
+                <circle cx="14" cy="14" r="2" fill="currentColor" />
+              </svg>
+              <span style={{ display: 'none' }}>🎲</span>
+            </button>
+          )}
           <button
             type="submit"
             className={styles.createButton}
@@ -163,36 +326,102 @@ const BotCreator: React.FC<BotCreatorProps> = ({ onBotCreated, returningToCreato
             </svg>
           </button>
         </div>
-        {!(loading || randomizing || validating) && (
+        {!isBusy && (
+          <>
+            <button
+              type="button"
+              className={styles.modeLink}
+              onClick={() => setDescribing(!describing)}
+              aria-pressed={describing}
+              data-testid="bot-creator-describe-toggle"
+            >
+              {describing ? t("useKnownCharacter") : t("describeOwnCharacter")}
+            </button>
+            <button
+              type="button"
+              className={styles.importLink}
+              onClick={() => cardInputRef.current?.click()}
+              data-testid="bot-creator-import"
+            >
+              {t("importCard")}
+            </button>
+            <input
+              ref={cardInputRef}
+              type="file"
+              accept=".json,.png,application/json,image/png"
+              onChange={handleImportCard}
+              style={{ display: 'none' }}
+              data-testid="bot-creator-import-input"
+              aria-label="Character card file"
+            />
+            <button
+              type="button"
+              className={styles.importLink}
+              onClick={() => avatarInputRef.current?.click()}
+              disabled={uploadingAvatar}
+              data-testid="bot-creator-upload-avatar"
+            >
+              {uploadingAvatar ? t("uploadingPortrait") : t("uploadPortrait")}
+            </button>
+            <input
+              ref={avatarInputRef}
+              type="file"
+              accept={AVATAR_UPLOAD_ACCEPT}
+              onChange={handleUploadAvatar}
+              style={{ display: 'none' }}
+              data-testid="bot-creator-avatar-input"
+              aria-label="Portrait image file"
+            />
+            {customAvatarUrl && (
+              <div className={styles.customAvatar} data-testid="bot-creator-custom-avatar">
+                <Image
+                  src={getAvatarThumbnailUrl(customAvatarUrl)}
+                  alt="Uploaded portrait"
+                  width={64}
+                  height={64}
+                  className="rounded-circle"
+                  style={{ objectFit: 'cover' }}
+                />
+                <span>{t("customPortraitNote")}</span>
+                <button type="button" className={styles.importLink} onClick={() => setCustomAvatarUrl(null)}>
+                  {t("removePortrait")}
+                </button>
+              </div>
+            )}
+          </>
+        )}
+        {importError && <div className={styles.error} role="alert">{importError}</div>}
+        {avatarError && <div className={styles.error} role="alert">{avatarError}</div>}
+        {!isBusy && describing && (
           <div className={styles.instructionsCentered}>
-            <div>
-              Create a chatbot character using well-known public domain figures from classic literature, mythology, or historical figures. Characters from copyrighted or trademarked modern media will trigger a warning.
-            </div>
-            <div>
-              Enter a character name or click the <b>dice</b> button for a random suggestion, then press the <b>arrow</b> button to generate your character.
-            </div>
-            <div className={styles.instructionsTip}>
-              Examples: Sherlock Holmes, Dracula, Cleopatra, Robin Hood, Leonardo da Vinci, or create your own original character.
-            </div>
+            <div>{t("describeIntro")}</div>
+            <div className={styles.instructionsTip}>{t("describeTip")}</div>
+          </div>
+        )}
+        {!isBusy && !describing && (
+          <div className={styles.instructionsCentered}>
+            <div>{t("intro")}</div>
+            <div>{withBoldWords(t("introHow"), { dice: t("dice"), arrow: t("arrow") })}</div>
+            <div className={styles.instructionsTip}>{t("examples")}</div>
           </div>
         )}
         {randomizing && (
           <div className={styles.progressContainer} data-testid="bot-creator-progress">
             <span className={styles.genericSpinner} aria-label="Loading" />
-            <div className={styles.progressText}>Picking a random character</div>
+            <div className={styles.progressText}>{t("pickingRandom")}</div>
           </div>
         )}
         {validating && (
           <div className={styles.progressContainer} data-testid="bot-creator-validating">
             <span className={styles.genericSpinner} aria-label="Loading" />
-            <div className={styles.progressText}>Validating character...</div>
+            <div className={styles.progressText}>{t("validating")}</div>
           </div>
         )}
         {loading && currentStep && (
           <div className={styles.progressContainer} data-testid="bot-creator-progress">
             <span className={styles.genericSpinner} aria-label="Loading" />
             <div className={styles.progressText}>
-              {loadingMessage || currentStep.label}
+              {loadingMessage || t(currentStep.label)}
               {loading && progress === 'avatar' && MAX_AVATAR_SECONDS !== null && (
                 <span style={{ opacity: 0.85 }}>{elapsed < MAX_AVATAR_SECONDS ? ` (${elapsed}s)` : ` (${MAX_AVATAR_SECONDS}s max)`}</span>
               )}
@@ -218,9 +447,8 @@ const BotCreator: React.FC<BotCreatorProps> = ({ onBotCreated, returningToCreato
           <DarkModeToggle className={styles.darkModeToggle} />
         </div>
       </form>
-      <div className={styles.disclaimer}>
-        Disclaimer: This chatbot is for entertainment purposes only. No information provided should be considered professional, legal, medical, or financial advice. Content may be generated by artificial intelligence and may contain inaccuracies or limitations. Use at your own risk. The creators disclaim all liability for actions taken based on chatbot interactions.
-      </div>
+      {!isBusy && library}
+      <div className={styles.disclaimer}>{t("disclaimer")}</div>
       
       {showValidationModal && validationResult && (
         <CopyrightWarningModal
@@ -0,0 +1,119 @@
+// =============================
+// CharacterLibrary.tsx
+// Gallery of the characters saved in the browser (see characterLibrary), shown
+// on the creator screen so the user can reopen one without regenerating it.
+// =============================
+
+import React, { useMemo, useState } from "react";
+import Image from "next/image";
+import { FaThumbtack, FaTrashAlt } from "react-icons/fa";
+import styles from "./styles/CharacterLibrary.module.css";
+import type { Bot } from "./BotCreator";
+import {
+  deleteCharacter,
+  loadLibrary,
+  searchLibrary,
+  setCharacterPinned,
+  sortLibrary,
+  type LibraryEntry,
+} from "../../src/utils/characterLibrary";
+
+interface CharacterLibraryProps {
+  onSelect: (bot: Bot) => void;
+  /** Characters that cannot be picked, e.g. those already in the conversation. */
+  excludeNames?: string[];
+  disabled?: boolean;
+}
+
+function formatLastChatted(iso: string, now = Date.now()): string {
+  const minutes = Math.round((now - new Date(iso).getTime()) / 60000);
+  if (!Number.isFinite(minutes)) return "";
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return new Date(iso).toLocaleDateString();
+}
+
+const CharacterLibrary: React.FC<CharacterLibraryProps> = ({ onSelect, excludeNames = [], disabled = false }) => {
+  const [entries, setEntries] = useState<LibraryEntry[]>(() => sortLibrary(loadLibrary()));
+  const [query, setQuery] = useState("");
+
+  const visible = useMemo(
+    () => searchLibrary(entries.filter((e) => !excludeNames.includes(e.bot.name)), query),
+    [entries, excludeNames, query]
+  );
+
+  if (entries.length === 0) return null;
+
+  const handleDelete = (name: string) => {
+    if (!window.confirm(`Delete ${name} and their chat history from this browser?`)) return;
+    setEntries(sortLibrary(deleteCharacter(name)));
+  };
+
+  return (
+    <section className={styles.library} aria-labelledby="character-library-title" data-testid="character-library">
+      <div className={styles.header}>
+        <h2 id="character-library-title" className={styles.title}>Your characters</h2>
+        <input
+          type="search"
+          className={styles.search}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search"
+          aria-label="Search your characters"
+        />
+      </div>
+      {visible.length === 0 ? (
+        <p className={styles.empty}>No characters match “{query}”.</p>
+      ) : (
+        <ul className={styles.grid}>
+          {visible.map((entry) => (
+            <li key={entry.bot.name} className={styles.card + (entry.pinned ? ` ${styles.pinned}` : "")}>
+              <button
+                type="button"
+                className={styles.open}
+                onClick={() => onSelect(entry.bot)}
+                disabled={disabled}
+                aria-label={`Chat with ${entry.bot.name}`}
+              >
+                <Image
+                  src={entry.thumbnailUrl}
+                  alt=""
+                  width={64}
+                  height={64}
+                  className="rounded-circle"
+                  style={{ objectFit: "cover" }}
+                  unoptimized
+                />
+                <span className={styles.name}>{entry.bot.name}</span>
+                <span className={styles.meta}>{formatLastChatted(entry.lastChattedAt)}</span>
+              </button>
+              <div className={styles.actions}>
+                <button
+                  type="button"
+                  className={styles.iconButton}
+                  onClick={() => setEntries(sortLibrary(setCharacterPinned(entry.bot.name, !entry.pinned)))}
+                  aria-label={entry.pinned ? `Unpin ${entry.bot.name}` : `Pin ${entry.bot.name}`}
+                  aria-pressed={entry.pinned}
+                >
+                  <FaThumbtack size={14} />
+                </button>
+                <button
+                  type="button"
+                  className={styles.iconButton}
+                  onClick={() => handleDelete(entry.bot.name)}
+                  aria-label={`Delete ${entry.bot.name}`}
+                >
+                  <FaTrashAlt size={14} />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default CharacterLibrary;
@@ -3,11 +3,17 @@ import styles from "./styles/ChatHeader.module.css";
 import Image from "next/image";
 import dynamic from "next/dynamic";
 import HamburgerMenu from "./HamburgerMenu";
-import { FaArrowLeft, FaRegFileAlt } from "react-icons/fa";
+import { FaArrowLeft, FaBrain, FaFileExport, FaImage, FaLink, FaRegFileAlt, FaSlidersH, FaUserMinus, FaUserPlus } from "react-icons/fa";
 import DarkModeToggle from "./DarkModeToggle";
+import { useTranslation } from "./LanguageContext";
+import { getAvatarThumbnailUrl } from "../../src/utils/avatarUrl";
+import { getExpressionUrl, type AvatarExpressions, type AvatarMood } from "../../src/utils/avatarMoods";
+import type { UiStringKey } from "../../src/data/uiStrings";
+import { MAX_GROUP_PARTICIPANTS, TURN_POLICIES, isTurnPolicy, type TurnPolicy } from "../../src/utils/groupChat";
 
 // Dynamically import ModalImageViewer for code splitting
 const ModalImageViewer = dynamic(() => import("./ModalImageViewer"), { ssr: false });
+const PortraitRegenerator = dynamic(() => import("./PortraitRegenerator"), { ssr: false });
 
 interface ChatHeaderProps {
   onDownloadTranscript: () => void;
@@ -17,12 +23,56 @@ interface ChatHeaderProps {
     name: string;
     personality: string;
     avatarUrl: string;
+    expressions?: AvatarExpressions;
   };
+  /** Mood of the bot's latest reply; the portrait switches to the matching expression. */
+  mood?: AvatarMood | null;
+  /** Group conversations: every character in the room, host bot first. */
+  participants?: Array<{ name: string; avatarUrl: string }> | null;
+  turnPolicy?: TurnPolicy;
+  onTurnPolicyChange?: (policy: TurnPolicy) => void;
+  onAddCharacter?: () => void;
+  onRemoveCharacter?: (name: string) => void;
+  /** Copies a link that resumes this conversation on another device. */
+  onCopyResumeLink?: () => void;
+  /** Opens the list of what the characters remember about the user. */
+  onOpenMemories?: () => void;
+  /** Opens the panel for choosing and tuning the characters' voices. */
+  onOpenVoicePanel?: () => void;
+  /** Saves the character as a shareable card file. */
+  onExportCharacterCard?: (format: "json" | "png") => void;
+  /** Replaces the bot's portrait with a newly generated one. */
+  onChangePortrait?: (avatarUrl: string) => void;
 }
 
-const ChatHeader: React.FC<ChatHeaderProps> = React.memo(({ onDownloadTranscript, onHeaderLinkClick, onBackToCharacterCreation, bot }) => {
-  const [showImageModal, setShowImageModal] = useState(false);
+const TURN_POLICY_LABELS: Record<TurnPolicy, UiStringKey> = {
+  "round-robin": "turnRoundRobin",
+  addressed: "turnAddressed",
+  random: "turnRandom",
+};
+
+const ChatHeader: React.FC<ChatHeaderProps> = React.memo(({
+  onDownloadTranscript,
+  onHeaderLinkClick,
+  onBackToCharacterCreation,
+  bot,
+  mood,
+  participants,
+  turnPolicy,
+  onTurnPolicyChange,
+  onAddCharacter,
+  onRemoveCharacter,
+  onCopyResumeLink,
+  onOpenMemories,
+  onOpenVoicePanel,
+  onExportCharacterCard,
+  onChangePortrait,
+}) => {
+  const [portrait, setPortrait] = useState<{ name: string; avatarUrl: string } | null>(null);
+  const t = useTranslation();
   if (!bot) return null;
+  const isGroup = !!participants && participants.length > 1;
+  const canAddCharacter = !!onAddCharacter && (participants?.length ?? 1) < MAX_GROUP_PARTICIPANTS;
   return (
     <div className={styles.chatHeader} data-testid="chat-header" role="banner">
       <div className={styles.chatHeaderContent}>
@@ -39,7 +89,7 @@ const ChatHeader: React.FC<ChatHeaderProps> = React.memo(({ onDownloadTranscript
                   style={{ marginBottom: '0.2rem', display: 'flex', alignItems: 'center', gap: '0.7em' }}
                 >
                   <FaArrowLeft size={18} style={{ color: 'var(--color-primary)' }} />
-                  <span>Character Creator</span>
+                  <span>{t("menuCharacterCreator")}</span>
                 </button>
               )}
               <button
@@ -50,8 +100,109 @@ const ChatHeader: React.FC<ChatHeaderProps> = React.memo(({ onDownloadTranscript
                 style={{ display: 'flex', alignItems: 'center', gap: '0.7em' }}
               >
                 <FaRegFileAlt size={18} style={{ color: 'var(--color-primary)' }} />
-                <span className={styles.downloadLabel}>Download Transcript</span>
+                <span className={styles.downloadLabel}>{t("menuDownloadTranscript")}</span>
               </button>
+              {onCopyResumeLink && (
+                <button
+                  className={styles.downloadTranscriptLink}
+                  type="button"
+                  aria-label="Copy link to resume this conversation"
+                  onClick={onCopyResumeLink}
+                  style={{ display: 'flex', alignItems: 'center', gap: '0.7em' }}
+                >
+                  <FaLink size={18} style={{ color: 'var(--color-primary)' }} />
+                  <span>{t("menuCopyResumeLink")}</span>
+                </button>
+              )}
+              {onOpenMemories && (
+                <button
+                  className={styles.downloadTranscriptLink}
+                  type="button"
+                  aria-label="View what the characters remember about you"
+                  onClick={onOpenMemories}
+                  style={{ display: 'flex', alignItems: 'center', gap: '0.7em' }}
+                >
+                  <FaBrain size={18} style={{ color: 'var(--color-primary)' }} />
+                  <span>{t("menuMemories")}</span>
+                </button>
+              )}
+              {onOpenVoicePanel && (
+                <button
+                  className={styles.downloadTranscriptLink}
+                  type="button"
+                  aria-label="Choose and tune the character's voice"
+                  onClick={onOpenVoicePanel}
+                  style={{ display: 'flex', alignItems: 'center', gap: '0.7em' }}
+                >
+                  <FaSlidersH size={18} style={{ color: 'var(--color-primary)' }} />
+                  <span>{t("menuVoice")}</span>
+                </button>
+              )}
+              {onExportCharacterCard && (
+                <>
+                  <button
+                    className={styles.downloadTranscriptLink}
+                    type="button"
+                    aria-label="Export character card as JSON"
+                    onClick={() => onExportCharacterCard("json")}
+                    style={{ display: 'flex', alignItems: 'center', gap: '0.7em' }}
+                  >
+                    <FaFileExport size={18} style={{ color: 'var(--color-primary)' }} />
+                    <span>{t("menuExportJson")}</span>
+                  </button>
+                  <button
+                    className={styles.downloadTranscriptLink}
+                    type="button"
+                    aria-label="Export character card as PNG"
+                    onClick={() => onExportCharacterCard("png")}
+                    style={{ display: 'flex', alignItems: 'center', gap: '0.7em' }}
+                  >
+                    <FaImage size={18} style={{ color: 'var(--color-primary)' }} />
+                    <span>{t("menuExportPng")}</span>
+                  </button>
+                </>
+              )}
+              {canAddCharacter && (
+                <button
+                  className={styles.downloadTranscriptLink}
+                  type="button"
+                  aria-label="Add a character to the conversation"
+                  onClick={onAddCharacter}
+                  style={{ display: 'flex', alignItems: 'center', gap: '0.7em' }}
+                >
+                  <FaUserPlus size={18} style={{ color: 'var(--color-primary)' }} />
+                  <span>{t("menuAddCharacter")}</span>
+                </button>
+              )}
+              {isGroup && onRemoveCharacter && participants!.slice(1).map((p) => (
+                <button
+                  key={p.name}
+                  className={styles.downloadTranscriptLink}
+                  type="button"
+                  aria-label={`Remove ${p.name} from the conversation`}
+                  onClick={() => onRemoveCharacter(p.name)}
+                  style={{ display: 'flex', alignItems: 'center', gap: '0.7em' }}
+                >
+                  <FaUserMinus size={18} style={{ color: 'var(--color-primary)' }} />
+                  <span>Remove {p.name}</span>
+                </button>
+              ))}
+              {isGroup && onTurnPolicyChange && (
+                <label className={styles.turnPolicyLabel}>
+                  <span>{t("menuTurnTaking")}</span>
+                  <select
+                    className={styles.turnPolicySelect}
+                    value={turnPolicy ?? TURN_POLICIES[0]}
+                    onChange={(e) => { if (isTurnPolicy(e.target.value)) onTurnPolicyChange(e.target.value); }}
+                    aria-label="Turn taking policy"
+                    data-testid="turn-policy-select"
+                  >
+                    {TURN_POLICIES.map((policy) => (
+                      <option key={policy} value={policy}>{t(TURN_POLICY_LABELS[policy])}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
             </HamburgerMenu>
             <span className={styles.desktopToggle}>
               <DarkModeToggle className={styles.darkModeToggle} />
@@ -62,23 +213,52 @@ const ChatHeader: React.FC<ChatHeaderProps> = React.memo(({ onDownloadTranscript
           </span>
         </div>
         <div className={styles.headerCenter}>
-          <button
-            type="button"
-            aria-label="View character portrait"
-            style={{ background: 'none', border: 'none', padding: 0, margin: 0, cursor: 'pointer' }}
-            onClick={() => setShowImageModal(true)}
-          >
-            <Image
-              src={bot.avatarUrl}
-              alt={bot.name}
-              priority={true}
-              width={150}
-              height={150}
-              className="rounded-circle"
-              style={{ objectFit: 'cover' }}
-            />
-          </button>
-          <div className={styles.botNameLabel}>{bot.name}</div>
+          {isGroup ? (
+            <>
+              <div className={styles.groupAvatars} data-testid="group-avatars">
+                {participants!.map((p) => (
+                  <button
+                    key={p.name}
+                    type="button"
+                    aria-label={`View ${p.name}'s portrait`}
+                    style={{ background: 'none', border: 'none', padding: 0, margin: 0, cursor: 'pointer' }}
+                    onClick={() => setPortrait(p)}
+                  >
+                    <Image
+                      src={getAvatarThumbnailUrl(p.avatarUrl)}
+                      alt={p.name}
+                      priority={true}
+                      width={80}
+                      height={80}
+                      className="rounded-circle"
+                      style={{ objectFit: 'cover' }}
+                    />
+                  </button>
+                ))}
+              </div>
+              <div className={styles.botNameLabel}>{participants!.map((p) => p.name).join(" & ")}</div>
+            </>
+          ) : (
+            <>
+              <button
+                type="button"
+                aria-label="View character portrait"
+                style={{ background: 'none', border: 'none', padding: 0, margin: 0, cursor: 'pointer' }}
+                onClick={() => setPortrait(bot)}
+              >
+                <Image
+                  src={getAvatarThumbnailUrl(getExpressionUrl(bot.avatarUrl, bot.expressions, mood))}
+                  alt={bot.name}
+                  priority={true}
+                  width={150}
+                  height={150}
+                  className="rounded-circle"
+                  style={{ objectFit: 'cover' }}
+                />
+              </button>
+              <div className={styles.botNameLabel}>{bot.name}</div>
+            </>
+          )}
         </div>
         <div className={styles.headerRight}>
           <a
@@ -93,11 +273,18 @@ const ChatHeader: React.FC<ChatHeaderProps> = React.memo(({ onDownloadTranscript
         </div>
       </div>
       <ModalImageViewer
-        show={showImageModal}
-        imageUrl={bot.avatarUrl}
-        alt={bot.name}
-        onClose={() => setShowImageModal(false)}
-      />
+        show={portrait !== null}
+        imageUrl={portrait?.avatarUrl ?? bot.avatarUrl}
+        alt={portrait?.name ?? bot.name}
+        onClose={() => setPortrait(null)}
+      >
+        {onChangePortrait && portrait?.name === bot.name && (
+          <PortraitRegenerator
+            characterName={bot.name}
+            onSelect={(avatarUrl) => { onChangePortrait(avatarUrl); setPortrait(null); }}
+          />
+        )}
+      </ModalImageViewer>
     </div>
   );
 });
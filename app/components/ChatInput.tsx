@@ -1,5 +1,7 @@
 import React from "react";
 import styles from "./styles/ChatInput.module.css";
+import type { SpeechInputControls } from "./useSpeechInput";
+import { useTranslation } from "./LanguageContext";
 
 interface ChatInputProps {
   input: string;
@@ -13,6 +15,12 @@ interface ChatInputProps {
   onAudioToggle: () => void;
   onStopAudio: () => void;
   isAudioPlaying: boolean;
+  /** Group conversations only: asks the characters to keep talking among themselves. */
+  onContinueGroup?: () => void;
+  /** Set while a reply is streaming; stops generating it. */
+  onCancelReply?: () => void;
+  /** Voice input; the mic buttons are shown when an engine is available. */
+  speechInput?: SpeechInputControls;
 }
 
 const ChatInput: React.FC<ChatInputProps> = ({
@@ -27,7 +35,24 @@ const ChatInput: React.FC<ChatInputProps> = ({
   onAudioToggle,
   onStopAudio,
   isAudioPlaying,
+  onContinueGroup,
+  onCancelReply,
+  speechInput,
 }) => {
+  const t = useTranslation();
+  const handsFree = speechInput?.mode === "hands-free";
+  const micDisabled = handsFree || loading || !apiAvailable || !!speechInput?.transcribing;
+  // Space and Enter hold the mic button like a pointer press, so push-to-talk works from the keyboard
+  const handleMicKeyDown = (e: React.KeyboardEvent) => {
+    if ((e.key === " " || e.key === "Enter") && !e.repeat) {
+      e.preventDefault();
+      speechInput?.startListening();
+    }
+  };
+  const handleMicKeyUp = (e: React.KeyboardEvent) => {
+    if (e.key === " " || e.key === "Enter") speechInput?.stopListening();
+  };
+
   const handleAudioToggle = () => {
     onAudioToggle();
   };
@@ -49,7 +74,13 @@ const ChatInput: React.FC<ChatInputProps> = ({
           onChange={(e) => setInput(e.target.value)}
           onKeyDown={onKeyDown}
           className={styles.chatInput}
-          placeholder={!apiAvailable || loading ? "" : "Type in your message here..."}
+          placeholder={
+            !apiAvailable || loading
+              ? ""
+              : speechInput?.listening
+                ? t("chatListening")
+                : speechInput?.transcribing ? t("chatTranscribing") : t("chatPlaceholder")
+          }
           ref={inputRef}
           disabled={loading || !apiAvailable}
           autoFocus
@@ -68,8 +99,75 @@ const ChatInput: React.FC<ChatInputProps> = ({
           data-testid="chat-send-button"
           aria-label={loading || !apiAvailable ? "Send disabled" : "Send message"}
         >
-          {loading || !apiAvailable ? "HOLD" : "Send"}
+          {loading || !apiAvailable ? t("chatHold") : t("chatSend")}
         </button>
+        {speechInput?.supported && (
+          <>
+            <button
+              type="button"
+              className={`${styles.micButton} ${speechInput.listening ? styles.micButtonListening : ""}`}
+              onPointerDown={micDisabled ? undefined : speechInput.startListening}
+              onPointerUp={speechInput.stopListening}
+              onPointerLeave={handsFree ? undefined : speechInput.stopListening}
+              onKeyDown={micDisabled ? undefined : handleMicKeyDown}
+              onKeyUp={handleMicKeyUp}
+              disabled={micDisabled}
+              aria-label={handsFree ? "Listening hands-free" : "Hold to talk"}
+              aria-pressed={speechInput.listening}
+              title={handsFree ? "Listening hands-free" : "Hold to talk"}
+              data-testid="chat-mic-button"
+            >
+              <svg width="22" height="22" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" aria-hidden="true">
+                <rect x="9" y="3" width="6" height="11" rx="3" stroke="currentColor" strokeWidth="2" />
+                <path d="M5 11a7 7 0 0014 0M12 18v3" stroke="currentColor" strokeWidth="2" strokeLinecap="round" />
+              </svg>
+            </button>
+            <button
+              type="button"
+              className={styles.handsFreeButton}
+              onClick={speechInput.toggleHandsFree}
+              aria-pressed={handsFree}
+              aria-label={handsFree ? "Turn off hands-free voice input" : "Turn on hands-free voice input"}
+              title={t("chatHandsFree")}
+              data-testid="chat-hands-free-toggle"
+            >
+              {t("chatHandsFree")}
+            </button>
+          </>
+        )}
+        {onContinueGroup && (
+          <button
+            type="button"
+            onClick={onContinueGroup}
+            className={
+              loading || !apiAvailable
+                ? `${styles.chatSendButton} ${styles.disabled}`
+                : styles.chatSendButton
+            }
+            disabled={loading || !apiAvailable}
+            data-testid="chat-continue-button"
+            aria-label="Let the characters continue"
+            title="Let the characters continue"
+          >
+            {t("chatGoOn")}
+          </button>
+        )}
+        {onCancelReply && (
+          <button
+            type="button"
+            onClick={onCancelReply}
+            className={styles.stopButton}
+            aria-label="Stop generating"
+            title="Stop generating"
+            data-testid="chat-cancel-reply"
+          >
+            <span className={styles.stopIcon} aria-hidden="true">
+              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                <rect x="6" y="6" width="12" height="12" rx="2" fill="currentColor" />
+              </svg>
+            </span>
+          </button>
+        )}
         {isAudioPlaying && (
           <button
             type="button"
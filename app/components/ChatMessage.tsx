@@ -8,37 +8,53 @@ import styles from "./styles/ChatMessage.module.css";
 import Image from "next/image";
 import { Bot } from "./BotCreator";
 import { sanitizeForReact } from "../../src/utils/security";
+import { getAvatarThumbnailUrl } from "../../src/utils/avatarUrl";
+import { getExpressionUrl } from "../../src/utils/avatarMoods";
 import { logEvent, sanitizeLogMeta } from "../../src/utils/logger";
+import type { Message } from "../../src/types/message";
+import type { BranchInfo } from "../../src/utils/conversationBranches";
+
+export type { Message };
 
 /**
- * Interface representing a chat message's structure.
- * @interface Message
- * @property {string} text - The content of the message.
- * @property {string} sender - The sender of the message ('User' or 'AI').
+ * Callbacks for editing, regenerating and switching between alternate versions of messages.
  */
-export interface Message {
-  text: string;
-  sender: string;
-  audioFileUrl?: string;
+export interface MessageActions {
+  getBranchInfo: (messageId: string) => BranchInfo | null;
+  onSelectAlternate: (messageId: string, direction: -1 | 1) => void;
+  onRegenerate: (messageId: string) => void;
+  onEdit: (messageId: string, text: string) => void;
+  /** True while a reply is being generated. */
+  disabled?: boolean;
 }
 
 interface ChatMessageProps {
   message: Message;
   bot: Bot;
+  /** Characters in a group conversation; the sender's own name and avatar are shown when present. */
+  participants?: Bot[] | null;
+  actions?: MessageActions;
+  /** The reply is still being generated; shows a cursor and no actions. */
+  streaming?: boolean;
 }
 
 /**
  * ChatMessage component that displays a single message in the chat interface.
- * This component handles the styling and formatting of messages based on the sender.
+ * This component handles the styling and formatting of messages based on their role.
  *
  * @function
  * @param {Object} props - The component props
  * @param {Message} props.message - The message object containing text and sender information
- * @param {Bot} props.bot - The bot object containing name and avatarUrl for assistant messages
+ * @param {Bot} props.bot - The bot object containing name and avatarUrl (and expression portraits) for assistant messages
+ * @param {Bot[]} [props.participants] - Group participants used to resolve the speaker of assistant messages
+ * @param {MessageActions} [props.actions] - Edit, regenerate and alternate-switching callbacks
+ * @param {boolean} [props.streaming] - Whether the reply is still being generated
  * @returns {JSX.Element|null} The rendered chat message or null if message is invalid
  */
 const ChatMessage = React.memo(
-  ({ message, bot }: ChatMessageProps) => {
+  ({ message, bot, participants, actions, streaming = false }: ChatMessageProps) => {
+    const [draft, setDraft] = React.useState<string | null>(null);
+
     // Validate message object to prevent rendering errors
     if (!message || typeof message.text !== "string" || typeof message.sender !== "string") {
       if (typeof window !== 'undefined') {
@@ -51,9 +67,11 @@ const ChatMessage = React.memo(
       return null; // Render nothing if the message is invalid
     }
 
-    // Determine CSS classes based on message sender
-    const isUser = message.sender === "User";
+    // Determine CSS classes based on the message role, never the display name
+    const isUser = message.role === "user";
+    const speaker = participants?.find((p) => p.name === message.sender) ?? bot;
     const messageClass = isUser ? styles.userMessage : styles.botMessage;
+    const branch = actions?.getBranchInfo(message.id) ?? null;
     const senderClass = isUser
       ? styles.sender
       : `${styles.sender} ${styles.botSender}`;
@@ -62,13 +80,15 @@ const ChatMessage = React.memo(
       <div
         className={`${styles.message} ${messageClass} my-2`}
         role="article"
-        aria-label={isUser ? `Message from you: ${sanitizeForReact(message.text)}` : `Message from ${bot.name}: ${sanitizeForReact(message.text)}`}
+        data-message-id={message.id}
+        aria-busy={streaming || undefined}
+        aria-label={isUser ? `Message from you: ${sanitizeForReact(message.text)}` : `Message from ${speaker.name}: ${sanitizeForReact(message.text)}`}
       >
         <div className="rounded p-2 text-sm" style={{ display: 'flex', alignItems: 'flex-start', gap: 12 }}>
           {!isUser && (
             <Image
-              src={bot.avatarUrl}
-              alt={bot.name}
+              src={getAvatarThumbnailUrl(getExpressionUrl(speaker.avatarUrl, speaker.expressions, message.mood))}
+              alt={speaker.name}
               width={40}
               height={40}
               className="rounded-circle"
@@ -77,11 +97,96 @@ const ChatMessage = React.memo(
           )}
           <div style={{ flex: 1 }}>
             <div className={`mb-1 ${senderClass} text-left`} style={{ fontSize: '1.4rem' }}>
-              {isUser ? "Me" : bot.name}
-            </div>
-            <div className="text-left" style={{ fontSize: 'var(--chat-message-font-size)' }}>
-              {sanitizeForReact(message.text)}
+              {isUser ? "Me" : speaker.name}
             </div>
+            {draft !== null ? (
+              <form
+                className={styles.editForm}
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (!draft.trim()) return;
+                  actions?.onEdit(message.id, draft);
+                  setDraft(null);
+                }}
+              >
+                <textarea
+                  className={styles.editInput}
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  aria-label="Edit message"
+                  maxLength={2000}
+                  autoFocus
+                />
+                <div className={styles.messageActions}>
+                  <button type="submit" className={styles.actionButton} disabled={actions?.disabled || !draft.trim()}>
+                    Save &amp; resend
+                  </button>
+                  <button type="button" className={styles.actionButton} onClick={() => setDraft(null)}>
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <div
+                className={streaming ? `text-left ${styles.streaming}` : "text-left"}
+                style={{ fontSize: 'var(--chat-message-font-size)' }}
+                data-testid={streaming ? "chat-message-streaming" : undefined}
+              >
+                {sanitizeForReact(message.text)}
+              </div>
+            )}
+            {actions && !streaming && draft === null && (
+              <div className={styles.messageActions} data-testid="message-actions">
+                {branch && (
+                  <span className={styles.branchSwitcher}>
+                    <button
+                      type="button"
+                      className={styles.actionButton}
+                      onClick={() => actions.onSelectAlternate(message.id, -1)}
+                      disabled={actions.disabled || branch.index === 0}
+                      aria-label="Previous version"
+                    >
+                      ‹
+                    </button>
+                    <span aria-label={`Version ${branch.index + 1} of ${branch.total}`}>
+                      {branch.index + 1}/{branch.total}
+                    </span>
+                    <button
+                      type="button"
+                      className={styles.actionButton}
+                      onClick={() => actions.onSelectAlternate(message.id, 1)}
+                      disabled={actions.disabled || branch.index === branch.total - 1}
+                      aria-label="Next version"
+                    >
+                      ›
+                    </button>
+                  </span>
+                )}
+                {isUser ? (
+                  <button
+                    type="button"
+                    className={styles.actionButton}
+                    onClick={() => setDraft(message.text)}
+                    disabled={actions.disabled}
+                    aria-label="Edit message"
+                    title="Edit and resend"
+                  >
+                    ✎
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    className={styles.actionButton}
+                    onClick={() => actions.onRegenerate(message.id)}
+                    disabled={actions.disabled}
+                    aria-label="Regenerate reply"
+                    title="Regenerate reply"
+                  >
+                    ↻
+                  </button>
+                )}
+              </div>
+            )}
           </div>
         </div>
       </div>
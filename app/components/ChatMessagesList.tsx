@@ -3,40 +3,52 @@
  *
  * Renders a list of chat messages, using react-window for virtualization if the list is long.
  * Displays skeletons while loading, and always anchors the most recent messages at the bottom.
+ * A reply that is still streaming is shown after the list.
  *
  * @param {ChatMessagesListProps} props - The component props
  * @returns {JSX.Element} The rendered list of chat messages
  */
 
 import React from "react";
-import ChatMessage from "./ChatMessage";
+import ChatMessage, { type MessageActions } from "./ChatMessage";
 import { Bot } from "./BotCreator";
+import type { Message } from "../../src/types/message";
 import VirtualizedMessagesList from "./VirtualizedMessagesList";
 
 interface ChatMessagesListProps {
-  messages: Array<{
-    text: string;
-    sender: string;
-    audioFileUrl?: string;
-  }>;
+  messages: Message[];
   bot: Bot;
+  participants?: Bot[] | null;
+  /** Edit, regenerate and alternate-switching callbacks for each message. */
+  actions?: MessageActions;
+  /** Partial reply currently being generated, if any. */
+  streamingMessage?: Message | null;
 }
 
 const VIRTUALIZE_THRESHOLD = 30;
 
 
-const ChatMessagesList: React.FC<ChatMessagesListProps> = React.memo(({ messages, bot }) => {
+const ChatMessagesList: React.FC<ChatMessagesListProps> = React.memo(({ messages, bot, participants, actions, streamingMessage }) => {
+  const streaming = streamingMessage?.text
+    ? <ChatMessage key={streamingMessage.id} message={streamingMessage} bot={bot} participants={participants} streaming />
+    : null;
   if (messages.length < VIRTUALIZE_THRESHOLD) {
     return (
       <>
         <div style={{ flexGrow: 1 }} />
-        {messages.map((msg, index) => (
-          <ChatMessage key={index} message={msg} bot={bot} />
+        {messages.map((msg) => (
+          <ChatMessage key={msg.id} message={msg} bot={bot} participants={participants} actions={actions} />
         ))}
+        {streaming}
       </>
     );
   }
-  return <VirtualizedMessagesList messages={messages} bot={bot} />;
+  return (
+    <>
+      <VirtualizedMessagesList messages={messages} bot={bot} participants={participants} actions={actions} />
+      {streaming}
+    </>
+  );
 });
 
 ChatMessagesList.displayName = "ChatMessagesList";
@@ -12,14 +12,34 @@
 import React from "react";
 import "../globals.css";
 import ChatMessagesList from "./ChatMessagesList";
+import type { MessageActions } from "./ChatMessage";
 import "@trendmicro/react-toggle-switch/dist/react-toggle-switch.css";
 import styles from "./styles/ChatPage.module.css";
 import ChatInput from "./ChatInput";
 import ChatStatus from "./ChatStatus";
 import ApiUnavailableModal from "./ApiUnavailableModal";
 import ChatHeader from "./ChatHeader";
+import MemoryPanel from "./MemoryPanel";
+import VoicePanel from "./VoicePanel";
 import type { Bot } from "./BotCreator";
 import { useChatController } from "./useChatController";
+import { useSpeechInput } from "./useSpeechInput";
+import { getResumeUrl } from "./useConversationSync";
+import type { GroupChatOptions, TurnPolicy } from "../../src/utils/groupChat";
+import { getLanguage } from "../../src/utils/language";
+import { LanguageContext } from "./LanguageContext";
+
+interface ChatPageProps {
+  bot: Bot;
+  onBackToCharacterCreation?: () => void;
+  /** Present when several characters share the conversation. */
+  group?: GroupChatOptions;
+  onAddCharacter?: () => void;
+  onRemoveCharacter?: (name: string) => void;
+  onTurnPolicyChange?: (policy: TurnPolicy) => void;
+  /** Swaps the bot's portrait for one picked in the portrait viewer. */
+  onChangePortrait?: (avatarUrl: string) => void;
+}
 
 /**
  * ChatPage component that handles the chat interface and interactions with the Character Chatbot Generator.
@@ -27,7 +47,15 @@ import { useChatController } from "./useChatController";
  *
  * @returns {JSX.Element} The ChatPage component.
  */
-function ChatPage({ bot, onBackToCharacterCreation }: { bot: Bot, onBackToCharacterCreation?: () => void }) {
+function ChatPage({
+  bot,
+  onBackToCharacterCreation,
+  group,
+  onAddCharacter,
+  onRemoveCharacter,
+  onTurnPolicyChange,
+  onChangePortrait,
+}: ChatPageProps) {
   const {
     messages,
     input,
@@ -43,16 +71,76 @@ function ChatPage({ bot, onBackToCharacterCreation }: { bot: Bot, onBackToCharac
     inputRef,
     visibleCount,
     handleDownloadTranscript,
+    handleExportCharacterCard,
     handleHeaderLinkClick,
     handleBackToCharacterCreation,
     handleScroll,
     sendMessage,
+    sendText,
     handleKeyDown,
     handleAudioToggle,
     stopAudio,
     isAudioPlaying,
-  } = useChatController(bot, onBackToCharacterCreation);
+    participants,
+    continueGroupConversation,
+    conversationId,
+    conversationSessionId,
+    userId,
+    editMessage,
+    regenerateReply,
+    selectAlternate,
+    getMessageBranchInfo,
+    streamingReply,
+    cancelReply,
+    getVoiceConfig,
+    updateVoiceConfig,
+  } = useChatController(bot, onBackToCharacterCreation, group);
+
+  // The interface follows the language the character was created to speak
+  const { setLanguage } = React.useContext(LanguageContext);
+  React.useEffect(() => {
+    if (bot.language) setLanguage(bot.language);
+  }, [bot.language, setLanguage]);
+
+  const busy = loading || introLoading || !apiAvailable;
+  // Spoken messages are sent as soon as they are transcribed; hands-free waits while the character talks
+  const speechInput = useSpeechInput({
+    onTranscript: sendText,
+    onInterim: setInput,
+    paused: busy || isAudioPlaying,
+    ...(bot.language ? { lang: getLanguage(bot.language).voiceLocale } : {}),
+  });
+  const messageActions = React.useMemo<MessageActions>(() => ({
+    getBranchInfo: getMessageBranchInfo,
+    onSelectAlternate: selectAlternate,
+    onRegenerate: regenerateReply,
+    onEdit: editMessage,
+    disabled: busy,
+  }), [getMessageBranchInfo, selectAlternate, regenerateReply, editMessage, busy]);
+
+  // The header portrait wears the expression of the character's latest reply
+  const mood = React.useMemo(
+    () => [...messages].reverse().find((m) => m.role === "assistant" && m.sender === bot.name)?.mood ?? null,
+    [messages, bot.name]
+  );
 
+  const handleCopyResumeLink = React.useCallback(async () => {
+    if (!conversationId || !conversationSessionId) return;
+    const url = getResumeUrl(conversationId, conversationSessionId);
+    try {
+      await navigator.clipboard.writeText(url);
+    } catch {
+      // Clipboard access can be denied; let the user copy it manually
+      window.prompt("Copy this link to resume the conversation:", url);
+    }
+  }, [conversationId, conversationSessionId]);
+
+  const [showMemories, setShowMemories] = React.useState(false);
+  const openMemories = React.useCallback(() => setShowMemories(true), []);
+  const closeMemories = React.useCallback(() => setShowMemories(false), []);
+  const [showVoicePanel, setShowVoicePanel] = React.useState(false);
+  const openVoicePanel = React.useCallback(() => setShowVoicePanel(true), []);
+  const closeVoicePanel = React.useCallback(() => setShowVoicePanel(false), []);
 
   return (
     <div className={styles.chatLayout} data-testid="chat-layout">
@@ -61,6 +149,17 @@ function ChatPage({ bot, onBackToCharacterCreation }: { bot: Bot, onBackToCharac
         onHeaderLinkClick={handleHeaderLinkClick}
         onBackToCharacterCreation={handleBackToCharacterCreation}
         bot={bot}
+        mood={mood}
+        participants={participants}
+        turnPolicy={group?.turnPolicy}
+        onTurnPolicyChange={onTurnPolicyChange}
+        onAddCharacter={onAddCharacter}
+        onRemoveCharacter={onRemoveCharacter}
+        onCopyResumeLink={conversationId ? handleCopyResumeLink : undefined}
+        onOpenMemories={userId ? openMemories : undefined}
+        onOpenVoicePanel={openVoicePanel}
+        onExportCharacterCard={group ? undefined : handleExportCharacterCard}
+        onChangePortrait={onChangePortrait}
       />
       <div
         ref={chatBoxRef}
@@ -75,9 +174,12 @@ function ChatPage({ bot, onBackToCharacterCreation }: { bot: Bot, onBackToCharac
         <ChatMessagesList
           messages={messages.slice(-visibleCount)}
           bot={bot}
+          participants={participants}
+          actions={messageActions}
+          streamingMessage={streamingReply}
         />
       </div>
-      {(loading || introLoading) && (
+      {(loading || introLoading) && !streamingReply?.text && (
         <div data-testid="loading-indicator" className={styles.spinnerContainerFixed}>
           <span className={styles.genericSpinner} aria-label="Loading" />
         </div>
@@ -94,10 +196,28 @@ function ChatPage({ bot, onBackToCharacterCreation }: { bot: Bot, onBackToCharac
         onAudioToggle={handleAudioToggle}
         onStopAudio={stopAudio}
         isAudioPlaying={isAudioPlaying}
+        onContinueGroup={participants ? continueGroupConversation : undefined}
+        onCancelReply={streamingReply ? cancelReply : undefined}
+        speechInput={speechInput}
       />
-      {/* Prefer introError if present, else error */}
-      <ChatStatus error={introError ?? error ?? ""} retrying={retrying} />
+      {/* Prefer introError if present, else error, else a voice input problem */}
+      <ChatStatus error={introError ?? (error || speechInput.error)} retrying={retrying} />
       <ApiUnavailableModal show={!apiAvailable} />
+      {showMemories && userId && (
+        <MemoryPanel
+          userId={userId}
+          characterNames={(participants ?? [bot]).map((p) => p.name)}
+          onClose={closeMemories}
+        />
+      )}
+      {showVoicePanel && (
+        <VoicePanel
+          characterNames={(participants ?? [bot]).map((p) => p.name)}
+          getVoiceConfig={getVoiceConfig}
+          onSave={updateVoiceConfig}
+          onClose={closeVoicePanel}
+        />
+      )}
     </div>
   );
 }
@@ -10,6 +10,7 @@
 
 import React from "react";
 import { logEvent } from "../../src/utils/logger";
+import { useTranslation } from "./LanguageContext";
 
 interface ChatStatusProps {
   error: string;
@@ -17,6 +18,7 @@ interface ChatStatusProps {
 }
 
 const ChatStatus: React.FC<ChatStatusProps> = ({ error, retrying }) => {
+  const t = useTranslation();
   if (typeof window !== 'undefined' && process.env.NODE_ENV !== 'production') {
     logEvent('info', 'chat_status_render', 'ChatStatus component rendered', {
       event: 'chat_status_render',
@@ -37,7 +39,7 @@ const ChatStatus: React.FC<ChatStatusProps> = ({ error, retrying }) => {
           data-testid="retrying-message"
           style={{ display: retrying ? undefined : 'none' }}
         >
-          Retrying connection...
+          {t("chatRetrying")}
         </div>
       )}
       {error && (
@@ -0,0 +1,53 @@
+// =============================
+// LanguageContext.tsx
+// React context for the interface language, chosen in BotCreator and switched
+// to a character's conversation language when its chat opens.
+// Components read translated strings through useTranslation().
+// =============================
+
+"use client";
+
+import React from "react";
+import { DEFAULT_LANGUAGE, parseLanguage, translate, type LanguageCode } from "../../src/utils/language";
+import type { UiStringKey } from "../../src/data/uiStrings";
+
+interface LanguageContextType {
+  language: LanguageCode;
+  setLanguage: (value: LanguageCode) => void;
+}
+
+export const LanguageContext = React.createContext<LanguageContextType>({
+  language: DEFAULT_LANGUAGE,
+  setLanguage: () => {},
+});
+
+export const LanguageProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [language, setLanguage] = React.useState<LanguageCode>(DEFAULT_LANGUAGE);
+
+  React.useEffect(() => {
+    const stored = typeof window !== 'undefined' ? parseLanguage(localStorage.getItem('language')) : null;
+    if (stored) setLanguage(stored);
+  }, []);
+
+  React.useEffect(() => {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem('language', language);
+      document.documentElement.lang = language;
+    }
+  }, [language]);
+
+  return (
+    <LanguageContext.Provider value={{ language, setLanguage }}>
+      {children}
+    </LanguageContext.Provider>
+  );
+};
+
+/** Translator for the current interface language. */
+export function useTranslation() {
+  const { language } = React.useContext(LanguageContext);
+  return React.useCallback(
+    (key: UiStringKey, values?: Record<string, string | number>) => translate(language, key, values),
+    [language],
+  );
+}
@@ -0,0 +1,154 @@
+// =============================
+// MemoryPanel.tsx
+// Modal listing what each character remembers about the user across sessions
+// (see /api/memories), with controls to forget single facts or everything.
+// =============================
+
+import React, { useCallback, useEffect, useState } from "react";
+import styles from "./styles/MemoryPanel.module.css";
+import { authenticatedFetch } from "../../src/utils/api";
+import { logEvent, sanitizeLogMeta } from "../../src/utils/logger";
+import type { CharacterMemory, MemoryCategory } from "../../src/utils/characterMemory";
+
+interface MemoryPanelProps {
+  userId: string;
+  /** Characters in the conversation; the first is shown initially. */
+  characterNames: string[];
+  onClose: () => void;
+}
+
+const CATEGORY_LABELS: Record<MemoryCategory, string> = {
+  identity: "About you",
+  preference: "Preference",
+  story: "Story",
+};
+
+const memoryQuery = (userId: string, characterName: string) =>
+  `userId=${encodeURIComponent(userId)}&characterName=${encodeURIComponent(characterName)}`;
+
+const MemoryPanel: React.FC<MemoryPanelProps> = ({ userId, characterNames, onClose }) => {
+  const [characterName, setCharacterName] = useState(characterNames[0] ?? "");
+  const [memories, setMemories] = useState<CharacterMemory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleEscape);
+    return () => window.removeEventListener("keydown", handleEscape);
+  }, [onClose]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError("");
+    authenticatedFetch(`/api/memories?${memoryQuery(userId, characterName)}`)
+      .then((res) => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return res.json();
+      })
+      .then((data) => {
+        if (!cancelled) setMemories(Array.isArray(data.memories) ? data.memories : []);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setMemories([]);
+        setError("Could not load memories.");
+        logEvent("error", "memories_load_failed", "Failed to load character memories", sanitizeLogMeta({
+          characterName,
+          error: err instanceof Error ? err.message : String(err),
+        }));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [userId, characterName]);
+
+  const forget = useCallback(async (memoryId?: string) => {
+    const url = memoryId
+      ? `/api/memories/${encodeURIComponent(memoryId)}?${memoryQuery(userId, characterName)}`
+      : `/api/memories?${memoryQuery(userId, characterName)}`;
+    setError("");
+    try {
+      const res = await authenticatedFetch(url, { method: "DELETE" });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      setMemories((prev) => (memoryId ? prev.filter((m) => m.id !== memoryId) : []));
+    } catch (err) {
+      setError("Could not delete the memory. Please try again.");
+      logEvent("error", "memories_delete_failed", "Failed to delete character memories", sanitizeLogMeta({
+        characterName,
+        all: !memoryId,
+        error: err instanceof Error ? err.message : String(err),
+      }));
+    }
+  }, [userId, characterName]);
+
+  return (
+    <div
+      className={styles.backdrop}
+      data-testid="memory-panel-backdrop"
+      onClick={(e) => { if (e.target === e.currentTarget) onClose(); }}
+    >
+      <div className={styles.panel} role="dialog" aria-modal="true" aria-labelledby="memory-panel-title">
+        <div className={styles.header}>
+          <h2 id="memory-panel-title" className={styles.title}>What {characterName} remembers</h2>
+          {characterNames.length > 1 && (
+            <select
+              className={styles.characterSelect}
+              value={characterName}
+              onChange={(e) => setCharacterName(e.target.value)}
+              aria-label="Character"
+            >
+              {characterNames.map((name) => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          )}
+        </div>
+        {error && <p className={styles.error} role="alert">{error}</p>}
+        {loading ? (
+          <p className={styles.empty}>Loading…</p>
+        ) : memories.length === 0 ? (
+          <p className={styles.empty}>Nothing yet. Facts you share in the chat will appear here.</p>
+        ) : (
+          <ul className={styles.list}>
+            {memories.map((memory) => (
+              <li key={memory.id} className={styles.item}>
+                <span>
+                  <span className={styles.category}>{CATEGORY_LABELS[memory.category] ?? memory.category}</span>
+                  {memory.text}
+                </span>
+                <button
+                  type="button"
+                  className={styles.button}
+                  aria-label={`Forget "${memory.text}"`}
+                  onClick={() => forget(memory.id)}
+                >
+                  Forget
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className={styles.footer}>
+          <button
+            type="button"
+            className={styles.button}
+            onClick={() => forget()}
+            disabled={loading || memories.length === 0}
+          >
+            Forget everything
+          </button>
+          <button type="button" className={styles.button} onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MemoryPanel;
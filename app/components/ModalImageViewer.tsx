@@ -1,7 +1,8 @@
 // =============================
 // ModalImageViewer.tsx
 // Modal component for displaying an enlarged image (e.g., character avatar).
-// Props: show (boolean), imageUrl (string), alt (string), onClose (function).
+// Props: show (boolean), imageUrl (string), alt (string), onClose (function),
+// and optional children rendered below the image (e.g., portrait regeneration).
 // Used in ChatHeader and BotCreator for image previews.
 // =============================
 
@@ -14,9 +15,10 @@ interface ModalImageViewerProps {
   imageUrl: string;
   alt: string;
   onClose: () => void;
+  children?: React.ReactNode;
 }
 
-const ModalImageViewer: React.FC<ModalImageViewerProps> = ({ show, imageUrl, alt, onClose }) => {
+const ModalImageViewer: React.FC<ModalImageViewerProps> = ({ show, imageUrl, alt, onClose, children }) => {
   if (!show) return null;
   return (
     <div className={styles.modalBackdrop} data-testid="modal-image-backdrop" onClick={onClose}>
@@ -51,6 +53,7 @@ const ModalImageViewer: React.FC<ModalImageViewerProps> = ({ show, imageUrl, alt
             boxSizing: 'border-box',
           }}
         />
+        {children}
       </div>
     </div>
   );
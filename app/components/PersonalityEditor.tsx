@@ -0,0 +1,138 @@
+// =============================
+// PersonalityEditor.tsx
+// Lets the user adjust a newly generated character's structured personality
+// (see personalityProfile), add a setting and example dialogue, and preview a
+// sample reply before the character is saved.
+// =============================
+
+import React, { useState } from "react";
+import styles from "./styles/PersonalityEditor.module.css";
+import type { Bot } from "./BotCreator";
+import { authenticatedFetch } from "../../src/utils/api";
+import { logEvent, sanitizeLogMeta } from "../../src/utils/logger";
+import {
+  MAX_EXAMPLE_DIALOGUE_LENGTH,
+  MAX_PROFILE_FIELD_LENGTH,
+  PERSONALITY_FIELDS,
+  buildPersonalityPrompt,
+  createEmptyProfile,
+  type PersonalityField,
+  type PersonalityProfile,
+} from "../../src/utils/personalityProfile";
+
+interface PersonalityEditorProps {
+  bot: Bot;
+  onSave: (bot: Bot) => void;
+  /** Discards the generated character. */
+  onCancel: () => void;
+}
+
+const FIELD_LABELS: Record<PersonalityField, { label: string; placeholder: string }> = {
+  speakingStyle: { label: "Speaking style", placeholder: "Formal and articulate" },
+  personalityTraits: { label: "Personality", placeholder: "Confident, analytical, slightly arrogant" },
+  knowledgeDomains: { label: "Knowledge", placeholder: "Deduction, chemistry, Victorian London" },
+  behavioralGuidelines: { label: "Behavior", placeholder: "Shows impatience with obvious observations" },
+  quirks: { label: "Quirks", placeholder: "Plays the violin when thinking" },
+  scenario: { label: "Scenario / setting", placeholder: "221B Baker Street, on a foggy evening in 1891" },
+  exampleDialogue: { label: "Example dialogue", placeholder: "User: Who are you?\nSherlock: A consulting detective. The only one." },
+};
+
+const MULTILINE_FIELDS: PersonalityField[] = ["behavioralGuidelines", "exampleDialogue"];
+
+const PersonalityEditor: React.FC<PersonalityEditorProps> = ({ bot, onSave, onCancel }) => {
+  const [profile, setProfile] = useState<PersonalityProfile>(() => ({ ...createEmptyProfile(), ...bot.profile }));
+  const [sampleMessage, setSampleMessage] = useState("");
+  const [preview, setPreview] = useState("");
+  const [previewing, setPreviewing] = useState(false);
+  const [error, setError] = useState("");
+
+  const updateField = (field: PersonalityField, value: string) => {
+    setProfile((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handlePreview = async () => {
+    setPreviewing(true);
+    setError("");
+    try {
+      const res = await authenticatedFetch("/api/preview-reply", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: bot.name, profile, message: sampleMessage, ...(bot.language ? { language: bot.language } : {}) }),
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const data = await res.json();
+      setPreview(typeof data.reply === "string" ? data.reply : "");
+    } catch (err) {
+      setPreview("");
+      setError("Could not generate a preview. Please try again.");
+      logEvent("error", "personality_preview_failed", "Failed to preview personality", sanitizeLogMeta({
+        characterName: bot.name,
+        error: err instanceof Error ? err.message : String(err),
+      }));
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleSave = () => {
+    onSave({ ...bot, profile, personality: buildPersonalityPrompt(bot.name, profile) });
+  };
+
+  return (
+    <div className={styles.editor} data-testid="personality-editor">
+      <h2 className={styles.title}>{bot.name}&apos;s personality</h2>
+      {!bot.profile && (
+        <p className={styles.note}>
+          This character has no editable fields yet. Saving replaces its current personality with what you enter here.
+        </p>
+      )}
+      {PERSONALITY_FIELDS.map((field) => {
+        const { label, placeholder } = FIELD_LABELS[field];
+        const id = `personality-${field}`;
+        const props = {
+          id,
+          className: styles.field,
+          value: profile[field] ?? "",
+          placeholder,
+          maxLength: field === "exampleDialogue" ? MAX_EXAMPLE_DIALOGUE_LENGTH : MAX_PROFILE_FIELD_LENGTH,
+          onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => updateField(field, e.target.value),
+        };
+        return (
+          <div key={field} className={styles.row}>
+            <label htmlFor={id} className={styles.label}>{label}</label>
+            {MULTILINE_FIELDS.includes(field) ? <textarea rows={3} {...props} /> : <input type="text" {...props} />}
+          </div>
+        );
+      })}
+      <div className={styles.previewBox}>
+        <div className={styles.row}>
+          <label htmlFor="personality-sample" className={styles.label}>Try a message</label>
+          <input
+            id="personality-sample"
+            type="text"
+            className={styles.field}
+            value={sampleMessage}
+            onChange={(e) => setSampleMessage(e.target.value)}
+            placeholder="Introduce yourself in a few sentences."
+            maxLength={300}
+          />
+        </div>
+        <button type="button" className={styles.button} onClick={handlePreview} disabled={previewing}>
+          {previewing ? "Generating…" : "Preview reply"}
+        </button>
+        {error && <p className={styles.error} role="alert">{error}</p>}
+        {preview && <p className={styles.preview} data-testid="personality-preview">{preview}</p>}
+      </div>
+      <div className={styles.footer}>
+        <button type="button" className={styles.button} onClick={onCancel}>
+          Discard
+        </button>
+        <button type="button" className={`${styles.button} ${styles.primary}`} onClick={handleSave}>
+          Save and chat
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PersonalityEditor;
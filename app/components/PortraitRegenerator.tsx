@@ -0,0 +1,148 @@
+// =============================
+// PortraitRegenerator.tsx
+// Controls shown under an enlarged portrait for replacing it: pick a style
+// preset, generate a few variants side by side and choose one, or upload an
+// image of your own. Personality and voice stay as they are.
+// =============================
+
+import React, { useRef, useState } from "react";
+import Image from "next/image";
+import styles from "./styles/PortraitRegenerator.module.css";
+import { useTranslation } from "./LanguageContext";
+import { api_generateAvatar } from "./api_generateAvatar";
+import { AVATAR_UPLOAD_ACCEPT, api_uploadAvatar } from "./api_uploadAvatar";
+import { logEvent, sanitizeLogMeta } from "../../src/utils/logger";
+import { getAvatarThumbnailUrl } from "../../src/utils/avatarUrl";
+import { AVATAR_STYLE_PRESETS, isAvatarStylePreset, type AvatarStylePreset } from "../../src/utils/avatarStyles";
+import type { UiStringKey } from "../../src/data/uiStrings";
+
+/** Portraits painted per request; the user picks one of them. */
+const VARIANT_COUNT = 3;
+
+const SILHOUETTE_URL = "/silhouette.svg";
+
+const STYLE_LABELS: Record<AvatarStylePreset, UiStringKey> = {
+  "oil-painting": "styleOilPainting",
+  "ink-sketch": "styleInkSketch",
+  "pixel-art": "stylePixelArt",
+  watercolor: "styleWatercolor",
+};
+
+interface PortraitRegeneratorProps {
+  characterName: string;
+  onSelect: (avatarUrl: string) => void;
+}
+
+const PortraitRegenerator: React.FC<PortraitRegeneratorProps> = ({ characterName, onSelect }) => {
+  const t = useTranslation();
+  const [style, setStyle] = useState<AvatarStylePreset | null>(null);
+  const [variants, setVariants] = useState<string[]>([]);
+  const [generating, setGenerating] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState("");
+
+  const regenerate = async () => {
+    setGenerating(true);
+    setFailed(false);
+    setVariants([]);
+    try {
+      // The silhouette is the server's fallback when no image could be made
+      const urls = (await api_generateAvatar(characterName, style, VARIANT_COUNT)).filter((url) => url !== SILHOUETTE_URL);
+      setVariants(urls);
+      setFailed(urls.length === 0);
+    } catch (err) {
+      logEvent("error", "portrait_regenerate_failed", "Failed to regenerate portrait", sanitizeLogMeta({
+        characterName,
+        style,
+        error: err instanceof Error ? err.message : String(err),
+      }));
+      setFailed(true);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const upload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so choosing the same file again still fires a change
+    e.target.value = "";
+    if (!file) return;
+    setUploading(true);
+    setUploadError("");
+    try {
+      onSelect(await api_uploadAvatar(file));
+    } catch (err) {
+      logEvent("error", "portrait_upload_failed", "Failed to upload portrait", sanitizeLogMeta({
+        characterName,
+        fileType: file.type,
+        error: err instanceof Error ? err.message : String(err),
+      }));
+      setUploadError(err instanceof Error ? err.message : "Could not upload the portrait.");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const busy = generating || uploading;
+
+  return (
+    <div className={styles.regenerator} data-testid="portrait-regenerator">
+      <div className={styles.controls}>
+        <label className={styles.styleLabel}>
+          <span>{t("portraitStyle")}</span>
+          <select
+            className={styles.select}
+            value={style ?? ""}
+            onChange={(e) => setStyle(isAvatarStylePreset(e.target.value) ? e.target.value : null)}
+            disabled={busy}
+            aria-label="Portrait style"
+          >
+            <option value="">{t("portraitStyleAuto")}</option>
+            {AVATAR_STYLE_PRESETS.map((preset) => (
+              <option key={preset} value={preset}>{t(STYLE_LABELS[preset])}</option>
+            ))}
+          </select>
+        </label>
+        <button type="button" className={styles.button} onClick={regenerate} disabled={busy}>
+          {t("portraitRegenerate")}
+        </button>
+        <button type="button" className={styles.button} onClick={() => fileInputRef.current?.click()} disabled={busy}>
+          {uploading ? t("uploadingPortrait") : t("portraitUpload")}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={AVATAR_UPLOAD_ACCEPT}
+          onChange={upload}
+          style={{ display: 'none' }}
+          aria-label="Portrait image file"
+        />
+      </div>
+      {generating && <p className={styles.note} role="status">{t("portraitGenerating")}</p>}
+      {failed && <p className={styles.error} role="alert">{t("portraitFailed")}</p>}
+      {uploadError && <p className={styles.error} role="alert">{uploadError}</p>}
+      {variants.length > 0 && (
+        <>
+          <p className={styles.note}>{t("portraitPick")}</p>
+          <div className={styles.variants}>
+            {variants.map((url, i) => (
+              <button
+                key={url}
+                type="button"
+                className={styles.variant}
+                aria-label={`Use portrait ${i + 1}`}
+                onClick={() => onSelect(url)}
+              >
+                <Image src={getAvatarThumbnailUrl(url)} alt={`${characterName}, variant ${i + 1}`} width={96} height={96} />
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PortraitRegenerator;
@@ -8,6 +8,7 @@
 
 import React from 'react';
 import { Message } from '../../src/types/message';
+import { createMessage } from '../../src/utils/messages';
 
 interface TestMessagesProps {
   onGenerateMessages: (messages: Message[]) => void;
@@ -17,10 +18,12 @@ const TestMessages: React.FC<TestMessagesProps> = ({ onGenerateMessages }) => {
   const generateTestMessages = () => {
     const testMessages: Message[] = [];
     for (let i = 1; i <= 100; i++) {
-      testMessages.push({
-        sender: i % 2 === 0 ? "User" : "TestBot",
+      const isUser = i % 2 === 0;
+      testMessages.push(createMessage({
+        role: isUser ? "user" : "assistant",
+        sender: isUser ? "User" : "TestBot",
         text: `This is test message #${i}. Lorem ipsum dolor sit amet, consectetur adipiscing elit. Sed do eiusmod tempor incididunt ut labore et dolore magna aliqua. Ut enim ad minim veniam, quis nostrud exercitation ullamco laboris.`
-      });
+      }));
     }
     onGenerateMessages(testMessages);
   };
@@ -1,20 +1,19 @@
 import React from "react";
 import { List as RWList } from "react-window";
-import ChatMessage from "./ChatMessage";
+import ChatMessage, { type MessageActions } from "./ChatMessage";
 import { Bot } from "./BotCreator";
+import type { Message } from "../../src/types/message";
 
 interface VirtualizedMessagesListProps {
-    messages: Array<{
-        text: string;
-        sender: string;
-        audioFileUrl?: string;
-    }>;
+    messages: Message[];
     bot: Bot;
+    participants?: Bot[] | null;
+    actions?: MessageActions;
     itemSize?: number;
     maxHeight?: number;
 }
 
-const VirtualizedMessagesList: React.FC<VirtualizedMessagesListProps> = ({ messages, bot, itemSize = 80, maxHeight = 480 }) => {
+const VirtualizedMessagesList: React.FC<VirtualizedMessagesListProps> = ({ messages, bot, participants, actions, itemSize = 80, maxHeight = 480 }) => {
     const itemCount = messages.length;
     const height = Math.min(maxHeight, itemCount * itemSize + 1);
     const startIdx = Math.max(0, itemCount - Math.floor(height / itemSize));
@@ -34,7 +33,7 @@ const VirtualizedMessagesList: React.FC<VirtualizedMessagesListProps> = ({ messa
 
     const Row: React.FC<RowProps> = ({ index, style }) => (
         <div style={style}>
-            <ChatMessage key={index + startIdx} message={visibleMessages[index]} bot={bot} />
+            <ChatMessage key={index + startIdx} message={visibleMessages[index]} bot={bot} participants={participants} actions={actions} />
         </div>
     );
 
@@ -47,7 +46,7 @@ const VirtualizedMessagesList: React.FC<VirtualizedMessagesListProps> = ({ messa
                 width={"100%"}
                 overscanCount={4}
                 rowComponent={Row}
-                rowProps={{ visibleMessages, bot }}
+                rowProps={{ visibleMessages, bot, participants, actions }}
                 style={{ flex: 1 }}
             />
         </div>
@@ -0,0 +1,371 @@
+// =============================
+// VoicePanel.tsx
+// Modal for choosing a character's voice after creation: lists the voices the
+// TTS engine offers (see /api/voices), previews a sample line, and tunes pitch,
+// speed and how the voice pronounces particular words. Saved choices apply to
+// the character's next replies.
+// =============================
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import styles from "./styles/VoicePanel.module.css";
+import { authenticatedFetch } from "../../src/utils/api";
+import { logEvent, sanitizeLogMeta } from "../../src/utils/logger";
+import {
+  clampPitch,
+  clampRate,
+  MAX_PRONUNCIATIONS,
+  parsePronunciations,
+  VOICE_PITCH_RANGE,
+  VOICE_RATE_RANGE,
+} from "../../src/utils/voiceHelpers";
+import type { CharacterVoiceConfig, Pronunciation } from "../../src/utils/characterVoices";
+import type { TtsVoice } from "../../src/utils/tts";
+
+type ListedVoice = TtsVoice & { type?: string };
+
+interface VoicePanelProps {
+  /** Characters in the conversation; the first is shown initially. */
+  characterNames: string[];
+  /** The voice a character currently speaks with, if one is known. */
+  getVoiceConfig: (characterName: string) => CharacterVoiceConfig | null;
+  onSave: (characterName: string, config: CharacterVoiceConfig) => void;
+  onClose: () => void;
+}
+
+const GENDER_LABELS: Record<number, string> = { 1: "male", 2: "female" };
+
+const DEFAULT_VOICE: CharacterVoiceConfig = {
+  languageCodes: ["en-GB"],
+  name: "en-GB-Wavenet-D",
+  ssmlGender: 1,
+  pitch: VOICE_PITCH_RANGE.default,
+  rate: VOICE_RATE_RANGE.default,
+  type: "Wavenet",
+};
+
+const sampleLineFor = (characterName: string) => `Hello, I am ${characterName}. Is this how I should sound?`;
+
+/** A pronunciation as edited in the panel; `value` is the transcription or the sound-alike spelling. */
+interface PronunciationRow {
+  text: string;
+  kind: "ipa" | "x-sampa" | "alias";
+  value: string;
+}
+
+const PRONUNCIATION_KINDS: Record<PronunciationRow["kind"], string> = {
+  ipa: "IPA",
+  "x-sampa": "X-SAMPA",
+  alias: "Sounds like",
+};
+
+function toRows(config: CharacterVoiceConfig): PronunciationRow[] {
+  return parsePronunciations(config.pronunciations).map((entry) => entry.phoneme
+    ? { text: entry.text, kind: entry.alphabet ?? "ipa", value: entry.phoneme }
+    : { text: entry.text, kind: "alias", value: entry.alias ?? "" });
+}
+
+/** The draft voice with the complete pronunciation rows; incomplete rows are left out. */
+function withPronunciations(config: CharacterVoiceConfig, rows: PronunciationRow[]): CharacterVoiceConfig {
+  const entries: Pronunciation[] = rows.map(({ text, kind, value }) =>
+    kind === "alias" ? { text, alias: value } : { text, phoneme: value, alphabet: kind });
+  const parsed = parsePronunciations(entries);
+  const next: CharacterVoiceConfig = { ...config };
+  delete next.pronunciations;
+  return parsed.length > 0 ? { ...next, pronunciations: parsed } : next;
+}
+
+const VoicePanel: React.FC<VoicePanelProps> = ({ characterNames, getVoiceConfig, onSave, onClose }) => {
+  const [characterName, setCharacterName] = useState(characterNames[0] ?? "");
+  const [draft, setDraft] = useState<CharacterVoiceConfig>(() => getVoiceConfig(characterName) ?? DEFAULT_VOICE);
+  const [language, setLanguage] = useState(draft.languageCodes[0] ?? "en-GB");
+  const [pronunciations, setPronunciations] = useState<PronunciationRow[]>(() => toRows(draft));
+  const [sampleText, setSampleText] = useState(() => sampleLineFor(characterName));
+  const [voices, setVoices] = useState<ListedVoice[]>([]);
+  const [engine, setEngine] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [previewing, setPreviewing] = useState(false);
+  const [error, setError] = useState("");
+  const previewAudioRef = useRef<HTMLAudioElement | null>(null);
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleEscape);
+    return () => window.removeEventListener("keydown", handleEscape);
+  }, [onClose]);
+
+  useEffect(() => {
+    let cancelled = false;
+    authenticatedFetch("/api/voices")
+      .then((res) => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return res.json();
+      })
+      .then((data) => {
+        if (cancelled) return;
+        setEngine(typeof data.engine === "string" ? data.engine : "");
+        setVoices(Array.isArray(data.voices) ? data.voices : []);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError("Could not load the list of voices.");
+        logEvent("error", "voices_load_failed", "Failed to load TTS voices", sanitizeLogMeta({
+          error: err instanceof Error ? err.message : String(err),
+        }));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  // Silence a preview that is still playing when the panel closes
+  useEffect(() => () => { previewAudioRef.current?.pause(); }, []);
+
+  const selectCharacter = useCallback((name: string) => {
+    const config = getVoiceConfig(name) ?? DEFAULT_VOICE;
+    setCharacterName(name);
+    setDraft(config);
+    setLanguage(config.languageCodes[0] ?? "en-GB");
+    setPronunciations(toRows(config));
+    setSampleText(sampleLineFor(name));
+    setError("");
+  }, [getVoiceConfig]);
+
+  const languages = useMemo(() => {
+    const codes = new Set(voices.flatMap((voice) => voice.languageCodes));
+    codes.add(language);
+    return [...codes].sort();
+  }, [voices, language]);
+
+  const languageVoices = useMemo(
+    () => voices.filter((voice) => voice.languageCodes.includes(language)),
+    [voices, language],
+  );
+
+  const chooseVoice = useCallback((voice: ListedVoice) => {
+    setDraft((current) => ({
+      ...current,
+      name: voice.name,
+      languageCodes: [language],
+      ssmlGender: voice.ssmlGender,
+      type: voice.type,
+    }));
+  }, [language]);
+
+  const chooseLanguage = useCallback((code: string) => {
+    setLanguage(code);
+    const candidates = voices.filter((voice) => voice.languageCodes.includes(code));
+    if (candidates.some((voice) => voice.name === draft.name)) return;
+    // Keep the character's gender when switching language, if the language has such a voice
+    const next = candidates.find((voice) => voice.ssmlGender === draft.ssmlGender) ?? candidates[0];
+    if (next) {
+      setDraft((current) => ({ ...current, name: next.name, languageCodes: [code], ssmlGender: next.ssmlGender, type: next.type }));
+    }
+  }, [voices, draft.name, draft.ssmlGender]);
+
+  const updatePronunciation = useCallback((index: number, change: Partial<PronunciationRow>) => {
+    setPronunciations((rows) => rows.map((row, i) => (i === index ? { ...row, ...change } : row)));
+  }, []);
+
+  const preview = useCallback(async () => {
+    setError("");
+    setPreviewing(true);
+    previewAudioRef.current?.pause();
+    try {
+      const res = await authenticatedFetch("/api/voices", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ voiceConfig: withPronunciations(draft, pronunciations), text: sampleText, botName: characterName }),
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const data = await res.json();
+      const audio = new Audio(data.audioFileUrl);
+      previewAudioRef.current = audio;
+      await audio.play();
+    } catch (err) {
+      setError("Could not preview this voice. Try another one.");
+      logEvent("error", "voice_preview_failed", "Failed to preview a voice", sanitizeLogMeta({
+        characterName,
+        voice: draft.name,
+        error: err instanceof Error ? err.message : String(err),
+      }));
+    } finally {
+      setPreviewing(false);
+    }
+  }, [draft, pronunciations, sampleText, characterName]);
+
+  const save = useCallback(() => {
+    onSave(characterName, withPronunciations({ ...draft, pitch: clampPitch(draft.pitch), rate: clampRate(draft.rate) }, pronunciations));
+    onClose();
+  }, [characterName, draft, pronunciations, onSave, onClose]);
+
+  const ttsDisabled = !loading && engine === "none";
+  const pitch = clampPitch(draft.pitch);
+  const rate = clampRate(draft.rate);
+
+  return (
+    <div
+      className={styles.backdrop}
+      data-testid="voice-panel-backdrop"
+      onClick={(e) => { if (e.target === e.currentTarget) onClose(); }}
+    >
+      <div className={styles.panel} role="dialog" aria-modal="true" aria-labelledby="voice-panel-title">
+        <div className={styles.header}>
+          <h2 id="voice-panel-title" className={styles.title}>{characterName}&apos;s voice</h2>
+          {characterNames.length > 1 && (
+            <select
+              className={styles.select}
+              value={characterName}
+              onChange={(e) => selectCharacter(e.target.value)}
+              aria-label="Character"
+            >
+              {characterNames.map((name) => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          )}
+        </div>
+        {error && <p className={styles.error} role="alert">{error}</p>}
+        {loading ? (
+          <p className={styles.note}>Loading voices…</p>
+        ) : ttsDisabled ? (
+          <p className={styles.note}>Voice output is turned off on this server.</p>
+        ) : (
+          <>
+            <label className={styles.field}>
+              <span>Language</span>
+              <select className={styles.select} value={language} onChange={(e) => chooseLanguage(e.target.value)}>
+                {languages.map((code) => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
+              </select>
+            </label>
+            <label className={styles.field}>
+              <span>Voice</span>
+              <select
+                className={styles.select}
+                value={draft.name}
+                onChange={(e) => {
+                  const voice = languageVoices.find((v) => v.name === e.target.value);
+                  if (voice) chooseVoice(voice);
+                }}
+              >
+                {!languageVoices.some((voice) => voice.name === draft.name) && (
+                  <option value={draft.name}>{draft.name} (current)</option>
+                )}
+                {languageVoices.map((voice) => (
+                  <option key={voice.name} value={voice.name}>
+                    {voice.name}{GENDER_LABELS[voice.ssmlGender] ? ` (${GENDER_LABELS[voice.ssmlGender]})` : ""}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className={styles.field}>
+              <span>Pitch: {pitch > 0 ? `+${pitch}` : pitch} semitones</span>
+              <input
+                type="range"
+                min={VOICE_PITCH_RANGE.min}
+                max={VOICE_PITCH_RANGE.max}
+                step={1}
+                value={pitch}
+                onChange={(e) => setDraft((current) => ({ ...current, pitch: Number(e.target.value) }))}
+              />
+            </label>
+            <label className={styles.field}>
+              <span>Speed: {rate.toFixed(2)}×</span>
+              <input
+                type="range"
+                min={VOICE_RATE_RANGE.min}
+                max={VOICE_RATE_RANGE.max}
+                step={0.05}
+                value={rate}
+                onChange={(e) => setDraft((current) => ({ ...current, rate: Number(e.target.value) }))}
+              />
+            </label>
+            <label className={styles.field}>
+              <span>Sample line</span>
+              <input
+                className={styles.sampleInput}
+                type="text"
+                maxLength={200}
+                value={sampleText}
+                onChange={(e) => setSampleText(e.target.value)}
+              />
+            </label>
+            <fieldset className={styles.pronunciations}>
+              <legend>Pronunciations</legend>
+              {pronunciations.length === 0 && (
+                <p className={styles.note}>Teach the voice how to say names it gets wrong, as IPA or a sound-alike spelling.</p>
+              )}
+              {pronunciations.map((row, index) => (
+                <div key={index} className={styles.pronunciationRow}>
+                  <input
+                    className={styles.sampleInput}
+                    type="text"
+                    maxLength={60}
+                    placeholder="Word"
+                    aria-label={`Word ${index + 1}`}
+                    value={row.text}
+                    onChange={(e) => updatePronunciation(index, { text: e.target.value })}
+                  />
+                  <select
+                    className={styles.select}
+                    aria-label={`Pronunciation type ${index + 1}`}
+                    value={row.kind}
+                    onChange={(e) => updatePronunciation(index, { kind: e.target.value as PronunciationRow["kind"] })}
+                  >
+                    {Object.entries(PRONUNCIATION_KINDS).map(([kind, label]) => (
+                      <option key={kind} value={kind}>{label}</option>
+                    ))}
+                  </select>
+                  <input
+                    className={styles.sampleInput}
+                    type="text"
+                    maxLength={100}
+                    placeholder={row.kind === "alias" ? "heff-EYE-stus" : "hɪˈfiːstəs"}
+                    aria-label={`Pronunciation ${index + 1}`}
+                    value={row.value}
+                    onChange={(e) => updatePronunciation(index, { value: e.target.value })}
+                  />
+                  <button
+                    type="button"
+                    className={styles.button}
+                    aria-label={`Remove pronunciation ${index + 1}`}
+                    onClick={() => setPronunciations((rows) => rows.filter((_, i) => i !== index))}
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                className={styles.button}
+                onClick={() => setPronunciations((rows) => [...rows, { text: "", kind: "ipa", value: "" }])}
+                disabled={pronunciations.length >= MAX_PRONUNCIATIONS}
+              >
+                Add pronunciation
+              </button>
+            </fieldset>
+          </>
+        )}
+        <div className={styles.footer}>
+          <button type="button" className={styles.button} onClick={preview} disabled={loading || ttsDisabled || previewing}>
+            {previewing ? "Preparing…" : "Preview"}
+          </button>
+          <span className={styles.footerRight}>
+            <button type="button" className={styles.button} onClick={onClose}>
+              Cancel
+            </button>
+            <button type="button" className={styles.button} onClick={save} disabled={loading || ttsDisabled}>
+              Save voice
+            </button>
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VoicePanel;
@@ -0,0 +1,25 @@
+// =============================
+// api_generateAvatar.ts
+// Utility for generating portrait variants for an existing character via API.
+// Used by the portrait regenerator in the chat header's image viewer.
+// =============================
+
+import { authenticatedFetch } from "../../src/utils/api";
+import type { AvatarStylePreset } from "../../src/utils/avatarStyles";
+
+// API utility to generate several candidate portraits; the silhouette alone means none could be made
+export async function api_generateAvatar(
+  name: string,
+  style: AvatarStylePreset | null,
+  variants: number
+): Promise<string[]> {
+  const res = await authenticatedFetch("/api/generate-avatar", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name, variants, ...(style ? { style } : {}) }),
+  });
+  if (!res.ok) throw new Error("Failed to generate portrait");
+  const data = await res.json();
+  if (Array.isArray(data.avatarUrls)) return data.avatarUrls.filter((url: unknown): url is string => typeof url === "string");
+  return typeof data.avatarUrl === "string" ? [data.avatarUrl] : [];
+}
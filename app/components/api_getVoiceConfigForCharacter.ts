@@ -5,13 +5,20 @@
 // =============================
 
 import { authenticatedFetch } from "../../src/utils/api";
+import type { CharacterDescription } from "../../src/utils/characterDescription";
+import { DEFAULT_LANGUAGE, type LanguageCode } from "../../src/utils/language";
 
 // API utility to fetch voice config for a character from the backend
-export async function api_getVoiceConfigForCharacter(name: string, gender?: string | null): Promise<import("../../src/utils/characterVoices").CharacterVoiceConfig> {
+export async function api_getVoiceConfigForCharacter(
+  name: string,
+  gender?: string | null,
+  description?: CharacterDescription | null,
+  language?: LanguageCode | null
+): Promise<import("../../src/utils/characterVoices").CharacterVoiceConfig> {
   const res = await authenticatedFetch("/api/get-voice-config", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(gender ? { name, gender } : { name }),
+    body: JSON.stringify({ name, ...(gender ? { gender } : {}), ...(description ? { description } : {}), ...(language && language !== DEFAULT_LANGUAGE ? { language } : {}) }),
   });
   if (!res.ok) throw new Error("Failed to fetch voice config");
   return await res.json();
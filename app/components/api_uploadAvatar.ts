@@ -0,0 +1,84 @@
+// =============================
+// api_uploadAvatar.ts
+// Utility for uploading a portrait the user drew or chose themselves via API.
+// Used by BotCreator and the portrait controls in the chat header, and to store
+// the portraits that arrive inside imported character cards.
+// =============================
+
+import { authenticatedFetch } from "../../src/utils/api";
+import { AVATAR_UPLOAD_TYPES, MAX_AVATAR_UPLOAD_BYTES } from "../../src/utils/avatarUrl";
+import { DEFAULT_AVATAR_URL } from "../../src/utils/characterCard";
+import { logEvent, sanitizeLogMeta } from "../../src/utils/logger";
+import type { Bot } from "./BotCreator";
+
+/** The file input `accept` value for portrait uploads. */
+export const AVATAR_UPLOAD_ACCEPT = AVATAR_UPLOAD_TYPES.join(",");
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+// API utility to upload a portrait; resolves to its /api/avatar URL. Errors carry a message for the user.
+export async function api_uploadAvatar(file: File): Promise<string> {
+  // Checked here to skip a pointless upload; the server checks the bytes themselves
+  if (file.type && !AVATAR_UPLOAD_TYPES.includes(file.type)) {
+    throw new Error("Please choose a PNG, JPEG or WebP image.");
+  }
+  if (file.size > MAX_AVATAR_UPLOAD_BYTES) {
+    throw new Error(`Images must be ${MAX_AVATAR_UPLOAD_BYTES / (1024 * 1024)} MB or smaller.`);
+  }
+  return uploadBase64Image(toBase64(new Uint8Array(await file.arrayBuffer())));
+}
+
+async function uploadBase64Image(image: string): Promise<string> {
+  const res = await authenticatedFetch("/api/upload-avatar", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ image }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok || typeof data.avatarUrl !== "string") {
+    throw new Error(typeof data.error === "string" ? data.error : "Failed to upload portrait");
+  }
+  return data.avatarUrl;
+}
+
+const UPLOADABLE_DATA_URL = /^data:(image\/(?:png|jpeg|webp));base64,([A-Za-z0-9+/=]+)$/;
+
+// Stores a card's data-URL image like an upload; null when it cannot be stored
+async function storeDataUrlImage(url: string, botName: string): Promise<string | null> {
+  const match = UPLOADABLE_DATA_URL.exec(url);
+  try {
+    if (!match || (match[2].length * 3) / 4 > MAX_AVATAR_UPLOAD_BYTES) throw new Error("Unsupported card image");
+    return await uploadBase64Image(match[2]);
+  } catch (err) {
+    logEvent("warn", "bot_card_portrait_upload_failed", "Could not store an imported card portrait", sanitizeLogMeta({
+      botName,
+      contentType: match?.[1] ?? null,
+      error: err instanceof Error ? err.message : String(err),
+    }));
+    return null;
+  }
+}
+
+// API utility that swaps the data-URL portraits of an imported card (e.g. the PNG card
+// itself) for stored /api/avatar URLs, so the bot stays small. A portrait that cannot be
+// stored falls back to the silhouette, and such an expression portrait is dropped.
+export async function api_storeCardPortraits(bot: Bot): Promise<Bot> {
+  const isDataUrl = (url: string) => url.startsWith("data:");
+  const avatarUrl = isDataUrl(bot.avatarUrl)
+    ? (await storeDataUrlImage(bot.avatarUrl, bot.name)) ?? DEFAULT_AVATAR_URL
+    : bot.avatarUrl;
+  if (!bot.expressions) return { ...bot, avatarUrl };
+
+  const entries = await Promise.all(Object.entries(bot.expressions).map(async ([mood, url]) =>
+    [mood, isDataUrl(url) ? await storeDataUrlImage(url, bot.name) : url] as const));
+  const kept = entries.filter((entry): entry is readonly [string, string] => entry[1] !== null);
+  const stored: Bot = { ...bot, avatarUrl, expressions: Object.fromEntries(kept) };
+  if (kept.length === 0) delete stored.expressions;
+  return stored;
+}
@@ -1,6 +1,7 @@
 /**
  * Audio playback hook for chat responses.
  * Ensures single playback at a time, respects audioEnabled ref, and exposes play/stop helpers.
+ * Streamed replies arrive as one clip per sentence; `queueAudio` plays those back to back.
  */
 
 import { useRef, useCallback, useState } from "react";
@@ -8,7 +9,8 @@ import { useRef, useCallback, useState } from "react";
 /**
  * Custom hook to handle audio playback for chat messages.
  * Ensures only one audio plays at a time and respects an audioEnabled ref.
- * Returns playAudio(audioFileUrl: string, signal?: AbortSignal) and audioRef.
+ * Returns playAudio(audioFileUrl: string, signal?: AbortSignal), queueAudio(audioFileUrl: string, signal?: AbortSignal),
+ * waitForAudioIdle() and audioRef.
  */
 export function useAudioPlayer(
   audioEnabledRef: React.MutableRefObject<boolean>,
@@ -22,11 +24,18 @@ export function useAudioPlayer(
   const audioRef = audioRefParam ?? internalAudioRef;
   const sourceRef = sourceRefParam ?? internalSourceRef;
   const [isAudioPlaying, setIsAudioPlaying] = useState(false);
+  // Sentence clips waiting for the current one to finish
+  const queueRef = useRef<HTMLAudioElement[]>([]);
+  // True from the first queued clip until the queue runs dry or playback is stopped
+  const queuePlayingRef = useRef(false);
 
   // Keep AudioContext available for specialized cases; default to lightweight HTMLAudioElement playback.
 
   // Update useCallback dependencies
   const playAudio = useCallback(async (src: string, signal?: AbortSignal) => {
+    // A new clip replaces any queued sentence clips
+    queueRef.current = [];
+    queuePlayingRef.current = false;
     // Stop prior playback before starting a new clip
     if (sourceRef.current) {
       try { (sourceRef.current as AudioBufferSourceNode | null)?.stop?.(); } catch { }
@@ -102,6 +111,8 @@ export function useAudioPlayer(
 
   // Expose a stop function for toggling audio off or unmount
   const stopAudio = useCallback(() => {
+    queueRef.current = [];
+    queuePlayingRef.current = false;
     if (sourceRef.current) {
       try { (sourceRef.current as AudioBufferSourceNode | null)?.stop?.(); } catch { }
       try { (sourceRef.current as AudioBufferSourceNode | null)?.disconnect?.(); } catch { }
@@ -114,5 +125,68 @@ export function useAudioPlayer(
     setIsAudioPlaying(false);
   }, [audioRef, sourceRef]);
 
-  return { playAudio, audioRef, stopAudio, isAudioPlaying };
+  // Starts the next queued clip, or marks the queue idle when none is left
+  const playNextQueued = useCallback(() => {
+    const clip = queueRef.current.shift();
+    if (!clip) {
+      queuePlayingRef.current = false;
+      audioRef.current = null;
+      setIsAudioPlaying(false);
+      return;
+    }
+    queuePlayingRef.current = true;
+    clip.muted = !audioEnabledRef.current;
+    audioRef.current = clip;
+    setIsAudioPlaying(true);
+    const promiseLike = clip.play();
+    if (promiseLike && typeof (promiseLike as Promise<void>).catch === 'function') {
+      // A clip that cannot play is skipped so it does not hold up the rest of the reply
+      void (promiseLike as Promise<void>).catch(() => {
+        if (audioRef.current === clip) playNextQueued();
+      });
+    }
+  }, [audioEnabledRef, audioRef]);
+
+  /**
+   * Plays a clip after those already queued. Each clip is created (and so starts buffering)
+   * as soon as it is queued, and starts from the previous clip's ended event, which keeps the
+   * pauses between sentences short. Aborting `signal` stops the whole queue.
+   */
+  const queueAudio = useCallback((src: string, signal?: AbortSignal) => {
+    if (signal?.aborted) return;
+    const clip = new window.Audio(src);
+    clip.preload = 'auto';
+    clip.onended = () => {
+      if (audioRef.current === clip) playNextQueued();
+    };
+    signal?.addEventListener('abort', () => {
+      if (audioRef.current === clip || queueRef.current.includes(clip)) stopAudio();
+    }, { once: true });
+    queueRef.current.push(clip);
+    if (!queuePlayingRef.current) {
+      // Take over from whatever was playing before this reply
+      if (sourceRef.current || audioRef.current) {
+        const queued = queueRef.current;
+        stopAudio();
+        queueRef.current = queued;
+      }
+      playNextQueued();
+    }
+  }, [audioRef, sourceRef, stopAudio, playNextQueued]);
+
+  // Resolve once the current clip has finished, been paused or stopped. Used to
+  // keep group conversation speakers from talking over each other.
+  const waitForAudioIdle = useCallback((pollMs = 200) => new Promise<void>((resolve) => {
+    const check = () => {
+      const audio = audioRef.current;
+      if (!audio || audio.paused || audio.ended) {
+        resolve();
+        return;
+      }
+      setTimeout(check, pollMs);
+    };
+    check();
+  }), [audioRef]);
+
+  return { playAudio, queueAudio, audioRef, stopAudio, isAudioPlaying, waitForAudioIdle };
 }
@@ -5,10 +5,19 @@ import type { Bot } from "./BotCreator";
 import { logEvent, sanitizeLogMeta } from "../../src/utils/logger";
 import { persistVoiceConfig } from "../../src/utils/voiceConfigPersistence";
 import type { CharacterValidationResult } from "../../pages/api/validate-character";
+import { parsePersonalityProfile, type PersonalityProfile } from "../../src/utils/personalityProfile";
+import {
+    createEmptyDescription,
+    formatCharacterDescription,
+    parseCharacterDescription,
+    type CharacterDescription,
+} from "../../src/utils/characterDescription";
+import { DEFAULT_LANGUAGE, translate, type LanguageCode } from "../../src/utils/language";
+import { parseAvatarExpressions, type AvatarExpressions } from "../../src/utils/avatarMoods";
 
 type ProgressStep = "personality" | "avatar" | "voice" | null;
 
-export function useBotCreation(onBotCreated: (bot: Bot) => void) {
+export function useBotCreation(onBotCreated: (bot: Bot) => void, language: LanguageCode = DEFAULT_LANGUAGE) {
     const [input, setInput] = useState<string>("");
     const [error, setError] = useState<string>("");
     const [loading, setLoading] = useState<boolean>(false);
@@ -18,6 +27,11 @@ export function useBotCreation(onBotCreated: (bot: Bot) => void) {
     const [validationResult, setValidationResult] = useState<CharacterValidationResult | null>(null);
     const [showValidationModal, setShowValidationModal] = useState<boolean>(false);
     const [validating, setValidating] = useState<boolean>(false);
+    // "Describe your character" mode: the free-text description drives generation instead of the name alone
+    const [describing, setDescribing] = useState<boolean>(false);
+    const [description, setDescription] = useState<CharacterDescription>(createEmptyDescription);
+    // A portrait the user uploaded; used instead of generating one
+    const [customAvatarUrl, setCustomAvatarUrl] = useState<string | null>(null);
     // Cancellation token object per generation run. Each run assigns a fresh object so
     // previously-cancelled runs remain cancelled even if a new run starts.
     const cancelRequested = useRef<{ cancelled: boolean } | null>(null);
@@ -75,7 +89,12 @@ export function useBotCreation(onBotCreated: (bot: Bot) => void) {
     const handleCreate = async (e?: React.FormEvent) => {
         if (e) e.preventDefault();
         if (!input.trim()) {
-            setError("Please enter a name or character.");
+            setError(translate(language, "errorNameRequired"));
+            return;
+        }
+        const characterDescription = describing ? parseCharacterDescription(description) : null;
+        if (describing && !characterDescription) {
+            setError(translate(language, "errorDescriptionRequired"));
             return;
         }
 
@@ -122,7 +141,8 @@ export function useBotCreation(onBotCreated: (bot: Bot) => void) {
 
         if (typeof window !== 'undefined') {
             logEvent('info', 'bot_creation_started', 'User initiated bot creation', sanitizeLogMeta({
-                characterName: input.trim()
+                characterName: input.trim(),
+                original: !!characterDescription
             }));
         }
         setError("");
@@ -137,7 +157,10 @@ export function useBotCreation(onBotCreated: (bot: Bot) => void) {
                 input.trim(),
                 setProgress,
                 setLoadingMessage,
-                thisCancelToken
+                thisCancelToken,
+                characterDescription,
+                language,
+                customAvatarUrl
             );
             // If the run has not been cancelled, finish normally. Note: check the token's
             // cancelled flag (not truthiness of the ref) so we don't accidentally suppress
@@ -163,7 +186,7 @@ export function useBotCreation(onBotCreated: (bot: Bot) => void) {
                         error: err instanceof Error ? err.message : String(err)
                     }));
                 }
-                setError("Failed to generate character. Please try again.");
+                setError(translate(language, "errorCreateFailed"));
                 setProgress(null);
                 setLoadingMessage(null);
             }
@@ -236,7 +259,7 @@ export function useBotCreation(onBotCreated: (bot: Bot) => void) {
                     error: err instanceof Error ? err.message : String(err)
                 }));
             }
-            setError("Failed to get random character");
+            setError(translate(language, "errorRandomFailed"));
         } finally {
             setRandomizing(false);
         }
@@ -249,6 +272,8 @@ export function useBotCreation(onBotCreated: (bot: Bot) => void) {
         input, setInput, error, setError, loading, setLoading, progress, setProgress,
         randomizing, setRandomizing, loadingMessage, setLoadingMessage, 
         validating, validationResult, showValidationModal,
+        describing, setDescribing, description, setDescription,
+        customAvatarUrl, setCustomAvatarUrl,
         cancelRequested, lastRandomNameRef,
         handleCreate, handleCancel, handleRandomCharacter,
         handleValidationContinue, handleValidationCancel, handleValidationSuggestion
@@ -261,25 +286,37 @@ export async function generateBotDataWithProgressCancelable(
     onProgress: (step: ProgressStep) => void,
     setLoadingMessage: (msg: string | null) => void,
     // Accept a per-run cancellation token object (or null) so cancellation is specific to the run
-    cancelToken: { cancelled: boolean } | null
+    cancelToken: { cancelled: boolean } | null,
+    // Set for original characters; sent to every generation step so they all follow the author's description
+    description: CharacterDescription | null = null,
+    // Conversation language: picks a voice that speaks it and is kept on the bot for /api/chat
+    language: LanguageCode = DEFAULT_LANGUAGE,
+    // An uploaded portrait; skips image generation
+    customAvatarUrl: string | null = null
 ): Promise<Bot> {
+    const t = (key: Parameters<typeof translate>[1]) => translate(language, key);
     // Implementation copied from previous inner function
-    let personality = `You are ${originalInputName}. Stay in character.`;
+    let personality = description
+        ? `You are ${originalInputName}.\n${formatCharacterDescription(description)}\nStay in character.`
+        : `You are ${originalInputName}. Stay in character.`;
+    const descriptionBody = description ? { description } : {};
     let correctedName = originalInputName;
+    let profile: PersonalityProfile | null = null;
     onProgress("personality");
-    setLoadingMessage("Creating personality");
+    setLoadingMessage(t("stepPersonality"));
     if (cancelToken?.cancelled) throw new Error("cancelled");
     try {
-        setLoadingMessage("Creating personality");
+        setLoadingMessage(t("stepPersonality"));
         const personalityRes = await authenticatedFetch("/api/generate-personality", {
             method: "POST",
             headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ name: originalInputName }),
+            body: JSON.stringify({ name: originalInputName, ...descriptionBody }),
         });
         if (cancelToken?.cancelled) throw new Error("cancelled");
         if (personalityRes.ok) {
             const data = await personalityRes.json();
             if (data.personality) personality = data.personality;
+            profile = parsePersonalityProfile(data.profile);
             if (data.correctedName) correctedName = data.correctedName;
             if (typeof window !== 'undefined' && process.env.NODE_ENV !== 'production') {
                 logEvent('info', 'bot_personality_generated', 'Personality generated', sanitizeLogMeta({
@@ -297,39 +334,50 @@ export async function generateBotDataWithProgressCancelable(
         }
     }
     onProgress("avatar");
-    setLoadingMessage("Generating portrait — may take up to 30 seconds");
-    let avatarUrl = "/silhouette.svg";
+    setLoadingMessage(t("loadingAvatar"));
+    // An uploaded portrait replaces the generated one; the voice is then cast without a gender hint
+    let avatarUrl = customAvatarUrl ?? "/silhouette.svg";
     let gender: string | null = null;
+    let expressions: AvatarExpressions | null = null;
     if (cancelToken?.cancelled) throw new Error("cancelled");
-    try {
-        setLoadingMessage("Generating portrait — may take up to 30 seconds");
-        const avatarRes = await authenticatedFetch("/api/generate-avatar", {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ name: correctedName }),
-        });
-        if (cancelToken?.cancelled) throw new Error("cancelled");
-        if (avatarRes.ok) {
-            const data = await avatarRes.json();
-            if (data.avatarUrl) {
-                avatarUrl = data.avatarUrl;
-                if (data.avatarUrl === "/silhouette.svg") {
-                    setLoadingMessage("Using default image");
+    if (!customAvatarUrl) {
+        try {
+            setLoadingMessage(t("loadingAvatar"));
+            const avatarRes = await authenticatedFetch("/api/generate-avatar", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ name: correctedName, expressions: true, ...descriptionBody }),
+            });
+            if (cancelToken?.cancelled) throw new Error("cancelled");
+            if (avatarRes.ok) {
+                const data = await avatarRes.json();
+                if (data.avatarUrl) {
+                    avatarUrl = data.avatarUrl;
+                    if (data.avatarUrl === "/silhouette.svg") {
+                        setLoadingMessage(t("loadingDefaultImage"));
+                    }
                 }
+                gender = data.gender || null;
+                expressions = parseAvatarExpressions(data.expressions);
+            } else {
+                setLoadingMessage(t("loadingDefaultImage"));
             }
-            gender = data.gender || null;
-        } else {
-            setLoadingMessage("Using default image");
+        } catch {
+            setLoadingMessage(t("loadingDefaultImage"));
         }
-    } catch {
-        setLoadingMessage("Using default image");
     }
     onProgress("voice");
-    setLoadingMessage("Selecting voice");
+    setLoadingMessage(t("stepVoice"));
     let voiceConfig = null;
     if (cancelToken?.cancelled) throw new Error("cancelled");
     try {
-        voiceConfig = await api_getVoiceConfigForCharacter(correctedName, gender);
+        if (language !== DEFAULT_LANGUAGE) {
+            voiceConfig = await api_getVoiceConfigForCharacter(correctedName, gender, description, language);
+        } else {
+            voiceConfig = description
+                ? await api_getVoiceConfigForCharacter(correctedName, gender, description)
+                : await api_getVoiceConfigForCharacter(correctedName, gender);
+        }
         if (typeof window !== 'undefined' && process.env.NODE_ENV !== 'production') {
             logEvent('info', 'bot_voice_config_generated', 'Voice config generated', sanitizeLogMeta({
                 characterName: correctedName,
@@ -343,7 +391,7 @@ export async function generateBotDataWithProgressCancelable(
                 error: err instanceof Error ? err.message : String(err)
             }));
         }
-        setLoadingMessage("Using default voice");
+        setLoadingMessage(t("loadingDefaultVoice"));
     }
     if (cancelToken?.cancelled) throw new Error("cancelled");
     if (!voiceConfig) {
@@ -353,5 +401,10 @@ export async function generateBotDataWithProgressCancelable(
     try {
         persistVoiceConfig(correctedName, voiceConfig);
     } catch {}
-    return { name: correctedName, personality, avatarUrl, voiceConfig, gender };
+    return {
+        name: correctedName, personality, avatarUrl, voiceConfig, gender,
+        ...(profile ? { profile } : {}),
+        ...(language !== DEFAULT_LANGUAGE ? { language } : {}),
+        ...(expressions ? { expressions } : {}),
+    };
 }
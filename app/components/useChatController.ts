@@ -1,24 +1,53 @@
 /**
  * Chat controller hook that orchestrates chat state, API calls, audio, and logging for the chat UI.
  * Handles message history, retries, intro generation, transcript export, and audio playback toggling.
+ * One-to-one replies are streamed: the text appears as it is generated and can be cancelled midway.
+ * When given a group, every participant takes turns replying according to the group's turn policy.
  */
-import React, { useState, useEffect, useRef, useCallback } from "react";
+import React, { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { downloadTranscript } from "../../src/utils/downloadTranscript";
+import { downloadCharacterCard, type CardExportFormat } from "../../src/utils/downloadCharacterCard";
 import { authenticatedFetch } from "../../src/utils/api";
-import { useSession } from "./useSession";
+import { readChatResponse } from "../../src/utils/chatStream";
+import { getUserId, useSession } from "./useSession";
 import { useApiError } from "./useApiError";
 import { useChatScrollAndFocus } from "./useChatScrollAndFocus";
 import { useAudioPlayer } from "./useAudioPlayer";
+import { useConversationSync } from "./useConversationSync";
 import storage from '../../src/utils/storage';
 import type { Message } from "../../src/types/message";
+import { createMessage, createUserMessage, loadChatHistory, saveChatHistory } from "../../src/utils/messages";
+import {
+    getBranchesKey,
+    getBranchInfo,
+    loadConversationTree,
+    mergeActivePath,
+    saveConversationTree,
+    selectAlternate as selectBranchAlternate,
+} from "../../src/utils/conversationBranches";
+import {
+    getSummaryKey,
+    loadRollingSummary,
+    saveRollingSummary,
+    selectUnsummarized,
+    type RollingSummary,
+} from "../../src/utils/contextWindow";
 import type { Bot } from "./BotCreator";
 import { logEvent, sanitizeLogMeta } from "../../src/utils/logger";
 import { api_getVoiceConfigForCharacter } from "./api_getVoiceConfigForCharacter";
 import { loadVoiceConfig, persistVoiceConfig } from "../../src/utils/voiceConfigPersistence";
+import { touchCharacters } from "../../src/utils/characterLibrary";
 import type { CharacterVoiceConfig } from "../../src/utils/characterVoices";
+import { formatSpeakerEntry, getGroupKey, planGroupTurn, type GroupChatOptions } from "../../src/utils/groupChat";
+import { isAvatarMood } from "../../src/utils/avatarMoods";
 
 const INITIAL_VISIBLE_COUNT = 20;
 const LOAD_MORE_COUNT = 10;
+const INTRO_PROMPT = "Introduce yourself in 2 sentences or less.";
+// Shorter user messages ("ok", "go on") are not sent for memory extraction
+const MIN_MEMORY_SOURCE_LENGTH = 10;
+// Earlier messages sent along with the user's message so the extractor has context
+const MEMORY_CONTEXT_MESSAGES = 3;
 
 // Safe focus helper: defer focusing to avoid synchronous DOM updates inside async callbacks
 const safeFocus = (ref: React.RefObject<HTMLInputElement | null>) => {
@@ -32,25 +61,42 @@ const safeFocus = (ref: React.RefObject<HTMLInputElement | null>) => {
     } catch {}
 };
 
-export function useChatController(bot: Bot, onBackToCharacterCreation?: () => void) {
-    const chatHistoryKey = `chatbot-history-${bot.name}`;
+const isAbortError = (err: unknown) =>
+    !!err && typeof err === "object" && (err as { name?: unknown }).name === "AbortError";
 
-    // Memoize messages loading from localStorage
-    const [messages, setMessages] = useState<Message[]>(() => {
-        try {
-            const saved = storage.getItem(chatHistoryKey);
-            if (saved) {
-                const parsed = JSON.parse(saved);
-                if (Array.isArray(parsed)) {
-                    return parsed.filter((m): m is Message =>
-                        m !== null && typeof m === 'object' &&
-                        typeof m.text === 'string' && typeof m.sender === 'string'
-                    );
-                }
-            }
-        } catch { }
-        return [];
-    });
+// Builds a character reply from an /api/chat response, keeping the model and request metadata
+const toAssistantMessage = (sender: string, response: Record<string, unknown>): Message => createMessage({
+    role: "assistant",
+    sender,
+    text: String(response.reply),
+    ...(typeof response.audioFileUrl === "string" ? { audioFileUrl: response.audioFileUrl } : {}),
+    ...(typeof response.model === "string" ? { model: response.model } : {}),
+    ...(response.usage && typeof response.usage === "object" ? { usage: response.usage as Message["usage"] } : {}),
+    ...(typeof response.requestId === "string" ? { requestId: response.requestId } : {}),
+    ...(isAvatarMood(response.mood) ? { mood: response.mood } : {}),
+});
+
+export function useChatController(bot: Bot, onBackToCharacterCreation?: () => void, group?: GroupChatOptions) {
+    // A group needs at least two characters; otherwise behave as a one-to-one chat with `bot`
+    const participants = useMemo(
+        () => (group && group.participants.length > 1 ? group.participants : null),
+        [group]
+    );
+    const turnPolicy = group?.turnPolicy;
+    const maxBotTurns = group?.maxBotTurns;
+    const conversationKey = participants ? getGroupKey(participants) : bot.name;
+    const chatHistoryKey = `chatbot-history-${conversationKey}`;
+
+    // Memoize messages loading from localStorage (legacy histories are upgraded on read)
+    const [messages, setMessages] = useState<Message[]>(() => loadChatHistory(chatHistoryKey));
+    // Alternate replies and edits; `messages` is always the tree's active path
+    const branchesKey = getBranchesKey(conversationKey);
+    const [branchTree, setBranchTree] = useState(() => loadConversationTree(branchesKey, messages));
+    // Rolling summary of the turns the server has folded out of the request history (loaded by the reset effect)
+    const summaryKey = getSummaryKey(conversationKey);
+    const rollingSummaryRef = useRef<RollingSummary | null>(null);
+    // Characters' long-term memories of the user are keyed by this durable id
+    const [userId] = useState(getUserId);
 
     // Voice config state with cookie + localStorage persistence and network fallback
     const [resolvedVoiceConfig, setResolvedVoiceConfig] = useState<CharacterVoiceConfig | null>(() => {
@@ -106,7 +152,9 @@ export function useChatController(bot: Bot, onBackToCharacterCreation?: () => vo
                 return setAndPersistVoiceConfig(bot.voiceConfig as CharacterVoiceConfig);
             }
             try {
-                const fetched = await api_getVoiceConfigForCharacter(bot.name, bot.gender);
+                const fetched = bot.language
+                    ? await api_getVoiceConfigForCharacter(bot.name, bot.gender, null, bot.language)
+                    : await api_getVoiceConfigForCharacter(bot.name, bot.gender);
                 return setAndPersistVoiceConfig(fetched);
             } catch (err) {
                 if (typeof window !== 'undefined') {
@@ -140,27 +188,33 @@ export function useChatController(bot: Bot, onBackToCharacterCreation?: () => vo
     const [introError, setIntroError] = useState<string | null>(null);
     const audioEnabledRef = useRef(audioEnabled);
     const [retrying, setRetrying] = useState(false);
+    // Reply being streamed for the one-to-one chat; joins `messages` once complete
+    const [streamingReply, setStreamingReply] = useState<Message | null>(null);
+    const streamAbortRef = useRef<AbortController | null>(null);
+    // Set once the streamed reply's sentence clips start playing, so appending the finished
+    // reply to `messages` does not cut its speech off
+    const streamedAudioRef = useRef(false);
     const chatBoxRef = useRef<HTMLDivElement>(null) as React.RefObject<HTMLDivElement>;
     const inputRef = useRef<HTMLInputElement | null>(null);
 
-    useChatScrollAndFocus({ chatBoxRef, inputRef, messages, loading });
+    useChatScrollAndFocus({ chatBoxRef, inputRef, messages, loading, streamingText: streamingReply?.text });
+
+    // Mirror the conversation to the server so it can be resumed on another device
+    const syncedGroup = useMemo(
+        () => (participants
+            ? { members: participants.filter((p) => p.name !== bot.name), turnPolicy: turnPolicy ?? "round-robin" as const }
+            : undefined),
+        [participants, bot.name, turnPolicy]
+    );
+    const { conversationId, conversationSessionId } = useConversationSync({ conversationKey, bot, group: syncedGroup, messages, sessionId });
 
     // Reset state when bot changes
     useEffect(() => {
-        // Reset messages to load the new bot's chat history
-        const newChatHistoryKey = `chatbot-history-${bot.name}`;
-        try {
-            const saved = storage.getItem(newChatHistoryKey);
-            if (saved) {
-                const parsed = JSON.parse(saved);
-                setMessages(Array.isArray(parsed) ? parsed.filter((m): m is Message =>
-                    m !== null && typeof m === 'object' &&
-                    typeof m.text === 'string' && typeof m.sender === 'string'
-                ) : []);
-            } else setMessages([]);
-        } catch {
-            setMessages([]);
-        }
+        // Reset messages to load the new bot's (or group's) chat history
+        const history = loadChatHistory(chatHistoryKey);
+        setMessages(history);
+        setBranchTree(loadConversationTree(branchesKey, history));
+        rollingSummaryRef.current = loadRollingSummary(summaryKey);
 
         // Reset intro sent flag so new character gets introduction
         introSentRef.current = false;
@@ -185,7 +239,10 @@ export function useChatController(bot: Bot, onBackToCharacterCreation?: () => vo
         // Reset last played audio hash for new character
         lastPlayedAudioHashRef.current = null;
 
-    }, [bot.name, setError]); // Only depend on bot.name to avoid unnecessary resets
+        // Abandon any group round still running for the previous conversation
+        groupRunRef.current++;
+
+    }, [chatHistoryKey, setError]); // Only depend on the history key to avoid unnecessary resets
 
     // Reset and hydrate voice config when bot changes
     useEffect(() => {
@@ -212,7 +269,43 @@ export function useChatController(bot: Bot, onBackToCharacterCreation?: () => vo
         return () => { cancelled = true; };
     }, [bot.name, bot.voiceConfig, setAndPersistVoiceConfig, ensureVoiceConfig]);
 
-    const { playAudio, stopAudio, isAudioPlaying, audioRef } = useAudioPlayer(audioEnabledRef);
+    const { playAudio, queueAudio, stopAudio, isAudioPlaying, audioRef, waitForAudioIdle } = useAudioPlayer(audioEnabledRef);
+
+    /**
+     * Resolves the voice for a group participant. The host bot reuses the primary voice state;
+     * other characters use their persisted config, then the one stored on the bot, then the API.
+     */
+    const resolveSpeakerVoiceConfig = useCallback(async (speaker: Bot): Promise<CharacterVoiceConfig | null> => {
+        if (speaker.name === bot.name) return ensureVoiceConfig();
+        try {
+            const stored = loadVoiceConfig(speaker.name);
+            if (stored) return stored;
+        } catch { /* ignore */ }
+        const config = speaker.voiceConfig || (speaker.language
+            ? await api_getVoiceConfigForCharacter(speaker.name, speaker.gender, null, speaker.language)
+            : await api_getVoiceConfigForCharacter(speaker.name, speaker.gender));
+        try { persistVoiceConfig(speaker.name, config); } catch {}
+        return config;
+    }, [bot.name, ensureVoiceConfig]);
+
+    /** The voice a character currently speaks with, for the voice panel. */
+    const getVoiceConfig = useCallback((name: string): CharacterVoiceConfig | null => {
+        if (name === bot.name) return voiceConfigRef.current;
+        try {
+            const stored = loadVoiceConfig(name);
+            if (stored) return stored;
+        } catch { /* ignore */ }
+        return participants?.find((p) => p.name === name)?.voiceConfig ?? null;
+    }, [bot.name, participants]);
+
+    /** Saves a voice chosen in the voice panel; the character's next replies use it. */
+    const updateVoiceConfig = useCallback((name: string, config: CharacterVoiceConfig) => {
+        if (name === bot.name) {
+            setAndPersistVoiceConfig(config);
+            return;
+        }
+        try { persistVoiceConfig(name, config); } catch {}
+    }, [bot.name, setAndPersistVoiceConfig]);
 
     // Sync audioEnabledRef with audioEnabled state and update muted property on active audio
     useEffect(() => {
@@ -244,8 +337,13 @@ export function useChatController(bot: Bot, onBackToCharacterCreation?: () => vo
                     method: "POST",
                     headers: { "Content-Type": "application/json" },
                     body: JSON.stringify({
+                        id: message.id,
+                        role: message.role,
                         sender: message.sender,
                         text: message.text,
+                        timestamp: message.timestamp,
+                        requestId: message.requestId,
+                        model: message.model,
                         sessionId: sessionId,
                         sessionDatetime: sessionDatetime,
                     }),
@@ -263,11 +361,176 @@ export function useChatController(bot: Bot, onBackToCharacterCreation?: () => vo
         [sessionId, sessionDatetime],
     );
 
+    const retryWithBackoff = useCallback(async <T>(fn: () => Promise<T>, maxRetries = 2, initialDelay = 800): Promise<T> => {
+        let delay = initialDelay;
+        let lastError;
+        for (let attempt = 0; attempt <= maxRetries; attempt++) {
+            if (attempt > 0) {
+                setRetrying(true);
+                if (process.env.NODE_ENV === 'test') {
+                    await new Promise(res => setTimeout(res, 10)); // Minimal delay in tests
+                } else {
+                    await Promise.resolve();
+                }
+            }
+            setError("");
+            try {
+                const result = await fn();
+                if (process.env.NODE_ENV === 'test') {
+                    await new Promise(res => setTimeout(res, 1)); // Minimal delay in tests
+                }
+                setRetrying(false);
+                return result;
+            } catch (err: unknown) {
+                lastError = err;
+                // A cancelled request is not a failure worth retrying
+                if (attempt === maxRetries || isAbortError(err)) {
+                    if (process.env.NODE_ENV === 'test') {
+                        await new Promise(res => setTimeout(res, 1)); // Minimal delay in tests
+                    }
+                    setRetrying(false);
+                    throw err;
+                }
+                if (process.env.NODE_ENV === 'test') {
+                    await new Promise((res) => setTimeout(res, 10)); // Minimal delay in tests
+                } else {
+                    await new Promise((res) => setTimeout(res, delay));
+                }
+                delay *= 2;
+            }
+        }
+        setRetrying(false);
+        throw lastError || new Error("Max retries reached");
+    }, [setError]);
+
+    // Convert messages to the conversation history format expected by /api/chat
+    const toConversationHistory = useCallback((history: Message[]) => history.map(msg => {
+        if (participants) {
+            return msg.role === "user" ? `User: ${msg.text}` : formatSpeakerEntry(msg.sender, msg.text);
+        }
+        return msg.role === "assistant" ? `Bot: ${msg.text}` : `User: ${msg.text}`;
+    }), [participants]);
+
+    // Sends only the turns after the rolling summary; the server decides what to fold into it
+    const buildHistoryPayload = useCallback((history: Message[]) => {
+        const { messages: sent, summary } = selectUnsummarized(history, rollingSummaryRef.current);
+        return {
+            sent,
+            body: {
+                conversationHistory: toConversationHistory(sent),
+                ...(summary ? { summary: summary.text } : {}),
+                ...(userId ? { userId } : {}),
+            },
+        };
+    }, [toConversationHistory, userId]);
+
+    // Keeps the summary the server returned, covering the first `summarizedCount` sent messages
+    const recordSummary = useCallback((response: Record<string, unknown>, sent: Message[]) => {
+        const count = response.summarizedCount;
+        if (typeof response.summary !== "string" || typeof count !== "number" || count < 1 || count > sent.length) return;
+        const summary = { text: response.summary, throughMessageId: sent[count - 1].id };
+        rollingSummaryRef.current = summary;
+        try { saveRollingSummary(summaryKey, summary); } catch {}
+    }, [summaryKey]);
+
+    // Incremented whenever the conversation changes so an in-flight group round stops appending
+    const groupRunRef = useRef(0);
+
+    /**
+     * Requests a single reply from `speaker` given the history before it.
+     * `skipCache` asks the server for a fresh reply instead of the cached one for the same history.
+     */
+    const requestReply = useCallback(async (speaker: Bot, requestMessage: string, history: Message[], skipCache = false) => {
+        const voiceConfig = await resolveSpeakerVoiceConfig(speaker);
+        if (!voiceConfig) {
+            throw new Error(`Voice configuration missing for ${speaker.name}`);
+        }
+        const { sent, body: historyBody } = buildHistoryPayload(history);
+        const response = await retryWithBackoff(
+            () => authenticatedFetch("/api/chat", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    message: requestMessage,
+                    personality: speaker.personality,
+                    ...(speaker.profile ? { profile: speaker.profile } : {}),
+                    botName: speaker.name,
+                    voiceConfig,
+                    gender: speaker.gender,
+                    ...(speaker.language ? { language: speaker.language } : {}),
+                    ...historyBody,
+                    ...(participants ? { groupParticipants: participants.map((p) => p.name) } : {}),
+                    ...(skipCache ? { skipCache: true } : {}),
+                }),
+            }).then(res => {
+                if (!res.ok) throw new Error(`HTTP ${res.status}`);
+                return res.json();
+            }),
+            2,
+            800
+        );
+        if (typeof response.reply !== 'string' || !response.reply) {
+            throw new Error('Invalid chat response: missing reply');
+        }
+        recordSummary(response, sent);
+        return toAssistantMessage(speaker.name, response);
+    }, [participants, resolveSpeakerVoiceConfig, retryWithBackoff, buildHistoryPayload, recordSummary]);
+
+    /**
+     * Requests one reply from each planned speaker in order. Each reply is appended as soon as the
+     * previous speaker has finished talking, and later speakers see the earlier replies in history.
+     */
+    const runGroupRound = useCallback(async (requestMessage: string, history: Message[], speakers: string[]) => {
+        if (!participants) return;
+        const run = groupRunRef.current;
+        let roundHistory = history;
+        for (const speakerName of speakers) {
+            const speaker = participants.find((p) => p.name === speakerName);
+            if (!speaker) continue;
+            const reply = await requestReply(speaker, requestMessage, roundHistory);
+            // Let the previous speaker finish before the next one starts talking
+            if (audioEnabledRef.current) await waitForAudioIdle();
+            if (groupRunRef.current !== run) return;
+            roundHistory = [...roundHistory, reply];
+            setMessages((prevMessages) => [...prevMessages, reply]);
+            logMessage(reply);
+        }
+    }, [participants, requestReply, waitForAudioIdle, logMessage]);
+
     const introSentRef = useRef(false);
     const introRequestInProgressRef = useRef(false);
     useEffect(() => {
         // Prevent multiple concurrent requests (React Strict Mode protection)
         if (introSentRef.current || introRequestInProgressRef.current) return;
+        if (messages.length === 0 && apiAvailable && participants) {
+            // Group intros outlive this effect (each appended intro changes messages.length),
+            // so cancellation is handled by groupRunRef instead of the effect cleanup.
+            introSentRef.current = true;
+            introRequestInProgressRef.current = true;
+            setIntroLoading(true);
+            const run = groupRunRef.current;
+            runGroupRound(INTRO_PROMPT, [], participants.map((p) => p.name))
+                .then(() => {
+                    if (groupRunRef.current === run) setIntroError(null);
+                })
+                .catch((e) => {
+                    if (groupRunRef.current !== run) return;
+                    const msg = "Failed to generate introductions for the group. Please try again.";
+                    setIntroError(msg);
+                    setError(msg);
+                    if (typeof window !== 'undefined') {
+                        logEvent('error', 'chat_group_intro_failed', msg, sanitizeLogMeta({
+                            participants: participants.map((p) => p.name).join(', '),
+                            error: e instanceof Error ? e.message : String(e)
+                        }));
+                    }
+                })
+                .finally(() => {
+                    introRequestInProgressRef.current = false;
+                    if (groupRunRef.current === run) setIntroLoading(false);
+                });
+            return;
+        }
         if (messages.length === 0 && apiAvailable) {
             introSentRef.current = true;
             introRequestInProgressRef.current = true;
@@ -296,11 +559,13 @@ export function useChatController(bot: Bot, onBackToCharacterCreation?: () => vo
                         method: "POST",
                         headers: { "Content-Type": "application/json" },
                         body: JSON.stringify({
-                            message: "Introduce yourself in 2 sentences or less.",
+                            message: INTRO_PROMPT,
                             personality: bot.personality,
+                            ...(bot.profile ? { profile: bot.profile } : {}),
                             botName: bot.name,
                             voiceConfig,
                             gender: bot.gender,
+                            ...(bot.language ? { language: bot.language } : {}),
                             conversationHistory: []
                         }),
                     }).then(res => {
@@ -311,11 +576,7 @@ export function useChatController(bot: Bot, onBackToCharacterCreation?: () => vo
                     if (typeof response.reply !== 'string' || !response.reply) {
                         throw new Error('Invalid intro response: missing reply');
                     }
-                    const introMsg: Message = {
-                        sender: bot.name,
-                        text: response.reply,
-                        audioFileUrl: response.audioFileUrl,
-                    };
+                    const introMsg = toAssistantMessage(bot.name, response);
                     setMessages([introMsg]);
                     logMessage(introMsg);
                     setIntroError(null);
@@ -345,58 +606,91 @@ export function useChatController(bot: Bot, onBackToCharacterCreation?: () => vo
                 introRequestInProgressRef.current = false;
             };
         }
-    }, [messages.length, apiAvailable, bot, logMessage, setError, ensureVoiceConfig]);
-
-    const sendMessage = useCallback(async () => {
-        async function retryWithBackoff<T>(fn: () => Promise<T>, maxRetries = 2, initialDelay = 800): Promise<T> {
-            let delay = initialDelay;
-            let lastError;
-            for (let attempt = 0; attempt <= maxRetries; attempt++) {
-                if (attempt > 0) {
-                    setRetrying(true);
-                    if (process.env.NODE_ENV === 'test') {
-                        await new Promise(res => setTimeout(res, 10)); // Minimal delay in tests
-                    } else {
-                        await Promise.resolve();
-                    }
-                }
-                setError("");
-                try {
-                    const result = await fn();
-                    if (process.env.NODE_ENV === 'test') {
-                        await new Promise(res => setTimeout(res, 1)); // Minimal delay in tests
-                    }
-                    setRetrying(false);
-                    return result;
-                } catch (err: unknown) {
-                    lastError = err;
-                    if (attempt === maxRetries) {
-                        if (process.env.NODE_ENV === 'test') {
-                            await new Promise(res => setTimeout(res, 1)); // Minimal delay in tests
-                        }
-                        setRetrying(false);
-                        throw err;
-                    }
-                    if (process.env.NODE_ENV === 'test') {
-                        await new Promise((res) => setTimeout(res, 10)); // Minimal delay in tests
-                    } else {
-                        await new Promise((res) => setTimeout(res, delay));
-                    }
-                    delay *= 2;
-                }
+    }, [messages.length, apiAvailable, bot, participants, runGroupRound, logMessage, setError, ensureVoiceConfig]);
+
+    /**
+     * Plans who speaks after `userMessage` (empty to let the characters continue) and runs the round.
+     * The caller has already appended the user's message to `history` and set the loading state.
+     */
+    const sendGroupRound = useCallback(async (userMessage: string, history: Message[]) => {
+        if (!participants) return;
+        const lastSpeaker = [...history].reverse().find((m) => m.role === "assistant")?.sender ?? null;
+        const speakers = planGroupTurn({
+            participants: participants.map((p) => p.name),
+            userMessage,
+            lastSpeaker,
+            policy: turnPolicy ?? "round-robin",
+            maxTurns: maxBotTurns,
+        });
+        try {
+            await runGroupRound("", history, speakers);
+        } catch (e) {
+            const msg = "Failed to send message or generate reply.";
+            setError(msg);
+            handleApiError(new Error(msg));
+            if (typeof window !== 'undefined') {
+                logEvent('error', 'chat_group_round_failed', msg, sanitizeLogMeta({
+                    participants: participants.map((p) => p.name).join(', '),
+                    error: e instanceof Error ? e.message : String(e),
+                    messageCount: history.length
+                }));
             }
-            setRetrying(false);
-            throw lastError || new Error("Max retries reached");
+        } finally {
+            setLoading(false);
         }
+    }, [participants, turnPolicy, maxBotTurns, runGroupRound, setError, handleApiError]);
 
-        if (!input.trim() || !apiAvailable || loading) return;
-        const userMessage: Message = { sender: "User", text: input };
-        setMessages((prevMessages) => [...prevMessages, userMessage]);
-        const currentInput = input;
-        setInput("");
+    /**
+     * Asks the server to extract lasting facts about the user from a new message, for every
+     * character in the room. Runs in the background; failures only cost the memory.
+     */
+    const rememberUserMessage = useCallback((userMessage: Message, history: Message[]) => {
+        if (!userId || userMessage.text.trim().length < MIN_MEMORY_SOURCE_LENGTH) return;
+        const characterNames = (participants ?? [bot]).map((p) => p.name);
+        authenticatedFetch("/api/memories", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+                userId,
+                characterNames,
+                entries: toConversationHistory([...history.slice(-MEMORY_CONTEXT_MESSAGES), userMessage]),
+            }),
+        }).then((res) => {
+            if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        }).catch((error) => {
+            if (typeof window !== 'undefined') {
+                logEvent('warn', 'memory_extract_failed', 'Failed to update character memories', sanitizeLogMeta({
+                    characterNames,
+                    error: error instanceof Error ? error.message : String(error),
+                }));
+            }
+        });
+    }, [userId, participants, bot, toConversationHistory]);
+
+    /**
+     * Appends a user message after `history` and requests the reply. Sending passes the whole
+     * conversation; editing passes the history before the edited message, starting a new branch.
+     */
+    const submitUserMessage = useCallback(async (currentInput: string, history: Message[]) => {
+        const userMessage = createUserMessage(currentInput);
+        setMessages([...history, userMessage]);
         setLoading(true);
         setError("");
         logMessage(userMessage);
+        rememberUserMessage(userMessage, history);
+        touchCharacters((participants ?? [bot]).map((p) => p.name));
+        if (participants) {
+            await sendGroupRound(currentInput, [...history, userMessage]);
+            return;
+        }
+        const abortController = new AbortController();
+        streamAbortRef.current = abortController;
+        streamedAudioRef.current = false;
+        // Placeholder for the streamed text; it is only shown once the first chunk arrives
+        const pending = createMessage({ role: "assistant", sender: bot.name, text: "" });
+        let streamedText = "";
+        let replyAppended = false;
+        setStreamingReply(pending);
         try {
             const voiceConfig = await ensureVoiceConfig();
             if (!voiceConfig) {
@@ -415,42 +709,64 @@ export function useChatController(bot: Bot, onBackToCharacterCreation?: () => vo
                 logEvent('info', 'chat_send_retry_start', 'Starting message send with retry logic', { botName: bot.name });
             }
             // Convert messages to conversation history format for API
-            const conversationHistory = messages.slice(-20).map(msg => 
-                msg.sender === bot.name ? `Bot: ${msg.text}` : `User: ${msg.text}`
-            );
-            const response = await retryWithBackoff(
+            const { sent, body: historyBody } = buildHistoryPayload(history);
+            // Only the connection is retried: once chunks or clips have arrived they are on
+            // screen and queued for speech, so a failure mid-stream is surfaced instead
+            const res = await retryWithBackoff(
                 () => authenticatedFetch("/api/chat", {
                     method: "POST",
                     headers: { "Content-Type": "application/json" },
                     body: JSON.stringify({
                         message: currentInput,
                         personality: bot.personality,
+                        ...(bot.profile ? { profile: bot.profile } : {}),
                         botName: bot.name,
                         voiceConfig,
                         gender: bot.gender,
-                        conversationHistory
+                        ...(bot.language ? { language: bot.language } : {}),
+                        ...historyBody,
+                        stream: true
                     }),
+                    signal: abortController.signal,
                 }).then(res => {
                     if (!res.ok) throw new Error(`HTTP ${res.status}`);
-                    return res.json();
+                    return res;
                 }),
                 2,
                 800
             );
+            const response = await readChatResponse(res, (text) => {
+                streamedText = text;
+                setStreamingReply({ ...pending, text });
+            }, (audioFileUrl) => {
+                streamedAudioRef.current = true;
+                queueAudio(audioFileUrl, abortController.signal);
+            });
             if (typeof window !== 'undefined' && process.env.NODE_ENV !== 'production') {
                 logEvent('info', 'chat_send_retry_success', 'Message send succeeded', { botName: bot.name });
             }
             if (typeof response.reply !== 'string' || !response.reply) {
                 throw new Error('Invalid chat response: missing reply');
             }
-            const botReply: Message = {
-                sender: bot.name,
-                text: response.reply,
-                audioFileUrl: response.audioFileUrl,
-            };
+            recordSummary(response, sent);
+            const botReply = toAssistantMessage(bot.name, response);
             setMessages((prevMessages) => [...prevMessages, botReply]);
+            replyAppended = true;
             logMessage(botReply);
         } catch (e) {
+            if (abortController.signal.aborted) {
+                // Keep whatever the user already saw; the cut-off reply has no audio
+                if (streamedText.trim()) {
+                    const partial = { ...pending, text: streamedText };
+                    setMessages((prevMessages) => [...prevMessages, partial]);
+                    replyAppended = true;
+                    logMessage(partial);
+                }
+                if (typeof window !== 'undefined' && process.env.NODE_ENV !== 'production') {
+                    logEvent('info', 'chat_stream_cancelled', 'Reply cancelled by the user', { botName: bot.name });
+                }
+                return;
+            }
             const msg = "Failed to send message or generate reply.";
             setError(msg);
             handleApiError(new Error(msg));
@@ -460,13 +776,113 @@ export function useChatController(bot: Bot, onBackToCharacterCreation?: () => vo
                     error: e instanceof Error ? e.message : String(e),
                     errorType: e instanceof Error ? e.constructor.name : typeof e,
                     hasVoiceConfig: !!voiceConfigRef.current,
-                    messageCount: messages.length
+                    messageCount: history.length
+                }));
+            }
+        } finally {
+            if (streamAbortRef.current === abortController) streamAbortRef.current = null;
+            // An appended reply leaves the flag for the audio effect to consume; otherwise
+            // clear it now so the next non-streamed reply still stops earlier audio
+            if (!replyAppended) streamedAudioRef.current = false;
+            setStreamingReply(null);
+            setLoading(false);
+        }
+    }, [logMessage, handleApiError, setError, bot, ensureVoiceConfig, participants, sendGroupRound, retryWithBackoff, buildHistoryPayload, recordSummary, rememberUserMessage, queueAudio]);
+
+    /** Stops the reply being streamed, and its speech; the text received so far is kept. */
+    const cancelReply = useCallback(() => {
+        streamAbortRef.current?.abort();
+    }, []);
+
+    // Leaving the chat abandons any reply still streaming
+    useEffect(() => () => streamAbortRef.current?.abort(), []);
+
+    /** Sends `text` as the user's next message, e.g. a spoken message from voice input. */
+    const sendText = useCallback(async (text: string) => {
+        if (!text.trim() || !apiAvailable || loading) return;
+        setInput("");
+        await submitUserMessage(text, messages);
+    }, [apiAvailable, loading, messages, submitUserMessage]);
+
+    const sendMessage = useCallback(() => sendText(input), [sendText, input]);
+
+    /**
+     * Replaces the text of a user message and resends it. The original message and the
+     * replies that followed it stay available as an alternate branch.
+     */
+    const editMessage = useCallback(async (messageId: string, text: string) => {
+        const index = messages.findIndex((m) => m.id === messageId);
+        if (index === -1 || messages[index].role !== "user" || !text.trim() || !apiAvailable || loading) return;
+        await submitUserMessage(text, messages.slice(0, index));
+    }, [messages, apiAvailable, loading, submitUserMessage]);
+
+    /**
+     * Asks the same character for a new version of a reply. The new reply becomes a sibling of
+     * the old one, and everything after the old reply stays on its original branch.
+     */
+    const regenerateReply = useCallback(async (messageId: string) => {
+        const index = messages.findIndex((m) => m.id === messageId);
+        if (index === -1 || messages[index].role !== "assistant" || !apiAvailable || loading) return;
+        const original = messages[index];
+        const speaker = participants?.find((p) => p.name === original.sender) ?? bot;
+        const history = messages.slice(0, index);
+        // Group replies answer the conversation so far; one-to-one replies answer the preceding user message
+        let requestMessage = "";
+        let requestHistory = history;
+        if (history.length === 0) {
+            requestMessage = INTRO_PROMPT;
+        } else if (!participants && history[history.length - 1].role === "user") {
+            requestMessage = history[history.length - 1].text;
+            requestHistory = history.slice(0, -1);
+        }
+        setLoading(true);
+        setError("");
+        try {
+            const reply = await requestReply(speaker, requestMessage, requestHistory, true);
+            setMessages([...history, reply]);
+            logMessage(reply);
+        } catch (e) {
+            const msg = "Failed to regenerate reply.";
+            setError(msg);
+            handleApiError(new Error(msg));
+            if (typeof window !== 'undefined') {
+                logEvent('error', 'chat_regenerate_failed', msg, sanitizeLogMeta({
+                    botName: speaker.name,
+                    error: e instanceof Error ? e.message : String(e),
+                    messageCount: history.length
                 }));
             }
         } finally {
             setLoading(false);
         }
-    }, [input, apiAvailable, logMessage, loading, handleApiError, setError, bot, ensureVoiceConfig, messages]);
+    }, [messages, apiAvailable, loading, participants, bot, requestReply, logMessage, setError, handleApiError]);
+
+    /**
+     * Flips a message to its previous (-1) or next (1) alternate, showing that branch's replies.
+     */
+    const selectAlternate = useCallback((messageId: string, direction: -1 | 1) => {
+        if (loading) return;
+        const result = selectBranchAlternate(branchTree, messageId, direction);
+        if (!result) return;
+        stopAudio();
+        setBranchTree(result.tree);
+        setMessages(result.path);
+    }, [loading, branchTree, stopAudio]);
+
+    const getMessageBranchInfo = useCallback(
+        (messageId: string) => getBranchInfo(branchTree, messageId),
+        [branchTree]
+    );
+
+    /**
+     * Lets the characters carry on among themselves without a new user message.
+     */
+    const continueGroupConversation = useCallback(async () => {
+        if (!participants || !apiAvailable || loading || messages.length === 0) return;
+        setLoading(true);
+        setError("");
+        await sendGroupRound("", messages);
+    }, [participants, apiAvailable, loading, messages, setError, sendGroupRound]);
 
     const handleKeyDown = (e: React.KeyboardEvent) => {
         if (e.key === "Enter" && !loading && apiAvailable && input.trim()) {
@@ -509,10 +925,21 @@ export function useChatController(bot: Bot, onBackToCharacterCreation?: () => vo
 
     useEffect(() => {
         try {
-            if (chatHistoryKey) storage.setItem(chatHistoryKey, JSON.stringify(messages));
+            if (chatHistoryKey) saveChatHistory(chatHistoryKey, messages);
         } catch {}
     }, [messages, chatHistoryKey]);
 
+    // Branch tree effects only depend on their state: when the conversation changes, the reset
+    // effect loads both the new history and the new tree, and these run once those land
+    useEffect(() => {
+        // Record new messages in the branch tree (a no-op when switching between stored branches)
+        setBranchTree((tree) => mergeActivePath(tree, messages));
+    }, [messages]);
+
+    useEffect(() => {
+        try { saveConversationTree(branchesKey, branchTree); } catch {}
+    }, [branchTree]);
+
     const handleDownloadTranscript = async () => {
         try {
             await downloadTranscript(messages as Message[], { name: bot.name, avatarUrl: bot.avatarUrl });
@@ -535,6 +962,25 @@ export function useChatController(bot: Bot, onBackToCharacterCreation?: () => vo
         }
     };
 
+    const handleExportCharacterCard = useCallback(async (format: CardExportFormat) => {
+        try {
+            // Include the voice picked during the chat so the card does not need a new one
+            await downloadCharacterCard({ ...bot, voiceConfig: voiceConfigRef.current ?? bot.voiceConfig }, format);
+            logEvent('info', 'chat_character_card_exported', 'Character card exported', sanitizeLogMeta({
+                botName: bot.name,
+                format
+            }));
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+            logEvent('error', 'chat_character_card_export_failed', 'Failed to export character card', sanitizeLogMeta({
+                botName: bot.name,
+                format,
+                error: errorMessage
+            }));
+            alert(`Failed to export character card: ${errorMessage}`);
+        }
+    }, [bot]);
+
     const handleHeaderLinkClick = useCallback(() => {
         if (inputRef.current) {
             inputRef.current.focus();
@@ -725,11 +1171,11 @@ export function useChatController(bot: Bot, onBackToCharacterCreation?: () => vo
         const lastMsgHash = getMessageHash(lastMsg);
         if (typeof window !== 'undefined') {
                 if (lastPlayedAudioHashRef.current === null) {
-                try { lastPlayedAudioHashRef.current = storage.getItem(`lastPlayedAudioHash-${bot.name}`); } catch {}
+                try { lastPlayedAudioHashRef.current = storage.getItem(`lastPlayedAudioHash-${conversationKey}`); } catch {}
             }
         }
         if (
-            lastMsg.sender === bot.name &&
+            lastMsg.role === "assistant" &&
             typeof lastMsg.audioFileUrl === 'string' &&
             lastMsgHash !== lastPlayedAudioHashRef.current
         ) {
@@ -739,7 +1185,7 @@ export function useChatController(bot: Bot, onBackToCharacterCreation?: () => vo
                     lastPlayedAudioHashRef.current = lastMsgHash;
                     try {
                         await playAudio(lastMsg.audioFileUrl!, abortController.signal);
-                        try { storage.setItem(`lastPlayedAudioHash-${bot.name}`, lastMsgHash); } catch {}
+                        try { storage.setItem(`lastPlayedAudioHash-${conversationKey}`, lastMsgHash); } catch {}
                     } catch (err: unknown) {
                         // If playback failed or was aborted, clear the in-progress marker
                         const errName = (err && typeof err === 'object' && 'name' in err)
@@ -769,9 +1215,11 @@ export function useChatController(bot: Bot, onBackToCharacterCreation?: () => vo
         return () => {
             cancelled = true;
             abortController.abort();
-            stopAudio();
+            if (!streamedAudioRef.current) stopAudio();
+            // The streamed reply has joined `messages`; later changes stop its audio as usual
+            streamedAudioRef.current = false;
         };
-    }, [messages, bot.name, playAudio, stopAudio]);
+    }, [messages, bot.name, participants, conversationKey, playAudio, stopAudio]);
 
     useEffect(() => {
         return () => {
@@ -799,14 +1247,29 @@ export function useChatController(bot: Bot, onBackToCharacterCreation?: () => vo
         inputRef,
         visibleCount,
         handleDownloadTranscript,
+        handleExportCharacterCard,
         handleHeaderLinkClick,
         handleBackToCharacterCreation,
         handleScroll,
         sendMessage,
+        sendText,
         handleKeyDown,
         handleAudioToggle,
         stopAudio,
         isAudioPlaying,
+        participants,
+        continueGroupConversation,
+        conversationId,
+        conversationSessionId,
+        userId,
+        editMessage,
+        regenerateReply,
+        selectAlternate,
+        getMessageBranchInfo,
+        streamingReply,
+        cancelReply,
+        getVoiceConfig,
+        updateVoiceConfig,
     };
 }
  
@@ -29,17 +29,20 @@ const safeFocus = (ref: React.RefObject<HTMLInputElement | null>) => {
  * @param chatBoxRef - Ref to the chat messages container
  * @param inputRef - Ref to the chat input field
  * @param messages - Array of chat messages
+ * @param streamingText - Text of the reply streaming in, if any; the view follows it as it grows
  */
 export function useChatScrollAndFocus({
   chatBoxRef,
   inputRef,
   messages,
   loading,
+  streamingText,
 }: {
   chatBoxRef: React.RefObject<HTMLDivElement>;
   inputRef: React.RefObject<HTMLInputElement | null>;
   messages: unknown[];
   loading: boolean;
+  streamingText?: string;
 }) {
   // Scroll to bottom utility
   const scrollToBottom = useCallback(() => {
@@ -66,7 +69,7 @@ export function useChatScrollAndFocus({
     }, 0);
     
     return () => clearTimeout(timeoutId);
-  }, [messages.length, scrollToBottom]); // Use messages.length instead of messages array
+  }, [messages.length, streamingText, scrollToBottom]); // Use messages.length instead of messages array
 
   // Scroll to bottom on window resize (e.g., mobile keyboard appears)
   useEffect(() => {
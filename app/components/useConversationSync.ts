@@ -0,0 +1,175 @@
+/**
+ * Keeps a server-side copy of the current conversation (see /api/conversations)
+ * so it can be resumed on another browser or device via
+ * `/?conversation=<id>&session=<owner session id>`.
+ * The first save creates the conversation and the server assigns its id; later
+ * saves, including those made while it is still being created, replace it on
+ * behalf of the session that created it.
+ * Saves are debounced after each change; failures are logged and retried on the next change.
+ */
+import { useState, useEffect, useRef, useCallback } from "react";
+import { authenticatedFetch } from "../../src/utils/api";
+import storage from "../../src/utils/storage";
+import { logEvent, sanitizeLogMeta } from "../../src/utils/logger";
+import type { Message } from "../../src/types/message";
+import { normalizeMessages, saveChatHistory } from "../../src/utils/messages";
+import type { Bot } from "./BotCreator";
+import { getGroupKey, type TurnPolicy } from "../../src/utils/groupChat";
+
+export const CONVERSATION_SYNC_DEBOUNCE_MS = 1500;
+
+/** Storage key holding the server conversation id for a bot or group history. */
+export function getConversationIdKey(conversationKey: string) {
+    return `conversation-id-${conversationKey}`;
+}
+
+/** Storage key holding the session that owns the server conversation for a bot or group history. */
+export function getConversationSessionKey(conversationKey: string) {
+    return `conversation-session-${conversationKey}`;
+}
+
+/** Shareable URL that reopens a stored conversation. Only its owning session can read it. */
+export function getResumeUrl(conversationId: string, sessionId: string) {
+    const origin = typeof window !== "undefined" ? window.location.origin : "";
+    return `${origin}/?conversation=${encodeURIComponent(conversationId)}&session=${encodeURIComponent(sessionId)}`;
+}
+
+/**
+ * Fetches a stored conversation and seeds local storage with its history and id,
+ * so the chat page picks it up as if it had been started in this browser.
+ * Returns null when the conversation cannot be loaded.
+ */
+export async function resumeConversation(conversationId: string, sessionId: string): Promise<{
+    bot: Bot;
+    group?: { members: Bot[]; turnPolicy: TurnPolicy };
+} | null> {
+    try {
+        const res = await authenticatedFetch(
+            `/api/conversations/${encodeURIComponent(conversationId)}?sessionId=${encodeURIComponent(sessionId)}`
+        );
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const { conversation } = await res.json();
+        if (!conversation?.bot?.name || !Array.isArray(conversation.messages)) throw new Error("Invalid conversation");
+        const members: Bot[] = conversation.group?.members ?? [];
+        const conversationKey = members.length > 0 ? getGroupKey([conversation.bot, ...members]) : conversation.bot.name;
+        saveChatHistory(`chatbot-history-${conversationKey}`, normalizeMessages(conversation.messages));
+        storage.setItem(getConversationIdKey(conversationKey), conversationId);
+        storage.setItem(getConversationSessionKey(conversationKey), sessionId);
+        return { bot: conversation.bot, group: members.length > 0 ? conversation.group : undefined };
+    } catch (error) {
+        if (typeof window !== "undefined") {
+            logEvent("error", "conversation_resume_failed", "Failed to resume conversation", sanitizeLogMeta({
+                conversationId,
+                error: error instanceof Error ? error.message : String(error),
+            }));
+        }
+        return null;
+    }
+}
+
+interface ConversationSyncOptions {
+    conversationKey: string;
+    bot: Bot;
+    group?: { members: Bot[]; turnPolicy: TurnPolicy };
+    messages: Message[];
+    sessionId: string;
+}
+
+interface StoredConversationRef {
+    id: string | null;
+    /** Session that created the server copy; only it may read or replace it. */
+    owner: string | null;
+}
+
+function readStoredConversation(conversationKey: string): StoredConversationRef {
+    try {
+        const id = storage.getItem(getConversationIdKey(conversationKey));
+        const owner = storage.getItem(getConversationSessionKey(conversationKey));
+        // An id without its owning session cannot be synced any more; start a new conversation
+        return id && owner ? { id, owner } : { id: null, owner: null };
+    } catch {
+        return { id: null, owner: null };
+    }
+}
+
+export function useConversationSync({ conversationKey, bot, group, messages, sessionId }: ConversationSyncOptions) {
+    const idKey = getConversationIdKey(conversationKey);
+    const sessionKey = getConversationSessionKey(conversationKey);
+    const [stored, setStored] = useState(() => readStoredConversation(conversationKey));
+    const storedRef = useRef(stored);
+    /** The POST creating the server copy, while it is in flight. */
+    const creatingRef = useRef<Promise<void> | null>(null);
+
+    const remember = useCallback((next: StoredConversationRef) => {
+        storedRef.current = next;
+        setStored(next);
+        try {
+            if (next.id && next.owner) {
+                storage.setItem(idKey, next.id);
+                storage.setItem(sessionKey, next.owner);
+            } else {
+                storage.removeItem(idKey);
+                storage.removeItem(sessionKey);
+            }
+        } catch { }
+    }, [idKey, sessionKey]);
+
+    useEffect(() => {
+        const next = readStoredConversation(conversationKey);
+        storedRef.current = next;
+        creatingRef.current = null;
+        setStored(next);
+    }, [conversationKey]);
+
+    useEffect(() => {
+        if (!sessionId || messages.length === 0) return;
+        const timer = setTimeout(async () => {
+            // A save made while the conversation is still being created replaces it once it exists
+            while (creatingRef.current) await creatingRef.current;
+            const { id, owner } = storedRef.current;
+            try {
+                if (!id || !owner) {
+                    const created = (async () => {
+                        const res = await authenticatedFetch("/api/conversations", {
+                            method: "POST",
+                            headers: { "Content-Type": "application/json" },
+                            body: JSON.stringify({ sessionId, bot, group, messages }),
+                        });
+                        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+                        const { id: createdId } = await res.json();
+                        if (typeof createdId !== "string") throw new Error("Missing conversation id");
+                        remember({ id: createdId, owner: sessionId });
+                    })();
+                    // Waiting saves create the conversation themselves if this attempt fails
+                    const settled = created.catch(() => { });
+                    creatingRef.current = settled;
+                    try {
+                        await created;
+                    } finally {
+                        if (creatingRef.current === settled) creatingRef.current = null;
+                    }
+                    return;
+                }
+                const res = await authenticatedFetch(`/api/conversations/${encodeURIComponent(id)}`, {
+                    method: "PUT",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({ sessionId: owner, bot, group, messages }),
+                });
+                // The stored copy is gone; the next change starts a new one
+                if (res.status === 404) remember({ id: null, owner: null });
+                if (!res.ok) throw new Error(`HTTP ${res.status}`);
+            } catch (error) {
+                if (typeof window !== "undefined") {
+                    logEvent("warn", "conversation_sync_failed", "Failed to save conversation to server", sanitizeLogMeta({
+                        conversationId: id,
+                        botName: bot.name,
+                        error: error instanceof Error ? error.message : String(error),
+                    }));
+                }
+            }
+        }, CONVERSATION_SYNC_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [messages, sessionId, bot, group, remember]);
+
+    return { conversationId: stored.id, conversationSessionId: stored.owner };
+}
@@ -24,6 +24,26 @@ export function resetIsBrowserForTests() {
   _isBrowser = () => typeof window !== "undefined";
 }
 
+/** Storage key for the browser's durable user id. Unlike the session id it survives reloads. */
+export const USER_ID_KEY = "chatbot-user-id";
+
+/**
+ * Returns this browser's user id, creating it on first use. Characters' long-term
+ * memories (see /api/memories) are stored against it. Returns "" outside the browser.
+ */
+export function getUserId(): string {
+  if (!isBrowser()) return "";
+  try {
+    const existing = storage.getItem(USER_ID_KEY);
+    if (existing) return existing;
+    const created = uuidv4();
+    storage.setItem(USER_ID_KEY, created);
+    return created;
+  } catch {
+    return "";
+  }
+}
+
 export function useSession(): [string, string] {
   const [sessionId, setSessionId] = useState("");
   const [sessionDatetime, setSessionDatetime] = useState("");
@@ -0,0 +1,320 @@
+/**
+ * Voice input for the chat. Uses the browser's Web Speech API when it exists;
+ * otherwise records with MediaRecorder and transcribes through /api/transcribe,
+ * provided the server has an STT engine (reported by /api/config).
+ *
+ * Two modes: push-to-talk listens while the mic button is held, and hands-free
+ * listens for one utterance after another, pausing while the character replies.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { authenticatedFetch } from "../../src/utils/api";
+import { logEvent, sanitizeLogMeta } from "../../src/utils/logger";
+import { encodeWav, SPEECH_SAMPLE_RATE } from "../../src/utils/wav";
+
+export type SpeechInputMode = "push-to-talk" | "hands-free";
+export type SpeechEngine = "browser" | "server";
+
+// Minimal Web Speech API surface; TypeScript's DOM library does not declare it
+interface RecognitionAlternative { transcript: string }
+interface RecognitionResult { isFinal: boolean; 0: RecognitionAlternative }
+interface RecognitionEvent { resultIndex: number; results: ArrayLike<RecognitionResult> }
+interface Recognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: RecognitionEvent) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+type RecognitionConstructor = new () => Recognition;
+
+// Hands-free recording with the server engine stops after this much silence once speech was heard
+const SILENCE_MS = 1200;
+const SILENCE_RMS = 0.02;
+const LEVEL_POLL_MS = 100;
+// Matches the /api/transcribe limit
+const MAX_RECORDING_MS = 30_000;
+// Recognition errors that just mean nothing was heard or the session was stopped
+const BENIGN_ERRORS = ["no-speech", "aborted"];
+
+function getRecognitionConstructor(): RecognitionConstructor | null {
+  if (typeof window === "undefined") return null;
+  const w = window as unknown as { SpeechRecognition?: RecognitionConstructor; webkitSpeechRecognition?: RecognitionConstructor };
+  return w.SpeechRecognition ?? w.webkitSpeechRecognition ?? null;
+}
+
+function canRecord(): boolean {
+  return typeof window !== "undefined"
+    && typeof window.MediaRecorder === "function"
+    && typeof navigator.mediaDevices?.getUserMedia === "function";
+}
+
+/** Decodes a recording (WebM, MP4, ...) and re-encodes it as 16 kHz mono WAV. */
+async function recordingToWav(blob: Blob): Promise<Uint8Array> {
+  const context = new AudioContext();
+  try {
+    const decoded = await context.decodeAudioData(await blob.arrayBuffer());
+    const offline = new OfflineAudioContext(1, Math.max(1, Math.ceil(decoded.duration * SPEECH_SAMPLE_RATE)), SPEECH_SAMPLE_RATE);
+    const source = offline.createBufferSource();
+    source.buffer = decoded;
+    source.connect(offline.destination);
+    source.start();
+    const rendered = await offline.startRendering();
+    return encodeWav(rendered.getChannelData(0));
+  } finally {
+    void context.close();
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+async function transcribeRecording(blob: Blob, language?: string): Promise<string> {
+  const wav = await recordingToWav(blob);
+  const res = await authenticatedFetch("/api/transcribe", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ audio: toBase64(wav), ...(language ? { language } : {}) }),
+  });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  const data = await res.json();
+  return typeof data.text === "string" ? data.text : "";
+}
+
+/** Calls `onSilence` once the input level stays low for SILENCE_MS after speech. Returns a cleanup. */
+function watchForSilence(stream: MediaStream, onSilence: () => void): () => void {
+  const context = new AudioContext();
+  const analyser = context.createAnalyser();
+  context.createMediaStreamSource(stream).connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+  let heardSpeech = false;
+  let lastSoundAt = Date.now();
+  const timer = setInterval(() => {
+    analyser.getFloatTimeDomainData(samples);
+    const rms = Math.sqrt(samples.reduce((sum, s) => sum + s * s, 0) / samples.length);
+    if (rms > SILENCE_RMS) {
+      heardSpeech = true;
+      lastSoundAt = Date.now();
+    } else if (heardSpeech && Date.now() - lastSoundAt > SILENCE_MS) {
+      onSilence();
+    }
+  }, LEVEL_POLL_MS);
+  return () => {
+    clearInterval(timer);
+    void context.close();
+  };
+}
+
+interface UseSpeechInputOptions {
+  /** Receives each finished utterance. */
+  onTranscript: (text: string) => void;
+  /** Receives the words recognized so far while the user speaks (browser engine only). */
+  onInterim?: (text: string) => void;
+  /** While true, hands-free mode stops listening (e.g. while the character replies). */
+  paused?: boolean;
+  /** BCP-47 language to recognize; defaults to the browser language. */
+  lang?: string;
+}
+
+export function useSpeechInput({ onTranscript, onInterim, paused = false, lang }: UseSpeechInputOptions) {
+  const [engine, setEngine] = useState<SpeechEngine | null>(null);
+  const [mode, setMode] = useState<SpeechInputMode>("push-to-talk");
+  const [listening, setListening] = useState(false);
+  const [transcribing, setTranscribing] = useState(false);
+  const [error, setError] = useState("");
+  const recognitionRef = useRef<Recognition | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  // False once the user let go (or hands-free paused) before the microphone was ready
+  const wantedRef = useRef(false);
+  // Set when a session is cancelled, so whatever it captured is thrown away
+  const discardRef = useRef(false);
+  const callbacksRef = useRef({ onTranscript, onInterim });
+
+  useEffect(() => {
+    callbacksRef.current = { onTranscript, onInterim };
+  }, [onTranscript, onInterim]);
+
+  // Prefer the browser's own recognition; fall back to server transcription when configured
+  useEffect(() => {
+    if (getRecognitionConstructor()) {
+      setEngine("browser");
+      return;
+    }
+    if (!canRecord()) return;
+    let mounted = true;
+    authenticatedFetch("/api/config")
+      .then((r) => r.json())
+      .then((data) => { if (mounted && data?.speechInput === true) setEngine("server"); })
+      .catch(() => { /* voice input stays unavailable */ });
+    return () => { mounted = false; };
+  }, []);
+
+  const deliver = useCallback((text: string) => {
+    const trimmed = text.trim();
+    if (trimmed && !discardRef.current) callbacksRef.current.onTranscript(trimmed);
+  }, []);
+
+  const fail = useCallback((reason: string, message: string) => {
+    setError(message);
+    // A failure would otherwise restart hands-free listening in a loop
+    setMode("push-to-talk");
+    logEvent("error", "speech_input_failed", "Voice input failed", sanitizeLogMeta({ reason }));
+  }, []);
+
+  const startBrowser = useCallback((continuous: boolean) => {
+    const Recognition = getRecognitionConstructor();
+    if (!Recognition) return;
+    const recognition = new Recognition();
+    recognition.lang = lang || navigator.language || "en-US";
+    recognition.continuous = continuous;
+    recognition.interimResults = true;
+    let finalText = "";
+    recognition.onresult = (event) => {
+      let interim = "";
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        if (result.isFinal) finalText += result[0].transcript;
+        else interim += result[0].transcript;
+      }
+      if (!discardRef.current) callbacksRef.current.onInterim?.(`${finalText}${interim}`.trim());
+    };
+    recognition.onerror = (event) => {
+      if (BENIGN_ERRORS.includes(event.error)) return;
+      fail(event.error, event.error === "not-allowed"
+        ? "Microphone access was denied."
+        : "Voice input stopped working. Please try again.");
+    };
+    recognition.onend = () => {
+      if (recognitionRef.current === recognition) recognitionRef.current = null;
+      setListening(false);
+      deliver(finalText);
+    };
+    recognitionRef.current = recognition;
+    setListening(true);
+    try {
+      recognition.start();
+    } catch (err) {
+      recognitionRef.current = null;
+      setListening(false);
+      fail(err instanceof Error ? err.message : String(err), "Voice input stopped working. Please try again.");
+    }
+  }, [lang, deliver, fail]);
+
+  const startServer = useCallback(async (stopOnSilence: boolean) => {
+    setListening(true);
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch {
+      setListening(false);
+      fail("not-allowed", "Microphone access was denied.");
+      return;
+    }
+    if (!wantedRef.current) {
+      stream.getTracks().forEach((track) => track.stop());
+      setListening(false);
+      return;
+    }
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    const stop = () => {
+      if (recorder.state !== "inactive") recorder.stop();
+    };
+    const cleanups = [
+      () => stream.getTracks().forEach((track) => track.stop()),
+      stopOnSilence ? watchForSilence(stream, stop) : () => {},
+    ];
+    const maxTimer = setTimeout(stop, MAX_RECORDING_MS);
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = async () => {
+      clearTimeout(maxTimer);
+      cleanups.forEach((cleanup) => cleanup());
+      if (recorderRef.current === recorder) recorderRef.current = null;
+      setListening(false);
+      if (chunks.length === 0 || discardRef.current) return;
+      setTranscribing(true);
+      try {
+        deliver(await transcribeRecording(new Blob(chunks, { type: recorder.mimeType }), lang));
+      } catch (err) {
+        setError("Could not transcribe your message. Please try again.");
+        logEvent("error", "speech_transcribe_failed", "Transcription request failed", sanitizeLogMeta({
+          error: err instanceof Error ? err.message : String(err),
+        }));
+      } finally {
+        setTranscribing(false);
+      }
+    };
+    recorderRef.current = recorder;
+    recorder.start();
+  }, [lang, deliver, fail]);
+
+  /** Starts listening; push-to-talk calls it when the mic button is pressed. */
+  const startListening = useCallback(() => {
+    if (!engine || recognitionRef.current || recorderRef.current) return;
+    wantedRef.current = true;
+    discardRef.current = false;
+    setError("");
+    // Held push-to-talk keeps listening through pauses; hands-free ends each utterance on its own
+    if (engine === "browser") startBrowser(mode === "push-to-talk");
+    else void startServer(mode === "hands-free");
+  }, [engine, mode, startBrowser, startServer]);
+
+  /** Stops listening and sends what was said; push-to-talk calls it when the button is released. */
+  const stopListening = useCallback(() => {
+    wantedRef.current = false;
+    recognitionRef.current?.stop();
+    if (recorderRef.current && recorderRef.current.state !== "inactive") recorderRef.current.stop();
+  }, []);
+
+  /** Stops listening and drops anything not yet sent. */
+  const cancelListening = useCallback(() => {
+    discardRef.current = true;
+    wantedRef.current = false;
+    recognitionRef.current?.abort();
+    if (recorderRef.current && recorderRef.current.state !== "inactive") recorderRef.current.stop();
+  }, []);
+
+  const toggleHandsFree = useCallback(() => {
+    cancelListening();
+    setMode((current) => (current === "hands-free" ? "push-to-talk" : "hands-free"));
+  }, [cancelListening]);
+
+  // Hands-free: listen again after each utterance, and stop while the character replies
+  const handsFreeActive = mode === "hands-free" && !!engine;
+  useEffect(() => {
+    if (!handsFreeActive) return;
+    if (paused) {
+      if (recognitionRef.current || recorderRef.current) cancelListening();
+      return;
+    }
+    if (!listening && !transcribing) startListening();
+  }, [handsFreeActive, paused, listening, transcribing, startListening, cancelListening]);
+
+  // Release the microphone when the chat closes
+  useEffect(() => () => cancelListening(), [cancelListening]);
+
+  return {
+    engine,
+    supported: engine !== null,
+    mode,
+    toggleHandsFree,
+    listening,
+    transcribing,
+    error,
+    startListening,
+    stopListening,
+  };
+}
+
+export type SpeechInputControls = ReturnType<typeof useSpeechInput>;
@@ -11,7 +11,53 @@ import { useSearchParams, useRouter } from "next/navigation";
 import dynamic from "next/dynamic";
 import { Bot } from "./components/BotCreator";
 import { getValidBotFromStorage } from "../src/utils/getValidBotFromStorage";
+import { createThumbnail, loadLibrary, saveCharacter } from "../src/utils/characterLibrary";
+import CharacterLibrary from "./components/CharacterLibrary";
 import storage from '../src/utils/storage';
+import { resumeConversation } from "./components/useConversationSync";
+import { normalizeMessages } from "../src/utils/messages";
+import { MESSAGE_SCHEMA_VERSION } from "../src/types/message";
+import {
+  DEFAULT_TURN_POLICY,
+  MAX_GROUP_PARTICIPANTS,
+  isTurnPolicy,
+  type GroupChatOptions,
+  type TurnPolicy,
+} from "../src/utils/groupChat";
+
+/** Storage key for the characters who joined the current bot's conversation. */
+const GROUP_STORAGE_KEY = "chatbot-group";
+
+interface StoredGroup {
+  members: Bot[];
+  turnPolicy: TurnPolicy;
+}
+
+function loadStoredGroup(hostName: string): StoredGroup {
+  try {
+    const saved = storage.getJSON<StoredGroup & { hostName?: string }>(GROUP_STORAGE_KEY);
+    if (saved && saved.hostName === hostName && Array.isArray(saved.members)) {
+      return {
+        members: saved.members.filter((m) => m && typeof m.name === 'string' && m.name !== hostName),
+        turnPolicy: isTurnPolicy(saved.turnPolicy) ? saved.turnPolicy : DEFAULT_TURN_POLICY,
+      };
+    }
+  } catch {}
+  return { members: [], turnPolicy: DEFAULT_TURN_POLICY };
+}
+
+function addToLibrary(character: Bot) {
+  // Only a new portrait needs a new thumbnail
+  const saved = loadLibrary().find((e) => e.bot.name === character.name);
+  const thumbnail = saved?.bot.avatarUrl === character.avatarUrl
+    ? Promise.resolve(saved.thumbnailUrl)
+    : createThumbnail(character.avatarUrl);
+  thumbnail
+    .then((thumbnailUrl) => saveCharacter(character, thumbnailUrl))
+    .catch(() => { /* the library is a convenience; chatting still works without it */ });
+}
+
+const CHAT_HISTORY_PREFIX = "chatbot-history-";
 
 // Known storage key patterns to attempt migration on startup
 const KNOWN_KEYS_TO_MIGRATE = [
@@ -19,7 +65,7 @@ const KNOWN_KEYS_TO_MIGRATE = [
   "chatbot-bot-timestamp",
   "lastPlayedAudioHash-", // suffixed by bot name
   "voiceConfig-", // suffixed by bot name
-  "chatbot-history-", // suffixed by bot name
+  CHAT_HISTORY_PREFIX, // suffixed by bot name or group key
   "audioEnabled",
   "darkMode",
 ];
@@ -37,8 +83,12 @@ export function runStartupMigrations() {
           }
           if (k === prefix || k.startsWith(prefix)) {
             try {
-              // Attempt to migrate; transform is optional and not provided here
-              storage.migrateToVersioned(k, 1);
+              // Chat histories are upgraded to the current message schema; other keys are just wrapped
+              if (prefix === CHAT_HISTORY_PREFIX) {
+                storage.migrateToVersioned(k, MESSAGE_SCHEMA_VERSION, normalizeMessages);
+              } else {
+                storage.migrateToVersioned(k, 1);
+              }
             } catch {
               // swallow migration errors — runtime should be tolerant
             }
@@ -80,16 +130,49 @@ const Home = () => {
   const searchParams = useSearchParams();
   const router = useRouter();
   const nameFromUrl = searchParams?.get('name');
+  const conversationFromUrl = searchParams?.get('conversation');
+  const sessionFromUrl = searchParams?.get('session');
   const [returningToCreator, setReturningToCreator] = React.useState(false);
+  const [groupMembers, setGroupMembers] = React.useState<Bot[]>([]);
+  const [turnPolicy, setTurnPolicy] = React.useState<TurnPolicy>(DEFAULT_TURN_POLICY);
+  const [addingCharacter, setAddingCharacter] = React.useState(false);
 
   // Restore bot from localStorage on mount, using utility
   React.useEffect(() => {
     // If name is provided in URL, don't load existing bot
     if (nameFromUrl) {
       setLoadingBot(false);
+    } else if (conversationFromUrl && sessionFromUrl) {
+      // Resume a conversation saved on the server (possibly from another device)
+      let cancelled = false;
+      resumeConversation(conversationFromUrl, sessionFromUrl).then((resumed) => {
+        if (cancelled) return;
+        const resumedBot = resumed?.bot ?? getValidBotFromStorage();
+        setBot(resumedBot);
+        if (resumed?.group) {
+          setGroupMembers(resumed.group.members);
+          setTurnPolicy(resumed.group.turnPolicy);
+        } else if (resumedBot && !resumed) {
+          const storedGroup = loadStoredGroup(resumedBot.name);
+          setGroupMembers(storedGroup.members);
+          setTurnPolicy(storedGroup.turnPolicy);
+        }
+        if (resumedBot?.voiceConfig) {
+          try {
+            storage.setVersionedJSON(`voiceConfig-${resumedBot.name}`, resumedBot.voiceConfig, 1);
+          } catch {}
+        }
+        setLoadingBot(false);
+      });
+      return () => { cancelled = true; };
     } else {
       const loadedBot = getValidBotFromStorage();
       setBot(loadedBot);
+      if (loadedBot) {
+        const storedGroup = loadStoredGroup(loadedBot.name);
+        setGroupMembers(storedGroup.members);
+        setTurnPolicy(storedGroup.turnPolicy);
+      }
       setLoadingBot(false);
       // Store voiceConfig in local storage (versioned) when loading existing bot
       if (loadedBot?.voiceConfig) {
@@ -98,7 +181,7 @@ const Home = () => {
         } catch {}
       }
     }
-  }, [nameFromUrl]);
+  }, [nameFromUrl, conversationFromUrl, sessionFromUrl]);
 
   // Save bot to localStorage whenever it changes, with timestamp
   React.useEffect(() => {
@@ -108,8 +191,29 @@ const Home = () => {
     }
   }, [bot]);
 
+  // Keep every character the user chats with in the library, so it survives the six-hour bot expiry
+  React.useEffect(() => {
+    if (bot) addToLibrary(bot);
+  }, [bot]);
+
+  // Persist the group alongside the host bot so a reload keeps everyone in the room
+  React.useEffect(() => {
+    if (!bot) return;
+    if (groupMembers.length === 0) {
+      storage.removeItem(GROUP_STORAGE_KEY);
+      return;
+    }
+    storage.setJSON(GROUP_STORAGE_KEY, { hostName: bot.name, members: groupMembers, turnPolicy });
+  }, [bot, groupMembers, turnPolicy]);
+
+  const group = React.useMemo<GroupChatOptions | undefined>(
+    () => (bot && groupMembers.length > 0 ? { participants: [bot, ...groupMembers], turnPolicy } : undefined),
+    [bot, groupMembers, turnPolicy]
+  );
+
   const handleBotCreated = React.useCallback((bot: Bot) => {
     setBot(bot);
+    setGroupMembers([]);
     setReturningToCreator(false);
     // Store voiceConfig in localStorage (versioned) keyed by character name for durability
     if (bot.voiceConfig) {
@@ -119,20 +223,78 @@ const Home = () => {
     }
   }, []);
 
+  const handleCharacterAdded = React.useCallback((member: Bot) => {
+    setAddingCharacter(false);
+    addToLibrary(member);
+    if (member.voiceConfig) {
+      try {
+        storage.setVersionedJSON(`voiceConfig-${member.name}`, member.voiceConfig, 1);
+      } catch {}
+    }
+    setGroupMembers((prev) => {
+      if (member.name === bot?.name || prev.some((m) => m.name === member.name)) return prev;
+      return [...prev, member].slice(0, MAX_GROUP_PARTICIPANTS - 1);
+    });
+  }, [bot]);
+
+  const handleRemoveCharacter = React.useCallback((name: string) => {
+    setGroupMembers((prev) => prev.filter((m) => m.name !== name));
+  }, []);
+
+  // Only the portrait changes; personality, voice and the conversation are kept
+  const handlePortraitChange = React.useCallback((avatarUrl: string) => {
+    // Expressions were painted from the old portrait, so the new one stands alone
+    setBot((prev) => (prev ? { ...prev, avatarUrl, expressions: undefined } : prev));
+  }, []);
+
   const handleBackToCharacterCreation = React.useCallback(() => {
     // Clear the bot from localStorage to kill the session
   storage.removeItem("chatbot-bot");
   storage.removeItem("chatbot-bot-timestamp");
+  storage.removeItem(GROUP_STORAGE_KEY);
+    setGroupMembers([]);
     setBot(null);
     setReturningToCreator(true);
     router.push('/');
   }, [router]);
   if (loadingBot) return null; // Prevent UI flash
   if (!bot) {
-    return <BotCreator onBotCreated={handleBotCreated} returningToCreator={returningToCreator} />;
+    return (
+      <BotCreator
+        onBotCreated={handleBotCreated}
+        returningToCreator={returningToCreator}
+        library={<CharacterLibrary onSelect={handleBotCreated} />}
+      />
+    );
+  }
+  if (addingCharacter) {
+    return (
+      <BotCreator
+        onBotCreated={handleCharacterAdded}
+        returningToCreator={true}
+        heading={`Add a character to the chat with ${bot.name}`}
+        onCancel={() => setAddingCharacter(false)}
+        library={
+          <CharacterLibrary
+            onSelect={handleCharacterAdded}
+            excludeNames={[bot.name, ...groupMembers.map((m) => m.name)]}
+          />
+        }
+      />
+    );
   }
   // Pass bot as prop to ChatPage
-  return <ChatPage bot={bot} onBackToCharacterCreation={handleBackToCharacterCreation} />;
+  return (
+    <ChatPage
+      bot={bot}
+      onBackToCharacterCreation={handleBackToCharacterCreation}
+      group={group}
+      onAddCharacter={() => setAddingCharacter(true)}
+      onRemoveCharacter={handleRemoveCharacter}
+      onTurnPolicyChange={setTurnPolicy}
+      onChangePortrait={handlePortraitChange}
+    />
+  );
 };
 
 /**
@@ -8,6 +8,7 @@ import { Analytics } from "@vercel/analytics/react";
 import { SpeedInsights } from "@vercel/speed-insights/next";
 import "./globals.css";
 import { DarkModeProvider } from "./components/DarkModeContext";
+import { LanguageProvider } from "./components/LanguageContext";
 
 /**
  * Root layout component that wraps the entire application.
@@ -43,10 +44,12 @@ const RootLayout = ({ children }: { children: React.ReactNode }) => {
       </head>
       <body>
         <DarkModeProvider>
-          {/* Removed .container wrapper to allow sticky positioning to work */}
-          {children}
-          <Analytics />
-          <SpeedInsights />
+          <LanguageProvider>
+            {/* Removed .container wrapper to allow sticky positioning to work */}
+            {children}
+            <Analytics />
+            <SpeedInsights />
+          </LanguageProvider>
         </DarkModeProvider>
       </body>
     </html>
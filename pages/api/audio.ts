@@ -1,21 +1,20 @@
 /**
  * API endpoint for generating audio responses for chat messages.
- * Uses Google TTS with character persona settings and cached text for regeneration.
+ * Uses the configured TTS engine with character persona settings and cached text for regeneration.
  */
 
 import fs from "fs";
-import os from "os";
 import path from "path";
-import { synthesizeSpeechToFile } from "../../src/utils/tts";
+import { getAudioTmpDir, isTtsEnabled, synthesizeSpeechToFile } from "../../src/utils/tts";
 import { getReplyCache } from "../../src/utils/cache";
 import { logEvent, sanitizeLogMeta } from "../../src/utils/logger";
 import type { CharacterVoiceConfig } from "../../src/utils/characterVoices";
 import { getVoiceConfigForCharacter } from "../../src/utils/characterVoices";
 import { createRateLimiter } from "../../src/utils/rateLimit";
 import { normalizeStudioVoice, buildSsml } from "../../src/utils/voiceHelpers";
-import anthropic from "../../src/utils/anthropicClient";
+import { getLlmProvider } from "../../src/utils/llm";
 
-// Note: deterministic serialization is implemented in pages/api/chat.ts where it's used for audio URL encoding.
+// Note: audio file names and URLs are built by src/utils/replyAudio.ts (shared by /api/chat and /api/voices).
 
 // SYSTEM_PROMPT: Generalize to a Character Chatbot Generator persona
 const SYSTEM_PROMPT = `You are a helpful character chatbot. Respond concisely, helpfully, and in a friendly tone. Use the style, knowledge, and quirks of the selected character. Stay in character at all times. Keep responses to one paragraph maximum (100-120 words). Be concise and focused.`;
@@ -28,7 +27,7 @@ const audioRateLimit = createRateLimiter(
 
 function getOriginalTextForAudio(sanitizedFile: string): string | null {
   const txtFile = sanitizedFile.replace(/\.mp3$/, ".txt");
-  const txtPathTmp = path.join(os.tmpdir(),txtFile);
+  const txtPathTmp = path.join(getAudioTmpDir(), txtFile);
   const txtPathPublic = path.join(/*turbopackIgnore: true*/ process.cwd(), "public", txtFile);
   if (fs.existsSync(txtPathTmp)) {
     return fs.readFileSync(txtPathTmp, "utf8");
@@ -50,7 +49,11 @@ async function handler(
   if (res.headersSent) {
     return;
   }
-  
+  if (!isTtsEnabled()) {
+    logEvent("info", "audio_tts_disabled", "Audio API request while text-to-speech is disabled");
+    return res.status(404).json({ error: "Text-to-speech is disabled" });
+  }
+
   const { file, text: expectedText, voiceConfig: voiceConfigParam } = req.query;
   const botName = typeof req.query.botName === "string" ? req.query.botName : "Character";
   const gender = typeof req.query.gender === "string" ? req.query.gender : null;
@@ -73,7 +76,7 @@ async function handler(
   }
   // Only allow filename, not path
   const sanitizedFile = path.basename(file);
-  const audioFilePath = path.join(os.tmpdir(),sanitizedFile);
+  const audioFilePath = path.join(getAudioTmpDir(), sanitizedFile);
   const localFilePath = path.join(/*turbopackIgnore: true*/ process.cwd(), "public", sanitizedFile);
   const txtFilePath = audioFilePath.replace(/\.mp3$/, ".txt");
   const checkFileExists = (filePath: string) =>
@@ -204,7 +207,7 @@ async function handler(
             regenError = err;
           }
         }
-        // If still not found, try full Claude+TTS regen up to 3 times
+        // If still not found, try full LLM+TTS regen up to 3 times
         if (!found) {
           for (let attempt = 1; attempt <= 3; attempt++) {
               try {
@@ -214,15 +217,15 @@ async function handler(
                 }));
                 // Use the filename (without .mp3) as the user message if possible
                 const userMessage = sanitizedFile.replace(/\.mp3$/, "");
-                const result = await anthropic.messages.create({
-                  model: "claude-haiku-4-5-20251001",
+                const result = await getLlmProvider().complete({
+                  tier: "text-simple",
                   system: SYSTEM_PROMPT,
                   messages: [{ role: "user", content: userMessage }],
-                  max_tokens: 150,
+                  maxTokens: 150,
                   temperature: 0.8,
                 });
-                const aiReply = result.content[0]?.type === "text" ? result.content[0].text.trim() : "";
-                if (!aiReply) throw new Error("Claude returned empty message");
+                const aiReply = result.text.trim();
+                if (!aiReply) throw new Error("LLM returned empty message");
                 // Save .txt for future regen
                 const txtFilePath = audioFilePath.replace(/\.mp3$/, ".txt");
                 fs.writeFileSync(txtFilePath, aiReply, "utf8");
@@ -267,7 +270,7 @@ async function handler(
   }
 
   // Security: only allow files in /tmp or /public
-  const allowedTmp = os.tmpdir();
+  const allowedTmp = getAudioTmpDir();
   const allowedPublic = path.join(/*turbopackIgnore: true*/ process.cwd(), "public");
   if (
     normalizedAudioFilePath &&
@@ -307,7 +310,9 @@ async function handler(
   logEvent("info", "audio_sent", "Audio API success: audio file sent", sanitizeLogMeta({
     file: sanitizedFile
   }));
-  res.setHeader("Content-Type", "audio/mpeg");
+  // Local engines write WAV under the same .mp3 names
+  const isWav = audioContent.subarray(0, 4).toString("ascii") === "RIFF";
+  res.setHeader("Content-Type", isWav ? "audio/wav" : "audio/mpeg");
   res.send(audioContent);
 }
 
@@ -0,0 +1,69 @@
+/**
+ * API endpoint serving stored character portraits and their thumbnails by
+ * content hash (see src/utils/avatarStorage.ts). The bytes behind a hash never
+ * change, so responses may be cached indefinitely.
+ */
+
+import type { NextApiRequest, NextApiResponse } from "next";
+import { generateRequestId, logEvent, sanitizeLogMeta } from "../../../src/utils/logger";
+import { createRateLimiter } from "../../../src/utils/rateLimit";
+import { loadAvatar } from "../../../src/utils/avatarStorage";
+import { AVATAR_ID_PATTERN } from "../../../src/utils/avatarUrl";
+
+/** Rate limiter: 300 requests per minute per IP (every chat message shows a portrait). */
+const avatarRateLimit = createRateLimiter(
+  300,
+  "Too many avatar requests from this IP, please try again later.",
+);
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    res.setHeader("Allow", ["GET", "HEAD"]);
+    res.status(405).json({ error: "Method not allowed" });
+    return;
+  }
+
+  await new Promise<void>((resolve) => {
+    avatarRateLimit(req, res, () => resolve());
+  });
+  if (res.headersSent) {
+    return;
+  }
+
+  const requestId = req.headers["x-request-id"] || generateRequestId();
+  const { hash } = req.query;
+  if (typeof hash !== "string" || !AVATAR_ID_PATTERN.test(hash)) {
+    res.status(400).json({ error: "Invalid avatar id", requestId });
+    return;
+  }
+
+  const etag = `"${hash}"`;
+  if (req.headers["if-none-match"] === etag) {
+    res.status(304).end();
+    return;
+  }
+
+  try {
+    const avatar = await loadAvatar(hash);
+    if (!avatar) {
+      res.status(404).json({ error: "Avatar not found", requestId });
+      return;
+    }
+    res.setHeader("Content-Type", avatar.contentType);
+    res.setHeader("Content-Length", avatar.data.length);
+    res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+    res.setHeader("ETag", etag);
+    if (req.method === "HEAD") {
+      res.status(200).end();
+      return;
+    }
+    res.status(200).send(avatar.data);
+  } catch (error) {
+    logEvent("error", "avatar_load_failed", "Failed to load stored avatar", sanitizeLogMeta({
+      requestId,
+      hash,
+      error: error instanceof Error ? error.message : String(error),
+    }));
+    res.status(500).json({ error: "Failed to load avatar", requestId });
+  }
+}
@@ -1,34 +1,38 @@
 /**
  * API route for chat requests.
  *
- * Handles user input, calls Claude for characterful replies, and synthesizes audio using Google TTS.
- * Implements caching, logging, and rate limiting. Returns both text and audio URLs.
+ * Handles user input, calls the configured LLM provider for characterful replies, and synthesizes audio
+ * with the configured TTS engine (replies are text-only when TTS is disabled).
+ * Implements caching, logging, and rate limiting. Returns both text and audio URLs, either as one
+ * JSON response or, with `stream: true`, as server-sent events: `{chunk}` events while the reply is
+ * generated, `{audio}` events carrying one clip per sentence as soon as it is synthesized, then a
+ * final `{reply, done: true}` event once every clip has been sent. Replies open with a mood tag
+ * (see avatarMoods) that is returned as `mood` rather than in the reply text.
  *
  * @module api/chat
  */
 
 import { NextApiRequest, NextApiResponse } from "next";
-import sanitizeFilename from "sanitize-filename";
-import { synthesizeSpeechToFile } from "../../src/utils/tts";
+import { getAudioTmpDir, isTtsEnabled } from "../../src/utils/tts";
 import fs from "fs";
-import os from "os";
 import path from "path";
 import ipinfo from "ipinfo";
 import logger, { generateRequestId } from "../../src/utils/logger";
 import { setReplyCache, getReplyCache } from "../../src/utils/cache";
 import crypto from "crypto";
-import { getClaudeModel } from "../../src/utils/claudeModelSelector";
 import { createRateLimiter } from "../../src/utils/rateLimit";
-import { normalizeStudioVoice, buildSsml } from "../../src/utils/voiceHelpers";
-import { summarizeConversation, buildClaudeMessages, type ClaudeMessage } from "../../src/utils/conversationSummarizer";
-import { generatePersonalityPrompt } from "../../src/config/serverConfig";
-import anthropic from "../../src/utils/anthropicClient";
-
-if (!process.env.GOOGLE_APPLICATION_CREDENTIALS_JSON) {
-  throw new Error(
-    "Missing GOOGLE_APPLICATION_CREDENTIALS_JSON environment variable",
-  );
-}
+import { updateRollingSummary, buildClaudeMessages, type ClaudeMessage } from "../../src/utils/conversationSummarizer";
+import { getContextBudget, MAX_SUMMARY_CHARS, splitHistoryByBudget, truncateToTokens } from "../../src/utils/contextWindow";
+import { buildPersonalityPrompt, parsePersonalityProfile } from "../../src/utils/personalityProfile";
+import { buildGroupContextInstructions, MAX_GROUP_PARTICIPANTS } from "../../src/utils/groupChat";
+import { buildMemoryInstructions, getMemoryStore, isValidUserId, selectRelevantMemories } from "../../src/utils/characterMemory";
+import { getLlmProvider, type LlmResponse } from "../../src/utils/llm";
+import type { CharacterVoiceConfig } from "../../src/utils/characterVoices";
+import { createSentenceSplitter, splitSentences } from "../../src/utils/sentenceSplitter";
+import { synthesizeReplyAudio } from "../../src/utils/replyAudio";
+import { stripToneTags, TONE_TAG_INSTRUCTIONS } from "../../src/utils/voiceHelpers";
+import { buildLanguageInstructions, parseLanguage } from "../../src/utils/language";
+import { MOOD_TAG_INSTRUCTIONS, parseMoodTag, stripMoodTags } from "../../src/utils/avatarMoods";
 
 /** Rate limiter for chat endpoint: 10 requests per minute per IP. */
 const chatRateLimit = createRateLimiter(
@@ -46,7 +50,7 @@ const AUDIO_FILE_MAX_AGE = 24 * 60 * 60 * 1000; // Delete audio files older than
 
 function cleanupOldAudioFiles() {
   try {
-    const tmpDir = os.tmpdir();
+    const tmpDir = getAudioTmpDir();
     if (!fs.existsSync(tmpDir)) return;
 
     const files = fs.readdirSync(tmpDir);
@@ -76,41 +80,6 @@ function cleanupOldAudioFiles() {
   }
 }
 
-/**
- * Deterministic JSON serializer for cache key generation.
- * - Sorts object keys alphabetically
- * - Recurses through arrays and objects
- * - Preserves types for consistent keys across nodes
- */
-function stableStringify(obj: unknown): string {
-  if (obj === null || typeof obj !== 'object') return JSON.stringify(obj);
-  if (Array.isArray(obj)) return '[' + obj.map(stableStringify).join(',') + ']';
-  const keys = Object.keys(obj as Record<string, unknown>).sort();
-  return '{' + keys.map(k => JSON.stringify(k) + ':' + stableStringify((obj as Record<string, unknown>)[k])).join(',') + '}';
-}
-
-function getAudioCacheKey(text: string, voiceConfig: object) {
-  return crypto.createHash('sha256')
-    .update(text)
-    .update(stableStringify(voiceConfig))
-    .digest('hex');
-}
-
-
-/**
- * Checks if the given object is a valid Claude messages response.
- */
-function isClaudeResponse(
-  obj: unknown,
-): obj is { content: { type: string; text?: string }[] } {
-  return (
-    obj !== null &&
-    typeof obj === "object" &&
-    "content" in obj &&
-    Array.isArray((obj as { content: unknown }).content)
-  );
-}
-
 /**
  * Removes roleplay action emotes (*action text*) from a response.
  * Characters should speak in dialogue/prose only, not stage directions.
@@ -161,9 +130,72 @@ function gracefullyWrapResponse(response: string): string {
   return trimmed + '.';
 }
 
+/** Post-processing shared by the streaming and non-streaming replies. */
+function finalizeReply(response: string): string {
+  return stripActionEmotes(gracefullyWrapResponse(response.trim()));
+}
+
+/** Writes one server-sent event. */
+function writeEvent(res: NextApiResponse, payload: Record<string, unknown>) {
+  res.write(`data: ${JSON.stringify(payload)}\n\n`);
+}
+
+/** Sentences without letters or digits (e.g. a lone "...") are not worth a clip. */
+function isSpeakable(sentence: string): boolean {
+  return /[\p{L}\p{N}]/u.test(sentence);
+}
+
+/** The part of a sentence that is read aloud: mood tags and action emotes are silent. */
+function spokenText(sentence: string): string {
+  return stripActionEmotes(stripMoodTags(sentence));
+}
+
+/**
+ * Speaks a streamed reply one sentence at a time. Clips are synthesized in order, one after
+ * another, and `onClip` receives each /api/audio URL as soon as it is ready. A synthesis failure
+ * skips the remaining clips; the reply text is unaffected.
+ */
+function createSentenceAudio(
+  voiceConfig: CharacterVoiceConfig,
+  botName: string,
+  gender: string | undefined,
+  onClip: (audioFileUrl: string) => void,
+  isCancelled: () => boolean,
+) {
+  const splitter = createSentenceSplitter();
+  let queue = Promise.resolve();
+  let queued = 0;
+  let failed = false;
+  const enqueue = (sentence: string) => {
+    const text = spokenText(sentence);
+    if (!isSpeakable(text)) return;
+    queued++;
+    queue = queue.then(async () => {
+      if (failed || isCancelled()) return;
+      try {
+        onClip(await synthesizeReplyAudio(text, voiceConfig, botName, gender));
+      } catch (error) {
+        failed = true;
+        logger.error("Text-to-Speech API error (sentence):", { error });
+      }
+    });
+  };
+  return {
+    push(chunk: string) {
+      splitter.push(chunk).forEach(enqueue);
+    },
+    /** Queues the sentences of the final reply that have not been spoken yet; resolves once all clips are sent. */
+    finish(reply: string) {
+      // `queued` counts spoken sentences, so skip over them the same way
+      splitSentences(reply).filter((sentence) => isSpeakable(spokenText(sentence))).slice(queued).forEach(enqueue);
+      return queue;
+    },
+  };
+}
+
 /**
  * Next.js API route handler for chat requests.
- * Handles user input, calls Claude, and returns the character chatbot's reply and audio.
+ * Handles user input, calls the LLM provider, and returns the character chatbot's reply and audio.
  */
 async function handler(
   req: NextApiRequest,
@@ -193,14 +225,39 @@ async function handler(
     }
 
     const userMessage = req.body.message;
-    const personality = req.body.personality || generatePersonalityPrompt("a character chatbot");
     const botName = req.body.botName || "Character";
+    // Bots with a structured profile get their prompt rebuilt from it, so edits take effect immediately
+    const profile = parsePersonalityProfile(req.body.profile);
+    const personality = profile
+      ? buildPersonalityPrompt(botName, profile)
+      : typeof req.body.personality === "string" && req.body.personality.trim()
+        ? req.body.personality
+        : `You are ${botName}. Stay in character and respond naturally. Never break character or mention being an AI.`;
     const gender = req.body.gender;
-    const conversationHistory = req.body.conversationHistory || [];
+    // Conversation language chosen when the character was created; English adds no instructions
+    const language = parseLanguage(req.body.language);
+    const conversationHistory: string[] = Array.isArray(req.body.conversationHistory)
+      ? req.body.conversationHistory.filter((entry: unknown): entry is string => typeof entry === "string")
+      : [];
+    // Rolling summary of the turns before conversationHistory (see contextWindow.ts)
+    const previousSummary = typeof req.body.summary === "string" && req.body.summary.trim()
+      ? req.body.summary.slice(0, MAX_SUMMARY_CHARS)
+      : undefined;
     const stream = req.body.stream === true; // Support streaming mode
+    // Regenerating a reply must not return the cached text for the same history
+    const skipCache = req.body.skipCache === true;
     const voiceConfig = req.body.voiceConfig;
-
-    if (!userMessage) {
+    const ttsEnabled = isTtsEnabled();
+    // Group conversations: names of every character in the room (including botName)
+    const groupParticipants: string[] = Array.isArray(req.body.groupParticipants)
+      ? req.body.groupParticipants
+        .filter((name: unknown): name is string => typeof name === "string" && name.trim().length > 0)
+        .slice(0, MAX_GROUP_PARTICIPANTS)
+      : [];
+    const isGroup = groupParticipants.length > 1 && groupParticipants.includes(botName);
+
+    // In a group, a character may reply to the previous character instead of a new user message
+    if (!userMessage && !(isGroup && conversationHistory.length > 0)) {
       logger.info(`[Chat API] 400 Bad Request: Message is required | requestId=${requestId}`);
       res.status(400).json({ error: "Message is required", requestId });
       return;
@@ -227,24 +284,23 @@ async function handler(
 
     const timestamp = new Date().toISOString();
 
-    // Implement conversation summarization when history exceeds 20 messages
-    let conversationSummary: string | undefined;
-    let limitedHistory = conversationHistory;
-
-    if (conversationHistory.length > 20) {
-      const recentHistory = conversationHistory.slice(-20);
-      const oldHistory = conversationHistory.slice(0, -20);
-
-      // Build messages from old history for summarization
-      const oldMessages = buildClaudeMessages(oldHistory, "").slice(0, -1); // exclude the empty user message at end
-
-      if (oldMessages.length > 0) {
-        conversationSummary = await summarizeConversation(anthropic, oldMessages, botName);
-        logger.info(`[Chat API] Summarized ${oldHistory.length} old messages | requestId=${requestId}`);
+    const provider = getLlmProvider();
+
+    // Keep the history within the model's token budget, folding older turns into the rolling summary
+    const contextBudget = getContextBudget("text");
+    const { older: olderHistory, recent: limitedHistory } = splitHistoryByBudget(conversationHistory, contextBudget);
+    let conversationSummary = previousSummary;
+    let summarizedCount = 0;
+    if (olderHistory.length > 0) {
+      const updatedSummary = await updateRollingSummary(provider, previousSummary, olderHistory, botName, contextBudget.summaryTokens);
+      if (updatedSummary) {
+        conversationSummary = updatedSummary;
+        summarizedCount = olderHistory.length;
+        logger.info(`[Chat API] Folded ${olderHistory.length} older messages into the rolling summary | requestId=${requestId}`);
       }
-
-      limitedHistory = recentHistory;
     }
+    // Returned to the client only when it changed, along with how many sent entries it now covers
+    const summaryUpdate = summarizedCount > 0 ? { summary: conversationSummary, summarizedCount } : {};
 
     const historyContextInstructions = `
 CRITICAL CONTEXT INSTRUCTIONS:
@@ -255,220 +311,221 @@ CRITICAL CONTEXT INSTRUCTIONS:
 - If the previous response was incomplete or truncated, seamlessly continue from the exact point where it ended.
 - Pay attention to all plot details, character names, and setting information from the conversation to ensure narrative continuity.`;
 
+    // Facts this character remembers about the user from earlier sessions (see characterMemory.ts)
+    let memoryInstructions = "";
+    if (isValidUserId(req.body.userId)) {
+      try {
+        const memories = await getMemoryStore().get(req.body.userId, botName);
+        const context = [...limitedHistory.slice(-4), userMessage || ""].join("\n");
+        memoryInstructions = buildMemoryInstructions(selectRelevantMemories(memories, context));
+      } catch (error) {
+        logger.error(`[Chat API] Failed to load character memories | requestId=${requestId}`, { error });
+      }
+    }
+
+    const groupInstructions = isGroup ? buildGroupContextInstructions(botName, groupParticipants) : "";
+    // Spoken replies may mark a sentence's tone; the tags shape the speech and are stripped from the text
+    const toneInstructions = ttsEnabled ? TONE_TAG_INSTRUCTIONS : "";
+    const languageInstructions = buildLanguageInstructions(language);
+    const baseSystemPrompt = `${personality}\n${historyContextInstructions}${groupInstructions}${memoryInstructions}${toneInstructions}${MOOD_TAG_INSTRUCTIONS}${languageInstructions}`;
     const systemPrompt = conversationSummary
-      ? `${personality}\n${historyContextInstructions}\n\nPrevious conversation summary: ${conversationSummary}`
-      : `${personality}\n${historyContextInstructions}`;
+      ? `${baseSystemPrompt}\n\nPrevious conversation summary: ${conversationSummary}`
+      : baseSystemPrompt;
 
     // Build messages array: full conversation history (verbatim) + new user message
-    const messages: ClaudeMessage[] = buildClaudeMessages(limitedHistory, userMessage);
+    const messages: ClaudeMessage[] = buildClaudeMessages(
+      limitedHistory,
+      truncateToTokens(userMessage || "", contextBudget.maxEntryTokens),
+      isGroup ? botName : undefined,
+    );
+    // Stop before the model starts speaking for another character in the room. The other
+    // participants come first: some providers only accept four stop sequences and keep the
+    // first ones, and group history never uses the generic "Bot:" label
+    const stopSequences = isGroup
+      ? [...groupParticipants.filter((name) => name !== botName).map((name) => `\n${name}:`), "User:", "Bot:"]
+      : ["User:", "Bot:"];
 
     // --- API response caching logic ---
     const cacheKey = JSON.stringify({
       botName,
       personality,
       history: limitedHistory.slice(-10),
+      summary: conversationSummary,
+      memories: memoryInstructions,
       userMessage,
+      ...(isGroup ? { groupParticipants } : {}),
+      ...(languageInstructions ? { language } : {}),
     });
-    const cachedReply = getReplyCache(cacheKey);
+    const cachedReply = skipCache ? null : getReplyCache(cacheKey);
     if (cachedReply) {
       logger.info(`[Chat API] Cache hit for key: ${cacheKey} | requestId=${requestId}`);
-      const voiceConfigToUse = voiceConfig;
-      logger.info(`[TTS] Using voice for botName='${botName}': ${JSON.stringify(voiceConfigToUse)}`);
-      const selectedVoice = normalizeStudioVoice(voiceConfigToUse);
-      const ssmlText = buildSsml(cachedReply, selectedVoice);
-      const tmpDir = os.tmpdir();
-      if (!fs.existsSync(tmpDir)) {
-        fs.mkdirSync(tmpDir, { recursive: true });
+      const cached = parseMoodTag(cachedReply);
+      if (stream) {
+        // Streaming clients expect events; the cached reply arrives as a single chunk, and its
+        // sentence clips are usually already on disk from when it was first generated
+        res.setHeader('Content-Type', 'text/event-stream');
+        res.setHeader('Cache-Control', 'no-cache, no-transform');
+        writeEvent(res, { chunk: cached.text, done: false });
+        if (ttsEnabled) {
+          await createSentenceAudio(voiceConfig, botName, gender, (audio) => writeEvent(res, { audio, done: false }), () => false)
+            .finish(cached.text);
+        }
+        writeEvent(res, { reply: stripToneTags(cached.text), ...(cached.mood ? { mood: cached.mood } : {}), cached: true, model: provider.getModel("text"), ...summaryUpdate, requestId, done: true });
+        res.end();
+        return;
       }
-      const audioCacheKey = getAudioCacheKey(cachedReply, selectedVoice);
-      const audioFileName = sanitizeFilename(`${audioCacheKey}.mp3`);
-      const audioFilePath = path.join(tmpDir, audioFileName);
-      if (!fs.existsSync(audioFilePath)) {
+      let audioFileUrl: string | undefined;
+      if (ttsEnabled) {
+        logger.info(`[TTS] Using voice for botName='${botName}': ${JSON.stringify(voiceConfig)}`);
         try {
-          await synthesizeSpeechToFile({
-            text: ssmlText,
-            filePath: audioFilePath,
-            ssml: true,
-            voice: selectedVoice,
-          });
-          const txtFilePath = audioFilePath.replace(/\.mp3$/, ".txt");
-          fs.writeFileSync(txtFilePath, cachedReply, "utf8");
-          setReplyCache(audioFileName, cachedReply);
+          audioFileUrl = await synthesizeReplyAudio(cached.text, voiceConfig, botName, gender);
         } catch (error) {
           logger.error("Text-to-Speech API error (cache hit):", { error });
           const errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
-          res.status(500).json({ error: "Google Cloud TTS failed", details: errorMessage });
+          res.status(500).json({ error: "Text-to-speech failed", details: errorMessage });
           return;
         }
       }
-      try {
-        const txtFilePath = audioFilePath.replace(/\.mp3$/, ".txt");
-        if (!fs.existsSync(txtFilePath) || fs.readFileSync(txtFilePath, "utf8").trim() !== cachedReply.trim()) {
-          fs.writeFileSync(txtFilePath, cachedReply, "utf8");
-        }
-      } catch (err) {
-        logger.error("Failed to ensure .txt file for audio reply (cache hit):", { error: err });
-      }
-      const audioFileUrl = `/api/audio?file=${audioFileName}&text=${encodeURIComponent(cachedReply)}&botName=${encodeURIComponent(botName)}&gender=${encodeURIComponent(gender || '')}&voiceConfig=${encodeURIComponent(JSON.stringify(voiceConfig))}`;
-      return res.status(200).json({
-        reply: cachedReply,
-        audioFileUrl,
+      const cachedResponse = {
+        reply: stripToneTags(cached.text),
+        ...(cached.mood ? { mood: cached.mood } : {}),
+        ...(audioFileUrl ? { audioFileUrl } : {}),
         cached: true,
+        model: provider.getModel("text"),
+        ...summaryUpdate,
         requestId
-      });
+      };
+      return res.status(200).json(cachedResponse);
     }
 
-    // Timeout to avoid hanging
-    const timeout = new Promise((resolve) =>
-      setTimeout(() => resolve({ timeout: true }), 20000),
-    );
-
     // Handle streaming mode
     if (stream) {
       res.setHeader('Content-Type', 'text/event-stream');
       res.setHeader('Cache-Control', 'no-cache, no-transform');
       res.setHeader('Connection', 'keep-alive');
 
+      // Stop generating once the client has gone away (e.g. the user cancelled the reply)
+      let clientGone = false;
+      res.on?.('close', () => {
+        if (!res.writableEnded) clientGone = true;
+      });
+
+      // Speech starts with the first complete sentence instead of waiting for the whole reply
+      const sentenceAudio = ttsEnabled
+        ? createSentenceAudio(voiceConfig, botName, gender, (audio) => writeEvent(res, { audio, done: false }), () => clientGone)
+        : null;
+
       try {
-        const streamResponse = anthropic.messages.stream({
-          model: getClaudeModel("text"),
+        const streamResponse = provider.stream({
+          tier: "text",
           system: systemPrompt,
           messages,
-          max_tokens: 500,
+          maxTokens: 500,
           temperature: 0.7,
-          stop_sequences: ["User:", "Bot:"],
+          stopSequences,
         });
 
         let botReply = '';
 
-        for await (const chunk of streamResponse) {
-          if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta') {
-            const content = chunk.delta.text;
-            if (content) {
-              botReply += content;
-              res.write(`data: ${JSON.stringify({ chunk: content, done: false })}\n\n`);
-            }
-          }
+        for await (const content of streamResponse) {
+          if (clientGone) break;
+          botReply += content;
+          writeEvent(res, { chunk: content, done: false });
+          sentenceAudio?.push(content);
+        }
+        if (clientGone) {
+          logger.info(`[Chat API] Client closed the stream before the reply finished | requestId=${requestId}`);
+          res.end();
+          return;
         }
 
         if (!botReply || botReply.trim() === "") {
-          res.write(`data: ${JSON.stringify({ error: "Empty response", done: true })}\n\n`);
+          writeEvent(res, { error: "Empty response", done: true });
           res.end();
           return;
         }
 
-        botReply = stripActionEmotes(gracefullyWrapResponse(botReply));
-
-        const voiceConfigToUse = voiceConfig;
-        const selectedVoice = normalizeStudioVoice(voiceConfigToUse);
-
-        const audioFileName = sanitizeFilename(`${botName}_${Date.now()}.mp3`);
-        const audioDir = process.env.TTS_TMP_DIR || os.tmpdir();
-        if (!fs.existsSync(audioDir)) {
-          fs.mkdirSync(audioDir, { recursive: true });
+        botReply = finalizeReply(botReply);
+        await sentenceAudio?.finish(botReply);
+        if (clientGone) {
+          res.end();
+          return;
         }
-        const audioFilePath = path.join(audioDir, audioFileName);
-
-        await synthesizeSpeechToFile({
-          text: botReply,
-          filePath: audioFilePath,
-          ssml: false,
-          voice: selectedVoice,
-        });
-        const audioFileUrl = `/api/audio?file=${audioFileName}&text=${encodeURIComponent(botReply)}&botName=${encodeURIComponent(botName)}&gender=${encodeURIComponent(gender || '')}&voiceConfig=${encodeURIComponent(JSON.stringify(voiceConfigToUse))}`;
 
-        res.write(`data: ${JSON.stringify({ reply: botReply, audioFileUrl, done: true })}\n\n`);
+        setReplyCache(cacheKey, botReply);
+        const { mood, text: replyText } = parseMoodTag(botReply);
+        writeEvent(res, { reply: stripToneTags(replyText), ...(mood ? { mood } : {}), model: provider.getModel("text"), ...summaryUpdate, requestId, done: true });
         res.end();
 
-        setReplyCache(cacheKey, botReply);
-        logger.info(`${timestamp}|${userIp}|${userLocation}|${userMessage.replace(/"/g, '""')}|${botReply.replace(/"/g, '""')}|requestId=${requestId}`);
+        logger.info(`${timestamp}|${userIp}|${userLocation}|${(userMessage || "").replace(/"/g, '""')}|${botReply.replace(/"/g, '""')}|requestId=${requestId}`);
         return;
       } catch (streamErr) {
         logger.error("Streaming error:", { error: streamErr });
-        res.write(`data: ${JSON.stringify({ error: "Streaming failed", done: true })}\n\n`);
+        writeEvent(res, { error: "Streaming failed", done: true });
         res.end();
         return;
       }
     }
 
-    // Non-streaming mode
+    // Non-streaming mode, with a timeout to avoid hanging
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise((resolve) => {
+      timeoutId = setTimeout(() => resolve({ timeout: true }), 20000);
+    });
     const result = await Promise.race([
-      anthropic.messages.create({
-        model: getClaudeModel("text"),
+      provider.complete({
+        tier: "text",
         system: systemPrompt,
         messages,
-        max_tokens: 500,
+        maxTokens: 500,
         temperature: 0.7,
-        stop_sequences: ["User:", "Bot:"],
+        stopSequences,
       }),
       timeout,
-    ]);
+    ]).finally(() => clearTimeout(timeoutId));
 
     if (result && typeof result === "object" && "timeout" in result) {
       logger.info(`[Chat API] 408 Request Timeout | requestId=${requestId}`);
       res.status(408).json({ reply: "Request timed out.", requestId });
       return;
     }
-    if (!isClaudeResponse(result)) {
-      logger.info(`[Chat API] 500 Internal Server Error: Invalid Claude response | requestId=${requestId}`);
-      throw new Error("Invalid response from Claude");
-    }
-    let botReply = result.content[0]?.type === "text" ? (result.content[0] as { type: "text"; text: string }).text.trim() : "";
+    const completion = result as LlmResponse;
+    let botReply = completion.text.trim();
 
     if (!botReply || botReply.trim() === "") {
       logger.info(`[Chat API] 500 Internal Server Error: Empty bot response | requestId=${requestId}`);
       throw new Error("Generated bot response is empty.");
     }
 
-    botReply = gracefullyWrapResponse(botReply);
+    botReply = finalizeReply(botReply);
+    // The cache keeps the tag so a cached reply still carries its mood
+    const { mood, text: replyText } = parseMoodTag(botReply);
 
-    const voiceConfigToUse = voiceConfig;
-    const voiceConfigHash = crypto.createHash("sha256").update(JSON.stringify(voiceConfigToUse)).digest("hex");
-    logger.info(`[TTS] Using voice for botName='${botName}', voiceConfigHash=${voiceConfigHash}: ${JSON.stringify(voiceConfigToUse)}`);
-    const selectedVoice = normalizeStudioVoice(voiceConfigToUse);
-    const ssmlText = buildSsml(botReply, selectedVoice);
-    const tmpDir = os.tmpdir();
-    if (!fs.existsSync(tmpDir)) {
-      fs.mkdirSync(tmpDir, { recursive: true });
-    }
-    const audioCacheKey = getAudioCacheKey(botReply, selectedVoice);
-    const audioFileName = sanitizeFilename(`${audioCacheKey}.mp3`);
-    const audioFilePath = path.join(tmpDir, audioFileName);
-    if (!fs.existsSync(audioFilePath)) {
+    let audioFileUrl: string | undefined;
+    if (ttsEnabled) {
+      const voiceConfigHash = crypto.createHash("sha256").update(JSON.stringify(voiceConfig)).digest("hex");
+      logger.info(`[TTS] Using voice for botName='${botName}', voiceConfigHash=${voiceConfigHash}: ${JSON.stringify(voiceConfig)}`);
       try {
-        await synthesizeSpeechToFile({
-          text: ssmlText,
-          filePath: audioFilePath,
-          ssml: true,
-          voice: selectedVoice,
-        });
-        const txtFilePath = audioFilePath.replace(/\.mp3$/, ".txt");
-        fs.writeFileSync(txtFilePath, botReply, "utf8");
-        setReplyCache(audioFileName, botReply);
+        audioFileUrl = await synthesizeReplyAudio(replyText, voiceConfig, botName, gender);
       } catch (error) {
         logger.error("Text-to-Speech API error:", { error });
         const errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
-        res.status(500).json({ error: "Google Cloud TTS failed", details: errorMessage });
+        res.status(500).json({ error: "Text-to-speech failed", details: errorMessage });
         return;
       }
     }
-    try {
-      const txtFilePath = audioFilePath.replace(/\.mp3$/, ".txt");
-      if (!fs.existsSync(txtFilePath) || fs.readFileSync(txtFilePath, "utf8").trim() !== botReply.trim()) {
-        fs.writeFileSync(txtFilePath, botReply, "utf8");
-      }
-    } catch (err) {
-      logger.error("Failed to ensure .txt file for audio reply:", { error: err });
-    }
     setReplyCache(cacheKey, botReply);
     logger.info(
-      `${timestamp}|${userIp}|${userLocation}|${userMessage.replace(/"/g, '""')}|${botReply.replace(/"/g, '""')}|requestId=${requestId}`,
+      `${timestamp}|${userIp}|${userLocation}|${(userMessage || "").replace(/"/g, '""')}|${botReply.replace(/"/g, '""')}|requestId=${requestId}`,
     );
-    logger.info(`[Chat API] 200 OK: Reply and audioFileUrl sent | requestId=${requestId}`);
-    const audioFileUrl = `/api/audio?file=${audioFileName}&text=${encodeURIComponent(botReply)}&botName=${encodeURIComponent(botName)}&gender=${encodeURIComponent(gender || '')}&voiceConfig=${encodeURIComponent(JSON.stringify(voiceConfigToUse))}`;
+    logger.info(`[Chat API] 200 OK: Reply${audioFileUrl ? " and audioFileUrl" : ""} sent | requestId=${requestId}`);
     res.status(200).json({
-      reply: botReply,
-      audioFileUrl,
+      reply: stripToneTags(replyText),
+      ...(mood ? { mood } : {}),
+      ...(audioFileUrl ? { audioFileUrl } : {}),
+      model: completion.model,
+      ...(completion.usage ? { usage: completion.usage } : {}),
+      ...summaryUpdate,
       requestId
     });
     return;
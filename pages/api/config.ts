@@ -1,11 +1,16 @@
 /**
- * Public configuration endpoint exposing safe client values (e.g., avatar timeout).
+ * Public configuration endpoint exposing safe client values (e.g., avatar timeout,
+ * whether the server can transcribe voice input).
  * Origin validation is enforced by middleware; no CORS handling needed here.
  */
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { AVATAR_TIMEOUT_MS } from '../../src/config/serverConfig';
+import { isSttEnabled } from '../../src/utils/stt';
 
 export default function handler(_req: NextApiRequest, res: NextApiResponse) {
     // Only expose safe-to-share configuration values to the client
-    res.status(200).json({ avatarTimeoutSeconds: Math.round(AVATAR_TIMEOUT_MS / 1000) });
+    res.status(200).json({
+        avatarTimeoutSeconds: Math.round(AVATAR_TIMEOUT_MS / 1000),
+        speechInput: isSttEnabled(),
+    });
 }
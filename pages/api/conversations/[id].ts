@@ -0,0 +1,118 @@
+/**
+ * API endpoint for a single stored conversation.
+ * GET returns it for resuming on another device, PUT replaces it (the client
+ * syncs after each change), DELETE removes it. Conversations are created with
+ * POST /api/conversations; every call here must name the owning session
+ * (`sessionId` query parameter, or the body for PUT) and sees only its records.
+ */
+
+import type { NextApiRequest, NextApiResponse } from "next";
+import { generateRequestId, logEvent, sanitizeLogMeta } from "../../../src/utils/logger";
+import { createRateLimiter } from "../../../src/utils/rateLimit";
+import {
+  getConversationStore,
+  isValidConversationId,
+  isValidSessionId,
+  parseConversationInput,
+} from "../../../src/utils/conversationStore";
+
+export const config = {
+  api: {
+    bodyParser: {
+      // Bots carry only /api/avatar URLs, so bodies are mostly message text
+      sizeLimit: "2mb",
+    },
+  },
+};
+
+/** Rate limiter: 60 requests per minute per IP (the client syncs after every reply). */
+const conversationRateLimit = createRateLimiter(
+  60,
+  "Too many conversation requests from this IP, please try again later.",
+);
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const requestId = req.headers["x-request-id"] || generateRequestId();
+
+  await new Promise<void>((resolve) => {
+    conversationRateLimit(req, res, () => resolve());
+  });
+  if (res.headersSent) {
+    return;
+  }
+
+  const { id } = req.query;
+  if (!isValidConversationId(id)) {
+    res.status(400).json({ error: "Invalid conversation id", requestId });
+    return;
+  }
+
+  const store = getConversationStore();
+  // Loads the record only when it belongs to the calling session
+  const loadOwned = async (sessionId: string) => {
+    const conversation = await store.get(sessionId, id);
+    return conversation && conversation.sessionId === sessionId ? conversation : null;
+  };
+  const querySessionId = req.query.sessionId;
+
+  try {
+    if (req.method === "GET") {
+      if (!isValidSessionId(querySessionId)) {
+        res.status(400).json({ error: "Invalid sessionId", requestId });
+        return;
+      }
+      const conversation = await loadOwned(querySessionId);
+      if (!conversation) {
+        res.status(404).json({ error: "Conversation not found", requestId });
+        return;
+      }
+      res.status(200).json({ conversation, requestId });
+      return;
+    }
+
+    if (req.method === "PUT") {
+      const parsed = parseConversationInput(req.body);
+      if (!parsed.ok) {
+        logEvent("warn", "conversation_invalid_body", parsed.error, sanitizeLogMeta({ requestId, conversationId: id }));
+        res.status(400).json({ error: parsed.error, requestId });
+        return;
+      }
+      // Only the owner may replace a record, and ids are never chosen by the client
+      const existing = await loadOwned(parsed.value.sessionId);
+      if (!existing) {
+        res.status(404).json({ error: "Conversation not found", requestId });
+        return;
+      }
+      const now = new Date().toISOString();
+      await store.save({ id, ...parsed.value, sessionId: existing.sessionId, createdAt: existing.createdAt, updatedAt: now });
+      res.status(200).json({ id, createdAt: existing.createdAt, updatedAt: now, requestId });
+      return;
+    }
+
+    if (req.method === "DELETE") {
+      if (!isValidSessionId(querySessionId)) {
+        res.status(400).json({ error: "Invalid sessionId", requestId });
+        return;
+      }
+      const deleted = (await loadOwned(querySessionId)) !== null && (await store.delete(querySessionId, id));
+      if (!deleted) {
+        res.status(404).json({ error: "Conversation not found", requestId });
+        return;
+      }
+      logEvent("info", "conversation_deleted", "Conversation deleted", sanitizeLogMeta({ requestId, conversationId: id }));
+      res.status(200).json({ success: true, requestId });
+      return;
+    }
+
+    res.setHeader("Allow", ["GET", "PUT", "DELETE"]);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  } catch (error) {
+    logEvent("error", "conversation_store_error", "Conversation store error", sanitizeLogMeta({
+      requestId,
+      conversationId: id,
+      method: req.method,
+      error: error instanceof Error ? error.message : String(error),
+    }));
+    res.status(500).json({ error: "Internal Server Error", requestId });
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * API endpoint for the server-side conversation store.
+ * GET lists the conversations saved by a session (`sessionId` is required);
+ * POST saves a new conversation and returns its server-generated id.
+ */
+
+import type { NextApiRequest, NextApiResponse } from "next";
+import { v4 as uuidv4 } from "uuid";
+import { generateRequestId, logEvent, sanitizeLogMeta } from "../../../src/utils/logger";
+import { createRateLimiter } from "../../../src/utils/rateLimit";
+import {
+  getConversationStore,
+  isValidSessionId,
+  parseConversationInput,
+} from "../../../src/utils/conversationStore";
+
+export const config = {
+  api: {
+    bodyParser: {
+      // Bots carry only /api/avatar URLs, so bodies are mostly message text
+      sizeLimit: "2mb",
+    },
+  },
+};
+
+/** Rate limiter: 30 requests per minute per IP. */
+const conversationsRateLimit = createRateLimiter(
+  30,
+  "Too many conversation requests from this IP, please try again later.",
+);
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const requestId = req.headers["x-request-id"] || generateRequestId();
+
+  await new Promise<void>((resolve) => {
+    conversationsRateLimit(req, res, () => resolve());
+  });
+  if (res.headersSent) {
+    return;
+  }
+
+  const store = getConversationStore();
+  try {
+    if (req.method === "GET") {
+      const { sessionId } = req.query;
+      if (!isValidSessionId(sessionId)) {
+        res.status(400).json({ error: "Invalid sessionId", requestId });
+        return;
+      }
+      const conversations = await store.list(sessionId);
+      res.status(200).json({ conversations, requestId });
+      return;
+    }
+
+    if (req.method === "POST") {
+      const parsed = parseConversationInput(req.body);
+      if (!parsed.ok) {
+        logEvent("warn", "conversations_invalid_body", parsed.error, sanitizeLogMeta({ requestId }));
+        res.status(400).json({ error: parsed.error, requestId });
+        return;
+      }
+      const now = new Date().toISOString();
+      const conversation = { id: uuidv4(), ...parsed.value, createdAt: now, updatedAt: now };
+      await store.save(conversation);
+      logEvent("info", "conversation_created", "Conversation created", sanitizeLogMeta({
+        requestId,
+        conversationId: conversation.id,
+        messageCount: conversation.messages.length,
+      }));
+      res.status(201).json({ id: conversation.id, createdAt: now, updatedAt: now, requestId });
+      return;
+    }
+
+    res.setHeader("Allow", ["GET", "POST"]);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  } catch (error) {
+    logEvent("error", "conversations_store_error", "Conversation store error", sanitizeLogMeta({
+      requestId,
+      method: req.method,
+      error: error instanceof Error ? error.message : String(error),
+    }));
+    res.status(500).json({ error: "Internal Server Error", requestId });
+  }
+}
@@ -1,18 +1,36 @@
 /**
  * API endpoint for generating character avatar images.
- * Uses Claude to build a detailed image prompt, then Gemini image generation on
- * Google Cloud's Gemini Enterprise Agent Platform (formerly Vertex AI) to render the image.
- * Accepts POST requests with a character name and returns a base64 data URL.
+ * Uses the LLM provider to build a detailed image prompt, then the image provider
+ * (see imageGen; Gemini on Google Cloud by default) to render the image.
+ * Accepts POST requests with a character name, and optionally a description of an
+ * original character, a style preset and a number of variants to generate in
+ * parallel. Each image is saved in the blob store and its /api/avatar URL
+ * returned, so bots never carry the image itself. With `expressions: true` the
+ * first portrait is also repainted once per mood (see avatarMoods) and the
+ * stored URLs returned as `expressions`.
  */
 
 import type { NextApiRequest, NextApiResponse } from "next";
-import fs from "fs";
 import logger, { logEvent, sanitizeLogMeta } from "../../src/utils/logger";
-import { getClaudeModel } from "../../src/utils/claudeModelSelector";
 import { sanitizeCharacterName } from "../../src/utils/security";
 import { extractJson } from "../../src/utils/parseClaudeJson";
 import { createRateLimiter } from "../../src/utils/rateLimit";
-import anthropic from "../../src/utils/anthropicClient";
+import { getLlmProvider } from "../../src/utils/llm";
+import { decodeImageDataUrl, saveAvatar } from "../../src/utils/avatarStorage";
+import { getImageProvider, type ImageProvider, type ImageRequest } from "../../src/utils/imageGen";
+import { isStoredAvatarUrl } from "../../src/utils/avatarUrl";
+import { AVATAR_MOODS, AVATAR_MOOD_PROMPTS, DEFAULT_MOOD, type AvatarExpressions, type AvatarMood } from "../../src/utils/avatarMoods";
+import {
+  AVATAR_STYLE_PROMPTS,
+  isAvatarStylePreset,
+  parseVariantCount,
+  type AvatarStylePreset,
+} from "../../src/utils/avatarStyles";
+import {
+  formatCharacterDescription,
+  parseCharacterDescription,
+  type CharacterDescription,
+} from "../../src/utils/characterDescription";
 
 /** Rate limiter: 5 requests per minute per IP (avatar generation is expensive). */
 const avatarRateLimit = createRateLimiter(
@@ -21,68 +39,84 @@ const avatarRateLimit = createRateLimiter(
 );
 
 /**
- * Loads GCP credentials from env var (raw JSON string in Vercel, file path locally).
+ * Builds the prompt for repainting the base portrait with another mood's
+ * expression. The base portrait is sent along so the face, outfit and style match.
  */
-function loadGcpCredentials(): Record<string, unknown> {
-  const raw = process.env.GOOGLE_APPLICATION_CREDENTIALS_JSON;
-  if (!raw) throw new Error("Missing GOOGLE_APPLICATION_CREDENTIALS_JSON");
-  if (raw.trim().startsWith("{")) {
-    return JSON.parse(raw);
-  }
-  return JSON.parse(fs.readFileSync(raw, "utf8"));
+export function buildExpressionPrompt(prompt: string, mood: AvatarMood): string {
+  return `Repaint the reference portrait of the same character with ${AVATAR_MOOD_PROMPTS[mood]}. Keep the face, hair, outfit, framing, background and art style exactly the same; change only the facial expression. Original description: ${prompt}`;
 }
 
-/**
- * Calls Gemini image generation on Google Cloud's Gemini Enterprise Agent Platform
- * (formerly Vertex AI) to generate an image from a prompt.
- * Returns a base64 data URL string, or null if generation fails.
- */
-async function generateImageWithGemini(
-  prompt: string,
-  credentials: Record<string, unknown>,
-  projectId: string,
+/** One image from the provider; a failure is logged under `event` and counts as no image. */
+function generateImage(
+  provider: ImageProvider,
+  request: ImageRequest,
+  event: string,
+  meta: Record<string, unknown> = {},
 ): Promise<string | null> {
-  const { GoogleGenAI } = await import("@google/genai");
-
-  const client = new GoogleGenAI({
-    vertexai: true,
-    project: projectId,
-    // Gemini image models are only served from the "global" endpoint, unlike
-    // the legacy Imagen predict API which used a regional (us-central1) endpoint.
-    location: "global",
-    googleAuthOptions: { credentials },
-  });
-
-  const modelId = getClaudeModel("image").primary;
-
-  logEvent("info", "avatar_gemini_call", "Calling Gemini image generation", sanitizeLogMeta({ model: modelId, prompt: prompt.slice(0, 100) }));
-
-  const response = await client.models.generateContent({
-    model: modelId,
-    contents: [{ role: "user", parts: [{ text: prompt }] }],
-    config: {
-      responseModalities: ["IMAGE"],
-      imageConfig: { aspectRatio: "1:1", personGeneration: "ALLOW_ALL" },
-    },
+  return provider.generate(request).catch((err) => {
+    logEvent("error", event, "Image generation error", sanitizeLogMeta({ ...meta, provider: provider.name, error: err instanceof Error ? err.message : String(err) }));
+    return null;
   });
+}
 
-  const candidate = response.candidates?.[0];
-
-  // Check for safety filtering, either on the prompt or the generated candidate.
-  const blockReason = response.promptFeedback?.blockReason;
-  const finishReason = candidate?.finishReason;
-  const safetyBlocked = Boolean(blockReason) || (typeof finishReason === "string" && /SAFETY|PROHIBITED/i.test(finishReason));
-  if (safetyBlocked) {
-    logEvent("warn", "avatar_gemini_safety_filtered", "Gemini image safety filter triggered", sanitizeLogMeta({ blockReason, finishReason }));
-    return null;
+/**
+ * Saves a generated image and returns its /api/avatar URL. When the image cannot
+ * be stored the data URL is returned as before, so the character still gets it;
+ * the placeholder's small SVGs are always kept inline.
+ */
+async function storeGeneratedAvatar(dataUrl: string): Promise<string> {
+  const bytes = decodeImageDataUrl(dataUrl);
+  if (!bytes || dataUrl.startsWith("data:image/svg+xml")) return dataUrl;
+  try {
+    const avatarUrl = await saveAvatar(bytes);
+    logEvent("info", "avatar_stored", "Avatar saved to the blob store", sanitizeLogMeta({ avatarUrl, bytes: bytes.length }));
+    return avatarUrl;
+  } catch (err) {
+    logEvent("error", "avatar_store_failed", "Failed to store avatar; returning it inline", sanitizeLogMeta({ error: err instanceof Error ? err.message : String(err) }));
+    return dataUrl;
   }
+}
+
+/**
+ * Characters the user described themselves, or whose name marks them as an
+ * original character, get an invented appearance rather than an archetype.
+ */
+function isOriginalCharacter(name: string, description: CharacterDescription | null): boolean {
+  const lower = name.toLowerCase();
+  return !!description || lower.includes('original character') || lower.includes('oc ');
+}
 
-  const imagePart = candidate?.content?.parts?.find((part) => part.inlineData?.data);
-  const b64 = imagePart?.inlineData?.data;
-  if (!b64) return null;
+/**
+ * Builds the user message asking the LLM for the image prompt fields. A
+ * description's appearance, era and temperament shape the portrait directly;
+ * a style preset replaces the art style the LLM would otherwise choose.
+ */
+export function buildAvatarPromptRequest(
+  name: string,
+  description: CharacterDescription | null = null,
+  style: AvatarStylePreset | null = null,
+): string {
+  const guidance = isOriginalCharacter(name, description)
+    ? 'This is an original character — create a unique appearance with clear defining details.'
+    : 'Do not depict this as a real person or reproduce a specific copyrighted design. Describe a generic, original interpretation that evokes the general archetype/vibe (e.g., role, era, broad style) without copying any real individual\'s actual face/identity or any studio-owned character design.';
+  const authorNotes = description
+    ? `\n\nThe author describes the character as follows. Follow the appearance closely and dress them for the era:\n${formatCharacterDescription(description)}`
+    : '';
+  const styleNotes = style
+    ? `\n\nThe portrait will be rendered as a ${AVATAR_STYLE_PROMPTS[style]}. Choose details that read well in that medium.`
+    : '';
+
+  return `Create an image generation prompt for a character loosely inspired by "${name}".
+
+${guidance}${authorNotes}${styleNotes}
 
-  const mimeType = imagePart.inlineData?.mimeType || "image/png";
-  return `data:${mimeType};base64,${b64}`;
+Return JSON with these fields (strict JSON only; do not add extra commentary):
+- subject: concise physical description of an original/generic character (200 chars max). Include age range and general style; do not describe a specific real person's face or an exact copyrighted design.
+- artStyle: visual style (e.g., stylized illustration, digital painting) (50 chars max). Avoid "photorealistic" for real people or copyrighted characters.
+- composition: framing and pose guidance (e.g., close-up headshot, 3/4 view) (100 chars max)
+- iconicElements: generic props, clothing, or background elements evoking the theme without copying a specific copyrighted design (100 chars max)
+- negativePrompts: explicit exclusions to ensure a single, original portrait (150 chars max). Must include: "no collage, no side-by-side photos, no multiple people, single face only, no reflections, no double exposures, no duplicates, no text, no watermark, no logo, no extra limbs, no extra hands, no extra faces, not a real person, no celebrity likeness, no exact copyrighted design".
+- gender: character's gender (for voice matching)`;
 }
 
 /**
@@ -112,47 +146,39 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     res.status(400).json({ error: "Invalid character name" });
     return;
   }
+  const description = parseCharacterDescription(req.body.description);
+  const style: AvatarStylePreset | null = isAvatarStylePreset(req.body.style) ? req.body.style : null;
+  const variantCount = parseVariantCount(req.body.variants);
 
   let genderOut: string | null = null;
 
   try {
-    logEvent("info", "avatar_generate_start", "Avatar generation started", sanitizeLogMeta({ name: sanitizedName }));
+    logEvent("info", "avatar_generate_start", "Avatar generation started", sanitizeLogMeta({ name: sanitizedName, original: !!description, style, variants: variantCount }));
 
-    // Step 1: Build image prompt using Claude
+    // Step 1: Build image prompt using the LLM provider
     let prompt: string;
     try {
       logEvent("info", "avatar_prompt_start", "Generating image prompt via Claude");
 
-      const textModel = getClaudeModel("text-simple");
-      const promptResponse = await anthropic.messages.create({
-        model: textModel,
+      const promptResponse = await getLlmProvider().complete({
+        tier: "text-simple",
         system: `You are an expert at creating concise, unambiguous image-generation prompts for text-to-image models. Produce a deterministic prompt for a single-person portrait suitable for illustrated/stylized rendering. The prompt must explicitly forbid multiple photos, collages, side-by-side images, reflections, split/composite images, multiple exposures, or any duplicates. Also instruct against text overlays, watermarks, logos, captions, or any extraneous elements. You must NEVER request an accurate likeness of a real person (no actor, celebrity, or public figure's actual face or identity) and must NEVER request an exact reproduction of a copyrighted character's specific design (exact costume, logo, or studio-owned visual design). Instead, describe a generic archetype evoked by the name (e.g., broad build, era-appropriate style, general vibe/personality) using original, non-infringing details — enough to be thematically recognizable without copying a specific person's face or a specific copyrighted design. For original characters, invent a unique appearance with clear defining details. Always return only the requested JSON fields and do not add commentary.`,
         messages: [
           {
             role: "user",
-            content: `Create an image generation prompt for a character loosely inspired by "${sanitizedName}".
-
-${sanitizedName.toLowerCase().includes('original character') || sanitizedName.toLowerCase().includes('oc ') ? 'This is an original character — create a unique appearance with clear defining details.' : 'Do not depict this as a real person or reproduce a specific copyrighted design. Describe a generic, original interpretation that evokes the general archetype/vibe (e.g., role, era, broad style) without copying any real individual\'s actual face/identity or any studio-owned character design.'}
-
-Return JSON with these fields (strict JSON only; do not add extra commentary):
-- subject: concise physical description of an original/generic character (200 chars max). Include age range and general style; do not describe a specific real person's face or an exact copyrighted design.
-- artStyle: visual style (e.g., stylized illustration, digital painting) (50 chars max). Avoid "photorealistic" for real people or copyrighted characters.
-- composition: framing and pose guidance (e.g., close-up headshot, 3/4 view) (100 chars max)
-- iconicElements: generic props, clothing, or background elements evoking the theme without copying a specific copyrighted design (100 chars max)
-- negativePrompts: explicit exclusions to ensure a single, original portrait (150 chars max). Must include: "no collage, no side-by-side photos, no multiple people, single face only, no reflections, no double exposures, no duplicates, no text, no watermark, no logo, no extra limbs, no extra hands, no extra faces, not a real person, no celebrity likeness, no exact copyrighted design".
-- gender: character's gender (for voice matching)`
+            content: buildAvatarPromptRequest(sanitizedName, description, style),
           }
         ],
         temperature: 0.3,
-        max_tokens: 300,
+        maxTokens: 300,
       });
 
-      const rawContent = extractJson(promptResponse.content[0]?.type === "text" ? promptResponse.content[0].text : "{}");
+      const rawContent = extractJson(promptResponse.text || "{}");
       const promptData = JSON.parse(rawContent);
 
       genderOut = promptData.gender || null;
 
-      prompt = `Original, stylized character illustration loosely inspired by the name "${sanitizedName}", not a depiction of any real person and not an exact reproduction of any copyrighted character design. ${promptData.subject || ""}. ${promptData.iconicElements || ""}. ${promptData.composition || ""}. Style: ${promptData.artStyle || "stylized illustration"}. single, solo, alone, centered, close-up portrait, no other people. Exclude: ${promptData.negativePrompts || "multiple people, extra faces, duplicates, real person likeness, exact copyrighted design"}`.trim();
+      prompt = `Original, stylized character illustration loosely inspired by the name "${sanitizedName}", not a depiction of any real person and not an exact reproduction of any copyrighted character design. ${promptData.subject || ""}. ${promptData.iconicElements || ""}. ${promptData.composition || ""}. Style: ${style ? AVATAR_STYLE_PROMPTS[style] : promptData.artStyle || "stylized illustration"}. single, solo, alone, centered, close-up portrait, no other people. Exclude: ${promptData.negativePrompts || "multiple people, extra faces, duplicates, real person likeness, exact copyrighted design"}`.trim();
 
       if (prompt.length > 1000) {
         prompt = prompt.slice(0, 1000);
@@ -161,46 +187,53 @@ Return JSON with these fields (strict JSON only; do not add extra commentary):
       logEvent("info", "avatar_prompt_generated", "Generated image prompt", sanitizeLogMeta({ prompt, gender: genderOut }));
     } catch (promptErr) {
       logger.warn("Failed to generate dynamic image prompt, using fallback:", { error: promptErr });
-      prompt = `Original, stylized character illustration loosely inspired by the name "${sanitizedName}", depicting a generic archetype rather than any real person's actual likeness or any specific copyrighted character design. Single subject, one person, one face; head-and-shoulders portrait (frontal or 3/4) with neutral background and even soft lighting. Do NOT create collages, side-by-side photos, split/composite images, reflections, or duplicates. Exclude text, watermarks, logos, extra limbs, extra faces, real-person likeness, exact copyrighted designs, or any compositing.`;
+      prompt = `Original, stylized character illustration loosely inspired by the name "${sanitizedName}", depicting a generic archetype rather than any real person's actual likeness or any specific copyrighted character design. Single subject, one person, one face; head-and-shoulders portrait (frontal or 3/4) with neutral background and even soft lighting. Do NOT create collages, side-by-side photos, split/composite images, reflections, or duplicates. Exclude text, watermarks, logos, extra limbs, extra faces, real-person likeness, exact copyrighted designs, or any compositing.${style ? ` Style: ${AVATAR_STYLE_PROMPTS[style]}.` : ""}`;
       logEvent("info", "avatar_prompt_fallback", "Using fallback image prompt", sanitizeLogMeta({ prompt }));
     }
 
-    // Step 2: Generate image using Gemini image generation
-    const projectId = process.env.GOOGLE_CLOUD_PROJECT;
-    if (!projectId) {
-      logEvent("error", "avatar_missing_project", "Missing GOOGLE_CLOUD_PROJECT env var");
-      res.status(200).json({ avatarUrl: "/silhouette.svg", gender: genderOut });
-      return;
-    }
-
-    let credentials: Record<string, unknown>;
-    try {
-      credentials = loadGcpCredentials();
-    } catch (credErr) {
-      logEvent("error", "avatar_cred_error", "Failed to load GCP credentials", sanitizeLogMeta({ error: credErr instanceof Error ? credErr.message : String(credErr) }));
-      res.status(200).json({ avatarUrl: "/silhouette.svg", gender: genderOut });
-      return;
-    }
-
-    logEvent("info", "avatar_gemini_start", "Attempting image generation with Gemini", sanitizeLogMeta({ prompt: prompt.slice(0, 100) }));
+    // Step 2: Render the image with the configured provider
+    const provider = getImageProvider();
+    logEvent("info", "avatar_image_start", "Attempting image generation", sanitizeLogMeta({ provider: provider.name, prompt: prompt.slice(0, 100) }));
 
-    let avatarUrl: string | null = null;
-    try {
-      avatarUrl = await generateImageWithGemini(prompt, credentials, projectId);
-      if (avatarUrl) {
-        logEvent("info", "avatar_gemini_success", "Image generated successfully with Gemini");
-      }
-    } catch (err) {
-      logEvent("error", "avatar_gemini_error", "Gemini image generation error", sanitizeLogMeta({ error: err instanceof Error ? err.message : String(err) }));
-    }
+    // Variants share the prompt; each call samples a different image. The placeholder
+    // draws the same picture every time, so it only ever makes one
+    const imageCount = provider.name === "placeholder" ? 1 : variantCount;
+    const images = await Promise.all(Array.from({ length: imageCount }, () =>
+      generateImage(provider, { prompt, subject: sanitizedName }, "avatar_image_error")
+    ));
+    const generated = images.filter((image): image is string => !!image);
 
-    if (!avatarUrl) {
-      logEvent("warn", "avatar_gemini_failed", "Gemini returned no image, using silhouette");
+    if (generated.length === 0) {
+      logEvent("warn", "avatar_image_failed", "The image provider returned no image, using silhouette", sanitizeLogMeta({ provider: provider.name }));
       res.status(200).json({ avatarUrl: "/silhouette.svg", gender: genderOut });
       return;
     }
+    logEvent("info", "avatar_image_success", "Image generated successfully", sanitizeLogMeta({ provider: provider.name, images: generated.length }));
+
+    const avatarUrls = await Promise.all(generated.map(storeGeneratedAvatar));
+
+    // Expressions are only kept when stored, so bots never carry several inline images
+    let expressions: AvatarExpressions | null = null;
+    if (req.body.expressions === true && isStoredAvatarUrl(avatarUrls[0]) && provider.name !== "placeholder") {
+      const moods = AVATAR_MOODS.filter((mood) => mood !== DEFAULT_MOOD);
+      const repainted = await Promise.all(moods.map((mood) =>
+        generateImage(provider, { prompt: buildExpressionPrompt(prompt, mood), subject: sanitizedName, reference: generated[0] }, "avatar_expression_error", { mood })
+      ));
+      const urls = await Promise.all(repainted.map((image) => (image ? storeGeneratedAvatar(image) : null)));
+      const stored: AvatarExpressions = { [DEFAULT_MOOD]: avatarUrls[0] };
+      urls.forEach((url, i) => {
+        if (isStoredAvatarUrl(url)) stored[moods[i]] = url;
+      });
+      logEvent("info", "avatar_expressions_generated", "Expression portraits generated", sanitizeLogMeta({ moods: Object.keys(stored) }));
+      expressions = stored;
+    }
 
-    res.status(200).json({ avatarUrl, gender: genderOut });
+    res.status(200).json({
+      avatarUrl: avatarUrls[0],
+      ...(variantCount > 1 ? { avatarUrls } : {}),
+      ...(expressions ? { expressions } : {}),
+      gender: genderOut,
+    });
     return;
   } catch (e) {
     logEvent("error", "avatar_unhandled_error", "Unhandled error in generate-avatar", sanitizeLogMeta({ error: e instanceof Error ? e.message : String(e) }));
@@ -1,13 +1,17 @@
 /**
  * API endpoint for generating a character personality prompt via Claude.
- * Accepts POST requests with a character name and returns a personality string.
+ * Accepts POST requests with a character name, and optionally a description of
+ * an original character, and returns a personality string together with the
+ * structured profile it was built from.
  */
 
 import type { NextApiRequest, NextApiResponse } from "next";
 import { logEvent, sanitizeLogMeta } from "../../src/utils/logger";
 import { sanitizeCharacterName } from "../../src/utils/security";
 import { createRateLimiter } from "../../src/utils/rateLimit";
-import { generatePersonalityPrompt } from "../../src/config/serverConfig";
+import { generatePersonalityProfile } from "../../src/config/serverConfig";
+import { buildPersonalityPrompt } from "../../src/utils/personalityProfile";
+import { parseCharacterDescription } from "../../src/utils/characterDescription";
 
 /** Rate limiter: 20 requests per minute per IP (personality generation is lightweight). */
 const personalityRateLimit = createRateLimiter(
@@ -46,19 +50,22 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     res.status(400).json({ error: "Invalid character name" });
     return;
   }
-  
+  const description = parseCharacterDescription(req.body.description);
+
   try {
     logEvent("info", "personality_prompt_start", "Generating personality prompt", sanitizeLogMeta({
-      name: sanitizedName
+      name: sanitizedName,
+      original: !!description
     }));
     
-    const concisePrompt = await generatePersonalityPrompt(sanitizedName);
+    const profile = await generatePersonalityProfile(sanitizedName, description);
+    const concisePrompt = buildPersonalityPrompt(sanitizedName, profile);
     
     logEvent("info", "personality_prompt_generated", "Personality prompt generated", sanitizeLogMeta({
       name: sanitizedName
     }));
     
-    res.status(200).json({ personality: concisePrompt, correctedName: sanitizedName });
+    res.status(200).json({ personality: concisePrompt, profile, correctedName: sanitizedName });
   } catch (err) {
     logEvent("error", "personality_prompt_error", "Error generating personality prompt", sanitizeLogMeta({
       name: sanitizedName,
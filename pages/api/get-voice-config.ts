@@ -1,11 +1,14 @@
 // =============================
 // pages/api/get-voice-config.ts
 // Next.js API route for retrieving a character's TTS voice configuration.
-// Accepts POST requests with a character name and returns a voice config object.
+// Accepts POST requests with a character name (plus optional gender, original-character
+// description and conversation language) and returns a voice config object.
 // =============================
 
 import type { NextApiRequest, NextApiResponse } from "next";
 import { getVoiceConfigForCharacter } from "../../src/utils/characterVoices";
+import { parseCharacterDescription } from "../../src/utils/characterDescription";
+import { parseLanguage } from "../../src/utils/language";
 
 /**
  * Next.js API route handler for retrieving a character's TTS voice configuration.
@@ -20,13 +23,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     res.status(405).end();
     return;
   }
-  const { name, gender } = req.body;
+  const { name, gender, description, language } = req.body;
   if (!name) {
     res.status(400).json({ error: "Name required" });
     return;
   }
   try {
-    const config = await getVoiceConfigForCharacter(name, gender);
+    const config = await getVoiceConfigForCharacter(name, gender, parseCharacterDescription(description), parseLanguage(language));
     res.status(200).json(config);
     return;
   } catch {
@@ -1,17 +1,15 @@
 /**
- * Health check endpoint for Claude (Anthropic) and Google TTS.
+ * Health check endpoint for the configured LLM provider and TTS engine.
  * Returns service status for monitoring/uptime probes.
  */
 
-import textToSpeech, { protos } from "@google-cloud/text-to-speech";
-import { GoogleAuth } from 'google-auth-library';
-import fs from "fs";
 import { generateRequestId, logEvent, sanitizeLogMeta } from "../../src/utils/logger";
-import anthropic from "../../src/utils/anthropicClient";
+import { getLlmProvider } from "../../src/utils/llm";
+import { getTtsEngine } from "../../src/utils/tts";
 
 /**
  * Next.js API route handler for health checks.
- * Checks Claude and Google TTS service health.
+ * Checks LLM provider and TTS engine health.
  * @param {NextApiRequest} req - The API request object.
  * @param {NextApiResponse} res - The API response object.
  * @returns {Promise<void>} Resolves when the response is sent.
@@ -22,84 +20,60 @@ export default async function handler(
 ) {
   const requestId = req.headers["x-request-id"] || generateRequestId();
 
-  let claudeStatus = "ok";
-  let claudeError = null;
+  const provider = getLlmProvider();
+  let llmStatus = "ok";
+  let llmError = null;
   try {
-    const result = await anthropic.messages.create({
-      model: "claude-haiku-4-5-20251001",
+    const result = await provider.complete({
+      tier: "text-simple",
       system: "You are a health check bot.",
       messages: [{ role: "user", content: "ping" }],
-      max_tokens: 10,
+      maxTokens: 10,
     });
-    if (!result?.content?.[0] || result.content[0].type !== "text") {
-      throw new Error("No valid Claude response");
+    if (!result.text) {
+      throw new Error("No valid LLM response");
     }
   } catch (err: unknown) {
-    claudeStatus = "error";
-    claudeError = err instanceof Error ? err.message : String(err);
+    llmStatus = "error";
+    llmError = err instanceof Error ? err.message : String(err);
     if (process.env.NODE_ENV !== "production") {
-      logEvent("error", "health_claude_error", "Claude health check error", sanitizeLogMeta({
+      logEvent("error", "health_llm_error", "LLM health check error", sanitizeLogMeta({
         requestId,
+        provider: provider.name,
         error: err instanceof Error ? err.message : String(err)
       }));
     }
-    logEvent("info", "health_claude_failed", "Claude health check failed", sanitizeLogMeta({
+    logEvent("info", "health_llm_failed", "LLM health check failed", sanitizeLogMeta({
       requestId,
-      error: claudeError
+      provider: provider.name,
+      error: llmError
     }));
   }
 
-  let ttsStatus = "ok";
+  const ttsEngine = getTtsEngine();
+  // A disabled engine is not an outage: chat replies are text-only
+  let ttsStatus = ttsEngine.name === "none" ? "disabled" : "ok";
   let ttsError = null;
   try {
-    let creds = process.env.GOOGLE_APPLICATION_CREDENTIALS_JSON;
-    if (!creds) throw new Error("Missing GOOGLE_APPLICATION_CREDENTIALS_JSON");
-    if (!creds.trim().startsWith("{")) {
-      creds = fs.readFileSync(creds, "utf8");
-    }
-    const credentials = JSON.parse(creds);
-    // Build GoogleAuth when explicit credentials exist; otherwise allow ADC discovery.
-    let ttsClient: import('@google-cloud/text-to-speech').TextToSpeechClient;
-    if (credentials && credentials.client_email && credentials.private_key) {
-      const auth = new GoogleAuth({
-        credentials: credentials as Record<string, unknown>,
-        scopes: ['https://www.googleapis.com/auth/cloud-platform'],
-      });
-      ttsClient = new textToSpeech.TextToSpeechClient({ auth: auth as never });
-    } else {
-      logEvent("info", "health_tts_adc_fallback", "Falling back to Application Default Credentials (ADC) for TTS client", sanitizeLogMeta({ requestId }));
-      ttsClient = new textToSpeech.TextToSpeechClient();
-    }
-    const [response] = await ttsClient.synthesizeSpeech({
-      input: { text: "ping" },
-      voice: {
-        languageCode: "en-GB",
-        name: "en-GB-Wavenet-D",
-        ssmlGender: protos.google.cloud.texttospeech.v1.SsmlVoiceGender.MALE,
-      },
-      audioConfig: {
-        audioEncoding: protos.google.cloud.texttospeech.v1.AudioEncoding.MP3,
-      },
-    });
-    if (!response || !response.audioContent) {
-      throw new Error("No audio content from TTS");
-    }
+    await ttsEngine.healthCheck();
   } catch (err: unknown) {
     ttsStatus = "error";
     ttsError = err instanceof Error ? err.message : String(err);
     if (process.env.NODE_ENV !== "production") {
-      logEvent("error", "health_tts_error", "Google TTS health check error", sanitizeLogMeta({
+      logEvent("error", "health_tts_error", "TTS health check error", sanitizeLogMeta({
         requestId,
+        engine: ttsEngine.name,
         error: err instanceof Error ? err.message : String(err)
       }));
     }
-    logEvent("info", "health_tts_failed", "Google TTS health check failed", sanitizeLogMeta({
+    logEvent("info", "health_tts_failed", "TTS health check failed", sanitizeLogMeta({
       requestId,
+      engine: ttsEngine.name,
       error: ttsError
     }));
   }
 
-  if (claudeStatus === "ok" && ttsStatus === "ok") {
+  if (llmStatus === "ok" && ttsStatus !== "error") {
     logEvent("info", "health_ok", "All services healthy", sanitizeLogMeta({
       requestId
     }));
@@ -108,20 +82,23 @@ export default async function handler(
   if (process.env.NODE_ENV !== "production")
     logEvent("error", "health_service_error", "Service error", sanitizeLogMeta({
       requestId,
-      claudeStatus,
-      claudeError,
+      llmProvider: provider.name,
+      llmStatus,
+      llmError,
       ttsStatus,
       ttsError
     }));
   logEvent("info", "health_service_error_info", "Service error", sanitizeLogMeta({
     requestId,
-    claudeStatus,
+    llmStatus,
     ttsStatus
   }));
   return res.status(500).json({
     status: "error",
-    claude: { status: claudeStatus, error: claudeError },
-    tts: { status: ttsStatus, error: ttsError },
+    llm: { provider: provider.name, status: llmStatus, error: llmError },
+    // Kept for monitors written before the LLM provider became pluggable
+    claude: { status: llmStatus, error: llmError },
+    tts: { engine: ttsEngine.name, status: ttsStatus, error: ttsError },
     requestId
   });
 }
@@ -8,6 +8,10 @@ import fs from "fs";
 import path from "path";
 import logger, { generateRequestId, logEvent, sanitizeLogMeta } from "../../src/utils/logger";
 import { escapeHtml } from "../../src/utils/security";
+import { isMessageRole } from "../../src/utils/messages";
+
+// Optional message metadata: ids, model names and request ids share one safe character set
+const METADATA_PATTERN = /^[a-zA-Z0-9._:-]{1,100}$/;
 
 /**
  * Next.js API route handler for logging chat messages and events to storage (Vercel Blob or local).
@@ -33,7 +37,7 @@ export default async function handler(
     return;
   }
   try {
-    const { sender, text, sessionId, sessionDatetime } = req.body;
+    const { sender, text, sessionId, sessionDatetime, id, role, timestamp: messageTimestamp, requestId: messageRequestId, model } = req.body;
     if (
       !sender ||
       typeof text === "undefined" ||
@@ -86,6 +90,37 @@ export default async function handler(
       return;
     }
 
+    if (typeof role !== "undefined" && !isMessageRole(role)) {
+      logEvent("warn", "log_api_invalid_role", "Invalid role", sanitizeLogMeta({
+        role,
+        requestId
+      }));
+      res.status(400).json({ error: "Invalid role", requestId });
+      return;
+    }
+    if (
+      typeof messageTimestamp !== "undefined" &&
+      (typeof messageTimestamp !== "string" || messageTimestamp.length > 30 || Number.isNaN(Date.parse(messageTimestamp)))
+    ) {
+      logEvent("warn", "log_api_invalid_timestamp", "Invalid timestamp", sanitizeLogMeta({
+        requestId
+      }));
+      res.status(400).json({ error: "Invalid timestamp", requestId });
+      return;
+    }
+    const metadata: Record<string, unknown> = { id, requestId: messageRequestId, model };
+    const invalidField = Object.keys(metadata).find(
+      (key) => typeof metadata[key] !== "undefined" && (typeof metadata[key] !== "string" || !METADATA_PATTERN.test(metadata[key] as string)),
+    );
+    if (invalidField) {
+      logEvent("warn", "log_api_invalid_metadata", `Invalid ${invalidField}`, sanitizeLogMeta({
+        field: invalidField,
+        requestId
+      }));
+      res.status(400).json({ error: `Invalid ${invalidField}`, requestId });
+      return;
+    }
+
     // Sanitize sender and text to prevent XSS in stored logs
     const safeSender = escapeHtml(sender);
     const safeText = escapeHtml(text);
@@ -107,7 +142,16 @@ export default async function handler(
     // End IP extraction
 
     const timestamp = new Date().toISOString();
-    const logEntry = `[${timestamp}] [${safeIp}] ${cleanSender}: ${cleanText}\n`;
+    // Message metadata links the entry back to the chat history and the /api/chat log line
+    const metaParts = [
+      role && `role=${role}`,
+      id && `id=${id}`,
+      messageTimestamp && `sent=${messageTimestamp}`,
+      model && `model=${model}`,
+      messageRequestId && `requestId=${messageRequestId}`,
+    ].filter(Boolean);
+    const metaSuffix = metaParts.length > 0 ? ` [${metaParts.join(" ")}]` : "";
+    const logEntry = `[${timestamp}] [${safeIp}] ${cleanSender}: ${cleanText}${metaSuffix}\n`;
 
     // --- Determine Log Filename ---
     // Sanitize filename to prevent directory traversal
@@ -193,6 +237,10 @@ export default async function handler(
       timestamp,
       ip: safeIp,
       sender: cleanSender,
+      role,
+      messageId: id,
+      messageRequestId,
+      model,
       sessionId,
       sessionDatetime,
       text: cleanText
@@ -0,0 +1,57 @@
+/**
+ * API endpoint for a single character memory.
+ * DELETE forgets it; `userId` and `characterName` are given in the query string.
+ */
+
+import type { NextApiRequest, NextApiResponse } from "next";
+import { generateRequestId, logEvent, sanitizeLogMeta } from "../../../src/utils/logger";
+import { createRateLimiter } from "../../../src/utils/rateLimit";
+import { getMemoryStore, isValidCharacterName, isValidUserId } from "../../../src/utils/characterMemory";
+
+/** Rate limiter: 60 requests per minute per IP. */
+const memoryRateLimit = createRateLimiter(
+  60,
+  "Too many memory requests from this IP, please try again later.",
+);
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const requestId = req.headers["x-request-id"] || generateRequestId();
+
+  await new Promise<void>((resolve) => {
+    memoryRateLimit(req, res, () => resolve());
+  });
+  if (res.headersSent) {
+    return;
+  }
+
+  if (req.method !== "DELETE") {
+    res.setHeader("Allow", ["DELETE"]);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+    return;
+  }
+
+  const { id, userId, characterName } = req.query;
+  if (typeof id !== "string" || !id || !isValidUserId(userId) || !isValidCharacterName(characterName)) {
+    res.status(400).json({ error: "Valid id, userId and characterName required", requestId });
+    return;
+  }
+
+  const store = getMemoryStore();
+  try {
+    const memories = await store.get(userId, characterName);
+    const remaining = memories.filter((m) => m.id !== id);
+    if (remaining.length === memories.length) {
+      res.status(404).json({ error: "Memory not found", requestId });
+      return;
+    }
+    await store.save(userId, characterName, remaining);
+    logEvent("info", "memory_deleted", "Character memory deleted", sanitizeLogMeta({ requestId, characterName }));
+    res.status(200).json({ success: true, requestId });
+  } catch (error) {
+    logEvent("error", "memory_store_error", "Memory store error", sanitizeLogMeta({
+      requestId,
+      error: error instanceof Error ? error.message : String(error),
+    }));
+    res.status(500).json({ error: "Internal Server Error", requestId });
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * API endpoint for a character's long-term memories of a user.
+ * GET lists them, POST extracts new facts from recent conversation lines
+ * separately for each character in the room (from that character's point of
+ * view and against what it already knows), DELETE forgets them all.
+ * The user and character are given by `userId` and `characterName`
+ * (query string for GET/DELETE, body for POST, which takes `characterNames`).
+ */
+
+import type { NextApiRequest, NextApiResponse } from "next";
+import { generateRequestId, logEvent, sanitizeLogMeta } from "../../../src/utils/logger";
+import { createRateLimiter } from "../../../src/utils/rateLimit";
+import { MAX_GROUP_PARTICIPANTS } from "../../../src/utils/groupChat";
+import {
+  extractMemories,
+  getMemoryStore,
+  isValidCharacterName,
+  isValidUserId,
+  mergeMemories,
+} from "../../../src/utils/characterMemory";
+import { getLlmProvider } from "../../../src/utils/llm";
+
+/** Rate limiter: 30 requests per minute per IP (the client extracts after each user message). */
+const memoriesRateLimit = createRateLimiter(
+  30,
+  "Too many memory requests from this IP, please try again later.",
+);
+
+/** Conversation lines considered for one extraction. */
+const MAX_EXTRACTION_ENTRIES = 8;
+const MAX_EXTRACTION_ENTRY_LENGTH = 2000;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const requestId = req.headers["x-request-id"] || generateRequestId();
+
+  await new Promise<void>((resolve) => {
+    memoriesRateLimit(req, res, () => resolve());
+  });
+  if (res.headersSent) {
+    return;
+  }
+
+  const store = getMemoryStore();
+  try {
+    if (req.method === "GET" || req.method === "DELETE") {
+      const { userId, characterName } = req.query;
+      if (!isValidUserId(userId) || !isValidCharacterName(characterName)) {
+        res.status(400).json({ error: "Valid userId and characterName required", requestId });
+        return;
+      }
+      if (req.method === "GET") {
+        res.status(200).json({ memories: await store.get(userId, characterName), requestId });
+        return;
+      }
+      await store.save(userId, characterName, []);
+      logEvent("info", "memories_cleared", "Character memories cleared", sanitizeLogMeta({ requestId, characterName }));
+      res.status(200).json({ success: true, requestId });
+      return;
+    }
+
+    if (req.method === "POST") {
+      const { userId, characterNames, entries } = req.body ?? {};
+      const names = Array.isArray(characterNames) ? characterNames.filter(isValidCharacterName) : [];
+      const lines = Array.isArray(entries)
+        ? entries
+          .filter((entry: unknown): entry is string => typeof entry === "string" && entry.trim().length > 0)
+          .slice(-MAX_EXTRACTION_ENTRIES)
+          .map((entry: string) => entry.slice(0, MAX_EXTRACTION_ENTRY_LENGTH))
+        : [];
+      if (!isValidUserId(userId) || names.length === 0 || names.length > MAX_GROUP_PARTICIPANTS || lines.length === 0) {
+        res.status(400).json({ error: "Valid userId, characterNames and entries required", requestId });
+        return;
+      }
+
+      const provider = getLlmProvider();
+      const updates = await Promise.all(names.map(async (name: string) => {
+        const existing = await store.get(userId, name);
+        const extracted = await extractMemories(provider, lines, name, existing);
+        if (extracted.length > 0) await store.save(userId, name, mergeMemories(existing, extracted));
+        return extracted.length;
+      }));
+      const added = updates.reduce((sum, count) => sum + count, 0);
+      if (added > 0) {
+        logEvent("info", "memories_extracted", "Character memories updated", sanitizeLogMeta({
+          requestId,
+          characterNames: names,
+          count: added,
+        }));
+      }
+      res.status(200).json({ added, requestId });
+      return;
+    }
+
+    res.setHeader("Allow", ["GET", "POST", "DELETE"]);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  } catch (error) {
+    logEvent("error", "memories_store_error", "Memory store error", sanitizeLogMeta({
+      requestId,
+      method: req.method,
+      error: error instanceof Error ? error.message : String(error),
+    }));
+    res.status(500).json({ error: "Internal Server Error", requestId });
+  }
+}
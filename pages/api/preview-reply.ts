@@ -0,0 +1,76 @@
+/**
+ * API endpoint for previewing how a character answers with an edited personality.
+ * Accepts POST requests with a character name, a personality profile and an
+ * optional sample message, and returns one reply without audio or caching.
+ */
+
+import type { NextApiRequest, NextApiResponse } from "next";
+import { generateRequestId, logEvent, sanitizeLogMeta } from "../../src/utils/logger";
+import { createRateLimiter } from "../../src/utils/rateLimit";
+import { sanitizeCharacterName } from "../../src/utils/security";
+import { getLlmProvider } from "../../src/utils/llm";
+import { buildPersonalityPrompt, parsePersonalityProfile } from "../../src/utils/personalityProfile";
+import { buildLanguageInstructions, parseLanguage } from "../../src/utils/language";
+
+/** Rate limiter: 20 requests per minute per IP. */
+const previewRateLimit = createRateLimiter(
+  20,
+  "Too many preview requests from this IP, please try again later.",
+);
+
+export const DEFAULT_PREVIEW_MESSAGE = "Introduce yourself in a few sentences.";
+const MAX_PREVIEW_MESSAGE_LENGTH = 300;
+
+/**
+ * Next.js API route handler for personality previews.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    res.status(405).json({ error: "Method not allowed" });
+    return;
+  }
+
+  // Apply rate limiting
+  await new Promise<void>((resolve) => {
+    previewRateLimit(req, res, () => resolve());
+  });
+  if (res.headersSent) {
+    return;
+  }
+
+  const requestId = req.headers["x-request-id"] || generateRequestId();
+  const name = typeof req.body?.name === "string" ? sanitizeCharacterName(req.body.name) : "";
+  const profile = parsePersonalityProfile(req.body?.profile);
+  if (!name || !profile) {
+    res.status(400).json({ error: "Character name and personality profile required" });
+    return;
+  }
+  const message = typeof req.body.message === "string" && req.body.message.trim()
+    ? req.body.message.trim().slice(0, MAX_PREVIEW_MESSAGE_LENGTH)
+    : DEFAULT_PREVIEW_MESSAGE;
+
+  try {
+    const response = await getLlmProvider().complete({
+      tier: "text-simple", // a quick sample is enough to judge the voice
+      system: buildPersonalityPrompt(name, profile) + buildLanguageInstructions(parseLanguage(req.body.language)),
+      messages: [{ role: "user", content: message }],
+      maxTokens: 200,
+      temperature: 0.8,
+      stopSequences: ["User:", "Bot:"],
+    });
+    logEvent("info", "preview_reply_generated", "Personality preview generated", sanitizeLogMeta({
+      requestId,
+      name,
+      model: response.model,
+    }));
+    res.status(200).json({ reply: response.text.trim(), requestId });
+  } catch (error) {
+    logEvent("error", "preview_reply_failed", "Personality preview failed", sanitizeLogMeta({
+      requestId,
+      name,
+      error: error instanceof Error ? error.message : String(error),
+    }));
+    res.status(500).json({ error: "Failed to generate a preview reply", requestId });
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * API endpoint for speech-to-text, used for voice input when the browser has no
+ * Web Speech API. Accepts POST requests with base64 WAV audio (see wav.ts) and
+ * an optional language hint, and returns the transcribed text. Responds 503
+ * when no STT engine is configured.
+ */
+
+import type { NextApiRequest, NextApiResponse } from "next";
+import { generateRequestId, logEvent, sanitizeLogMeta } from "../../src/utils/logger";
+import { createRateLimiter } from "../../src/utils/rateLimit";
+import { getSttEngine, transcribeSpeech } from "../../src/utils/stt";
+import { isWav, wavDurationSeconds } from "../../src/utils/wav";
+
+export const config = {
+  api: {
+    bodyParser: {
+      // About 45 seconds of 16 kHz mono WAV once base64 encoded
+      sizeLimit: "2mb",
+    },
+  },
+};
+
+/** Rate limiter: 20 requests per minute per IP. */
+const transcribeRateLimit = createRateLimiter(
+  20,
+  "Too many transcription requests from this IP, please try again later.",
+);
+
+export const MAX_RECORDING_SECONDS = 30;
+
+/**
+ * Next.js API route handler for transcriptions.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    res.status(405).json({ error: "Method not allowed" });
+    return;
+  }
+
+  // Apply rate limiting
+  await new Promise<void>((resolve) => {
+    transcribeRateLimit(req, res, () => resolve());
+  });
+  if (res.headersSent) {
+    return;
+  }
+
+  const requestId = req.headers["x-request-id"] || generateRequestId();
+  const engine = getSttEngine();
+  if (engine.name === "none") {
+    res.status(503).json({ error: "Speech-to-text is not configured", requestId });
+    return;
+  }
+
+  const audio = typeof req.body?.audio === "string" ? new Uint8Array(Buffer.from(req.body.audio, "base64")) : null;
+  if (!audio || !isWav(audio)) {
+    res.status(400).json({ error: "WAV audio required", requestId });
+    return;
+  }
+  const seconds = wavDurationSeconds(audio);
+  if (seconds > MAX_RECORDING_SECONDS) {
+    res.status(413).json({ error: `Recordings are limited to ${MAX_RECORDING_SECONDS} seconds`, requestId });
+    return;
+  }
+  const language = typeof req.body.language === "string" ? req.body.language.slice(0, 35) : undefined;
+
+  try {
+    const text = await transcribeSpeech({ audio, language });
+    logEvent("info", "transcribe_completed", "Speech transcribed", sanitizeLogMeta({
+      requestId,
+      engine: engine.name,
+      seconds: Math.round(seconds * 10) / 10,
+      characters: text.length,
+    }));
+    res.status(200).json({ text, requestId });
+  } catch (error) {
+    logEvent("error", "transcribe_failed", "Speech transcription failed", sanitizeLogMeta({
+      requestId,
+      engine: engine.name,
+      error: error instanceof Error ? error.message : String(error),
+    }));
+    res.status(500).json({ error: "Failed to transcribe speech", requestId });
+  }
+}
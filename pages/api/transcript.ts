@@ -7,6 +7,8 @@ import { NextApiRequest, NextApiResponse } from "next";
 import logger from "../../src/utils/logger";
 import { createRateLimiter } from "../../src/utils/rateLimit";
 import { sanitizeForDisplay, escapeHtml } from "../../src/utils/security";
+import { isMessageRole } from "../../src/utils/messages";
+import { isStoredAvatarUrl } from "../../src/utils/avatarUrl";
 
 export const config = {
   api: {
@@ -78,6 +80,10 @@ export default async function handler(
       res.status(400).json({ error: "Invalid message format" });
       return;
     }
+    if (msg.role !== undefined && !isMessageRole(msg.role)) {
+      res.status(400).json({ error: "Invalid message role" });
+      return;
+    }
   }
 
   // Ensure message count is reasonable to prevent resource exhaustion
@@ -189,6 +195,16 @@ export default async function handler(
         .bot-sender {
           color: #7b1fa2;
         }
+        .system-message {
+          background-color: #f5f5f5;
+          border-left: 4px solid #9e9e9e;
+          color: #616161;
+        }
+        .message-time {
+          float: right;
+          font-size: 0.8em;
+          color: #757575;
+        }
       </style>
     </head>
     <body>
@@ -199,17 +215,27 @@ export default async function handler(
         </div>
         ${bot ? `
           <div style="text-align: center; margin-bottom: 30px;">
-            ${isValidAvatarUrl(bot.avatarUrl) ? `<img src="${escapeHtml(bot.avatarUrl)}" alt="${escapeHtml(bot.name)}" class="character-image" />` : ''}
+            ${isValidAvatarUrl(bot.avatarUrl) ? `<img src="${escapeHtml(toAbsoluteAvatarUrl(bot.avatarUrl, req))}" alt="${escapeHtml(bot.name)}" class="character-image" />` : ''}
             <h2>${escapeHtml(bot.name)}</h2>
           </div>
         ` : ''}
         <div class="messages">
           ${messages
-            .map((msg: { sender: string; text: string }) => {
-              const isUser = msg.sender === "User";
+            .map((msg: { sender: string; text: string; role?: string; timestamp?: unknown }) => {
+              // Messages with a role carry the speaker's own name; legacy ones fall back to the bot name
+              const isUser = msg.role ? msg.role === "user" : msg.sender === "User";
+              const speaker = msg.role || !bot ? msg.sender : bot.name;
+              const time = typeof msg.timestamp === "string" && !Number.isNaN(Date.parse(msg.timestamp))
+                ? `<time class="message-time" datetime="${escapeHtml(msg.timestamp)}">${escapeHtml(new Date(msg.timestamp).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" }))}</time>`
+                : '';
+              if (msg.role === "system") {
+                return `
+                <div class="message system-message">${time}<em>${sanitizeForDisplay(msg.text)}</em></div>
+              `;
+              }
               return `
                 <div class="message ${isUser ? 'user-message' : 'bot-message'}">
-                  <strong class="${isUser ? 'user-sender' : 'bot-sender'}">${isUser ? "Me" : (bot ? escapeHtml(bot.name) : escapeHtml(msg.sender))}:</strong>
+                  ${time}<strong class="${isUser ? 'user-sender' : 'bot-sender'}">${isUser ? "Me" : escapeHtml(speaker)}:</strong>
                   <span style="margin-left: 8px;">${sanitizeForDisplay(msg.text)}</span>
                 </div>
               `;
@@ -227,6 +253,20 @@ export default async function handler(
   logger.info(`[Transcript API] 200 OK: Transcript sent for display, messages=${messages.length}`);
 }
 
+/**
+ * Stored portraits (/api/avatar/...) are linked with this server's origin so the
+ * downloaded transcript, opened from disk, can still show them.
+ */
+export function toAbsoluteAvatarUrl(url: string, req: NextApiRequest): string {
+  if (!isStoredAvatarUrl(url)) return url;
+  const host = req.headers["x-forwarded-host"] || req.headers.host;
+  if (typeof host !== "string" || !/^[a-z0-9.-]+(:\d+)?$/i.test(host)) return url;
+  const forwarded = String(req.headers["x-forwarded-proto"] || "").split(",")[0].trim();
+  const encrypted = !!(req.socket as { encrypted?: boolean } | undefined)?.encrypted;
+  const proto = forwarded === "http" || forwarded === "https" ? forwarded : encrypted ? "https" : "http";
+  return `${proto}://${host}${url}`;
+}
+
 /** Helper function to validate avatar URL format for security */
 export function isValidAvatarUrl(url: string): boolean {
   if (typeof url !== 'string') return false;
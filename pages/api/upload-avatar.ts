@@ -0,0 +1,68 @@
+/**
+ * API endpoint for portraits users upload themselves. Accepts POST requests
+ * with a base64 PNG, JPEG or WebP image, crops it square and strips its
+ * metadata (see prepareUploadedAvatar), saves it in the blob store and returns
+ * its /api/avatar URL.
+ */
+
+import type { NextApiRequest, NextApiResponse } from "next";
+import { generateRequestId, logEvent, sanitizeLogMeta } from "../../src/utils/logger";
+import { createRateLimiter } from "../../src/utils/rateLimit";
+import { AvatarUploadError, prepareUploadedAvatar, saveAvatar } from "../../src/utils/avatarStorage";
+
+export const config = {
+  api: {
+    bodyParser: {
+      // A 5 MB image once base64 encoded
+      sizeLimit: "7mb",
+    },
+  },
+};
+
+/** Rate limiter: 10 requests per minute per IP. */
+const uploadRateLimit = createRateLimiter(
+  10,
+  "Too many avatar uploads from this IP, please try again later.",
+);
+
+/**
+ * Next.js API route handler for avatar uploads.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    res.status(405).json({ error: "Method not allowed" });
+    return;
+  }
+
+  // Apply rate limiting
+  await new Promise<void>((resolve) => {
+    uploadRateLimit(req, res, () => resolve());
+  });
+  if (res.headersSent) {
+    return;
+  }
+
+  const requestId = req.headers["x-request-id"] || generateRequestId();
+  if (typeof req.body?.image !== "string" || !req.body.image) {
+    res.status(400).json({ error: "Image required", requestId });
+    return;
+  }
+
+  try {
+    const portrait = await prepareUploadedAvatar(Buffer.from(req.body.image, "base64"));
+    const avatarUrl = await saveAvatar(portrait);
+    logEvent("info", "avatar_uploaded", "Uploaded avatar saved", sanitizeLogMeta({ requestId, avatarUrl, bytes: portrait.length }));
+    res.status(200).json({ avatarUrl, requestId });
+  } catch (error) {
+    if (error instanceof AvatarUploadError) {
+      res.status(error.status).json({ error: error.message, requestId });
+      return;
+    }
+    logEvent("error", "avatar_upload_failed", "Failed to save uploaded avatar", sanitizeLogMeta({
+      requestId,
+      error: error instanceof Error ? error.message : String(error),
+    }));
+    res.status(500).json({ error: "Failed to save avatar", requestId });
+  }
+}
@@ -1,14 +1,13 @@
 /**
  * API endpoint for validating character names against copyright and trademark concerns.
- * Uses Claude to determine if a character is likely protected by copyright or trademark.
+ * Uses the configured LLM provider to determine if a character is likely protected by copyright or trademark.
  */
 
 import type { NextApiRequest, NextApiResponse } from "next";
 import { logEvent, sanitizeLogMeta } from "../../src/utils/logger";
-import { getClaudeModel } from "../../src/utils/claudeModelSelector";
 import { createRateLimiter } from "../../src/utils/rateLimit";
 import { extractJson } from "../../src/utils/parseClaudeJson";
-import anthropic from "../../src/utils/anthropicClient";
+import { getLlmProvider } from "../../src/utils/llm";
 
 /** Rate limiter: 30 requests per minute per IP. */
 const validationRateLimit = createRateLimiter(
@@ -56,10 +55,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   const characterName = name.trim();
 
   try {
-    const model = getClaudeModel("text-simple");
-
-    const response = await anthropic.messages.create({
-      model,
+    const response = await getLlmProvider().complete({
+      tier: "text-simple",
       system: `You are a copyright and trademark expert AI. Analyze character names to determine if they are:
 1. In the public domain (safe to use)
 2. Protected by copyright/trademark (not safe)
@@ -89,11 +86,11 @@ warningLevel guide:
           content: `Analyze this character name for copyright/trademark concerns: "${characterName}"\n\nProvide validation result as JSON.`
         }
       ],
-      max_tokens: 250,
+      maxTokens: 250,
       temperature: 0.3,
     });
 
-    const content = extractJson(response.content[0]?.type === "text" ? response.content[0].text : '{}');
+    const content = extractJson(response.text || '{}');
     const validation = JSON.parse(content);
 
     const result: CharacterValidationResult = {
@@ -0,0 +1,132 @@
+/**
+ * API endpoint behind the voice panel. GET lists the voices the configured TTS
+ * engine offers (from the cached voice catalogue), optionally narrowed to a
+ * language (`?language=en` or `en-GB`).
+ * POST synthesizes a short sample line with a chosen voice, pitch and rate, and
+ * returns its /api/audio URL so the user can hear a voice before keeping it.
+ */
+
+import type { NextApiRequest, NextApiResponse } from "next";
+import { generateRequestId, logEvent, sanitizeLogMeta } from "../../src/utils/logger";
+import { createRateLimiter } from "../../src/utils/rateLimit";
+import { sanitizeCharacterName } from "../../src/utils/security";
+import { getTtsEngine } from "../../src/utils/tts";
+import { getVoiceCatalog } from "../../src/utils/voiceCatalog";
+import { synthesizeReplyAudio } from "../../src/utils/replyAudio";
+import { clampPitch, clampRate, parsePronunciations } from "../../src/utils/voiceHelpers";
+import { detectVoiceType, type CharacterVoiceConfig } from "../../src/utils/characterVoices";
+
+/** Rate limiter: 30 requests per minute per IP (each preview is a synthesis call). */
+const voicesRateLimit = createRateLimiter(
+  30,
+  "Too many voice requests from this IP, please try again later.",
+);
+
+export const DEFAULT_SAMPLE_LINE = "Hello there! This is how I sound.";
+const MAX_SAMPLE_LENGTH = 200;
+
+/** A voice config from the request body, with pitch and rate clamped; null when malformed. */
+function parseVoiceConfig(raw: unknown): CharacterVoiceConfig | null {
+  if (!raw || typeof raw !== "object") return null;
+  const config = raw as Record<string, unknown>;
+  const languageCodes = Array.isArray(config.languageCodes)
+    ? config.languageCodes.filter((code): code is string => typeof code === "string" && /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/.test(code))
+    : [];
+  if (typeof config.name !== "string" || !config.name.trim() || config.name.length > 100 || languageCodes.length === 0) {
+    return null;
+  }
+  const pronunciations = parsePronunciations(config.pronunciations);
+  return {
+    languageCodes,
+    name: config.name.trim(),
+    ssmlGender: typeof config.ssmlGender === "number" ? config.ssmlGender : 1,
+    pitch: clampPitch(config.pitch),
+    rate: clampRate(config.rate),
+    type: detectVoiceType(config.name),
+    ...(pronunciations.length > 0 ? { pronunciations } : {}),
+  };
+}
+
+function matchesLanguage(languageCodes: string[], language: string): boolean {
+  const wanted = language.toLowerCase();
+  return languageCodes.some((code) => {
+    const lower = code.toLowerCase();
+    return lower === wanted || lower.split("-")[0] === wanted;
+  });
+}
+
+/**
+ * Next.js API route handler for the voice list and voice previews.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.setHeader("Allow", ["GET", "POST"]);
+    res.status(405).json({ error: "Method not allowed" });
+    return;
+  }
+
+  // Apply rate limiting
+  await new Promise<void>((resolve) => {
+    voicesRateLimit(req, res, () => resolve());
+  });
+  if (res.headersSent) {
+    return;
+  }
+
+  const requestId = req.headers["x-request-id"] || generateRequestId();
+  const engine = getTtsEngine();
+
+  if (req.method === "GET") {
+    const language = typeof req.query.language === "string" ? req.query.language.trim() : "";
+    try {
+      const catalog = await getVoiceCatalog();
+      const voices = catalog.voices
+        .filter((voice) => !language || matchesLanguage(voice.languageCodes, language))
+        .map((voice) => ({ ...voice, type: detectVoiceType(voice.name) }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+      res.status(200).json({ engine: engine.name, source: catalog.source, voices, requestId });
+    } catch (error) {
+      logEvent("error", "voices_list_failed", "Failed to list TTS voices", sanitizeLogMeta({
+        requestId,
+        engine: engine.name,
+        error: error instanceof Error ? error.message : String(error),
+      }));
+      res.status(500).json({ error: "Failed to list voices", requestId });
+    }
+    return;
+  }
+
+  if (engine.name === "none") {
+    res.status(503).json({ error: "Text-to-speech is disabled", requestId });
+    return;
+  }
+  const voiceConfig = parseVoiceConfig(req.body?.voiceConfig);
+  if (!voiceConfig) {
+    res.status(400).json({ error: "A voice with a name and language code is required", requestId });
+    return;
+  }
+  const text = typeof req.body.text === "string" && req.body.text.trim()
+    ? req.body.text.trim().slice(0, MAX_SAMPLE_LENGTH)
+    : DEFAULT_SAMPLE_LINE;
+  const botName = typeof req.body.botName === "string" ? sanitizeCharacterName(req.body.botName) || "Character" : "Character";
+
+  try {
+    const audioFileUrl = await synthesizeReplyAudio(text, voiceConfig, botName, undefined);
+    logEvent("info", "voice_preview_generated", "Voice preview synthesized", sanitizeLogMeta({
+      requestId,
+      engine: engine.name,
+      voice: voiceConfig.name,
+      pitch: voiceConfig.pitch,
+      rate: voiceConfig.rate,
+    }));
+    res.status(200).json({ audioFileUrl, voiceConfig, requestId });
+  } catch (error) {
+    logEvent("error", "voice_preview_failed", "Voice preview synthesis failed", sanitizeLogMeta({
+      requestId,
+      engine: engine.name,
+      voice: voiceConfig.name,
+      error: error instanceof Error ? error.message : String(error),
+    }));
+    res.status(500).json({ error: "Failed to preview the voice", requestId });
+  }
+}
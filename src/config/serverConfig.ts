@@ -1,21 +1,33 @@
 // Server-side runtime configuration shared by API handlers.
 // Keep server-only values here; expose safe values to the client via an API route.
+import {
+  RESPONSE_CONSTRAINTS,
+  buildPersonalityPrompt,
+  createEmptyProfile,
+  parsePersonalityProfile,
+  type PersonalityProfile,
+} from '../utils/personalityProfile';
+import { formatCharacterDescription, type CharacterDescription } from '../utils/characterDescription';
+
 export const AVATAR_TIMEOUT_MS = 60_000; // 60 seconds
 
 // Shared personality template constants
-export const RESPONSE_CONSTRAINTS = `Keep responses under 100 words. Always finish your current thought with proper punctuation before stopping.
-If telling a story, reach a natural pause point or cliffhanger. Never trail off mid-sentence.
-Never use action emotes or stage directions (e.g. *smiles*, *narrows eyes*, *laughs*). Speak only in dialogue and prose.`;
+export { RESPONSE_CONSTRAINTS };
 
 /**
- * Generates a character-specific personality prompt using Claude.
- * Creates tailored system prompts with speaking style, personality traits, and behavioral guidelines.
+ * Generates a character-specific personality profile using the configured LLM provider:
+ * speaking style, personality traits, knowledge, behavioral guidelines and quirks.
+ * When a description is given the character is treated as original and the
+ * profile is derived from it rather than from any canonical depiction.
+ * Falls back to an empty profile (generic prompt defaults) on error.
  */
-export async function generatePersonalityPrompt(characterName: string): Promise<string> {
+export async function generatePersonalityProfile(
+  characterName: string,
+  description?: CharacterDescription | null,
+): Promise<PersonalityProfile> {
   try {
-    const { getClaudeModel } = await import('../utils/claudeModelSelector');
     const { extractJson } = await import('../utils/parseClaudeJson');
-    const { default: anthropic } = await import('../utils/anthropicClient');
+    const { getLlmProvider } = await import('../utils/llm');
 
     const systemPrompt = `You are a character personality expert. Create a detailed system prompt for roleplaying as the given character.
 
@@ -35,35 +47,32 @@ Guidelines:
 - Identify key knowledge areas
 - Describe how they interact with others`;
 
-    const response = await anthropic.messages.create({
-      model: getClaudeModel("text-simple"),  // one-time structured JSON task; haiku is sufficient
+    const response = await getLlmProvider().complete({
+      tier: "text-simple",  // one-time structured JSON task; the simple tier is sufficient
       system: systemPrompt,
       messages: [
-        { role: "user", content: `Character: "${characterName}"\n\nProvide character personality configuration as JSON.` }
+        { role: "user", content: description
+          ? `Character: "${characterName}" (an original character)\n\nAuthor's description:\n${formatCharacterDescription(description)}\n\nBuild the personality from this description only. Provide character personality configuration as JSON.`
+          : `Character: "${characterName}"\n\nProvide character personality configuration as JSON.` }
       ],
-      max_tokens: 300,
+      maxTokens: 300,
       temperature: 0.4,
     });
 
-    const content = extractJson(response.content[0]?.type === "text" ? response.content[0].text : '{}');
-    const config = JSON.parse(content);
-
-    // Build the system prompt from the structured data
-    const prompt = `You are ${characterName}.
-
-SPEAKING STYLE: ${config.speakingStyle || 'Natural and authentic to character'}
-PERSONALITY: ${config.personalityTraits || 'Stay true to character'}
-KNOWLEDGE: ${config.knowledgeDomains || 'Use your internal knowledge'}
-BEHAVIOR: ${config.behavioralGuidelines || 'Respond naturally in character'}
-QUIRKS: ${config.quirks || 'Express character-specific mannerisms'}
-
-Stay in character at all times. Never break character or mention being an AI.
-
-${RESPONSE_CONSTRAINTS}`;
-
-    return prompt;
+    const content = extractJson(response.text || '{}');
+    return parsePersonalityProfile(JSON.parse(content)) ?? createEmptyProfile();
   } catch {
-    // Fallback to simple template on error
-    return `You are ${characterName}. Stay in character and respond naturally. Use your internal knowledge. Never break character or mention being an AI.\n\n${RESPONSE_CONSTRAINTS}`;
+    return createEmptyProfile();
   }
 }
+
+/**
+ * Generates a character-specific personality prompt using the configured LLM provider.
+ * Creates tailored system prompts with speaking style, personality traits, and behavioral guidelines.
+ */
+export async function generatePersonalityPrompt(
+  characterName: string,
+  description?: CharacterDescription | null,
+): Promise<string> {
+  return buildPersonalityPrompt(characterName, await generatePersonalityProfile(characterName, description));
+}
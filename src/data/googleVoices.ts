@@ -0,0 +1,96 @@
+// Snapshot of Google Cloud TTS voices for common locales, used to cast voices
+// when the live voice list cannot be fetched (offline development, no
+// credentials, API outage). Each entry lists the voice letters per family with
+// their gender (M/F), so "AF BM" means <locale>-<family>-A is female and -B male.
+import type { TtsVoice } from "../utils/tts";
+
+const VOICES: Record<string, Record<string, string>> = {
+  "en-GB": {
+    Standard: "AF BM CF DM FF",
+    Wavenet: "AF BM CF DM FF",
+    Neural2: "AF BM CF DM FF",
+  },
+  "en-US": {
+    Standard: "AM BM CF DM EF FF GF HF IM JM",
+    Wavenet: "AM BM CF DM EF FF GF HF IM JM",
+    Neural2: "AM CF DM EF FF GF HF IM JM",
+    Studio: "MM OF",
+  },
+  "en-AU": {
+    Standard: "AF BM CF DM",
+    Wavenet: "AF BM CF DM",
+    Neural2: "AF BM CF DM",
+  },
+  "en-IN": {
+    Standard: "AF BM CM DF",
+    Wavenet: "AF BM CM DF",
+  },
+  "de-DE": {
+    Standard: "AF BM CF DM EM FF",
+    Wavenet: "AF BM CF DM EM FF",
+    Neural2: "AF BM CF DM FF",
+  },
+  "fr-FR": {
+    Standard: "AF BM CF DM EF",
+    Wavenet: "AF BM CF DM EF",
+    Neural2: "AF BM CF DM EF",
+  },
+  "es-ES": {
+    Standard: "AF BM CF DF",
+    Wavenet: "BM CF DF",
+    Neural2: "AF BM CF DF EF FM",
+  },
+  "it-IT": {
+    Standard: "AF BF CM DM",
+    Wavenet: "AF BF CM DM",
+    Neural2: "AF CM",
+  },
+  "pt-BR": {
+    Standard: "AF BM CF",
+    Wavenet: "AF BM CF",
+    Neural2: "AF BM CF",
+  },
+  "nl-NL": {
+    Standard: "AF BM CM DF EF",
+    Wavenet: "AF BM CM DF EF",
+  },
+  "ru-RU": {
+    Standard: "AF BM CF DM EF",
+    Wavenet: "AF BM CF DM EF",
+  },
+  "ja-JP": {
+    Standard: "AF BF CM DM",
+    Wavenet: "AF BF CM DM",
+    Neural2: "BF CM DM",
+  },
+  "ko-KR": {
+    Standard: "AF BF CM DM",
+    Wavenet: "AF BF CM DM",
+    Neural2: "AF BF CM",
+  },
+  "cmn-CN": {
+    Standard: "AF BM CM DF",
+    Wavenet: "AF BM CM DF",
+  },
+  "hi-IN": {
+    Standard: "AF BM CM DF",
+    Wavenet: "AF BM CM DF",
+    Neural2: "AF BM CM DF",
+  },
+  "ar-XA": {
+    Standard: "AF BM CM DF",
+    Wavenet: "AF BM CM DF",
+  },
+};
+
+const GENDERS: Record<string, number> = { M: 1, F: 2 };
+
+export const GOOGLE_VOICE_SNAPSHOT: TtsVoice[] = Object.entries(VOICES).flatMap(([locale, families]) =>
+  Object.entries(families).flatMap(([family, letters]) =>
+    letters.split(" ").map((entry) => ({
+      name: `${locale}-${family}-${entry[0]}`,
+      languageCodes: [locale],
+      ssmlGender: GENDERS[entry[1]],
+    })),
+  ),
+);
@@ -0,0 +1,63 @@
+// Shared pronunciation dictionary applied to every character's speech, keyed by
+// the voice's language (the part of its locale before the dash). It mainly
+// covers names from characterNames.ts that TTS voices read letter by letter.
+// A character's own voice pronunciations (see CharacterVoiceConfig) win over
+// these. Transcriptions are IPA in the usual English reading.
+import type { Pronunciation } from "../utils/characterVoices";
+
+const ENGLISH_IPA: Record<string, string> = {
+  Achilles: "əˈkɪliːz",
+  Aegisthus: "iːˈdʒɪsθəs",
+  Andromache: "ænˈdrɒməki",
+  Antigone: "ænˈtɪɡəni",
+  Aphrodite: "ˌæfrəˈdaɪti",
+  Ariadne: "ˌæriˈædni",
+  Briseis: "braɪˈsiːɪs",
+  Calchas: "ˈkælkəs",
+  Chryseis: "kraɪˈsiːɪs",
+  Circe: "ˈsɜːrsi",
+  Clytemnestra: "ˌklaɪtəmˈnɛstrə",
+  Coeus: "ˈsiːəs",
+  Cronus: "ˈkroʊnəs",
+  Daedalus: "ˈdɛdələs",
+  Demeter: "dɪˈmiːtər",
+  Dionysus: "ˌdaɪəˈnaɪsəs",
+  Eos: "ˈiːɒs",
+  Epimetheus: "ˌɛpɪˈmiːθiəs",
+  Erebus: "ˈɛrɪbəs",
+  Ganymede: "ˈɡænɪmiːd",
+  Hecate: "ˈhɛkəti",
+  Hecuba: "ˈhɛkjʊbə",
+  Hephaestus: "hɪˈfiːstəs",
+  Hyperion: "haɪˈpɪəriən",
+  Hypnos: "ˈhɪpnɒs",
+  Iapetus: "aɪˈæpɪtəs",
+  Iphigenia: "ˌɪfɪdʒɪˈnaɪə",
+  Medea: "mɪˈdiːə",
+  Menelaus: "ˌmɛnɪˈleɪəs",
+  Mnemosyne: "nɪˈmɒzɪniː",
+  Nausicaa: "nɔːˈsɪkeɪə",
+  Nyx: "nɪks",
+  Odysseus: "əˈdɪsiəs",
+  Oedipus: "ˈɛdɪpəs",
+  Oceanus: "oʊˈsiːənəs",
+  Patroclus: "pəˈtroʊkləs",
+  Penelope: "pəˈnɛləpi",
+  Persephone: "pərˈsɛfəni",
+  Phaedra: "ˈfiːdrə",
+  Philoctetes: "ˌfɪləkˈtiːtiːz",
+  Polyphemus: "ˌpɒlɪˈfiːməs",
+  Prometheus: "prəˈmiːθiəs",
+  Semele: "ˈsɛmɪliː",
+  Telemachus: "təˈlɛməkəs",
+  Tethys: "ˈtiːθɪs",
+  Thanatos: "ˈθænətɒs",
+  Theia: "ˈθiːə",
+  Tiresias: "taɪˈriːsiəs",
+  Tyche: "ˈtaɪki",
+  Zephyrus: "ˈzɛfərəs",
+};
+
+export const PRONUNCIATION_LEXICON: Record<string, Pronunciation[]> = {
+  en: Object.entries(ENGLISH_IPA).map(([text, phoneme]) => ({ text, phoneme, alphabet: "ipa" })),
+};
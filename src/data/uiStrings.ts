@@ -0,0 +1,437 @@
+// Interface strings for each conversation language (see src/utils/language.ts).
+// English is the reference: every key must exist there, and a missing
+// translation falls back to it. `{name}` placeholders are filled in by translate().
+import type { LanguageCode } from "../utils/language";
+
+const EN = {
+  appTitle: "Character Chatbot Generator",
+  backToChat: "Back to chat",
+  namePlaceholder: "Enter a name",
+  nameOwnPlaceholder: "Name your character",
+  languageLabel: "Conversation language",
+  reviewPersonality: "Review personality before chatting",
+  useKnownCharacter: "Use a well-known character instead",
+  describeOwnCharacter: "Describe your own character",
+  importCard: "Import character card",
+  describeIntro: "Name your character and describe them in your own words. The personality, portrait and voice are built from your description rather than from any existing character.",
+  describeTip: "Fill in as many fields as you like; at least one is required.",
+  intro: "Create a chatbot character using well-known public domain figures from classic literature, mythology, or historical figures. Characters from copyrighted or trademarked modern media will trigger a warning.",
+  introHow: "Enter a character name or click the {dice} button for a random suggestion, then press the {arrow} button to generate your character.",
+  dice: "dice",
+  arrow: "arrow",
+  examples: "Examples: Sherlock Holmes, Dracula, Cleopatra, Robin Hood, Leonardo da Vinci, or create your own original character.",
+  pickingRandom: "Picking a random character",
+  validating: "Validating character...",
+  stepPersonality: "Creating personality",
+  stepAvatar: "Generating portrait — this may take a minute",
+  stepVoice: "Selecting voice",
+  loadingAvatar: "Generating portrait — may take up to 30 seconds",
+  loadingDefaultImage: "Using default image",
+  loadingDefaultVoice: "Using default voice",
+  fieldBackstory: "Backstory",
+  fieldEra: "Era",
+  fieldAppearance: "Appearance",
+  fieldTemperament: "Temperament",
+  fieldSpeakingStyle: "Speaking style",
+  errorNameRequired: "Please enter a name or character.",
+  errorDescriptionRequired: "Please describe your character.",
+  errorCreateFailed: "Failed to generate character. Please try again.",
+  errorRandomFailed: "Failed to get random character",
+  disclaimer: "Disclaimer: This chatbot is for entertainment purposes only. No information provided should be considered professional, legal, medical, or financial advice. Content may be generated by artificial intelligence and may contain inaccuracies or limitations. Use at your own risk. The creators disclaim all liability for actions taken based on chatbot interactions.",
+  chatPlaceholder: "Type in your message here...",
+  chatListening: "Listening...",
+  chatTranscribing: "Transcribing...",
+  chatSend: "Send",
+  chatHold: "HOLD",
+  chatHandsFree: "Hands-free",
+  chatGoOn: "Go on",
+  chatRetrying: "Retrying connection...",
+  menuCharacterCreator: "Character Creator",
+  menuDownloadTranscript: "Download Transcript",
+  menuCopyResumeLink: "Copy Resume Link",
+  menuMemories: "Memories",
+  menuVoice: "Voice",
+  menuExportJson: "Export Card (JSON)",
+  menuExportPng: "Export Card (PNG)",
+  menuAddCharacter: "Add Character",
+  menuTurnTaking: "Turn taking",
+  turnRoundRobin: "Everyone answers in turn",
+  turnAddressed: "Only those addressed answer",
+  turnRandom: "Everyone answers, random order",
+  portraitRegenerate: "Regenerate portrait",
+  portraitStyle: "Style",
+  portraitStyleAuto: "Artist's choice",
+  styleOilPainting: "Oil painting",
+  styleInkSketch: "Ink sketch",
+  stylePixelArt: "Pixel art",
+  styleWatercolor: "Watercolor",
+  portraitGenerating: "Painting new portraits...",
+  portraitPick: "Pick a new portrait, or close to keep the current one.",
+  portraitFailed: "Could not paint new portraits. Please try again.",
+  uploadPortrait: "Upload your own portrait",
+  uploadingPortrait: "Uploading portrait...",
+  customPortraitNote: "Your portrait will be used instead of a generated one.",
+  removePortrait: "Remove portrait",
+  portraitUpload: "Upload your own",
+};
+
+export type UiStringKey = keyof typeof EN;
+
+export const UI_STRINGS: { en: Record<UiStringKey, string> } & Record<LanguageCode, Partial<Record<UiStringKey, string>>> = {
+  en: EN,
+  de: {
+    appTitle: "Charakter-Chatbot-Generator",
+    backToChat: "Zurück zum Chat",
+    namePlaceholder: "Namen eingeben",
+    nameOwnPlaceholder: "Gib deiner Figur einen Namen",
+    languageLabel: "Gesprächssprache",
+    reviewPersonality: "Persönlichkeit vor dem Chat prüfen",
+    useKnownCharacter: "Stattdessen eine bekannte Figur wählen",
+    describeOwnCharacter: "Eigene Figur beschreiben",
+    importCard: "Charakterkarte importieren",
+    describeIntro: "Gib deiner Figur einen Namen und beschreibe sie mit eigenen Worten. Persönlichkeit, Porträt und Stimme entstehen aus deiner Beschreibung statt aus einer bestehenden Figur.",
+    describeTip: "Fülle so viele Felder aus, wie du möchtest; mindestens eines ist erforderlich.",
+    intro: "Erstelle einen Chatbot aus bekannten gemeinfreien Figuren der klassischen Literatur, der Mythologie oder der Geschichte. Figuren aus urheber- oder markenrechtlich geschützten modernen Medien lösen eine Warnung aus.",
+    introHow: "Gib einen Figurennamen ein oder klicke auf den {dice}-Knopf für einen Zufallsvorschlag und dann auf den {arrow}-Knopf, um deine Figur zu erstellen.",
+    dice: "Würfel",
+    arrow: "Pfeil",
+    examples: "Beispiele: Sherlock Holmes, Dracula, Kleopatra, Robin Hood, Leonardo da Vinci oder eine eigene Figur.",
+    pickingRandom: "Zufällige Figur wird gewählt",
+    validating: "Figur wird geprüft...",
+    stepPersonality: "Persönlichkeit wird erstellt",
+    stepAvatar: "Porträt wird erstellt — das kann eine Minute dauern",
+    stepVoice: "Stimme wird gewählt",
+    loadingAvatar: "Porträt wird erstellt — kann bis zu 30 Sekunden dauern",
+    loadingDefaultImage: "Standardbild wird verwendet",
+    loadingDefaultVoice: "Standardstimme wird verwendet",
+    fieldBackstory: "Hintergrund",
+    fieldEra: "Epoche",
+    fieldAppearance: "Aussehen",
+    fieldTemperament: "Temperament",
+    fieldSpeakingStyle: "Sprechweise",
+    errorNameRequired: "Bitte gib einen Namen oder eine Figur ein.",
+    errorDescriptionRequired: "Bitte beschreibe deine Figur.",
+    errorCreateFailed: "Die Figur konnte nicht erstellt werden. Bitte versuche es erneut.",
+    errorRandomFailed: "Keine zufällige Figur gefunden",
+    disclaimer: "Hinweis: Dieser Chatbot dient nur der Unterhaltung. Keine Information ist als professionelle, rechtliche, medizinische oder finanzielle Beratung zu verstehen. Inhalte können von künstlicher Intelligenz erzeugt sein und Fehler oder Einschränkungen enthalten. Nutzung auf eigene Gefahr. Die Entwickler übernehmen keine Haftung für Handlungen, die auf Gesprächen mit dem Chatbot beruhen.",
+    chatPlaceholder: "Schreib hier deine Nachricht...",
+    chatListening: "Hört zu...",
+    chatTranscribing: "Wird transkribiert...",
+    chatSend: "Senden",
+    chatHold: "WARTEN",
+    chatHandsFree: "Freihändig",
+    chatGoOn: "Weiter",
+    chatRetrying: "Verbindung wird erneut aufgebaut...",
+    menuCharacterCreator: "Figuren-Generator",
+    menuDownloadTranscript: "Verlauf herunterladen",
+    menuCopyResumeLink: "Link zum Fortsetzen kopieren",
+    menuMemories: "Erinnerungen",
+    menuVoice: "Stimme",
+    menuExportJson: "Karte exportieren (JSON)",
+    menuExportPng: "Karte exportieren (PNG)",
+    menuAddCharacter: "Figur hinzufügen",
+    menuTurnTaking: "Reihenfolge",
+    turnRoundRobin: "Alle antworten nacheinander",
+    turnAddressed: "Nur Angesprochene antworten",
+    turnRandom: "Alle antworten, zufällige Reihenfolge",
+    portraitRegenerate: "Porträt neu erstellen",
+    portraitStyle: "Stil",
+    portraitStyleAuto: "Nach Wahl des Künstlers",
+    styleOilPainting: "Ölgemälde",
+    styleInkSketch: "Tuschezeichnung",
+    stylePixelArt: "Pixel-Art",
+    styleWatercolor: "Aquarell",
+    portraitGenerating: "Neue Porträts werden gemalt...",
+    portraitPick: "Wähle ein neues Porträt oder schließe, um das aktuelle zu behalten.",
+    portraitFailed: "Es konnten keine neuen Porträts erstellt werden. Bitte versuche es erneut.",
+    uploadPortrait: "Eigenes Porträt hochladen",
+    uploadingPortrait: "Porträt wird hochgeladen...",
+    customPortraitNote: "Dein Porträt wird statt eines generierten verwendet.",
+    removePortrait: "Porträt entfernen",
+    portraitUpload: "Eigenes hochladen",
+  },
+  fr: {
+    appTitle: "Générateur de chatbots de personnages",
+    backToChat: "Retour à la conversation",
+    namePlaceholder: "Saisissez un nom",
+    nameOwnPlaceholder: "Nommez votre personnage",
+    languageLabel: "Langue de la conversation",
+    reviewPersonality: "Relire la personnalité avant de discuter",
+    useKnownCharacter: "Choisir plutôt un personnage connu",
+    describeOwnCharacter: "Décrire votre propre personnage",
+    importCard: "Importer une fiche de personnage",
+    describeIntro: "Nommez votre personnage et décrivez-le avec vos propres mots. La personnalité, le portrait et la voix sont tirés de votre description plutôt que d'un personnage existant.",
+    describeTip: "Remplissez autant de champs que vous voulez ; au moins un est requis.",
+    intro: "Créez un chatbot à partir de figures célèbres du domaine public : littérature classique, mythologie ou histoire. Les personnages de médias modernes protégés par le droit d'auteur ou une marque déclenchent un avertissement.",
+    introHow: "Saisissez le nom d'un personnage ou cliquez sur le bouton {dice} pour une suggestion au hasard, puis sur le bouton {arrow} pour créer votre personnage.",
+    dice: "dé",
+    arrow: "flèche",
+    examples: "Exemples : Sherlock Holmes, Dracula, Cléopâtre, Robin des Bois, Léonard de Vinci, ou votre propre personnage.",
+    pickingRandom: "Choix d'un personnage au hasard",
+    validating: "Vérification du personnage...",
+    stepPersonality: "Création de la personnalité",
+    stepAvatar: "Création du portrait — cela peut prendre une minute",
+    stepVoice: "Choix de la voix",
+    loadingAvatar: "Création du portrait — jusqu'à 30 secondes",
+    loadingDefaultImage: "Image par défaut utilisée",
+    loadingDefaultVoice: "Voix par défaut utilisée",
+    fieldBackstory: "Histoire",
+    fieldEra: "Époque",
+    fieldAppearance: "Apparence",
+    fieldTemperament: "Tempérament",
+    fieldSpeakingStyle: "Façon de parler",
+    errorNameRequired: "Veuillez saisir un nom ou un personnage.",
+    errorDescriptionRequired: "Veuillez décrire votre personnage.",
+    errorCreateFailed: "Impossible de créer le personnage. Veuillez réessayer.",
+    errorRandomFailed: "Impossible de trouver un personnage au hasard",
+    disclaimer: "Avertissement : ce chatbot est destiné au divertissement uniquement. Aucune information fournie ne constitue un conseil professionnel, juridique, médical ou financier. Le contenu peut être généré par une intelligence artificielle et comporter des inexactitudes ou des limites. Utilisation à vos risques. Les créateurs déclinent toute responsabilité pour les actions fondées sur les échanges avec le chatbot.",
+    chatPlaceholder: "Écrivez votre message ici...",
+    chatListening: "Écoute...",
+    chatTranscribing: "Transcription...",
+    chatSend: "Envoyer",
+    chatHold: "PATIENCE",
+    chatHandsFree: "Mains libres",
+    chatGoOn: "Continuer",
+    chatRetrying: "Nouvelle tentative de connexion...",
+    menuCharacterCreator: "Créateur de personnages",
+    menuDownloadTranscript: "Télécharger la conversation",
+    menuCopyResumeLink: "Copier le lien de reprise",
+    menuMemories: "Souvenirs",
+    menuVoice: "Voix",
+    menuExportJson: "Exporter la fiche (JSON)",
+    menuExportPng: "Exporter la fiche (PNG)",
+    menuAddCharacter: "Ajouter un personnage",
+    menuTurnTaking: "Tours de parole",
+    turnRoundRobin: "Chacun répond à son tour",
+    turnAddressed: "Seuls les personnages interpellés répondent",
+    turnRandom: "Tout le monde répond, ordre aléatoire",
+    portraitRegenerate: "Régénérer le portrait",
+    portraitStyle: "Style",
+    portraitStyleAuto: "Au choix de l'artiste",
+    styleOilPainting: "Peinture à l'huile",
+    styleInkSketch: "Croquis à l'encre",
+    stylePixelArt: "Pixel art",
+    styleWatercolor: "Aquarelle",
+    portraitGenerating: "Peinture de nouveaux portraits...",
+    portraitPick: "Choisissez un nouveau portrait, ou fermez pour garder l'actuel.",
+    portraitFailed: "Impossible de peindre de nouveaux portraits. Veuillez réessayer.",
+    uploadPortrait: "Importer votre propre portrait",
+    uploadingPortrait: "Envoi du portrait...",
+    customPortraitNote: "Votre portrait sera utilisé à la place d'un portrait généré.",
+    removePortrait: "Retirer le portrait",
+    portraitUpload: "Importer le vôtre",
+  },
+  es: {
+    appTitle: "Generador de chatbots de personajes",
+    backToChat: "Volver al chat",
+    namePlaceholder: "Escribe un nombre",
+    nameOwnPlaceholder: "Ponle nombre a tu personaje",
+    languageLabel: "Idioma de la conversación",
+    reviewPersonality: "Revisar la personalidad antes de chatear",
+    useKnownCharacter: "Usar un personaje conocido",
+    describeOwnCharacter: "Describe tu propio personaje",
+    importCard: "Importar ficha de personaje",
+    describeIntro: "Ponle nombre a tu personaje y descríbelo con tus propias palabras. La personalidad, el retrato y la voz se crean a partir de tu descripción y no de un personaje existente.",
+    describeTip: "Rellena tantos campos como quieras; al menos uno es obligatorio.",
+    intro: "Crea un chatbot con figuras conocidas de dominio público de la literatura clásica, la mitología o la historia. Los personajes de medios modernos protegidos por derechos de autor o marcas mostrarán una advertencia.",
+    introHow: "Escribe el nombre de un personaje o pulsa el botón del {dice} para una sugerencia al azar, y después el botón de la {arrow} para crear tu personaje.",
+    dice: "dado",
+    arrow: "flecha",
+    examples: "Ejemplos: Sherlock Holmes, Drácula, Cleopatra, Robin Hood, Leonardo da Vinci, o tu propio personaje.",
+    pickingRandom: "Eligiendo un personaje al azar",
+    validating: "Comprobando el personaje...",
+    stepPersonality: "Creando la personalidad",
+    stepAvatar: "Generando el retrato — puede tardar un minuto",
+    stepVoice: "Eligiendo la voz",
+    loadingAvatar: "Generando el retrato — puede tardar hasta 30 segundos",
+    loadingDefaultImage: "Usando la imagen predeterminada",
+    loadingDefaultVoice: "Usando la voz predeterminada",
+    fieldBackstory: "Historia",
+    fieldEra: "Época",
+    fieldAppearance: "Aspecto",
+    fieldTemperament: "Temperamento",
+    fieldSpeakingStyle: "Forma de hablar",
+    errorNameRequired: "Escribe un nombre o un personaje.",
+    errorDescriptionRequired: "Describe tu personaje.",
+    errorCreateFailed: "No se pudo crear el personaje. Inténtalo de nuevo.",
+    errorRandomFailed: "No se pudo obtener un personaje al azar",
+    disclaimer: "Aviso: este chatbot es solo para entretenimiento. Ninguna información debe considerarse asesoramiento profesional, legal, médico ni financiero. El contenido puede estar generado por inteligencia artificial y contener errores o limitaciones. Úsalo bajo tu responsabilidad. Los creadores no se hacen responsables de las acciones basadas en las conversaciones con el chatbot.",
+    chatPlaceholder: "Escribe tu mensaje aquí...",
+    chatListening: "Escuchando...",
+    chatTranscribing: "Transcribiendo...",
+    chatSend: "Enviar",
+    chatHold: "ESPERA",
+    chatHandsFree: "Manos libres",
+    chatGoOn: "Seguid",
+    chatRetrying: "Reintentando la conexión...",
+    menuCharacterCreator: "Creador de personajes",
+    menuDownloadTranscript: "Descargar conversación",
+    menuCopyResumeLink: "Copiar enlace para continuar",
+    menuMemories: "Recuerdos",
+    menuVoice: "Voz",
+    menuExportJson: "Exportar ficha (JSON)",
+    menuExportPng: "Exportar ficha (PNG)",
+    menuAddCharacter: "Añadir personaje",
+    menuTurnTaking: "Turnos de palabra",
+    turnRoundRobin: "Todos responden por turnos",
+    turnAddressed: "Solo responden los aludidos",
+    turnRandom: "Todos responden, en orden aleatorio",
+    portraitRegenerate: "Regenerar retrato",
+    portraitStyle: "Estilo",
+    portraitStyleAuto: "A elección del artista",
+    styleOilPainting: "Pintura al óleo",
+    styleInkSketch: "Boceto a tinta",
+    stylePixelArt: "Pixel art",
+    styleWatercolor: "Acuarela",
+    portraitGenerating: "Pintando nuevos retratos...",
+    portraitPick: "Elige un nuevo retrato o cierra para conservar el actual.",
+    portraitFailed: "No se pudieron pintar nuevos retratos. Inténtalo de nuevo.",
+    uploadPortrait: "Subir tu propio retrato",
+    uploadingPortrait: "Subiendo retrato...",
+    customPortraitNote: "Se usará tu retrato en lugar de uno generado.",
+    removePortrait: "Quitar retrato",
+    portraitUpload: "Subir el tuyo",
+  },
+  it: {
+    appTitle: "Generatore di chatbot di personaggi",
+    backToChat: "Torna alla chat",
+    namePlaceholder: "Inserisci un nome",
+    nameOwnPlaceholder: "Dai un nome al tuo personaggio",
+    languageLabel: "Lingua della conversazione",
+    reviewPersonality: "Rivedi la personalità prima di chattare",
+    useKnownCharacter: "Usa invece un personaggio famoso",
+    describeOwnCharacter: "Descrivi il tuo personaggio",
+    importCard: "Importa scheda personaggio",
+    describeIntro: "Dai un nome al tuo personaggio e descrivilo con parole tue. Personalità, ritratto e voce nascono dalla tua descrizione e non da un personaggio esistente.",
+    describeTip: "Compila tutti i campi che vuoi; almeno uno è obbligatorio.",
+    intro: "Crea un chatbot con figure famose di pubblico dominio della letteratura classica, della mitologia o della storia. I personaggi di media moderni protetti da diritto d'autore o marchio mostrano un avviso.",
+    introHow: "Inserisci il nome di un personaggio o premi il pulsante {dice} per un suggerimento casuale, poi il pulsante {arrow} per creare il tuo personaggio.",
+    dice: "dado",
+    arrow: "freccia",
+    examples: "Esempi: Sherlock Holmes, Dracula, Cleopatra, Robin Hood, Leonardo da Vinci, oppure un personaggio tuo.",
+    pickingRandom: "Scelta di un personaggio casuale",
+    validating: "Verifica del personaggio...",
+    stepPersonality: "Creazione della personalità",
+    stepAvatar: "Creazione del ritratto — potrebbe volerci un minuto",
+    stepVoice: "Scelta della voce",
+    loadingAvatar: "Creazione del ritratto — fino a 30 secondi",
+    loadingDefaultImage: "Uso dell'immagine predefinita",
+    loadingDefaultVoice: "Uso della voce predefinita",
+    fieldBackstory: "Storia",
+    fieldEra: "Epoca",
+    fieldAppearance: "Aspetto",
+    fieldTemperament: "Temperamento",
+    fieldSpeakingStyle: "Modo di parlare",
+    errorNameRequired: "Inserisci un nome o un personaggio.",
+    errorDescriptionRequired: "Descrivi il tuo personaggio.",
+    errorCreateFailed: "Impossibile creare il personaggio. Riprova.",
+    errorRandomFailed: "Impossibile trovare un personaggio casuale",
+    disclaimer: "Avvertenza: questo chatbot è solo a scopo di intrattenimento. Nessuna informazione fornita va considerata consulenza professionale, legale, medica o finanziaria. I contenuti possono essere generati dall'intelligenza artificiale e contenere imprecisioni o limiti. L'uso è a tuo rischio. Gli autori declinano ogni responsabilità per azioni basate sulle conversazioni con il chatbot.",
+    chatPlaceholder: "Scrivi qui il tuo messaggio...",
+    chatListening: "In ascolto...",
+    chatTranscribing: "Trascrizione...",
+    chatSend: "Invia",
+    chatHold: "ATTENDI",
+    chatHandsFree: "Vivavoce",
+    chatGoOn: "Continuate",
+    chatRetrying: "Nuovo tentativo di connessione...",
+    menuCharacterCreator: "Creatore di personaggi",
+    menuDownloadTranscript: "Scarica la conversazione",
+    menuCopyResumeLink: "Copia link per riprendere",
+    menuMemories: "Ricordi",
+    menuVoice: "Voce",
+    menuExportJson: "Esporta scheda (JSON)",
+    menuExportPng: "Esporta scheda (PNG)",
+    menuAddCharacter: "Aggiungi personaggio",
+    menuTurnTaking: "Turni di parola",
+    turnRoundRobin: "Tutti rispondono a turno",
+    turnAddressed: "Rispondono solo i chiamati in causa",
+    turnRandom: "Tutti rispondono, in ordine casuale",
+    portraitRegenerate: "Rigenera ritratto",
+    portraitStyle: "Stile",
+    portraitStyleAuto: "A scelta dell'artista",
+    styleOilPainting: "Pittura a olio",
+    styleInkSketch: "Schizzo a inchiostro",
+    stylePixelArt: "Pixel art",
+    styleWatercolor: "Acquerello",
+    portraitGenerating: "Sto dipingendo nuovi ritratti...",
+    portraitPick: "Scegli un nuovo ritratto o chiudi per tenere quello attuale.",
+    portraitFailed: "Impossibile dipingere nuovi ritratti. Riprova.",
+    uploadPortrait: "Carica il tuo ritratto",
+    uploadingPortrait: "Caricamento del ritratto...",
+    customPortraitNote: "Verrà usato il tuo ritratto invece di uno generato.",
+    removePortrait: "Rimuovi ritratto",
+    portraitUpload: "Carica il tuo",
+  },
+  pt: {
+    appTitle: "Gerador de chatbots de personagens",
+    backToChat: "Voltar à conversa",
+    namePlaceholder: "Digite um nome",
+    nameOwnPlaceholder: "Dê um nome ao seu personagem",
+    languageLabel: "Idioma da conversa",
+    reviewPersonality: "Revisar a personalidade antes de conversar",
+    useKnownCharacter: "Usar um personagem conhecido",
+    describeOwnCharacter: "Descreva seu próprio personagem",
+    importCard: "Importar ficha de personagem",
+    describeIntro: "Dê um nome ao seu personagem e descreva-o com suas palavras. A personalidade, o retrato e a voz são criados a partir da sua descrição, e não de um personagem existente.",
+    describeTip: "Preencha quantos campos quiser; pelo menos um é obrigatório.",
+    intro: "Crie um chatbot com figuras conhecidas de domínio público da literatura clássica, da mitologia ou da história. Personagens de mídias modernas protegidas por direitos autorais ou marcas exibem um aviso.",
+    introHow: "Digite o nome de um personagem ou clique no botão do {dice} para uma sugestão aleatória e depois no botão da {arrow} para criar seu personagem.",
+    dice: "dado",
+    arrow: "seta",
+    examples: "Exemplos: Sherlock Holmes, Drácula, Cleópatra, Robin Hood, Leonardo da Vinci, ou seu próprio personagem.",
+    pickingRandom: "Escolhendo um personagem aleatório",
+    validating: "Verificando o personagem...",
+    stepPersonality: "Criando a personalidade",
+    stepAvatar: "Gerando o retrato — pode levar um minuto",
+    stepVoice: "Escolhendo a voz",
+    loadingAvatar: "Gerando o retrato — pode levar até 30 segundos",
+    loadingDefaultImage: "Usando a imagem padrão",
+    loadingDefaultVoice: "Usando a voz padrão",
+    fieldBackstory: "História",
+    fieldEra: "Época",
+    fieldAppearance: "Aparência",
+    fieldTemperament: "Temperamento",
+    fieldSpeakingStyle: "Jeito de falar",
+    errorNameRequired: "Digite um nome ou personagem.",
+    errorDescriptionRequired: "Descreva seu personagem.",
+    errorCreateFailed: "Não foi possível criar o personagem. Tente novamente.",
+    errorRandomFailed: "Não foi possível obter um personagem aleatório",
+    disclaimer: "Aviso: este chatbot serve apenas para entretenimento. Nenhuma informação deve ser considerada aconselhamento profissional, jurídico, médico ou financeiro. O conteúdo pode ser gerado por inteligência artificial e conter imprecisões ou limitações. Use por sua conta e risco. Os criadores não se responsabilizam por ações baseadas nas conversas com o chatbot.",
+    chatPlaceholder: "Digite sua mensagem aqui...",
+    chatListening: "Ouvindo...",
+    chatTranscribing: "Transcrevendo...",
+    chatSend: "Enviar",
+    chatHold: "AGUARDE",
+    chatHandsFree: "Mãos livres",
+    chatGoOn: "Continuem",
+    chatRetrying: "Tentando reconectar...",
+    menuCharacterCreator: "Criador de personagens",
+    menuDownloadTranscript: "Baixar conversa",
+    menuCopyResumeLink: "Copiar link para retomar",
+    menuMemories: "Memórias",
+    menuVoice: "Voz",
+    menuExportJson: "Exportar ficha (JSON)",
+    menuExportPng: "Exportar ficha (PNG)",
+    menuAddCharacter: "Adicionar personagem",
+    menuTurnTaking: "Ordem das falas",
+    turnRoundRobin: "Todos respondem em turnos",
+    turnAddressed: "Só respondem os mencionados",
+    turnRandom: "Todos respondem, em ordem aleatória",
+    portraitRegenerate: "Gerar novo retrato",
+    portraitStyle: "Estilo",
+    portraitStyleAuto: "À escolha do artista",
+    styleOilPainting: "Pintura a óleo",
+    styleInkSketch: "Esboço a nanquim",
+    stylePixelArt: "Pixel art",
+    styleWatercolor: "Aquarela",
+    portraitGenerating: "Pintando novos retratos...",
+    portraitPick: "Escolha um novo retrato ou feche para manter o atual.",
+    portraitFailed: "Não foi possível pintar novos retratos. Tente novamente.",
+    uploadPortrait: "Enviar seu próprio retrato",
+    uploadingPortrait: "Enviando retrato...",
+    customPortraitNote: "Seu retrato será usado no lugar de um gerado.",
+    removePortrait: "Remover retrato",
+    portraitUpload: "Enviar o seu",
+  },
+};
@@ -4,9 +4,39 @@
 // Used throughout the app for type safety and clarity.
 // =============================
 
+import type { AvatarMood } from "../utils/avatarMoods";
+
+/** Who produced a message. Identity is decided by role, never by comparing display names. */
+export type MessageRole = "user" | "assistant" | "system";
+
+/** Token counts reported by the model for the request that produced a message. */
+export interface MessageUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Current schema version of stored chat histories. Bump it (and extend
+ * `normalizeMessage` in src/utils/messages.ts) whenever the shape changes.
+ */
+export const MESSAGE_SCHEMA_VERSION = 2;
+
 // Shared type for chat messages
 export interface Message {
+  /** Stable unique id. */
+  id: string;
+  role: MessageRole;
   text: string;
+  /** Display name: "User" for the user, otherwise the speaking character's name. */
   sender: string;
+  /** ISO 8601 creation time. */
+  timestamp: string;
   audioFileUrl?: string;
+  /** Model that generated an assistant message. */
+  model?: string;
+  usage?: MessageUsage;
+  /** Links the message to the server log entry for the request that produced it. */
+  requestId?: string;
+  /** Mood the character replied in; picks the expression portrait shown with the message. */
+  mood?: AvatarMood;
 }
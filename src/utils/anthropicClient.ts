@@ -1,8 +1,8 @@
 import Anthropic from "@anthropic-ai/sdk";
 
 /**
- * Shared Anthropic API client singleton.
- * All API routes and utilities should import this instead of constructing their own instances.
+ * Shared Anthropic API client singleton, used by the Anthropic LLM provider.
+ * API routes and utilities should call getLlmProvider() from src/utils/llm rather than use it directly.
  */
 const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY! });
 
@@ -0,0 +1,68 @@
+/**
+ * Moods a character's portrait can show. The chat model opens each reply with
+ * a mood tag such as `[mood:happy]`; the tag is removed from the reply and the
+ * header and message avatars switch to the matching expression portrait.
+ * Shared by the client and the server.
+ *
+ * @module avatarMoods
+ */
+
+export type AvatarMood = "neutral" | "happy" | "angry" | "thoughtful" | "surprised";
+
+export const AVATAR_MOODS: AvatarMood[] = ["neutral", "happy", "angry", "thoughtful", "surprised"];
+
+/** The mood of the base portrait, shown when a reply carries no mood. */
+export const DEFAULT_MOOD: AvatarMood = "neutral";
+
+/** Portrait URL per mood; moods without their own portrait use the base one. */
+export type AvatarExpressions = Partial<Record<AvatarMood, string>>;
+
+/** How each mood's facial expression is described to the image model. */
+export const AVATAR_MOOD_PROMPTS: Record<AvatarMood, string> = {
+  neutral: "a calm, neutral expression",
+  happy: "a warm, happy smile",
+  angry: "an angry scowl with furrowed brows",
+  thoughtful: "a thoughtful look, eyes slightly averted as if deep in thought",
+  surprised: "a surprised look with raised eyebrows and widened eyes",
+};
+
+const MOOD_TAGS = /\[mood:\s*([a-z]*)\]\s*/gi;
+
+/** System prompt addition that asks the chat model to open every reply with a mood tag. */
+export const MOOD_TAG_INSTRUCTIONS = `
+MOOD: Start every reply with exactly one tag naming your character's mood as they say it: ${AVATAR_MOODS.map((mood) => `[mood:${mood}]`).join(", ")}. Never explain or mention the tag; it is removed from the text the user reads.`;
+
+export function isAvatarMood(value: unknown): value is AvatarMood {
+  return typeof value === "string" && (AVATAR_MOODS as string[]).includes(value);
+}
+
+/** Reply text without mood tags, as shown to the user. */
+export function stripMoodTags(text: string): string {
+  return text.replace(MOOD_TAGS, "");
+}
+
+/** Splits a reply into its first tagged mood (null when untagged or unknown) and the text without tags. */
+export function parseMoodTag(text: string): { mood: AvatarMood | null; text: string } {
+  const tag = new RegExp(MOOD_TAGS.source, "i").exec(text);
+  const mood = tag ? tag[1].toLowerCase() : null;
+  return { mood: isAvatarMood(mood) ? mood : null, text: stripMoodTags(text).trim() };
+}
+
+/** Keeps only known moods with string URLs; null when nothing valid remains. */
+export function parseAvatarExpressions(value: unknown): AvatarExpressions | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const expressions: AvatarExpressions = {};
+  for (const [mood, url] of Object.entries(value)) {
+    if (isAvatarMood(mood) && typeof url === "string" && url) expressions[mood] = url;
+  }
+  return Object.keys(expressions).length > 0 ? expressions : null;
+}
+
+/** The portrait for a mood, falling back to the base portrait. */
+export function getExpressionUrl(
+  avatarUrl: string,
+  expressions: AvatarExpressions | null | undefined,
+  mood: AvatarMood | null | undefined,
+): string {
+  return (mood && expressions?.[mood]) || avatarUrl;
+}
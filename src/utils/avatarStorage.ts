@@ -0,0 +1,149 @@
+/**
+ * Saves character portraits in the blob store (see blobStore) under the SHA-256
+ * of their bytes, with a square WebP thumbnail for the chat header and messages.
+ * Identical images share one file, and a stored image never changes, so the
+ * /api/avatar route can let browsers cache it for good. Uploaded portraits are
+ * cleaned up and cropped square before they are saved.
+ *
+ * @module avatarStorage
+ */
+
+import crypto from "crypto";
+import { getBlobStore } from "./blobStore";
+import { AVATAR_ID_PATTERN, AVATAR_UPLOAD_TYPES, MAX_AVATAR_UPLOAD_BYTES, getAvatarUrl } from "./avatarUrl";
+import { logEvent, sanitizeLogMeta } from "./logger";
+
+export type AvatarImageType = "image/png" | "image/jpeg" | "image/webp" | "image/gif";
+
+/** Larger portraits are rejected; Gemini's 1024px PNGs are well below this. */
+export const MAX_AVATAR_BYTES = 8 * 1024 * 1024;
+/** Side length of thumbnails, enough for the 150px header portrait on high-density screens. */
+export const AVATAR_THUMBNAIL_SIZE = 320;
+/** Uploads are cropped to a square of at most this side, like the 1:1 portraits the generator makes. */
+export const AVATAR_UPLOAD_SIZE = 1024;
+/** Decoded size limit for uploads, so a small file cannot unpack into an enormous bitmap. */
+const MAX_UPLOAD_PIXELS = 40_000_000;
+
+/** Raised for uploads that cannot be used as a portrait; the message is shown to the user. */
+export class AvatarUploadError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "AvatarUploadError";
+  }
+}
+
+const THUMBNAIL_SUFFIX = "-thumb";
+
+/** The image format from a file's leading bytes, or null when it is not an image we serve. */
+export function detectImageType(bytes: Uint8Array): AvatarImageType | null {
+  const startsWith = (signature: number[], offset = 0) =>
+    bytes.length >= offset + signature.length && signature.every((byte, i) => bytes[offset + i] === byte);
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (startsWith([0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) return "image/webp";
+  if (startsWith([0x47, 0x49, 0x46, 0x38])) return "image/gif";
+  return null;
+}
+
+/** Bytes of a base64 image data URL, or null for anything else. */
+export function decodeImageDataUrl(dataUrl: string): Buffer | null {
+  const match = /^data:image\/[a-z+.-]+;base64,([A-Za-z0-9+/=]+)$/.exec(dataUrl);
+  return match ? Buffer.from(match[1], "base64") : null;
+}
+
+const blobKeyFor = (id: string) => `avatars/${id}`;
+
+/** A square WebP thumbnail, or null when the image cannot be resized. */
+async function createThumbnail(data: Buffer): Promise<Buffer | null> {
+  try {
+    const { default: sharp } = await import("sharp");
+    return await sharp(data)
+      .resize(AVATAR_THUMBNAIL_SIZE, AVATAR_THUMBNAIL_SIZE, { fit: "cover" })
+      .webp({ quality: 82 })
+      .toBuffer();
+  } catch (error) {
+    logEvent("warn", "avatar_thumbnail_failed", "Could not create avatar thumbnail", sanitizeLogMeta({
+      error: error instanceof Error ? error.message : String(error),
+    }));
+    return null;
+  }
+}
+
+/**
+ * Stores a portrait and its thumbnail and returns the portrait's /api/avatar URL.
+ *
+ * @throws {Error} If the bytes are not a supported image or are too large.
+ */
+export async function saveAvatar(data: Buffer): Promise<string> {
+  const contentType = detectImageType(data);
+  if (!contentType) throw new Error("Avatar is not a PNG, JPEG, WebP or GIF image");
+  if (data.length > MAX_AVATAR_BYTES) throw new Error("Avatar image is too large");
+
+  const hash = crypto.createHash("sha256").update(data).digest("hex");
+  const store = getBlobStore();
+  await store.put(blobKeyFor(hash), data, contentType);
+  const thumbnail = await createThumbnail(data);
+  if (thumbnail) {
+    await store.put(blobKeyFor(`${hash}${THUMBNAIL_SUFFIX}`), thumbnail, "image/webp");
+  }
+  return getAvatarUrl(hash);
+}
+
+/**
+ * Turns an uploaded image into a portrait: checks its format by its leading
+ * bytes and its size, crops it to a centred square and re-encodes it as WebP.
+ * Re-encoding drops EXIF and other metadata, after the EXIF orientation has
+ * been applied so photos keep their right way up.
+ *
+ * @throws {AvatarUploadError} If the upload is not a usable PNG, JPEG or WebP image.
+ */
+export async function prepareUploadedAvatar(data: Buffer): Promise<Buffer> {
+  const contentType = detectImageType(data);
+  if (!contentType || !AVATAR_UPLOAD_TYPES.includes(contentType)) {
+    throw new AvatarUploadError("Please choose a PNG, JPEG or WebP image.", 415);
+  }
+  if (data.length > MAX_AVATAR_UPLOAD_BYTES) {
+    throw new AvatarUploadError(`Images must be ${MAX_AVATAR_UPLOAD_BYTES / (1024 * 1024)} MB or smaller.`, 413);
+  }
+
+  const { default: sharp } = await import("sharp");
+  try {
+    const image = sharp(data, { limitInputPixels: MAX_UPLOAD_PIXELS });
+    const { width, height } = await image.metadata();
+    const side = Math.min(width ?? 0, height ?? 0, AVATAR_UPLOAD_SIZE);
+    if (side < 1) throw new Error("Image has no size");
+    return await image
+      .rotate()
+      .resize(side, side, { fit: "cover" })
+      .webp({ quality: 90 })
+      .toBuffer();
+  } catch (error) {
+    logEvent("warn", "avatar_upload_unreadable", "Could not decode uploaded avatar", sanitizeLogMeta({
+      contentType,
+      bytes: data.length,
+      error: error instanceof Error ? error.message : String(error),
+    }));
+    throw new AvatarUploadError("The image could not be read.");
+  }
+}
+
+/**
+ * Reads a stored portrait or thumbnail by id (see AVATAR_ID_PATTERN). A missing
+ * thumbnail is created from the portrait, or the portrait itself is returned
+ * when it cannot be resized. Null when there is no such portrait.
+ */
+export async function loadAvatar(id: string): Promise<{ data: Buffer; contentType: AvatarImageType } | null> {
+  if (!AVATAR_ID_PATTERN.test(id)) return null;
+  const store = getBlobStore();
+  const stored = await store.get(blobKeyFor(id));
+  const storedType = stored && detectImageType(stored);
+  if (stored && storedType) return { data: stored, contentType: storedType };
+  if (!id.endsWith(THUMBNAIL_SUFFIX)) return null;
+
+  const original = await loadAvatar(id.slice(0, -THUMBNAIL_SUFFIX.length));
+  if (!original) return null;
+  const thumbnail = await createThumbnail(original.data);
+  if (!thumbnail) return original;
+  await store.put(blobKeyFor(id), thumbnail, "image/webp");
+  return { data: thumbnail, contentType: "image/webp" };
+}
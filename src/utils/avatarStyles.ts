@@ -0,0 +1,32 @@
+/**
+ * Named art styles a portrait can be painted in. Without a preset the prompt
+ * model picks a style to suit the character; with one, the portrait is always
+ * rendered that way. Shared by the client and the server.
+ *
+ * @module avatarStyles
+ */
+
+export type AvatarStylePreset = "oil-painting" | "ink-sketch" | "pixel-art" | "watercolor";
+
+export const AVATAR_STYLE_PRESETS: AvatarStylePreset[] = ["oil-painting", "ink-sketch", "pixel-art", "watercolor"];
+
+/** How each preset is described to the image model. */
+export const AVATAR_STYLE_PROMPTS: Record<AvatarStylePreset, string> = {
+  "oil-painting": "classical oil painting with visible brushstrokes and rich, warm tones",
+  "ink-sketch": "black ink sketch with fine cross-hatching on off-white paper",
+  "pixel-art": "16-bit pixel art with a limited palette and crisp pixel edges",
+  watercolor: "soft watercolor painting with loose washes and visible paper texture",
+};
+
+/** Most portraits one request may ask for; each variant is a separate image generation. */
+export const MAX_AVATAR_VARIANTS = 4;
+
+export function isAvatarStylePreset(value: unknown): value is AvatarStylePreset {
+  return typeof value === "string" && (AVATAR_STYLE_PRESETS as string[]).includes(value);
+}
+
+/** The requested number of variants, clamped to 1..MAX_AVATAR_VARIANTS (1 when absent or invalid). */
+export function parseVariantCount(value: unknown): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 1) return 1;
+  return Math.min(value, MAX_AVATAR_VARIANTS);
+}
@@ -0,0 +1,34 @@
+/**
+ * URLs of stored character portraits. Generated portraits are saved once on the
+ * server (see avatarStorage) and served from `/api/avatar/<sha256>`, so a Bot only
+ * keeps the short URL. A small thumbnail of each lives at `/api/avatar/<sha256>-thumb`.
+ * Also holds the limits for portraits users upload themselves (see /api/upload-avatar).
+ * Shared by the client and the server.
+ *
+ * @module avatarUrl
+ */
+
+export const AVATAR_ROUTE = "/api/avatar/";
+
+/** A portrait id as used in the route: its content hash, optionally with the thumbnail suffix. */
+export const AVATAR_ID_PATTERN = /^[a-f0-9]{64}(-thumb)?$/;
+
+/** Formats accepted for uploaded portraits; the server checks the file's bytes, not its name. */
+export const AVATAR_UPLOAD_TYPES = ["image/png", "image/jpeg", "image/webp"];
+
+export const MAX_AVATAR_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+const STORED_AVATAR_URL = /^\/api\/avatar\/([a-f0-9]{64})$/;
+
+export function getAvatarUrl(hash: string): string {
+  return `${AVATAR_ROUTE}${hash}`;
+}
+
+export function isStoredAvatarUrl(url: unknown): url is string {
+  return typeof url === "string" && STORED_AVATAR_URL.test(url);
+}
+
+/** The thumbnail for a stored portrait; other avatars (data URLs, the silhouette) are returned as they are. */
+export function getAvatarThumbnailUrl(avatarUrl: string): string {
+  return isStoredAvatarUrl(avatarUrl) ? `${avatarUrl}-thumb` : avatarUrl;
+}
@@ -0,0 +1,108 @@
+/**
+ * Server-side store for binary files such as character portraits, addressed by
+ * key (e.g. `avatars/<hash>`). Local development writes to tmp/blobs;
+ * deployments with a Blob token use Vercel Blob. Other backends (e.g. S3) can
+ * be plugged in with setBlobStore().
+ *
+ * @module blobStore
+ */
+
+import fs from "fs";
+import path from "path";
+import { BlobNotFoundError, head, put } from "@vercel/blob";
+
+export interface BlobStore {
+  get(key: string): Promise<Buffer | null>;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+}
+
+const BLOB_KEY_PATTERN = /^[a-z0-9_-]+(\/[a-z0-9_-]+)*$/;
+
+export function isValidBlobKey(key: unknown): key is string {
+  return typeof key === "string" && key.length <= 200 && BLOB_KEY_PATTERN.test(key);
+}
+
+/**
+ * Stores each blob as a file named by its key below a local directory.
+ */
+export function createFileBlobStore(dir = path.resolve(process.cwd(), "tmp", "blobs")): BlobStore {
+  const filePathFor = (key: string) => {
+    if (!isValidBlobKey(key)) throw new Error("Invalid blob key");
+    const filePath = path.resolve(dir, key);
+    // Validate that filePath is within dir to prevent path traversal
+    const rel = path.relative(dir, filePath);
+    if (rel.startsWith("..") || path.isAbsolute(rel)) throw new Error("Invalid blob path");
+    return filePath;
+  };
+
+  return {
+    async get(key) {
+      const filePath = filePathFor(key);
+      try {
+        return await fs.promises.readFile(filePath);
+      } catch {
+        return null;
+      }
+    },
+    async put(key, data) {
+      const filePath = filePathFor(key);
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      // Write then rename so readers never see a half-written file
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tmpPath, data);
+      await fs.promises.rename(tmpPath, filePath);
+    },
+  };
+}
+
+/**
+ * Stores each blob under its key in Vercel Blob.
+ */
+export function createVercelBlobStore(token: string): BlobStore {
+  const checkKey = (key: string) => {
+    if (!isValidBlobKey(key)) throw new Error("Invalid blob key");
+    return key;
+  };
+
+  return {
+    async get(key) {
+      try {
+        const blobInfo = await head(checkKey(key), { token });
+        const response = await fetch(blobInfo.downloadUrl || blobInfo.url);
+        return response.ok ? Buffer.from(await response.arrayBuffer()) : null;
+      } catch (error) {
+        if (error instanceof BlobNotFoundError) return null;
+        throw error;
+      }
+    },
+    async put(key, data, contentType) {
+      await put(checkKey(key), data, {
+        access: "public",
+        allowOverwrite: true,
+        addRandomSuffix: false,
+        contentType,
+        token,
+      });
+    },
+  };
+}
+
+let activeStore: BlobStore | null = null;
+
+/**
+ * Returns the configured store: an explicitly registered one, else Vercel Blob
+ * when a Blob token is set, else the local file store.
+ */
+export function getBlobStore(): BlobStore {
+  if (activeStore) return activeStore;
+  const blobToken = process.env.VERCEL_BLOB_READ_WRITE_TOKEN || process.env.BLOB_READ_WRITE_TOKEN;
+  activeStore = blobToken ? createVercelBlobStore(blobToken) : createFileBlobStore();
+  return activeStore;
+}
+
+/**
+ * Registers a custom backend. Pass null to fall back to the default selection.
+ */
+export function setBlobStore(store: BlobStore | null) {
+  activeStore = store;
+}
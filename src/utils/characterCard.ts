@@ -0,0 +1,399 @@
+/**
+ * Character cards: portable files describing a character so it can be saved,
+ * shared and loaded back into the creator without regenerating it.
+ *
+ * Two formats are supported:
+ *  - our own versioned JSON card, which round-trips every `Bot` field;
+ *  - the PNG card format used by community character sites, where a
+ *    "chara_card_v2" JSON document is stored base64-encoded in a `tEXt` chunk
+ *    (keyword "chara") of the character's portrait. Our exported PNGs embed the
+ *    full card under `extensions.character_chatbot_generator`, so nothing is
+ *    lost when they come back.
+ *
+ * Imported cards from other tools (V1, V2 and V3 JSON or PNG) are converted to
+ * a personality prompt; their voice is left empty and picked on first use.
+ *
+ * Runs in the browser: no Node APIs.
+ *
+ * @module characterCard
+ */
+
+import type { Bot } from "../../app/components/BotCreator";
+import type { CharacterVoiceConfig } from "./characterVoices";
+import { parsePersonalityProfile } from "./personalityProfile";
+import { parseLanguage } from "./language";
+import { parseAvatarExpressions, type AvatarExpressions } from "./avatarMoods";
+import { parsePronunciations } from "./voiceHelpers";
+
+export const CHARACTER_CARD_FORMAT = "character-chatbot-generator-card";
+export const CHARACTER_CARD_VERSION = 1;
+/** Key of our card inside the `extensions` of a V2 card. */
+export const CARD_EXTENSION_KEY = "character_chatbot_generator";
+/** Larger files are rejected before parsing. */
+export const MAX_CARD_FILE_BYTES = 8 * 1024 * 1024;
+export const DEFAULT_AVATAR_URL = "/silhouette.svg";
+
+const MAX_NAME_LENGTH = 100;
+const MAX_PERSONALITY_LENGTH = 20000;
+
+export interface CharacterCard {
+  format: typeof CHARACTER_CARD_FORMAT;
+  version: number;
+  exportedAt: string;
+  bot: Bot;
+}
+
+/** The subset of the community "chara_card_v2" data block we read and write. */
+interface CommunityCardData {
+  name?: unknown;
+  description?: unknown;
+  personality?: unknown;
+  scenario?: unknown;
+  first_mes?: unknown;
+  mes_example?: unknown;
+  system_prompt?: unknown;
+  extensions?: Record<string, unknown>;
+}
+
+/** Raised for files that are not a readable character card; the message is shown to the user. */
+export class CharacterCardError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CharacterCardError";
+  }
+}
+
+export function createCharacterCard(bot: Bot, exportedAt = new Date().toISOString()): CharacterCard {
+  return {
+    format: CHARACTER_CARD_FORMAT,
+    version: CHARACTER_CARD_VERSION,
+    exportedAt,
+    bot: {
+      name: bot.name,
+      personality: bot.personality,
+      avatarUrl: bot.avatarUrl,
+      voiceConfig: bot.voiceConfig ?? null,
+      gender: bot.gender ?? null,
+      ...(bot.profile ? { profile: bot.profile } : {}),
+      ...(bot.language ? { language: bot.language } : {}),
+      ...(bot.expressions ? { expressions: bot.expressions } : {}),
+    },
+  };
+}
+
+export function serializeCharacterCard(bot: Bot): string {
+  return JSON.stringify(createCharacterCard(bot), null, 2);
+}
+
+/** File name for an exported card, e.g. `sherlock-holmes.card.json`. */
+export function getCardFileName(botName: string, extension: "json" | "png"): string {
+  const slug = botName.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 50) || "character";
+  return `${slug}.card.${extension}`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function asText(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function parseVoiceConfig(value: unknown): CharacterVoiceConfig | null {
+  if (!isObject(value)) return null;
+  const { languageCodes, name, ssmlGender, pitch, rate, type } = value;
+  const pronunciations = parsePronunciations(value.pronunciations);
+  if (!Array.isArray(languageCodes) || !languageCodes.every((c) => typeof c === "string")) return null;
+  if (typeof name !== "string" || typeof ssmlGender !== "number") return null;
+  return {
+    languageCodes,
+    name,
+    ssmlGender,
+    ...(typeof pitch === "number" ? { pitch } : {}),
+    ...(typeof rate === "number" ? { rate } : {}),
+    ...(typeof type === "string" ? { type } : {}),
+    ...(pronunciations.length > 0 ? { pronunciations } : {}),
+  };
+}
+
+// next/image only serves local paths and data URLs here, so anything else falls back to the silhouette
+function parseAvatarUrl(value: unknown): string {
+  if (typeof value !== "string") return DEFAULT_AVATAR_URL;
+  if (/^data:image\/(png|jpeg|webp|gif|svg\+xml);base64,[A-Za-z0-9+/=]+$/.test(value)) return value;
+  if (/^\/(?!\/)[\w\-./]+$/.test(value) && !value.includes("..")) return value;
+  return DEFAULT_AVATAR_URL;
+}
+
+// Expression portraits follow the same rule, but a mood that would fall back is dropped instead
+function parseExpressions(value: unknown): AvatarExpressions | null {
+  const expressions = parseAvatarExpressions(value);
+  if (!expressions) return null;
+  const kept = Object.fromEntries(Object.entries(expressions).filter(([, url]) => parseAvatarUrl(url) === url));
+  return Object.keys(kept).length > 0 ? kept : null;
+}
+
+function validateBot(name: string, personality: string, rest: Partial<Bot> = {}): Bot {
+  if (!name) throw new CharacterCardError("The character card has no name.");
+  if (!personality) throw new CharacterCardError("The character card has no personality.");
+  const profile = parsePersonalityProfile(rest.profile);
+  const language = parseLanguage(rest.language);
+  const expressions = parseExpressions(rest.expressions);
+  return {
+    name: name.slice(0, MAX_NAME_LENGTH),
+    personality: personality.slice(0, MAX_PERSONALITY_LENGTH),
+    avatarUrl: parseAvatarUrl(rest.avatarUrl),
+    voiceConfig: parseVoiceConfig(rest.voiceConfig),
+    gender: typeof rest.gender === "string" ? rest.gender : null,
+    ...(profile ? { profile } : {}),
+    ...(language ? { language } : {}),
+    ...(expressions ? { expressions } : {}),
+  };
+}
+
+function fromOwnCard(card: Record<string, unknown>): Bot {
+  if (typeof card.version !== "number" || card.version < 1) {
+    throw new CharacterCardError("The character card version is not supported.");
+  }
+  if (card.version > CHARACTER_CARD_VERSION) {
+    throw new CharacterCardError("This character card was made by a newer version of the app.");
+  }
+  if (!isObject(card.bot)) throw new CharacterCardError("The character card is missing its character.");
+  const bot = card.bot as Partial<Bot>;
+  return validateBot(asText(bot.name), asText(bot.personality), bot);
+}
+
+/**
+ * Builds a personality prompt from the fields of a community card, replacing
+ * the `{{char}}` and `{{user}}` placeholders those cards use.
+ */
+function fromCommunityCard(data: CommunityCardData): Bot {
+  const ours = data.extensions?.[CARD_EXTENSION_KEY];
+  if (isObject(ours) && ours.format === CHARACTER_CARD_FORMAT) return fromOwnCard(ours);
+
+  const name = asText(data.name);
+  const fill = (text: string) => text.replace(/\{\{char\}\}/gi, name).replace(/\{\{user\}\}/gi, "the user");
+  const sections = [
+    asText(data.system_prompt),
+    asText(data.description),
+    asText(data.personality) && `Personality: ${asText(data.personality)}`,
+    asText(data.scenario) && `Scenario: ${asText(data.scenario)}`,
+    asText(data.first_mes) && `You usually open a conversation like this:\n${asText(data.first_mes)}`,
+    asText(data.mes_example) && `Example dialogue:\n${asText(data.mes_example)}`,
+  ].filter(Boolean);
+  const personality = sections.length > 0 ? `You are ${name}.\n\n${fill(sections.join("\n\n"))}` : "";
+  return validateBot(name, personality);
+}
+
+/**
+ * Converts a parsed card document (ours, or a community V1/V2/V3 card) to a bot.
+ * @throws {CharacterCardError} When the document is not a usable card.
+ */
+export function parseCharacterCard(data: unknown): Bot {
+  if (!isObject(data)) throw new CharacterCardError("This file is not a character card.");
+  if (data.format === CHARACTER_CARD_FORMAT) return fromOwnCard(data);
+  if (data.spec === "chara_card_v2" || data.spec === "chara_card_v3") {
+    if (!isObject(data.data)) throw new CharacterCardError("The character card is missing its character.");
+    return fromCommunityCard(data.data as CommunityCardData);
+  }
+  // V1 cards are a flat object
+  if (typeof data.name === "string" && ("description" in data || "personality" in data || "first_mes" in data)) {
+    return fromCommunityCard(data as CommunityCardData);
+  }
+  throw new CharacterCardError("This file is not a character card.");
+}
+
+export function parseCharacterCardJson(text: string): Bot {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new CharacterCardError("This file is not valid JSON.");
+  }
+  return parseCharacterCard(data);
+}
+
+// ---------------------------------------------------------------------------
+// PNG cards
+// ---------------------------------------------------------------------------
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const CARD_CHUNK_KEYWORDS = ["chara", "ccv3"];
+
+let crcTable: Uint32Array | null = null;
+
+export function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function isPng(bytes: Uint8Array): boolean {
+  return bytes.length >= PNG_SIGNATURE.length && PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+}
+
+interface PngChunk {
+  type: string;
+  /** Offset of the chunk's length field. */
+  start: number;
+  /** Offset just past the chunk's CRC. */
+  end: number;
+  data: Uint8Array;
+}
+
+function readChunks(bytes: Uint8Array): PngChunk[] {
+  if (!isPng(bytes)) throw new CharacterCardError("This file is not a PNG image.");
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const end = offset + 12 + length;
+    if (end > bytes.length) throw new CharacterCardError("The PNG image is truncated.");
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    chunks.push({ type, start: offset, end, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset = end;
+    if (type === "IEND") break;
+  }
+  return chunks;
+}
+
+const latin1 = (bytes: Uint8Array) => Array.from(bytes, (b) => String.fromCharCode(b)).join("");
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  // Chunked to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+/** Returns the `tEXt` chunks of a PNG as keyword → text (Latin-1). */
+export function readPngTextChunks(bytes: Uint8Array): Record<string, string> {
+  const texts: Record<string, string> = {};
+  for (const chunk of readChunks(bytes)) {
+    if (chunk.type !== "tEXt") continue;
+    const separator = chunk.data.indexOf(0);
+    if (separator <= 0) continue;
+    texts[latin1(chunk.data.subarray(0, separator))] = latin1(chunk.data.subarray(separator + 1));
+  }
+  return texts;
+}
+
+function textChunk(keyword: string, text: string): Uint8Array {
+  const data = Uint8Array.from(`${keyword}\0${text}`, (c) => c.charCodeAt(0));
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set([0x74, 0x45, 0x58, 0x74], 4); // "tEXt"
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+/** A community V2 card that carries our full card in its extensions. */
+export function toCommunityCard(bot: Bot) {
+  const card = createCharacterCard(bot);
+  return {
+    spec: "chara_card_v2",
+    spec_version: "2.0",
+    data: {
+      name: bot.name,
+      description: bot.personality,
+      personality: "",
+      scenario: "",
+      first_mes: "",
+      mes_example: "",
+      creator_notes: "",
+      system_prompt: "",
+      post_history_instructions: "",
+      alternate_greetings: [],
+      tags: [],
+      creator: "",
+      character_version: "",
+      // The portrait is the PNG itself, so it is not repeated in the embedded card
+      extensions: { [CARD_EXTENSION_KEY]: { ...card, bot: { ...card.bot, avatarUrl: DEFAULT_AVATAR_URL } } },
+    },
+  };
+}
+
+/**
+ * Returns a copy of the PNG with the card stored in a "chara" `tEXt` chunk
+ * before IEND, replacing any card the image already carried.
+ */
+export function embedCardInPng(pngBytes: Uint8Array, bot: Bot): Uint8Array {
+  const chunks = readChunks(pngBytes);
+  const iend = chunks.find((c) => c.type === "IEND");
+  if (!iend) throw new CharacterCardError("The PNG image is truncated.");
+  const json = new TextEncoder().encode(JSON.stringify(toCommunityCard(bot)));
+  const card = textChunk("chara", bytesToBase64(json));
+
+  const kept = chunks.filter((c) => {
+    if (c.type !== "tEXt") return true;
+    const keyword = latin1(c.data.subarray(0, Math.max(0, c.data.indexOf(0))));
+    return !CARD_CHUNK_KEYWORDS.includes(keyword);
+  });
+  const parts = [pngBytes.subarray(0, PNG_SIGNATURE.length)];
+  for (const chunk of kept) {
+    if (chunk === iend) parts.push(card);
+    parts.push(pngBytes.subarray(chunk.start, chunk.end));
+  }
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/**
+ * Reads the card embedded in a PNG. The portrait becomes the image itself, as a data URL;
+ * the creator stores it and keeps only its /api/avatar URL (see api_storeCardPortraits).
+ * @throws {CharacterCardError} When the image carries no readable card.
+ */
+export function extractCardFromPng(pngBytes: Uint8Array): Bot {
+  const texts = readPngTextChunks(pngBytes);
+  const encoded = texts.ccv3 ?? texts.chara;
+  if (!encoded) throw new CharacterCardError("This image does not contain a character card.");
+  let data: unknown;
+  try {
+    data = JSON.parse(new TextDecoder().decode(base64ToBytes(encoded)));
+  } catch {
+    throw new CharacterCardError("The character card in this image is corrupt.");
+  }
+  const bot = parseCharacterCard(data);
+  return { ...bot, avatarUrl: `data:image/png;base64,${bytesToBase64(pngBytes)}` };
+}
+
+/**
+ * Decodes a `data:image/png;base64,` URL. Returns null for other URLs.
+ */
+export function pngBytesFromDataUrl(url: string): Uint8Array | null {
+  const match = /^data:image\/png;base64,([A-Za-z0-9+/=]+)$/.exec(url);
+  return match ? base64ToBytes(match[1]) : null;
+}
+
+/**
+ * Reads a card from a user-selected `.json` or `.png` file.
+ * @throws {CharacterCardError} When the file is too large or not a card.
+ */
+export async function readCharacterCardFile(file: File): Promise<Bot> {
+  if (file.size > MAX_CARD_FILE_BYTES) throw new CharacterCardError("The file is too large to be a character card.");
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (isPng(bytes)) return extractCardFromPng(bytes);
+  return parseCharacterCardJson(new TextDecoder().decode(bytes));
+}
@@ -0,0 +1,58 @@
+/**
+ * Free-form description of an original character, written by the user in the
+ * creator's "describe your character" mode. Personality, portrait and voice
+ * generation use it in place of what the model knows about a well-known name.
+ * Shared by the client and the server.
+ *
+ * @module characterDescription
+ */
+
+export interface CharacterDescription {
+  backstory: string;
+  era: string;
+  appearance: string;
+  temperament: string;
+  speakingStyle: string;
+}
+
+export type DescriptionField = keyof CharacterDescription;
+
+export const DESCRIPTION_FIELDS: DescriptionField[] = ["backstory", "era", "appearance", "temperament", "speakingStyle"];
+
+export const MAX_DESCRIPTION_FIELD_LENGTH = 600;
+
+/** Headings used when the description is written into a prompt. */
+const FIELD_HEADINGS: Record<DescriptionField, string> = {
+  backstory: "Backstory",
+  era: "Era",
+  appearance: "Appearance",
+  temperament: "Temperament",
+  speakingStyle: "Speaking style",
+};
+
+export function createEmptyDescription(): CharacterDescription {
+  return { backstory: "", era: "", appearance: "", temperament: "", speakingStyle: "" };
+}
+
+/**
+ * Validates a description from a request or form. Fields are trimmed and
+ * capped. Returns null when the value is not an object or every field is empty.
+ */
+export function parseCharacterDescription(value: unknown): CharacterDescription | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const source = value as Record<string, unknown>;
+  const description = createEmptyDescription();
+  for (const field of DESCRIPTION_FIELDS) {
+    const raw = source[field];
+    if (typeof raw === "string") description[field] = raw.trim().slice(0, MAX_DESCRIPTION_FIELD_LENGTH);
+  }
+  return DESCRIPTION_FIELDS.some((field) => description[field]) ? description : null;
+}
+
+/** One "Heading: text" line per filled-in field, for inclusion in LLM prompts. */
+export function formatCharacterDescription(description: CharacterDescription): string {
+  return DESCRIPTION_FIELDS
+    .filter((field) => description[field])
+    .map((field) => `${FIELD_HEADINGS[field]}: ${description[field]}`)
+    .join("\n");
+}
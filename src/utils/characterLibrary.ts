@@ -0,0 +1,183 @@
+/**
+ * Character library: every bot the user has created or imported, kept in
+ * localStorage so they can switch between characters without regenerating them.
+ *
+ * Each character's chat state stays under the existing per-name keys
+ * (`chatbot-history-*`, `voiceConfig-*`, branches, summary, resume id and its owning session); deleting
+ * a character from the library removes those too. Group histories that include
+ * the character are left alone, since the other characters share them.
+ *
+ * @module characterLibrary
+ */
+
+import type { Bot } from "../../app/components/BotCreator";
+import storage from "./storage";
+import { getAvatarThumbnailUrl } from "./avatarUrl";
+import { getBranchesKey } from "./conversationBranches";
+import { getSummaryKey } from "./contextWindow";
+import { clearVoiceConfig } from "./voiceConfigPersistence";
+import { getConversationIdKey, getConversationSessionKey } from "../../app/components/useConversationSync";
+
+export const LIBRARY_STORAGE_KEY = "chatbot-library";
+const LIBRARY_VERSION = 1;
+
+/**
+ * Portraits are normally short /api/avatar URLs, but characters saved before
+ * avatar storage still carry data URLs of several hundred KB, so past this size
+ * the library keeps only thumbnails for the characters least recently chatted with.
+ */
+export const MAX_LIBRARY_BYTES = 3 * 1024 * 1024;
+/** Side length of gallery thumbnails. */
+export const THUMBNAIL_SIZE = 96;
+
+export interface LibraryEntry {
+  bot: Bot;
+  /** Small portrait for the gallery; the avatar itself when it could not be scaled. */
+  thumbnailUrl: string;
+  createdAt: string;
+  lastChattedAt: string;
+  pinned: boolean;
+}
+
+function isLibraryEntry(value: unknown): value is LibraryEntry {
+  const entry = value as LibraryEntry;
+  return !!entry && typeof entry === "object" &&
+    !!entry.bot && typeof entry.bot.name === "string" && typeof entry.bot.personality === "string" &&
+    typeof entry.bot.avatarUrl === "string" &&
+    typeof entry.thumbnailUrl === "string" &&
+    typeof entry.createdAt === "string" &&
+    typeof entry.lastChattedAt === "string" &&
+    typeof entry.pinned === "boolean";
+}
+
+export function loadLibrary(): LibraryEntry[] {
+  try {
+    const record = storage.getVersionedJSON<unknown>(LIBRARY_STORAGE_KEY);
+    return Array.isArray(record?.payload) ? record.payload.filter(isLibraryEntry) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Pinned characters first, then the most recently chatted with. */
+export function sortLibrary(entries: LibraryEntry[]): LibraryEntry[] {
+  return [...entries].sort((a, b) =>
+    Number(b.pinned) - Number(a.pinned) || b.lastChattedAt.localeCompare(a.lastChattedAt));
+}
+
+/**
+ * Replaces full portraits with thumbnails, least recently chatted first and
+ * pinned characters last, until the library fits in MAX_LIBRARY_BYTES.
+ */
+export function fitLibraryToBudget(entries: LibraryEntry[], maxBytes = MAX_LIBRARY_BYTES): LibraryEntry[] {
+  const fitted = [...entries];
+  const size = () => JSON.stringify(fitted).length;
+  const candidates = sortLibrary(fitted).reverse();
+  for (const entry of candidates) {
+    if (size() <= maxBytes) break;
+    if (entry.bot.avatarUrl === entry.thumbnailUrl) continue;
+    fitted[fitted.indexOf(entry)] = { ...entry, bot: { ...entry.bot, avatarUrl: entry.thumbnailUrl } };
+  }
+  return fitted;
+}
+
+function saveLibrary(entries: LibraryEntry[]) {
+  storage.setVersionedJSON(LIBRARY_STORAGE_KEY, fitLibraryToBudget(sortLibrary(entries)), LIBRARY_VERSION);
+}
+
+/**
+ * Adds a character or refreshes the saved copy, marking it as chatted with now.
+ * Returns the updated library.
+ */
+export function saveCharacter(bot: Bot, thumbnailUrl?: string, now = new Date().toISOString()): LibraryEntry[] {
+  const entries = loadLibrary();
+  const index = entries.findIndex((e) => e.bot.name === bot.name);
+  const existing = index >= 0 ? entries[index] : null;
+  const entry: LibraryEntry = {
+    bot,
+    thumbnailUrl: thumbnailUrl ?? existing?.thumbnailUrl ?? bot.avatarUrl,
+    createdAt: existing?.createdAt ?? now,
+    lastChattedAt: now,
+    pinned: existing?.pinned ?? false,
+  };
+  if (index >= 0) entries[index] = entry;
+  else entries.push(entry);
+  saveLibrary(entries);
+  return loadLibrary();
+}
+
+/** Marks saved characters as chatted with now, e.g. when the user sends them a message. */
+export function touchCharacters(names: string[], now = new Date().toISOString()): LibraryEntry[] {
+  const entries = loadLibrary();
+  if (!entries.some((e) => names.includes(e.bot.name))) return entries;
+  saveLibrary(entries.map((e) => (names.includes(e.bot.name) ? { ...e, lastChattedAt: now } : e)));
+  return loadLibrary();
+}
+
+export function setCharacterPinned(name: string, pinned: boolean): LibraryEntry[] {
+  saveLibrary(loadLibrary().map((e) => (e.bot.name === name ? { ...e, pinned } : e)));
+  return loadLibrary();
+}
+
+/**
+ * Removes a character and the chat state stored under its name.
+ * Returns the updated library.
+ */
+export function deleteCharacter(name: string): LibraryEntry[] {
+  saveLibrary(loadLibrary().filter((e) => e.bot.name !== name));
+  const historyKeys = [
+    `chatbot-history-${name}`,
+    getBranchesKey(name),
+    getSummaryKey(name),
+    getConversationIdKey(name),
+    getConversationSessionKey(name),
+    `lastPlayedAudioHash-${name}`,
+  ];
+  historyKeys.forEach((key) => storage.removeItem(key));
+  clearVoiceConfig(name);
+  try {
+    if (storage.getJSON<Bot>("chatbot-bot")?.name === name) {
+      storage.removeItem("chatbot-bot");
+      storage.removeItem("chatbot-bot-timestamp");
+    }
+  } catch {}
+  return loadLibrary();
+}
+
+/** Case-insensitive match on the name, then on the personality. */
+export function searchLibrary(entries: LibraryEntry[], query: string): LibraryEntry[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return entries;
+  const byName = entries.filter((e) => e.bot.name.toLowerCase().includes(q));
+  const byPersonality = entries.filter((e) => !byName.includes(e) && e.bot.personality.toLowerCase().includes(q));
+  return [...byName, ...byPersonality];
+}
+
+/**
+ * Thumbnail for a gallery card: the server's thumbnail for a stored portrait,
+ * otherwise the portrait scaled down to a JPEG in the browser. Resolves to the
+ * original URL when the image cannot be drawn (e.g. SVG placeholders, tests).
+ */
+export function createThumbnail(avatarUrl: string, size = THUMBNAIL_SIZE): Promise<string> {
+  if (!avatarUrl.startsWith("data:image/") || typeof Image === "undefined") return Promise.resolve(getAvatarThumbnailUrl(avatarUrl));
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.onload = () => {
+      try {
+        const canvas = document.createElement("canvas");
+        canvas.width = size;
+        canvas.height = size;
+        const ctx = canvas.getContext("2d");
+        if (!ctx) return resolve(avatarUrl);
+        // Crop to a centred square before scaling
+        const side = Math.min(img.naturalWidth, img.naturalHeight);
+        ctx.drawImage(img, (img.naturalWidth - side) / 2, (img.naturalHeight - side) / 2, side, side, 0, 0, size, size);
+        resolve(canvas.toDataURL("image/jpeg", 0.8));
+      } catch {
+        resolve(avatarUrl);
+      }
+    };
+    img.onerror = () => resolve(avatarUrl);
+    img.src = avatarUrl;
+  });
+}
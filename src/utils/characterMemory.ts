@@ -0,0 +1,271 @@
+/**
+ * Long-term character memory: durable facts about the user (their name,
+ * preferences, ongoing story threads) that a character keeps across sessions,
+ * after the history has been trimmed or the bot has expired from the browser.
+ *
+ * Facts are extracted from the user's messages by /api/memories and stored per
+ * user and character. /api/chat adds the most relevant ones to the system
+ * prompt. Storage follows conversationStore: local files in development,
+ * Vercel Blob when a Blob token is set, or a custom backend via setMemoryStore().
+ *
+ * @module characterMemory
+ */
+
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { v4 as uuidv4 } from "uuid";
+import { BlobNotFoundError, del, get, put } from "@vercel/blob";
+import type { LlmProvider } from "./llm";
+import { extractJson } from "./parseClaudeJson";
+import logger from "./logger";
+
+export type MemoryCategory = "identity" | "preference" | "story";
+
+export const MEMORY_CATEGORIES: MemoryCategory[] = ["identity", "preference", "story"];
+
+export interface CharacterMemory {
+  id: string;
+  text: string;
+  category: MemoryCategory;
+  createdAt: string;
+  /** Last time the fact was extracted again or changed. */
+  updatedAt: string;
+}
+
+export interface MemoryStore {
+  get(userId: string, characterName: string): Promise<CharacterMemory[]>;
+  /** Replaces the character's memories; an empty list removes them. */
+  save(userId: string, characterName: string, memories: CharacterMemory[]): Promise<void>;
+}
+
+export const MAX_MEMORIES_PER_CHARACTER = 50;
+export const MAX_MEMORY_TEXT_LENGTH = 200;
+/** Memories added to a single chat prompt. */
+export const MAX_PROMPT_MEMORIES = 12;
+const USER_ID_PATTERN = /^[a-zA-Z0-9_-]{8,64}$/;
+const BLOB_PREFIX = "memories/";
+
+export function isValidUserId(id: unknown): id is string {
+  return typeof id === "string" && USER_ID_PATTERN.test(id);
+}
+
+export function isMemoryCategory(value: unknown): value is MemoryCategory {
+  return typeof value === "string" && (MEMORY_CATEGORIES as string[]).includes(value);
+}
+
+export function isValidCharacterName(name: unknown): name is string {
+  return typeof name === "string" && name.trim().length > 0 && name.length <= 100;
+}
+
+// Character names are free text, so documents are keyed by a hash of the name
+function characterKey(characterName: string) {
+  return crypto.createHash("sha256").update(characterName.trim().toLowerCase()).digest("hex").slice(0, 32);
+}
+
+function parseMemories(value: unknown): CharacterMemory[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((m): m is CharacterMemory =>
+    !!m && typeof m === "object" &&
+    typeof m.id === "string" &&
+    typeof m.text === "string" &&
+    isMemoryCategory(m.category) &&
+    typeof m.createdAt === "string" &&
+    typeof m.updatedAt === "string");
+}
+
+/**
+ * Stores each user's memories of a character as `<userId>/<character hash>.json` in a local directory.
+ */
+export function createFileMemoryStore(dir = path.resolve(process.cwd(), "tmp", "memories")): MemoryStore {
+  const filePathFor = (userId: string, characterName: string) => {
+    if (!isValidUserId(userId)) throw new Error("Invalid user id");
+    const filePath = path.resolve(dir, userId, `${characterKey(characterName)}.json`);
+    // Validate that filePath is within dir to prevent path traversal
+    const rel = path.relative(dir, filePath);
+    if (rel.startsWith("..") || path.isAbsolute(rel)) throw new Error("Invalid memory path");
+    return filePath;
+  };
+
+  return {
+    async get(userId, characterName) {
+      const filePath = filePathFor(userId, characterName);
+      if (!fs.existsSync(filePath)) return [];
+      try {
+        return parseMemories(JSON.parse(fs.readFileSync(filePath, "utf8")).memories);
+      } catch {
+        return [];
+      }
+    },
+    async save(userId, characterName, memories) {
+      const filePath = filePathFor(userId, characterName);
+      if (memories.length === 0) {
+        if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+        return;
+      }
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      // Write then rename so readers never see a half-written file
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify({ characterName, memories }), "utf8");
+      fs.renameSync(tmpPath, filePath);
+    },
+  };
+}
+
+/**
+ * Stores each user's memories of a character as `memories/<userId>/<character hash>.json`
+ * in private Vercel Blob storage, so they are only readable with the store token.
+ */
+export function createBlobMemoryStore(token: string): MemoryStore {
+  const pathFor = (userId: string, characterName: string) => {
+    if (!isValidUserId(userId)) throw new Error("Invalid user id");
+    return `${BLOB_PREFIX}${userId}/${characterKey(characterName)}.json`;
+  };
+
+  return {
+    async get(userId, characterName) {
+      try {
+        // Bypass the CDN cache so deletions show up immediately
+        const result = await get(pathFor(userId, characterName), { access: "private", token, useCache: false });
+        if (!result || result.statusCode !== 200) return [];
+        return parseMemories((await new Response(result.stream).json()).memories);
+      } catch (error) {
+        if (error instanceof BlobNotFoundError) return [];
+        throw error;
+      }
+    },
+    async save(userId, characterName, memories) {
+      const blobPath = pathFor(userId, characterName);
+      if (memories.length === 0) {
+        await del(blobPath, { token });
+        return;
+      }
+      await put(blobPath, JSON.stringify({ characterName, memories }), {
+        access: "private",
+        allowOverwrite: true,
+        addRandomSuffix: false,
+        contentType: "application/json",
+        token,
+      });
+    },
+  };
+}
+
+let activeStore: MemoryStore | null = null;
+
+/**
+ * Returns the configured store: an explicitly registered one, else Vercel Blob
+ * when a Blob token is set, else the local file store.
+ */
+export function getMemoryStore(): MemoryStore {
+  if (activeStore) return activeStore;
+  const blobToken = process.env.VERCEL_BLOB_READ_WRITE_TOKEN || process.env.BLOB_READ_WRITE_TOKEN;
+  activeStore = blobToken ? createBlobMemoryStore(blobToken) : createFileMemoryStore();
+  return activeStore;
+}
+
+/**
+ * Registers a custom backend (e.g. KV). Pass null to fall back to the default selection.
+ */
+export function setMemoryStore(store: MemoryStore | null) {
+  activeStore = store;
+}
+
+const normalizeFact = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, "").replace(/\s+/g, " ").trim();
+
+/**
+ * Adds newly extracted facts to a character's memories. A fact that is already
+ * known is refreshed instead of duplicated. When over the limit, the facts
+ * least recently seen are dropped.
+ */
+export function mergeMemories(
+  existing: CharacterMemory[],
+  extracted: Array<Pick<CharacterMemory, "text" | "category">>,
+  now = new Date().toISOString(),
+): CharacterMemory[] {
+  const merged = [...existing];
+  for (const fact of extracted) {
+    const text = fact.text.trim().slice(0, MAX_MEMORY_TEXT_LENGTH);
+    if (!text) continue;
+    const index = merged.findIndex((m) => normalizeFact(m.text) === normalizeFact(text));
+    if (index >= 0) {
+      merged[index] = { ...merged[index], category: fact.category, updatedAt: now };
+    } else {
+      merged.push({ id: uuidv4(), text, category: fact.category, createdAt: now, updatedAt: now });
+    }
+  }
+  return merged
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .slice(0, MAX_MEMORIES_PER_CHARACTER);
+}
+
+const wordsOf = (text: string) => new Set(normalizeFact(text).split(" ").filter((w) => w.length > 2));
+
+/**
+ * Picks the memories worth adding to a prompt: identity facts always, then the
+ * facts sharing the most words with the current conversation, newest first on ties.
+ */
+export function selectRelevantMemories(
+  memories: CharacterMemory[],
+  context: string,
+  limit = MAX_PROMPT_MEMORIES,
+): CharacterMemory[] {
+  const contextWords = wordsOf(context);
+  const score = (m: CharacterMemory) =>
+    (m.category === "identity" ? 1000 : 0) + [...wordsOf(m.text)].filter((w) => contextWords.has(w)).length;
+  return [...memories]
+    .sort((a, b) => score(b) - score(a) || b.updatedAt.localeCompare(a.updatedAt))
+    .slice(0, limit);
+}
+
+/** System prompt section listing what the character remembers about the user. */
+export function buildMemoryInstructions(memories: CharacterMemory[]): string {
+  if (memories.length === 0) return "";
+  return `
+
+WHAT YOU REMEMBER ABOUT THE USER FROM EARLIER CONVERSATIONS:
+${memories.map((m) => `- ${m.text}`).join("\n")}
+Use these naturally when relevant; do not list them back or mention that you were told to remember them.`;
+}
+
+/**
+ * Asks the simple model tier for durable facts about the user in recent conversation
+ * lines ("User: ..." / "Bot: ..." / "[Name]: ..."). Returns an empty list on failure.
+ */
+export async function extractMemories(
+  provider: LlmProvider,
+  entries: string[],
+  characterName: string,
+  known: CharacterMemory[] = [],
+): Promise<Array<Pick<CharacterMemory, "text" | "category">>> {
+  try {
+    const transcript = entries
+      .map((entry) => entry.replace(/^Bot: /, `${characterName}: `).replace(/^\[([^\]]+)\]: /, "$1: "))
+      .join("\n");
+    const knownFacts = known.length > 0 ? `Already known:\n${known.map((m) => `- ${m.text}`).join("\n")}\n\n` : "";
+
+    const response = await provider.complete({
+      tier: "text-simple",
+      system: `You extract long-term memories about the user from a roleplay chat with ${characterName}.
+Only record durable facts stated by the user: their name and personal details (identity), their likes, dislikes and wishes (preference), and ongoing plot threads or promises in the story (story).
+Ignore small talk, facts about ${characterName}, and anything already known unless it changed.
+Write each fact as a short third-person sentence about "the user".
+
+Return ONLY valid JSON with this exact schema:
+{ "memories": [{ "text": "The user's name is Sam.", "category": "identity" | "preference" | "story" }] }`,
+      messages: [{ role: "user", content: `${knownFacts}Conversation:\n${transcript}` }],
+      maxTokens: 300,
+      temperature: 0,
+    });
+
+    const parsed = JSON.parse(extractJson(response.text)) as { memories?: unknown };
+    if (!Array.isArray(parsed.memories)) return [];
+    return parsed.memories
+      .filter((m): m is { text: string; category: MemoryCategory } =>
+        !!m && typeof m.text === "string" && m.text.trim().length > 0 && isMemoryCategory(m.category))
+      .map((m) => ({ text: m.text.trim().slice(0, MAX_MEMORY_TEXT_LENGTH), category: m.category }));
+  } catch (error) {
+    logger.error("Failed to extract memories:", { error });
+    return [];
+  }
+}
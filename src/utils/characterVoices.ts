@@ -1,5 +1,8 @@
 import logger, { sanitizeLogMeta } from "./logger";
 import { extractJson } from "./parseClaudeJson";
+import { formatCharacterDescription, type CharacterDescription } from "./characterDescription";
+import { clampPitch, clampRate, parsePronunciations } from "./voiceHelpers";
+import { DEFAULT_LANGUAGE, getLanguage, isVoiceInLanguage, type LanguageCode } from "./language";
 
 /**
  * Character voice configuration using Claude structured output → Google TTS pipeline.
@@ -8,6 +11,17 @@ import { extractJson } from "./parseClaudeJson";
  * @module characterVoices
  */
 
+/**
+ * How TTS should say a word: an IPA (or X-SAMPA) transcription for `<phoneme>`,
+ * or a sound-alike spelling for `<sub>`.
+ */
+export interface Pronunciation {
+  text: string;
+  phoneme?: string;
+  alphabet?: "ipa" | "x-sampa";
+  alias?: string;
+}
+
 /**
  * Interface for Google TTS voice configuration.
  */
@@ -18,6 +32,8 @@ export interface CharacterVoiceConfig {
   pitch?: number;
   rate?: number;
   type?: string;
+  /** Words this voice should say differently, applied when SSML is built. */
+  pronunciations?: Pronunciation[];
 }
 
 /**
@@ -63,50 +79,29 @@ export interface VoiceConfig {
   voiceName: string; // Google TTS voice name (e.g., 'en-GB-Wavenet-D')
   pitch: number; // Pitch adjustment in semitones (-20 to +20)
   rate: number; // Speech rate multiplier (0.25 to 4.0, where 1.0 is normal)
-}
-
-/**
- * Validates a voice name by attempting to use it with Google TTS.
- * Returns true if valid, false if invalid.
- */
-async function isValidGoogleTTSVoice(voiceName: string, languageCode: string): Promise<boolean> {
-  try {
-    const { getTTSClient } = await import('./tts');
-
-    const client = getTTSClient();
-
-    // Attempt test synthesis to validate voice is available and functional
-    const [response] = await client.synthesizeSpeech({
-      input: { text: 'test' },
-      voice: {
-        languageCode,
-        name: voiceName,
-      },
-      audioConfig: {
-        audioEncoding: 'MP3' as const,
-      },
-    });
-
-    // Audio content returned; voice is valid and usable
-    return !!response.audioContent;
-  } catch (err) {
-    const errMsg = err instanceof Error ? err.message : String(err);
-    // Voice not found or synthesis failed
-    logger.info("Voice validation failed", sanitizeLogMeta({
-      voiceName,
-      error: errMsg.substring(0, 100)
-    }));
-    return false;
-  }
+  namePronunciation?: string; // IPA for the character's name, when TTS is likely to misread it
 }
 
 /**
  * Fetches complete voice configuration from Claude with retry logic.
- * If Claude returns an invalid voice name, it will retry with error feedback.
+ * Claude's voice is checked against the voice catalogue (see voiceCatalog.ts):
+ * an unknown voice in a known locale is swapped for the closest catalogue voice,
+ * and an unknown locale is sent back to Claude with the locales that exist.
+ * An original character's description (era, temperament, speaking style) guides the casting.
+ * With a conversation language other than English, a voice in another language is
+ * swapped for the closest one in that language's locale.
  */
-export async function fetchVoiceConfigFromClaude(name: string, maxRetries = 3): Promise<VoiceConfig> {
-  const { getClaudeModel } = await import('./claudeModelSelector');
-  const { default: anthropic } = await import('./anthropicClient');
+export async function fetchVoiceConfigFromClaude(
+  name: string,
+  maxRetries = 3,
+  description?: CharacterDescription | null,
+  language?: LanguageCode | null
+): Promise<VoiceConfig> {
+  const { getLlmProvider } = await import('./llm');
+  const { getCastingVoices, findVoice, listLocales, suggestVoice } = await import('./voiceCatalog');
+  const provider = getLlmProvider();
+  const catalogue = await getCastingVoices();
+  const locales = listLocales(catalogue);
 
   const systemPrompt = `You are a voice casting expert for Google Text-to-Speech.
 
@@ -116,81 +111,123 @@ Return ONLY valid JSON with this exact schema:
   "languageCode": "<locale>",  // BCP-47 locale code (e.g., 'en-GB', 'en-US', 'de-DE', 'fr-FR', 'ja-JP')
   "voiceName": "<voice>",      // Full Google TTS voice name (e.g., 'en-GB-Wavenet-D')
   "pitch": <number>,            // Pitch adjustment (-20 to +20 semitones; 0 = normal)
-  "rate": <number>              // Speech rate multiplier (0.25 to 4.0; 1.0 = normal)
+  "rate": <number>,             // Speech rate multiplier (0.25 to 4.0; 1.0 = normal)
+  "namePronunciation": "<IPA>"  // Optional: IPA for the character's name in the voice's language, only if TTS is likely to mispronounce it
 }
 
 Voice naming pattern: <locale>-<type>-<letter>
 Types: Wavenet, Neural2, Studio (US only), Standard
 Examples: en-US-Wavenet-D, en-GB-Wavenet-A, de-DE-Wavenet-B, ja-JP-Wavenet-C
 
-CRITICAL: You MUST provide a valid Google TTS voice name. If you receive error feedback about an invalid voice, try a different variant.`;
+CRITICAL: You MUST provide a valid Google TTS voice name.${locales.length > 0 ? `
+Available locales: ${locales.join(', ')}` : ''}`;
 
+  const spokenLanguage = language && language !== DEFAULT_LANGUAGE ? getLanguage(language) : null;
+  const languageNote = spokenLanguage
+    ? `\nThe character speaks ${spokenLanguage.name} in this conversation. Choose a ${spokenLanguage.name} voice (e.g. locale ${spokenLanguage.voiceLocale}).`
+    : '';
   const messages: Array<{ role: 'user' | 'assistant'; content: string }> = [
-    { role: "user", content: `Character: "${name}"\nProvide Google TTS voice configuration as JSON.` }
+    {
+      role: "user",
+      content: description
+        ? `Character: "${name}" (an original character)\nDescription:\n${formatCharacterDescription(description)}${languageNote}\nProvide Google TTS voice configuration as JSON.`
+        : `Character: "${name}"${languageNote}\nProvide Google TTS voice configuration as JSON.`
+    }
   ];
 
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
-      const response = await anthropic.messages.create({
-        model: getClaudeModel("text-simple"),
+      const response = await provider.complete({
+        tier: "text-simple",
         system: systemPrompt,
         messages,
-        max_tokens: 150,
+        maxTokens: 200,
         temperature: 0.3,
       });
 
-      const content = extractJson(response.content[0]?.type === "text" ? response.content[0].text : '{}');
+      const content = extractJson(response.text || '{}');
       const config = JSON.parse(content) as VoiceConfig;
 
-      // Perform basic schema validation before API call
-      const voiceNamePattern = /^[a-z]{2}-[A-Z]{2}-(Wavenet|Neural2|Studio|Standard|Journey|News|Polyglot)-[A-Z]$/;
-      if (!config.voiceName || !voiceNamePattern.test(config.voiceName)) {
+      if (!config.voiceName) {
         if (attempt < maxRetries) {
-          logger.warn(`Voice name format invalid on attempt ${attempt}, retrying`, sanitizeLogMeta({
-            attempt,
-            providedVoice: config.voiceName
-          }));
+          logger.warn(`Voice name missing on attempt ${attempt}, retrying`, sanitizeLogMeta({ attempt }));
           messages.push(
             { role: "assistant", content },
-            { role: "user", content: `ERROR: Voice name "${config.voiceName}" is malformed. Use format: <locale>-<type>-<letter> (e.g., en-US-Wavenet-D). Try again with a valid voice.` }
+            { role: "user", content: `ERROR: "voiceName" is missing. Use format: <locale>-<type>-<letter> (e.g., en-US-Wavenet-D). Try again with a valid voice.` }
           );
           continue;
         }
-        throw new Error(`Invalid voice name format after ${maxRetries} attempts`);
+        throw new Error(`No voice name returned after ${maxRetries} attempts`);
       }
 
-      // Validate using actual Google TTS API (true validation)
-      const isValid = await isValidGoogleTTSVoice(config.voiceName, config.languageCode || 'en-US');
-
-      if (!isValid) {
-        if (attempt < maxRetries) {
-          logger.warn(`Voice validation failed on attempt ${attempt}, asking Claude to try another`, sanitizeLogMeta({
+      // Check the voice against the catalogue instead of test-synthesizing it
+      if (catalogue.length > 0 && !findVoice(catalogue, config.voiceName)) {
+        const languageCode = config.languageCode || config.voiceName.split('-').slice(0, 2).join('-');
+        const substitute = suggestVoice(catalogue, {
+          languageCode,
+          ssmlGender: config.gender === 'neutral' ? undefined : mapGenderToSsml(config.gender),
+          name: config.voiceName,
+        });
+        if (substitute) {
+          logger.info("Voice not in catalogue; using the closest match", sanitizeLogMeta({
+            attempt,
+            requestedVoice: config.voiceName,
+            voiceName: substitute.name
+          }));
+          config.voiceName = substitute.name;
+          config.languageCode = substitute.languageCodes[0] ?? languageCode;
+        } else if (attempt < maxRetries) {
+          logger.warn(`Voice locale unavailable on attempt ${attempt}, asking Claude to try another`, sanitizeLogMeta({
             attempt,
             voiceName: config.voiceName,
-            languageCode: config.languageCode
+            languageCode
           }));
           messages.push(
             { role: "assistant", content },
-            { role: "user", content: `ERROR: Voice "${config.voiceName}" does not exist in Google TTS. Try a different voice variant (different letter: A, B, C, D, etc.) or type (Wavenet, Neural2, Standard).` }
+            { role: "user", content: `ERROR: Google TTS has no voices for locale "${languageCode}". Choose a voice in one of these locales: ${locales.join(', ')}.` }
           );
           continue;
+        } else {
+          throw new Error(`No valid voice found after ${maxRetries} attempts`);
+        }
+      }
+
+      // A character chatting in German should not speak with an English voice
+      if (spokenLanguage && !isVoiceInLanguage(config.languageCode || config.voiceName, spokenLanguage.code)) {
+        const substitute = suggestVoice(catalogue, {
+          languageCode: spokenLanguage.voiceLocale,
+          ssmlGender: config.gender === 'neutral' ? undefined : mapGenderToSsml(config.gender),
+          name: config.voiceName,
+        });
+        if (substitute) {
+          logger.info("Voice does not match the conversation language; using the closest match", sanitizeLogMeta({
+            attempt,
+            requestedVoice: config.voiceName,
+            voiceName: substitute.name,
+            language: spokenLanguage.code
+          }));
+          config.voiceName = substitute.name;
+          config.languageCode = substitute.languageCodes[0] ?? spokenLanguage.voiceLocale;
         }
-        throw new Error(`No valid voice found after ${maxRetries} attempts`);
       }
 
-      // Voice validation succeeded; configuration is ready
+      // Voice is in the catalogue; configuration is ready
       logger.info("Valid voice configuration from Claude", sanitizeLogMeta({
         attempt,
         voiceName: config.voiceName,
         languageCode: config.languageCode
       }));
 
+      // IPA often comes wrapped in /slashes/ or [brackets], which <phoneme> does not accept
+      const ipa = typeof config.namePronunciation === 'string' ? config.namePronunciation.trim().replace(/^[/[]|[/\]]$/g, '') : undefined;
+      const [namePronunciation] = parsePronunciations([{ text: name, phoneme: ipa }]);
       return {
         gender: config.gender || 'male',
         languageCode: config.languageCode || 'en-US',
         voiceName: config.voiceName,
-        pitch: typeof config.pitch === 'number' ? Math.max(-20, Math.min(20, config.pitch)) : 0,
-        rate: typeof config.rate === 'number' ? Math.max(0.25, Math.min(4.0, config.rate)) : 1.0,
+        pitch: clampPitch(config.pitch),
+        rate: clampRate(config.rate),
+        ...(namePronunciation ? { namePronunciation: namePronunciation.phoneme } : {}),
       };
     } catch (err) {
       if (attempt === maxRetries) {
@@ -211,21 +248,48 @@ export function normalizeClaudeConfig(config: Partial<VoiceConfig>) {
     gender: config.gender || 'male',
     languageCode: config.languageCode || 'en-US',
     voiceName: config.voiceName || '',
-    pitch: typeof config.pitch === 'number' ? Math.max(-20, Math.min(20, config.pitch)) : 0,
-    rate: typeof config.rate === 'number' ? Math.max(0.25, Math.min(4.0, config.rate)) : 1.0,
+    pitch: clampPitch(config.pitch),
+    rate: clampRate(config.rate),
+  };
+}
+
+/**
+ * Fallback voice when casting fails: the Default voice, or for another conversation
+ * language the first bundled voice of that language's locale in the wanted gender.
+ */
+async function getFallbackVoice(language: LanguageCode | null | undefined, genderOverride?: string | null): Promise<CharacterVoiceConfig> {
+  if (!language || language === DEFAULT_LANGUAGE) return CHARACTER_VOICE_MAP['Default'];
+  const { suggestVoice } = await import('./voiceCatalog');
+  const { GOOGLE_VOICE_SNAPSHOT } = await import('../data/googleVoices');
+  const { voiceLocale } = getLanguage(language);
+  const voice = suggestVoice(GOOGLE_VOICE_SNAPSHOT, { languageCode: voiceLocale, ssmlGender: mapGenderToSsml(genderOverride) });
+  if (!voice) return CHARACTER_VOICE_MAP['Default'];
+  return {
+    languageCodes: voice.languageCodes,
+    name: voice.name,
+    ssmlGender: voice.ssmlGender,
+    pitch: 0,
+    rate: 1.0,
+    type: detectVoiceType(voice.name),
   };
 }
 
 /**
  * Gets voice configuration for a character:
  * Uses Claude to get exact Google TTS parameters, then passes them directly.
+ * A conversation language keeps the voice in that language.
  */
 export async function getVoiceConfigForCharacter(
   name: string,
-  genderOverride?: string | null
+  genderOverride?: string | null,
+  description?: CharacterDescription | null,
+  language?: LanguageCode | null
 ): Promise<CharacterVoiceConfig> {
   const normalized = normalizeCharacterName(name);
-  const cacheKey = genderOverride ? `${normalized}_${genderOverride}` : normalized;
+  const genderKey = genderOverride ? `${normalized}_${genderOverride}` : normalized;
+  const baseKey = language && language !== DEFAULT_LANGUAGE ? `${genderKey}_${language}` : genderKey;
+  // Two original characters can share a name, so their descriptions are part of the key
+  const cacheKey = description ? `${baseKey}_${formatCharacterDescription(description)}` : baseKey;
 
   // Check if voice config is already cached
   if (dynamicVoiceCache[cacheKey]) {
@@ -236,7 +300,7 @@ export async function getVoiceConfigForCharacter(
 
   try {
     // Fetch voice configuration from Claude API
-    const voiceConfig = await fetchVoiceConfigFromClaude(normalized);
+    const voiceConfig = await fetchVoiceConfigFromClaude(normalized, undefined, description, language);
 
     // Map gender string to SSML gender enum (apply override if provided)
     const effectiveGender = genderOverride || voiceConfig.gender;
@@ -250,6 +314,9 @@ export async function getVoiceConfigForCharacter(
       pitch: voiceConfig.pitch,
       rate: voiceConfig.rate,
       type: detectVoiceType(voiceConfig.voiceName),
+      ...(voiceConfig.namePronunciation
+        ? { pronunciations: [{ text: normalized, phoneme: voiceConfig.namePronunciation, alphabet: "ipa" as const }] }
+        : {}),
     };
 
     logger.info("Voice config from Claude", sanitizeLogMeta({
@@ -268,7 +335,7 @@ export async function getVoiceConfigForCharacter(
       error: err instanceof Error ? err.message : String(err)
     }));
 
-    config = CHARACTER_VOICE_MAP['Default'];
+    config = await getFallbackVoice(language, genderOverride);
   }
 
   // Cache the configuration and return
@@ -0,0 +1,90 @@
+/**
+ * Reads /api/chat responses in streaming mode.
+ *
+ * With `stream: true` the route answers with server-sent events: `{chunk}`
+ * events while the reply is generated, `{audio}` events with one speech clip
+ * per sentence, then one `{done: true}` event carrying the final reply and
+ * metadata (or an `error`). Plain JSON responses
+ * are still accepted, so callers can always request a stream.
+ * Tone and mood tags in streamed chunks (see voiceHelpers and avatarMoods) are
+ * hidden from the text.
+ *
+ * @module chatStream
+ */
+
+import { stripToneTags } from "./voiceHelpers";
+import { stripMoodTags } from "./avatarMoods";
+
+export interface ChatStreamEvent {
+  chunk?: string;
+  /** /api/audio URL of the next sentence clip. */
+  audio?: string;
+  error?: string;
+  done?: boolean;
+  [key: string]: unknown;
+}
+
+/**
+ * Splits buffered event-stream text into complete events. Returns the parsed
+ * events and the trailing text that does not yet end with a blank line.
+ * Lines other than `data:` and malformed payloads are skipped.
+ */
+export function parseSseEvents(buffer: string): { events: ChatStreamEvent[]; rest: string } {
+  const blocks = buffer.replace(/\r\n/g, "\n").split("\n\n");
+  const rest = blocks.pop() ?? "";
+  const events: ChatStreamEvent[] = [];
+  for (const block of blocks) {
+    const data = block
+      .split("\n")
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).trimStart())
+      .join("\n");
+    if (!data) continue;
+    try {
+      const event = JSON.parse(data);
+      if (event && typeof event === "object") events.push(event);
+    } catch {
+      // Ignore partial or non-JSON payloads
+    }
+  }
+  return { events, rest };
+}
+
+/**
+ * Resolves to the final chat response. For event streams, `onText` receives the
+ * reply generated so far after every chunk and `onAudio` each sentence clip, in
+ * speaking order. Rejects when the stream reports an
+ * error or ends before its final event.
+ */
+export async function readChatResponse(
+  res: Response,
+  onText: (text: string) => void,
+  onAudio?: (audioFileUrl: string) => void,
+): Promise<Record<string, unknown>> {
+  const contentType = res.headers?.get?.("content-type") ?? "";
+  if (!contentType.includes("text/event-stream") || !res.body) {
+    return res.json();
+  }
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let text = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    buffer += value ? decoder.decode(value, { stream: !done }) : "";
+    // Flush a final event that arrived without its trailing blank line
+    const parsed = parseSseEvents(done ? `${buffer}\n\n` : buffer);
+    buffer = parsed.rest;
+    for (const event of parsed.events) {
+      if (event.error) throw new Error(String(event.error));
+      if (event.done) return event;
+      if (typeof event.audio === "string" && event.audio) onAudio?.(event.audio);
+      if (typeof event.chunk === "string" && event.chunk) {
+        text += event.chunk;
+        // Hold back a tag that is still arriving, e.g. "[whisp" or "[mood:ha"
+        onText(stripMoodTags(stripToneTags(text)).replace(/\[[a-z]*(:[a-z]*)?$/i, ""));
+      }
+    }
+    if (done) throw new Error("Chat stream ended before the reply was complete");
+  }
+}
@@ -1,5 +1,9 @@
 /**
- * Model selection utility for Claude API and Google Gemini image calls.
+ * Model routing for LLM and Google Gemini image calls.
+ *
+ * Text tiers are provider-neutral: `getModel(tier)` returns the model id for the
+ * provider selected by `LLM_PROVIDER` (see src/utils/llm). `getClaudeModel`
+ * keeps the Anthropic ids and the image tier.
  *
  * Three tiers:
  *  "text"        — Quality-sensitive tasks (chat, personality generation).
@@ -37,3 +41,32 @@ export function getClaudeModel(type: "text" | "text-simple" | "image"): string |
 
     throw new Error(`Unknown model type: ${type}`);
 }
+
+/** Text tiers used by every LLM provider. */
+export type ModelTier = "text" | "text-simple";
+
+export type LlmProviderName = "anthropic" | "openai-compatible" | "fake";
+
+export const LLM_PROVIDERS: LlmProviderName[] = ["anthropic", "openai-compatible", "fake"];
+
+/** Provider selected by `LLM_PROVIDER`; Anthropic when unset or unknown. */
+export function getLlmProviderName(): LlmProviderName {
+    const configured = process.env.LLM_PROVIDER?.trim().toLowerCase();
+    return (LLM_PROVIDERS as string[]).includes(configured ?? "") ? (configured as LlmProviderName) : "anthropic";
+}
+
+/**
+ * Returns the model id for a text tier on the given provider.
+ * OpenAI-compatible servers read `LLM_MODEL_TEXT` / `LLM_MODEL_TEXT_SIMPLE`, falling back to `LLM_MODEL`
+ * (llama.cpp ignores the name; Ollama needs the name of a pulled model).
+ */
+export function getModel(tier: ModelTier, provider: LlmProviderName = getLlmProviderName()): string {
+    if (provider === "openai-compatible") {
+        const tierModel = tier === "text" ? process.env.LLM_MODEL_TEXT : process.env.LLM_MODEL_TEXT_SIMPLE;
+        return tierModel || process.env.LLM_MODEL || "local-model";
+    }
+    if (provider === "fake") {
+        return `fake-${tier}`;
+    }
+    return tier === "text" ? getClaudeModel("text") : getClaudeModel("text-simple");
+}
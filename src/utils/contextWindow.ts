@@ -0,0 +1,158 @@
+/**
+ * Token-budget context management for chat requests.
+ *
+ * The client sends the turns that are not yet covered by the conversation's
+ * rolling summary. When those turns exceed the history budget for the chat
+ * model, /api/chat folds the oldest of them into the summary and reports how
+ * many it folded, so the next request starts from the updated summary instead
+ * of re-summarizing the whole conversation.
+ *
+ * Token counts are estimates (about four characters per token), which is
+ * close enough for budgeting without a tokenizer round-trip.
+ *
+ * @module contextWindow
+ */
+
+import storage from "./storage";
+import { getModel, type ModelTier } from "./claudeModelSelector";
+
+export interface ContextBudget {
+  /** Tokens of verbatim history sent to the model with each request. */
+  historyTokens: number;
+  /** Share of `historyTokens` kept verbatim after folding older turns into the summary. */
+  retainRatio: number;
+  /** Cap on any single history entry, so one long message cannot crowd out the rest. */
+  maxEntryTokens: number;
+  /** max_tokens for the rolling summary. */
+  summaryTokens: number;
+}
+
+/** Summary of the turns before `throughMessageId`, carried between requests by the client. */
+export interface RollingSummary {
+  text: string;
+  throughMessageId: string;
+}
+
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_TOKEN_OVERHEAD = 4;
+
+/** Upper bound on history the client sends when there is no usable summary yet. */
+export const MAX_REQUEST_HISTORY_TOKENS = 32000;
+/** Longest rolling summary accepted from a client. */
+export const MAX_SUMMARY_CHARS = 4000;
+
+const DEFAULT_CONTEXT_BUDGET: ContextBudget = {
+  historyTokens: 4000,
+  retainRatio: 0.5,
+  maxEntryTokens: 1000,
+  summaryTokens: 300,
+};
+
+// Budgets by model id; models not listed use the default
+const MODEL_CONTEXT_BUDGETS: Record<string, Partial<ContextBudget>> = {
+  "claude-sonnet-4-6": { historyTokens: 8000, maxEntryTokens: 2000, summaryTokens: 400 },
+  "claude-haiku-4-5-20251001": { historyTokens: 4000 },
+};
+
+/** Rough token count for a piece of text. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/** Estimated tokens for one history entry, including per-message overhead. */
+export function estimateEntryTokens(entry: string): number {
+  return estimateTokens(entry) + MESSAGE_TOKEN_OVERHEAD;
+}
+
+/**
+ * Returns the history budget for the model used by a tier. `CHAT_HISTORY_TOKEN_BUDGET`
+ * overrides the history size for every model.
+ */
+export function getContextBudget(tier: ModelTier = "text"): ContextBudget {
+  const model = getModel(tier);
+  const budget = { ...DEFAULT_CONTEXT_BUDGET, ...MODEL_CONTEXT_BUDGETS[model] };
+  const override = Number(process.env.CHAT_HISTORY_TOKEN_BUDGET);
+  if (Number.isFinite(override) && override > 0) {
+    budget.historyTokens = Math.floor(override);
+  }
+  return budget;
+}
+
+/** Shortens text to roughly `maxTokens`, marking the cut. */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  return text.length <= maxChars ? text : `${text.slice(0, Math.max(0, maxChars - 1)).trimEnd()}…`;
+}
+
+/**
+ * Splits history into turns to fold into the summary and turns to send verbatim.
+ * Nothing is folded while the history fits the budget; once it does not, only the
+ * newest `retainRatio` of the budget is kept so summaries happen every few turns
+ * rather than on every request. The newest entry is always kept.
+ */
+export function splitHistoryByBudget(
+  history: string[],
+  budget: ContextBudget,
+): { older: string[]; recent: string[] } {
+  const entries = history.map((entry) => truncateToTokens(entry, budget.maxEntryTokens));
+  const total = entries.reduce((sum, entry) => sum + estimateEntryTokens(entry), 0);
+  if (total <= budget.historyTokens) return { older: [], recent: entries };
+
+  const target = budget.historyTokens * budget.retainRatio;
+  let used = 0;
+  let start = entries.length;
+  while (start > 0) {
+    const cost = estimateEntryTokens(entries[start - 1]);
+    if (start < entries.length && used + cost > target) break;
+    used += cost;
+    start--;
+  }
+  return { older: entries.slice(0, start), recent: entries.slice(start) };
+}
+
+/**
+ * Picks the messages a client should send: those after the rolling summary (when the
+ * summarized message is still on the active path), newest first up to `maxTokens`.
+ */
+export function selectUnsummarized<T extends { id: string; text: string }>(
+  messages: T[],
+  summary: RollingSummary | null,
+  maxTokens = MAX_REQUEST_HISTORY_TOKENS,
+): { messages: T[]; summary: RollingSummary | null } {
+  const coveredIndex = summary ? messages.findIndex((m) => m.id === summary.throughMessageId) : -1;
+  const activeSummary = coveredIndex === -1 ? null : summary;
+  const pending = messages.slice(coveredIndex + 1);
+  let used = 0;
+  let start = pending.length;
+  while (start > 0) {
+    used += estimateEntryTokens(pending[start - 1].text);
+    if (used > maxTokens && start < pending.length) break;
+    start--;
+  }
+  return { messages: pending.slice(start), summary: activeSummary };
+}
+
+/** Storage key for the rolling summary of a bot or group history. */
+export function getSummaryKey(conversationKey: string) {
+  return `chatbot-summary-${conversationKey}`;
+}
+
+export function loadRollingSummary(key: string): RollingSummary | null {
+  try {
+    const stored = storage.getJSON<Partial<RollingSummary>>(key);
+    if (stored && typeof stored.text === "string" && typeof stored.throughMessageId === "string") {
+      return { text: stored.text, throughMessageId: stored.throughMessageId };
+    }
+  } catch {
+    // Unreadable summary: the next request re-sends the history and rebuilds it
+  }
+  return null;
+}
+
+export function saveRollingSummary(key: string, summary: RollingSummary | null) {
+  if (summary) {
+    storage.setJSON(key, summary);
+  } else {
+    storage.removeItem(key);
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Branch tree for chat histories. Regenerated replies and edited user messages
+ * are stored as siblings of the message they replace, so earlier versions are
+ * kept and the user can flip between them. The visible conversation is always
+ * the active path: from the root, follow each node's selected child.
+ *
+ * @module conversationBranches
+ */
+
+import storage from "./storage";
+import { normalizeMessage } from "./messages";
+import type { Message } from "../types/message";
+
+/** Parent key used for the first message of each branch. */
+export const ROOT_BRANCH_KEY = "__root__";
+
+const BRANCH_TREE_VERSION = 1;
+
+export interface BranchNode {
+  message: Message;
+  /** Id of the previous message on this branch, or ROOT_BRANCH_KEY. */
+  parent: string;
+}
+
+export interface ConversationTree {
+  nodes: Record<string, BranchNode>;
+  /** Child ids for each parent key, in creation order. */
+  children: Record<string, string[]>;
+  /** Selected child id for each parent key. */
+  selected: Record<string, string>;
+}
+
+export interface BranchInfo {
+  /** Zero-based position among the alternates. */
+  index: number;
+  total: number;
+}
+
+/** Storage key for the branch tree of a bot or group history. */
+export function getBranchesKey(conversationKey: string) {
+  return `chatbot-branches-${conversationKey}`;
+}
+
+export function createConversationTree(messages: Message[] = []): ConversationTree {
+  return mergeActivePath({ nodes: {}, children: {}, selected: {} }, messages);
+}
+
+/**
+ * Records `path` as the active path, adding any new messages as children of
+ * their predecessor. Returns the same tree when nothing changed. An empty path
+ * clears the tree, since it means the history itself was cleared.
+ */
+export function mergeActivePath(tree: ConversationTree, path: Message[]): ConversationTree {
+  if (path.length === 0) {
+    return Object.keys(tree.nodes).length === 0 ? tree : { nodes: {}, children: {}, selected: {} };
+  }
+  let changed = false;
+  const nodes = { ...tree.nodes };
+  const children = { ...tree.children };
+  const selected = { ...tree.selected };
+  path.forEach((message, i) => {
+    const parent = i === 0 ? ROOT_BRANCH_KEY : path[i - 1].id;
+    const existing = nodes[message.id];
+    if (!existing || existing.parent !== parent) {
+      if (existing) {
+        children[existing.parent] = (children[existing.parent] ?? []).filter((id) => id !== message.id);
+      }
+      children[parent] = [...(children[parent] ?? []), message.id];
+      changed = true;
+    }
+    if (!existing || existing.message !== message || existing.parent !== parent) {
+      nodes[message.id] = { message, parent };
+      changed = true;
+    }
+    if (selected[parent] !== message.id) {
+      selected[parent] = message.id;
+      changed = true;
+    }
+  });
+  return changed ? { nodes, children, selected } : tree;
+}
+
+/** Follows the selected children from `fromKey` down to a leaf. */
+export function getActivePath(tree: ConversationTree, fromKey: string = ROOT_BRANCH_KEY): Message[] {
+  const path: Message[] = [];
+  let key = fromKey;
+  const seen = new Set<string>();
+  while (!seen.has(key)) {
+    seen.add(key);
+    const options = tree.children[key];
+    if (!options || options.length === 0) break;
+    const next = options.includes(tree.selected[key]) ? tree.selected[key] : options[options.length - 1];
+    const node = tree.nodes[next];
+    if (!node) break;
+    path.push(node.message);
+    key = next;
+  }
+  return path;
+}
+
+/** Position of a message among its alternates, or null when it has none. */
+export function getBranchInfo(tree: ConversationTree, messageId: string): BranchInfo | null {
+  const node = tree.nodes[messageId];
+  if (!node) return null;
+  const siblings = tree.children[node.parent] ?? [];
+  if (siblings.length < 2) return null;
+  return { index: siblings.indexOf(messageId), total: siblings.length };
+}
+
+/**
+ * Switches to the previous (-1) or next (1) alternate of a message.
+ * Returns the updated tree and the new active path, or null when there is no such alternate.
+ */
+export function selectAlternate(
+  tree: ConversationTree,
+  messageId: string,
+  direction: -1 | 1,
+): { tree: ConversationTree; path: Message[] } | null {
+  const node = tree.nodes[messageId];
+  if (!node) return null;
+  const siblings = tree.children[node.parent] ?? [];
+  const target = siblings[siblings.indexOf(messageId) + direction];
+  if (!target) return null;
+
+  const ancestors: Message[] = [];
+  for (let key = node.parent; key !== ROOT_BRANCH_KEY && tree.nodes[key];) {
+    ancestors.unshift(tree.nodes[key].message);
+    key = tree.nodes[key].parent;
+  }
+  const next: ConversationTree = { ...tree, selected: { ...tree.selected, [node.parent]: target } };
+  return { tree: next, path: [...ancestors, tree.nodes[target].message, ...getActivePath(next, target)] };
+}
+
+function parseTree(value: unknown): ConversationTree | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  if (!raw.nodes || !raw.children || !raw.selected || typeof raw.nodes !== "object") return null;
+  const nodes: Record<string, BranchNode> = {};
+  for (const [id, node] of Object.entries(raw.nodes as Record<string, { message?: unknown; parent?: unknown }>)) {
+    const message = normalizeMessage(node?.message);
+    if (!message || message.id !== id || typeof node.parent !== "string") return null;
+    nodes[id] = { message, parent: node.parent };
+  }
+  return {
+    nodes,
+    children: raw.children as Record<string, string[]>,
+    selected: raw.selected as Record<string, string>,
+  };
+}
+
+/**
+ * Loads the stored tree and reconciles it with the saved history, which stays
+ * authoritative (e.g. after resuming a conversation from the server).
+ */
+export function loadConversationTree(key: string, history: Message[]): ConversationTree {
+  try {
+    const record = storage.getVersionedJSON<unknown>(key);
+    const stored = record ? parseTree(record.payload) : null;
+    if (stored) return mergeActivePath(stored, history);
+  } catch {
+    // Corrupt or unavailable storage: start from the history alone
+  }
+  return createConversationTree(history);
+}
+
+export function saveConversationTree(key: string, tree: ConversationTree) {
+  if (Object.keys(tree.nodes).length === 0) {
+    storage.removeItem(key);
+    return;
+  }
+  storage.setVersionedJSON(key, tree, BRANCH_TREE_VERSION);
+}
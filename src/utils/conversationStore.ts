@@ -0,0 +1,285 @@
+/**
+ * Server-side conversation store used by the /api/conversations routes.
+ * Conversations are saved as JSON documents under the session that created
+ * them, so a chat can be resumed from another browser or device that knows both
+ * ids. Every read, delete and list is scoped to a session; there is no way to
+ * reach another session's conversations. Local development writes to
+ * tmp/conversations; deployments with a Blob token use private Vercel Blob
+ * storage. Other backends (e.g. KV) can be plugged in with setConversationStore().
+ *
+ * @module conversationStore
+ */
+
+import fs from "fs";
+import path from "path";
+import { BlobNotFoundError, del, get, list, put, type ListBlobResultBlob } from "@vercel/blob";
+import type { Bot } from "../../app/components/BotCreator";
+import type { Message } from "../types/message";
+import { normalizeMessage } from "./messages";
+import { isTurnPolicy, MAX_GROUP_PARTICIPANTS, type TurnPolicy } from "./groupChat";
+import { parsePersonalityProfile } from "./personalityProfile";
+import { parseAvatarExpressions } from "./avatarMoods";
+
+export interface StoredConversation {
+  id: string;
+  /** Session (see useSession) that created and owns the conversation. */
+  sessionId: string;
+  bot: Bot;
+  /** Characters who joined the host bot in a group conversation. */
+  group?: { members: Bot[]; turnPolicy: TurnPolicy };
+  messages: Message[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ConversationSummary {
+  id: string;
+  sessionId: string;
+  botName: string;
+  participantNames: string[];
+  messageCount: number;
+  updatedAt: string;
+}
+
+/** Reads, deletes and lists only ever see the given session's conversations. */
+export interface ConversationStore {
+  get(sessionId: string, id: string): Promise<StoredConversation | null>;
+  save(conversation: StoredConversation): Promise<void>;
+  delete(sessionId: string, id: string): Promise<boolean>;
+  list(sessionId: string): Promise<ConversationSummary[]>;
+}
+
+export const MAX_CONVERSATION_MESSAGES = 1000;
+const MAX_MESSAGE_TEXT_LENGTH = 20000;
+const MAX_LISTED_CONVERSATIONS = 50;
+const CONVERSATION_ID_PATTERN = /^[a-zA-Z0-9_-]{8,64}$/;
+const BLOB_PREFIX = "conversations/";
+
+export function isValidConversationId(id: unknown): id is string {
+  return typeof id === "string" && CONVERSATION_ID_PATTERN.test(id);
+}
+
+/** Session ids name a directory or Blob prefix, so they follow the same rules as conversation ids. */
+export function isValidSessionId(sessionId: unknown): sessionId is string {
+  return isValidConversationId(sessionId);
+}
+
+export function toConversationSummary(conversation: StoredConversation): ConversationSummary {
+  return {
+    id: conversation.id,
+    sessionId: conversation.sessionId,
+    botName: conversation.bot.name,
+    participantNames: [conversation.bot, ...(conversation.group?.members ?? [])].map((b) => b.name),
+    messageCount: conversation.messages.length,
+    updatedAt: conversation.updatedAt,
+  };
+}
+
+function parseBot(value: unknown): Bot | null {
+  if (!value || typeof value !== "object") return null;
+  const bot = value as Record<string, unknown>;
+  if (typeof bot.name !== "string" || !bot.name.trim() || bot.name.length > 100) return null;
+  if (typeof bot.personality !== "string" || typeof bot.avatarUrl !== "string") return null;
+  const profile = parsePersonalityProfile(bot.profile);
+  const expressions = parseAvatarExpressions(bot.expressions);
+  return {
+    name: bot.name,
+    personality: bot.personality,
+    avatarUrl: bot.avatarUrl,
+    voiceConfig: bot.voiceConfig && typeof bot.voiceConfig === "object" ? (bot.voiceConfig as Bot["voiceConfig"]) : null,
+    gender: typeof bot.gender === "string" ? bot.gender : null,
+    ...(profile ? { profile } : {}),
+    ...(expressions ? { expressions } : {}),
+  };
+}
+
+function parseMessages(value: unknown): Message[] | null {
+  if (!Array.isArray(value) || value.length > MAX_CONVERSATION_MESSAGES) return null;
+  const messages: Message[] = [];
+  for (const item of value) {
+    const msg = normalizeMessage(item);
+    if (!msg || msg.sender.length > 100 || msg.text.length > MAX_MESSAGE_TEXT_LENGTH) return null;
+    messages.push(msg);
+  }
+  return messages;
+}
+
+/**
+ * Validates a request body for creating or replacing a conversation.
+ * Returns the normalized fields, or an error message suitable for a 400 response.
+ */
+export function parseConversationInput(body: unknown):
+  | { ok: true; value: Pick<StoredConversation, "sessionId" | "bot" | "group" | "messages"> }
+  | { ok: false; error: string } {
+  if (!body || typeof body !== "object") return { ok: false, error: "Request body required" };
+  const input = body as Record<string, unknown>;
+  if (!isValidSessionId(input.sessionId)) {
+    return { ok: false, error: "Invalid sessionId" };
+  }
+  const bot = parseBot(input.bot);
+  if (!bot) return { ok: false, error: "Invalid bot" };
+  const messages = parseMessages(input.messages);
+  if (!messages) return { ok: false, error: "Invalid messages" };
+
+  let group: StoredConversation["group"];
+  if (input.group !== undefined && input.group !== null) {
+    const rawGroup = input.group as Record<string, unknown>;
+    const members = Array.isArray(rawGroup.members) ? rawGroup.members.map(parseBot) : null;
+    if (!members || members.some((m) => m === null) || members.length > MAX_GROUP_PARTICIPANTS - 1) {
+      return { ok: false, error: "Invalid group" };
+    }
+    if (!isTurnPolicy(rawGroup.turnPolicy)) return { ok: false, error: "Invalid group" };
+    group = { members: members as Bot[], turnPolicy: rawGroup.turnPolicy };
+  }
+  return { ok: true, value: { sessionId: input.sessionId, bot, group, messages } };
+}
+
+/**
+ * Stores each conversation as `<sessionId>/<id>.json` in a local directory.
+ */
+export function createFileConversationStore(
+  dir = path.resolve(process.cwd(), "tmp", "conversations"),
+): ConversationStore {
+  const sessionDirFor = (sessionId: string) => {
+    if (!isValidSessionId(sessionId)) throw new Error("Invalid session id");
+    return path.resolve(dir, sessionId);
+  };
+
+  const filePathFor = (sessionId: string, id: string) => {
+    if (!isValidConversationId(id)) throw new Error("Invalid conversation id");
+    const filePath = path.resolve(sessionDirFor(sessionId), `${id}.json`);
+    // Validate that filePath is within dir to prevent path traversal
+    const rel = path.relative(dir, filePath);
+    if (rel.startsWith("..") || path.isAbsolute(rel)) throw new Error("Invalid conversation path");
+    return filePath;
+  };
+
+  const read = (filePath: string): StoredConversation | null => {
+    try {
+      return JSON.parse(fs.readFileSync(filePath, "utf8")) as StoredConversation;
+    } catch {
+      return null;
+    }
+  };
+
+  return {
+    async get(sessionId, id) {
+      const filePath = filePathFor(sessionId, id);
+      return fs.existsSync(filePath) ? read(filePath) : null;
+    },
+    async save(conversation) {
+      const filePath = filePathFor(conversation.sessionId, conversation.id);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      // Write then rename so readers never see a half-written file
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(conversation), "utf8");
+      fs.renameSync(tmpPath, filePath);
+    },
+    async delete(sessionId, id) {
+      const filePath = filePathFor(sessionId, id);
+      if (!fs.existsSync(filePath)) return false;
+      fs.unlinkSync(filePath);
+      return true;
+    },
+    async list(sessionId) {
+      const sessionDir = sessionDirFor(sessionId);
+      if (!fs.existsSync(sessionDir)) return [];
+      return fs.readdirSync(sessionDir)
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => read(path.join(sessionDir, file)))
+        .filter((c): c is StoredConversation => c !== null)
+        .map(toConversationSummary)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .slice(0, MAX_LISTED_CONVERSATIONS);
+    },
+  };
+}
+
+/**
+ * Stores each conversation as `conversations/<sessionId>/<id>.json` in private
+ * Vercel Blob storage, so transcripts are only readable with the store token.
+ */
+export function createBlobConversationStore(token: string): ConversationStore {
+  const prefixFor = (sessionId: string) => {
+    if (!isValidSessionId(sessionId)) throw new Error("Invalid session id");
+    return `${BLOB_PREFIX}${sessionId}/`;
+  };
+
+  const pathFor = (sessionId: string, id: string) => {
+    if (!isValidConversationId(id)) throw new Error("Invalid conversation id");
+    return `${prefixFor(sessionId)}${id}.json`;
+  };
+
+  const readJson = async (pathname: string): Promise<StoredConversation | null> => {
+    // Bypass the CDN cache so a resumed conversation includes the latest messages
+    const result = await get(pathname, { access: "private", token, useCache: false });
+    if (!result || result.statusCode !== 200) return null;
+    return (await new Response(result.stream).json()) as StoredConversation;
+  };
+
+  return {
+    async get(sessionId, id) {
+      try {
+        return await readJson(pathFor(sessionId, id));
+      } catch (error) {
+        if (error instanceof BlobNotFoundError) return null;
+        throw error;
+      }
+    },
+    async save(conversation) {
+      await put(pathFor(conversation.sessionId, conversation.id), JSON.stringify(conversation), {
+        access: "private",
+        allowOverwrite: true,
+        addRandomSuffix: false,
+        contentType: "application/json",
+        token,
+      });
+    },
+    async delete(sessionId, id) {
+      const existing = await this.get(sessionId, id);
+      if (!existing) return false;
+      await del(pathFor(sessionId, id), { token });
+      return true;
+    },
+    async list(sessionId) {
+      // Listings come back by pathname, so page through the whole session
+      // before picking the most recently written conversations
+      const prefix = prefixFor(sessionId);
+      const blobs: ListBlobResultBlob[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await list({ prefix, token, cursor });
+        blobs.push(...page.blobs);
+        cursor = page.hasMore ? page.cursor : undefined;
+      } while (cursor);
+      const newest = blobs
+        .sort((a, b) => new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime())
+        .slice(0, MAX_LISTED_CONVERSATIONS);
+      const conversations = await Promise.all(newest.map((blob) => readJson(blob.pathname).catch(() => null)));
+      return conversations
+        .filter((c): c is StoredConversation => c !== null)
+        .map(toConversationSummary)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    },
+  };
+}
+
+let activeStore: ConversationStore | null = null;
+
+/**
+ * Returns the configured store: an explicitly registered one, else Vercel Blob
+ * when a Blob token is set, else the local file store.
+ */
+export function getConversationStore(): ConversationStore {
+  if (activeStore) return activeStore;
+  const blobToken = process.env.VERCEL_BLOB_READ_WRITE_TOKEN || process.env.BLOB_READ_WRITE_TOKEN;
+  activeStore = blobToken ? createBlobConversationStore(blobToken) : createFileConversationStore();
+  return activeStore;
+}
+
+/**
+ * Registers a custom backend (e.g. KV). Pass null to fall back to the default selection.
+ */
+export function setConversationStore(store: ConversationStore | null) {
+  activeStore = store;
+}
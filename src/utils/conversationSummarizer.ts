@@ -1,45 +1,48 @@
 /**
  * Conversation summarization utility for the chat API.
- * Uses Claude Haiku to produce a concise summary of older messages so the
+ * Uses the simple model tier to fold older messages into a rolling summary so the
  * context window stays manageable without losing narrative continuity.
  */
 
-import Anthropic from "@anthropic-ai/sdk";
 import logger from "./logger";
-import { getClaudeModel } from "./claudeModelSelector";
+import type { LlmProvider } from "./llm";
+import { parseSpeakerEntry } from "./groupChat";
 
 export type ClaudeMessage = { role: "user" | "assistant"; content: string };
 
 /**
- * Summarizes a set of conversation messages into a short paragraph.
- * Falls back to a generic placeholder on error so the calling code never
- * has to handle a rejection.
+ * Folds older history entries ("User: ...", "Bot: ..." or "[Name]: ...") into the
+ * rolling summary carried between requests. Returns null on error so the caller
+ * keeps the previous summary and retries the fold on a later request.
  */
-export async function summarizeConversation(
-  anthropic: Anthropic,
-  messages: ClaudeMessage[],
+export async function updateRollingSummary(
+  provider: LlmProvider,
+  previousSummary: string | undefined,
+  entries: string[],
   botName: string,
-): Promise<string> {
+  maxTokens = 300,
+): Promise<string | null> {
   try {
-    const conversationText = messages
-      .map((m) => `${m.role === "user" ? "User" : botName}: ${m.content}`)
+    const transcript = entries
+      .map((entry) => entry.replace(/^Bot: /, `${botName}: `).replace(/^\[([^\]]+)\]: /, "$1: "))
       .join("\n");
+    const content = previousSummary
+      ? `Summary so far:\n${previousSummary}\n\nConversation since then:\n${transcript}`
+      : transcript;
 
-    const summaryResponse = await anthropic.messages.create({
-      model: getClaudeModel("text-simple"),
+    const summaryResponse = await provider.complete({
+      tier: "text-simple",
       system:
-        "Summarize this conversation concisely, capturing key topics, emotional tone, and important context. Keep it under 150 words.",
-      messages: [{ role: "user", content: conversationText }],
-      max_tokens: 200,
+        "Maintain a running summary of a roleplay conversation. Merge the summary so far (if any) with the new conversation, keeping key topics, plot threads, names, promises and emotional tone. Drop details that no longer matter. Keep it under 200 words.",
+      messages: [{ role: "user", content }],
+      maxTokens,
       temperature: 0.3,
     });
 
-    return summaryResponse.content[0]?.type === "text"
-      ? summaryResponse.content[0].text.trim()
-      : "Previous conversation history.";
+    return summaryResponse.text.trim() || null;
   } catch (error) {
-    logger.error("Failed to summarize conversation:", { error });
-    return "Previous conversation covered various topics.";
+    logger.error("Failed to update rolling summary:", { error });
+    return null;
   }
 }
 
@@ -47,22 +50,49 @@ export async function summarizeConversation(
  * Builds the Claude message array from raw conversation history strings and a
  * new user message.  The system prompt is kept separate (Claude requires it as
  * a top-level param).
+ *
+ * In group conversations pass `speakerName`: that character's `[Name]: ...`
+ * lines become assistant turns, everyone else's lines are folded into user
+ * turns prefixed with the speaker's name, and consecutive same-role turns are
+ * merged. An empty `userMessage` is not appended, which lets a character reply
+ * to another character rather than to a new user message.
  */
 export function buildClaudeMessages(
   history: string[],
   userMessage: string,
+  speakerName?: string,
 ): ClaudeMessage[] {
   const messages: ClaudeMessage[] = [];
+  const push = (role: ClaudeMessage["role"], content: string) => {
+    const last = messages[messages.length - 1];
+    if (speakerName && last && last.role === role) {
+      last.content = `${last.content}\n\n${content}`;
+      return;
+    }
+    messages.push({ role, content });
+  };
   for (const entry of history) {
     if (entry.startsWith("User: ")) {
-      messages.push({ role: "user", content: entry.replace(/^User: /, "") });
+      const text = entry.replace(/^User: /, "");
+      push("user", speakerName ? `User: ${text}` : text);
     } else if (entry.startsWith("Bot: ")) {
-      messages.push({
-        role: "assistant",
-        content: entry.replace(/^Bot: /, ""),
-      });
+      push("assistant", entry.replace(/^Bot: /, ""));
+    } else {
+      const speaker = parseSpeakerEntry(entry);
+      if (!speaker) continue;
+      if (!speakerName || speaker.speaker === speakerName) {
+        push("assistant", speaker.text);
+      } else {
+        push("user", `${speaker.speaker}: ${speaker.text}`);
+      }
     }
   }
-  messages.push({ role: "user", content: userMessage });
+  if (userMessage) {
+    push("user", speakerName ? `User: ${userMessage}` : userMessage);
+  }
+  // Claude expects the conversation to open with a user turn
+  if (speakerName && messages[0]?.role === "assistant") {
+    messages.unshift({ role: "user", content: "(The conversation begins.)" });
+  }
   return messages;
 }
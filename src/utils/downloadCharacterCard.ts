@@ -0,0 +1,85 @@
+/**
+ * Utility for saving the current character as a card file (see characterCard).
+ * JSON cards carry their portraits inline, as the stored /api/avatar URLs mean
+ * nothing to another install; PNG cards embed the card in the portrait, which is
+ * first redrawn as a PNG when it is an SVG or another format.
+ */
+
+import type { Bot } from "../../app/components/BotCreator";
+import { isStoredAvatarUrl } from "./avatarUrl";
+import { embedCardInPng, getCardFileName, pngBytesFromDataUrl, serializeCharacterCard } from "./characterCard";
+
+export type CardExportFormat = "json" | "png";
+
+/** Side length of portraits redrawn for PNG cards. */
+const PNG_CARD_SIZE = 512;
+
+async function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load the character portrait"));
+    img.src = src;
+  });
+}
+
+async function portraitToPng(avatarUrl: string): Promise<Uint8Array> {
+  const direct = pngBytesFromDataUrl(avatarUrl);
+  if (direct) return direct;
+  const img = await loadImage(avatarUrl);
+  const canvas = document.createElement("canvas");
+  canvas.width = img.naturalWidth || PNG_CARD_SIZE;
+  canvas.height = img.naturalHeight || PNG_CARD_SIZE;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Browser does not support drawing the character portrait");
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+  if (!blob) throw new Error("Could not convert the character portrait to PNG");
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+async function storedPortraitToDataUrl(url: string): Promise<string> {
+  if (!isStoredAvatarUrl(url)) return url;
+  const res = await fetch(url);
+  if (!res.ok) throw new Error("Could not load the character portrait");
+  const blob = await res.blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error("Could not load the character portrait"));
+    reader.readAsDataURL(blob);
+  });
+}
+
+/** The bot with its stored portrait and expressions replaced by data URLs, for JSON cards. */
+export async function inlineStoredPortraits(bot: Bot): Promise<Bot> {
+  const avatarUrl = await storedPortraitToDataUrl(bot.avatarUrl);
+  if (!bot.expressions) return { ...bot, avatarUrl };
+  const expressions = Object.fromEntries(await Promise.all(Object.entries(bot.expressions).map(async ([mood, url]) =>
+    [mood, url ? await storedPortraitToDataUrl(url) : url] as const)));
+  return { ...bot, avatarUrl, expressions };
+}
+
+/**
+ * Triggers a download of the bot as a `.card.json` or `.card.png` file.
+ *
+ * @throws {Error} If the portrait cannot be converted or browser APIs are unavailable.
+ */
+export async function downloadCharacterCard(bot: Bot, format: CardExportFormat): Promise<void> {
+  if (!window.URL || !window.URL.createObjectURL) {
+    throw new Error("Browser does not support required APIs for downloading character cards");
+  }
+  const blob = format === "png"
+    ? new Blob([embedCardInPng(await portraitToPng(bot.avatarUrl), bot) as BlobPart], { type: "image/png" })
+    : new Blob([serializeCharacterCard(await inlineStoredPortraits(bot))], { type: "application/json" });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = getCardFileName(bot.name, format);
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  setTimeout(() => {
+    if (window.URL && window.URL.revokeObjectURL) window.URL.revokeObjectURL(url);
+  }, typeof process !== 'undefined' && process.env.JEST_WORKER_ID ? 0 : 100);
+}
@@ -0,0 +1,147 @@
+/**
+ * Group conversation helpers shared by the chat controller and the chat API.
+ * Decides which characters speak on each turn and formats history so every
+ * speaker keeps its identity when the transcript is replayed to Claude.
+ *
+ * @module groupChat
+ */
+
+import type { Bot } from "../../app/components/BotCreator";
+
+/**
+ * Turn-taking policies for a room with several characters.
+ *  "round-robin" — every character answers once, in seat order, starting after the last speaker.
+ *  "addressed"   — characters named in the message answer first; otherwise the next in rotation.
+ *  "random"      — every character answers once, in a shuffled order.
+ */
+export type TurnPolicy = "round-robin" | "addressed" | "random";
+
+export const TURN_POLICIES: TurnPolicy[] = ["round-robin", "addressed", "random"];
+
+export const DEFAULT_TURN_POLICY: TurnPolicy = "round-robin";
+
+/** Hard cap on characters in a single room; keeps prompts and per-turn cost bounded. */
+export const MAX_GROUP_PARTICIPANTS = 4;
+
+export interface GroupChatOptions {
+  participants: Bot[];
+  turnPolicy: TurnPolicy;
+  /** Maximum number of character replies generated for a single user message. */
+  maxBotTurns?: number;
+}
+
+/** History entry prefix for a named speaker, e.g. `[Dr. Watson]: Quite so.` */
+const SPEAKER_ENTRY_PATTERN = /^\[([^\]]+)\]: ([\s\S]*)$/;
+
+export function isTurnPolicy(value: unknown): value is TurnPolicy {
+  return typeof value === "string" && (TURN_POLICIES as string[]).includes(value);
+}
+
+/**
+ * Formats a character's line for the `conversationHistory` payload sent to /api/chat.
+ */
+export function formatSpeakerEntry(speaker: string, text: string): string {
+  return `[${speaker}]: ${text}`;
+}
+
+/**
+ * Parses a `[Name]: text` history entry. Returns null for `User:`/`Bot:` entries.
+ */
+export function parseSpeakerEntry(entry: string): { speaker: string; text: string } | null {
+  const match = entry.match(SPEAKER_ENTRY_PATTERN);
+  return match ? { speaker: match[1], text: match[2] } : null;
+}
+
+/**
+ * Stable storage key suffix for a room, independent of the order characters joined in.
+ */
+export function getGroupKey(participants: Array<{ name: string }>): string {
+  return participants.map((p) => p.name).sort((a, b) => a.localeCompare(b)).join(" & ");
+}
+
+/** Name parts too generic to identify a character on their own. */
+const NON_IDENTIFYING_NAME_PARTS = new Set(["dr", "mr", "mrs", "ms", "sir", "lady", "lord", "the", "of", "de", "da", "van", "von"]);
+
+/**
+ * Returns the participant names mentioned in a message, ordered by first mention.
+ * Matches full names and individual name parts (e.g. "Watson" for "Dr. Watson")
+ * case-insensitively on word boundaries.
+ */
+export function findAddressedParticipants(message: string, names: string[]): string[] {
+  const lower = message.toLowerCase();
+  const hits: Array<{ name: string; index: number }> = [];
+  for (const name of names) {
+    const parts = name.split(/\s+/).map((part) => part.replace(/[^\p{L}\p{N}'-]/gu, ""));
+    const candidates = [name, ...parts.filter((p) => p.length > 1 && !NON_IDENTIFYING_NAME_PARTS.has(p.toLowerCase()))];
+    let best = -1;
+    for (const candidate of candidates) {
+      const escaped = candidate.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      const match = new RegExp(`(^|[^\\p{L}])${escaped}(?=$|[^\\p{L}])`, "u").exec(lower);
+      if (match && (best === -1 || match.index < best)) best = match.index;
+    }
+    if (best !== -1) hits.push({ name, index: best });
+  }
+  return hits.sort((a, b) => a.index - b.index).map((h) => h.name);
+}
+
+function rotateAfter(names: string[], lastSpeaker: string | null): string[] {
+  const start = lastSpeaker ? names.indexOf(lastSpeaker) + 1 : 0;
+  return [...names.slice(start), ...names.slice(0, start)];
+}
+
+/**
+ * Plans the ordered list of speakers for one round of a group conversation.
+ * A round with an empty `userMessage` lets the characters carry on among themselves.
+ */
+export function planGroupTurn({
+  participants,
+  userMessage,
+  lastSpeaker,
+  policy,
+  maxTurns = participants.length,
+  random = Math.random,
+}: {
+  participants: string[];
+  userMessage: string;
+  lastSpeaker: string | null;
+  policy: TurnPolicy;
+  maxTurns?: number;
+  random?: () => number;
+}): string[] {
+  if (participants.length === 0) return [];
+  const limit = Math.max(1, Math.min(maxTurns, participants.length));
+  const rotation = rotateAfter(participants, lastSpeaker);
+
+  if (policy === "addressed") {
+    const addressed = userMessage ? findAddressedParticipants(userMessage, participants) : [];
+    return (addressed.length > 0 ? addressed : rotation.slice(0, 1)).slice(0, limit);
+  }
+
+  if (policy === "random") {
+    const shuffled = [...participants];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    // Avoid the same character speaking twice in a row across rounds
+    if (shuffled.length > 1 && shuffled[0] === lastSpeaker) {
+      shuffled.push(shuffled.shift() as string);
+    }
+    return shuffled.slice(0, limit);
+  }
+
+  return rotation.slice(0, limit);
+}
+
+/**
+ * System prompt addendum describing the room to the character who is speaking.
+ */
+export function buildGroupContextInstructions(speaker: string, participants: string[]): string {
+  const others = participants.filter((name) => name !== speaker);
+  return `
+GROUP CONVERSATION:
+- You are ${speaker}, taking part in a conversation with the user and ${others.join(", ")}.
+- Lines from other characters appear prefixed with their name (e.g. "${others[0] ?? "Someone"}: ..."). Lines prefixed with "User:" come from the user.
+- Respond to whatever was said most recently, including points raised by the other characters. Agree, disagree or build on them in your own voice.
+- Speak only as ${speaker}. Never write lines for the other characters or the user, and do not prefix your reply with your name.`;
+}
@@ -0,0 +1,95 @@
+/**
+ * Image provider for Gemini image generation on Google Cloud's Gemini Enterprise
+ * Agent Platform (formerly Vertex AI), using the service account in
+ * `GOOGLE_APPLICATION_CREDENTIALS_JSON`. A reference image is sent along with
+ * the prompt, so expressions keep the face of the base portrait.
+ *
+ * @module imageGen/geminiProvider
+ */
+
+import fs from "fs";
+import { logEvent, sanitizeLogMeta } from "../logger";
+import { getClaudeModel } from "../claudeModelSelector";
+import type { ImageProvider } from "./types";
+
+export interface GeminiImageOptions {
+  projectId: string;
+}
+
+/**
+ * Loads GCP credentials from env var (raw JSON string in Vercel, file path locally).
+ */
+function loadGcpCredentials(): Record<string, unknown> {
+  const raw = process.env.GOOGLE_APPLICATION_CREDENTIALS_JSON;
+  if (!raw) throw new Error("Missing GOOGLE_APPLICATION_CREDENTIALS_JSON");
+  if (raw.trim().startsWith("{")) {
+    return JSON.parse(raw);
+  }
+  return JSON.parse(fs.readFileSync(raw, "utf8"));
+}
+
+/** A data URL as an inline image part for a Gemini request. */
+function toInlineImagePart(dataUrl: string) {
+  const [header, data] = dataUrl.split(",", 2);
+  return { inlineData: { mimeType: header.slice(5, header.indexOf(";")) || "image/png", data } };
+}
+
+export function createGeminiImageProvider(options: GeminiImageOptions): ImageProvider {
+  return {
+    name: "gemini",
+    async generate({ prompt, reference }) {
+      if (!options.projectId) {
+        logEvent("error", "avatar_missing_project", "Missing GOOGLE_CLOUD_PROJECT env var");
+        throw new Error("Missing GOOGLE_CLOUD_PROJECT");
+      }
+      let credentials: Record<string, unknown>;
+      try {
+        credentials = loadGcpCredentials();
+      } catch (credErr) {
+        logEvent("error", "avatar_cred_error", "Failed to load GCP credentials", sanitizeLogMeta({ error: credErr instanceof Error ? credErr.message : String(credErr) }));
+        throw credErr;
+      }
+
+      const { GoogleGenAI } = await import("@google/genai");
+      const client = new GoogleGenAI({
+        vertexai: true,
+        project: options.projectId,
+        // Gemini image models are only served from the "global" endpoint, unlike
+        // the legacy Imagen predict API which used a regional (us-central1) endpoint.
+        location: "global",
+        googleAuthOptions: { credentials },
+      });
+
+      const modelId = getClaudeModel("image").primary;
+
+      logEvent("info", "avatar_gemini_call", "Calling Gemini image generation", sanitizeLogMeta({ model: modelId, prompt: prompt.slice(0, 100) }));
+
+      const response = await client.models.generateContent({
+        model: modelId,
+        contents: [{ role: "user", parts: [...(reference ? [toInlineImagePart(reference)] : []), { text: prompt }] }],
+        config: {
+          responseModalities: ["IMAGE"],
+          imageConfig: { aspectRatio: "1:1", personGeneration: "ALLOW_ALL" },
+        },
+      });
+
+      const candidate = response.candidates?.[0];
+
+      // Check for safety filtering, either on the prompt or the generated candidate.
+      const blockReason = response.promptFeedback?.blockReason;
+      const finishReason = candidate?.finishReason;
+      const safetyBlocked = Boolean(blockReason) || (typeof finishReason === "string" && /SAFETY|PROHIBITED/i.test(finishReason));
+      if (safetyBlocked) {
+        logEvent("warn", "avatar_gemini_safety_filtered", "Gemini image safety filter triggered", sanitizeLogMeta({ blockReason, finishReason }));
+        return null;
+      }
+
+      const imagePart = candidate?.content?.parts?.find((part) => part.inlineData?.data);
+      const b64 = imagePart?.inlineData?.data;
+      if (!b64) return null;
+
+      const mimeType = imagePart.inlineData?.mimeType || "image/png";
+      return `data:${mimeType};base64,${b64}`;
+    },
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * Entry point for image generation on the server. `getImageProvider()` returns
+ * the provider selected by `IMAGE_PROVIDER`:
+ *
+ * - `gemini`: Gemini image generation on Google Cloud (default when `GOOGLE_CLOUD_PROJECT` is set)
+ * - `openai-compatible`: any OpenAI Images API server at `IMAGE_BASE_URL` (optional `IMAGE_API_KEY`)
+ * - `local`: Stable Diffusion WebUI or ComfyUI over HTTP (`IMAGE_LOCAL_BACKEND`)
+ * - `placeholder`: initials on a colour seeded from the name (default otherwise)
+ *
+ * @module imageGen
+ */
+
+import { createGeminiImageProvider } from "./geminiProvider";
+import { createLocalDiffusionProvider } from "./localDiffusionProvider";
+import { createOpenAiCompatibleImageProvider } from "./openAiCompatibleProvider";
+import { createPlaceholderImageProvider } from "./placeholderProvider";
+import { IMAGE_PROVIDERS, type ImageProvider, type ImageProviderName } from "./types";
+
+export type { ImageProvider, ImageProviderName, ImageRequest } from "./types";
+export {
+  createGeminiImageProvider,
+  createLocalDiffusionProvider,
+  createOpenAiCompatibleImageProvider,
+  createPlaceholderImageProvider,
+};
+
+const DEFAULT_OPENAI_COMPATIBLE_URL = "http://localhost:8080/v1";
+const DEFAULT_OPENAI_COMPATIBLE_MODEL = "gpt-image-1";
+
+/** Provider selected by `IMAGE_PROVIDER`; Gemini when a Google Cloud project is set, otherwise the placeholder. */
+export function getImageProviderName(): ImageProviderName {
+  const configured = process.env.IMAGE_PROVIDER?.trim().toLowerCase();
+  if ((IMAGE_PROVIDERS as string[]).includes(configured ?? "")) return configured as ImageProviderName;
+  return process.env.GOOGLE_CLOUD_PROJECT ? "gemini" : "placeholder";
+}
+
+let activeProvider: ImageProvider | null = null;
+
+export function getImageProvider(): ImageProvider {
+  if (activeProvider) return activeProvider;
+  const name = getImageProviderName();
+  const size = Number.parseInt(process.env.IMAGE_SIZE ?? "", 10) || undefined;
+  if (name === "gemini") {
+    activeProvider = createGeminiImageProvider({ projectId: process.env.GOOGLE_CLOUD_PROJECT ?? "" });
+  } else if (name === "openai-compatible") {
+    activeProvider = createOpenAiCompatibleImageProvider({
+      baseUrl: process.env.IMAGE_BASE_URL || DEFAULT_OPENAI_COMPATIBLE_URL,
+      apiKey: process.env.IMAGE_API_KEY,
+      model: process.env.IMAGE_MODEL || DEFAULT_OPENAI_COMPATIBLE_MODEL,
+      size,
+    });
+  } else if (name === "local") {
+    activeProvider = createLocalDiffusionProvider({
+      backend: process.env.IMAGE_LOCAL_BACKEND?.trim().toLowerCase() === "comfyui" ? "comfyui" : "sd-webui",
+      baseUrl: process.env.IMAGE_BASE_URL,
+      workflow: process.env.IMAGE_COMFYUI_WORKFLOW,
+      size,
+    });
+  } else {
+    activeProvider = createPlaceholderImageProvider();
+  }
+  return activeProvider;
+}
+
+/**
+ * Registers a provider (e.g. a stub in tests). Pass null to fall back to the `IMAGE_PROVIDER` selection.
+ */
+export function setImageProvider(provider: ImageProvider | null) {
+  activeProvider = provider;
+}
@@ -0,0 +1,130 @@
+/**
+ * Image provider for a Stable Diffusion server on the local network:
+ *
+ * - `sd-webui`: the AUTOMATIC1111 / Forge web UI started with `--api`; a reference
+ *   image is repainted through img2img
+ * - `comfyui`: a ComfyUI server running a workflow exported in API format, in
+ *   which the string `"{{prompt}}"` marks the prompt text and `"{{seed}}"` the
+ *   sampler seed. ComfyUI paints from the prompt alone.
+ *
+ * @module imageGen/localDiffusionProvider
+ */
+
+import fs from "fs";
+import crypto from "crypto";
+import type { ImageProvider, ImageRequest } from "./types";
+
+export type LocalDiffusionBackend = "sd-webui" | "comfyui";
+
+export interface LocalDiffusionOptions {
+  backend: LocalDiffusionBackend;
+  /** Server URL; defaults to the backend's usual local address. */
+  baseUrl?: string;
+  /** Path to the ComfyUI workflow (API format), required with `comfyui`. */
+  workflow?: string;
+  /** Square side in pixels for the web UI; SD 1.5 models work best at 512. */
+  size?: number;
+  /** How often ComfyUI is asked whether the image is done. */
+  pollIntervalMs?: number;
+  /** How long to wait for ComfyUI before giving up. */
+  timeoutMs?: number;
+}
+
+const DEFAULT_URLS: Record<LocalDiffusionBackend, string> = {
+  "sd-webui": "http://127.0.0.1:7860",
+  comfyui: "http://127.0.0.1:8188",
+};
+
+const DEFAULT_SIZE = 768;
+const DEFAULT_STEPS = 25;
+/** How far img2img may move from the reference; low enough to keep the face. */
+const REFERENCE_DENOISING = 0.5;
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+const DEFAULT_TIMEOUT_MS = 120_000;
+
+interface WebUiResponse {
+  images?: string[];
+}
+
+interface ComfyHistory {
+  [promptId: string]: {
+    outputs?: Record<string, { images?: Array<{ filename: string; subfolder?: string; type?: string }> }>;
+  };
+}
+
+async function postJson<T>(url: string, body: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new Error(`Image request failed: HTTP ${response.status}`);
+  }
+  return (await response.json()) as T;
+}
+
+/** The workflow with `"{{prompt}}"` and `"{{seed}}"` replaced wherever they appear as values. */
+export function fillWorkflow(node: unknown, prompt: string, seed: number): unknown {
+  if (node === "{{prompt}}") return prompt;
+  if (node === "{{seed}}") return seed;
+  if (Array.isArray(node)) return node.map((item) => fillWorkflow(item, prompt, seed));
+  if (node && typeof node === "object") {
+    return Object.fromEntries(Object.entries(node).map(([key, value]) => [key, fillWorkflow(value, prompt, seed)]));
+  }
+  return node;
+}
+
+export function createLocalDiffusionProvider(options: LocalDiffusionOptions): ImageProvider {
+  const baseUrl = (options.baseUrl || DEFAULT_URLS[options.backend]).replace(/\/+$/, "");
+  const size = options.size ?? DEFAULT_SIZE;
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  const generateWithWebUi = async ({ prompt, reference }: ImageRequest) => {
+    const settings = { prompt, width: size, height: size, steps: DEFAULT_STEPS };
+    const data = reference
+      ? await postJson<WebUiResponse>(`${baseUrl}/sdapi/v1/img2img`, {
+        ...settings,
+        init_images: [reference.slice(reference.indexOf(",") + 1)],
+        denoising_strength: REFERENCE_DENOISING,
+      })
+      : await postJson<WebUiResponse>(`${baseUrl}/sdapi/v1/txt2img`, settings);
+    const image = data.images?.[0];
+    return image ? `data:image/png;base64,${image}` : null;
+  };
+
+  const generateWithComfyUi = async ({ prompt }: ImageRequest) => {
+    if (!options.workflow) throw new Error("A ComfyUI workflow file is required");
+    const workflow = JSON.parse(fs.readFileSync(options.workflow, "utf8"));
+    // A fresh seed per request, or ComfyUI would return its cached result for repeated prompts
+    const seed = crypto.randomInt(0, 2 ** 32);
+    const { prompt_id: promptId } = await postJson<{ prompt_id?: string }>(`${baseUrl}/prompt`, {
+      prompt: fillWorkflow(workflow, prompt, seed),
+    });
+    if (!promptId) throw new Error("ComfyUI did not queue the workflow");
+
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const response = await fetch(`${baseUrl}/history/${encodeURIComponent(promptId)}`);
+      if (!response.ok) throw new Error(`Image request failed: HTTP ${response.status}`);
+      const outputs = ((await response.json()) as ComfyHistory)[promptId]?.outputs;
+      if (outputs) {
+        const image = Object.values(outputs).flatMap((output) => output.images ?? [])[0];
+        if (!image) return null;
+        const query = new URLSearchParams({ filename: image.filename, subfolder: image.subfolder ?? "", type: image.type ?? "output" });
+        const file = await fetch(`${baseUrl}/view?${query}`);
+        if (!file.ok) throw new Error(`Image download failed: HTTP ${file.status}`);
+        const type = file.headers.get("content-type") || "image/png";
+        return `data:${type};base64,${Buffer.from(await file.arrayBuffer()).toString("base64")}`;
+      }
+      if (Date.now() >= deadline) throw new Error("ComfyUI did not finish the image in time");
+      await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+    }
+  };
+
+  return {
+    name: "local",
+    generate: options.backend === "comfyui" ? generateWithComfyUi : generateWithWebUi,
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * Image provider for any server implementing the OpenAI Images API, e.g.
+ * OpenAI itself or LocalAI. Portraits come from `/images/generations`; with a
+ * reference image they are repainted through `/images/edits`.
+ *
+ * @module imageGen/openAiCompatibleProvider
+ */
+
+import type { ImageProvider } from "./types";
+
+export interface OpenAiCompatibleImageOptions {
+  /** Base URL including the API version, e.g. `https://api.openai.com/v1`. */
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  /** Square side in pixels. */
+  size?: number;
+}
+
+interface ImagesResponse {
+  data?: Array<{ b64_json?: string; url?: string }>;
+}
+
+const DEFAULT_SIZE = 1024;
+
+function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, data] = dataUrl.split(",", 2);
+  return new Blob([Buffer.from(data, "base64")], { type: header.slice(5, header.indexOf(";")) || "image/png" });
+}
+
+export function createOpenAiCompatibleImageProvider(options: OpenAiCompatibleImageOptions): ImageProvider {
+  const baseUrl = options.baseUrl.replace(/\/+$/, "");
+  const size = `${options.size ?? DEFAULT_SIZE}x${options.size ?? DEFAULT_SIZE}`;
+  const authorization: Record<string, string> = options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {};
+
+  // Servers answer with base64 or, like DALL·E by default, a short-lived URL to fetch right away
+  const toDataUrl = async (image: { b64_json?: string; url?: string } | undefined): Promise<string | null> => {
+    if (image?.b64_json) return `data:image/png;base64,${image.b64_json}`;
+    if (!image?.url) return null;
+    const response = await fetch(image.url);
+    if (!response.ok) throw new Error(`Image download failed: HTTP ${response.status}`);
+    const type = response.headers.get("content-type") || "image/png";
+    return `data:${type};base64,${Buffer.from(await response.arrayBuffer()).toString("base64")}`;
+  };
+
+  return {
+    name: "openai-compatible",
+    async generate({ prompt, reference }) {
+      let response: Response;
+      if (reference) {
+        const form = new FormData();
+        form.append("model", options.model);
+        form.append("prompt", prompt);
+        form.append("size", size);
+        form.append("image", dataUrlToBlob(reference), "portrait.png");
+        response = await fetch(`${baseUrl}/images/edits`, { method: "POST", headers: authorization, body: form });
+      } else {
+        response = await fetch(`${baseUrl}/images/generations`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...authorization },
+          body: JSON.stringify({ model: options.model, prompt, n: 1, size }),
+        });
+      }
+      if (!response.ok) {
+        throw new Error(`Image request failed: HTTP ${response.status}`);
+      }
+      const data = (await response.json()) as ImagesResponse;
+      return toDataUrl(data.data?.[0]);
+    },
+  };
+}
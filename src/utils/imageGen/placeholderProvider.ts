@@ -0,0 +1,59 @@
+/**
+ * Deterministic image provider for offline use and tests (`IMAGE_PROVIDER=placeholder`,
+ * and the default without Google Cloud settings). Instead of a painting it draws
+ * the character's initials on a gradient whose colours are seeded from the name,
+ * so the same character always gets the same SVG and different characters are
+ * easy to tell apart.
+ *
+ * @module imageGen/placeholderProvider
+ */
+
+import type { ImageProvider } from "./types";
+
+const SIZE = 512;
+
+/** FNV-1a, enough to spread names over the colour wheel. */
+function hashName(name: string): number {
+  let hash = 0x811c9dc5;
+  for (const char of name.trim().toLowerCase()) {
+    hash ^= char.codePointAt(0) ?? 0;
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+/** Up to two initials: the first letters of the first and last words, or "?" when there are none. */
+export function getInitials(name: string): string {
+  const words = name.split(/\s+/).map((word) => word.match(/[\p{L}\p{N}]/u)?.[0]).filter((c): c is string => !!c);
+  if (words.length === 0) return "?";
+  return (words.length > 1 ? words[0] + words[words.length - 1] : words[0]).toUpperCase();
+}
+
+/** The two gradient colours for a name. */
+export function getPlaceholderPalette(name: string): [string, string] {
+  const hash = hashName(name);
+  const hue = hash % 360;
+  const accent = (hue + 40 + ((hash >>> 9) % 80)) % 360;
+  return [`hsl(${hue}, 55%, 45%)`, `hsl(${accent}, 60%, 28%)`];
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+export function createPlaceholderSvg(name: string): string {
+  const [from, to] = getPlaceholderPalette(name);
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${SIZE}" height="${SIZE}" viewBox="0 0 ${SIZE} ${SIZE}">`
+    + `<defs><linearGradient id="bg" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="${from}"/><stop offset="1" stop-color="${to}"/></linearGradient></defs>`
+    + `<rect width="${SIZE}" height="${SIZE}" fill="url(#bg)"/>`
+    + `<text x="50%" y="50%" dy=".35em" text-anchor="middle" font-family="Georgia, 'Times New Roman', serif" font-size="${SIZE * 0.4}" fill="#fff" fill-opacity="0.92">${escapeXml(getInitials(name))}</text>`
+    + `</svg>`;
+}
+
+export function createPlaceholderImageProvider(): ImageProvider {
+  return {
+    name: "placeholder",
+    async generate({ subject }) {
+      return `data:image/svg+xml;base64,${Buffer.from(createPlaceholderSvg(subject)).toString("base64")}`;
+    },
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * Provider-neutral types for image generation. /api/generate-avatar talks to an
+ * `ImageProvider` (see getImageProvider) instead of a vendor SDK, so portraits
+ * can come from Gemini, an OpenAI-compatible images endpoint, a local Stable
+ * Diffusion server or the offline placeholder.
+ *
+ * @module imageGen/types
+ */
+
+export type ImageProviderName = "gemini" | "openai-compatible" | "local" | "placeholder";
+
+export const IMAGE_PROVIDERS: ImageProviderName[] = ["gemini", "openai-compatible", "local", "placeholder"];
+
+export interface ImageRequest {
+  prompt: string;
+  /** Name of the character pictured; the placeholder draws its initials. */
+  subject: string;
+  /**
+   * Data URL of an image to repaint, e.g. the base portrait for an expression.
+   * Providers that cannot start from an image paint from the prompt alone.
+   */
+  reference?: string | null;
+}
+
+export interface ImageProvider {
+  readonly name: ImageProviderName;
+  /**
+   * Resolves to the image as a base64 data URL, or null when the provider
+   * declined to make one (e.g. a safety filter). Rejects on errors.
+   */
+  generate(request: ImageRequest): Promise<string | null>;
+}
@@ -0,0 +1,66 @@
+/**
+ * Conversation languages. A bot created with a language replies in it, gets a
+ * voice from a matching locale, and switches the interface to that language's
+ * strings (see src/data/uiStrings.ts). English is the default and adds nothing
+ * to the prompts. Shared by the client and the server.
+ *
+ * @module language
+ */
+
+import { UI_STRINGS, type UiStringKey } from "../data/uiStrings";
+
+export type LanguageCode = "en" | "de" | "fr" | "es" | "it" | "pt";
+
+export interface ConversationLanguage {
+  code: LanguageCode;
+  /** English name, used in prompts. */
+  name: string;
+  /** Name in the language itself, shown in the language menu. */
+  nativeName: string;
+  /** Locale of the voice picked when the character's own voice does not match. */
+  voiceLocale: string;
+}
+
+export const LANGUAGES: ConversationLanguage[] = [
+  { code: "en", name: "English", nativeName: "English", voiceLocale: "en-GB" },
+  { code: "de", name: "German", nativeName: "Deutsch", voiceLocale: "de-DE" },
+  { code: "fr", name: "French", nativeName: "Français", voiceLocale: "fr-FR" },
+  { code: "es", name: "Spanish", nativeName: "Español", voiceLocale: "es-ES" },
+  { code: "it", name: "Italian", nativeName: "Italiano", voiceLocale: "it-IT" },
+  { code: "pt", name: "Portuguese", nativeName: "Português", voiceLocale: "pt-BR" },
+];
+
+export const DEFAULT_LANGUAGE: LanguageCode = "en";
+
+/** The language for a code from a request, bot or storage; null for anything unsupported. */
+export function parseLanguage(value: unknown): LanguageCode | null {
+  if (typeof value !== "string") return null;
+  const code = value.trim().toLowerCase().split("-")[0];
+  return LANGUAGES.some((language) => language.code === code) ? (code as LanguageCode) : null;
+}
+
+export function getLanguage(code: LanguageCode): ConversationLanguage {
+  return LANGUAGES.find((language) => language.code === code) ?? LANGUAGES[0];
+}
+
+/** True when a voice locale (e.g. "de-AT") speaks the given language. */
+export function isVoiceInLanguage(languageCode: string | undefined, language: LanguageCode): boolean {
+  return (languageCode ?? "").toLowerCase().split("-")[0] === language;
+}
+
+/** System prompt addition telling the character which language to reply in; empty for English. */
+export function buildLanguageInstructions(code: LanguageCode | null): string {
+  if (!code || code === DEFAULT_LANGUAGE) return "";
+  const { name } = getLanguage(code);
+  return `
+LANGUAGE: Always reply in ${name}, even when the user writes in another language or these instructions are in English. Keep your character's voice, idioms and period style in ${name}.`;
+}
+
+/**
+ * Interface string in the given language, falling back to English. `{name}`
+ * style placeholders are filled from `values`.
+ */
+export function translate(code: LanguageCode, key: UiStringKey, values: Record<string, string | number> = {}): string {
+  const template = UI_STRINGS[code]?.[key] ?? UI_STRINGS.en[key];
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in values ? String(values[name]) : match));
+}
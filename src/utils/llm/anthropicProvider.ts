@@ -0,0 +1,45 @@
+/**
+ * LLM provider backed by the Anthropic Messages API.
+ *
+ * @module llm/anthropicProvider
+ */
+
+import type Anthropic from "@anthropic-ai/sdk";
+import defaultClient from "../anthropicClient";
+import { getClaudeModel } from "../claudeModelSelector";
+import type { LlmProvider, LlmRequest, ModelTier } from "./types";
+
+export function createAnthropicProvider(client: Anthropic = defaultClient): LlmProvider {
+  const getModel = (tier: ModelTier) => (tier === "text" ? getClaudeModel("text") : getClaudeModel("text-simple"));
+
+  const toParams = (request: LlmRequest) => ({
+    model: getModel(request.tier),
+    ...(request.system ? { system: request.system } : {}),
+    messages: request.messages,
+    max_tokens: request.maxTokens,
+    ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+    ...(request.stopSequences?.length ? { stop_sequences: request.stopSequences } : {}),
+  });
+
+  return {
+    name: "anthropic",
+    getModel,
+    async complete(request) {
+      const params = toParams(request);
+      const result = await client.messages.create(params);
+      const block = result?.content?.[0];
+      return {
+        text: block?.type === "text" ? block.text : "",
+        model: params.model,
+        ...(result?.usage ? { usage: { inputTokens: result.usage.input_tokens, outputTokens: result.usage.output_tokens } } : {}),
+      };
+    },
+    async *stream(request) {
+      for await (const event of client.messages.stream(toParams(request))) {
+        if (event.type === "content_block_delta" && event.delta.type === "text_delta" && event.delta.text) {
+          yield event.delta.text;
+        }
+      }
+    },
+  };
+}
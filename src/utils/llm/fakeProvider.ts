@@ -0,0 +1,47 @@
+/**
+ * Deterministic LLM provider for offline tests and local runs without API keys
+ * (`LLM_PROVIDER=fake`). Replies are computed from the request, so the same
+ * request always produces the same text.
+ *
+ * @module llm/fakeProvider
+ */
+
+import { getModel } from "../claudeModelSelector";
+import type { LlmProvider, LlmRequest } from "./types";
+
+export interface FakeProviderOptions {
+  /** Fixed reply, or a function of the request. Defaults to echoing the last user message. */
+  reply?: string | ((request: LlmRequest) => string);
+}
+
+function defaultReply(request: LlmRequest) {
+  const lastUser = [...request.messages].reverse().find((m) => m.role === "user");
+  return `[${request.tier}] ${lastUser?.content ?? ""}`.trim();
+}
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export function createFakeProvider(options: FakeProviderOptions = {}): LlmProvider {
+  const replyFor = (request: LlmRequest) =>
+    typeof options.reply === "function" ? options.reply(request) : options.reply ?? defaultReply(request);
+
+  return {
+    name: "fake",
+    getModel: (tier) => getModel(tier, "fake"),
+    async complete(request) {
+      const text = replyFor(request);
+      const input = [request.system ?? "", ...request.messages.map((m) => m.content)].join("\n");
+      return {
+        text,
+        model: getModel(request.tier, "fake"),
+        usage: { inputTokens: estimateTokens(input), outputTokens: estimateTokens(text) },
+      };
+    },
+    async *stream(request) {
+      // Word-sized chunks, like a real stream
+      for (const chunk of replyFor(request).match(/\S+\s*/g) ?? []) {
+        yield chunk;
+      }
+    },
+  };
+}
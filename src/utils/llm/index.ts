@@ -0,0 +1,46 @@
+/**
+ * Entry point for LLM calls on the server. `getLlmProvider()` returns the
+ * provider selected by `LLM_PROVIDER`:
+ *
+ * - `anthropic` (default): Anthropic Messages API with `ANTHROPIC_API_KEY`
+ * - `openai-compatible`: any Chat Completions server at `LLM_BASE_URL` (optional `LLM_API_KEY`)
+ * - `fake`: deterministic offline replies
+ *
+ * @module llm
+ */
+
+import { getLlmProviderName } from "../claudeModelSelector";
+import { createAnthropicProvider } from "./anthropicProvider";
+import { createFakeProvider } from "./fakeProvider";
+import { createOpenAiCompatibleProvider } from "./openAiCompatibleProvider";
+import type { LlmProvider } from "./types";
+
+export type { LlmMessage, LlmProvider, LlmRequest, LlmResponse, LlmUsage, ModelTier } from "./types";
+export { createAnthropicProvider, createFakeProvider, createOpenAiCompatibleProvider };
+
+const DEFAULT_OPENAI_COMPATIBLE_URL = "http://localhost:8080/v1";
+
+let activeProvider: LlmProvider | null = null;
+
+export function getLlmProvider(): LlmProvider {
+  if (activeProvider) return activeProvider;
+  const name = getLlmProviderName();
+  if (name === "openai-compatible") {
+    activeProvider = createOpenAiCompatibleProvider({
+      baseUrl: process.env.LLM_BASE_URL || DEFAULT_OPENAI_COMPATIBLE_URL,
+      apiKey: process.env.LLM_API_KEY,
+    });
+  } else if (name === "fake") {
+    activeProvider = createFakeProvider();
+  } else {
+    activeProvider = createAnthropicProvider();
+  }
+  return activeProvider;
+}
+
+/**
+ * Registers a provider (e.g. a fake in tests). Pass null to fall back to the `LLM_PROVIDER` selection.
+ */
+export function setLlmProvider(provider: LlmProvider | null) {
+  activeProvider = provider;
+}
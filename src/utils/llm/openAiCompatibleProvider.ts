@@ -0,0 +1,97 @@
+/**
+ * LLM provider for any server implementing the OpenAI Chat Completions API,
+ * e.g. a local llama.cpp server, Ollama (`http://localhost:11434/v1`), vLLM or OpenAI itself.
+ *
+ * @module llm/openAiCompatibleProvider
+ */
+
+import { getModel } from "../claudeModelSelector";
+import type { LlmProvider, LlmRequest, ModelTier } from "./types";
+
+export interface OpenAiCompatibleOptions {
+  /** Base URL including the API version, e.g. `http://localhost:8080/v1`. */
+  baseUrl: string;
+  apiKey?: string;
+  /** Model per tier; defaults to the model router's LLM_MODEL* settings. */
+  models?: Partial<Record<ModelTier, string>>;
+}
+
+// The Chat Completions API accepts at most four stop sequences
+const MAX_STOP_SEQUENCES = 4;
+
+interface ChatCompletion {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string | null } }>;
+}
+
+export function createOpenAiCompatibleProvider(options: OpenAiCompatibleOptions): LlmProvider {
+  const endpoint = `${options.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+  const modelFor = (tier: ModelTier) => options.models?.[tier] || getModel(tier, "openai-compatible");
+
+  const post = async (request: LlmRequest, stream: boolean) => {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: modelFor(request.tier),
+        messages: [
+          ...(request.system ? [{ role: "system", content: request.system }] : []),
+          ...request.messages,
+        ],
+        max_tokens: request.maxTokens,
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        ...(request.stopSequences?.length ? { stop: request.stopSequences.slice(0, MAX_STOP_SEQUENCES) } : {}),
+        ...(stream ? { stream: true } : {}),
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`LLM request failed: HTTP ${response.status}`);
+    }
+    return response;
+  };
+
+  return {
+    name: "openai-compatible",
+    getModel: modelFor,
+    async complete(request) {
+      const data = (await (await post(request, false)).json()) as ChatCompletion;
+      const usage = data.usage;
+      return {
+        text: data.choices?.[0]?.message?.content ?? "",
+        model: modelFor(request.tier),
+        ...(typeof usage?.prompt_tokens === "number" && typeof usage.completion_tokens === "number"
+          ? { usage: { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens } }
+          : {}),
+      };
+    },
+    async *stream(request) {
+      const response = await post(request, true);
+      if (!response.body) throw new Error("LLM stream has no body");
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        // Server-sent events: one `data: <json>` line per chunk, ending with `data: [DONE]`
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        for (const line of lines) {
+          const data = line.trim().replace(/^data:\s*/, "");
+          if (!line.trim().startsWith("data:") || !data) continue;
+          if (data === "[DONE]") return;
+          const content = (JSON.parse(data) as ChatCompletionChunk).choices?.[0]?.delta?.content;
+          if (content) yield content;
+        }
+      }
+    },
+  };
+}
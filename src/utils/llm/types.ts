@@ -0,0 +1,47 @@
+/**
+ * Provider-neutral types for LLM calls. Server code talks to an `LlmProvider`
+ * (see getLlmProvider) instead of a vendor SDK, so chat, personality, voice
+ * casting and validation work the same against Anthropic, an OpenAI-compatible
+ * server or the fake provider used in offline tests.
+ *
+ * @module llm/types
+ */
+
+import type { LlmProviderName, ModelTier } from "../claudeModelSelector";
+
+export type { LlmProviderName, ModelTier };
+
+export interface LlmMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface LlmRequest {
+  /** Picks the model through the model router (claudeModelSelector.getModel). */
+  tier: ModelTier;
+  system?: string;
+  messages: LlmMessage[];
+  maxTokens: number;
+  temperature?: number;
+  stopSequences?: string[];
+}
+
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmResponse {
+  /** Text of the reply; empty when the model returned no text. */
+  text: string;
+  model: string;
+  usage?: LlmUsage;
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  getModel(tier: ModelTier): string;
+  complete(request: LlmRequest): Promise<LlmResponse>;
+  /** Yields the reply text as it is generated. */
+  stream(request: LlmRequest): AsyncIterable<string>;
+}
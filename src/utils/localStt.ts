@@ -0,0 +1,91 @@
+/**
+ * Offline speech-to-text engine (`STT_ENGINE=whisper`) that runs the
+ * whisper.cpp command-line tool as a subprocess. The uploaded WAV is written to
+ * a temporary file, transcribed without timestamps, and removed again.
+ *
+ * @module localStt
+ */
+
+import { spawn } from "child_process";
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { SttEngine, TranscriptionRequest } from "./stt";
+
+export interface WhisperSttOptions {
+  /** Executable path; defaults to `whisper-cli` on PATH. */
+  binary?: string;
+  /** ggml model file, e.g. ggml-base.en.bin; required. */
+  model?: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+/** Markers whisper.cpp prints for non-speech, e.g. "[BLANK_AUDIO]" or "(wind blowing)". */
+const NON_SPEECH = /\[[^\]]*\]|\([^)]*\)/g;
+
+/** Transcript text from whisper.cpp's stdout, without non-speech markers or line breaks. */
+export function parseWhisperOutput(stdout: string): string {
+  return stdout.replace(NON_SPEECH, " ").replace(/\s+/g, " ").trim();
+}
+
+/** whisper.cpp language code for a BCP-47 tag ("en-GB" → "en"); "auto" when unknown. */
+export function whisperLanguage(language: string | undefined): string {
+  const code = language?.trim().toLowerCase().split("-")[0];
+  return code && /^[a-z]{2,3}$/.test(code) ? code : "auto";
+}
+
+function run(binary: string, args: string[], timeoutMs: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(binary, args, { stdio: ["ignore", "pipe", "pipe"] });
+    let stdout = "";
+    let stderr = "";
+    const timer = setTimeout(() => {
+      child.kill();
+      reject(new Error(`${binary} timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+    child.stdout?.on("data", (chunk) => {
+      stdout += chunk;
+    });
+    child.stderr?.on("data", (chunk) => {
+      stderr = (stderr + chunk).slice(-500);
+    });
+    child.on("error", (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      if (code === 0) resolve(stdout);
+      else reject(new Error(`${binary} exited with code ${code}: ${stderr.trim()}`));
+    });
+  });
+}
+
+export function createWhisperSttEngine(options: WhisperSttOptions = {}): SttEngine {
+  const binary = options.binary || "whisper-cli";
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  return {
+    name: "whisper",
+    async transcribe({ audio, language }: TranscriptionRequest) {
+      if (!options.model) throw new Error("STT_WHISPER_MODEL is required for the whisper engine");
+      const filePath = path.join(os.tmpdir(), `stt-${crypto.randomUUID()}.wav`);
+      fs.writeFileSync(filePath, audio);
+      try {
+        const stdout = await run(binary, [
+          "-m", options.model,
+          "-f", filePath,
+          "-l", whisperLanguage(language),
+          "--no-timestamps",
+          "--no-prints",
+        ], timeoutMs);
+        return parseWhisperOutput(stdout);
+      } finally {
+        fs.rmSync(filePath, { force: true });
+      }
+    },
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * Offline text-to-speech engine (`TTS_ENGINE=local`) that runs eSpeak NG or
+ * Piper as a subprocess. Both write WAV audio; /api/audio detects the format
+ * when serving the file.
+ *
+ * Neither engine understands Google SSML, so markup is stripped (a `<sub>`
+ * is read as its alias). Pitch and rate come from the outer `<prosody>`
+ * element built by voiceHelpers.buildSsml.
+ *
+ * @module localTts
+ */
+
+import { spawn } from "child_process";
+import path from "path";
+import type { SpeechRequest, TtsEngine, TtsVoice } from "./tts";
+
+export type LocalTtsBackend = "espeak-ng" | "piper";
+
+export interface LocalTtsOptions {
+  backend?: LocalTtsBackend;
+  /** Executable path; defaults to the backend name on PATH. */
+  binary?: string;
+  /** Piper voice model (.onnx); required for Piper. */
+  piperModel?: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+// eSpeak NG defaults: 175 words per minute, pitch 50 on a 0-99 scale
+const ESPEAK_BASE_WPM = 175;
+const ESPEAK_BASE_PITCH = 50;
+
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+/** Plain text of an SSML document (or the text itself when not SSML). */
+export function toPlainText(text: string, ssml: boolean): string {
+  if (!ssml) return text.trim();
+  return text
+    .replace(/<sub alias="([^"]*)">[^<]*<\/sub>/g, " $1 ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&(amp|lt|gt|quot|apos);/g, (_, name: string) => XML_ENTITIES[name])
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Pitch in semitones and rate multiplier from an SSML `<prosody>` element. */
+export function readProsody(text: string, ssml: boolean): { pitch: number; rate: number } {
+  if (!ssml) return { pitch: 0, rate: 1 };
+  const pitch = Number(/pitch="(-?[\d.]+)st"/.exec(text)?.[1] ?? 0);
+  const rate = Number(/rate="([\d.]+)%"/.exec(text)?.[1] ?? 100) / 100;
+  return { pitch: Number.isFinite(pitch) ? pitch : 0, rate: Number.isFinite(rate) && rate > 0 ? rate : 1 };
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** eSpeak NG voice for a BCP-47 language code and Google SSML gender (2 = female). */
+export function espeakVoice(languageCode: string | null | undefined, ssmlGender: unknown): string {
+  const [language = "en", region] = (languageCode || "en-GB").toLowerCase().split("-");
+  const base = language === "en" && (region === "us" || region === "gb") ? `en-${region}` : language;
+  const female = ssmlGender === 2 || ssmlGender === "FEMALE";
+  return `${base}+${female ? "f3" : "m3"}`;
+}
+
+// Languages offered in the voice panel for eSpeak NG; it speaks many more given a language code
+const ESPEAK_LANGUAGES = ["en-GB", "en-US", "fr-FR", "de-DE", "es-ES", "it-IT", "pt-BR", "nl-NL"];
+
+/** eSpeak NG picks its voice from the language and gender, so each pair is one choice. */
+export function espeakVoices(): TtsVoice[] {
+  return ESPEAK_LANGUAGES.flatMap((languageCode) => [
+    { name: `espeak-${languageCode}-male`, languageCodes: [languageCode], ssmlGender: 1 },
+    { name: `espeak-${languageCode}-female`, languageCodes: [languageCode], ssmlGender: 2 },
+  ]);
+}
+
+/** The single voice of a Piper model; its language comes from the file name, e.g. en_GB-alan-medium.onnx. */
+export function piperVoice(model: string): TtsVoice {
+  const name = path.basename(model).replace(/\.onnx$/, "");
+  const match = /^([a-z]{2,3})_([A-Z]{2})\b/.exec(name);
+  return { name, languageCodes: match ? [`${match[1]}-${match[2]}`] : [], ssmlGender: 0 };
+}
+
+function run(binary: string, args: string[], input: string, timeoutMs: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(binary, args, { stdio: ["pipe", "ignore", "pipe"] });
+    let stderr = "";
+    const timer = setTimeout(() => {
+      child.kill();
+      reject(new Error(`${binary} timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+    child.stderr?.on("data", (chunk) => {
+      stderr = (stderr + chunk).slice(-500);
+    });
+    child.on("error", (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      if (code === 0) resolve();
+      else reject(new Error(`${binary} exited with code ${code}: ${stderr.trim()}`));
+    });
+    child.stdin?.end(input);
+  });
+}
+
+export function createLocalTtsEngine(options: LocalTtsOptions = {}): TtsEngine {
+  const backend = options.backend ?? "espeak-ng";
+  const binary = options.binary || backend;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  const argsFor = ({ text, ssml, voice, filePath }: SpeechRequest): string[] => {
+    const { pitch, rate } = readProsody(text, ssml);
+    if (backend === "piper") {
+      if (!options.piperModel) throw new Error("TTS_PIPER_MODEL is required for the Piper engine");
+      // Piper has no pitch control; length_scale is the inverse of speed
+      return ["--model", options.piperModel, "--output_file", filePath, "--length_scale", String(Math.round(100 / rate) / 100)];
+    }
+    return [
+      "-v", espeakVoice(voice.languageCode, voice.ssmlGender),
+      "-s", String(Math.round(clamp(ESPEAK_BASE_WPM * rate, 80, 450))),
+      "-p", String(Math.round(clamp(ESPEAK_BASE_PITCH + pitch * 2.5, 0, 99))),
+      "-w", filePath,
+      "--stdin",
+    ];
+  };
+
+  return {
+    name: "local",
+    async synthesize(request) {
+      const text = toPlainText(request.text, request.ssml);
+      if (!text) throw new Error("Nothing to synthesize");
+      await run(binary, argsFor(request), text, timeoutMs);
+    },
+    async listVoices() {
+      if (backend === "piper") return options.piperModel ? [piperVoice(options.piperModel)] : [];
+      return espeakVoices();
+    },
+    async healthCheck() {
+      await run(binary, ["--version"], "", timeoutMs);
+    },
+  };
+}
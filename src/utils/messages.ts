@@ -0,0 +1,94 @@
+/**
+ * Helpers for creating, upgrading and persisting chat messages.
+ * Histories are stored as versioned records (see storage.setVersionedJSON) and
+ * legacy `{ text, sender }` entries are upgraded through storage.migrateToVersioned.
+ *
+ * @module messages
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import storage from "./storage";
+import { MESSAGE_SCHEMA_VERSION, type Message, type MessageRole, type MessageUsage } from "../types/message";
+import { isAvatarMood } from "./avatarMoods";
+
+/** Display name used for messages typed by the user. */
+export const USER_SENDER = "User";
+
+const MESSAGE_ROLES: MessageRole[] = ["user", "assistant", "system"];
+
+export function isMessageRole(value: unknown): value is MessageRole {
+  return typeof value === "string" && (MESSAGE_ROLES as string[]).includes(value);
+}
+
+/**
+ * Creates a message with a fresh id and timestamp.
+ */
+export function createMessage(
+  fields: Pick<Message, "role" | "text" | "sender"> & Partial<Omit<Message, "role" | "text" | "sender">>,
+): Message {
+  return {
+    ...fields,
+    id: fields.id ?? uuidv4(),
+    timestamp: fields.timestamp ?? new Date().toISOString(),
+  };
+}
+
+export function createUserMessage(text: string): Message {
+  return createMessage({ role: "user", sender: USER_SENDER, text });
+}
+
+function parseUsage(value: unknown): MessageUsage | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const usage = value as Record<string, unknown>;
+  if (typeof usage.inputTokens !== "number" || typeof usage.outputTokens !== "number") return undefined;
+  return { inputTokens: usage.inputTokens, outputTokens: usage.outputTokens };
+}
+
+/**
+ * Upgrades a stored or received message to the current schema.
+ * Legacy messages get an id and timestamp, and their role is inferred from the
+ * "User" sender convention. Returns null for values that are not messages.
+ */
+export function normalizeMessage(value: unknown): Message | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.text !== "string" || typeof raw.sender !== "string") return null;
+  const role: MessageRole = isMessageRole(raw.role) ? raw.role : raw.sender === USER_SENDER ? "user" : "assistant";
+  const timestamp = typeof raw.timestamp === "string" && !Number.isNaN(Date.parse(raw.timestamp))
+    ? raw.timestamp
+    : new Date().toISOString();
+  return {
+    id: typeof raw.id === "string" && raw.id ? raw.id : uuidv4(),
+    role,
+    text: raw.text,
+    sender: raw.sender,
+    timestamp,
+    ...(typeof raw.audioFileUrl === "string" ? { audioFileUrl: raw.audioFileUrl } : {}),
+    ...(typeof raw.model === "string" ? { model: raw.model } : {}),
+    ...(parseUsage(raw.usage) ? { usage: parseUsage(raw.usage) } : {}),
+    ...(typeof raw.requestId === "string" ? { requestId: raw.requestId } : {}),
+    ...(isAvatarMood(raw.mood) ? { mood: raw.mood } : {}),
+  };
+}
+
+/** Normalizes an array of messages, dropping invalid entries. */
+export function normalizeMessages(value: unknown): Message[] {
+  if (!Array.isArray(value)) return [];
+  return value.map(normalizeMessage).filter((m): m is Message => m !== null);
+}
+
+/**
+ * Loads a chat history, migrating legacy arrays and older versioned records in place.
+ */
+export function loadChatHistory(key: string): Message[] {
+  try {
+    const record = storage.migrateToVersioned(key, MESSAGE_SCHEMA_VERSION, normalizeMessages);
+    return record ? normalizeMessages(record.payload) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveChatHistory(key: string, messages: Message[]) {
+  storage.setVersionedJSON(key, messages, MESSAGE_SCHEMA_VERSION);
+}
@@ -0,0 +1,88 @@
+/**
+ * Structured character personality: the fields the personality generator asks
+ * for, plus an optional setting and example dialogue added in the editor.
+ *
+ * Bots keep the profile next to their prompt so it can be edited later, and
+ * /api/chat rebuilds the system prompt from it on every request. Shared by the
+ * client and the server.
+ *
+ * @module personalityProfile
+ */
+
+export interface PersonalityProfile {
+  speakingStyle: string;
+  personalityTraits: string;
+  knowledgeDomains: string;
+  behavioralGuidelines: string;
+  quirks: string;
+  /** Where and when conversations take place. */
+  scenario?: string;
+  /** Sample exchanges showing how the character talks. */
+  exampleDialogue?: string;
+}
+
+export type PersonalityField = keyof PersonalityProfile;
+
+export const PERSONALITY_FIELDS: PersonalityField[] = [
+  "speakingStyle",
+  "personalityTraits",
+  "knowledgeDomains",
+  "behavioralGuidelines",
+  "quirks",
+  "scenario",
+  "exampleDialogue",
+];
+
+/** Per-field limit; example dialogue gets more room than the one-line fields. */
+export const MAX_PROFILE_FIELD_LENGTH = 600;
+export const MAX_EXAMPLE_DIALOGUE_LENGTH = 2000;
+
+export const RESPONSE_CONSTRAINTS = `Keep responses under 100 words. Always finish your current thought with proper punctuation before stopping.
+If telling a story, reach a natural pause point or cliffhanger. Never trail off mid-sentence.
+Never use action emotes or stage directions (e.g. *smiles*, *narrows eyes*, *laughs*). Speak only in dialogue and prose.`;
+
+export function createEmptyProfile(): PersonalityProfile {
+  return { speakingStyle: "", personalityTraits: "", knowledgeDomains: "", behavioralGuidelines: "", quirks: "" };
+}
+
+const fieldLimit = (field: PersonalityField) =>
+  field === "exampleDialogue" ? MAX_EXAMPLE_DIALOGUE_LENGTH : MAX_PROFILE_FIELD_LENGTH;
+
+/**
+ * Validates a profile from a request, card or storage. Fields are trimmed and
+ * capped; missing optional fields are dropped. Returns null for anything that
+ * is not a profile object.
+ */
+export function parsePersonalityProfile(value: unknown): PersonalityProfile | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const source = value as Record<string, unknown>;
+  const profile = createEmptyProfile();
+  let found = false;
+  for (const field of PERSONALITY_FIELDS) {
+    const raw = source[field];
+    if (typeof raw !== "string") continue;
+    found = true;
+    const text = raw.trim().slice(0, fieldLimit(field));
+    if (text || field in profile) profile[field] = text;
+  }
+  return found ? profile : null;
+}
+
+/** Builds the character's system prompt from its profile. */
+export function buildPersonalityPrompt(characterName: string, profile: PersonalityProfile): string {
+  const setting = profile.scenario ? `\nSETTING: ${profile.scenario}` : "";
+  const examples = profile.exampleDialogue
+    ? `\n\nEXAMPLE DIALOGUE (match this voice; do not repeat it verbatim):\n${profile.exampleDialogue}`
+    : "";
+  return `You are ${characterName}.
+
+SPEAKING STYLE: ${profile.speakingStyle || "Natural and authentic to character"}
+PERSONALITY: ${profile.personalityTraits || "Stay true to character"}
+KNOWLEDGE: ${profile.knowledgeDomains || "Use your internal knowledge"}
+BEHAVIOR: ${profile.behavioralGuidelines || "Respond naturally in character"}
+QUIRKS: ${profile.quirks || "Express character-specific mannerisms"}${setting}${examples}
+
+Stay in character at all times. Never break character or mention being an AI.
+
+${RESPONSE_CONSTRAINTS}`;
+}
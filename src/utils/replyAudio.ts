@@ -0,0 +1,76 @@
+/**
+ * Reply audio shared by /api/chat (whole replies and streamed sentences) and
+ * /api/voices (voice previews). Clips are named after a hash of their text and
+ * voice, so the same line in the same voice is only synthesized once.
+ *
+ * @module replyAudio
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import sanitizeFilename from "sanitize-filename";
+import logger from "./logger";
+import { setReplyCache } from "./cache";
+import { getAudioTmpDir, synthesizeSpeechToFile } from "./tts";
+import { normalizeStudioVoice, buildSsml } from "./voiceHelpers";
+import type { CharacterVoiceConfig } from "./characterVoices";
+
+/**
+ * Deterministic JSON serializer for cache key generation.
+ * - Sorts object keys alphabetically
+ * - Recurses through arrays and objects
+ * - Preserves types for consistent keys across nodes
+ */
+export function stableStringify(obj: unknown): string {
+  if (obj === null || typeof obj !== 'object') return JSON.stringify(obj);
+  if (Array.isArray(obj)) return '[' + obj.map(stableStringify).join(',') + ']';
+  const keys = Object.keys(obj as Record<string, unknown>).sort();
+  return '{' + keys.map(k => JSON.stringify(k) + ':' + stableStringify((obj as Record<string, unknown>)[k])).join(',') + '}';
+}
+
+/** Audio file name (without extension) for a text spoken in a given voice. */
+export function getAudioCacheKey(text: string, voiceConfig: object) {
+  return crypto.createHash('sha256')
+    .update(text)
+    .update(stableStringify(voiceConfig))
+    .digest('hex');
+}
+
+/**
+ * Synthesizes a reply as SSML, reusing audio already generated for the same text and voice,
+ * and returns its /api/audio URL. Throws when synthesis fails.
+ */
+export async function synthesizeReplyAudio(
+  reply: string,
+  voiceConfig: CharacterVoiceConfig,
+  botName: string,
+  gender: string | undefined,
+): Promise<string> {
+  const selectedVoice = normalizeStudioVoice(voiceConfig);
+  const tmpDir = getAudioTmpDir();
+  if (!fs.existsSync(tmpDir)) {
+    fs.mkdirSync(tmpDir, { recursive: true });
+  }
+  const audioFileName = sanitizeFilename(`${getAudioCacheKey(reply, selectedVoice)}.mp3`);
+  const audioFilePath = path.join(tmpDir, audioFileName);
+  const txtFilePath = audioFilePath.replace(/\.mp3$/, ".txt");
+  if (!fs.existsSync(audioFilePath)) {
+    await synthesizeSpeechToFile({
+      text: buildSsml(reply, selectedVoice),
+      filePath: audioFilePath,
+      ssml: true,
+      voice: selectedVoice,
+    });
+    fs.writeFileSync(txtFilePath, reply, "utf8");
+    setReplyCache(audioFileName, reply);
+  }
+  try {
+    if (!fs.existsSync(txtFilePath) || fs.readFileSync(txtFilePath, "utf8").trim() !== reply.trim()) {
+      fs.writeFileSync(txtFilePath, reply, "utf8");
+    }
+  } catch (err) {
+    logger.error("Failed to ensure .txt file for audio reply:", { error: err });
+  }
+  return `/api/audio?file=${audioFileName}&text=${encodeURIComponent(reply)}&botName=${encodeURIComponent(botName)}&gender=${encodeURIComponent(gender || '')}&voiceConfig=${encodeURIComponent(JSON.stringify(voiceConfig))}`;
+}
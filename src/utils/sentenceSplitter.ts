@@ -0,0 +1,82 @@
+/**
+ * Splits reply text into sentences so speech can be synthesized one sentence at a
+ * time while a reply is still streaming.
+ *
+ * A sentence ends at `.`, `!`, `?` or `…` (plus any closing quotes or brackets)
+ * followed by whitespace, or at a line break. Common abbreviations, initials,
+ * decimals and anything inside an unclosed `*emote*` do not end a sentence.
+ *
+ * @module sentenceSplitter
+ */
+
+const TERMINATORS = ".!?…";
+const CLOSERS = "\"'”’)]";
+const ABBREVIATIONS = new Set(["mr", "mrs", "ms", "dr", "prof", "st", "jr", "sr", "vs", "e.g", "i.e"]);
+
+/** True when the "." at `index` ends an abbreviation or an initial rather than a sentence. */
+function isAbbreviation(text: string, index: number): boolean {
+  const word = /([A-Za-z.]+)$/.exec(text.slice(0, index))?.[1];
+  if (!word) return false;
+  return ABBREVIATIONS.has(word.toLowerCase()) || /^[A-Z]$/.test(word);
+}
+
+/** Offsets just past each sentence in `text`. A boundary needs the character after it to be known. */
+function findSentenceEnds(text: string): number[] {
+  const ends: number[] = [];
+  let inEmote = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "*") {
+      inEmote = !inEmote;
+      continue;
+    }
+    if (inEmote) continue;
+    if (ch === "\n") {
+      ends.push(i);
+      continue;
+    }
+    if (!TERMINATORS.includes(ch)) continue;
+    let end = i + 1;
+    while (end < text.length && (TERMINATORS.includes(text[end]) || CLOSERS.includes(text[end]))) end++;
+    const confirmed = end < text.length && /\s/.test(text[end]);
+    if (confirmed && !(ch === "." && isAbbreviation(text, i))) ends.push(end);
+    i = end - 1;
+  }
+  return ends;
+}
+
+function sliceSentences(text: string, ends: number[]): string[] {
+  const sentences: string[] = [];
+  let start = 0;
+  for (const end of ends) {
+    sentences.push(text.slice(start, end).trim());
+    start = end;
+  }
+  return sentences.filter(Boolean);
+}
+
+/** Splits complete text into sentences; the trailing text counts as a sentence even without punctuation. */
+export function splitSentences(text: string): string[] {
+  const ends = findSentenceEnds(text);
+  return sliceSentences(text, [...ends, text.length]);
+}
+
+export interface SentenceSplitter {
+  /** Adds streamed text and returns the sentences it completed, in order. */
+  push(chunk: string): string[];
+}
+
+/** Incremental splitter for streamed text; text after the last complete sentence is held back. */
+export function createSentenceSplitter(): SentenceSplitter {
+  let buffer = "";
+  return {
+    push(chunk) {
+      buffer += chunk;
+      const ends = findSentenceEnds(buffer);
+      if (ends.length === 0) return [];
+      const sentences = sliceSentences(buffer, ends);
+      buffer = buffer.slice(ends[ends.length - 1]);
+      return sentences;
+    },
+  };
+}
@@ -103,7 +103,8 @@ export function getVersionedJSON<T = unknown>(key: string): VersionedRecord<T> |
 
 /**
  * Attempt to migrate an existing unversioned JSON value at `key` into a versioned record.
- * - If the stored value is already a versioned record, returns it.
+ * - If the stored value is already a versioned record, returns it. When the record is older than
+ *   `targetVersion` and a `transform` is given, its payload is upgraded and written back.
  * - If the stored value is unversioned JSON, it will be wrapped with the provided targetVersion
  *   and the wrapped record will be written back to storage.
  * - If parsing fails or there's no value, returns null.
@@ -115,12 +116,14 @@ export function migrateToVersioned<T = unknown>(key: string, targetVersion = 1,
   if (!raw) return null;
   try {
     const parsed = JSON.parse(raw);
-    // Already versioned
-    if (parsed && typeof parsed.v === 'number' && parsed.createdAt && 'payload' in parsed) {
+    const isVersioned = parsed && typeof parsed.v === 'number' && parsed.createdAt && 'payload' in parsed;
+    // Already versioned and either current or without an upgrade path
+    if (isVersioned && (parsed.v >= targetVersion || !transform)) {
       return parsed as VersionedRecord<T>;
     }
-    const payload = transform ? transform(parsed) : parsed;
-    const wrapper: VersionedRecord<T> = { v: targetVersion, createdAt: new Date().toISOString(), payload };
+    const payload = transform ? transform(isVersioned ? parsed.payload : parsed) : parsed;
+    const createdAt = isVersioned ? parsed.createdAt : new Date().toISOString();
+    const wrapper: VersionedRecord<T> = { v: targetVersion, createdAt, payload };
     try {
       setItem(key, JSON.stringify(wrapper));
     } catch {
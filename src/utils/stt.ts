@@ -0,0 +1,70 @@
+/**
+ * Speech-to-text (STT) used by /api/transcribe when the browser has no Web
+ * Speech API. `transcribeSpeech` goes through the engine selected by `STT_ENGINE`:
+ *
+ * - `whisper`: a local whisper.cpp binary run as a subprocess (see localStt.ts)
+ * - `none`: no server transcription (default); voice input then needs the browser's own recognition
+ *
+ * @module stt
+ */
+
+import { createWhisperSttEngine } from "./localStt";
+
+export type SttEngineName = "whisper" | "none";
+
+export const STT_ENGINES: SttEngineName[] = ["whisper", "none"];
+
+export interface TranscriptionRequest {
+  /** 16-bit PCM WAV audio (see wav.ts). */
+  audio: Uint8Array;
+  /** BCP-47 language hint, e.g. "en-GB"; engines detect the language when it is missing. */
+  language?: string;
+}
+
+export interface SttEngine {
+  name: SttEngineName;
+  /** Resolves to the transcribed text, or "" when nothing was said. */
+  transcribe(request: TranscriptionRequest): Promise<string>;
+}
+
+/** Engine used when no STT is configured. */
+export function createSilentSttEngine(): SttEngine {
+  return {
+    name: "none",
+    async transcribe() {
+      throw new Error("Speech-to-text is disabled");
+    },
+  };
+}
+
+/** Engine selected by `STT_ENGINE`; none unless configured. */
+export function getSttEngineName(): SttEngineName {
+  const configured = process.env.STT_ENGINE?.trim().toLowerCase();
+  return (STT_ENGINES as string[]).includes(configured ?? "") ? configured as SttEngineName : "none";
+}
+
+let activeEngine: SttEngine | null = null;
+
+export function getSttEngine(): SttEngine {
+  if (activeEngine) return activeEngine;
+  activeEngine = getSttEngineName() === "whisper"
+    ? createWhisperSttEngine({ binary: process.env.STT_WHISPER_BINARY, model: process.env.STT_WHISPER_MODEL })
+    : createSilentSttEngine();
+  return activeEngine;
+}
+
+/**
+ * Registers an engine (e.g. a stub in tests). Pass null to fall back to the `STT_ENGINE` selection.
+ */
+export function setSttEngine(engine: SttEngine | null) {
+  activeEngine = engine;
+}
+
+/** False when the server cannot transcribe speech. */
+export function isSttEnabled(): boolean {
+  return getSttEngine().name !== "none";
+}
+
+export async function transcribeSpeech(request: TranscriptionRequest): Promise<string> {
+  return getSttEngine().transcribe(request);
+}
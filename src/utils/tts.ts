@@ -1,12 +1,13 @@
 /**
- * Google Text-to-Speech (TTS) utility for synthesizing audio from text.
- * Handles credential loading, TTS client instantiation, speech synthesis, and audio file cleanup.
- */
-
-/**
- * Google Text-to-Speech (TTS) utility functions.
+ * Text-to-Speech (TTS) utility functions.
  *
- * Handles credential loading, TTS client instantiation, speech synthesis, and audio file cleanup.
+ * `synthesizeSpeechToFile` writes audio through the engine selected by `TTS_ENGINE`:
+ *
+ * - `google`: Google Cloud TTS (default when `GOOGLE_APPLICATION_CREDENTIALS_JSON` is set)
+ * - `local`: eSpeak NG or Piper run as a subprocess (see localTts.ts)
+ * - `none`: no audio; chat replies are text-only (default without Google credentials)
+ *
+ * Also handles Google credential loading and client instantiation.
  *
  * @module tts
  */
@@ -18,6 +19,38 @@ import os from "os";
 import path from "path";
 import logger, { sanitizeLogMeta } from "./logger";
 import sanitizeFilename from "sanitize-filename";
+import { createLocalTtsEngine } from "./localTts";
+
+export type TtsEngineName = "google" | "local" | "none";
+
+export const TTS_ENGINES: TtsEngineName[] = ["google", "local", "none"];
+
+/** One synthesis call, after the output path has been validated. */
+export interface SpeechRequest {
+  /** Plain text, or SSML when `ssml` is true. */
+  text: string;
+  ssml: boolean;
+  voice: protos.google.cloud.texttospeech.v1.IVoiceSelectionParams;
+  audioConfig: protos.google.cloud.texttospeech.v1.IAudioConfig;
+  filePath: string;
+}
+
+/** A voice the engine can speak with, as offered in the voice panel. */
+export interface TtsVoice {
+  name: string;
+  languageCodes: string[];
+  /** Google SSML gender number: 1 male, 2 female. */
+  ssmlGender: number;
+}
+
+export interface TtsEngine {
+  name: TtsEngineName;
+  synthesize(request: SpeechRequest): Promise<void>;
+  /** Voices available to choose from; empty when the engine has no choice of voice. */
+  listVoices(): Promise<TtsVoice[]>;
+  /** Resolves when the engine can synthesize; used by /api/health. */
+  healthCheck(): Promise<void>;
+}
 
 /**
  * Google Cloud service account credentials interface
@@ -96,6 +129,14 @@ let ttsClient:
   | import("@google-cloud/text-to-speech").TextToSpeechClient
   | null = null;
 
+/**
+ * Directory holding synthesized reply audio and the .txt file recording each
+ * clip's text. /api/chat writes here and /api/audio serves from here.
+ */
+export function getAudioTmpDir(): string {
+  return process.env.TTS_TMP_DIR || os.tmpdir();
+}
+
 /**
  * Returns a singleton instance of the Google Text-to-Speech client.
  * @returns {import("@google-cloud/text-to-speech").TextToSpeechClient}
@@ -117,8 +158,8 @@ export function getTTSClient() {
 }
 
 /**
- * Synthesizes speech from text and writes the result to a file.
- * Retries up to 3 times on failure. Cleans up old audio files in the same directory.
+ * Synthesizes speech from text with the configured engine and writes the result to a file.
+ * The file must be an .mp3 under the system temp directory.
  *
  * @param {object} params - The parameters for synthesis.
  * @param {string} params.text - The text or SSML to synthesize.
@@ -127,7 +168,7 @@ export function getTTSClient() {
  * @param {object} [params.voice] - Voice configuration for TTS.
  * @param {object} [params.audioConfig] - Audio configuration for TTS.
  * @returns {Promise<void>} Resolves when the file is written.
- * @throws {Error} If synthesis fails after retries.
+ * @throws {Error} If synthesis fails or TTS is disabled.
  */
 export async function synthesizeSpeechToFile({
   text,
@@ -148,7 +189,6 @@ export async function synthesizeSpeechToFile({
   voice?: protos.google.cloud.texttospeech.v1.IVoice;
   audioConfig?: protos.google.cloud.texttospeech.v1.IAudioConfig;
 }): Promise<void> {
-  const input = ssml ? { ssml: text } : { text };
   // Sanitize output path to prevent path traversal attacks.
   // Callers must supply an absolute path; path.normalize (not path.resolve) is used
   // so Turbopack's NFT tracer does not sweep process.cwd() into the bundle.
@@ -175,35 +215,133 @@ export async function synthesizeSpeechToFile({
     languageCode: (voice.languageCodes && voice.languageCodes[0]) || "en-GB",
   };
   delete apiVoice.languageCodes;
-  const request: protos.google.cloud.texttospeech.v1.ISynthesizeSpeechRequest = {
-    input,
-    voice: apiVoice,
-    audioConfig,
-  };
-  const client = getTTSClient();
+  await getTtsEngine().synthesize({ text, ssml, voice: apiVoice, audioConfig, filePath: safeFile });
+}
 
-  // Retry synthesis with exponential backoff on transient failures
-  let lastError: unknown = null;
-  for (let attempt = 1; attempt <= 3; attempt++) {
-    try {
-      const [response] = await client.synthesizeSpeech(request);
-      if (!response || !response.audioContent) {
-        throw new Error("TTS API response is missing audioContent");
+/** The client reports genders as enum names ("FEMALE") or numbers depending on its options. */
+function toSsmlGenderNumber(gender: unknown): number {
+  const genders = protos.google.cloud.texttospeech.v1.SsmlVoiceGender;
+  if (typeof gender === "number") return gender;
+  if (typeof gender === "string" && gender in genders) return genders[gender as keyof typeof genders];
+  return genders.SSML_VOICE_GENDER_UNSPECIFIED;
+}
+
+/**
+ * Google Cloud TTS. Retries up to 3 times on failure.
+ */
+export function createGoogleTtsEngine(): TtsEngine {
+  return {
+    name: "google",
+    async synthesize({ text, ssml, voice, audioConfig, filePath }) {
+      const request: protos.google.cloud.texttospeech.v1.ISynthesizeSpeechRequest = {
+        input: ssml ? { ssml: text } : { text },
+        voice,
+        audioConfig,
+      };
+      const client = getTTSClient();
+
+      // Retry synthesis with exponential backoff on transient failures
+      let lastError: unknown = null;
+      for (let attempt = 1; attempt <= 3; attempt++) {
+        try {
+          const [response] = await client.synthesizeSpeech(request);
+          if (!response || !response.audioContent) {
+            throw new Error("TTS API response is missing audioContent");
+          }
+          fs.writeFileSync(filePath, response.audioContent, "binary");
+          logger.info("Audio file created", sanitizeLogMeta({
+            event: "audio_create",
+            filePath
+          }));
+          return;
+        } catch (err: unknown) {
+          lastError = err;
+          if (attempt < 3) {
+            await new Promise((resolve) => setTimeout(resolve, 500));
+          }
+        }
       }
-      fs.writeFileSync(safeFile, response.audioContent, "binary");
-      logger.info("Audio file created", sanitizeLogMeta({
-        event: "audio_create",
-        filePath: safeFile
-      }));
-      return;
-    } catch (err: unknown) {
-      lastError = err;
-      if (attempt < 3) {
-        await new Promise((resolve) => setTimeout(resolve, 500));
+      throw lastError;
+    },
+    async listVoices() {
+      const [response] = await getTTSClient().listVoices({});
+      return (response.voices ?? [])
+        .filter((voice) => !!voice.name)
+        .map((voice) => ({
+          name: voice.name as string,
+          languageCodes: voice.languageCodes ?? [],
+          ssmlGender: toSsmlGenderNumber(voice.ssmlGender),
+        }));
+    },
+    async healthCheck() {
+      const [response] = await getTTSClient().synthesizeSpeech({
+        input: { text: "ping" },
+        voice: {
+          languageCode: "en-GB",
+          name: "en-GB-Wavenet-D",
+          ssmlGender: protos.google.cloud.texttospeech.v1.SsmlVoiceGender.MALE,
+        },
+        audioConfig: {
+          audioEncoding: protos.google.cloud.texttospeech.v1.AudioEncoding.MP3,
+        },
+      });
+      if (!response || !response.audioContent) {
+        throw new Error("No audio content from TTS");
       }
-    }
+    },
+  };
+}
+
+/** Engine used when no TTS is configured: replies stay text-only. */
+export function createSilentTtsEngine(): TtsEngine {
+  return {
+    name: "none",
+    async synthesize() {
+      throw new Error("Text-to-speech is disabled");
+    },
+    async listVoices() {
+      return [];
+    },
+    async healthCheck() {},
+  };
+}
+
+/** Engine selected by `TTS_ENGINE`; Google when its credentials are set, otherwise none. */
+export function getTtsEngineName(): TtsEngineName {
+  const configured = process.env.TTS_ENGINE?.trim().toLowerCase();
+  if ((TTS_ENGINES as string[]).includes(configured ?? "")) return configured as TtsEngineName;
+  return process.env.GOOGLE_APPLICATION_CREDENTIALS_JSON ? "google" : "none";
+}
+
+let activeEngine: TtsEngine | null = null;
+
+export function getTtsEngine(): TtsEngine {
+  if (activeEngine) return activeEngine;
+  const name = getTtsEngineName();
+  if (name === "google") {
+    activeEngine = createGoogleTtsEngine();
+  } else if (name === "local") {
+    activeEngine = createLocalTtsEngine({
+      backend: process.env.TTS_LOCAL_BACKEND?.trim().toLowerCase() === "piper" ? "piper" : "espeak-ng",
+      binary: process.env.TTS_LOCAL_BINARY,
+      piperModel: process.env.TTS_PIPER_MODEL,
+    });
+  } else {
+    activeEngine = createSilentTtsEngine();
   }
-  throw lastError;
+  return activeEngine;
+}
+
+/**
+ * Registers an engine (e.g. a stub in tests). Pass null to fall back to the `TTS_ENGINE` selection.
+ */
+export function setTtsEngine(engine: TtsEngine | null) {
+  activeEngine = engine;
+}
+
+/** False when replies should be sent without audio. */
+export function isTtsEnabled(): boolean {
+  return getTtsEngine().name !== "none";
 }
 
 /**
@@ -0,0 +1,168 @@
+/**
+ * Catalogue of the voices the TTS engine offers, built from its list-voices
+ * call. Google's list is cached in memory and on disk for `VOICE_CATALOG_TTL_MS`
+ * so voice casting and the voice panel do not call the API each time; when the
+ * list cannot be fetched, a stale cache or the bundled snapshot stands in.
+ *
+ * Voice casting (characterVoices.fetchVoiceConfigFromClaude) checks Claude's
+ * choice against this catalogue instead of synthesizing a test phrase.
+ *
+ * @module voiceCatalog
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import logger, { sanitizeLogMeta } from "./logger";
+import { getTtsEngine, type TtsEngineName, type TtsVoice } from "./tts";
+import { GOOGLE_VOICE_SNAPSHOT } from "../data/googleVoices";
+
+export type VoiceCatalogSource = "live" | "cache" | "stale-cache" | "snapshot";
+
+export interface VoiceCatalog {
+  engine: TtsEngineName;
+  voices: TtsVoice[];
+  source: VoiceCatalogSource;
+}
+
+export interface VoiceCatalogOptions {
+  /** Disk cache location; defaults to tts-voice-catalog.json in the system temp directory. */
+  cacheFile?: string;
+  ttlMs?: number;
+}
+
+interface CachedCatalog {
+  fetchedAt: number;
+  voices: TtsVoice[];
+}
+
+export const VOICE_CATALOG_TTL_MS = 24 * 60 * 60 * 1000;
+// After a failed fetch, the fallback is reused for this long before Google is asked again
+const RETRY_AFTER_FAILURE_MS = 5 * 60 * 1000;
+
+let memoryCatalog: { catalog: VoiceCatalog; expiresAt: number } | null = null;
+let pendingCatalog: Promise<VoiceCatalog> | null = null;
+
+function defaultCacheFile(): string {
+  return path.join(os.tmpdir(), "tts-voice-catalog.json");
+}
+
+function readCacheFile(file: string): CachedCatalog | null {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(file, "utf8"));
+    if (typeof parsed?.fetchedAt !== "number" || !Array.isArray(parsed.voices) || parsed.voices.length === 0) return null;
+    return parsed as CachedCatalog;
+  } catch {
+    return null;
+  }
+}
+
+function writeCacheFile(file: string, cached: CachedCatalog) {
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const tmpPath = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(cached), "utf8");
+    fs.renameSync(tmpPath, file);
+  } catch (err) {
+    logger.warn("Failed to write voice catalogue cache", sanitizeLogMeta({
+      file,
+      error: err instanceof Error ? err.message : String(err),
+    }));
+  }
+}
+
+async function loadGoogleCatalog(cacheFile: string, ttlMs: number): Promise<{ catalog: VoiceCatalog; expiresAt: number }> {
+  const now = Date.now();
+  const cached = readCacheFile(cacheFile);
+  if (cached && now - cached.fetchedAt < ttlMs) {
+    return { catalog: { engine: "google", voices: cached.voices, source: "cache" }, expiresAt: cached.fetchedAt + ttlMs };
+  }
+  try {
+    const voices = await getTtsEngine().listVoices();
+    if (voices.length === 0) throw new Error("Voice list is empty");
+    writeCacheFile(cacheFile, { fetchedAt: now, voices });
+    logger.info("Voice catalogue refreshed", sanitizeLogMeta({ event: "voice_catalog_refreshed", voices: voices.length }));
+    return { catalog: { engine: "google", voices, source: "live" }, expiresAt: now + ttlMs };
+  } catch (err) {
+    logger.warn("Could not fetch the voice list; using a fallback catalogue", sanitizeLogMeta({
+      event: "voice_catalog_fetch_failed",
+      fallback: cached ? "stale-cache" : "snapshot",
+      error: err instanceof Error ? err.message : String(err),
+    }));
+    return {
+      catalog: cached
+        ? { engine: "google", voices: cached.voices, source: "stale-cache" }
+        : { engine: "google", voices: GOOGLE_VOICE_SNAPSHOT, source: "snapshot" },
+      expiresAt: now + RETRY_AFTER_FAILURE_MS,
+    };
+  }
+}
+
+/**
+ * Voices of the configured engine. Google's list is cached; other engines list
+ * their voices locally, so they are asked directly.
+ */
+export async function getVoiceCatalog(options: VoiceCatalogOptions = {}): Promise<VoiceCatalog> {
+  const engine = getTtsEngine();
+  if (engine.name !== "google") {
+    return { engine: engine.name, voices: await engine.listVoices(), source: "live" };
+  }
+  if (memoryCatalog && Date.now() < memoryCatalog.expiresAt) return memoryCatalog.catalog;
+  if (!pendingCatalog) {
+    pendingCatalog = loadGoogleCatalog(options.cacheFile ?? defaultCacheFile(), options.ttlMs ?? VOICE_CATALOG_TTL_MS)
+      .then((loaded) => {
+        memoryCatalog = loaded;
+        return loaded.catalog;
+      })
+      .finally(() => { pendingCatalog = null; });
+  }
+  return pendingCatalog;
+}
+
+/**
+ * Google voices to cast characters from: the live catalogue when Google is the
+ * engine, otherwise the bundled snapshot (other engines map a Google voice to
+ * one of their own by language and gender).
+ */
+export async function getCastingVoices(options: VoiceCatalogOptions = {}): Promise<TtsVoice[]> {
+  if (getTtsEngine().name !== "google") return GOOGLE_VOICE_SNAPSHOT;
+  return (await getVoiceCatalog(options)).voices;
+}
+
+export function findVoice(voices: TtsVoice[], name: string): TtsVoice | undefined {
+  return voices.find((voice) => voice.name === name);
+}
+
+/** Sorted locales that have at least one voice. */
+export function listLocales(voices: TtsVoice[]): string[] {
+  return [...new Set(voices.flatMap((voice) => voice.languageCodes))].sort();
+}
+
+/** The voice family in a Google voice name, e.g. "Wavenet" in en-GB-Wavenet-D. */
+function voiceFamily(name: string): string {
+  return name.split("-").slice(-2, -1)[0] ?? "";
+}
+
+/**
+ * A catalogue voice in the requested locale, preferring the same gender and
+ * then the same family as the voice asked for; undefined when the locale has no voices.
+ */
+export function suggestVoice(
+  voices: TtsVoice[],
+  wanted: { languageCode: string; ssmlGender?: number; name?: string },
+): TtsVoice | undefined {
+  const locale = wanted.languageCode.toLowerCase();
+  const inLocale = voices.filter((voice) => voice.languageCodes.some((code) => code.toLowerCase() === locale));
+  const sameGender = inLocale.filter((voice) => wanted.ssmlGender === undefined || voice.ssmlGender === wanted.ssmlGender);
+  const candidates = sameGender.length > 0 ? sameGender : inLocale;
+  const family = wanted.name ? voiceFamily(wanted.name) : "";
+  return candidates.find((voice) => family && voiceFamily(voice.name) === family) ?? candidates[0];
+}
+
+/**
+ * TEST-ONLY: Forget the in-memory catalogue so the next call reads the disk cache or the engine.
+ */
+export function __resetVoiceCatalogForTest() {
+  memoryCatalog = null;
+  pendingCatalog = null;
+}
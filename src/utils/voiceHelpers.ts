@@ -1,10 +1,34 @@
 /**
- * Shared voice utilities used by the chat and audio API routes.
- * Centralises Studio voice normalisation and SSML generation so the logic
- * lives in one place.
+ * Shared voice utilities used by the chat, audio and voices API routes and the
+ * voice panel. Centralises Studio voice normalisation, the allowed pitch and
+ * rate ranges, and SSML generation so the logic lives in one place.
+ *
+ * Replies may carry tone tags such as `[whispering]` from the chat model; they
+ * become per-sentence prosody in the SSML and are stripped from displayed text.
+ * Names are read using the shared pronunciation lexicon for the voice's language,
+ * overridden by the voice's own pronunciations.
  */
 
-import type { CharacterVoiceConfig } from "./characterVoices";
+import type { CharacterVoiceConfig, Pronunciation } from "./characterVoices";
+import { splitSentences } from "./sentenceSplitter";
+import { PRONUNCIATION_LEXICON } from "../data/pronunciationLexicon";
+
+/** Pitch adjustment in semitones; 0 is the voice's natural pitch. */
+export const VOICE_PITCH_RANGE = { min: -20, max: 20, default: 0 } as const;
+/** Speaking rate multiplier; 1.0 is normal speed. */
+export const VOICE_RATE_RANGE = { min: 0.25, max: 4.0, default: 1.0 } as const;
+
+/** Pitch clamped to VOICE_PITCH_RANGE; the default when not a number. */
+export function clampPitch(pitch: unknown): number {
+  if (typeof pitch !== "number" || !Number.isFinite(pitch)) return VOICE_PITCH_RANGE.default;
+  return Math.max(VOICE_PITCH_RANGE.min, Math.min(VOICE_PITCH_RANGE.max, pitch));
+}
+
+/** Rate clamped to VOICE_RATE_RANGE; the default when not a number. */
+export function clampRate(rate: unknown): number {
+  if (typeof rate !== "number" || !Number.isFinite(rate)) return VOICE_RATE_RANGE.default;
+  return Math.max(VOICE_RATE_RANGE.min, Math.min(VOICE_RATE_RANGE.max, rate));
+}
 
 const VALID_STUDIO_VOICES = ["en-US-Studio-M", "en-US-Studio-O"] as const;
 
@@ -42,17 +66,148 @@ export function normalizeStudioVoice(
   return FALLBACK_STUDIO_VOICE;
 }
 
+export type SpeechTone = "angry" | "whispering" | "excited" | "sad";
+
+/** Prosody for each tone, relative to the voice's own pitch and rate. */
+const TONE_PROSODY: Record<SpeechTone, { pitch: string; rate: string; volume: string }> = {
+  angry: { pitch: "+2st", rate: "110%", volume: "loud" },
+  whispering: { pitch: "-2st", rate: "90%", volume: "x-soft" },
+  excited: { pitch: "+4st", rate: "115%", volume: "loud" },
+  sad: { pitch: "-3st", rate: "85%", volume: "soft" },
+};
+
+export const SPEECH_TONES = Object.keys(TONE_PROSODY) as SpeechTone[];
+
+const TONE_TAG = new RegExp(`\\[(${SPEECH_TONES.join("|")})\\]`, "i");
+const TONE_TAGS = new RegExp(`${TONE_TAG.source}[ \\t]*`, "gi");
+
+/** System prompt addition that asks the chat model for tone tags when replies are spoken. */
+export const TONE_TAG_INSTRUCTIONS = `
+VOICE TONE: Your replies are spoken aloud. When a sentence is clearly angry, whispered, excited or sad, start it with the matching tag: ${SPEECH_TONES.map((tone) => `[${tone}]`).join(", ")}. Use tags sparingly and never explain them; they are removed from the text the user reads.`;
+
+/** Reply text without tone tags, as shown to the user. */
+export function stripToneTags(text: string): string {
+  return text.replace(TONE_TAGS, "");
+}
+
+const SENTENCE_BREAK = '<break time="300ms"/>';
+const ELLIPSIS_BREAK = '<break time="600ms"/>';
+const ELLIPSIS = /\s*(?:\.{3}|…)\s*/;
+
+/** Escapes text for use in SSML content or attribute values. */
+export function escapeSsml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/** Most pronunciations one voice keeps; later entries are dropped. */
+export const MAX_PRONUNCIATIONS = 50;
+const MAX_PRONUNCIATION_TEXT_LENGTH = 60;
+const MAX_PRONUNCIATION_LENGTH = 100;
+
+function trimmedString(value: unknown, maxLength: number): string {
+  return typeof value === "string" ? value.trim().slice(0, maxLength) : "";
+}
+
+/**
+ * Pronunciation entries from a voice config, request or card: each names a word
+ * and gives either a phoneme transcription or a sound-alike alias (the phoneme
+ * wins when both are set). Malformed entries are dropped.
+ */
+export function parsePronunciations(list: unknown): Pronunciation[] {
+  if (!Array.isArray(list)) return [];
+  const entries: Pronunciation[] = [];
+  for (const raw of list) {
+    if (!raw || typeof raw !== "object") continue;
+    const entry = raw as Record<string, unknown>;
+    const text = trimmedString(entry.text, MAX_PRONUNCIATION_TEXT_LENGTH);
+    const phoneme = trimmedString(entry.phoneme, MAX_PRONUNCIATION_LENGTH);
+    const alias = trimmedString(entry.alias, MAX_PRONUNCIATION_LENGTH);
+    if (!text || (!phoneme && !alias)) continue;
+    entries.push(phoneme
+      ? { text, phoneme, alphabet: entry.alphabet === "x-sampa" ? "x-sampa" : "ipa" }
+      : { text, alias });
+    if (entries.length === MAX_PRONUNCIATIONS) break;
+  }
+  return entries;
+}
+
+/** Lexicon entries for the voice's language followed by the voice's own, which win on conflicts. */
+function pronunciationsFor(voiceConfig: CharacterVoiceConfig): Pronunciation[] {
+  const language = (voiceConfig.languageCodes?.[0] ?? "").toLowerCase().split("-")[0];
+  return [...(PRONUNCIATION_LEXICON[language] ?? []), ...parsePronunciations(voiceConfig.pronunciations)];
+}
+
+function pronounce(word: string, entry: Pronunciation): string {
+  if (entry.phoneme) {
+    return `<phoneme alphabet="${entry.alphabet ?? "ipa"}" ph="${escapeSsml(entry.phoneme)}">${escapeSsml(word)}</phoneme>`;
+  }
+  return `<sub alias="${escapeSsml(entry.alias!)}">${escapeSsml(word)}</sub>`;
+}
+
+/** Escaped text with whole-word pronunciation overrides applied (longest entries first). */
+function speakText(text: string, pronunciations: Pronunciation[]): string {
+  if (pronunciations.length === 0) return escapeSsml(text);
+  const byWord = new Map(pronunciations.map((entry) => [entry.text.trim().toLowerCase(), entry]));
+  const words = [...byWord.keys()]
+    .sort((a, b) => b.length - a.length)
+    .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${words.join("|")})(?![\\p{L}\\p{N}])`, "giu");
+  let ssml = "";
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    ssml += escapeSsml(text.slice(last, match.index)) + pronounce(match[0], byWord.get(match[0].toLowerCase())!);
+    last = match.index + match[0].length;
+  }
+  return ssml + escapeSsml(text.slice(last));
+}
+
+/** A phrase with each ellipsis turned into a longer pause. */
+function renderPhrase(text: string, pronunciations: Pronunciation[]): string {
+  return text.trim().split(ELLIPSIS).map((part) => speakText(part, pronunciations)).join(ELLIPSIS_BREAK);
+}
+
+function toneAttributes(tone: SpeechTone, withPitch: boolean): string {
+  const { pitch, rate, volume } = TONE_PROSODY[tone];
+  return `${withPitch ? `pitch="${pitch}" ` : ""}rate="${rate}" volume="${volume}"`;
+}
+
+/** One sentence; text after a tone tag is wrapped in that tone's prosody. */
+function renderSentence(sentence: string, pronunciations: Pronunciation[], withPitch: boolean): string {
+  const [lead, ...tagged] = sentence.split(TONE_TAG);
+  const parts = lead.trim() ? [renderPhrase(lead, pronunciations)] : [];
+  for (let i = 0; i < tagged.length; i += 2) {
+    if (!tagged[i + 1].trim()) continue;
+    const tone = tagged[i].toLowerCase() as SpeechTone;
+    parts.push(`<prosody ${toneAttributes(tone, withPitch)}>${renderPhrase(tagged[i + 1], pronunciations)}</prosody>`);
+  }
+  return parts.join(" ");
+}
+
+/** SSML body for a reply: escaped sentences separated by short pauses. */
+function renderBody(text: string, voiceConfig: CharacterVoiceConfig, withPitch: boolean): string {
+  const pronunciations = pronunciationsFor(voiceConfig);
+  return splitSentences(text)
+    .map((sentence) => renderSentence(sentence, pronunciations, withPitch))
+    .filter(Boolean)
+    .reduce((ssml, sentence) => {
+      if (!ssml || ssml.endsWith(ELLIPSIS_BREAK)) return ssml + sentence;
+      return ssml + SENTENCE_BREAK + sentence;
+    }, "");
+}
+
 /**
- * Builds an SSML string for Google TTS.
- * Studio voices use plain `<speak>` wrappers; all other voices apply
- * `<prosody>` pitch and rate attributes.
+ * Builds an SSML string for Google TTS from reply text.
+ * Text is escaped, sentences and ellipses get pauses, tone tags become nested
+ * `<prosody>`, and lexicon and voice pronunciations become `<phoneme>` or `<sub>`.
+ * Studio voices use plain `<speak>` wrappers (and no pitch changes); all other
+ * voices apply `<prosody>` pitch and rate attributes.
  */
 export function buildSsml(
   text: string,
   voiceConfig: CharacterVoiceConfig,
 ): string {
   if (isStudioVoice(voiceConfig)) {
-    return `<speak>${text}</speak>`;
+    return `<speak>${renderBody(text, voiceConfig, false)}</speak>`;
   }
   const pitch =
     typeof voiceConfig.pitch === "number" ? voiceConfig.pitch : -13;
@@ -60,5 +215,5 @@ export function buildSsml(
     typeof voiceConfig.rate === "number"
       ? `${Math.round(voiceConfig.rate * 100)}%`
       : "80%";
-  return `<speak><prosody pitch="${pitch}st" rate="${rate}"> ${text} </prosody></speak>`;
+  return `<speak><prosody pitch="${pitch}st" rate="${rate}"> ${renderBody(text, voiceConfig, true)} </prosody></speak>`;
 }
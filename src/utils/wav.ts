@@ -0,0 +1,54 @@
+/**
+ * 16-bit PCM WAV encoding for recorded speech. The browser records in whatever
+ * container it prefers (WebM, MP4); the client resamples to mono at
+ * `SPEECH_SAMPLE_RATE` and uploads WAV, which every STT engine accepts.
+ * Shared by the client (encoding) and /api/transcribe (validation).
+ *
+ * @module wav
+ */
+
+/** Sample rate Whisper models are trained on. */
+export const SPEECH_SAMPLE_RATE = 16_000;
+
+const HEADER_BYTES = 44;
+
+/** Encodes mono samples in the range [-1, 1] as a 16-bit PCM WAV file. */
+export function encodeWav(samples: Float32Array, sampleRate: number = SPEECH_SAMPLE_RATE): Uint8Array {
+  const buffer = new ArrayBuffer(HEADER_BYTES + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeAscii(0, "RIFF");
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeAscii(8, "WAVE");
+  writeAscii(12, "fmt ");
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeAscii(36, "data");
+  view.setUint32(40, samples.length * 2, true);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(HEADER_BYTES + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+  return new Uint8Array(buffer);
+}
+
+/** True when the bytes start with a RIFF/WAVE header. */
+export function isWav(bytes: Uint8Array): boolean {
+  if (bytes.length < HEADER_BYTES) return false;
+  const ascii = (start: number) => String.fromCharCode(...bytes.subarray(start, start + 4));
+  return ascii(0) === "RIFF" && ascii(8) === "WAVE";
+}
+
+/** Approximate duration in seconds of a WAV file, from its header's byte rate. */
+export function wavDurationSeconds(bytes: Uint8Array): number {
+  if (!isWav(bytes)) return 0;
+  const byteRate = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(28, true);
+  return byteRate > 0 ? (bytes.length - HEADER_BYTES) / byteRate : 0;
+}
@@ -38,6 +38,7 @@ jest.mock('fs', () => ({
 }));
 
 jest.mock("../../src/utils/claudeModelSelector", () => ({
+    ...jest.requireActual("../../src/utils/claudeModelSelector"),
     getClaudeModel: (type: "text" | "text-simple" | "image") => {
         if (type === "image") return { primary: "gemini-3.1-flash-lite-image" };
         return "claude-haiku-4-5-20251001";
@@ -172,9 +173,24 @@ describe('generate-avatar API', () => {
         expect(data.avatarUrl).toBeTruthy();
     });
 
-    it('returns silhouette fallback when GOOGLE_CLOUD_PROJECT is missing', async () => {
+    it('draws the initials placeholder when GOOGLE_CLOUD_PROJECT is missing', async () => {
         delete process.env.GOOGLE_CLOUD_PROJECT;
         const handler = (await import('../../pages/api/generate-avatar')).default;
+        const { req, res } = createMocks({ method: 'POST', body: { name: 'Sherlock Holmes', variants: 3, expressions: true } });
+        await handler(req, res);
+        expect(res._getStatusCode()).toBe(200);
+        const data = res._getJSONData();
+        expect(data.avatarUrl).toMatch(/^data:image\/svg\+xml;base64,/);
+        expect(Buffer.from(data.avatarUrl.split(',')[1], 'base64').toString()).toContain('>SH</text>');
+        expect(data.avatarUrls).toEqual([data.avatarUrl]);
+        expect(data).not.toHaveProperty('expressions');
+        expect(mockGenerateContent).not.toHaveBeenCalled();
+    });
+
+    it('returns silhouette fallback when Gemini is chosen without GOOGLE_CLOUD_PROJECT', async () => {
+        delete process.env.GOOGLE_CLOUD_PROJECT;
+        process.env.IMAGE_PROVIDER = 'gemini';
+        const handler = (await import('../../pages/api/generate-avatar')).default;
         const { req, res } = createMocks({ method: 'POST', body: { name: 'Sherlock Holmes' } });
         await handler(req, res);
         expect(res._getStatusCode()).toBe(200);
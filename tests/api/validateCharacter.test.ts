@@ -21,6 +21,7 @@ jest.mock('@anthropic-ai/sdk', () => ({
 }));
 
 jest.mock("../../src/utils/claudeModelSelector", () => ({
+    ...jest.requireActual("../../src/utils/claudeModelSelector"),
     getClaudeModel: (type: "text" | "text-simple" | "image") => {
         if (type === "image") throw new Error("Unknown type");
         return "claude-haiku-4-5-20251001";
@@ -21,6 +21,7 @@ jest.mock('next/navigation', () => ({
 // Mock dynamic imports - need to capture callbacks for testing
 let mockBotCreatorOnBotCreated: ((bot: Bot) => void) | null = null;
 let mockChatPageOnBackToCreation: (() => void) | null = null;
+let mockChatPageOnChangePortrait: ((avatarUrl: string) => void) | null = null;
 
 jest.mock('next/dynamic', () => (importFunc: () => Promise<{ default: React.ComponentType<unknown> }>) => {
   // Return different mocks based on the import path
@@ -28,8 +29,9 @@ jest.mock('next/dynamic', () => (importFunc: () => Promise<{ default: React.Comp
     mockBotCreatorOnBotCreated = onBotCreated;
     return <div data-testid="bot-creator">Bot Creator</div>;
   };
-  const MockChatPage = ({ onBackToCharacterCreation }: { onBackToCharacterCreation: () => void }) => {
+  const MockChatPage = ({ onBackToCharacterCreation, onChangePortrait }: { onBackToCharacterCreation: () => void; onChangePortrait?: (avatarUrl: string) => void }) => {
     mockChatPageOnBackToCreation = onBackToCharacterCreation;
+    mockChatPageOnChangePortrait = onChangePortrait ?? null;
     return <div data-testid="chat-page">Chat Page</div>;
   };
   
@@ -44,7 +46,7 @@ jest.mock('next/dynamic', () => (importFunc: () => Promise<{ default: React.Comp
         if (props.onBotCreated) {
           return MockBotCreator(props as { onBotCreated: (bot: Bot) => void });
         } else if (props.onBackToCharacterCreation) {
-          return MockChatPage(props as { onBackToCharacterCreation: () => void });
+          return MockChatPage(props as { onBackToCharacterCreation: () => void; onChangePortrait?: (avatarUrl: string) => void });
         }
         return <div data-testid="mock-component">Mock Component</div>;
       };
@@ -208,4 +210,30 @@ describe('Home component URL parameter functionality', () => {
       expect(screen.getByTestId('bot-creator')).toBeInTheDocument();
     });
   });
-});
\ No newline at end of file
+
+  it('swaps only the portrait when a new one is picked in the chat', async () => {
+    const existingBot: Bot = {
+      name: 'ExistingBot',
+      personality: 'friendly',
+      avatarUrl: '/avatar.jpg',
+      voiceConfig: { name: 'en-US-Standard-A', languageCodes: ['en-US'], ssmlGender: 0, pitch: 0, rate: 1.0, type: 'Standard' },
+    };
+    // Expressions painted from the old portrait would no longer match it
+    mockGetValidBotFromStorage.mockReturnValue({ ...existingBot, expressions: { happy: '/api/avatar/happy' } });
+
+    render(<Home />);
+
+    await waitFor(() => {
+      expect(mockChatPageOnChangePortrait).not.toBeNull();
+    });
+
+    await act(async () => {
+      mockChatPageOnChangePortrait!('/api/avatar/new');
+    });
+
+    await waitFor(() => {
+      expect(mockStorage.setJSON).toHaveBeenCalledWith('chatbot-bot', { ...existingBot, avatarUrl: '/api/avatar/new' });
+      expect(screen.getByTestId('chat-page')).toBeInTheDocument();
+    });
+  });
+});
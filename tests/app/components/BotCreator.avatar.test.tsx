@@ -0,0 +1,72 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import BotCreator from '../../../app/components/BotCreator';
+
+jest.mock('next/navigation', () => ({
+  useSearchParams: () => new URLSearchParams(),
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+  logEvent: jest.fn(),
+  sanitizeLogMeta: (m: unknown) => m,
+}));
+
+const mockUpload = jest.fn();
+jest.mock('../../../app/components/api_uploadAvatar', () => ({
+  AVATAR_UPLOAD_ACCEPT: 'image/png,image/jpeg,image/webp',
+  api_uploadAvatar: (...args: unknown[]) => mockUpload(...args),
+}));
+
+const uploadedUrl = `/api/avatar/${'c'.repeat(64)}`;
+
+function choosePortrait() {
+  const file = new File([new Uint8Array([0x89, 0x50])], 'me.png', { type: 'image/png' });
+  fireEvent.change(screen.getByTestId('bot-creator-avatar-input'), { target: { files: [file] } });
+  return file;
+}
+
+describe('BotCreator portrait upload', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // @ts-expect-error test-mock: assign mocked fetch to global
+    global.fetch = jest.fn(() => Promise.resolve({ ok: true, json: () => Promise.resolve({ warningLevel: 'none' }) }));
+  });
+
+  afterEach(() => {
+    // @ts-expect-error test-mock: remove mocked fetch from global
+    delete global.fetch;
+  });
+
+  it('uses an uploaded portrait for the new character', async () => {
+    mockUpload.mockResolvedValueOnce(uploadedUrl);
+    const onBotCreated = jest.fn();
+    render(<BotCreator onBotCreated={onBotCreated} />);
+
+    const file = choosePortrait();
+    expect(await screen.findByTestId('bot-creator-custom-avatar')).toHaveTextContent('Your portrait will be used instead of a generated one.');
+    expect(mockUpload).toHaveBeenCalledWith(file);
+    expect(decodeURIComponent(screen.getByAltText('Uploaded portrait').getAttribute('src') ?? '')).toContain(`${uploadedUrl}-thumb`);
+
+    fireEvent.change(screen.getByTestId('bot-creator-input'), { target: { value: 'Tamsin' } });
+    fireEvent.click(screen.getByTestId('bot-creator-button'));
+    await waitFor(() => expect(onBotCreated).toHaveBeenCalledWith(expect.objectContaining({ name: 'Tamsin', avatarUrl: uploadedUrl })));
+    const requested = (global.fetch as jest.Mock).mock.calls.map(([url]) => url);
+    expect(requested).not.toContain('/api/generate-avatar');
+  });
+
+  it('can drop the uploaded portrait again', async () => {
+    mockUpload.mockResolvedValueOnce(uploadedUrl);
+    render(<BotCreator onBotCreated={jest.fn()} />);
+    choosePortrait();
+    fireEvent.click(await screen.findByRole('button', { name: 'Remove portrait' }));
+    expect(screen.queryByTestId('bot-creator-custom-avatar')).not.toBeInTheDocument();
+  });
+
+  it('shows why an upload was refused', async () => {
+    mockUpload.mockRejectedValueOnce(new Error('Please choose a PNG, JPEG or WebP image.'));
+    render(<BotCreator onBotCreated={jest.fn()} />);
+    choosePortrait();
+    expect(await screen.findByRole('alert')).toHaveTextContent('Please choose a PNG, JPEG or WebP image.');
+    expect(screen.queryByTestId('bot-creator-custom-avatar')).not.toBeInTheDocument();
+  });
+});
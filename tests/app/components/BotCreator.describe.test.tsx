@@ -0,0 +1,79 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import BotCreator from '../../../app/components/BotCreator';
+import { authenticatedFetch } from '../../../src/utils/api';
+import { api_getVoiceConfigForCharacter } from '../../../app/components/api_getVoiceConfigForCharacter';
+
+jest.mock('next/navigation', () => ({
+  useSearchParams: () => new URLSearchParams(),
+}));
+jest.mock('../../../src/utils/api');
+jest.mock('../../../app/components/api_getVoiceConfigForCharacter');
+jest.mock('../../../src/utils/voiceConfigPersistence');
+
+const mockFetch = authenticatedFetch as jest.MockedFunction<typeof authenticatedFetch>;
+const mockGetVoice = api_getVoiceConfigForCharacter as jest.MockedFunction<typeof api_getVoiceConfigForCharacter>;
+const voiceConfig = { name: 'en-GB-Wavenet-D', languageCodes: ['en-GB'], ssmlGender: 1, pitch: 0, rate: 1 };
+
+const bodyOf = (url: string) => {
+  const call = mockFetch.mock.calls.find(([u]) => u === url);
+  return call ? JSON.parse(String(call[1]?.body)) : undefined;
+};
+
+describe('BotCreator original character mode', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockFetch.mockImplementation((url: string) => {
+      if (url === '/api/validate-character') {
+        return Promise.resolve({ ok: true, json: async () => ({ characterName: 'Tamsin', isPublicDomain: true, isSafe: true, warningLevel: 'none' }) } as any);
+      }
+      if (url === '/api/generate-personality') return Promise.resolve({ ok: true, json: async () => ({ personality: 'You are Tamsin.' }) } as any);
+      if (url === '/api/generate-avatar') return Promise.resolve({ ok: true, json: async () => ({ avatarUrl: '/silhouette.svg', gender: 'female' }) } as any);
+      return Promise.resolve({ ok: true, json: async () => ({}) } as any);
+    });
+    mockGetVoice.mockResolvedValue(voiceConfig);
+  });
+
+  it('shows the description fields and hides the random button when toggled', () => {
+    render(<BotCreator onBotCreated={jest.fn()} />);
+    expect(screen.queryByTestId('bot-creator-description')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByTestId('bot-creator-describe-toggle'));
+    expect(screen.getByTestId('bot-creator-description')).toBeInTheDocument();
+    expect(screen.getByLabelText('Backstory')).toBeInTheDocument();
+    expect(screen.getByLabelText('Era')).toBeInTheDocument();
+    expect(screen.queryByLabelText('Choose a random character name')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Use a well-known character instead'));
+    expect(screen.queryByTestId('bot-creator-description')).not.toBeInTheDocument();
+  });
+
+  it('requires at least one description field', () => {
+    const onBotCreated = jest.fn();
+    render(<BotCreator onBotCreated={onBotCreated} />);
+    fireEvent.click(screen.getByTestId('bot-creator-describe-toggle'));
+    fireEvent.change(screen.getByTestId('bot-creator-input'), { target: { value: 'Tamsin' } });
+    fireEvent.click(screen.getByTestId('bot-creator-button'));
+
+    expect(screen.getByText('Please describe your character.')).toBeInTheDocument();
+    expect(mockFetch).not.toHaveBeenCalledWith('/api/generate-personality', expect.anything());
+  });
+
+  it('sends the description to personality, portrait and voice generation', async () => {
+    const onBotCreated = jest.fn();
+    render(<BotCreator onBotCreated={onBotCreated} />);
+    fireEvent.click(screen.getByTestId('bot-creator-describe-toggle'));
+    fireEvent.change(screen.getByTestId('bot-creator-input'), { target: { value: 'Tamsin' } });
+    fireEvent.change(screen.getByLabelText('Era'), { target: { value: 'Cornwall, 1880s' } });
+    fireEvent.change(screen.getByLabelText('Temperament'), { target: { value: '  Gruff but kind  ' } });
+    fireEvent.click(screen.getByTestId('bot-creator-button'));
+
+    await waitFor(() => expect(onBotCreated).toHaveBeenCalled());
+    const description = { backstory: '', era: 'Cornwall, 1880s', appearance: '', temperament: 'Gruff but kind', speakingStyle: '' };
+    expect(bodyOf('/api/generate-personality')).toEqual({ name: 'Tamsin', description });
+    expect(bodyOf('/api/generate-avatar')).toEqual({ name: 'Tamsin', expressions: true, description });
+    expect(mockGetVoice).toHaveBeenCalledWith('Tamsin', 'female', description);
+    expect(onBotCreated).toHaveBeenCalledWith(expect.objectContaining({ name: 'Tamsin', voiceConfig }));
+  });
+});
@@ -0,0 +1,67 @@
+import React from 'react';
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
+import BotCreator from '../../../app/components/BotCreator';
+import { serializeCharacterCard } from '../../../src/utils/characterCard';
+
+jest.mock('next/navigation', () => ({
+  useSearchParams: () => new URLSearchParams(),
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+  logEvent: jest.fn(),
+  sanitizeLogMeta: (m: unknown) => m,
+}));
+
+const bot = {
+  name: 'Robin Hood',
+  personality: 'You are Robin Hood, outlaw of Sherwood Forest.',
+  avatarUrl: '/silhouette.svg',
+  voiceConfig: null,
+  gender: 'male',
+};
+
+function chooseFile(text: string, name: string) {
+  const bytes = new TextEncoder().encode(text);
+  const file = new File([bytes], name, { type: 'application/json' });
+  // jsdom's File lacks arrayBuffer()
+  Object.defineProperty(file, 'arrayBuffer', { value: async () => bytes.slice().buffer });
+  fireEvent.change(screen.getByTestId('bot-creator-import-input'), { target: { files: [file] } });
+}
+
+describe('BotCreator character card import', () => {
+  beforeEach(() => {
+    // @ts-expect-error test-mock: assign mocked fetch to global
+    global.fetch = jest.fn(() => Promise.resolve({ json: () => Promise.resolve({}) }));
+  });
+
+  afterEach(() => {
+    // @ts-expect-error test-mock: remove mocked fetch from global
+    delete global.fetch;
+  });
+
+  it('creates the bot from an imported card', async () => {
+    const onBotCreated = jest.fn();
+    render(<BotCreator onBotCreated={onBotCreated} />);
+    expect(screen.getByTestId('bot-creator-import')).toHaveTextContent('Import character card');
+    chooseFile(serializeCharacterCard(bot), 'robin.card.json');
+    await waitFor(() => expect(onBotCreated).toHaveBeenCalledWith(bot));
+  });
+
+  it('stores an embedded portrait and keeps only its avatar URL', async () => {
+    (global.fetch as jest.Mock).mockImplementation((url: string) => Promise.resolve(url === '/api/upload-avatar'
+      ? { ok: true, json: () => Promise.resolve({ avatarUrl: '/api/avatar/abc' }) }
+      : { json: () => Promise.resolve({}) }));
+    const onBotCreated = jest.fn();
+    render(<BotCreator onBotCreated={onBotCreated} />);
+    chooseFile(serializeCharacterCard({ ...bot, avatarUrl: 'data:image/png;base64,AQID' }), 'robin.card.json');
+    await waitFor(() => expect(onBotCreated).toHaveBeenCalledWith({ ...bot, avatarUrl: '/api/avatar/abc' }));
+  });
+
+  it('shows why a file could not be imported', async () => {
+    const onBotCreated = jest.fn();
+    render(<BotCreator onBotCreated={onBotCreated} />);
+    chooseFile('{"hello":"world"}', 'notes.json');
+    expect(await screen.findByRole('alert')).toHaveTextContent('This file is not a character card.');
+    expect(onBotCreated).not.toHaveBeenCalled();
+  });
+});
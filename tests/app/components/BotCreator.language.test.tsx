@@ -0,0 +1,63 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import BotCreator, { type Bot } from '../../../app/components/BotCreator';
+import { LanguageProvider } from '../../../app/components/LanguageContext';
+
+jest.mock('next/navigation', () => ({
+  useSearchParams: () => new URLSearchParams(),
+}));
+
+// Records the language BotCreator hands to the generation hook
+const mockUseBotCreation = jest.fn();
+jest.mock('../../../app/components/useBotCreation', () => ({
+  useBotCreation: (onGenerated: (bot: Bot) => void, language: string) => {
+    mockUseBotCreation(language);
+    return {
+      input: '', setInput: jest.fn(), error: '', loading: false, progress: null,
+      randomizing: false, loadingMessage: null, validating: false, validationResult: null, showValidationModal: false,
+      describing: false, setDescribing: jest.fn(), description: {}, setDescription: jest.fn(),
+      handleCreate: jest.fn(), handleCancel: jest.fn(), handleRandomCharacter: jest.fn(),
+      handleValidationContinue: jest.fn(), handleValidationCancel: jest.fn(), handleValidationSuggestion: jest.fn(),
+    };
+  },
+}));
+
+describe('BotCreator conversation language', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    mockUseBotCreation.mockClear();
+    // @ts-expect-error test-mock: assign mocked fetch to global
+    global.fetch = jest.fn(() => Promise.resolve({ json: () => Promise.resolve({}) }));
+  });
+
+  afterEach(() => {
+    // @ts-expect-error test-mock: remove mocked fetch from global
+    delete global.fetch;
+  });
+
+  it('defaults to English', () => {
+    render(<LanguageProvider><BotCreator onBotCreated={jest.fn()} /></LanguageProvider>);
+    expect(screen.getByTestId('bot-creator-language')).toHaveValue('en');
+    expect(screen.getByText('Character Chatbot Generator')).toBeInTheDocument();
+    expect(mockUseBotCreation).toHaveBeenLastCalledWith('en');
+  });
+
+  it('translates the form and creates characters in the chosen language', () => {
+    render(<LanguageProvider><BotCreator onBotCreated={jest.fn()} /></LanguageProvider>);
+    fireEvent.change(screen.getByTestId('bot-creator-language'), { target: { value: 'de' } });
+
+    expect(screen.getByText('Charakter-Chatbot-Generator')).toBeInTheDocument();
+    expect(screen.getByPlaceholderText('Namen eingeben')).toBeInTheDocument();
+    expect(screen.getByText('Würfel')).toBeInTheDocument();
+    expect(mockUseBotCreation).toHaveBeenLastCalledWith('de');
+    expect(localStorage.getItem('language')).toBe('de');
+    expect(document.documentElement.lang).toBe('de');
+  });
+
+  it('restores the last chosen language', () => {
+    localStorage.setItem('language', 'fr');
+    render(<LanguageProvider><BotCreator onBotCreated={jest.fn()} /></LanguageProvider>);
+    expect(screen.getByTestId('bot-creator-language')).toHaveValue('fr');
+    expect(screen.getByText('Langue de la conversation')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,71 @@
+import React from 'react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import BotCreator, { type Bot } from '../../../app/components/BotCreator';
+
+jest.mock('next/navigation', () => ({
+  useSearchParams: () => new URLSearchParams(),
+}));
+
+// Captures the callback BotCreator hands to the generation hook
+let mockGenerated: ((bot: Bot) => void) | null = null;
+jest.mock('../../../app/components/useBotCreation', () => ({
+  useBotCreation: (onGenerated: (bot: Bot) => void) => {
+    mockGenerated = onGenerated;
+    return {
+      input: '', setInput: jest.fn(), error: '', loading: false, progress: null,
+      randomizing: false, loadingMessage: null, validating: false, validationResult: null, showValidationModal: false,
+      handleCreate: jest.fn(), handleCancel: jest.fn(), handleRandomCharacter: jest.fn(),
+      handleValidationContinue: jest.fn(), handleValidationCancel: jest.fn(), handleValidationSuggestion: jest.fn(),
+    };
+  },
+}));
+
+const generated: Bot = {
+  name: 'Dracula',
+  personality: 'generated prompt',
+  avatarUrl: '/silhouette.svg',
+  voiceConfig: null,
+  profile: { speakingStyle: 'ornate', personalityTraits: 'charming', knowledgeDomains: 'the night', behavioralGuidelines: '', quirks: '' },
+};
+
+describe('BotCreator personality review', () => {
+  beforeEach(() => {
+    // @ts-expect-error test-mock: assign mocked fetch to global
+    global.fetch = jest.fn(() => Promise.resolve({ json: () => Promise.resolve({}) }));
+  });
+
+  afterEach(() => {
+    // @ts-expect-error test-mock: remove mocked fetch from global
+    delete global.fetch;
+  });
+
+  it('creates the character directly unless review is requested', () => {
+    const onBotCreated = jest.fn();
+    render(<BotCreator onBotCreated={onBotCreated} />);
+    act(() => mockGenerated!(generated));
+    expect(onBotCreated).toHaveBeenCalledWith(generated);
+  });
+
+  it('opens the editor first when review is requested', () => {
+    const onBotCreated = jest.fn();
+    render(<BotCreator onBotCreated={onBotCreated} />);
+    fireEvent.click(screen.getByTestId('bot-creator-review'));
+    act(() => mockGenerated!(generated));
+    expect(onBotCreated).not.toHaveBeenCalled();
+    expect(screen.getByTestId('personality-editor')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Save and chat'));
+    expect(onBotCreated).toHaveBeenCalledWith(expect.objectContaining({
+      name: 'Dracula',
+      personality: expect.stringContaining('SPEAKING STYLE: ornate'),
+    }));
+  });
+
+  it('returns to the form when the draft is discarded', () => {
+    render(<BotCreator onBotCreated={jest.fn()} />);
+    fireEvent.click(screen.getByTestId('bot-creator-review'));
+    act(() => mockGenerated!(generated));
+    fireEvent.click(screen.getByText('Discard'));
+    expect(screen.getByTestId('bot-creator-input')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,59 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import CharacterLibrary from '../../../app/components/CharacterLibrary';
+import { loadLibrary, saveCharacter } from '../../../src/utils/characterLibrary';
+import storage from '../../../src/utils/storage';
+import type { Bot } from '../../../app/components/BotCreator';
+
+const makeBot = (name: string): Bot => ({
+  name,
+  personality: `You are ${name}.`,
+  avatarUrl: '/silhouette.svg',
+  voiceConfig: null,
+});
+
+describe('CharacterLibrary', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    jest.restoreAllMocks();
+  });
+
+  it('renders nothing while the library is empty', () => {
+    const { container } = render(<CharacterLibrary onSelect={jest.fn()} />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('opens a saved character and filters by search', () => {
+    saveCharacter(makeBot('Dracula'));
+    saveCharacter(makeBot('Merlin'));
+    const onSelect = jest.fn();
+    render(<CharacterLibrary onSelect={onSelect} excludeNames={['Merlin']} />);
+    expect(screen.queryByLabelText('Chat with Merlin')).not.toBeInTheDocument();
+    expect(screen.getByText('just now')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText('Chat with Dracula'));
+    expect(onSelect).toHaveBeenCalledWith(makeBot('Dracula'));
+
+    fireEvent.change(screen.getByLabelText('Search your characters'), { target: { value: 'zorro' } });
+    expect(screen.getByText(/No characters match/)).toBeInTheDocument();
+  });
+
+  it('pins and deletes characters after confirmation', () => {
+    saveCharacter(makeBot('Dracula'), undefined, '2026-01-01T00:00:00.000Z');
+    saveCharacter(makeBot('Merlin'));
+    storage.setJSON('chatbot-history-Dracula', []);
+    render(<CharacterLibrary onSelect={jest.fn()} />);
+
+    fireEvent.click(screen.getByLabelText('Pin Dracula'));
+    expect(screen.getByLabelText('Unpin Dracula')).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getAllByRole('listitem')[0]).toHaveTextContent('Dracula');
+
+    const confirm = jest.spyOn(window, 'confirm').mockReturnValueOnce(false).mockReturnValueOnce(true);
+    fireEvent.click(screen.getByLabelText('Delete Dracula'));
+    expect(loadLibrary()).toHaveLength(2);
+    fireEvent.click(screen.getByLabelText('Delete Dracula'));
+    expect(confirm).toHaveBeenCalledTimes(2);
+    expect(screen.queryByText('Dracula')).not.toBeInTheDocument();
+    expect(storage.getItem('chatbot-history-Dracula')).toBeNull();
+  });
+});
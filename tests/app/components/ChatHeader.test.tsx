@@ -3,6 +3,11 @@ import { render, screen, fireEvent } from '@testing-library/react';
 import ChatHeader from '@/app/components/ChatHeader';
 import { Bot } from '@/app/components/BotCreator';
 
+const mockGenerateAvatar = jest.fn();
+jest.mock('@/app/components/api_generateAvatar', () => ({
+  api_generateAvatar: (...args: unknown[]) => mockGenerateAvatar(...args),
+}));
+
 const mockOnDownloadTranscript = jest.fn();
 const mockOnShowPrompt = jest.fn();
 const mockOnHeaderLinkClick = jest.fn();
@@ -31,6 +36,22 @@ describe('ChatHeader', () => {
     expect(screen.getByAltText('Gandalf')).toBeInTheDocument();
   });
 
+  it('shows the thumbnail of a stored portrait', () => {
+    const avatarUrl = `/api/avatar/${'a'.repeat(64)}`;
+    render(<ChatHeader {...defaultProps} bot={{ ...defaultProps.bot, avatarUrl }} />);
+    expect(decodeURIComponent(screen.getByAltText('Gandalf').getAttribute('src') ?? '')).toContain(`${avatarUrl}-thumb`);
+  });
+
+  it('switches to the expression portrait for the latest mood', () => {
+    const happyUrl = `/api/avatar/${'b'.repeat(64)}`;
+    const bot = { ...defaultProps.bot, expressions: { happy: happyUrl } };
+    const { rerender } = render(<ChatHeader {...defaultProps} bot={bot} mood="happy" />);
+    expect(decodeURIComponent(screen.getByAltText('Gandalf').getAttribute('src') ?? '')).toContain(`${happyUrl}-thumb`);
+
+    rerender(<ChatHeader {...defaultProps} bot={bot} mood="angry" />);
+    expect(screen.getByAltText('Gandalf')).toHaveAttribute('src', expect.stringContaining('silhouette.svg'));
+  });
+
   it('calls onBackToCharacterCreation when back button is clicked', () => {
     render(<ChatHeader {...defaultProps} />);
     fireEvent.click(screen.getByLabelText(/open menu/i));
@@ -46,6 +67,37 @@ describe('ChatHeader', () => {
     expect(mockOnHeaderLinkClick).toHaveBeenCalled();
   });
 
+  it('opens the memories panel from the menu when available', () => {
+    const onOpenMemories = jest.fn();
+    const { rerender } = render(<ChatHeader {...defaultProps} />);
+    fireEvent.click(screen.getByLabelText(/open menu/i));
+    expect(screen.queryByText('Memories')).not.toBeInTheDocument();
+    rerender(<ChatHeader {...defaultProps} onOpenMemories={onOpenMemories} />);
+    fireEvent.click(screen.getByLabelText(/what the characters remember/i));
+    expect(onOpenMemories).toHaveBeenCalled();
+  });
+
+  it('offers the voice panel when the page provides it', () => {
+    const onOpenVoicePanel = jest.fn();
+    const { rerender } = render(<ChatHeader {...defaultProps} />);
+    fireEvent.click(screen.getByLabelText(/open menu/i));
+    expect(screen.queryByText('Voice')).not.toBeInTheDocument();
+    rerender(<ChatHeader {...defaultProps} onOpenVoicePanel={onOpenVoicePanel} />);
+    fireEvent.click(screen.getByLabelText(/tune the character's voice/i));
+    expect(onOpenVoicePanel).toHaveBeenCalled();
+  });
+
+  it('exports the character card in either format when available', () => {
+    const onExportCharacterCard = jest.fn();
+    const { rerender } = render(<ChatHeader {...defaultProps} />);
+    fireEvent.click(screen.getByLabelText(/open menu/i));
+    expect(screen.queryByText('Export Card (JSON)')).not.toBeInTheDocument();
+    rerender(<ChatHeader {...defaultProps} onExportCharacterCard={onExportCharacterCard} />);
+    fireEvent.click(screen.getByLabelText('Export character card as JSON'));
+    fireEvent.click(screen.getByLabelText('Export character card as PNG'));
+    expect(onExportCharacterCard.mock.calls).toEqual([['json'], ['png']]);
+  });
+
   it('shows the modal when avatar is clicked', () => {
     render(<ChatHeader {...defaultProps} />);
     fireEvent.click(screen.getByLabelText(/view character portrait/i));
@@ -66,6 +118,22 @@ describe('ChatHeader', () => {
     expect(container.firstChild).toBeNull();
   });
 
+  it('offers to regenerate the bot portrait from the image viewer', async () => {
+    const onChangePortrait = jest.fn();
+    const { rerender } = render(<ChatHeader {...defaultProps} />);
+    fireEvent.click(screen.getByLabelText(/view character portrait/i));
+    await screen.findByTestId('modal-image-backdrop');
+    expect(screen.queryByTestId('portrait-regenerator')).not.toBeInTheDocument();
+
+    rerender(<ChatHeader {...defaultProps} onChangePortrait={onChangePortrait} />);
+    expect(await screen.findByTestId('portrait-regenerator')).toBeInTheDocument();
+    mockGenerateAvatar.mockResolvedValueOnce(['data:image/png;base64,bmV3']);
+    fireEvent.click(screen.getByRole('button', { name: 'Regenerate portrait' }));
+    fireEvent.click(await screen.findByRole('button', { name: 'Use portrait 1' }));
+    expect(onChangePortrait).toHaveBeenCalledWith('data:image/png;base64,bmV3');
+    expect(screen.queryByTestId('modal-image-backdrop')).not.toBeInTheDocument();
+  });
+
   it('closes the modal when ModalImageViewer onClose is called', async () => {
     render(<ChatHeader {...defaultProps} />);
     // Open the modal
@@ -89,4 +157,50 @@ describe('ChatHeader', () => {
     // Should not throw and should not call onHeaderLinkClick
     expect(mockOnHeaderLinkClick).not.toHaveBeenCalled();
   });
+
+  describe('group conversations', () => {
+    const participants = [
+      defaultProps.bot,
+      { name: 'Dr. Watson', avatarUrl: '/silhouette.svg' },
+    ];
+
+    it('shows every participant portrait and name', () => {
+      render(<ChatHeader {...defaultProps} participants={participants} />);
+      expect(screen.getByTestId('group-avatars')).toBeInTheDocument();
+      expect(screen.getByText('Gandalf & Dr. Watson')).toBeInTheDocument();
+      expect(screen.getByLabelText("View Dr. Watson's portrait")).toBeInTheDocument();
+    });
+
+    it('exposes add, remove and turn policy controls in the menu', () => {
+      const onAddCharacter = jest.fn();
+      const onRemoveCharacter = jest.fn();
+      const onTurnPolicyChange = jest.fn();
+      render(
+        <ChatHeader
+          {...defaultProps}
+          participants={participants}
+          turnPolicy="round-robin"
+          onAddCharacter={onAddCharacter}
+          onRemoveCharacter={onRemoveCharacter}
+          onTurnPolicyChange={onTurnPolicyChange}
+        />
+      );
+      fireEvent.click(screen.getByLabelText(/open menu/i));
+      fireEvent.change(screen.getByTestId('turn-policy-select'), { target: { value: 'addressed' } });
+      expect(onTurnPolicyChange).toHaveBeenCalledWith('addressed');
+      expect(screen.queryByLabelText('Remove Gandalf from the conversation')).not.toBeInTheDocument();
+      fireEvent.click(screen.getByLabelText('Remove Dr. Watson from the conversation'));
+      expect(onRemoveCharacter).toHaveBeenCalledWith('Dr. Watson');
+      fireEvent.click(screen.getByLabelText(/open menu/i));
+      fireEvent.click(screen.getByLabelText(/add a character/i));
+      expect(onAddCharacter).toHaveBeenCalled();
+    });
+
+    it('hides the add button once the room is full', () => {
+      const full = [1, 2, 3, 4].map((n) => ({ name: `Char ${n}`, avatarUrl: '/silhouette.svg' }));
+      render(<ChatHeader {...defaultProps} participants={full} onAddCharacter={jest.fn()} />);
+      fireEvent.click(screen.getByLabelText(/open menu/i));
+      expect(screen.queryByLabelText(/add a character/i)).not.toBeInTheDocument();
+    });
+  });
 });
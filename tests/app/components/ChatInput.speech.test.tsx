@@ -0,0 +1,86 @@
+import React from "react";
+import { render, screen, fireEvent } from "@testing-library/react";
+import ChatInput from "../../../app/components/ChatInput";
+import type { SpeechInputControls } from "../../../app/components/useSpeechInput";
+
+function speech(overrides: Partial<SpeechInputControls> = {}): SpeechInputControls {
+  return {
+    engine: "browser",
+    supported: true,
+    mode: "push-to-talk",
+    toggleHandsFree: jest.fn(),
+    listening: false,
+    transcribing: false,
+    error: "",
+    startListening: jest.fn(),
+    stopListening: jest.fn(),
+    ...overrides,
+  };
+}
+
+function renderInput(speechInput?: SpeechInputControls, loading = false) {
+  return render(
+    <ChatInput
+      input=""
+      setInput={jest.fn()}
+      onSend={jest.fn()}
+      onKeyDown={jest.fn()}
+      loading={loading}
+      apiAvailable
+      inputRef={{ current: null }}
+      audioEnabled
+      onAudioToggle={jest.fn()}
+      onStopAudio={jest.fn()}
+      isAudioPlaying={false}
+      speechInput={speechInput}
+    />
+  );
+}
+
+describe("ChatInput voice input", () => {
+  it("has no mic buttons without a speech engine", () => {
+    renderInput(speech({ engine: null, supported: false }));
+    expect(screen.queryByTestId("chat-mic-button")).toBeNull();
+    expect(screen.queryByTestId("chat-hands-free-toggle")).toBeNull();
+  });
+
+  it("listens while the mic button is held", () => {
+    const controls = speech();
+    renderInput(controls);
+    const mic = screen.getByRole("button", { name: "Hold to talk" });
+    fireEvent.pointerDown(mic);
+    expect(controls.startListening).toHaveBeenCalledTimes(1);
+    fireEvent.pointerUp(mic);
+    expect(controls.stopListening).toHaveBeenCalledTimes(1);
+  });
+
+  it("supports holding Space on the mic button", () => {
+    const controls = speech();
+    renderInput(controls);
+    const mic = screen.getByTestId("chat-mic-button");
+    fireEvent.keyDown(mic, { key: " " });
+    fireEvent.keyDown(mic, { key: " ", repeat: true });
+    fireEvent.keyUp(mic, { key: " " });
+    expect(controls.startListening).toHaveBeenCalledTimes(1);
+    expect(controls.stopListening).toHaveBeenCalledTimes(1);
+  });
+
+  it("shows the listening state and disables push-to-talk in hands-free mode", () => {
+    const controls = speech({ mode: "hands-free", listening: true });
+    renderInput(controls);
+    const mic = screen.getByRole("button", { name: "Listening hands-free" });
+    expect(mic).toBeDisabled();
+    expect(mic).toHaveAttribute("aria-pressed", "true");
+    expect(screen.getByTestId("chat-input")).toHaveAttribute("placeholder", "Listening...");
+
+    const toggle = screen.getByTestId("chat-hands-free-toggle");
+    expect(toggle).toHaveAttribute("aria-pressed", "true");
+    fireEvent.click(toggle);
+    expect(controls.toggleHandsFree).toHaveBeenCalled();
+  });
+
+  it("disables the mic while a reply is loading", () => {
+    renderInput(speech(), true);
+    expect(screen.getByTestId("chat-mic-button")).toBeDisabled();
+  });
+});
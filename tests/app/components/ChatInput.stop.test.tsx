@@ -114,4 +114,26 @@ describe("ChatInput stop button", () => {
     // inputRef.current was null when clicked, so focus branch is skipped
     expect(inputRef.current).toBeNull();
   });
+  it("shows a stop-generating button only while a reply can be cancelled", () => {
+    const onCancelReply = jest.fn();
+    const props = {
+      input: "",
+      setInput: () => {},
+      onSend: () => {},
+      onKeyDown: () => {},
+      loading: true,
+      apiAvailable: true,
+      inputRef: React.createRef<HTMLInputElement>(),
+      audioEnabled: true,
+      onAudioToggle: () => {},
+      onStopAudio: () => {},
+      isAudioPlaying: false,
+    };
+    const { rerender } = render(<ChatInput {...props} />);
+    expect(screen.queryByTestId("chat-cancel-reply")).not.toBeInTheDocument();
+
+    rerender(<ChatInput {...props} onCancelReply={onCancelReply} />);
+    fireEvent.click(screen.getByRole("button", { name: "Stop generating" }));
+    expect(onCancelReply).toHaveBeenCalledTimes(1);
+  });
 });
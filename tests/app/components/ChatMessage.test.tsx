@@ -1,7 +1,8 @@
 import React from "react";
-import { render, screen } from "@testing-library/react";
-import ChatMessage, { Message } from "../../../app/components/ChatMessage";
+import { fireEvent, render, screen } from "@testing-library/react";
+import ChatMessage, { Message, MessageActions } from "../../../app/components/ChatMessage";
 import { logEvent } from "../../../src/utils/logger";
+import { createMessage } from "../../../src/utils/messages";
 
 // Mock the logger
 jest.mock("../../../src/utils/logger", () => ({
@@ -18,7 +19,7 @@ const mockBot = {
 
 describe("ChatMessage", () => {
   it("renders user message correctly", () => {
-    const message: Message = { text: "Hello!", sender: "User" };
+    const message: Message = createMessage({ role: "user", text: "Hello!", sender: "User" });
     render(<ChatMessage message={message} bot={mockBot} />);
     expect(screen.getByText("Me")).toBeInTheDocument();
     expect(screen.getByText("Hello!")).toBeInTheDocument();
@@ -26,13 +27,43 @@ describe("ChatMessage", () => {
   });
 
   it("renders bot message with avatar", () => {
-    const message: Message = { text: "You shall not pass!", sender: "AI" };
+    const message: Message = createMessage({ role: "assistant", text: "You shall not pass!", sender: "Gandalf" });
     render(<ChatMessage message={message} bot={mockBot} />);
     expect(screen.getByText("Gandalf")).toBeInTheDocument();
     expect(screen.getByText("You shall not pass!")).toBeInTheDocument();
     expect(screen.getByAltText("Gandalf")).toBeInTheDocument();
   });
 
+  it("decides sides by role rather than by sender name", () => {
+    const botNamedUser = { ...mockBot, name: "User" };
+    const message: Message = createMessage({ role: "assistant", text: "I am a character too", sender: "User" });
+    render(<ChatMessage message={message} bot={botNamedUser} />);
+    expect(screen.queryByText("Me")).not.toBeInTheDocument();
+    expect(screen.getByAltText("User")).toBeInTheDocument();
+    expect(screen.getByRole("article")).toHaveAttribute("data-message-id", message.id);
+  });
+
+  it("shows the speaking participant's name and avatar in group conversations", () => {
+    const watson = { name: "Dr. Watson", personality: "Loyal", avatarUrl: "/watson.png", voiceConfig: null };
+    const message: Message = createMessage({ role: "assistant", text: "Remarkable!", sender: "Dr. Watson" });
+    render(<ChatMessage message={message} bot={mockBot} participants={[mockBot, watson]} />);
+    expect(screen.getByText("Dr. Watson")).toBeInTheDocument();
+    expect(screen.getByAltText("Dr. Watson")).toHaveAttribute("src", expect.stringContaining("watson.png"));
+    expect(screen.queryByAltText("Gandalf")).not.toBeInTheDocument();
+  });
+
+  it("shows the expression portrait matching the reply's mood", () => {
+    const bot = { ...mockBot, expressions: { neutral: "/gandalf.png", angry: "/gandalf-angry.png" } };
+    const angry: Message = { ...createMessage({ role: "assistant", text: "Fly, you fools!", sender: "Gandalf" }), mood: "angry" };
+    const { unmount } = render(<ChatMessage message={angry} bot={bot} />);
+    expect(screen.getByAltText("Gandalf")).toHaveAttribute("src", expect.stringContaining("gandalf-angry.png"));
+    unmount();
+
+    const untagged: Message = createMessage({ role: "assistant", text: "Hmm.", sender: "Gandalf" });
+    render(<ChatMessage message={untagged} bot={bot} />);
+    expect(screen.getByAltText("Gandalf")).toHaveAttribute("src", expect.stringContaining("gandalf.png"));
+  });
+
   it("returns null and logs error for invalid message", () => {
     // @ts-expect-error purposely invalid
     const { container } = render(<ChatMessage message={null} bot={mockBot} />);
@@ -46,7 +77,7 @@ describe("ChatMessage", () => {
   });
 
   it("handles missing optional audioFileUrl", () => {
-    const message: Message = { text: "No audio", sender: "User" };
+    const message: Message = createMessage({ role: "user", text: "No audio", sender: "User" });
     render(<ChatMessage message={message} bot={mockBot} />);
     expect(screen.getByText("No audio")).toBeInTheDocument();
   });
@@ -79,4 +110,52 @@ describe("ChatMessage", () => {
       expect.objectContaining({ hasText: true })
     );
   });
+
+  describe("message actions", () => {
+    const makeActions = (overrides: Partial<MessageActions> = {}): MessageActions => ({
+      getBranchInfo: jest.fn(() => null),
+      onSelectAlternate: jest.fn(),
+      onRegenerate: jest.fn(),
+      onEdit: jest.fn(),
+      ...overrides,
+    });
+
+    it("offers regenerate on replies and switches between versions", () => {
+      const actions = makeActions({ getBranchInfo: () => ({ index: 1, total: 3 }) });
+      const message = createMessage({ role: "assistant", text: "Take two", sender: "Gandalf" });
+      render(<ChatMessage message={message} bot={mockBot} actions={actions} />);
+      expect(screen.getByText("2/3")).toBeInTheDocument();
+      fireEvent.click(screen.getByLabelText("Regenerate reply"));
+      fireEvent.click(screen.getByLabelText("Previous version"));
+      fireEvent.click(screen.getByLabelText("Next version"));
+      expect(actions.onRegenerate).toHaveBeenCalledWith(message.id);
+      expect(actions.onSelectAlternate).toHaveBeenNthCalledWith(1, message.id, -1);
+      expect(actions.onSelectAlternate).toHaveBeenNthCalledWith(2, message.id, 1);
+      expect(screen.queryByLabelText("Edit message")).not.toBeInTheDocument();
+    });
+
+    it("edits a user message inline and resends it", () => {
+      const actions = makeActions();
+      const message = createMessage({ role: "user", text: "Helo", sender: "User" });
+      render(<ChatMessage message={message} bot={mockBot} actions={actions} />);
+      fireEvent.click(screen.getByRole("button", { name: "Edit message" }));
+      fireEvent.change(screen.getByRole("textbox", { name: "Edit message" }), { target: { value: "Hello" } });
+      fireEvent.click(screen.getByText("Save & resend"));
+      expect(actions.onEdit).toHaveBeenCalledWith(message.id, "Hello");
+      expect(screen.queryByRole("textbox")).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole("button", { name: "Edit message" }));
+      fireEvent.click(screen.getByText("Cancel"));
+      expect(screen.getByText("Helo")).toBeInTheDocument();
+      expect(actions.onEdit).toHaveBeenCalledTimes(1);
+    });
+
+    it("disables the controls while a reply is generating", () => {
+      const actions = makeActions({ disabled: true, getBranchInfo: () => ({ index: 0, total: 2 }) });
+      const message = createMessage({ role: "assistant", text: "Busy", sender: "Gandalf" });
+      render(<ChatMessage message={message} bot={mockBot} actions={actions} />);
+      expect(screen.getByLabelText("Regenerate reply")).toBeDisabled();
+      expect(screen.getByLabelText("Next version")).toBeDisabled();
+    });
+  });
 });
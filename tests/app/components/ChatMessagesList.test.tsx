@@ -2,6 +2,7 @@ import React from "react";
 import { render, screen } from "@testing-library/react";
 import ChatMessagesList from "../../../app/components/ChatMessagesList";
 import { Bot } from "../../../app/components/BotCreator";
+import { createMessage } from "../../../src/utils/messages";
 
 const mockBot: Bot = {
   name: "Gandalf",
@@ -12,7 +13,7 @@ const mockBot: Bot = {
 
 describe("ChatMessagesList", () => {
   it("renders all messages without virtualization if below threshold", () => {
-    const messages = Array.from({ length: 5 }, (_, i) => ({ text: `msg${i}`, sender: i % 2 === 0 ? "User" : "AI" }));
+    const messages = Array.from({ length: 5 }, (_, i) => createMessage({ role: i % 2 === 0 ? "user" : "assistant", text: `msg${i}`, sender: i % 2 === 0 ? "User" : "Gandalf" }));
     render(<ChatMessagesList messages={messages} bot={mockBot} />);
     messages.forEach(m => {
       expect(screen.getByText(m.text)).toBeInTheDocument();
@@ -20,7 +21,7 @@ describe("ChatMessagesList", () => {
   });
 
   it("renders virtualized list if messages exceed threshold", () => {
-    const messages = Array.from({ length: 40 }, (_, i) => ({ text: `msg${i}`, sender: i % 2 === 0 ? "User" : "AI" }));
+    const messages = Array.from({ length: 40 }, (_, i) => createMessage({ role: i % 2 === 0 ? "user" : "assistant", text: `msg${i}`, sender: i % 2 === 0 ? "User" : "Gandalf" }));
     render(<ChatMessagesList messages={messages} bot={mockBot} />);
     // Only a subset will be in the DOM; ensure the virtualized list rendered and at least
     // one message item is present in the DOM (avoid flaky assumption about exact items).
@@ -29,6 +30,19 @@ describe("ChatMessagesList", () => {
     expect(articles.length).toBeGreaterThan(0);
   });
 
+  it("appends a streaming reply without message actions once it has text", () => {
+    const messages = [createMessage({ role: "user", text: "Hello", sender: "User" })];
+    const actions = { getBranchInfo: () => null, onSelectAlternate: jest.fn(), onRegenerate: jest.fn(), onEdit: jest.fn() };
+    const streaming = createMessage({ role: "assistant", text: "", sender: "Gandalf" });
+    const { rerender } = render(<ChatMessagesList messages={messages} bot={mockBot} actions={actions} streamingMessage={streaming} />);
+    expect(screen.queryByTestId("chat-message-streaming")).not.toBeInTheDocument();
+
+    rerender(<ChatMessagesList messages={messages} bot={mockBot} actions={actions} streamingMessage={{ ...streaming, text: "You shall" }} />);
+    expect(screen.getByTestId("chat-message-streaming")).toHaveTextContent("You shall");
+    expect(screen.getAllByRole("article")).toHaveLength(2);
+    expect(screen.getAllByTestId("message-actions")).toHaveLength(1);
+  });
+
   it("renders nothing if messages is empty and not skeleton", () => {
     render(<ChatMessagesList messages={[]} bot={mockBot} />);
     // Should not throw or render any ChatMessage
@@ -38,7 +52,7 @@ describe("ChatMessagesList", () => {
 
   it("handles messages with audioFileUrl", () => {
     const messages = [
-      { text: "Audio message", sender: "AI", audioFileUrl: "/audio.mp3" },
+      createMessage({ role: "assistant", text: "Audio message", sender: "Gandalf", audioFileUrl: "/audio.mp3" }),
     ];
     render(<ChatMessagesList messages={messages} bot={mockBot} />);
     expect(screen.getByText("Audio message")).toBeInTheDocument();
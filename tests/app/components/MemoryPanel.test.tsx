@@ -0,0 +1,83 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+
+jest.mock('../../../src/utils/logger', () => ({
+    logEvent: jest.fn(),
+    sanitizeLogMeta: (meta: unknown) => meta,
+}));
+
+const mockAuthenticatedFetch = jest.fn();
+jest.mock('../../../src/utils/api', () => ({
+    authenticatedFetch: (...args: unknown[]) => mockAuthenticatedFetch(...(args as unknown[])),
+}));
+
+import MemoryPanel from '../../../app/components/MemoryPanel';
+import { logEvent } from '../../../src/utils/logger';
+
+const USER = '0f8fad5b-d9cb-469f-a165-70867728950e';
+const memories = [
+    { id: 'm1', text: "The user's name is Sam.", category: 'identity', createdAt: '', updatedAt: '' },
+    { id: 'm2', text: 'The user loves tea.', category: 'preference', createdAt: '', updatedAt: '' },
+];
+
+const ok = (body: unknown) => Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve(body) });
+
+describe('MemoryPanel', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockAuthenticatedFetch.mockImplementation((_url: string, init?: RequestInit) =>
+            init?.method === 'DELETE' ? ok({ success: true }) : ok({ memories }));
+    });
+
+    it('lists the memories of the first character', async () => {
+        render(<MemoryPanel userId={USER} characterNames={['Gandalf']} onClose={jest.fn()} />);
+        expect(await screen.findByText('The user loves tea.')).toBeInTheDocument();
+        expect(screen.getByText('About you')).toBeInTheDocument();
+        expect(screen.getByRole('heading')).toHaveTextContent('What Gandalf remembers');
+        expect(mockAuthenticatedFetch).toHaveBeenCalledWith(`/api/memories?userId=${USER}&characterName=Gandalf`);
+        expect(screen.queryByLabelText('Character')).not.toBeInTheDocument();
+    });
+
+    it('forgets a single memory', async () => {
+        render(<MemoryPanel userId={USER} characterNames={['Gandalf']} onClose={jest.fn()} />);
+        fireEvent.click(await screen.findByLabelText('Forget "The user loves tea."'));
+        await waitFor(() => expect(screen.queryByText('The user loves tea.')).not.toBeInTheDocument());
+        expect(mockAuthenticatedFetch).toHaveBeenLastCalledWith(
+            `/api/memories/m2?userId=${USER}&characterName=Gandalf`,
+            { method: 'DELETE' },
+        );
+        expect(screen.getByText("The user's name is Sam.")).toBeInTheDocument();
+    });
+
+    it('forgets everything for the selected character', async () => {
+        render(<MemoryPanel userId={USER} characterNames={['Gandalf', 'Frodo']} onClose={jest.fn()} />);
+        await screen.findByText('The user loves tea.');
+        fireEvent.change(screen.getByLabelText('Character'), { target: { value: 'Frodo' } });
+        await waitFor(() => expect(mockAuthenticatedFetch).toHaveBeenCalledWith(`/api/memories?userId=${USER}&characterName=Frodo`));
+        await screen.findByText('The user loves tea.');
+        fireEvent.click(screen.getByText('Forget everything'));
+        expect(await screen.findByText(/Nothing yet/)).toBeInTheDocument();
+        expect(mockAuthenticatedFetch).toHaveBeenLastCalledWith(`/api/memories?userId=${USER}&characterName=Frodo`, { method: 'DELETE' });
+    });
+
+    it('shows errors when loading or deleting fails', async () => {
+        mockAuthenticatedFetch.mockImplementation((_url: string, init?: RequestInit) =>
+            init?.method === 'DELETE' ? Promise.resolve({ ok: false, status: 500 }) : Promise.reject(new Error('offline')));
+        render(<MemoryPanel userId={USER} characterNames={['Gandalf']} onClose={jest.fn()} />);
+        expect(await screen.findByRole('alert')).toHaveTextContent('Could not load memories.');
+        expect(logEvent).toHaveBeenCalledWith('error', 'memories_load_failed', expect.any(String), expect.objectContaining({ error: 'offline' }));
+        expect(screen.getByText('Forget everything')).toBeDisabled();
+    });
+
+    it('closes with Escape, the close button or a backdrop click', async () => {
+        const onClose = jest.fn();
+        render(<MemoryPanel userId={USER} characterNames={['Gandalf']} onClose={onClose} />);
+        await screen.findByText('The user loves tea.');
+        fireEvent.keyDown(window, { key: 'Escape' });
+        fireEvent.click(screen.getByText('Close'));
+        fireEvent.click(screen.getByTestId('memory-panel-backdrop'));
+        fireEvent.click(screen.getByRole('dialog'));
+        expect(onClose).toHaveBeenCalledTimes(3);
+    });
+});
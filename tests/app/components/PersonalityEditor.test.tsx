@@ -0,0 +1,67 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import PersonalityEditor from '../../../app/components/PersonalityEditor';
+import type { Bot } from '../../../app/components/BotCreator';
+
+const mockFetch = jest.fn();
+jest.mock('../../../src/utils/api', () => ({
+  authenticatedFetch: (...args: unknown[]) => mockFetch(...args),
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+  logEvent: jest.fn(),
+  sanitizeLogMeta: (m: unknown) => m,
+}));
+
+const bot: Bot = {
+  name: 'Sherlock Holmes',
+  personality: 'old prompt',
+  avatarUrl: '/silhouette.svg',
+  voiceConfig: null,
+  profile: {
+    speakingStyle: 'formal',
+    personalityTraits: 'analytical',
+    knowledgeDomains: 'deduction',
+    behavioralGuidelines: 'Observes details.',
+    quirks: 'Plays the violin.',
+  },
+};
+
+describe('PersonalityEditor', () => {
+  beforeEach(() => mockFetch.mockReset());
+
+  it('saves the edited fields and rebuilds the prompt', () => {
+    const onSave = jest.fn();
+    render(<PersonalityEditor bot={bot} onSave={onSave} onCancel={jest.fn()} />);
+    expect(screen.getByLabelText('Speaking style')).toHaveValue('formal');
+    fireEvent.change(screen.getByLabelText('Quirks'), { target: { value: 'Keeps bees.' } });
+    fireEvent.change(screen.getByLabelText('Scenario / setting'), { target: { value: 'Sussex Downs' } });
+    fireEvent.click(screen.getByText('Save and chat'));
+
+    const saved = onSave.mock.calls[0][0] as Bot;
+    expect(saved.profile).toMatchObject({ quirks: 'Keeps bees.', scenario: 'Sussex Downs', speakingStyle: 'formal' });
+    expect(saved.personality).toContain('QUIRKS: Keeps bees.');
+    expect(saved.personality).toContain('SETTING: Sussex Downs');
+  });
+
+  it('previews a sample reply with the current fields', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ reply: 'You have been in Afghanistan, I perceive.' }) });
+    render(<PersonalityEditor bot={bot} onSave={jest.fn()} onCancel={jest.fn()} />);
+    fireEvent.change(screen.getByLabelText('Try a message'), { target: { value: 'Hello' } });
+    fireEvent.click(screen.getByText('Preview reply'));
+    expect(await screen.findByTestId('personality-preview')).toHaveTextContent('Afghanistan');
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+    expect(body).toEqual({ name: 'Sherlock Holmes', profile: expect.objectContaining({ quirks: 'Plays the violin.' }), message: 'Hello' });
+  });
+
+  it('shows an error when the preview fails and explains bots without fields', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 500 });
+    const onCancel = jest.fn();
+    render(<PersonalityEditor bot={{ ...bot, profile: null }} onSave={jest.fn()} onCancel={onCancel} />);
+    expect(screen.getByText(/no editable fields yet/)).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Preview reply'));
+    await waitFor(() => expect(screen.getByRole('alert')).toHaveTextContent('Could not generate a preview'));
+    fireEvent.click(screen.getByText('Discard'));
+    expect(onCancel).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,91 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import PortraitRegenerator from '@/app/components/PortraitRegenerator';
+import { LanguageContext } from '@/app/components/LanguageContext';
+
+const mockGenerate = jest.fn();
+jest.mock('@/app/components/api_generateAvatar', () => ({
+  api_generateAvatar: (...args: unknown[]) => mockGenerate(...args),
+}));
+
+const mockUpload = jest.fn();
+jest.mock('@/app/components/api_uploadAvatar', () => ({
+  AVATAR_UPLOAD_ACCEPT: 'image/png,image/jpeg,image/webp',
+  api_uploadAvatar: (...args: unknown[]) => mockUpload(...args),
+}));
+
+jest.mock('@/src/utils/logger', () => ({
+  logEvent: jest.fn(),
+  sanitizeLogMeta: (meta: unknown) => meta,
+}));
+
+const hash = (c: string) => c.repeat(64);
+
+describe('PortraitRegenerator', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('paints variants in the chosen style and hands back the one picked', async () => {
+    const stored = [`/api/avatar/${hash('a')}`, `/api/avatar/${hash('b')}`];
+    mockGenerate.mockResolvedValueOnce(stored);
+    const onSelect = jest.fn();
+    render(<PortraitRegenerator characterName="Circe" onSelect={onSelect} />);
+
+    fireEvent.change(screen.getByLabelText('Portrait style'), { target: { value: 'pixel-art' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Regenerate portrait' }));
+    expect(screen.getByRole('status')).toHaveTextContent('Painting new portraits');
+
+    const second = await screen.findByRole('button', { name: 'Use portrait 2' });
+    expect(mockGenerate).toHaveBeenCalledWith('Circe', 'pixel-art', 3);
+    expect(decodeURIComponent(screen.getByAltText('Circe, variant 1').getAttribute('src') ?? '')).toContain(`${stored[0]}-thumb`);
+    fireEvent.click(second);
+    expect(onSelect).toHaveBeenCalledWith(stored[1]);
+  });
+
+  it('leaves the style to the artist by default', async () => {
+    mockGenerate.mockResolvedValueOnce(['data:image/png;base64,aGk=']);
+    render(<PortraitRegenerator characterName="Circe" onSelect={jest.fn()} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Regenerate portrait' }));
+    await screen.findByRole('button', { name: 'Use portrait 1' });
+    expect(mockGenerate).toHaveBeenCalledWith('Circe', null, 3);
+  });
+
+  it('reports a failure when only the silhouette comes back or the request fails', async () => {
+    mockGenerate.mockResolvedValueOnce(['/silhouette.svg']).mockRejectedValueOnce(new Error('down'));
+    render(<PortraitRegenerator characterName="Circe" onSelect={jest.fn()} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Regenerate portrait' }));
+    expect(await screen.findByRole('alert')).toHaveTextContent('Could not paint new portraits');
+    expect(screen.queryByRole('button', { name: /use portrait/i })).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Regenerate portrait' }));
+    expect(await screen.findByRole('alert')).toBeInTheDocument();
+    expect(mockGenerate).toHaveBeenCalledTimes(2);
+  });
+
+  it('uses an uploaded image as the new portrait', async () => {
+    const onSelect = jest.fn();
+    mockUpload.mockResolvedValueOnce('/api/avatar/uploaded').mockRejectedValueOnce(new Error('Images must be 5 MB or smaller.'));
+    render(<PortraitRegenerator characterName="Circe" onSelect={onSelect} />);
+    const input = screen.getByLabelText('Portrait image file');
+    const file = new File([new Uint8Array([1])], 'me.png', { type: 'image/png' });
+
+    fireEvent.change(input, { target: { files: [file] } });
+    await waitFor(() => expect(onSelect).toHaveBeenCalledWith('/api/avatar/uploaded'));
+    expect(mockUpload).toHaveBeenCalledWith(file);
+
+    fireEvent.change(input, { target: { files: [file] } });
+    expect(await screen.findByRole('alert')).toHaveTextContent('Images must be 5 MB or smaller.');
+    expect(onSelect).toHaveBeenCalledTimes(1);
+  });
+
+  it('shows the controls in the conversation language', () => {
+    render(
+      <LanguageContext.Provider value={{ language: 'de', setLanguage: jest.fn() }}>
+        <PortraitRegenerator characterName="Circe" onSelect={jest.fn()} />
+      </LanguageContext.Provider>
+    );
+    expect(screen.getByRole('button', { name: 'Porträt neu erstellen' })).toBeInTheDocument();
+    expect(screen.getByRole('option', { name: 'Aquarell' })).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,180 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+
+jest.mock('../../../src/utils/logger', () => ({
+    logEvent: jest.fn(),
+    sanitizeLogMeta: (meta: unknown) => meta,
+}));
+
+const mockAuthenticatedFetch = jest.fn();
+jest.mock('../../../src/utils/api', () => ({
+    authenticatedFetch: (...args: unknown[]) => mockAuthenticatedFetch(...(args as unknown[])),
+}));
+
+import VoicePanel from '../../../app/components/VoicePanel';
+import { logEvent } from '../../../src/utils/logger';
+import type { CharacterVoiceConfig } from '../../../src/utils/characterVoices';
+
+const voices = [
+    { name: 'en-GB-Wavenet-A', languageCodes: ['en-GB'], ssmlGender: 2, type: 'Wavenet' },
+    { name: 'en-GB-Wavenet-B', languageCodes: ['en-GB'], ssmlGender: 1, type: 'Wavenet' },
+    { name: 'fr-FR-Neural2-A', languageCodes: ['fr-FR'], ssmlGender: 2, type: 'Neural2' },
+    { name: 'fr-FR-Neural2-B', languageCodes: ['fr-FR'], ssmlGender: 1, type: 'Neural2' },
+];
+
+const current: CharacterVoiceConfig = {
+    languageCodes: ['en-GB'],
+    name: 'en-GB-Wavenet-B',
+    ssmlGender: 1,
+    pitch: -4,
+    rate: 0.9,
+    type: 'Wavenet',
+};
+
+const ok = (body: unknown) => Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve(body) });
+
+describe('VoicePanel', () => {
+    const play = jest.fn();
+    const pause = jest.fn();
+    const OriginalAudio = window.Audio;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        play.mockResolvedValue(undefined);
+        window.Audio = jest.fn(() => ({ play, pause })) as unknown as typeof Audio;
+        mockAuthenticatedFetch.mockImplementation((_url: string, init?: RequestInit) =>
+            init?.method === 'POST'
+                ? ok({ audioFileUrl: '/api/audio?file=sample.mp3' })
+                : ok({ engine: 'google', voices }));
+    });
+    afterAll(() => { window.Audio = OriginalAudio; });
+
+    const renderPanel = (props: Partial<React.ComponentProps<typeof VoicePanel>> = {}) => render(
+        <VoicePanel
+            characterNames={['Gandalf']}
+            getVoiceConfig={() => current}
+            onSave={jest.fn()}
+            onClose={jest.fn()}
+            {...props}
+        />,
+    );
+
+    it('starts from the current voice and lists voices for its language', async () => {
+        renderPanel();
+        expect(await screen.findByLabelText('Voice')).toHaveValue('en-GB-Wavenet-B');
+        expect(screen.getByRole('heading')).toHaveTextContent("Gandalf's voice");
+        expect(screen.getByLabelText('Language')).toHaveValue('en-GB');
+        expect(screen.getByRole('option', { name: 'en-GB-Wavenet-A (female)' })).toBeInTheDocument();
+        expect(screen.queryByRole('option', { name: /fr-FR-Neural2-A/ })).not.toBeInTheDocument();
+        expect(screen.getByLabelText(/Pitch/)).toHaveValue('-4');
+        expect(screen.getByLabelText(/Speed/)).toHaveValue('0.9');
+        expect(mockAuthenticatedFetch).toHaveBeenCalledWith('/api/voices');
+    });
+
+    it('keeps the gender when switching language and saves the tuned voice', async () => {
+        const onSave = jest.fn();
+        const onClose = jest.fn();
+        renderPanel({ onSave, onClose });
+        fireEvent.change(await screen.findByLabelText('Language'), { target: { value: 'fr-FR' } });
+        expect(screen.getByLabelText('Voice')).toHaveValue('fr-FR-Neural2-B');
+        fireEvent.change(screen.getByLabelText(/Pitch/), { target: { value: '6' } });
+        fireEvent.change(screen.getByLabelText(/Speed/), { target: { value: '1.5' } });
+        expect(screen.getByText('Pitch: +6 semitones')).toBeInTheDocument();
+        fireEvent.click(screen.getByText('Save voice'));
+        expect(onSave).toHaveBeenCalledWith('Gandalf', {
+            languageCodes: ['fr-FR'],
+            name: 'fr-FR-Neural2-B',
+            ssmlGender: 1,
+            pitch: 6,
+            rate: 1.5,
+            type: 'Neural2',
+        });
+        expect(onClose).toHaveBeenCalled();
+    });
+
+    it('previews the draft voice with the sample line', async () => {
+        renderPanel();
+        fireEvent.change(await screen.findByLabelText('Voice'), { target: { value: 'en-GB-Wavenet-A' } });
+        fireEvent.change(screen.getByLabelText('Sample line'), { target: { value: 'You shall not pass!' } });
+        fireEvent.click(screen.getByText('Preview'));
+        await waitFor(() => expect(play).toHaveBeenCalled());
+        const [url, init] = mockAuthenticatedFetch.mock.calls[1];
+        expect(url).toBe('/api/voices');
+        expect(JSON.parse(init.body)).toEqual({
+            voiceConfig: { ...current, name: 'en-GB-Wavenet-A', ssmlGender: 2 },
+            text: 'You shall not pass!',
+            botName: 'Gandalf',
+        });
+        expect(window.Audio).toHaveBeenCalledWith('/api/audio?file=sample.mp3');
+    });
+
+    it('edits pronunciations, previews them and saves the complete ones', async () => {
+        const onSave = jest.fn();
+        renderPanel({
+            characterNames: ['Hephaestus'],
+            getVoiceConfig: () => ({ ...current, pronunciations: [{ text: 'Olympus', alias: 'oh-LIM-pus' }] }),
+            onSave,
+        });
+        expect(await screen.findByLabelText('Word 1')).toHaveValue('Olympus');
+        expect(screen.getByLabelText('Pronunciation type 1')).toHaveValue('alias');
+
+        fireEvent.click(screen.getByText('Add pronunciation'));
+        fireEvent.change(screen.getByLabelText('Word 2'), { target: { value: 'Hephaestus' } });
+        fireEvent.change(screen.getByLabelText('Pronunciation 2'), { target: { value: 'hɪˈfiːstəs' } });
+        fireEvent.click(screen.getByText('Add pronunciation'));
+        fireEvent.change(screen.getByLabelText('Word 3'), { target: { value: 'unfinished' } });
+
+        fireEvent.click(screen.getByText('Preview'));
+        await waitFor(() => expect(play).toHaveBeenCalled());
+        const expected = [{ text: 'Olympus', alias: 'oh-LIM-pus' }, { text: 'Hephaestus', phoneme: 'hɪˈfiːstəs', alphabet: 'ipa' }];
+        expect(JSON.parse(mockAuthenticatedFetch.mock.calls[1][1].body).voiceConfig.pronunciations).toEqual(expected);
+
+        fireEvent.click(screen.getByLabelText('Remove pronunciation 1'));
+        fireEvent.click(screen.getByText('Save voice'));
+        expect(onSave).toHaveBeenCalledWith('Hephaestus', expect.objectContaining({ pronunciations: [expected[1]] }));
+    });
+
+    it('reports a failed preview', async () => {
+        mockAuthenticatedFetch.mockImplementation((_url: string, init?: RequestInit) =>
+            init?.method === 'POST'
+                ? Promise.resolve({ ok: false, status: 500, json: () => Promise.resolve({}) })
+                : ok({ engine: 'google', voices }));
+        renderPanel();
+        await screen.findByLabelText('Voice');
+        fireEvent.click(screen.getByText('Preview'));
+        expect(await screen.findByRole('alert')).toHaveTextContent('Could not preview this voice');
+        expect(logEvent).toHaveBeenCalledWith('error', 'voice_preview_failed', expect.any(String), expect.objectContaining({ voice: 'en-GB-Wavenet-B' }));
+    });
+
+    it('switches between characters in a group', async () => {
+        const configs: Record<string, CharacterVoiceConfig> = {
+            Gandalf: current,
+            Frodo: { languageCodes: ['en-GB'], name: 'en-GB-Wavenet-A', ssmlGender: 2, pitch: 3, rate: 1.1 },
+        };
+        renderPanel({ characterNames: ['Gandalf', 'Frodo'], getVoiceConfig: (name) => configs[name] });
+        await screen.findByLabelText('Voice');
+        fireEvent.change(screen.getByLabelText('Character'), { target: { value: 'Frodo' } });
+        expect(screen.getByLabelText('Voice')).toHaveValue('en-GB-Wavenet-A');
+        expect(screen.getByLabelText(/Pitch/)).toHaveValue('3');
+        expect(screen.getByLabelText('Sample line')).toHaveValue('Hello, I am Frodo. Is this how I should sound?');
+    });
+
+    it('explains when the server has no voice output', async () => {
+        mockAuthenticatedFetch.mockImplementation(() => ok({ engine: 'none', voices: [] }));
+        renderPanel({ getVoiceConfig: () => null });
+        expect(await screen.findByText(/Voice output is turned off/)).toBeInTheDocument();
+        expect(screen.getByText('Preview')).toBeDisabled();
+        expect(screen.getByText('Save voice')).toBeDisabled();
+    });
+
+    it('reports when the voice list cannot be loaded and closes on Escape', async () => {
+        mockAuthenticatedFetch.mockRejectedValue(new Error('offline'));
+        const onClose = jest.fn();
+        renderPanel({ onClose });
+        expect(await screen.findByRole('alert')).toHaveTextContent('Could not load the list of voices.');
+        expect(screen.getByRole('option', { name: 'en-GB-Wavenet-B (current)' })).toBeInTheDocument();
+        fireEvent.keyDown(window, { key: 'Escape' });
+        expect(onClose).toHaveBeenCalled();
+    });
+});
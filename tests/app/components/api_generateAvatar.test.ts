@@ -0,0 +1,32 @@
+import { api_generateAvatar } from '../../../app/components/api_generateAvatar';
+
+jest.mock('../../../src/utils/api', () => ({
+  authenticatedFetch: jest.fn(),
+}));
+
+import { authenticatedFetch } from '../../../src/utils/api';
+
+describe('api_generateAvatar', () => {
+  afterEach(() => jest.clearAllMocks());
+
+  it('requests the variants in the chosen style and returns their URLs', async () => {
+    (authenticatedFetch as jest.Mock).mockResolvedValueOnce({ ok: true, json: async () => ({ avatarUrl: '/a', avatarUrls: ['/a', '/b', 7] }) });
+    await expect(api_generateAvatar('Circe', 'watercolor', 3)).resolves.toEqual(['/a', '/b']);
+    expect(authenticatedFetch).toHaveBeenCalledWith('/api/generate-avatar', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'Circe', variants: 3, style: 'watercolor' }),
+    });
+  });
+
+  it('falls back to the single avatar URL and leaves the style to the server', async () => {
+    (authenticatedFetch as jest.Mock).mockResolvedValueOnce({ ok: true, json: async () => ({ avatarUrl: '/silhouette.svg' }) });
+    await expect(api_generateAvatar('Circe', null, 2)).resolves.toEqual(['/silhouette.svg']);
+    expect(JSON.parse((authenticatedFetch as jest.Mock).mock.calls[0][1].body)).toEqual({ name: 'Circe', variants: 2 });
+  });
+
+  it('throws when the response is not ok', async () => {
+    (authenticatedFetch as jest.Mock).mockResolvedValueOnce({ ok: false, json: async () => ({}) });
+    await expect(api_generateAvatar('Circe', null, 1)).rejects.toThrow('Failed to generate portrait');
+  });
+});
@@ -0,0 +1,86 @@
+import { api_storeCardPortraits, api_uploadAvatar, AVATAR_UPLOAD_ACCEPT } from '../../../app/components/api_uploadAvatar';
+
+jest.mock('../../../src/utils/api', () => ({
+  authenticatedFetch: jest.fn(),
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+  logEvent: jest.fn(),
+  sanitizeLogMeta: (m: unknown) => m,
+}));
+
+import { authenticatedFetch } from '../../../src/utils/api';
+
+function imageFile(bytes: number[], type: string, size?: number) {
+  const data = new Uint8Array(bytes);
+  const file = new File([data], 'portrait', { type });
+  // jsdom's File lacks arrayBuffer()
+  Object.defineProperty(file, 'arrayBuffer', { value: async () => data.slice().buffer });
+  if (size !== undefined) Object.defineProperty(file, 'size', { value: size });
+  return file;
+}
+
+describe('api_uploadAvatar', () => {
+  afterEach(() => jest.clearAllMocks());
+
+  it('accepts the upload formats', () => {
+    expect(AVATAR_UPLOAD_ACCEPT).toBe('image/png,image/jpeg,image/webp');
+  });
+
+  it('sends the image as base64 and returns its URL', async () => {
+    (authenticatedFetch as jest.Mock).mockResolvedValueOnce({ ok: true, json: async () => ({ avatarUrl: '/api/avatar/x' }) });
+    await expect(api_uploadAvatar(imageFile([1, 2, 3], 'image/png'))).resolves.toBe('/api/avatar/x');
+    expect(authenticatedFetch).toHaveBeenCalledWith('/api/upload-avatar', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ image: 'AQID' }),
+    });
+  });
+
+  it('rejects other formats and large files before uploading', async () => {
+    await expect(api_uploadAvatar(imageFile([1], 'image/gif'))).rejects.toThrow('PNG, JPEG or WebP');
+    await expect(api_uploadAvatar(imageFile([1], 'image/jpeg', 6 * 1024 * 1024))).rejects.toThrow('5 MB or smaller');
+    expect(authenticatedFetch).not.toHaveBeenCalled();
+  });
+
+  it("passes on the server's reason for refusing the image", async () => {
+    (authenticatedFetch as jest.Mock)
+      .mockResolvedValueOnce({ ok: false, json: async () => ({ error: 'The image could not be read.' }) })
+      .mockResolvedValueOnce({ ok: false, json: async () => { throw new Error('not json'); } });
+    await expect(api_uploadAvatar(imageFile([1], 'image/png'))).rejects.toThrow('The image could not be read.');
+    await expect(api_uploadAvatar(imageFile([1], ''))).rejects.toThrow('Failed to upload portrait');
+  });
+});
+
+describe('api_storeCardPortraits', () => {
+  afterEach(() => jest.clearAllMocks());
+
+  const bot = { name: 'Robin Hood', personality: 'Outlaw.', avatarUrl: 'data:image/png;base64,AQID', voiceConfig: null };
+
+  it('replaces data-URL portraits with stored avatar URLs', async () => {
+    (authenticatedFetch as jest.Mock)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ avatarUrl: '/api/avatar/a' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ avatarUrl: '/api/avatar/b' }) });
+    const stored = await api_storeCardPortraits({
+      ...bot,
+      expressions: { happy: 'data:image/webp;base64,BAUG', angry: '/api/avatar/c' },
+    });
+    expect(stored.avatarUrl).toBe('/api/avatar/a');
+    expect(stored.expressions).toEqual({ happy: '/api/avatar/b', angry: '/api/avatar/c' });
+    expect(JSON.parse((authenticatedFetch as jest.Mock).mock.calls[0][1].body)).toEqual({ image: 'AQID' });
+  });
+
+  it('leaves stored portraits alone', async () => {
+    const stored = await api_storeCardPortraits({ ...bot, avatarUrl: '/silhouette.svg' });
+    expect(stored).toEqual({ ...bot, avatarUrl: '/silhouette.svg' });
+    expect(authenticatedFetch).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the silhouette when a portrait cannot be stored', async () => {
+    (authenticatedFetch as jest.Mock).mockResolvedValueOnce({ ok: false, json: async () => ({ error: 'nope' }) });
+    const stored = await api_storeCardPortraits({ ...bot, expressions: { happy: 'data:image/gif;base64,R0lG' } });
+    expect(stored.avatarUrl).toBe('/silhouette.svg');
+    expect(stored).not.toHaveProperty('expressions');
+    expect(authenticatedFetch).toHaveBeenCalledTimes(1);
+  });
+});
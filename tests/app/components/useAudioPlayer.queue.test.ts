@@ -0,0 +1,115 @@
+import { renderHook, act } from '@testing-library/react';
+
+import { useAudioPlayer } from '../../../app/components/useAudioPlayer';
+
+type FakeClip = {
+  src: string;
+  preload?: string;
+  muted?: boolean;
+  currentTime: number;
+  onended: (() => void) | null;
+  play: jest.Mock;
+  pause: jest.Mock;
+};
+
+describe('useAudioPlayer queueAudio', () => {
+  let clips: FakeClip[];
+  let OrigAudio: unknown;
+
+  beforeEach(() => {
+    clips = [];
+    OrigAudio = (globalThis as unknown as { Audio?: unknown }).Audio;
+    Object.defineProperty(globalThis, 'Audio', {
+      value: jest.fn((src: string) => {
+        const clip: FakeClip = { src, currentTime: 0, onended: null, play: jest.fn(() => Promise.resolve()), pause: jest.fn() };
+        clips.push(clip);
+        return clip;
+      }),
+      configurable: true,
+    });
+  });
+
+  afterEach(() => {
+    if (typeof OrigAudio === 'undefined') delete (globalThis as unknown as { Audio?: unknown }).Audio;
+    else Object.defineProperty(globalThis, 'Audio', { value: OrigAudio, configurable: true });
+  });
+
+  function render(enabled = true) {
+    const audioEnabledRef = { current: enabled } as React.MutableRefObject<boolean>;
+    return renderHook(() => useAudioPlayer(audioEnabledRef));
+  }
+
+  it('preloads queued clips and plays them back to back', () => {
+    const { result } = render();
+    act(() => {
+      result.current.queueAudio('/a1.mp3');
+      result.current.queueAudio('/a2.mp3');
+    });
+
+    expect(clips.map((c) => c.preload)).toEqual(['auto', 'auto']);
+    expect(clips[0].play).toHaveBeenCalled();
+    expect(clips[1].play).not.toHaveBeenCalled();
+    expect(result.current.isAudioPlaying).toBe(true);
+
+    act(() => clips[0].onended?.());
+    expect(clips[1].play).toHaveBeenCalled();
+    expect(result.current.audioRef.current).toBe(clips[1]);
+
+    act(() => clips[1].onended?.());
+    expect(result.current.audioRef.current).toBeNull();
+    expect(result.current.isAudioPlaying).toBe(false);
+  });
+
+  it('starts a clip queued after the previous ones finished', () => {
+    const { result } = render(false);
+    act(() => result.current.queueAudio('/a1.mp3'));
+    act(() => clips[0].onended?.());
+    act(() => result.current.queueAudio('/a2.mp3'));
+    expect(clips[1].play).toHaveBeenCalled();
+    expect(clips[1].muted).toBe(true);
+  });
+
+  it('skips a clip that cannot play', async () => {
+    const { result } = render();
+    const Audio = (globalThis as unknown as { Audio: jest.Mock }).Audio;
+    const blocked: FakeClip = { src: '/b1.mp3', currentTime: 0, onended: null, play: jest.fn(() => Promise.reject(new Error('blocked'))), pause: jest.fn() };
+    Audio.mockImplementationOnce(() => blocked);
+    await act(async () => {
+      result.current.queueAudio('/b1.mp3');
+      result.current.queueAudio('/b2.mp3');
+    });
+    expect(blocked.play).toHaveBeenCalled();
+    expect(clips[0].src).toBe('/b2.mp3');
+    expect(clips[0].play).toHaveBeenCalled();
+  });
+
+  it('stops the whole queue when its signal is aborted', () => {
+    const { result } = render();
+    const controller = new AbortController();
+    act(() => {
+      result.current.queueAudio('/a1.mp3', controller.signal);
+      result.current.queueAudio('/a2.mp3', controller.signal);
+    });
+    act(() => controller.abort());
+
+    expect(clips[0].pause).toHaveBeenCalled();
+    act(() => clips[0].onended?.());
+    expect(clips[1].play).not.toHaveBeenCalled();
+    expect(result.current.isAudioPlaying).toBe(false);
+
+    act(() => result.current.queueAudio('/late.mp3', controller.signal));
+    expect(clips).toHaveLength(2);
+  });
+
+  it('is replaced by playAudio', async () => {
+    const { result } = render();
+    act(() => {
+      result.current.queueAudio('/a1.mp3');
+      result.current.queueAudio('/a2.mp3');
+    });
+    await act(async () => { await result.current.playAudio('/other.mp3'); });
+    act(() => clips[0].onended?.());
+    expect(clips[1].play).not.toHaveBeenCalled();
+    expect(result.current.audioRef.current).toBe(clips[2]);
+  });
+});
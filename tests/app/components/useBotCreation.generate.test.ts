@@ -37,6 +37,35 @@ describe('generateBotDataWithProgressCancelable (unit tests)', () => {
     expect(mockPersist).toHaveBeenCalledWith('Alice', expect.any(Object));
   });
 
+  it('asks for expression portraits and keeps the valid ones', async () => {
+    const expressions = { neutral: '/api/avatar/n', happy: '/api/avatar/h', smug: '/api/avatar/s' };
+    mockFetch.mockImplementation((url: string) => {
+      if (url === '/api/generate-personality') return Promise.resolve({ ok: true, json: async () => ({ personality: 'p' }) } as any);
+      if (url === '/api/generate-avatar') return Promise.resolve({ ok: true, json: async () => ({ avatarUrl: '/api/avatar/n', expressions }) } as any);
+      return Promise.resolve({ ok: true, json: async () => ({}) } as any);
+    });
+    mockGetVoice.mockResolvedValueOnce({ name: 'en-US-Voice', languageCodes: ['en-US'], ssmlGender: 1, pitch: 0, rate: 1 });
+
+    const bot = await generateBotDataWithProgressCancelable('Alice', jest.fn(), jest.fn(), { cancelled: false } as any);
+    expect(bot.expressions).toEqual({ neutral: '/api/avatar/n', happy: '/api/avatar/h' });
+    const avatarCall = mockFetch.mock.calls.find(([url]) => url === '/api/generate-avatar');
+    expect(JSON.parse(String(avatarCall?.[1]?.body))).toMatchObject({ name: 'Alice', expressions: true });
+  });
+
+  it('keeps an uploaded portrait instead of generating one', async () => {
+    mockFetch.mockImplementation((url: string) => {
+      if (url === '/api/generate-personality') return Promise.resolve({ ok: true, json: async () => ({ personality: 'p' }) } as any);
+      return Promise.resolve({ ok: true, json: async () => ({}) } as any);
+    });
+    mockGetVoice.mockResolvedValueOnce({ name: 'en-US-Voice', languageCodes: ['en-US'], ssmlGender: 1, pitch: 0, rate: 1 });
+
+    const uploaded = `/api/avatar/${'a'.repeat(64)}`;
+    const bot = await generateBotDataWithProgressCancelable('Ann', jest.fn(), jest.fn(), { cancelled: false } as any, null, 'en', uploaded);
+    expect(bot.avatarUrl).toBe(uploaded);
+    expect(mockFetch).not.toHaveBeenCalledWith('/api/generate-avatar', expect.anything());
+    expect(mockGetVoice).toHaveBeenCalledWith('Ann', null);
+  });
+
   it('uses default image when avatar API returns not ok', async () => {
     mockFetch.mockImplementation((url: string) => {
       if (url === '/api/generate-personality') return Promise.resolve({ ok: true, json: async () => ({}) } as any);
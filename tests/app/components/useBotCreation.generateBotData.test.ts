@@ -157,6 +157,30 @@ describe('useBotCreation generateBotDataWithProgressCancelable branches', () =>
     expect(mockLogEvent).toHaveBeenCalledWith(expect.any(String), 'bot_personality_generated', expect.any(String), expect.any(Object));
   });
 
+  it('casts the voice in the conversation language and keeps the language on the bot', async () => {
+    const onBotCreated = jest.fn();
+    const { result } = renderHook(() => useBotCreation(onBotCreated, 'de'));
+
+    act(() => { result.current.setInput('Goethe'); });
+
+    await act(async () => {
+      await result.current.handleCreate();
+    });
+
+    expect(mockApiGetVoiceConfigForCharacter).toHaveBeenCalledWith('Goethe', 'female', null, 'de');
+    expect(onBotCreated.mock.calls[0][0]).toMatchObject({ name: 'Goethe', language: 'de' });
+  });
+
+  it('shows errors in the conversation language', async () => {
+    const { result } = renderHook(() => useBotCreation(jest.fn(), 'fr'));
+
+    await act(async () => {
+      await result.current.handleCreate();
+    });
+
+    expect(result.current.error).toBe('Veuillez saisir un nom ou un personnage.');
+  });
+
   it('reports error when voice config generation fails and does not create bot', async () => {
     mockApiGetVoiceConfigForCharacter.mockRejectedValue(new Error('voice fail'));
 
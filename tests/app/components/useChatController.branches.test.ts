@@ -0,0 +1,137 @@
+import { renderHook, act, waitFor } from "@testing-library/react";
+import type { Bot } from "../../../app/components/BotCreator";
+
+jest.mock("../../../src/utils/logger", () => ({
+    logEvent: jest.fn(),
+    sanitizeLogMeta: (meta: unknown) => meta,
+}));
+
+const mockAuthenticatedFetch = jest.fn();
+jest.mock("../../../src/utils/api", () => ({
+    authenticatedFetch: (...args: unknown[]) => mockAuthenticatedFetch(...(args as unknown[])),
+}));
+
+jest.mock("../../../app/components/useAudioPlayer", () => ({
+    useAudioPlayer: () => ({
+        playAudio: jest.fn(),
+        stopAudio: jest.fn(),
+        isAudioPlaying: false,
+        audioRef: { current: null },
+        waitForAudioIdle: jest.fn(),
+    }),
+}));
+
+jest.mock("../../../src/utils/storage", () => ({
+    __esModule: true,
+    default: {
+        getItem: jest.fn(() => null),
+        setItem: jest.fn(),
+        removeItem: jest.fn(),
+        migrateToVersioned: jest.fn(() => null),
+        setVersionedJSON: jest.fn(),
+        getVersionedJSON: jest.fn(() => null),
+    },
+}));
+
+import { useChatController } from "../../../app/components/useChatController";
+import { logEvent } from "../../../src/utils/logger";
+
+const bot: Bot = {
+    name: "Gandalf",
+    personality: "wise",
+    avatarUrl: "/g.png",
+    voiceConfig: { languageCodes: ["en-GB"], name: "en-GB-A", ssmlGender: 1 },
+};
+
+type ChatBody = { message: string; conversationHistory: string[]; skipCache?: boolean };
+
+function chatBodies(): ChatBody[] {
+    return mockAuthenticatedFetch.mock.calls
+        .filter(([url]) => url === "/api/chat")
+        .map(([, init]) => JSON.parse(init.body));
+}
+
+describe("useChatController edit, regenerate and branches", () => {
+    let replyCount: number;
+    beforeEach(() => {
+        jest.clearAllMocks();
+        replyCount = 0;
+        mockAuthenticatedFetch.mockImplementation((url: string) => {
+            if (url !== "/api/chat") return Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve({}) });
+            replyCount++;
+            return Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve({ reply: `reply ${replyCount}` }) });
+        });
+    });
+
+    async function renderWithExchange() {
+        const hook = renderHook(() => useChatController(bot));
+        await waitFor(() => expect(hook.result.current.messages).toHaveLength(1));
+        await waitFor(() => expect(hook.result.current.apiAvailable).toBe(true));
+        act(() => hook.result.current.setInput("Hello"));
+        await act(async () => { await hook.result.current.sendMessage(); });
+        expect(hook.result.current.messages.map((m) => m.text)).toEqual(["reply 1", "Hello", "reply 2"]);
+        return hook;
+    }
+
+    it("regenerates a reply without the cache and keeps the old one as an alternate", async () => {
+        const { result } = await renderWithExchange();
+        const original = result.current.messages[2];
+
+        await act(async () => { await result.current.regenerateReply(original.id); });
+
+        const last = chatBodies().pop()!;
+        expect(last).toMatchObject({ message: "Hello", skipCache: true, conversationHistory: ["Bot: reply 1"] });
+        expect(result.current.messages.map((m) => m.text)).toEqual(["reply 1", "Hello", "reply 3"]);
+        const regenerated = result.current.messages[2];
+        await waitFor(() => expect(result.current.getMessageBranchInfo(regenerated.id)).toEqual({ index: 1, total: 2 }));
+
+        act(() => result.current.selectAlternate(regenerated.id, -1));
+        expect(result.current.messages[2]).toEqual(original);
+        await waitFor(() => expect(result.current.getMessageBranchInfo(original.id)).toEqual({ index: 0, total: 2 }));
+    });
+
+    it("regenerates the introduction with the intro prompt", async () => {
+        const { result } = await renderWithExchange();
+        await act(async () => { await result.current.regenerateReply(result.current.messages[0].id); });
+        expect(chatBodies().pop()).toMatchObject({ message: "Introduce yourself in 2 sentences or less.", conversationHistory: [] });
+        expect(result.current.messages.map((m) => m.text)).toEqual(["reply 3"]);
+    });
+
+    it("edits a user message into a new branch and resends it", async () => {
+        const { result } = await renderWithExchange();
+        const originalUser = result.current.messages[1];
+
+        await act(async () => { await result.current.editMessage(originalUser.id, "Hello again"); });
+
+        expect(chatBodies().pop()).toMatchObject({ message: "Hello again", conversationHistory: ["Bot: reply 1"] });
+        expect(result.current.messages.map((m) => m.text)).toEqual(["reply 1", "Hello again", "reply 3"]);
+        const edited = result.current.messages[1];
+        expect(edited.id).not.toBe(originalUser.id);
+        await waitFor(() => expect(result.current.getMessageBranchInfo(edited.id)).toEqual({ index: 1, total: 2 }));
+
+        act(() => result.current.selectAlternate(edited.id, -1));
+        expect(result.current.messages.map((m) => m.text)).toEqual(["reply 1", "Hello", "reply 2"]);
+    });
+
+    it("ignores edits of replies and regeneration of user messages", async () => {
+        const { result } = await renderWithExchange();
+        const calls = chatBodies().length;
+        await act(async () => {
+            await result.current.editMessage(result.current.messages[2].id, "nope");
+            await result.current.regenerateReply(result.current.messages[1].id);
+            await result.current.editMessage(result.current.messages[1].id, "   ");
+        });
+        expect(chatBodies()).toHaveLength(calls);
+    });
+
+    it("reports a failed regeneration and keeps the current reply", async () => {
+        const { result } = await renderWithExchange();
+        mockAuthenticatedFetch.mockImplementation((url: string) => url === "/api/chat"
+            ? Promise.resolve({ ok: false, status: 500 })
+            : Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve({}) }));
+        await act(async () => { await result.current.regenerateReply(result.current.messages[2].id); });
+        expect(result.current.messages.map((m) => m.text)).toEqual(["reply 1", "Hello", "reply 2"]);
+        expect(result.current.error).toBeTruthy();
+        expect(logEvent).toHaveBeenCalledWith("error", "chat_regenerate_failed", expect.any(String), expect.any(Object));
+    });
+});
@@ -0,0 +1,154 @@
+import { renderHook, act, waitFor } from "@testing-library/react";
+import type { Bot } from "../../../app/components/BotCreator";
+import type { GroupChatOptions } from "../../../src/utils/groupChat";
+
+jest.mock("../../../src/utils/logger", () => ({
+    logEvent: jest.fn(),
+    sanitizeLogMeta: (meta: unknown) => meta,
+}));
+
+const mockAuthenticatedFetch = jest.fn();
+jest.mock("../../../src/utils/api", () => ({
+    authenticatedFetch: (...args: unknown[]) => mockAuthenticatedFetch(...(args as unknown[])),
+}));
+
+const mockLoadVoiceConfig = jest.fn();
+const mockPersistVoiceConfig = jest.fn();
+jest.mock("../../../src/utils/voiceConfigPersistence", () => ({
+    loadVoiceConfig: (...args: unknown[]) => mockLoadVoiceConfig(...(args as unknown[])),
+    persistVoiceConfig: (...args: unknown[]) => mockPersistVoiceConfig(...(args as unknown[])),
+}));
+
+const mockPlayAudio = jest.fn();
+const mockStopAudio = jest.fn();
+const mockWaitForAudioIdle = jest.fn();
+const mockAudioRef = { current: null };
+jest.mock("../../../app/components/useAudioPlayer", () => ({
+    useAudioPlayer: () => ({
+        playAudio: mockPlayAudio,
+        stopAudio: mockStopAudio,
+        isAudioPlaying: false,
+        audioRef: mockAudioRef,
+        waitForAudioIdle: mockWaitForAudioIdle,
+    }),
+}));
+
+const mockApiGetVoiceConfigForCharacter = jest.fn();
+jest.mock("../../../app/components/api_getVoiceConfigForCharacter", () => ({
+    api_getVoiceConfigForCharacter: (...args: unknown[]) => mockApiGetVoiceConfigForCharacter(...(args as unknown[])),
+}));
+
+jest.mock("../../../src/utils/storage", () => ({
+    __esModule: true,
+    default: { getItem: jest.fn(() => null), setItem: jest.fn(), removeItem: jest.fn(), migrateToVersioned: jest.fn(() => null), setVersionedJSON: jest.fn() },
+}));
+
+const mockTouchCharacters = jest.fn();
+jest.mock("../../../src/utils/characterLibrary", () => ({
+    touchCharacters: (...args: unknown[]) => mockTouchCharacters(...(args as unknown[])),
+}));
+
+import { useChatController } from "../../../app/components/useChatController";
+import storage from "../../../src/utils/storage";
+
+const voice = (name: string) => ({ languageCodes: ["en-GB"], name, ssmlGender: 1 });
+
+const sherlock: Bot = { name: "Sherlock Holmes", personality: "deductive", avatarUrl: "/s.png", voiceConfig: voice("en-GB-A") };
+const watson: Bot = { name: "Dr. Watson", personality: "loyal", avatarUrl: "/w.png", voiceConfig: voice("en-GB-B") };
+
+type ChatBody = { botName: string; message: string; conversationHistory: string[]; groupParticipants: string[]; voiceConfig: { name: string } };
+
+function chatBodies(): ChatBody[] {
+    return mockAuthenticatedFetch.mock.calls
+        .filter(([url]) => url === "/api/chat")
+        .map(([, init]) => JSON.parse(init.body));
+}
+
+describe("useChatController group conversations", () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockLoadVoiceConfig.mockReturnValue(null);
+        mockWaitForAudioIdle.mockResolvedValue(undefined);
+        mockPlayAudio.mockResolvedValue(undefined);
+        mockAuthenticatedFetch.mockImplementation((url: string, init?: { body: string }) => {
+            if (url !== "/api/chat") return Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve({}) });
+            const body = JSON.parse(init!.body);
+            return Promise.resolve({
+                ok: true,
+                status: 200,
+                json: () => Promise.resolve({ reply: `${body.botName} speaks`, audioFileUrl: `/api/audio?file=${body.botName}` }),
+            });
+        });
+    });
+
+    function renderGroup(group: GroupChatOptions) {
+        return renderHook(({ g }) => useChatController(sherlock, undefined, g), { initialProps: { g: group } });
+    }
+
+    it("has every participant introduce themselves in turn with their own voice", async () => {
+        const group: GroupChatOptions = { participants: [sherlock, watson], turnPolicy: "round-robin" };
+        const { result } = renderGroup(group);
+        await waitFor(() => expect(result.current.messages).toHaveLength(2));
+        expect(result.current.messages.map((m) => m.sender)).toEqual(["Sherlock Holmes", "Dr. Watson"]);
+        const bodies = chatBodies();
+        expect(bodies[1].voiceConfig.name).toBe("en-GB-B");
+        expect(bodies[1].groupParticipants).toEqual(["Sherlock Holmes", "Dr. Watson"]);
+        expect(bodies[1].conversationHistory).toEqual(["[Sherlock Holmes]: Sherlock Holmes speaks"]);
+        expect(mockWaitForAudioIdle).toHaveBeenCalled();
+        expect(storage.setVersionedJSON).toHaveBeenCalledWith("chatbot-history-Dr. Watson & Sherlock Holmes", expect.any(Array), expect.any(Number));
+        await waitFor(() => expect(mockPlayAudio).toHaveBeenCalledWith("/api/audio?file=Dr. Watson", expect.anything()));
+    });
+
+    it("only asks the addressed character to reply", async () => {
+        const group: GroupChatOptions = { participants: [sherlock, watson], turnPolicy: "addressed" };
+        const { result } = renderGroup(group);
+        await waitFor(() => expect(result.current.messages).toHaveLength(2));
+        mockAuthenticatedFetch.mockClear();
+
+        act(() => result.current.setInput("Watson, what do you make of it?"));
+        await act(async () => { await result.current.sendMessage(); });
+
+        const bodies = chatBodies();
+        expect(bodies.map((b) => b.botName)).toEqual(["Dr. Watson"]);
+        expect(bodies[0].message).toBe("");
+        expect(bodies[0].conversationHistory.at(-1)).toBe("User: Watson, what do you make of it?");
+        expect(result.current.messages.at(-1)?.sender).toBe("Dr. Watson");
+        expect(result.current.loading).toBe(false);
+        // Every character in the room counts as chatted with
+        expect(mockTouchCharacters).toHaveBeenCalledWith(["Sherlock Holmes", "Dr. Watson"]);
+    });
+
+    it("lets the characters continue without a user message", async () => {
+        const group: GroupChatOptions = { participants: [sherlock, watson], turnPolicy: "round-robin", maxBotTurns: 1 };
+        const { result } = renderGroup(group);
+        await waitFor(() => expect(result.current.messages).toHaveLength(2));
+        mockAuthenticatedFetch.mockClear();
+
+        await act(async () => { await result.current.continueGroupConversation(); });
+
+        // Watson spoke last, so the rotation comes back to Sherlock
+        expect(chatBodies().map((b) => b.botName)).toEqual(["Sherlock Holmes"]);
+        expect(result.current.messages).toHaveLength(3);
+    });
+
+    it("reports an error when a round fails", async () => {
+        const group: GroupChatOptions = { participants: [sherlock, watson], turnPolicy: "round-robin" };
+        const { result } = renderGroup(group);
+        await waitFor(() => expect(result.current.messages).toHaveLength(2));
+        mockAuthenticatedFetch.mockResolvedValue({ ok: false, status: 500, json: () => Promise.resolve({}) });
+
+        act(() => result.current.setInput("Anyone?"));
+        await act(async () => { await result.current.sendMessage(); });
+
+        expect(result.current.error).toBeTruthy();
+        expect(result.current.messages.at(-1)?.sender).toBe("User");
+        expect(result.current.loading).toBe(false);
+    });
+
+    it("behaves as a one-to-one chat when the group has a single participant", async () => {
+        const { result } = renderGroup({ participants: [sherlock], turnPolicy: "round-robin" });
+        await waitFor(() => expect(result.current.messages).toHaveLength(1));
+        expect(result.current.participants).toBeNull();
+        expect(chatBodies()[0].groupParticipants).toBeUndefined();
+    });
+});
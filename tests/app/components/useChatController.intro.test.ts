@@ -24,7 +24,7 @@ describe('useChatController - intro generation', () => {
     // health check succeeds
     mockAuth.mockImplementation((url: string) => {
       if (url === '/api/health') return Promise.resolve({ ok: true } as any);
-      if (url === '/api/chat') return Promise.resolve({ ok: true, json: async () => ({ reply: 'Hello', audioFileUrl: 'https://audio' }) } as any);
+      if (url === '/api/chat') return Promise.resolve({ ok: true, json: async () => ({ reply: 'Hello', audioFileUrl: 'https://audio', mood: 'happy' }) } as any);
       return Promise.resolve({ ok: true, json: async () => ({}) } as any);
     });
 
@@ -39,6 +39,7 @@ describe('useChatController - intro generation', () => {
     expect(intro.sender).toBe('IntroBot');
     expect(intro.text).toBe('Hello');
     expect(intro.audioFileUrl).toBe('https://audio');
+    expect(intro.mood).toBe('happy');
   });
 
   it('sets introError when intro generation fails due to missing voiceConfig', async () => {
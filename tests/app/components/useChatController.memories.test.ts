@@ -0,0 +1,91 @@
+import { renderHook, act, waitFor } from "@testing-library/react";
+import type { Bot } from "../../../app/components/BotCreator";
+
+jest.mock("../../../src/utils/logger", () => ({
+    logEvent: jest.fn(),
+    sanitizeLogMeta: (meta: unknown) => meta,
+}));
+
+const mockAuthenticatedFetch = jest.fn();
+jest.mock("../../../src/utils/api", () => ({
+    authenticatedFetch: (...args: unknown[]) => mockAuthenticatedFetch(...(args as unknown[])),
+}));
+
+jest.mock("../../../app/components/useAudioPlayer", () => ({
+    useAudioPlayer: () => ({
+        playAudio: jest.fn(),
+        stopAudio: jest.fn(),
+        isAudioPlaying: false,
+        audioRef: { current: null },
+        waitForAudioIdle: jest.fn(),
+    }),
+}));
+
+import { useChatController } from "../../../app/components/useChatController";
+import { USER_ID_KEY } from "../../../app/components/useSession";
+import { logEvent } from "../../../src/utils/logger";
+
+const bot: Bot = {
+    name: "Gandalf",
+    personality: "wise",
+    avatarUrl: "/g.png",
+    voiceConfig: { languageCodes: ["en-GB"], name: "en-GB-A", ssmlGender: 1 },
+};
+
+const USER = "0f8fad5b-d9cb-469f-a165-70867728950e";
+
+function bodiesFor(url: string) {
+    return mockAuthenticatedFetch.mock.calls
+        .filter(([u]) => u === url)
+        .map(([, init]) => JSON.parse(init.body));
+}
+
+describe("useChatController character memories", () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        localStorage.clear();
+        localStorage.setItem(USER_ID_KEY, USER);
+        mockAuthenticatedFetch.mockImplementation((url: string) => {
+            if (url === "/api/chat") return Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve({ reply: "Indeed" }) });
+            return Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve({}) });
+        });
+    });
+
+    async function renderReady() {
+        const hook = renderHook(() => useChatController(bot));
+        await waitFor(() => expect(hook.result.current.messages).toHaveLength(1));
+        await waitFor(() => expect(hook.result.current.apiAvailable).toBe(true));
+        return hook;
+    }
+
+    it("sends the user id with chat requests and asks for memories from user messages", async () => {
+        const { result } = await renderReady();
+        expect(result.current.userId).toBe(USER);
+        act(() => result.current.setInput("My name is Sam and I love tea"));
+        await act(async () => { await result.current.sendMessage(); });
+
+        expect(bodiesFor("/api/chat").pop()).toMatchObject({ userId: USER });
+        expect(bodiesFor("/api/memories")).toEqual([{
+            userId: USER,
+            characterNames: ["Gandalf"],
+            entries: ["Bot: Indeed", "User: My name is Sam and I love tea"],
+        }]);
+    });
+
+    it("skips extraction for short messages and logs failures", async () => {
+        const { result } = await renderReady();
+        act(() => result.current.setInput("ok"));
+        await act(async () => { await result.current.sendMessage(); });
+        expect(bodiesFor("/api/memories")).toEqual([]);
+
+        mockAuthenticatedFetch.mockImplementation((url: string) => {
+            if (url === "/api/memories") return Promise.resolve({ ok: false, status: 500 });
+            return Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve({ reply: "Indeed" }) });
+        });
+        act(() => result.current.setInput("I live in the Shire"));
+        await act(async () => { await result.current.sendMessage(); });
+        await waitFor(() => expect(logEvent).toHaveBeenCalledWith(
+            "warn", "memory_extract_failed", expect.any(String), expect.objectContaining({ error: "HTTP 500" }),
+        ));
+    });
+});
@@ -40,8 +40,8 @@ describe('useChatController additional small branches', () => {
     const hash = `${msg.sender}__${msg.text}__${msg.audioFileUrl}`;
 
     // Seed history and last played hash in storage before mounting
+    storage.setItem(`chatbot-history-${baseBot.name}`, JSON.stringify([msg]));
     const spy = jest.spyOn(storage, 'getItem').mockImplementation((key: string) => {
-      if (key === `chatbot-history-${baseBot.name}`) return JSON.stringify([msg]);
       if (key === `lastPlayedAudioHash-${baseBot.name}`) return hash;
       return null as unknown as string | null;
     });
@@ -138,10 +138,7 @@ describe('useChatController additional small branches', () => {
   it('handleScroll schedules a single RAF when called rapidly', async () => {
     // Create many messages so visibleCount < messages.length
     const msgs = Array.from({ length: 40 }).map((_, i) => ({ sender: i % 2 ? 'User' : baseBot.name, text: `msg${i}` }));
-    (storage as unknown as { getItem: (k: string) => string | null }).getItem = (key: string) => {
-      if (key === `chatbot-history-${baseBot.name}`) return JSON.stringify(msgs);
-      return null;
-    };
+    storage.setItem(`chatbot-history-${baseBot.name}`, JSON.stringify(msgs));
 
     const { result } = renderHook(() => useChatController(baseBot));
 
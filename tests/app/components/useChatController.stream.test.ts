@@ -0,0 +1,237 @@
+import { renderHook, act, waitFor } from "@testing-library/react";
+import type { Bot } from "../../../app/components/BotCreator";
+
+jest.mock("../../../src/utils/logger", () => ({
+    logEvent: jest.fn(),
+    sanitizeLogMeta: (meta: unknown) => meta,
+}));
+
+const mockAuthenticatedFetch = jest.fn();
+jest.mock("../../../src/utils/api", () => ({
+    authenticatedFetch: (...args: unknown[]) => mockAuthenticatedFetch(...(args as unknown[])),
+}));
+
+const mockPlayAudio = jest.fn();
+const mockQueueAudio = jest.fn();
+const mockStopAudio = jest.fn();
+jest.mock("../../../app/components/useAudioPlayer", () => ({
+    useAudioPlayer: () => ({
+        playAudio: mockPlayAudio,
+        queueAudio: mockQueueAudio,
+        stopAudio: mockStopAudio,
+        isAudioPlaying: false,
+        audioRef: { current: null },
+        waitForAudioIdle: jest.fn(),
+    }),
+}));
+
+import { useChatController } from "../../../app/components/useChatController";
+import { logEvent } from "../../../src/utils/logger";
+
+const bot: Bot = {
+    name: "Gandalf",
+    personality: "wise",
+    avatarUrl: "/g.png",
+    voiceConfig: { languageCodes: ["en-GB"], name: "en-GB-A", ssmlGender: 1 },
+};
+
+const encoder = new TextEncoder();
+const event = (payload: object) => encoder.encode(`data: ${JSON.stringify(payload)}\n\n`);
+
+/**
+ * Event-stream response whose reads are released by the test. Reads reject once the
+ * request's signal is aborted, as fetch body readers do.
+ */
+function controlledStream(signal: AbortSignal) {
+    const pending: Array<{ resolve: (r: { value?: Uint8Array; done: boolean }) => void; reject: (e: unknown) => void }> = [];
+    signal.addEventListener("abort", () => {
+        pending.splice(0).forEach((p) => p.reject(Object.assign(new Error("aborted"), { name: "AbortError" })));
+    });
+    const response = {
+        ok: true,
+        status: 200,
+        headers: { get: () => "text/event-stream" },
+        body: {
+            getReader: () => ({
+                read: () => new Promise((resolve, reject) => pending.push({ resolve, reject })),
+            }),
+        },
+    };
+    const push = async (chunk: Uint8Array | null) => {
+        await waitFor(() => expect(pending.length).toBeGreaterThan(0));
+        pending.shift()!.resolve(chunk ? { value: chunk, done: false } : { done: true });
+    };
+    return { response, push };
+}
+
+describe("useChatController streaming replies", () => {
+    let stream: ReturnType<typeof controlledStream> | null;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        localStorage.clear();
+        stream = null;
+        mockAuthenticatedFetch.mockImplementation((url: string, init?: RequestInit) => {
+            if (url === "/api/chat") {
+                const body = JSON.parse(String(init?.body));
+                if (body.stream && init?.signal) {
+                    stream = controlledStream(init.signal);
+                    return Promise.resolve(stream.response);
+                }
+                return Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve({ reply: "Welcome." }) });
+            }
+            return Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve({}) });
+        });
+    });
+
+    async function renderReady() {
+        const hook = renderHook(() => useChatController(bot));
+        await waitFor(() => expect(hook.result.current.messages).toHaveLength(1));
+        await waitFor(() => expect(hook.result.current.apiAvailable).toBe(true));
+        return hook;
+    }
+
+    it("shows the reply as it streams and appends the final message with its audio", async () => {
+        const { result } = await renderReady();
+        act(() => result.current.setInput("Who are you?"));
+        let sending: Promise<void>;
+        act(() => { sending = result.current.sendMessage(); });
+        await waitFor(() => expect(stream).not.toBeNull());
+
+        await act(async () => { await stream!.push(event({ chunk: "I am", done: false })); });
+        await waitFor(() => expect(result.current.streamingReply?.text).toBe("I am"));
+        await act(async () => { await stream!.push(event({ chunk: " Gandalf", done: false })); });
+        await waitFor(() => expect(result.current.streamingReply?.text).toBe("I am Gandalf"));
+        expect(result.current.loading).toBe(true);
+
+        await act(async () => {
+            await stream!.push(event({ reply: "I am Gandalf.", audioFileUrl: "/api/audio?file=x.mp3", model: "m", done: true }));
+            await sending!;
+        });
+
+        expect(result.current.streamingReply).toBeNull();
+        expect(result.current.loading).toBe(false);
+        expect(result.current.messages[result.current.messages.length - 1]).toMatchObject({
+            role: "assistant",
+            text: "I am Gandalf.",
+            audioFileUrl: "/api/audio?file=x.mp3",
+            model: "m",
+        });
+    });
+
+    it("queues sentence clips as they arrive and keeps them playing once the reply is added", async () => {
+        const { result } = await renderReady();
+        act(() => result.current.setInput("Speak, friend"));
+        let sending: Promise<void>;
+        act(() => { sending = result.current.sendMessage(); });
+        await waitFor(() => expect(stream).not.toBeNull());
+
+        await act(async () => { await stream!.push(event({ chunk: "Mellon. Enter", done: false })); });
+        await act(async () => { await stream!.push(event({ audio: "/api/audio?file=1.mp3", done: false })); });
+        await waitFor(() => expect(mockQueueAudio).toHaveBeenCalledWith("/api/audio?file=1.mp3", expect.any(AbortSignal)));
+        const signal = mockQueueAudio.mock.calls[0][1] as AbortSignal;
+
+        mockStopAudio.mockClear();
+        await act(async () => {
+            await stream!.push(event({ audio: "/api/audio?file=2.mp3", done: false }));
+            await stream!.push(event({ reply: "Mellon. Enter.", done: true }));
+            await sending!;
+        });
+
+        expect(mockQueueAudio.mock.calls.map(([url]) => url)).toEqual(["/api/audio?file=1.mp3", "/api/audio?file=2.mp3"]);
+        expect(result.current.messages[result.current.messages.length - 1].audioFileUrl).toBeUndefined();
+        expect(mockStopAudio).not.toHaveBeenCalled();
+        expect(signal.aborted).toBe(false);
+    });
+
+    it("surfaces a stream that fails after text and audio arrived instead of sending it again", async () => {
+        const { result } = await renderReady();
+        act(() => result.current.setInput("Speak, friend"));
+        let sending: Promise<void>;
+        act(() => { sending = result.current.sendMessage(); });
+        await waitFor(() => expect(stream).not.toBeNull());
+
+        await act(async () => { await stream!.push(event({ chunk: "Mellon.", done: false })); });
+        await act(async () => { await stream!.push(event({ audio: "/api/audio?file=1.mp3", done: false })); });
+        await act(async () => {
+            await stream!.push(event({ error: "upstream failed" }));
+            await sending!;
+        });
+
+        const chatCalls = mockAuthenticatedFetch.mock.calls.filter(([url]) => url === "/api/chat");
+        expect(chatCalls).toHaveLength(2); // intro + the failed reply, no retries
+        expect(mockQueueAudio).toHaveBeenCalledTimes(1);
+        expect(result.current.error).toBeTruthy();
+        expect(result.current.streamingReply).toBeNull();
+
+        // The failed stream's clips no longer shield later changes from stopping audio
+        mockStopAudio.mockClear();
+        act(() => result.current.setInput("Again"));
+        act(() => { void result.current.sendMessage(); });
+        await waitFor(() => expect(mockStopAudio).toHaveBeenCalled());
+        await act(async () => { result.current.cancelReply(); });
+    });
+
+    it("retries a request that fails before the stream opens", async () => {
+        const { result } = await renderReady();
+        const streamingImpl = mockAuthenticatedFetch.getMockImplementation()!;
+        let failures = 1;
+        mockAuthenticatedFetch.mockImplementation((url: string, init?: RequestInit) => {
+            if (url === "/api/chat" && failures > 0) {
+                failures -= 1;
+                return Promise.resolve({ ok: false, status: 503 });
+            }
+            return streamingImpl(url, init);
+        });
+        act(() => result.current.setInput("Hello"));
+        let sending: Promise<void>;
+        act(() => { sending = result.current.sendMessage(); });
+        await waitFor(() => expect(stream).not.toBeNull());
+
+        await act(async () => {
+            await stream!.push(event({ reply: "Hello there.", done: true }));
+            await sending!;
+        });
+        expect(mockAuthenticatedFetch.mock.calls.filter(([url]) => url === "/api/chat")).toHaveLength(3);
+        expect(result.current.messages[result.current.messages.length - 1].text).toBe("Hello there.");
+    });
+
+    it("keeps the partial reply without retrying or erroring when cancelled", async () => {
+        const { result } = await renderReady();
+        act(() => result.current.setInput("Tell me a story"));
+        let sending: Promise<void>;
+        act(() => { sending = result.current.sendMessage(); });
+        await waitFor(() => expect(stream).not.toBeNull());
+
+        await act(async () => { await stream!.push(event({ chunk: "Once upon", done: false })); });
+        await waitFor(() => expect(result.current.streamingReply?.text).toBe("Once upon"));
+
+        await act(async () => {
+            result.current.cancelReply();
+            await sending!;
+        });
+
+        const chatCalls = mockAuthenticatedFetch.mock.calls.filter(([url]) => url === "/api/chat");
+        expect(chatCalls).toHaveLength(2); // intro + the cancelled reply, no retries
+        expect(result.current.error).toBe("");
+        expect(result.current.streamingReply).toBeNull();
+        const last = result.current.messages[result.current.messages.length - 1];
+        expect(last).toMatchObject({ role: "assistant", text: "Once upon" });
+        expect(last.audioFileUrl).toBeUndefined();
+        expect(logEvent).toHaveBeenCalledWith("info", "chat_stream_cancelled", expect.any(String), expect.any(Object));
+    });
+
+    it("drops an empty reply cancelled before any text arrived", async () => {
+        const { result } = await renderReady();
+        act(() => result.current.setInput("Hello"));
+        let sending: Promise<void>;
+        act(() => { sending = result.current.sendMessage(); });
+        await waitFor(() => expect(stream).not.toBeNull());
+
+        await act(async () => {
+            result.current.cancelReply();
+            await sending!;
+        });
+        expect(result.current.messages.map((m) => m.text)).toEqual(["Welcome.", "Hello"]);
+    });
+});
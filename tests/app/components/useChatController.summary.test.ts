@@ -0,0 +1,92 @@
+import { renderHook, act, waitFor } from "@testing-library/react";
+import type { Bot } from "../../../app/components/BotCreator";
+
+jest.mock("../../../src/utils/logger", () => ({
+    logEvent: jest.fn(),
+    sanitizeLogMeta: (meta: unknown) => meta,
+}));
+
+const mockAuthenticatedFetch = jest.fn();
+jest.mock("../../../src/utils/api", () => ({
+    authenticatedFetch: (...args: unknown[]) => mockAuthenticatedFetch(...(args as unknown[])),
+}));
+
+jest.mock("../../../app/components/useAudioPlayer", () => ({
+    useAudioPlayer: () => ({
+        playAudio: jest.fn(),
+        stopAudio: jest.fn(),
+        isAudioPlaying: false,
+        audioRef: { current: null },
+        waitForAudioIdle: jest.fn(),
+    }),
+}));
+
+import { useChatController } from "../../../app/components/useChatController";
+import storage from "../../../src/utils/storage";
+
+const bot: Bot = {
+    name: "Gandalf",
+    personality: "wise",
+    avatarUrl: "/g.png",
+    voiceConfig: { languageCodes: ["en-GB"], name: "en-GB-A", ssmlGender: 1 },
+};
+
+type ChatBody = { message: string; conversationHistory: string[]; summary?: string };
+
+function chatBodies(): ChatBody[] {
+    return mockAuthenticatedFetch.mock.calls
+        .filter(([url]) => url === "/api/chat")
+        .map(([, init]) => JSON.parse(init.body));
+}
+
+describe("useChatController rolling summary", () => {
+    let responses: Record<string, unknown>[];
+    beforeEach(() => {
+        jest.clearAllMocks();
+        localStorage.clear();
+        responses = [];
+        mockAuthenticatedFetch.mockImplementation((url: string) => {
+            if (url !== "/api/chat") return Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve({}) });
+            const body = responses.shift() ?? { reply: "ok" };
+            return Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve(body) });
+        });
+    });
+
+    async function send(result: { current: ReturnType<typeof useChatController> }, text: string) {
+        act(() => result.current.setInput(text));
+        await act(async () => { await result.current.sendMessage(); });
+    }
+
+    it("sends only the turns after the summary the server returned", async () => {
+        responses.push({ reply: "Welcome" }, { reply: "Indeed" }, { reply: "Onwards", summary: "They met.", summarizedCount: 2 });
+        const { result } = renderHook(() => useChatController(bot));
+        await waitFor(() => expect(result.current.messages).toHaveLength(1));
+        await waitFor(() => expect(result.current.apiAvailable).toBe(true));
+
+        await send(result, "Hello");
+        await send(result, "Shall we go?");
+        // History sent with the third request: Welcome, Hello, Indeed; the server folded the first two
+        expect(chatBodies()[2].conversationHistory).toEqual(["Bot: Welcome", "User: Hello", "Bot: Indeed"]);
+        const hello = result.current.messages[1];
+        expect(storage.getJSON("chatbot-summary-Gandalf")).toEqual({ text: "They met.", throughMessageId: hello.id });
+
+        await send(result, "Where to?");
+        expect(chatBodies()[3]).toMatchObject({
+            summary: "They met.",
+            conversationHistory: ["Bot: Indeed", "User: Shall we go?", "Bot: Onwards"],
+        });
+    });
+
+    it("ignores a summary whose messages are no longer in the history", async () => {
+        storage.setJSON("chatbot-summary-Gandalf", { text: "Another branch.", throughMessageId: "gone" });
+        responses.push({ reply: "Welcome" });
+        const { result } = renderHook(() => useChatController(bot));
+        await waitFor(() => expect(result.current.messages).toHaveLength(1));
+        await waitFor(() => expect(result.current.apiAvailable).toBe(true));
+
+        await send(result, "Hello");
+        const last = chatBodies().pop()!;
+        expect(last.summary).toBeUndefined();
+        expect(last.conversationHistory).toEqual(["Bot: Welcome"]);
+    });
+});
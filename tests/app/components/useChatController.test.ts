@@ -51,6 +51,7 @@ jest.mock("../../../src/utils/storage", () => ({
     removeItem: jest.fn(),
     setVersionedJSON: jest.fn(),
     getVersionedJSON: jest.fn(),
+    migrateToVersioned: jest.fn(),
 }));
 import * as storage from "../../../src/utils/storage";
 // Helper: create a minimal ReadableStream-like body for SSE parsing
@@ -357,6 +358,7 @@ describe("useChatController additional branches (merged)", () => {
         jest.clearAllMocks();
         mockStorage.getItem.mockReturnValue(null);
         mockStorage.getVersionedJSON.mockReturnValue(null);
+        mockStorage.migrateToVersioned.mockReturnValue(null);
         mockAuthenticatedFetch.mockResolvedValue(mockResponse({ reply: "Intro", audioFileUrl: null }));
         mockLoadVoiceConfig.mockReturnValue(baseBot.voiceConfig);
         mockApiGetVoiceConfigForCharacter.mockResolvedValue(baseBot.voiceConfig);
@@ -422,7 +424,7 @@ describe("useChatController additional branches (merged)", () => {
         // Prevent intro generation during this test by returning an existing chat history
         const mockStorage = storage as jest.Mocked<typeof storage>;
         const chatHistoryKey = `chatbot-history-${baseBot.name}`;
-        mockStorage.getItem.mockImplementation((key: string) => (key === chatHistoryKey ? JSON.stringify([{ sender: 'x', text: 'y' }]) : null));
+        mockStorage.migrateToVersioned.mockImplementation((key: string) => (key === chatHistoryKey ? { v: 2, createdAt: '', payload: [{ sender: 'x', text: 'y' }] } : null));
 
         const { result } = renderHook(() => useChatController(baseBot));
 
@@ -1055,6 +1057,41 @@ describe("useChatController additional branches (merged)", () => {
         expect(result.current.messages.some(m => m.text === 'OK')).toBe(true);
     });
 
+    it('stores role, model, usage and requestId on new messages and logs them', async () => {
+        mockAuthenticatedFetch.mockImplementation((url: string, _opts?: unknown) => {
+            if (url === '/api/health') return Promise.resolve(mockResponse({}));
+            if (url === '/api/chat') {
+                return Promise.resolve(mockResponse({
+                    reply: 'Metadata reply',
+                    audioFileUrl: null,
+                    model: 'claude-test',
+                    usage: { inputTokens: 12, outputTokens: 3 },
+                    requestId: 'req-chat-1',
+                }));
+            }
+            return Promise.resolve(mockResponse({}));
+        });
+
+        const { result } = renderHook(() => useChatController(mockBot));
+        await act(async () => { await new Promise(res => setTimeout(res, 20)); });
+        act(() => result.current.setInput('Hello'));
+        await act(async () => { await result.current.sendMessage(); });
+
+        const userMsg = result.current.messages.find(m => m.text === 'Hello');
+        const reply = result.current.messages[result.current.messages.length - 1];
+        expect(userMsg).toMatchObject({ role: 'user', sender: 'User' });
+        expect(reply).toMatchObject({
+            role: 'assistant',
+            sender: mockBot.name,
+            model: 'claude-test',
+            usage: { inputTokens: 12, outputTokens: 3 },
+            requestId: 'req-chat-1',
+        });
+        expect(reply.id).not.toBe(userMsg!.id);
+        expect(Date.parse(reply.timestamp)).not.toBeNaN();
+        expect(storage.setVersionedJSON).toHaveBeenCalledWith(`chatbot-history-${mockBot.name}`, result.current.messages, 2);
+    });
+
     // Audio playback branches: success, AbortError, and generic error
     it('plays audio and stores lastPlayedAudioHash on success', async () => {
         mockAuthenticatedFetch.mockImplementation((url: string, _opts?: unknown) => {
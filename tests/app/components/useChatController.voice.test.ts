@@ -0,0 +1,85 @@
+import { renderHook, act, waitFor } from "@testing-library/react";
+import type { Bot } from "../../../app/components/BotCreator";
+
+jest.mock("../../../src/utils/logger", () => ({
+    logEvent: jest.fn(),
+    sanitizeLogMeta: (meta: unknown) => meta,
+}));
+
+const mockAuthenticatedFetch = jest.fn();
+jest.mock("../../../src/utils/api", () => ({
+    authenticatedFetch: (...args: unknown[]) => mockAuthenticatedFetch(...(args as unknown[])),
+}));
+
+jest.mock("../../../app/components/useAudioPlayer", () => ({
+    useAudioPlayer: () => ({
+        playAudio: jest.fn(),
+        stopAudio: jest.fn(),
+        isAudioPlaying: false,
+        audioRef: { current: null },
+        waitForAudioIdle: jest.fn(),
+    }),
+}));
+
+import { useChatController } from "../../../app/components/useChatController";
+import { clearVoiceConfig, loadVoiceConfig } from "../../../src/utils/voiceConfigPersistence";
+import type { CharacterVoiceConfig } from "../../../src/utils/characterVoices";
+
+const bot: Bot = {
+    name: "Gandalf",
+    personality: "wise",
+    avatarUrl: "/g.png",
+    voiceConfig: { languageCodes: ["en-GB"], name: "en-GB-Wavenet-B", ssmlGender: 1 },
+};
+
+const chosen: CharacterVoiceConfig = {
+    languageCodes: ["en-GB"],
+    name: "en-GB-Wavenet-D",
+    ssmlGender: 1,
+    pitch: -8,
+    rate: 0.85,
+    type: "Wavenet",
+};
+
+function lastChatBody() {
+    const calls = mockAuthenticatedFetch.mock.calls.filter(([url]) => url === "/api/chat");
+    return JSON.parse(calls[calls.length - 1][1].body);
+}
+
+describe("useChatController voice choice", () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        localStorage.clear();
+        clearVoiceConfig("Gandalf");
+        clearVoiceConfig("Frodo");
+        mockAuthenticatedFetch.mockImplementation((url: string) => {
+            if (url === "/api/chat") return Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve({ reply: "Indeed" }) });
+            return Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve({}) });
+        });
+    });
+
+    it("persists a chosen voice and speaks later replies with it", async () => {
+        const { result } = renderHook(() => useChatController(bot));
+        await waitFor(() => expect(result.current.apiAvailable).toBe(true));
+        expect(result.current.getVoiceConfig("Gandalf")).toEqual(bot.voiceConfig);
+
+        act(() => result.current.updateVoiceConfig("Gandalf", chosen));
+        expect(loadVoiceConfig("Gandalf")).toEqual(chosen);
+        expect(result.current.getVoiceConfig("Gandalf")).toEqual(chosen);
+
+        act(() => result.current.setInput("Which way to Moria?"));
+        await act(async () => { await result.current.sendMessage(); });
+        expect(lastChatBody().voiceConfig).toEqual(chosen);
+    });
+
+    it("persists voices for other characters in a group", async () => {
+        const frodo: Bot = { name: "Frodo", personality: "brave", avatarUrl: "/f.png", voiceConfig: null };
+        const group = { participants: [bot, frodo], turnPolicy: "round-robin" as const };
+        const { result } = renderHook(() => useChatController(bot, undefined, group));
+        await waitFor(() => expect(result.current.apiAvailable).toBe(true));
+        expect(result.current.getVoiceConfig("Frodo")).toBeNull();
+        act(() => result.current.updateVoiceConfig("Frodo", { ...chosen, name: "en-GB-Wavenet-C" }));
+        expect(result.current.getVoiceConfig("Frodo")).toMatchObject({ name: "en-GB-Wavenet-C" });
+        expect(result.current.getVoiceConfig("Gandalf")).toEqual(bot.voiceConfig);
+    });
+});
@@ -0,0 +1,142 @@
+import { renderHook, act } from "@testing-library/react";
+import type { Bot } from "../../../app/components/BotCreator";
+
+jest.mock("../../../src/utils/logger", () => ({
+    logEvent: jest.fn(),
+    sanitizeLogMeta: (meta: unknown) => meta,
+}));
+
+const mockAuthenticatedFetch = jest.fn();
+jest.mock("../../../src/utils/api", () => ({
+    authenticatedFetch: (...args: unknown[]) => mockAuthenticatedFetch(...(args as unknown[])),
+}));
+
+import {
+    CONVERSATION_SYNC_DEBOUNCE_MS,
+    getResumeUrl,
+    resumeConversation,
+    useConversationSync,
+} from "../../../app/components/useConversationSync";
+import { logEvent } from "../../../src/utils/logger";
+import { MESSAGE_SCHEMA_VERSION, type Message } from "../../../src/types/message";
+
+const bot: Bot = { name: "Gandalf", personality: "wise", avatarUrl: "/silhouette.svg", voiceConfig: null };
+const messages: Message[] = [{ id: "m1", role: "assistant", sender: "Gandalf", text: "Hello", timestamp: "2026-01-01T00:00:00.000Z" }];
+
+describe("useConversationSync", () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+        jest.clearAllMocks();
+        localStorage.clear();
+        mockAuthenticatedFetch.mockResolvedValue({ ok: true, status: 200, json: () => Promise.resolve({}) });
+    });
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it("creates the conversation on the server and remembers its id and owner", async () => {
+        mockAuthenticatedFetch.mockResolvedValue({ ok: true, status: 201, json: () => Promise.resolve({ id: "server-id-1" }) });
+        const { result } = renderHook(() => useConversationSync({ conversationKey: "Gandalf", bot, messages, sessionId: "s1" }));
+        expect(mockAuthenticatedFetch).not.toHaveBeenCalled();
+        await act(async () => { jest.advanceTimersByTime(CONVERSATION_SYNC_DEBOUNCE_MS); });
+
+        expect(result.current.conversationId).toBe("server-id-1");
+        expect(result.current.conversationSessionId).toBe("s1");
+        expect(localStorage.getItem("conversation-id-Gandalf")).toBe("server-id-1");
+        expect(localStorage.getItem("conversation-session-Gandalf")).toBe("s1");
+        const [url, init] = mockAuthenticatedFetch.mock.calls[0];
+        expect(url).toBe("/api/conversations");
+        expect(init.method).toBe("POST");
+        expect(JSON.parse(init.body)).toMatchObject({ sessionId: "s1", bot: { name: "Gandalf" }, messages });
+    });
+
+    it("replaces a stored conversation as its owning session and skips empty conversations", async () => {
+        localStorage.setItem("conversation-id-Gandalf", "existing-id-1");
+        localStorage.setItem("conversation-session-Gandalf", "owner-session");
+        const { result, rerender } = renderHook(
+            ({ msgs }) => useConversationSync({ conversationKey: "Gandalf", bot, messages: msgs, sessionId: "s1" }),
+            { initialProps: { msgs: [] as typeof messages } }
+        );
+        await act(async () => { jest.advanceTimersByTime(CONVERSATION_SYNC_DEBOUNCE_MS); });
+        expect(mockAuthenticatedFetch).not.toHaveBeenCalled();
+
+        rerender({ msgs: messages });
+        await act(async () => { jest.advanceTimersByTime(CONVERSATION_SYNC_DEBOUNCE_MS); });
+        expect(result.current.conversationId).toBe("existing-id-1");
+        const [url, init] = mockAuthenticatedFetch.mock.calls[0];
+        expect(url).toBe("/api/conversations/existing-id-1");
+        expect(init.method).toBe("PUT");
+        expect(JSON.parse(init.body).sessionId).toBe("owner-session");
+    });
+
+    it("replaces the conversation still being created instead of creating another", async () => {
+        let finishCreate: (res: unknown) => void = () => { };
+        mockAuthenticatedFetch.mockImplementation((url: string) => url === "/api/conversations"
+            ? new Promise((resolve) => { finishCreate = resolve; })
+            : Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve({}) }));
+        const { rerender } = renderHook(
+            ({ msgs }) => useConversationSync({ conversationKey: "Gandalf", bot, messages: msgs, sessionId: "s1" }),
+            { initialProps: { msgs: messages } }
+        );
+        await act(async () => { jest.advanceTimersByTime(CONVERSATION_SYNC_DEBOUNCE_MS); });
+        const reply: Message = { ...messages[0], id: "m2", role: "user", sender: "user", text: "Hi" };
+        rerender({ msgs: [...messages, reply] });
+        await act(async () => { jest.advanceTimersByTime(CONVERSATION_SYNC_DEBOUNCE_MS); });
+        expect(mockAuthenticatedFetch).toHaveBeenCalledTimes(1);
+
+        await act(async () => { finishCreate({ ok: true, status: 201, json: () => Promise.resolve({ id: "server-id-1" }) }); });
+        expect(mockAuthenticatedFetch).toHaveBeenCalledTimes(2);
+        const [url, init] = mockAuthenticatedFetch.mock.calls[1];
+        expect(url).toBe("/api/conversations/server-id-1");
+        expect(init.method).toBe("PUT");
+        expect(JSON.parse(init.body).messages).toHaveLength(2);
+    });
+
+    it("forgets a conversation the server no longer has", async () => {
+        localStorage.setItem("conversation-id-Gandalf", "existing-id-1");
+        localStorage.setItem("conversation-session-Gandalf", "owner-session");
+        mockAuthenticatedFetch.mockResolvedValue({ ok: false, status: 404 });
+        const { result } = renderHook(() => useConversationSync({ conversationKey: "Gandalf", bot, messages, sessionId: "s1" }));
+        await act(async () => { jest.advanceTimersByTime(CONVERSATION_SYNC_DEBOUNCE_MS); });
+        expect(result.current.conversationId).toBeNull();
+        expect(localStorage.getItem("conversation-id-Gandalf")).toBeNull();
+    });
+
+    it("logs failed saves without throwing", async () => {
+        mockAuthenticatedFetch.mockResolvedValue({ ok: false, status: 500 });
+        renderHook(() => useConversationSync({ conversationKey: "Gandalf", bot, messages, sessionId: "s1" }));
+        await act(async () => { jest.advanceTimersByTime(CONVERSATION_SYNC_DEBOUNCE_MS); });
+        expect(logEvent).toHaveBeenCalledWith("warn", "conversation_sync_failed", expect.any(String), expect.any(Object));
+    });
+});
+
+describe("resumeConversation", () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        localStorage.clear();
+    });
+
+    it("seeds history and id for a group conversation", async () => {
+        const watson = { ...bot, name: "Watson" };
+        mockAuthenticatedFetch.mockResolvedValue({
+            ok: true,
+            json: () => Promise.resolve({ conversation: { bot, group: { members: [watson], turnPolicy: "random" }, messages } }),
+        });
+        const resumed = await resumeConversation("abc12345", "owner-session");
+        expect(mockAuthenticatedFetch.mock.calls[0][0]).toBe("/api/conversations/abc12345?sessionId=owner-session");
+        expect(resumed?.group?.turnPolicy).toBe("random");
+        expect(JSON.parse(localStorage.getItem("chatbot-history-Gandalf & Watson")!)).toMatchObject({ v: MESSAGE_SCHEMA_VERSION, payload: messages });
+        expect(localStorage.getItem("conversation-id-Gandalf & Watson")).toBe("abc12345");
+        expect(localStorage.getItem("conversation-session-Gandalf & Watson")).toBe("owner-session");
+    });
+
+    it("returns null when the conversation cannot be loaded", async () => {
+        mockAuthenticatedFetch.mockResolvedValue({ ok: false, status: 404 });
+        expect(await resumeConversation("missing1", "owner-session")).toBeNull();
+        expect(logEvent).toHaveBeenCalledWith("error", "conversation_resume_failed", expect.any(String), expect.any(Object));
+    });
+
+    it("builds a resume url on the current origin", () => {
+        expect(getResumeUrl("abc 1", "s 1")).toBe(`${window.location.origin}/?conversation=abc%201&session=s%201`);
+    });
+});
@@ -1,6 +1,6 @@
 import React from 'react';
 import { render } from '@testing-library/react';
-import { useSession } from '../../../app/components/useSession';
+import { getUserId, resetIsBrowserForTests, setIsBrowserForTests, useSession, USER_ID_KEY } from '../../../app/components/useSession';
 
 describe('useSession', () => {
     beforeEach(() => {
@@ -112,4 +112,20 @@ describe('useSession', () => {
 
 
 
+
+    it('creates a durable user id once and reuses it', () => {
+        const id = getUserId();
+        expect(id).toMatch(/^[0-9a-f-]{36}$/);
+        expect(localStorage.getItem(USER_ID_KEY)).toBe(id);
+        expect(getUserId()).toBe(id);
+    });
+
+    it('has no user id outside the browser', () => {
+        setIsBrowserForTests(() => false);
+        try {
+            expect(getUserId()).toBe('');
+        } finally {
+            resetIsBrowserForTests();
+        }
+    });
 });
@@ -0,0 +1,232 @@
+import { useState } from "react";
+import { renderHook, act, waitFor } from "@testing-library/react";
+
+jest.mock("../../../src/utils/logger", () => ({
+    logEvent: jest.fn(),
+    sanitizeLogMeta: (meta: unknown) => meta,
+}));
+
+const mockAuthenticatedFetch = jest.fn();
+jest.mock("../../../src/utils/api", () => ({
+    authenticatedFetch: (...args: unknown[]) => mockAuthenticatedFetch(...(args as unknown[])),
+}));
+
+import { useSpeechInput } from "../../../app/components/useSpeechInput";
+
+type Result = { isFinal: boolean; 0: { transcript: string } };
+
+class FakeRecognition {
+    static instances: FakeRecognition[] = [];
+    lang = "";
+    continuous = false;
+    interimResults = false;
+    onresult: ((event: { resultIndex: number; results: Result[] }) => void) | null = null;
+    onerror: ((event: { error: string }) => void) | null = null;
+    onend: (() => void) | null = null;
+    start = jest.fn();
+    stop = jest.fn(() => this.onend?.());
+    abort = jest.fn(() => this.onend?.());
+    constructor() { FakeRecognition.instances.push(this); }
+    say(results: Array<[string, boolean]>, resultIndex = 0) {
+        this.onresult?.({ resultIndex, results: results.map(([transcript, isFinal]) => ({ isFinal, 0: { transcript } })) });
+    }
+}
+
+const w = window as unknown as Record<string, unknown>;
+
+describe("useSpeechInput with the Web Speech API", () => {
+    beforeEach(() => {
+        FakeRecognition.instances = [];
+        w.webkitSpeechRecognition = FakeRecognition;
+    });
+    afterEach(() => {
+        delete w.webkitSpeechRecognition;
+    });
+
+    it("push-to-talk streams interim text and sends the utterance on release", async () => {
+        const onTranscript = jest.fn();
+        const onInterim = jest.fn();
+        const { result } = renderHook(() => useSpeechInput({ onTranscript, onInterim, lang: "en-GB" }));
+        await waitFor(() => expect(result.current.engine).toBe("browser"));
+        expect(mockAuthenticatedFetch).not.toHaveBeenCalled();
+
+        act(() => result.current.startListening());
+        const recognition = FakeRecognition.instances[0];
+        expect(recognition).toMatchObject({ lang: "en-GB", continuous: true, interimResults: true });
+        expect(result.current.listening).toBe(true);
+
+        act(() => recognition.say([["Hello", true], [" there", false]]));
+        expect(onInterim).toHaveBeenLastCalledWith("Hello there");
+        act(() => recognition.say([["Hello", true], [" there friend", true]], 1));
+
+        act(() => result.current.stopListening());
+        expect(onTranscript).toHaveBeenCalledWith("Hello there friend");
+        expect(result.current.listening).toBe(false);
+    });
+
+    it("hands-free listens again after each utterance and pauses while busy", async () => {
+        const onTranscript = jest.fn();
+        // Like the chat page: sending the transcript makes the chat busy
+        const { result } = renderHook(() => {
+            const [paused, setPaused] = useState(false);
+            const speech = useSpeechInput({
+                onTranscript: (text) => { onTranscript(text); setPaused(true); },
+                paused,
+            });
+            return { speech, setPaused };
+        });
+        await waitFor(() => expect(result.current.speech.supported).toBe(true));
+
+        act(() => result.current.speech.toggleHandsFree());
+        expect(result.current.speech.mode).toBe("hands-free");
+        await waitFor(() => expect(FakeRecognition.instances).toHaveLength(1));
+        expect(FakeRecognition.instances[0].continuous).toBe(false);
+
+        // The utterance ends by itself and is sent; nothing listens until the reply is done
+        act(() => {
+            FakeRecognition.instances[0].say([["What is your name", true]]);
+            FakeRecognition.instances[0].onend?.();
+        });
+        expect(onTranscript).toHaveBeenCalledWith("What is your name");
+        expect(FakeRecognition.instances).toHaveLength(1);
+
+        act(() => result.current.setPaused(false));
+        await waitFor(() => expect(FakeRecognition.instances).toHaveLength(2));
+
+        // Pausing mid-utterance drops what was heard
+        act(() => FakeRecognition.instances[1].say([["Half a", true]]));
+        act(() => result.current.setPaused(true));
+        expect(FakeRecognition.instances[1].abort).toHaveBeenCalled();
+        expect(onTranscript).toHaveBeenCalledTimes(1);
+
+        act(() => result.current.speech.toggleHandsFree());
+        expect(result.current.speech.mode).toBe("push-to-talk");
+    });
+
+    it("leaves hands-free mode when the microphone is blocked", async () => {
+        const { result } = renderHook(() => useSpeechInput({ onTranscript: jest.fn() }));
+        await waitFor(() => expect(result.current.supported).toBe(true));
+        act(() => result.current.toggleHandsFree());
+        await waitFor(() => expect(FakeRecognition.instances).toHaveLength(1));
+
+        act(() => FakeRecognition.instances[0].onerror?.({ error: "no-speech" }));
+        expect(result.current.error).toBe("");
+        act(() => {
+            FakeRecognition.instances[0].onerror?.({ error: "not-allowed" });
+            FakeRecognition.instances[0].onend?.();
+        });
+        expect(result.current.error).toBe("Microphone access was denied.");
+        expect(result.current.mode).toBe("push-to-talk");
+        expect(FakeRecognition.instances).toHaveLength(1);
+    });
+});
+
+describe("useSpeechInput with server transcription", () => {
+    let recorders: FakeRecorder[];
+    const track = { stop: jest.fn() };
+
+    class FakeRecorder {
+        state = "inactive";
+        mimeType = "audio/webm";
+        ondataavailable: ((event: { data: Blob }) => void) | null = null;
+        onstop: (() => void) | null = null;
+        constructor() { recorders.push(this); }
+        start() { this.state = "recording"; }
+        stop() {
+            this.state = "inactive";
+            this.ondataavailable?.({ data: new Blob(["audio"]) });
+            this.onstop?.();
+        }
+    }
+
+    class FakeAudioContext {
+        decodeAudioData = jest.fn(async () => ({ duration: 0.5 }));
+        close = jest.fn(async () => {});
+    }
+
+    class FakeOfflineAudioContext {
+        destination = {};
+        constructor(public channels: number, public length: number, public sampleRate: number) {}
+        createBufferSource() { return { buffer: null, connect: jest.fn(), start: jest.fn() }; }
+        async startRendering() { return { getChannelData: () => new Float32Array(this.length) }; }
+    }
+
+    beforeEach(() => {
+        recorders = [];
+        mockAuthenticatedFetch.mockReset();
+        w.MediaRecorder = FakeRecorder;
+        w.AudioContext = FakeAudioContext;
+        w.OfflineAudioContext = FakeOfflineAudioContext;
+        Object.defineProperty(navigator, "mediaDevices", {
+            value: { getUserMedia: jest.fn(async () => ({ getTracks: () => [track] })) },
+            configurable: true,
+        });
+        (Blob.prototype as unknown as { arrayBuffer: () => Promise<ArrayBuffer> }).arrayBuffer = async () => new ArrayBuffer(8);
+    });
+    afterEach(() => {
+        delete w.MediaRecorder;
+        delete w.AudioContext;
+        delete w.OfflineAudioContext;
+        delete (navigator as unknown as Record<string, unknown>).mediaDevices;
+    });
+
+    function respond(config: object, transcription?: object) {
+        mockAuthenticatedFetch.mockImplementation((url: string) => Promise.resolve(
+            url === "/api/config"
+                ? { ok: true, json: () => Promise.resolve(config) }
+                : { ok: !!transcription, status: transcription ? 200 : 500, json: () => Promise.resolve(transcription) },
+        ));
+    }
+
+    it("is unavailable when the server has no STT engine", async () => {
+        respond({ speechInput: false });
+        const { result } = renderHook(() => useSpeechInput({ onTranscript: jest.fn() }));
+        await waitFor(() => expect(mockAuthenticatedFetch).toHaveBeenCalledWith("/api/config"));
+        expect(result.current.supported).toBe(false);
+    });
+
+    it("records while held and uploads 16 kHz WAV for transcription", async () => {
+        respond({ speechInput: true }, { text: "Good morning" });
+        const onTranscript = jest.fn();
+        const { result } = renderHook(() => useSpeechInput({ onTranscript, lang: "en-GB" }));
+        await waitFor(() => expect(result.current.engine).toBe("server"));
+
+        await act(async () => { result.current.startListening(); });
+        await waitFor(() => expect(recorders).toHaveLength(1));
+        await act(async () => { result.current.stopListening(); });
+
+        await waitFor(() => expect(onTranscript).toHaveBeenCalledWith("Good morning"));
+        expect(track.stop).toHaveBeenCalled();
+        const [, init] = mockAuthenticatedFetch.mock.calls.find(([url]) => url === "/api/transcribe")!;
+        const body = JSON.parse(init.body);
+        expect(body.language).toBe("en-GB");
+        // 0.5 s at 16 kHz, 16-bit: 16000 bytes of samples plus the 44-byte header
+        expect(atob(body.audio)).toHaveLength(16044);
+        expect(result.current.transcribing).toBe(false);
+    });
+
+    it("does not start recording when released before the microphone is ready", async () => {
+        respond({ speechInput: true });
+        const { result } = renderHook(() => useSpeechInput({ onTranscript: jest.fn() }));
+        await waitFor(() => expect(result.current.engine).toBe("server"));
+        await act(async () => {
+            result.current.startListening();
+            result.current.stopListening();
+        });
+        expect(recorders).toHaveLength(0);
+        expect(track.stop).toHaveBeenCalled();
+        expect(result.current.listening).toBe(false);
+    });
+
+    it("shows an error when transcription fails", async () => {
+        respond({ speechInput: true });
+        const onTranscript = jest.fn();
+        const { result } = renderHook(() => useSpeechInput({ onTranscript }));
+        await waitFor(() => expect(result.current.engine).toBe("server"));
+        await act(async () => { result.current.startListening(); });
+        await waitFor(() => expect(recorders).toHaveLength(1));
+        await act(async () => { result.current.stopListening(); });
+        await waitFor(() => expect(result.current.error).toMatch(/Could not transcribe/));
+        expect(onTranscript).not.toHaveBeenCalled();
+    });
+});
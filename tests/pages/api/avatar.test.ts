@@ -0,0 +1,95 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+const mockLoadAvatar = jest.fn();
+jest.mock('../../../src/utils/avatarStorage', () => ({
+    loadAvatar: (...args: unknown[]) => mockLoadAvatar(...args),
+}));
+
+const mockLogEvent = jest.fn();
+jest.mock('../../../src/utils/logger', () => ({
+    generateRequestId: () => 'req-1',
+    logEvent: (...args: unknown[]) => mockLogEvent(...args),
+    sanitizeLogMeta: (meta: unknown) => meta,
+}));
+
+jest.mock('../../../src/utils/rateLimit', () => ({
+    createRateLimiter: () => (_req: unknown, _res: unknown, next: () => void) => next(),
+}));
+
+import handler from '../../../pages/api/avatar/[hash]';
+
+function makeRes() {
+    const res: Partial<NextApiResponse> & { headersSent: boolean } = { headersSent: false };
+    res.status = jest.fn().mockReturnValue(res as NextApiResponse);
+    res.json = jest.fn().mockReturnValue(res as NextApiResponse);
+    res.send = jest.fn().mockReturnValue(res as NextApiResponse);
+    res.end = jest.fn().mockReturnValue(res as NextApiResponse);
+    res.setHeader = jest.fn().mockReturnValue(res as NextApiResponse);
+    return res as NextApiResponse;
+}
+
+const hash = 'f'.repeat(64);
+
+async function request(method: string, id: unknown = hash, headers: Record<string, string> = {}) {
+    const res = makeRes();
+    await handler({ method, query: { hash: id }, headers } as unknown as NextApiRequest, res);
+    return res;
+}
+
+describe('/api/avatar/[hash]', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('only allows GET and HEAD', async () => {
+        const res = await request('POST');
+        expect(res.setHeader).toHaveBeenCalledWith('Allow', ['GET', 'HEAD']);
+        expect(res.status).toHaveBeenCalledWith(405);
+    });
+
+    it('rejects ids that are not content hashes', async () => {
+        const res = await request('GET', '../secret');
+        expect(res.status).toHaveBeenCalledWith(400);
+        expect(res.json).toHaveBeenCalledWith({ error: 'Invalid avatar id', requestId: 'req-1' });
+        expect(mockLoadAvatar).not.toHaveBeenCalled();
+    });
+
+    it('serves the image with long-lived caching headers', async () => {
+        const data = Buffer.from('png-bytes');
+        mockLoadAvatar.mockResolvedValueOnce({ data, contentType: 'image/png' });
+        const res = await request('GET', `${hash}-thumb`);
+        expect(mockLoadAvatar).toHaveBeenCalledWith(`${hash}-thumb`);
+        expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'image/png');
+        expect(res.setHeader).toHaveBeenCalledWith('Content-Length', data.length);
+        expect(res.setHeader).toHaveBeenCalledWith('Cache-Control', 'public, max-age=31536000, immutable');
+        expect(res.setHeader).toHaveBeenCalledWith('ETag', `"${hash}-thumb"`);
+        expect(res.send).toHaveBeenCalledWith(data);
+    });
+
+    it('answers HEAD requests without a body', async () => {
+        mockLoadAvatar.mockResolvedValueOnce({ data: Buffer.from('x'), contentType: 'image/webp' });
+        const res = await request('HEAD');
+        expect(res.status).toHaveBeenCalledWith(200);
+        expect(res.end).toHaveBeenCalled();
+        expect(res.send).not.toHaveBeenCalled();
+    });
+
+    it('returns 304 when the browser already has the image', async () => {
+        const res = await request('GET', hash, { 'if-none-match': `"${hash}"` });
+        expect(res.status).toHaveBeenCalledWith(304);
+        expect(mockLoadAvatar).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 for unknown avatars', async () => {
+        mockLoadAvatar.mockResolvedValueOnce(null);
+        const res = await request('GET');
+        expect(res.status).toHaveBeenCalledWith(404);
+    });
+
+    it('returns 500 and logs when the store fails', async () => {
+        mockLoadAvatar.mockRejectedValueOnce(new Error('disk gone'));
+        const res = await request('GET');
+        expect(res.status).toHaveBeenCalledWith(500);
+        expect(mockLogEvent).toHaveBeenCalledWith('error', 'avatar_load_failed', expect.any(String), expect.objectContaining({ hash, error: 'disk gone' }));
+    });
+});
@@ -0,0 +1,263 @@
+/** @jest-environment node */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+jest.mock('../../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+  generateRequestId: () => 'req-1',
+  logEvent: jest.fn(),
+  sanitizeLogMeta: (meta: unknown) => meta,
+}));
+jest.mock('../../../src/utils/rateLimit', () => ({
+  createRateLimiter: () => (_req: unknown, _res: unknown, next: () => void) => next(),
+}));
+jest.mock('ipinfo', () => jest.fn().mockResolvedValue({ city: 'Paris', region: 'IDF', country: 'FR' }));
+
+const mockCache = new Map<string, string>();
+jest.mock('../../../src/utils/cache', () => ({
+  setReplyCache: (key: string, value: string) => mockCache.set(key, value),
+  getReplyCache: (key: string) => mockCache.get(key) ?? null,
+}));
+
+const mockAudioDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chat-test-'));
+const mockSynthesize = jest.fn(async ({ filePath }: { filePath: string }) => fs.writeFileSync(filePath, 'mp3'));
+jest.mock('../../../src/utils/tts', () => ({
+  getAudioTmpDir: () => mockAudioDir,
+  isTtsEnabled: () => true,
+  synthesizeSpeechToFile: (options: { filePath: string }) => mockSynthesize(options),
+}));
+
+import handler from '../../../pages/api/chat';
+import { setLlmProvider } from '../../../src/utils/llm';
+
+const voiceConfig = { languageCodes: ['en-GB'], name: 'en-GB-Wavenet-D', ssmlGender: 1 };
+
+function makeReq(body: Record<string, unknown>): NextApiRequest {
+  return {
+    method: 'POST',
+    headers: {},
+    body: { botName: 'Holmes', personality: 'You are Holmes.', voiceConfig, ...body },
+    connection: { remoteAddress: '127.0.0.1' },
+  } as unknown as NextApiRequest;
+}
+
+interface MockRes {
+  headersSent: boolean;
+  writableEnded: boolean;
+  setHeader: jest.Mock;
+  write: jest.Mock;
+  end: jest.Mock;
+  on: jest.Mock;
+  status: jest.Mock;
+  json: jest.Mock;
+}
+
+function makeRes() {
+  const written: string[] = [];
+  const res: MockRes = {
+    headersSent: false,
+    writableEnded: false,
+    setHeader: jest.fn(),
+    write: jest.fn((data: string) => written.push(data)),
+    end: jest.fn(() => { res.writableEnded = true; }),
+    on: jest.fn(),
+    status: jest.fn(() => res),
+    json: jest.fn(() => res),
+  };
+  const events = () => written.map((data) => JSON.parse(data.replace(/^data: /, '').trim()));
+  return { res: res as unknown as NextApiResponse, raw: res, events };
+}
+
+function useProvider(chunks: string[] | Error, completeText = 'Elementary.') {
+  const stream = jest.fn(async function* () {
+    if (chunks instanceof Error) throw chunks;
+    for (const chunk of chunks) yield chunk;
+  });
+  const complete = jest.fn().mockResolvedValue({ text: completeText, model: 'fake-model' });
+  setLlmProvider({ name: 'fake', getModel: () => 'fake-model', complete, stream });
+  return { stream, complete };
+}
+
+describe('/api/chat', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockCache.clear();
+  });
+
+  afterAll(() => {
+    setLlmProvider(null);
+    fs.rmSync(mockAudioDir, { recursive: true, force: true });
+  });
+
+  it('streams chunks, then the final reply, with SSML audio named like non-streamed replies', async () => {
+    useProvider(['Elementary, ', 'my dear *smiles* Watson.']);
+    const { res, events } = makeRes();
+    await handler(makeReq({ message: 'Hello', stream: true }), res);
+
+    const all = events();
+    expect(all.slice(0, 2)).toEqual([
+      { chunk: 'Elementary, ', done: false },
+      { chunk: 'my dear *smiles* Watson.', done: false },
+    ]);
+    expect(all[2].audio).toMatch(/^\/api\/audio\?file=[0-9a-f]{64}\.mp3&/);
+    expect(all[3]).toMatchObject({ reply: 'Elementary, my dear  Watson.', model: 'fake-model', requestId: 'req-1', done: true });
+
+    const [{ filePath, ssml, text }] = mockSynthesize.mock.calls[0] as unknown as [{ filePath: string; ssml: boolean; text: string }];
+    expect(ssml).toBe(true);
+    expect(text).toMatch(/^<speak>/);
+    expect(path.dirname(filePath)).toBe(mockAudioDir);
+  });
+
+  it('speaks each sentence as soon as it is complete, reusing clips for repeated sentences', async () => {
+    useProvider(['Good evening. Do come', ' in. ', 'Good evening.']);
+    const { res, events } = makeRes();
+    await handler(makeReq({ message: 'Hello', stream: true }), res);
+
+    const spoken = mockSynthesize.mock.calls.map(([options]) => (options as unknown as { text: string }).text);
+    expect(spoken).toEqual([expect.stringContaining('Good evening.'), expect.stringContaining('Do come in.')]);
+    const all = events();
+    // The first clip is sent before the reply has finished streaming
+    expect(all.findIndex((e) => e.audio)).toBeLessThan(all.findIndex((e) => e.chunk === 'Good evening.'));
+    const clips = all.filter((e) => e.audio).map((e) => e.audio as string);
+    expect(clips).toHaveLength(3);
+    expect(clips[2]).toBe(clips[0]);
+    expect(all.pop()).toMatchObject({ reply: 'Good evening. Do come in. Good evening.', done: true });
+  });
+
+  it('does not repeat or drop sentences after a silent mood tag and emote', async () => {
+    useProvider(['[mood:happy] *smiles*\n', 'Hello there. ', 'How are you?']);
+    const { res, events } = makeRes();
+    await handler(makeReq({ message: 'Hello', stream: true }), res);
+
+    const spoken = mockSynthesize.mock.calls.map(([options]) => (options as unknown as { text: string }).text);
+    expect(spoken).toEqual([expect.stringContaining('Hello there.'), expect.stringContaining('How are you?')]);
+    const all = events();
+    expect(all.filter((e) => e.audio)).toHaveLength(2);
+    expect(all.pop()).toMatchObject({ reply: expect.stringContaining('How are you?'), mood: 'happy', done: true });
+  });
+
+  it('lists the other participants\' stop sequences first in a full group', async () => {
+    const { stream } = useProvider(['Indeed.']);
+    await handler(makeReq({ message: 'Hello', stream: true, groupParticipants: ['Holmes', 'Watson', 'Hudson', 'Lestrade'] }), makeRes().res);
+    const [request] = stream.mock.calls[0] as unknown as [{ stopSequences: string[] }];
+    expect(request.stopSequences.slice(0, 4)).toEqual(['\nWatson:', '\nHudson:', '\nLestrade:', 'User:']);
+  });
+
+  it('answers a repeated streaming request from the reply cache', async () => {
+    const { stream } = useProvider(['Elementary.']);
+    await handler(makeReq({ message: 'Hello', stream: true }), makeRes().res);
+
+    const second = makeRes();
+    await handler(makeReq({ message: 'Hello', stream: true }), second.res);
+    expect(stream).toHaveBeenCalledTimes(1);
+    expect(second.raw.setHeader).toHaveBeenCalledWith('Content-Type', 'text/event-stream');
+    expect(second.events()).toEqual([
+      { chunk: 'Elementary.', done: false },
+      { audio: expect.stringMatching(/^\/api\/audio\?file=/), done: false },
+      expect.objectContaining({ reply: 'Elementary.', cached: true, done: true }),
+    ]);
+    // The clip synthesized for the first request is reused
+    expect(mockSynthesize).toHaveBeenCalledTimes(1);
+  });
+
+  it('still delivers the streamed text when speech synthesis fails', async () => {
+    useProvider(['Quite so.']);
+    mockSynthesize.mockRejectedValueOnce(new Error('tts down'));
+    const { res, events } = makeRes();
+    await handler(makeReq({ message: 'Hello', stream: true }), res);
+    const all = events();
+    expect(all.pop()).toMatchObject({ reply: 'Quite so.', done: true });
+    expect(all.some((e) => e.audio)).toBe(false);
+  });
+
+  it('stops generating when the client closes the stream', async () => {
+    useProvider(['One. ', 'Two. ', 'Three.']);
+    const { res, raw, events } = makeRes();
+    raw.write.mockImplementation((data: string) => {
+      // Simulate the browser aborting right after the first chunk
+      raw.on.mock.calls.find(([name]: [string]) => name === 'close')?.[1]();
+      return Boolean(data);
+    });
+    await handler(makeReq({ message: 'Count', stream: true }), res);
+    expect(raw.write).toHaveBeenCalledTimes(1);
+    expect(events()).toHaveLength(0);
+    expect(mockSynthesize).not.toHaveBeenCalled();
+    expect(mockCache.size).toBe(0);
+  });
+
+  it('reports streaming failures as an error event', async () => {
+    useProvider(new Error('provider down'));
+    const { res, events } = makeRes();
+    await handler(makeReq({ message: 'Hello', stream: true }), res);
+    expect(events()).toEqual([{ error: 'Streaming failed', done: true }]);
+  });
+
+  it('removes action emotes from non-streamed replies too', async () => {
+    useProvider([], 'I *narrows eyes* doubt it.');
+    const { res, raw } = makeRes();
+    await handler(makeReq({ message: 'Hello' }), res);
+    expect(raw.status).toHaveBeenCalledWith(200);
+    expect(raw.json).toHaveBeenCalledWith(expect.objectContaining({ reply: 'I  doubt it.' }));
+  });
+
+  it('speaks tone tags as prosody, asks for them in the prompt and hides them from the reply', async () => {
+    const { complete } = useProvider([], 'Fine. [whispering] They are listening.');
+    const { res, raw } = makeRes();
+    await handler(makeReq({ message: 'Hello' }), res);
+
+    expect(complete.mock.calls[0][0].system).toContain('[whispering]');
+    expect(raw.json).toHaveBeenCalledWith(expect.objectContaining({ reply: 'Fine. They are listening.' }));
+    const [{ text }] = mockSynthesize.mock.calls[0] as unknown as [{ text: string }];
+    expect(text).toContain('<prosody pitch="-2st" rate="90%" volume="x-soft">They are listening.</prosody>');
+  });
+
+  it('asks for a mood tag and returns the mood apart from the reply and speech', async () => {
+    const { complete } = useProvider([], '[mood:happy] Splendid news.');
+    const { res, raw } = makeRes();
+    await handler(makeReq({ message: 'Hello' }), res);
+
+    expect(complete.mock.calls[0][0].system).toContain('[mood:thoughtful]');
+    expect(raw.json).toHaveBeenCalledWith(expect.objectContaining({ reply: 'Splendid news.', mood: 'happy' }));
+    const [{ text }] = mockSynthesize.mock.calls[0] as unknown as [{ text: string }];
+    expect(text).not.toContain('mood');
+
+    // The cached reply keeps its mood
+    const cached = makeRes();
+    await handler(makeReq({ message: 'Hello' }), cached.res);
+    expect(cached.raw.json).toHaveBeenCalledWith(expect.objectContaining({ reply: 'Splendid news.', mood: 'happy', cached: true }));
+  });
+
+  it('sends the streamed reply mood in the final event', async () => {
+    useProvider(['[mood:sur', 'prised] You ', 'came back!']);
+    const { res, events } = makeRes();
+    await handler(makeReq({ message: 'Hello', stream: true }), res);
+
+    expect(events().at(-1)).toEqual(expect.objectContaining({ reply: 'You came back!', mood: 'surprised', done: true }));
+    for (const [{ text }] of mockSynthesize.mock.calls as unknown as [{ text: string }][]) {
+      expect(text).not.toContain('mood');
+    }
+  });
+
+  it('leaves the mood out when the reply has no known mood tag', async () => {
+    useProvider([], '[mood:smug] Obviously.');
+    const { res, raw } = makeRes();
+    await handler(makeReq({ message: 'Hello' }), res);
+    const body = raw.json.mock.calls[0][0];
+    expect(body.reply).toBe('Obviously.');
+    expect(body).not.toHaveProperty('mood');
+  });
+
+  it('tells the character to reply in the conversation language', async () => {
+    const { complete } = useProvider([], 'Guten Tag.');
+    const { res } = makeRes();
+    await handler(makeReq({ message: 'Hello', language: 'de' }), res);
+    expect(complete.mock.calls[0][0].system).toContain('Always reply in German');
+
+    await handler(makeReq({ message: 'Hello', language: 'xx' }), makeRes().res);
+    expect(complete.mock.calls[1][0].system).not.toContain('LANGUAGE:');
+  });
+});
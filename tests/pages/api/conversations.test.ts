@@ -0,0 +1,155 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+jest.mock('../../../src/utils/logger', () => ({
+    generateRequestId: () => 'req-1',
+    logEvent: jest.fn(),
+    sanitizeLogMeta: (m: unknown) => m,
+}));
+
+jest.mock('../../../src/utils/rateLimit', () => ({
+    createRateLimiter: () => (_req: unknown, _res: unknown, next: () => void) => next(),
+}));
+
+import listHandler from '../../../pages/api/conversations/index';
+import itemHandler from '../../../pages/api/conversations/[id]';
+import { setConversationStore, type ConversationStore, type StoredConversation } from '../../../src/utils/conversationStore';
+
+function makeMemoryStore(): ConversationStore & { data: Map<string, StoredConversation> } {
+    const data = new Map<string, StoredConversation>();
+    return {
+        data,
+        get: async (sessionId, id) => (data.get(id)?.sessionId === sessionId ? data.get(id)! : null),
+        save: async (c) => { data.set(c.id, c); },
+        delete: async (sessionId, id) => data.get(id)?.sessionId === sessionId && data.delete(id),
+        list: async (sessionId) => [...data.values()]
+            .filter((c) => c.sessionId === sessionId)
+            .map((c) => ({ id: c.id, sessionId: c.sessionId, botName: c.bot.name, participantNames: [c.bot.name], messageCount: c.messages.length, updatedAt: c.updatedAt })),
+    };
+}
+
+function makeRes() {
+    const res: Partial<NextApiResponse> & { headersSent: boolean } = { headersSent: false };
+    res.status = jest.fn().mockReturnValue(res as NextApiResponse);
+    res.json = jest.fn().mockReturnValue(res as NextApiResponse);
+    res.end = jest.fn().mockReturnValue(res as NextApiResponse);
+    res.setHeader = jest.fn().mockReturnValue(res as NextApiResponse);
+    return res as NextApiResponse;
+}
+
+const bot = { name: 'Gandalf', personality: 'wise', avatarUrl: '/silhouette.svg', voiceConfig: null };
+const body = { sessionId: 'session-1', bot, messages: [{ sender: 'Gandalf', text: 'Hello' }] };
+const ID = 'abcdef123456';
+
+describe('/api/conversations', () => {
+    let store: ReturnType<typeof makeMemoryStore>;
+    beforeEach(() => {
+        store = makeMemoryStore();
+        setConversationStore(store);
+    });
+    afterAll(() => setConversationStore(null));
+
+    it('creates a conversation with a generated id and lists it', async () => {
+        const res = makeRes();
+        await listHandler({ method: 'POST', headers: {}, body } as unknown as NextApiRequest, res);
+        expect(res.status).toHaveBeenCalledWith(201);
+        const { id } = (res.json as jest.Mock).mock.calls[0][0];
+        expect(store.data.get(id)?.bot.name).toBe('Gandalf');
+
+        const listRes = makeRes();
+        await listHandler({ method: 'GET', headers: {}, query: { sessionId: 'session-1' } } as unknown as NextApiRequest, listRes);
+        expect((listRes.json as jest.Mock).mock.calls[0][0].conversations).toHaveLength(1);
+    });
+
+    it('never lists conversations without a session', async () => {
+        const res = makeRes();
+        await listHandler({ method: 'POST', headers: {}, body } as unknown as NextApiRequest, res);
+
+        const missing = makeRes();
+        await listHandler({ method: 'GET', headers: {}, query: {} } as unknown as NextApiRequest, missing);
+        expect(missing.status).toHaveBeenCalledWith(400);
+
+        const other = makeRes();
+        await listHandler({ method: 'GET', headers: {}, query: { sessionId: 'session-2' } } as unknown as NextApiRequest, other);
+        expect((other.json as jest.Mock).mock.calls[0][0].conversations).toEqual([]);
+    });
+
+    it('rejects invalid bodies and unsupported methods', async () => {
+        const res = makeRes();
+        await listHandler({ method: 'POST', headers: {}, body: { ...body, bot: null } } as unknown as NextApiRequest, res);
+        expect(res.status).toHaveBeenCalledWith(400);
+
+        const res405 = makeRes();
+        await listHandler({ method: 'DELETE', headers: {} } as unknown as NextApiRequest, res405);
+        expect(res405.status).toHaveBeenCalledWith(405);
+    });
+
+    it('returns 500 when the store fails', async () => {
+        store.list = async () => { throw new Error('disk full'); };
+        const res = makeRes();
+        await listHandler({ method: 'GET', headers: {}, query: { sessionId: 'session-1' } } as unknown as NextApiRequest, res);
+        expect(res.status).toHaveBeenCalledWith(500);
+    });
+});
+
+describe('/api/conversations/[id]', () => {
+    let store: ReturnType<typeof makeMemoryStore>;
+    beforeEach(() => {
+        store = makeMemoryStore();
+        setConversationStore(store);
+    });
+    afterAll(() => setConversationStore(null));
+
+    const call = async (method: string, id: string, reqBody?: unknown, sessionId = 'session-1') => {
+        const res = makeRes();
+        await itemHandler({ method, headers: {}, query: { id, sessionId }, body: reqBody } as unknown as NextApiRequest, res);
+        return res;
+    };
+    const seed = () => {
+        const now = '2026-01-01T00:00:00.000Z';
+        store.data.set(ID, { id: ID, ...body, messages: [], createdAt: now, updatedAt: now });
+    };
+
+    it('replaces an existing conversation with PUT and keeps the original creation time', async () => {
+        seed();
+        const updated = await call('PUT', ID, { ...body, messages: [...body.messages, { sender: 'User', text: 'Hi' }] });
+        expect(updated.status).toHaveBeenCalledWith(200);
+        expect(store.data.get(ID)!.createdAt).toBe('2026-01-01T00:00:00.000Z');
+        expect(store.data.get(ID)!.messages).toHaveLength(2);
+    });
+
+    it('does not create conversations under client-chosen ids', async () => {
+        expect((await call('PUT', ID, body)).status).toHaveBeenCalledWith(404);
+        expect(store.data.has(ID)).toBe(false);
+    });
+
+    it('gets and deletes a conversation', async () => {
+        seed();
+        const got = await call('GET', ID);
+        expect((got.json as jest.Mock).mock.calls[0][0].conversation.bot.name).toBe('Gandalf');
+
+        expect((await call('DELETE', ID)).status).toHaveBeenCalledWith(200);
+        expect((await call('GET', ID)).status).toHaveBeenCalledWith(404);
+        expect((await call('DELETE', ID)).status).toHaveBeenCalledWith(404);
+    });
+
+    it('hides conversations from other sessions', async () => {
+        seed();
+        expect((await call('GET', ID, undefined, 'session-2')).status).toHaveBeenCalledWith(404);
+        expect((await call('DELETE', ID, undefined, 'session-2')).status).toHaveBeenCalledWith(404);
+        expect((await call('PUT', ID, { ...body, sessionId: 'session-2' })).status).toHaveBeenCalledWith(404);
+        expect(store.data.get(ID)).toMatchObject({ sessionId: 'session-1', messages: [] });
+    });
+
+    it('validates the id, session, body and method', async () => {
+        expect((await call('GET', '../etc')).status).toHaveBeenCalledWith(400);
+        expect((await call('GET', ID, undefined, '')).status).toHaveBeenCalledWith(400);
+        expect((await call('DELETE', ID, undefined, '')).status).toHaveBeenCalledWith(400);
+        expect((await call('PUT', ID, { ...body, messages: null })).status).toHaveBeenCalledWith(400);
+        expect((await call('PATCH', ID)).status).toHaveBeenCalledWith(405);
+    });
+
+    it('returns 500 when the store fails', async () => {
+        store.get = async () => { throw new Error('offline'); };
+        expect((await call('GET', ID)).status).toHaveBeenCalledWith(500);
+    });
+});
@@ -19,6 +19,7 @@ jest.mock('../../../src/utils/logger', () => ({
 
 // Mock model selector
 jest.mock('../../../src/utils/claudeModelSelector', () => ({
+    ...jest.requireActual('../../../src/utils/claudeModelSelector'),
     getClaudeModel: (_: string) => 'claude-haiku-4-5-20251001'
 }));
 
@@ -111,7 +112,7 @@ describe('generate-avatar API', () => {
                 }))
             }));
             jest.doMock('../../../src/utils/logger', () => ({ __esModule: true, default: mockLoggerDefault, logEvent: (...args: unknown[]) => mockLogEvent(...(args as unknown[])), sanitizeLogMeta: (m: unknown) => mockSanitize(m) }));
-            jest.doMock('../../../src/utils/claudeModelSelector', () => ({ getClaudeModel: (_: string) => 'claude-test' }));
+            jest.doMock('../../../src/utils/claudeModelSelector', () => ({ ...jest.requireActual('../../../src/utils/claudeModelSelector'), getClaudeModel: (_: string) => 'claude-test' }));
             jest.doMock('../../../src/utils/security', () => ({ sanitizeCharacterName: (s: string) => (typeof s === 'string' ? s.trim() : '') }));
 
             const handler = require('../../../pages/api/generate-avatar').default;
@@ -122,6 +123,162 @@ describe('generate-avatar API', () => {
         });
     });
 
+    it('stores the generated image and returns its /api/avatar URL', async () => {
+        await jest.isolateModulesAsync(async () => {
+            jest.resetModules();
+
+            const mockCreate = jest.fn().mockResolvedValueOnce({
+                content: [{ type: 'text', text: JSON.stringify({ subject: 's', artStyle: 'a', composition: 'c', iconicElements: 'i', negativePrompts: 'n', gender: 'male' }) }]
+            });
+            jest.doMock('@anthropic-ai/sdk', () => ({
+                default: function AnthropicMock() { return { messages: { create: mockCreate } }; },
+                __esModule: true
+            }));
+            jest.doMock('@google/genai', () => ({
+                GoogleGenAI: jest.fn().mockImplementation(() => ({
+                    models: {
+                        generateContent: jest.fn().mockResolvedValue({
+                            candidates: [{ content: { parts: [{ inlineData: { data: fakeB64, mimeType: 'image/png' } }] } }]
+                        })
+                    }
+                }))
+            }));
+            const storedUrl = `/api/avatar/${'e'.repeat(64)}`;
+            const mockSaveAvatar = jest.fn().mockResolvedValue(storedUrl);
+            jest.doMock('../../../src/utils/avatarStorage', () => ({
+                ...jest.requireActual('../../../src/utils/avatarStorage'),
+                saveAvatar: mockSaveAvatar,
+            }));
+            jest.doMock('../../../src/utils/logger', () => ({ __esModule: true, default: mockLoggerDefault, logEvent: (...args: unknown[]) => mockLogEvent(...(args as unknown[])), sanitizeLogMeta: (m: unknown) => mockSanitize(m) }));
+            jest.doMock('../../../src/utils/claudeModelSelector', () => ({ ...jest.requireActual('../../../src/utils/claudeModelSelector'), getClaudeModel: (_: string) => 'claude-test' }));
+            jest.doMock('../../../src/utils/security', () => ({ sanitizeCharacterName: (s: string) => (typeof s === 'string' ? s.trim() : '') }));
+
+            const handler = require('../../../pages/api/generate-avatar').default;
+            const req = { method: 'POST', body: { name: 'TestName' } } as Partial<NextApiRequest> as NextApiRequest;
+            const res = makeRes();
+            await handler(req, res);
+            expect(mockSaveAvatar).toHaveBeenCalledWith(Buffer.from('fakeimagedata'));
+            expect(res.json).toHaveBeenCalledWith({ avatarUrl: storedUrl, gender: 'male' });
+        });
+        jest.dontMock('../../../src/utils/avatarStorage');
+    });
+
+    it('generates the requested variants in parallel in the chosen style', async () => {
+        await jest.isolateModulesAsync(async () => {
+            jest.resetModules();
+
+            const mockCreate = jest.fn().mockResolvedValueOnce({
+                content: [{ type: 'text', text: JSON.stringify({ subject: 's', artStyle: 'gritty photo', composition: 'c', iconicElements: 'i', negativePrompts: 'n', gender: 'female' }) }]
+            });
+            jest.doMock('@anthropic-ai/sdk', () => ({
+                default: function AnthropicMock() { return { messages: { create: mockCreate } }; },
+                __esModule: true
+            }));
+            const image = (data: string) => ({ candidates: [{ content: { parts: [{ inlineData: { data, mimeType: 'image/png' } }] } }] });
+            const generateContent = jest.fn()
+                .mockResolvedValueOnce(image('b25l'))
+                .mockRejectedValueOnce(new Error('quota'))
+                .mockResolvedValueOnce(image('dGhyZWU='));
+            jest.doMock('@google/genai', () => ({
+                GoogleGenAI: jest.fn().mockImplementation(() => ({ models: { generateContent } }))
+            }));
+            jest.doMock('../../../src/utils/logger', () => ({ __esModule: true, default: mockLoggerDefault, logEvent: (...args: unknown[]) => mockLogEvent(...(args as unknown[])), sanitizeLogMeta: (m: unknown) => mockSanitize(m) }));
+            jest.doMock('../../../src/utils/claudeModelSelector', () => ({ ...jest.requireActual('../../../src/utils/claudeModelSelector'), getClaudeModel: (_: string) => 'claude-test' }));
+            jest.doMock('../../../src/utils/security', () => ({ sanitizeCharacterName: (s: string) => (typeof s === 'string' ? s.trim() : '') }));
+
+            const handler = require('../../../pages/api/generate-avatar').default;
+            const req = { method: 'POST', body: { name: 'Circe', style: 'watercolor', variants: 3 } } as Partial<NextApiRequest> as NextApiRequest;
+            const res = makeRes();
+            await handler(req, res);
+
+            expect(generateContent).toHaveBeenCalledTimes(3);
+            const prompt = generateContent.mock.calls[0][0].contents[0].parts[0].text as string;
+            expect(prompt).toContain('Style: soft watercolor painting');
+            expect(prompt).not.toContain('gritty photo');
+            expect(mockCreate.mock.calls[0][0].messages[0].content).toContain('rendered as a soft watercolor painting');
+            expect(res.json).toHaveBeenCalledWith({
+                avatarUrl: 'data:image/png;base64,b25l',
+                avatarUrls: ['data:image/png;base64,b25l', 'data:image/png;base64,dGhyZWU='],
+                gender: 'female',
+            });
+            expect(mockLogEvent).toHaveBeenCalledWith('error', 'avatar_image_error', expect.any(String), expect.objectContaining({ provider: 'gemini', error: 'quota' }));
+        });
+    });
+
+    it('repaints the stored portrait once per mood when expressions are requested', async () => {
+        await jest.isolateModulesAsync(async () => {
+            jest.resetModules();
+
+            const mockCreate = jest.fn().mockResolvedValueOnce({
+                content: [{ type: 'text', text: JSON.stringify({ subject: 's', artStyle: 'a', composition: 'c', iconicElements: 'i', negativePrompts: 'n', gender: 'male' }) }]
+            });
+            jest.doMock('@anthropic-ai/sdk', () => ({
+                default: function AnthropicMock() { return { messages: { create: mockCreate } }; },
+                __esModule: true
+            }));
+            const image = (data: string) => ({ candidates: [{ content: { parts: [{ inlineData: { data, mimeType: 'image/png' } }] } }] });
+            // Base portrait, then happy, angry, thoughtful (fails) and surprised
+            const generateContent = jest.fn()
+                .mockResolvedValueOnce(image(fakeB64))
+                .mockResolvedValueOnce(image('aGFwcHk='))
+                .mockResolvedValueOnce(image('YW5ncnk='))
+                .mockRejectedValueOnce(new Error('quota'))
+                .mockResolvedValueOnce(image('c3VycHJpc2Vk'));
+            jest.doMock('@google/genai', () => ({
+                GoogleGenAI: jest.fn().mockImplementation(() => ({ models: { generateContent } }))
+            }));
+            const mockSaveAvatar = jest.fn(async (bytes: Buffer) => `/api/avatar/${bytes.length.toString(16).padStart(64, '0')}`);
+            jest.doMock('../../../src/utils/avatarStorage', () => ({
+                ...jest.requireActual('../../../src/utils/avatarStorage'),
+                saveAvatar: mockSaveAvatar,
+            }));
+            jest.doMock('../../../src/utils/logger', () => ({ __esModule: true, default: mockLoggerDefault, logEvent: (...args: unknown[]) => mockLogEvent(...(args as unknown[])), sanitizeLogMeta: (m: unknown) => mockSanitize(m) }));
+            jest.doMock('../../../src/utils/claudeModelSelector', () => ({ ...jest.requireActual('../../../src/utils/claudeModelSelector'), getClaudeModel: (_: string) => 'claude-test' }));
+            jest.doMock('../../../src/utils/security', () => ({ sanitizeCharacterName: (s: string) => (typeof s === 'string' ? s.trim() : '') }));
+
+            const handler = require('../../../pages/api/generate-avatar').default;
+            const req = { method: 'POST', body: { name: 'Holmes', expressions: true } } as Partial<NextApiRequest> as NextApiRequest;
+            const res = makeRes();
+            await handler(req, res);
+
+            expect(generateContent).toHaveBeenCalledTimes(5);
+            const happyParts = generateContent.mock.calls[1][0].contents[0].parts;
+            expect(happyParts[0]).toEqual({ inlineData: { mimeType: 'image/png', data: fakeB64 } });
+            expect(happyParts[1].text).toContain('a warm, happy smile');
+            const url = (text: string) => `/api/avatar/${Buffer.from(text).length.toString(16).padStart(64, '0')}`;
+            expect(res.json).toHaveBeenCalledWith({
+                avatarUrl: url('fakeimagedata'),
+                expressions: { neutral: url('fakeimagedata'), happy: url('happy'), angry: url('angry'), surprised: url('surprised') },
+                gender: 'male',
+            });
+            expect(mockLogEvent).toHaveBeenCalledWith('error', 'avatar_expression_error', expect.any(String), expect.objectContaining({ mood: 'thoughtful' }));
+        });
+        jest.dontMock('../../../src/utils/avatarStorage');
+    });
+
+    it('skips expressions when the portrait could not be stored', async () => {
+        await jest.isolateModulesAsync(async () => {
+            jest.resetModules();
+            const generateContent = jest.fn().mockResolvedValue({
+                candidates: [{ content: { parts: [{ inlineData: { data: fakeB64, mimeType: 'image/png' } }] } }]
+            });
+            jest.doMock('@google/genai', () => ({
+                GoogleGenAI: jest.fn().mockImplementation(() => ({ models: { generateContent } }))
+            }));
+            jest.doMock('../../../src/utils/logger', () => ({ __esModule: true, default: mockLoggerDefault, logEvent: (...args: unknown[]) => mockLogEvent(...(args as unknown[])), sanitizeLogMeta: (m: unknown) => mockSanitize(m) }));
+            jest.doMock('../../../src/utils/claudeModelSelector', () => ({ ...jest.requireActual('../../../src/utils/claudeModelSelector'), getClaudeModel: (_: string) => 'claude-test' }));
+            jest.doMock('../../../src/utils/security', () => ({ sanitizeCharacterName: (s: string) => (typeof s === 'string' ? s.trim() : '') }));
+
+            const handler = require('../../../pages/api/generate-avatar').default;
+            const req = { method: 'POST', body: { name: 'Holmes', expressions: true } } as Partial<NextApiRequest> as NextApiRequest;
+            const res = makeRes();
+            await handler(req, res);
+
+            expect(generateContent).toHaveBeenCalledTimes(1);
+            expect((res.json as jest.Mock).mock.calls[0][0]).not.toHaveProperty('expressions');
+        });
+    });
+
     it('returns silhouette when Gemini returns no image data', async () => {
         await jest.isolateModulesAsync(async () => {
             jest.resetModules();
@@ -143,7 +300,7 @@ describe('generate-avatar API', () => {
                 }))
             }));
             jest.doMock('../../../src/utils/logger', () => ({ __esModule: true, default: mockLoggerDefault, logEvent: (...args: unknown[]) => mockLogEvent(...(args as unknown[])), sanitizeLogMeta: (m: unknown) => mockSanitize(m) }));
-            jest.doMock('../../../src/utils/claudeModelSelector', () => ({ getClaudeModel: (_: string) => 'claude-test' }));
+            jest.doMock('../../../src/utils/claudeModelSelector', () => ({ ...jest.requireActual('../../../src/utils/claudeModelSelector'), getClaudeModel: (_: string) => 'claude-test' }));
             jest.doMock('../../../src/utils/security', () => ({ sanitizeCharacterName: (s: string) => (typeof s === 'string' ? s.trim() : '') }));
 
             const handler = require('../../../pages/api/generate-avatar').default;
@@ -173,7 +330,7 @@ describe('generate-avatar API', () => {
                 }))
             }));
             jest.doMock('../../../src/utils/logger', () => ({ __esModule: true, default: mockLoggerDefault, logEvent: (...args: unknown[]) => mockLogEvent(...(args as unknown[])), sanitizeLogMeta: (m: unknown) => mockSanitize(m) }));
-            jest.doMock('../../../src/utils/claudeModelSelector', () => ({ getClaudeModel: (_: string) => 'claude-test' }));
+            jest.doMock('../../../src/utils/claudeModelSelector', () => ({ ...jest.requireActual('../../../src/utils/claudeModelSelector'), getClaudeModel: (_: string) => 'claude-test' }));
             jest.doMock('../../../src/utils/security', () => ({ sanitizeCharacterName: (s: string) => (typeof s === 'string' ? s.trim() : '') }));
 
             const handler = require('../../../pages/api/generate-avatar').default;
@@ -205,7 +362,7 @@ describe('generate-avatar API', () => {
                 }))
             }));
             jest.doMock('../../../src/utils/logger', () => ({ __esModule: true, default: mockLoggerDefault, logEvent: (...args: unknown[]) => mockLogEvent(...(args as unknown[])), sanitizeLogMeta: (m: unknown) => mockSanitize(m) }));
-            jest.doMock('../../../src/utils/claudeModelSelector', () => ({ getClaudeModel: (_: string) => 'claude-test' }));
+            jest.doMock('../../../src/utils/claudeModelSelector', () => ({ ...jest.requireActual('../../../src/utils/claudeModelSelector'), getClaudeModel: (_: string) => 'claude-test' }));
             jest.doMock('../../../src/utils/security', () => ({ sanitizeCharacterName: (s: string) => (typeof s === 'string' ? s.trim() : '') }));
 
             const handler = require('../../../pages/api/generate-avatar').default;
@@ -236,7 +393,7 @@ describe('generate-avatar API', () => {
                 }))
             }));
             jest.doMock('../../../src/utils/logger', () => ({ __esModule: true, default: mockLoggerDefault, logEvent: (...args: unknown[]) => mockLogEvent(...(args as unknown[])), sanitizeLogMeta: (m: unknown) => mockSanitize(m) }));
-            jest.doMock('../../../src/utils/claudeModelSelector', () => ({ getClaudeModel: (_: string) => 'claude-test' }));
+            jest.doMock('../../../src/utils/claudeModelSelector', () => ({ ...jest.requireActual('../../../src/utils/claudeModelSelector'), getClaudeModel: (_: string) => 'claude-test' }));
             jest.doMock('../../../src/utils/security', () => ({ sanitizeCharacterName: (s: string) => (typeof s === 'string' ? s.trim() : '') }));
 
             const handler = require('../../../pages/api/generate-avatar').default;
@@ -278,7 +435,7 @@ describe('generate-avatar API', () => {
                 }))
             }));
             jest.doMock('../../../src/utils/logger', () => ({ __esModule: true, default: mockLoggerDefault, logEvent: (...args: unknown[]) => mockLogEvent(...(args as unknown[])), sanitizeLogMeta: (m: unknown) => mockSanitize(m) }));
-            jest.doMock('../../../src/utils/claudeModelSelector', () => ({ getClaudeModel: (_: string) => 'claude-test' }));
+            jest.doMock('../../../src/utils/claudeModelSelector', () => ({ ...jest.requireActual('../../../src/utils/claudeModelSelector'), getClaudeModel: (_: string) => 'claude-test' }));
             jest.doMock('../../../src/utils/security', () => ({ sanitizeCharacterName: (s: string) => (typeof s === 'string' ? s.trim() : '') }));
 
             // Set credentials as a file path (not a JSON string)
@@ -305,7 +462,7 @@ describe('generate-avatar API', () => {
                 __esModule: true
             }));
             jest.doMock('../../../src/utils/logger', () => ({ __esModule: true, default: mockLoggerDefault, logEvent: (...args: unknown[]) => mockLogEvent(...(args as unknown[])), sanitizeLogMeta: (m: unknown) => mockSanitize(m) }));
-            jest.doMock('../../../src/utils/claudeModelSelector', () => ({ getClaudeModel: (_: string) => 'claude-test' }));
+            jest.doMock('../../../src/utils/claudeModelSelector', () => ({ ...jest.requireActual('../../../src/utils/claudeModelSelector'), getClaudeModel: (_: string) => 'claude-test' }));
             jest.doMock('../../../src/utils/security', () => ({ sanitizeCharacterName: (s: string) => (typeof s === 'string' ? s.trim() : '') }));
 
             // Remove credentials so loadGcpCredentials throws
@@ -334,7 +491,7 @@ describe('generate-avatar API', () => {
                 default: function AnthropicMock() { return { messages: { create: jest.fn() } }; },
                 __esModule: true
             }));
-            jest.doMock('../../../src/utils/claudeModelSelector', () => ({ getClaudeModel: (_: string) => 'claude-test' }));
+            jest.doMock('../../../src/utils/claudeModelSelector', () => ({ ...jest.requireActual('../../../src/utils/claudeModelSelector'), getClaudeModel: (_: string) => 'claude-test' }));
             jest.doMock('../../../src/utils/security', () => ({ sanitizeCharacterName: (s: string) => (typeof s === 'string' ? s.trim() : '') }));
 
             const handler = require('../../../pages/api/generate-avatar').default;
@@ -370,7 +527,7 @@ describe('generate-avatar API', () => {
                 __esModule: true
             }));
             jest.doMock('../../../src/utils/logger', () => ({ __esModule: true, default: mockLoggerDefault, logEvent: (...args: unknown[]) => mockLogEvent(...(args as unknown[])), sanitizeLogMeta: (m: unknown) => mockSanitize(m) }));
-            jest.doMock('../../../src/utils/claudeModelSelector', () => ({ getClaudeModel: (_: string) => 'claude-test' }));
+            jest.doMock('../../../src/utils/claudeModelSelector', () => ({ ...jest.requireActual('../../../src/utils/claudeModelSelector'), getClaudeModel: (_: string) => 'claude-test' }));
             jest.doMock('../../../src/utils/security', () => ({ sanitizeCharacterName: (s: string) => (typeof s === 'string' ? s.trim() : '') }));
 
             const handler = require('../../../pages/api/generate-avatar').default;
@@ -389,4 +546,41 @@ describe('generate-avatar API', () => {
             expect(res.json).toHaveBeenCalled();
         });
     });
+    describe('buildAvatarPromptRequest', () => {
+        const description = { backstory: 'Keeps a lighthouse', era: 'Cornwall, 1880s', appearance: 'Grey beard, oilskin coat', temperament: '', speakingStyle: '' };
+
+        it('asks for a generic archetype for well-known names', () => {
+            const { buildAvatarPromptRequest } = require('../../../pages/api/generate-avatar');
+            const message = buildAvatarPromptRequest('Sherlock Holmes');
+            expect(message).toContain('Do not depict this as a real person');
+            expect(message).not.toContain('The author describes the character');
+        });
+
+        it('treats described characters as original and includes the description', () => {
+            const { buildAvatarPromptRequest } = require('../../../pages/api/generate-avatar');
+            const message = buildAvatarPromptRequest('Tamsin', description);
+            expect(message).toContain('This is an original character');
+            expect(message).toContain('Appearance: Grey beard, oilskin coat');
+            expect(message).toContain('Era: Cornwall, 1880s');
+        });
+
+        it('still recognises original characters by name', () => {
+            const { buildAvatarPromptRequest } = require('../../../pages/api/generate-avatar');
+            expect(buildAvatarPromptRequest('My Original Character')).toContain('This is an original character');
+        });
+
+        it('asks to keep the portrait and change only the expression', () => {
+            const { buildExpressionPrompt } = require('../../../pages/api/generate-avatar');
+            const prompt = buildExpressionPrompt('A detective in a deerstalker.', 'angry');
+            expect(prompt).toContain('an angry scowl');
+            expect(prompt).toContain('change only the facial expression');
+            expect(prompt).toContain('A detective in a deerstalker.');
+        });
+
+        it('names the requested style preset', () => {
+            const { buildAvatarPromptRequest } = require('../../../pages/api/generate-avatar');
+            expect(buildAvatarPromptRequest('Circe', null, 'ink-sketch')).toContain('rendered as a black ink sketch');
+            expect(buildAvatarPromptRequest('Circe')).not.toContain('rendered as a');
+        });
+    });
 });
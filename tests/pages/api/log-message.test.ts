@@ -0,0 +1,72 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import fs from 'fs';
+
+jest.mock('../../../src/utils/logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), error: jest.fn() },
+    generateRequestId: () => 'req-1',
+    logEvent: jest.fn(),
+    sanitizeLogMeta: (m: unknown) => m,
+}));
+
+import handler from '../../../pages/api/log-message';
+
+function makeRes() {
+    const res: Partial<NextApiResponse> & { headersSent: boolean } = { headersSent: false };
+    res.status = jest.fn().mockReturnValue(res as NextApiResponse);
+    res.json = jest.fn().mockReturnValue(res as NextApiResponse);
+    res.end = jest.fn().mockReturnValue(res as NextApiResponse);
+    res.setHeader = jest.fn().mockReturnValue(res as NextApiResponse);
+    return res as NextApiResponse;
+}
+
+async function post(body: Record<string, unknown>) {
+    const res = makeRes();
+    await handler({ method: 'POST', body, headers: {}, socket: { remoteAddress: '127.0.0.1' } } as unknown as NextApiRequest, res);
+    return res;
+}
+
+const base = { sender: 'Gandalf', text: 'Hello', sessionId: 'session-1', sessionDatetime: '20260101_000000' };
+
+describe('/api/log-message', () => {
+    let appendSpy: jest.SpyInstance;
+    beforeEach(() => {
+        delete process.env.VERCEL_BLOB_READ_WRITE_TOKEN;
+        delete process.env.BLOB_READ_WRITE_TOKEN;
+        jest.spyOn(fs, 'mkdirSync').mockImplementation(() => undefined);
+        appendSpy = jest.spyOn(fs, 'appendFileSync').mockImplementation(() => undefined);
+    });
+    afterEach(() => jest.restoreAllMocks());
+
+    it('appends message metadata to the log entry', async () => {
+        const res = await post({
+            ...base,
+            id: 'b3f1c2d4-0000-4000-8000-000000000000',
+            role: 'assistant',
+            timestamp: '2026-01-01T10:00:00.000Z',
+            model: 'claude-test',
+            requestId: 'chat-req-42',
+        });
+        expect(res.status).toHaveBeenCalledWith(200);
+        const entry = appendSpy.mock.calls[0][1] as string;
+        expect(entry).toContain('Gandalf: Hello [role=assistant id=b3f1c2d4-0000-4000-8000-000000000000 sent=2026-01-01T10:00:00.000Z model=claude-test requestId=chat-req-42]');
+    });
+
+    it('still accepts legacy entries without metadata', async () => {
+        const res = await post(base);
+        expect(res.status).toHaveBeenCalledWith(200);
+        expect(appendSpy.mock.calls[0][1]).toMatch(/Gandalf: Hello\n$/);
+    });
+
+    it.each([
+        [{ role: 'narrator' }, 'Invalid role'],
+        [{ timestamp: 'yesterday' }, 'Invalid timestamp'],
+        [{ requestId: 'bad id\nInjected: line' }, 'Invalid requestId'],
+        [{ model: 42 }, 'Invalid model'],
+    ])('rejects invalid metadata %j', async (extra, error) => {
+        const res = await post({ ...base, ...extra });
+        expect(res.status).toHaveBeenCalledWith(400);
+        expect(res.json).toHaveBeenCalledWith({ error, requestId: 'req-1' });
+        expect(appendSpy).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,159 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+jest.mock('../../../src/utils/logger', () => ({
+    __esModule: true,
+    default: { error: jest.fn(), info: jest.fn(), warn: jest.fn() },
+    generateRequestId: () => 'req-1',
+    logEvent: jest.fn(),
+    sanitizeLogMeta: (m: unknown) => m,
+}));
+
+jest.mock('../../../src/utils/rateLimit', () => ({
+    createRateLimiter: () => (_req: unknown, _res: unknown, next: () => void) => next(),
+}));
+
+const mockCreate = jest.fn();
+jest.mock('../../../src/utils/anthropicClient', () => ({
+    __esModule: true,
+    default: { messages: { create: (...args: unknown[]) => mockCreate(...args) } },
+}));
+
+import listHandler from '../../../pages/api/memories/index';
+import itemHandler from '../../../pages/api/memories/[id]';
+import { setMemoryStore, type CharacterMemory, type MemoryStore } from '../../../src/utils/characterMemory';
+
+const USER = '0f8fad5b-d9cb-469f-a165-70867728950e';
+
+function makeStore(): MemoryStore & { data: Map<string, CharacterMemory[]> } {
+    const data = new Map<string, CharacterMemory[]>();
+    return {
+        data,
+        get: async (userId, name) => data.get(`${userId}:${name}`) ?? [],
+        save: async (userId, name, memories) => { data.set(`${userId}:${name}`, memories); },
+    };
+}
+
+function makeRes() {
+    const res: Partial<NextApiResponse> & { headersSent: boolean } = { headersSent: false };
+    res.status = jest.fn().mockReturnValue(res as NextApiResponse);
+    res.json = jest.fn().mockReturnValue(res as NextApiResponse);
+    res.end = jest.fn().mockReturnValue(res as NextApiResponse);
+    res.setHeader = jest.fn().mockReturnValue(res as NextApiResponse);
+    return res as NextApiResponse;
+}
+
+const tea: CharacterMemory = {
+    id: 'm1',
+    text: 'The user loves tea.',
+    category: 'preference',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+function call(handler: typeof listHandler, req: Record<string, unknown>) {
+    const res = makeRes();
+    return handler({ headers: {}, query: {}, ...req } as unknown as NextApiRequest, res).then(() => res);
+}
+
+describe('/api/memories', () => {
+    let store: ReturnType<typeof makeStore>;
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockCreate.mockReset();
+        store = makeStore();
+        setMemoryStore(store);
+    });
+    afterAll(() => setMemoryStore(null));
+
+    it('lists a character\'s memories', async () => {
+        store.data.set(`${USER}:Gandalf`, [tea]);
+        const res = await call(listHandler, { method: 'GET', query: { userId: USER, characterName: 'Gandalf' } });
+        expect(res.status).toHaveBeenCalledWith(200);
+        expect((res.json as jest.Mock).mock.calls[0][0].memories).toEqual([tea]);
+    });
+
+    it('rejects requests without a valid user or character', async () => {
+        const res = await call(listHandler, { method: 'GET', query: { userId: 'x', characterName: 'Gandalf' } });
+        expect(res.status).toHaveBeenCalledWith(400);
+        const postRes = await call(listHandler, { method: 'POST', body: { userId: USER, characterNames: ['Gandalf'], entries: [] } });
+        expect(postRes.status).toHaveBeenCalledWith(400);
+    });
+
+    it('extracts facts separately for every character in the room', async () => {
+        store.data.set(`${USER}:Gandalf`, [tea]);
+        mockCreate.mockImplementation(async ({ system }: { system: string }) => ({
+            content: [{
+                type: 'text',
+                text: system.includes('chat with Gandalf')
+                    ? '{"memories":[{"text":"The user\'s name is Sam.","category":"identity"}]}'
+                    : '{"memories":[{"text":"The user\'s name is Sam.","category":"identity"},{"text":"The user promised to carry the ring.","category":"story"}]}',
+            }],
+        }));
+        const res = await call(listHandler, {
+            method: 'POST',
+            body: { userId: USER, characterNames: ['Gandalf', 'Frodo'], entries: ['User: My name is Sam.'] },
+        });
+        expect(res.status).toHaveBeenCalledWith(200);
+        expect((res.json as jest.Mock).mock.calls[0][0].added).toBe(3);
+        expect(store.data.get(`${USER}:Gandalf`)!.map((m) => m.text)).toEqual(expect.arrayContaining(['The user loves tea.', "The user's name is Sam."]));
+        expect(store.data.get(`${USER}:Gandalf`)).toHaveLength(2);
+        expect(store.data.get(`${USER}:Frodo`)!.map((m) => m.text)).toEqual(["The user's name is Sam.", 'The user promised to carry the ring.']);
+
+        // Each character is asked with its own name and only its own known facts
+        const prompts = mockCreate.mock.calls.map(([params]) => params as { system: string; messages: Array<{ content: string }> });
+        const gandalf = prompts.find((p) => p.system.includes('chat with Gandalf'))!;
+        const frodo = prompts.find((p) => p.system.includes('chat with Frodo'))!;
+        expect(gandalf.messages[0].content).toContain('- The user loves tea.');
+        expect(frodo.messages[0].content).not.toContain('The user loves tea.');
+    });
+
+    it('does not write when nothing new was extracted', async () => {
+        mockCreate.mockResolvedValueOnce({ content: [{ type: 'text', text: '{"memories":[]}' }] });
+        const res = await call(listHandler, {
+            method: 'POST',
+            body: { userId: USER, characterNames: ['Gandalf'], entries: ['User: ok then, thanks'] },
+        });
+        expect((res.json as jest.Mock).mock.calls[0][0].added).toBe(0);
+        expect(store.data.size).toBe(0);
+    });
+
+    it('forgets all memories of a character', async () => {
+        store.data.set(`${USER}:Gandalf`, [tea]);
+        const res = await call(listHandler, { method: 'DELETE', query: { userId: USER, characterName: 'Gandalf' } });
+        expect(res.status).toHaveBeenCalledWith(200);
+        expect(store.data.get(`${USER}:Gandalf`)).toEqual([]);
+    });
+
+    it('rejects other methods and reports store failures', async () => {
+        const res = await call(listHandler, { method: 'PUT' });
+        expect(res.status).toHaveBeenCalledWith(405);
+        setMemoryStore({ get: jest.fn().mockRejectedValue(new Error('disk')), save: jest.fn() });
+        const failed = await call(listHandler, { method: 'GET', query: { userId: USER, characterName: 'Gandalf' } });
+        expect(failed.status).toHaveBeenCalledWith(500);
+    });
+});
+
+describe('/api/memories/[id]', () => {
+    let store: ReturnType<typeof makeStore>;
+    beforeEach(() => {
+        store = makeStore();
+        setMemoryStore(store);
+    });
+    afterAll(() => setMemoryStore(null));
+
+    it('forgets a single memory', async () => {
+        store.data.set(`${USER}:Gandalf`, [tea, { ...tea, id: 'm2', text: 'The user is called Sam.' }]);
+        const res = await call(itemHandler, { method: 'DELETE', query: { id: 'm1', userId: USER, characterName: 'Gandalf' } });
+        expect(res.status).toHaveBeenCalledWith(200);
+        expect(store.data.get(`${USER}:Gandalf`)!.map((m) => m.id)).toEqual(['m2']);
+    });
+
+    it('returns 404 for unknown memories and 400 for invalid requests', async () => {
+        const missing = await call(itemHandler, { method: 'DELETE', query: { id: 'nope', userId: USER, characterName: 'Gandalf' } });
+        expect(missing.status).toHaveBeenCalledWith(404);
+        const invalid = await call(itemHandler, { method: 'DELETE', query: { id: 'm1', characterName: 'Gandalf' } });
+        expect(invalid.status).toHaveBeenCalledWith(400);
+        const wrongMethod = await call(itemHandler, { method: 'GET', query: {} });
+        expect(wrongMethod.status).toHaveBeenCalledWith(405);
+    });
+});
@@ -0,0 +1,83 @@
+/** @jest-environment node */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+jest.mock('../../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { error: jest.fn(), info: jest.fn(), warn: jest.fn() },
+  generateRequestId: () => 'req-1',
+  logEvent: jest.fn(),
+  sanitizeLogMeta: (m: unknown) => m,
+}));
+
+jest.mock('../../../src/utils/rateLimit', () => ({
+  createRateLimiter: () => (_req: unknown, _res: unknown, next: () => void) => next(),
+}));
+
+import handler, { DEFAULT_PREVIEW_MESSAGE } from '../../../pages/api/preview-reply';
+import { setLlmProvider } from '../../../src/utils/llm';
+
+const profile = {
+  speakingStyle: 'formal',
+  personalityTraits: 'analytical',
+  knowledgeDomains: 'deduction',
+  behavioralGuidelines: 'Observes details.',
+  quirks: 'Plays the violin.',
+  scenario: 'Baker Street',
+};
+
+function makeRes() {
+  const res: Partial<NextApiResponse> & { headersSent: boolean } = { headersSent: false };
+  res.status = jest.fn().mockReturnValue(res as NextApiResponse);
+  res.json = jest.fn().mockReturnValue(res as NextApiResponse);
+  res.setHeader = jest.fn().mockReturnValue(res as NextApiResponse);
+  return res as NextApiResponse;
+}
+
+async function call(req: Record<string, unknown>) {
+  const res = makeRes();
+  await handler({ headers: {}, method: 'POST', ...req } as unknown as NextApiRequest, res);
+  return res;
+}
+
+describe('/api/preview-reply', () => {
+  const complete = jest.fn();
+  beforeEach(() => {
+    complete.mockReset();
+    setLlmProvider({ name: 'fake', getModel: () => 'fake-model', complete, stream: jest.fn() });
+  });
+  afterAll(() => setLlmProvider(null));
+
+  it('answers a sample message with a prompt built from the profile', async () => {
+    complete.mockResolvedValueOnce({ text: ' Elementary. ', model: 'fake-model' });
+    const res = await call({ body: { name: 'Sherlock Holmes', profile, message: 'Who are you?' } });
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.json).toHaveBeenCalledWith({ reply: 'Elementary.', requestId: 'req-1' });
+    const request = complete.mock.calls[0][0];
+    expect(request.system).toContain('You are Sherlock Holmes.');
+    expect(request.system).toContain('SETTING: Baker Street');
+    expect(request.messages).toEqual([{ role: 'user', content: 'Who are you?' }]);
+  });
+
+  it('previews replies in the conversation language', async () => {
+    complete.mockResolvedValueOnce({ text: 'Élémentaire.', model: 'fake-model' });
+    await call({ body: { name: 'Sherlock Holmes', profile, message: 'Qui êtes-vous ?', language: 'fr' } });
+    expect(complete.mock.calls[0][0].system).toContain('Always reply in French');
+  });
+
+  it('uses a default message and validates the request', async () => {
+    complete.mockResolvedValueOnce({ text: 'Hello.', model: 'fake-model' });
+    await call({ body: { name: 'Sherlock Holmes', profile } });
+    expect(complete.mock.calls[0][0].messages[0].content).toBe(DEFAULT_PREVIEW_MESSAGE);
+
+    expect((await call({ body: { name: 'Sherlock Holmes' } })).status).toHaveBeenCalledWith(400);
+    expect((await call({ body: { profile } })).status).toHaveBeenCalledWith(400);
+    expect((await call({ method: 'GET' })).status).toHaveBeenCalledWith(405);
+  });
+
+  it('reports provider failures', async () => {
+    complete.mockRejectedValueOnce(new Error('down'));
+    const res = await call({ body: { name: 'Sherlock Holmes', profile } });
+    expect(res.status).toHaveBeenCalledWith(500);
+  });
+});
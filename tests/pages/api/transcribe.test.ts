@@ -0,0 +1,80 @@
+/** @jest-environment node */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+jest.mock('../../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { error: jest.fn(), info: jest.fn(), warn: jest.fn() },
+  generateRequestId: () => 'req-1',
+  logEvent: jest.fn(),
+  sanitizeLogMeta: (m: unknown) => m,
+}));
+
+jest.mock('../../../src/utils/rateLimit', () => ({
+  createRateLimiter: () => (_req: unknown, _res: unknown, next: () => void) => next(),
+}));
+
+import handler, { MAX_RECORDING_SECONDS } from '../../../pages/api/transcribe';
+import { setSttEngine } from '../../../src/utils/stt';
+import { encodeWav, SPEECH_SAMPLE_RATE } from '../../../src/utils/wav';
+import { logEvent } from '../../../src/utils/logger';
+
+function makeRes() {
+  const res: Partial<NextApiResponse> & { headersSent: boolean } = { headersSent: false };
+  res.status = jest.fn().mockReturnValue(res as NextApiResponse);
+  res.json = jest.fn().mockReturnValue(res as NextApiResponse);
+  res.setHeader = jest.fn().mockReturnValue(res as NextApiResponse);
+  return res as NextApiResponse;
+}
+
+async function call(req: Record<string, unknown>) {
+  const res = makeRes();
+  await handler({ headers: {}, method: 'POST', ...req } as unknown as NextApiRequest, res);
+  return res;
+}
+
+const base64 = (bytes: Uint8Array) => Buffer.from(bytes).toString('base64');
+const oneSecond = base64(encodeWav(new Float32Array(SPEECH_SAMPLE_RATE)));
+
+describe('/api/transcribe', () => {
+  const transcribe = jest.fn();
+  beforeEach(() => {
+    transcribe.mockReset();
+    setSttEngine({ name: 'whisper', transcribe });
+  });
+  afterAll(() => setSttEngine(null));
+
+  it('rejects other methods', async () => {
+    const res = await call({ method: 'GET' });
+    expect(res.status).toHaveBeenCalledWith(405);
+  });
+
+  it('returns 503 when no engine is configured', async () => {
+    setSttEngine(null);
+    const res = await call({ body: { audio: oneSecond } });
+    expect(res.status).toHaveBeenCalledWith(503);
+  });
+
+  it('transcribes WAV audio with the language hint', async () => {
+    transcribe.mockResolvedValue('Hello there.');
+    const res = await call({ body: { audio: oneSecond, language: 'en-GB' } });
+    expect(transcribe).toHaveBeenCalledWith({ audio: expect.any(Uint8Array), language: 'en-GB' });
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.json).toHaveBeenCalledWith({ text: 'Hello there.', requestId: 'req-1' });
+  });
+
+  it('rejects missing or non-WAV audio and long recordings', async () => {
+    expect((await call({ body: {} })).status).toHaveBeenCalledWith(400);
+    expect((await call({ body: { audio: base64(new Uint8Array(100)) } })).status).toHaveBeenCalledWith(400);
+    const tooLong = base64(encodeWav(new Float32Array(SPEECH_SAMPLE_RATE * (MAX_RECORDING_SECONDS + 1))));
+    expect((await call({ body: { audio: tooLong } })).status).toHaveBeenCalledWith(413);
+    expect(transcribe).not.toHaveBeenCalled();
+  });
+
+  it('reports engine failures', async () => {
+    transcribe.mockRejectedValue(new Error('model missing'));
+    const res = await call({ body: { audio: oneSecond } });
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(logEvent).toHaveBeenCalledWith('error', 'transcribe_failed', expect.any(String), expect.objectContaining({ error: 'model missing' }));
+  });
+});
@@ -0,0 +1,97 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+jest.mock('../../../src/utils/logger', () => ({
+    __esModule: true,
+    default: { info: jest.fn(), error: jest.fn() },
+}));
+
+jest.mock('../../../src/utils/rateLimit', () => ({
+    createRateLimiter: () => (_req: unknown, _res: unknown, next: () => void) => next(),
+}));
+
+import handler, { toAbsoluteAvatarUrl } from '../../../pages/api/transcript';
+
+function makeRes() {
+    const res: Partial<NextApiResponse> & { headersSent: boolean } = { headersSent: false };
+    res.status = jest.fn().mockReturnValue(res as NextApiResponse);
+    res.json = jest.fn().mockReturnValue(res as NextApiResponse);
+    res.send = jest.fn().mockReturnValue(res as NextApiResponse);
+    res.end = jest.fn().mockReturnValue(res as NextApiResponse);
+    res.setHeader = jest.fn().mockReturnValue(res as NextApiResponse);
+    return res as NextApiResponse;
+}
+
+async function render(body: Record<string, unknown>, headers: Record<string, string> = {}) {
+    const res = makeRes();
+    await handler({ method: 'POST', body, headers } as unknown as NextApiRequest, res);
+    return res;
+}
+
+const bot = { name: 'Gandalf', avatarUrl: '/silhouette.svg' };
+
+describe('/api/transcript', () => {
+    it('uses the message role to tell the user from a character named "User"', async () => {
+        const res = await render({
+            bot: { ...bot, name: 'User' },
+            messages: [
+                { role: 'assistant', sender: 'User', text: 'I am the character', timestamp: '2026-01-01T10:00:00.000Z' },
+                { role: 'user', sender: 'User', text: 'And I am me', timestamp: '2026-01-01T10:01:00.000Z' },
+            ],
+        });
+        const html = (res.send as jest.Mock).mock.calls[0][0] as string;
+        expect(html).toMatch(/bot-sender">User:<\/strong>\s*<span[^>]*>I am the character/);
+        expect(html).toMatch(/user-sender">Me:<\/strong>\s*<span[^>]*>And I am me/);
+        expect(html).toContain('datetime="2026-01-01T10:00:00.000Z"');
+    });
+
+    it('labels group replies with each speaker and renders system notes', async () => {
+        const res = await render({
+            bot,
+            messages: [
+                { role: 'assistant', sender: 'Watson', text: 'Remarkable!' },
+                { role: 'system', sender: 'System', text: 'Watson joined' },
+            ],
+        });
+        const html = (res.send as jest.Mock).mock.calls[0][0] as string;
+        expect(html).toContain('Watson:</strong>');
+        expect(html).toContain('<div class="message system-message"><em>Watson joined</em></div>');
+    });
+
+    it('keeps the bot name for legacy messages without a role', async () => {
+        const res = await render({ bot, messages: [{ sender: 'AI', text: 'Hello' }] });
+        const html = (res.send as jest.Mock).mock.calls[0][0] as string;
+        expect(html).toContain('Gandalf:</strong>');
+    });
+
+    it('rejects unknown roles', async () => {
+        const res = await render({ bot, messages: [{ role: 'narrator', sender: 'X', text: 'hi' }] });
+        expect(res.status).toHaveBeenCalledWith(400);
+        expect(res.json).toHaveBeenCalledWith({ error: 'Invalid message role' });
+    });
+
+    it('links stored avatars absolutely so the downloaded file can load them', async () => {
+        const avatarUrl = `/api/avatar/${'c'.repeat(64)}`;
+        const res = await render({ bot: { ...bot, avatarUrl }, messages: [] }, { host: 'chat.example.com', 'x-forwarded-proto': 'https' });
+        const html = (res.send as jest.Mock).mock.calls[0][0] as string;
+        expect(html).toContain(`src="https://chat.example.com${avatarUrl}"`);
+    });
+});
+
+describe('toAbsoluteAvatarUrl', () => {
+    const stored = `/api/avatar/${'d'.repeat(64)}`;
+    const req = (headers: Record<string, string>, encrypted = false) =>
+        ({ headers, socket: { encrypted } } as unknown as NextApiRequest);
+
+    it('prefixes stored avatars with the request origin', () => {
+        expect(toAbsoluteAvatarUrl(stored, req({ host: 'localhost:3000' }))).toBe(`http://localhost:3000${stored}`);
+        expect(toAbsoluteAvatarUrl(stored, req({ host: 'a.test' }, true))).toBe(`https://a.test${stored}`);
+        expect(toAbsoluteAvatarUrl(stored, req({ host: 'a.test', 'x-forwarded-host': 'b.test', 'x-forwarded-proto': 'https, http' })))
+            .toBe(`https://b.test${stored}`);
+    });
+
+    it('leaves other URLs and suspicious hosts alone', () => {
+        expect(toAbsoluteAvatarUrl('/silhouette.svg', req({ host: 'a.test' }))).toBe('/silhouette.svg');
+        expect(toAbsoluteAvatarUrl(stored, req({ host: 'evil.test/"><script>' }))).toBe(stored);
+        expect(toAbsoluteAvatarUrl(stored, req({}))).toBe(stored);
+    });
+});
@@ -0,0 +1,85 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+const mockPrepare = jest.fn();
+const mockSave = jest.fn();
+jest.mock('../../../src/utils/avatarStorage', () => {
+    const actual = jest.requireActual('../../../src/utils/avatarStorage');
+    return {
+        AvatarUploadError: actual.AvatarUploadError,
+        prepareUploadedAvatar: (...args: unknown[]) => mockPrepare(...args),
+        saveAvatar: (...args: unknown[]) => mockSave(...args),
+    };
+});
+
+const mockLogEvent = jest.fn();
+jest.mock('../../../src/utils/logger', () => ({
+    generateRequestId: () => 'req-1',
+    logEvent: (...args: unknown[]) => mockLogEvent(...args),
+    sanitizeLogMeta: (meta: unknown) => meta,
+}));
+
+jest.mock('../../../src/utils/rateLimit', () => ({
+    createRateLimiter: () => (_req: unknown, _res: unknown, next: () => void) => next(),
+}));
+
+import handler from '../../../pages/api/upload-avatar';
+import { AvatarUploadError } from '../../../src/utils/avatarStorage';
+
+function makeRes() {
+    const res: Partial<NextApiResponse> & { headersSent: boolean } = { headersSent: false };
+    res.status = jest.fn().mockReturnValue(res as NextApiResponse);
+    res.json = jest.fn().mockReturnValue(res as NextApiResponse);
+    res.setHeader = jest.fn().mockReturnValue(res as NextApiResponse);
+    return res as NextApiResponse;
+}
+
+async function post(body: unknown, method = 'POST') {
+    const res = makeRes();
+    await handler({ method, body, headers: {} } as unknown as NextApiRequest, res);
+    return res;
+}
+
+describe('/api/upload-avatar', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('only allows POST', async () => {
+        const res = await post({}, 'GET');
+        expect(res.setHeader).toHaveBeenCalledWith('Allow', ['POST']);
+        expect(res.status).toHaveBeenCalledWith(405);
+    });
+
+    it('requires an image', async () => {
+        const res = await post({});
+        expect(res.status).toHaveBeenCalledWith(400);
+        expect(res.json).toHaveBeenCalledWith({ error: 'Image required', requestId: 'req-1' });
+    });
+
+    it('saves the cropped image and returns its URL', async () => {
+        const cropped = Buffer.from('cropped');
+        mockPrepare.mockResolvedValueOnce(cropped);
+        mockSave.mockResolvedValueOnce('/api/avatar/abc');
+        const res = await post({ image: Buffer.from('original').toString('base64') });
+        expect(mockPrepare).toHaveBeenCalledWith(Buffer.from('original'));
+        expect(mockSave).toHaveBeenCalledWith(cropped);
+        expect(res.status).toHaveBeenCalledWith(200);
+        expect(res.json).toHaveBeenCalledWith({ avatarUrl: '/api/avatar/abc', requestId: 'req-1' });
+    });
+
+    it('explains why an image was refused', async () => {
+        mockPrepare.mockRejectedValueOnce(new AvatarUploadError('Images must be 5 MB or smaller.', 413));
+        const res = await post({ image: 'AAAA' });
+        expect(res.status).toHaveBeenCalledWith(413);
+        expect(res.json).toHaveBeenCalledWith({ error: 'Images must be 5 MB or smaller.', requestId: 'req-1' });
+        expect(mockSave).not.toHaveBeenCalled();
+    });
+
+    it('returns 500 and logs when the image cannot be stored', async () => {
+        mockPrepare.mockResolvedValueOnce(Buffer.from('cropped'));
+        mockSave.mockRejectedValueOnce(new Error('disk full'));
+        const res = await post({ image: 'AAAA' });
+        expect(res.status).toHaveBeenCalledWith(500);
+        expect(mockLogEvent).toHaveBeenCalledWith('error', 'avatar_upload_failed', expect.any(String), expect.objectContaining({ error: 'disk full' }));
+    });
+});
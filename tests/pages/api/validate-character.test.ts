@@ -16,7 +16,7 @@ jest.mock('@anthropic-ai/sdk', () => ({
 }));
 
 // Mock model selector
-jest.mock('../../../src/utils/claudeModelSelector', () => ({ getClaudeModel: (_: string) => 'claude-test' }));
+jest.mock('../../../src/utils/claudeModelSelector', () => ({ ...jest.requireActual('../../../src/utils/claudeModelSelector'), getClaudeModel: (_: string) => 'claude-test' }));
 
 // Now that mocks are set up, require the handler module
 const handler = require('../../../pages/api/validate-character').default;
@@ -84,7 +84,7 @@ describe('validate-character API', () => {
 
         const localMockLog = jest.fn();
         jest.mock('../../../src/utils/logger', () => ({ logEvent: (...args: unknown[]) => localMockLog(...(args as unknown[])), sanitizeLogMeta: (m: unknown) => m }));
-        jest.mock('../../../src/utils/claudeModelSelector', () => ({ getClaudeModel: (_: string) => 'claude-test' }));
+        jest.mock('../../../src/utils/claudeModelSelector', () => ({ ...jest.requireActual('../../../src/utils/claudeModelSelector'), getClaudeModel: (_: string) => 'claude-test' }));
 
         jest.mock('express-rate-limit', () => {
             return jest.fn().mockImplementation(() => {
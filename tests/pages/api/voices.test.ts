@@ -0,0 +1,131 @@
+/** @jest-environment node */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+jest.mock('../../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { error: jest.fn(), info: jest.fn(), warn: jest.fn() },
+  generateRequestId: () => 'req-1',
+  logEvent: jest.fn(),
+  sanitizeLogMeta: (m: unknown) => m,
+}));
+
+jest.mock('../../../src/utils/rateLimit', () => ({
+  createRateLimiter: () => (_req: unknown, _res: unknown, next: () => void) => next(),
+}));
+
+const mockSynthesizeReplyAudio = jest.fn();
+jest.mock('../../../src/utils/replyAudio', () => ({
+  synthesizeReplyAudio: (...args: unknown[]) => mockSynthesizeReplyAudio(...args),
+}));
+
+import handler, { DEFAULT_SAMPLE_LINE } from '../../../pages/api/voices';
+import { setTtsEngine, type TtsEngine } from '../../../src/utils/tts';
+
+function makeRes() {
+  const res: Partial<NextApiResponse> & { headersSent: boolean } = { headersSent: false };
+  res.status = jest.fn().mockReturnValue(res as NextApiResponse);
+  res.json = jest.fn().mockReturnValue(res as NextApiResponse);
+  res.setHeader = jest.fn().mockReturnValue(res as NextApiResponse);
+  return res as NextApiResponse;
+}
+
+async function call(req: Record<string, unknown>) {
+  const res = makeRes();
+  await handler({ headers: {}, query: {}, method: 'GET', ...req } as unknown as NextApiRequest, res);
+  return res;
+}
+
+const voiceConfig = { languageCodes: ['en-GB'], name: 'en-GB-Wavenet-A', ssmlGender: 2, pitch: 4, rate: 1.2 };
+
+describe('/api/voices', () => {
+  const engine = { name: 'local', synthesize: jest.fn(), listVoices: jest.fn(), healthCheck: jest.fn() } satisfies TtsEngine;
+  beforeEach(() => {
+    jest.clearAllMocks();
+    engine.listVoices.mockResolvedValue([
+      { name: 'fr-FR-Neural2-A', languageCodes: ['fr-FR'], ssmlGender: 2 },
+      { name: 'en-GB-Wavenet-B', languageCodes: ['en-GB'], ssmlGender: 1 },
+      { name: 'en-US-Studio-O', languageCodes: ['en-US'], ssmlGender: 2 },
+    ]);
+    setTtsEngine(engine);
+  });
+  afterAll(() => setTtsEngine(null));
+
+  it('rejects other methods', async () => {
+    const res = await call({ method: 'DELETE' });
+    expect(res.setHeader).toHaveBeenCalledWith('Allow', ['GET', 'POST']);
+    expect(res.status).toHaveBeenCalledWith(405);
+  });
+
+  it('lists voices sorted by name with their type', async () => {
+    const res = await call({});
+    expect(res.status).toHaveBeenCalledWith(200);
+    const body = (res.json as jest.Mock).mock.calls[0][0];
+    expect(body.engine).toBe('local');
+    expect(body.source).toBe('live');
+    expect(body.voices.map((v: { name: string }) => v.name)).toEqual(['en-GB-Wavenet-B', 'en-US-Studio-O', 'fr-FR-Neural2-A']);
+    expect(body.voices[1]).toEqual({ name: 'en-US-Studio-O', languageCodes: ['en-US'], ssmlGender: 2, type: 'Studio' });
+  });
+
+  it('filters by language or language family', async () => {
+    const byFamily = await call({ query: { language: 'en' } });
+    expect((byFamily.json as jest.Mock).mock.calls[0][0].voices).toHaveLength(2);
+    const byTag = await call({ query: { language: 'fr-fr' } });
+    expect((byTag.json as jest.Mock).mock.calls[0][0].voices.map((v: { name: string }) => v.name)).toEqual(['fr-FR-Neural2-A']);
+  });
+
+  it('reports an engine that cannot list voices', async () => {
+    engine.listVoices.mockRejectedValueOnce(new Error('quota'));
+    const res = await call({});
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(res.json).toHaveBeenCalledWith({ error: 'Failed to list voices', requestId: 'req-1' });
+  });
+
+  it('previews a voice with clamped pitch and rate', async () => {
+    mockSynthesizeReplyAudio.mockResolvedValueOnce('/api/audio?file=x.mp3');
+    const res = await call({
+      method: 'POST',
+      body: { voiceConfig: { ...voiceConfig, pitch: 50, rate: 0.1 }, text: ' Hello! ', botName: 'Gandalf' },
+    });
+    expect(res.status).toHaveBeenCalledWith(200);
+    const expected = { ...voiceConfig, pitch: 20, rate: 0.25, type: 'Wavenet' };
+    expect(mockSynthesizeReplyAudio).toHaveBeenCalledWith('Hello!', expected, 'Gandalf', undefined);
+    expect(res.json).toHaveBeenCalledWith({ audioFileUrl: '/api/audio?file=x.mp3', voiceConfig: expected, requestId: 'req-1' });
+  });
+
+  it('previews the pronunciations being edited', async () => {
+    mockSynthesizeReplyAudio.mockResolvedValueOnce('/api/audio?file=z.mp3');
+    const pronunciations = [{ text: 'Gandalf', alias: 'GAN-dalf' }, { text: 'broken' }];
+    await call({ method: 'POST', body: { voiceConfig: { ...voiceConfig, pronunciations }, botName: 'Gandalf' } });
+    expect(mockSynthesizeReplyAudio).toHaveBeenCalledWith(
+      DEFAULT_SAMPLE_LINE,
+      expect.objectContaining({ pronunciations: [{ text: 'Gandalf', alias: 'GAN-dalf' }] }),
+      'Gandalf',
+      undefined,
+    );
+  });
+
+  it('uses the default sample line when none is given', async () => {
+    mockSynthesizeReplyAudio.mockResolvedValueOnce('/api/audio?file=y.mp3');
+    await call({ method: 'POST', body: { voiceConfig } });
+    expect(mockSynthesizeReplyAudio).toHaveBeenCalledWith(DEFAULT_SAMPLE_LINE, expect.any(Object), 'Character', undefined);
+  });
+
+  it('rejects malformed voices', async () => {
+    for (const bad of [undefined, { ...voiceConfig, name: '' }, { ...voiceConfig, languageCodes: ['<script>'] }]) {
+      const res = await call({ method: 'POST', body: { voiceConfig: bad } });
+      expect(res.status).toHaveBeenCalledWith(400);
+    }
+    expect(mockSynthesizeReplyAudio).not.toHaveBeenCalled();
+  });
+
+  it('reports failed previews and a disabled engine', async () => {
+    mockSynthesizeReplyAudio.mockRejectedValueOnce(new Error('voice not found'));
+    const failed = await call({ method: 'POST', body: { voiceConfig } });
+    expect(failed.status).toHaveBeenCalledWith(500);
+
+    setTtsEngine({ ...engine, name: 'none' });
+    const disabled = await call({ method: 'POST', body: { voiceConfig } });
+    expect(disabled.status).toHaveBeenCalledWith(503);
+  });
+});
@@ -0,0 +1,46 @@
+/** @jest-environment node */
+
+import { generatePersonalityProfile, generatePersonalityPrompt } from '../../../src/config/serverConfig';
+import { setLlmProvider, type LlmProvider } from '../../../src/utils/llm';
+import { createEmptyProfile } from '../../../src/utils/personalityProfile';
+
+function useReply(complete: jest.Mock) {
+  const provider: LlmProvider = { name: 'fake', getModel: () => 'fake-model', complete, stream: jest.fn() };
+  setLlmProvider(provider);
+}
+
+describe('serverConfig personality generation', () => {
+  afterEach(() => setLlmProvider(null));
+
+  it('returns the structured profile from the model', async () => {
+    const complete = jest.fn().mockResolvedValue({
+      text: '```json\n{"speakingStyle":"terse","personalityTraits":"brooding","knowledgeDomains":"the night","behavioralGuidelines":"Avoid mirrors.","quirks":"Never drinks wine."}\n```',
+      model: 'fake-model',
+    });
+    useReply(complete);
+    expect(await generatePersonalityProfile('Dracula')).toEqual({
+      speakingStyle: 'terse',
+      personalityTraits: 'brooding',
+      knowledgeDomains: 'the night',
+      behavioralGuidelines: 'Avoid mirrors.',
+      quirks: 'Never drinks wine.',
+    });
+    expect(complete.mock.calls[0][0].tier).toBe('text-simple');
+    expect(await generatePersonalityPrompt('Dracula')).toContain('QUIRKS: Never drinks wine.');
+  });
+
+  it('falls back to an empty profile when generation fails', async () => {
+    useReply(jest.fn().mockRejectedValue(new Error('down')));
+    expect(await generatePersonalityProfile('Dracula')).toEqual(createEmptyProfile());
+    expect(await generatePersonalityPrompt('Dracula')).toContain('You are Dracula.');
+  });
+  it('builds an original character from the author\'s description', async () => {
+    const complete = jest.fn().mockResolvedValue({ text: '{"speakingStyle":"gruff"}', model: 'fake-model' });
+    useReply(complete);
+    const description = { backstory: 'Keeps a lighthouse', era: 'Cornwall, 1880s', appearance: '', temperament: '', speakingStyle: '' };
+    await generatePersonalityProfile('Tamsin', description);
+    const content = complete.mock.calls[0][0].messages[0].content;
+    expect(content).toContain('an original character');
+    expect(content).toContain('Backstory: Keeps a lighthouse\nEra: Cornwall, 1880s');
+  });
+});
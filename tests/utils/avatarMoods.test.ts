@@ -0,0 +1,48 @@
+import {
+  AVATAR_MOODS,
+  AVATAR_MOOD_PROMPTS,
+  getExpressionUrl,
+  isAvatarMood,
+  MOOD_TAG_INSTRUCTIONS,
+  parseAvatarExpressions,
+  parseMoodTag,
+  stripMoodTags,
+} from '../../src/utils/avatarMoods';
+
+describe('avatarMoods', () => {
+  it('describes every mood to the image model and the chat model', () => {
+    expect(AVATAR_MOODS).toEqual(['neutral', 'happy', 'angry', 'thoughtful', 'surprised']);
+    for (const mood of AVATAR_MOODS) {
+      expect(AVATAR_MOOD_PROMPTS[mood]).toBeTruthy();
+      expect(MOOD_TAG_INSTRUCTIONS).toContain(`[mood:${mood}]`);
+    }
+  });
+
+  it('recognises moods', () => {
+    expect(isAvatarMood('happy')).toBe(true);
+    expect(isAvatarMood('smug')).toBe(false);
+    expect(isAvatarMood(undefined)).toBe(false);
+  });
+
+  it('splits the mood tag from the reply', () => {
+    expect(parseMoodTag('[mood:Happy]\nHello!')).toEqual({ mood: 'happy', text: 'Hello!' });
+    expect(parseMoodTag('[mood:smug] Obviously.')).toEqual({ mood: null, text: 'Obviously.' });
+    expect(parseMoodTag('No tag here.')).toEqual({ mood: null, text: 'No tag here.' });
+    expect(stripMoodTags('[mood:angry] Out! [mood:angry]Now.')).toBe('Out! Now.');
+  });
+
+  it('keeps only known moods with URLs', () => {
+    expect(parseAvatarExpressions({ happy: '/api/avatar/a', smug: '/x', angry: 3, neutral: '' })).toEqual({ happy: '/api/avatar/a' });
+    expect(parseAvatarExpressions({ smug: '/x' })).toBeNull();
+    expect(parseAvatarExpressions(['/x'])).toBeNull();
+    expect(parseAvatarExpressions(undefined)).toBeNull();
+  });
+
+  it('falls back to the base portrait', () => {
+    const expressions = { happy: '/api/avatar/happy' };
+    expect(getExpressionUrl('/base.png', expressions, 'happy')).toBe('/api/avatar/happy');
+    expect(getExpressionUrl('/base.png', expressions, 'angry')).toBe('/base.png');
+    expect(getExpressionUrl('/base.png', undefined, 'happy')).toBe('/base.png');
+    expect(getExpressionUrl('/base.png', expressions, null)).toBe('/base.png');
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * @jest-environment node
+ */
+
+import crypto from 'crypto';
+import sharp from 'sharp';
+import {
+  AvatarUploadError,
+  decodeImageDataUrl,
+  detectImageType,
+  loadAvatar,
+  MAX_AVATAR_BYTES,
+  prepareUploadedAvatar,
+  saveAvatar,
+} from '../../src/utils/avatarStorage';
+import { setBlobStore } from '../../src/utils/blobStore';
+import { getAvatarThumbnailUrl, isStoredAvatarUrl } from '../../src/utils/avatarUrl';
+
+jest.mock('../../src/utils/logger', () => ({
+  logEvent: jest.fn(),
+  sanitizeLogMeta: (meta: unknown) => meta,
+}));
+
+const createPng = (size = 640) =>
+  sharp({ create: { width: size, height: size, channels: 3, background: '#884422' } }).png().toBuffer();
+
+let blobs: Map<string, Buffer>;
+
+beforeEach(() => {
+  blobs = new Map();
+  setBlobStore({
+    get: async (key) => blobs.get(key) ?? null,
+    put: async (key, data) => {
+      blobs.set(key, data);
+    },
+  });
+});
+
+afterAll(() => setBlobStore(null));
+
+describe('detectImageType', () => {
+  it('recognises supported formats by their leading bytes', () => {
+    expect(detectImageType(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))).toBe('image/png');
+    expect(detectImageType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe('image/jpeg');
+    expect(detectImageType(Buffer.from('RIFF\0\0\0\0WEBPVP8 '))).toBe('image/webp');
+    expect(detectImageType(Buffer.from('GIF89a'))).toBe('image/gif');
+    expect(detectImageType(Buffer.from('RIFF\0\0\0\0WAVE'))).toBeNull();
+    expect(detectImageType(Buffer.from('<svg/>'))).toBeNull();
+  });
+});
+
+describe('decodeImageDataUrl', () => {
+  it('decodes base64 image data URLs only', () => {
+    expect(decodeImageDataUrl('data:image/png;base64,aGk=')?.toString()).toBe('hi');
+    expect(decodeImageDataUrl('data:text/plain;base64,aGk=')).toBeNull();
+    expect(decodeImageDataUrl('https://example.com/a.png')).toBeNull();
+  });
+});
+
+describe('avatar URLs', () => {
+  const hash = 'a'.repeat(64);
+
+  it('points stored avatars at their thumbnail and leaves other URLs alone', () => {
+    expect(isStoredAvatarUrl(`/api/avatar/${hash}`)).toBe(true);
+    expect(isStoredAvatarUrl(`/api/avatar/${hash}-thumb`)).toBe(false);
+    expect(getAvatarThumbnailUrl(`/api/avatar/${hash}`)).toBe(`/api/avatar/${hash}-thumb`);
+    expect(getAvatarThumbnailUrl('/silhouette.svg')).toBe('/silhouette.svg');
+    expect(getAvatarThumbnailUrl('data:image/png;base64,aGk=')).toBe('data:image/png;base64,aGk=');
+  });
+});
+
+describe('saveAvatar', () => {
+  it('stores the portrait under its hash with a square WebP thumbnail', async () => {
+    const png = await createPng();
+    const hash = crypto.createHash('sha256').update(png).digest('hex');
+
+    await expect(saveAvatar(png)).resolves.toBe(`/api/avatar/${hash}`);
+    expect(blobs.get(`avatars/${hash}`)).toEqual(png);
+    const thumbnail = blobs.get(`avatars/${hash}-thumb`)!;
+    expect(detectImageType(thumbnail)).toBe('image/webp');
+    const { width, height } = await sharp(thumbnail).metadata();
+    expect([width, height]).toEqual([320, 320]);
+  });
+
+  it('stores the portrait without a thumbnail when it cannot be resized', async () => {
+    const broken = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.from('junk')]);
+    const url = await saveAvatar(broken);
+    expect(isStoredAvatarUrl(url)).toBe(true);
+    expect([...blobs.keys()]).toEqual([`avatars/${url.split('/').pop()}`]);
+  });
+
+  it('rejects non-images and oversized images', async () => {
+    await expect(saveAvatar(Buffer.from('<svg/>'))).rejects.toThrow('not a PNG');
+    const huge = Buffer.alloc(MAX_AVATAR_BYTES + 1);
+    Buffer.from([0xff, 0xd8, 0xff]).copy(huge);
+    await expect(saveAvatar(huge)).rejects.toThrow('too large');
+    expect(blobs.size).toBe(0);
+  });
+});
+
+describe('prepareUploadedAvatar', () => {
+  it('crops photos to a square WebP without their EXIF data', async () => {
+    const photo = await sharp({ create: { width: 1600, height: 1200, channels: 3, background: '#336699' } })
+      .jpeg()
+      .withExif({ IFD0: { Artist: 'House artist', Copyright: 'Secret location' } })
+      .toBuffer();
+    expect((await sharp(photo).metadata()).exif).toBeDefined();
+
+    const portrait = await prepareUploadedAvatar(photo);
+    const metadata = await sharp(portrait).metadata();
+    expect(metadata.format).toBe('webp');
+    expect([metadata.width, metadata.height]).toEqual([1024, 1024]);
+    expect(metadata.exif).toBeUndefined();
+  });
+
+  it('keeps small images at their own size and applies the EXIF orientation', async () => {
+    // Orientation 6: the stored pixels are rotated a quarter turn from how the photo is viewed
+    const photo = await sharp({ create: { width: 300, height: 200, channels: 3, background: '#000' } })
+      .composite([{ input: { create: { width: 100, height: 200, channels: 3, background: '#fff' } }, left: 0, top: 0 }])
+      .jpeg()
+      .withMetadata({ orientation: 6 })
+      .toBuffer();
+
+    const portrait = await prepareUploadedAvatar(photo);
+    const { width, height } = await sharp(portrait).metadata();
+    expect([width, height]).toEqual([200, 200]);
+    // After rotating, the white stripe runs along the top edge of the centred crop
+    const { data } = await sharp(portrait).raw().toBuffer({ resolveWithObject: true });
+    expect(data[3 * (5 * 200 + 100)]).toBeGreaterThan(200);
+    expect(data[3 * (195 * 200 + 100)]).toBeLessThan(50);
+  });
+
+  it('refuses other formats, oversized files and unreadable images', async () => {
+    await expect(prepareUploadedAvatar(Buffer.from('GIF89a'))).rejects.toMatchObject({ status: 415 });
+    await expect(prepareUploadedAvatar(Buffer.from('<svg/>'))).rejects.toBeInstanceOf(AvatarUploadError);
+
+    const huge = Buffer.alloc(5 * 1024 * 1024 + 1);
+    Buffer.from([0xff, 0xd8, 0xff]).copy(huge);
+    await expect(prepareUploadedAvatar(huge)).rejects.toMatchObject({ status: 413, message: 'Images must be 5 MB or smaller.' });
+
+    const truncated = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3]);
+    await expect(prepareUploadedAvatar(truncated)).rejects.toMatchObject({ status: 400, message: 'The image could not be read.' });
+  });
+});
+
+describe('loadAvatar', () => {
+  it('returns stored portraits with their content type', async () => {
+    const png = await createPng(64);
+    const id = (await saveAvatar(png)).split('/').pop()!;
+    await expect(loadAvatar(id)).resolves.toEqual({ data: png, contentType: 'image/png' });
+  });
+
+  it('creates and stores a missing thumbnail from the portrait', async () => {
+    const png = await createPng(64);
+    const id = (await saveAvatar(png)).split('/').pop()!;
+    blobs.delete(`avatars/${id}-thumb`);
+
+    const thumbnail = await loadAvatar(`${id}-thumb`);
+    expect(thumbnail?.contentType).toBe('image/webp');
+    expect(blobs.get(`avatars/${id}-thumb`)).toEqual(thumbnail?.data);
+  });
+
+  it('falls back to the portrait when no thumbnail can be made', async () => {
+    const broken = Buffer.from('GIF89a-not-really');
+    const id = (await saveAvatar(broken)).split('/').pop()!;
+    await expect(loadAvatar(`${id}-thumb`)).resolves.toEqual({ data: broken, contentType: 'image/gif' });
+  });
+
+  it('returns null for unknown or invalid ids', async () => {
+    await expect(loadAvatar('b'.repeat(64))).resolves.toBeNull();
+    await expect(loadAvatar(`${'b'.repeat(64)}-thumb`)).resolves.toBeNull();
+    await expect(loadAvatar('../secret')).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,31 @@
+import {
+  AVATAR_STYLE_PRESETS,
+  AVATAR_STYLE_PROMPTS,
+  isAvatarStylePreset,
+  MAX_AVATAR_VARIANTS,
+  parseVariantCount,
+} from '../../src/utils/avatarStyles';
+
+describe('avatarStyles', () => {
+  it('describes every preset to the image model', () => {
+    expect(AVATAR_STYLE_PRESETS).toEqual(['oil-painting', 'ink-sketch', 'pixel-art', 'watercolor']);
+    for (const preset of AVATAR_STYLE_PRESETS) {
+      expect(AVATAR_STYLE_PROMPTS[preset]).toBeTruthy();
+    }
+  });
+
+  it('recognises presets', () => {
+    expect(isAvatarStylePreset('watercolor')).toBe(true);
+    expect(isAvatarStylePreset('photorealistic')).toBe(false);
+    expect(isAvatarStylePreset(undefined)).toBe(false);
+  });
+
+  it('clamps the number of variants', () => {
+    expect(parseVariantCount(undefined)).toBe(1);
+    expect(parseVariantCount(0)).toBe(1);
+    expect(parseVariantCount(2.5)).toBe(1);
+    expect(parseVariantCount('3')).toBe(1);
+    expect(parseVariantCount(3)).toBe(3);
+    expect(parseVariantCount(50)).toBe(MAX_AVATAR_VARIANTS);
+  });
+});
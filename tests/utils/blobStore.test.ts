@@ -0,0 +1,112 @@
+/**
+ * @jest-environment node
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const mockHead = jest.fn();
+const mockPut = jest.fn();
+jest.mock('@vercel/blob', () => {
+  class BlobNotFoundError extends Error {}
+  return {
+    BlobNotFoundError,
+    head: (...args: unknown[]) => mockHead(...args),
+    put: (...args: unknown[]) => mockPut(...args),
+  };
+});
+
+import {
+  createFileBlobStore,
+  createVercelBlobStore,
+  getBlobStore,
+  isValidBlobKey,
+  setBlobStore,
+} from '../../src/utils/blobStore';
+import { BlobNotFoundError } from '@vercel/blob';
+
+describe('isValidBlobKey', () => {
+  it('accepts slash-separated lowercase keys and rejects path tricks', () => {
+    expect(isValidBlobKey('avatars/abc123-thumb')).toBe(true);
+    expect(isValidBlobKey('avatars/../secret')).toBe(false);
+    expect(isValidBlobKey('/avatars/x')).toBe(false);
+    expect(isValidBlobKey('Avatars/X')).toBe(false);
+    expect(isValidBlobKey(7)).toBe(false);
+  });
+});
+
+describe('file blob store', () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'blobs-'));
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes blobs below the directory and reads them back', async () => {
+    const store = createFileBlobStore(dir);
+    await store.put('avatars/abc', Buffer.from('image'), 'image/png');
+    await store.put('avatars/abc', Buffer.from('same image'), 'image/png');
+    expect((await store.get('avatars/abc'))?.toString()).toBe('same image');
+    expect(fs.readdirSync(path.join(dir, 'avatars'))).toEqual(['abc']);
+    expect(await store.get('avatars/missing')).toBeNull();
+  });
+
+  it('rejects invalid keys', async () => {
+    await expect(createFileBlobStore(dir).get('../escape')).rejects.toThrow('Invalid blob key');
+  });
+});
+
+describe('Vercel blob store', () => {
+  const originalFetch = global.fetch;
+  beforeEach(() => {
+    jest.clearAllMocks();
+    global.fetch = jest.fn().mockResolvedValue({ ok: true, arrayBuffer: () => Promise.resolve(new Uint8Array([1, 2]).buffer) }) as unknown as typeof fetch;
+  });
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('writes blobs under their key', async () => {
+    await createVercelBlobStore('tok').put('avatars/abc', Buffer.from('x'), 'image/webp');
+    expect(mockPut).toHaveBeenCalledWith('avatars/abc', Buffer.from('x'), expect.objectContaining({
+      access: 'public',
+      addRandomSuffix: false,
+      contentType: 'image/webp',
+      token: 'tok',
+    }));
+  });
+
+  it('reads a blob and returns null when missing', async () => {
+    const store = createVercelBlobStore('tok');
+    mockHead.mockResolvedValueOnce({ url: 'https://blob/avatars/abc' });
+    expect([...(await store.get('avatars/abc'))!]).toEqual([1, 2]);
+    expect(global.fetch).toHaveBeenCalledWith('https://blob/avatars/abc');
+    mockHead.mockRejectedValueOnce(new BlobNotFoundError());
+    expect(await store.get('avatars/abc')).toBeNull();
+    mockHead.mockRejectedValueOnce(new Error('network'));
+    await expect(store.get('avatars/abc')).rejects.toThrow('network');
+  });
+});
+
+describe('getBlobStore', () => {
+  const OLD_ENV = process.env;
+  afterEach(() => {
+    process.env = OLD_ENV;
+    setBlobStore(null);
+  });
+
+  it('prefers an explicitly registered store', () => {
+    const custom = { get: jest.fn(), put: jest.fn() };
+    setBlobStore(custom);
+    expect(getBlobStore()).toBe(custom);
+  });
+
+  it('uses Vercel Blob when a token is configured', async () => {
+    process.env = { ...OLD_ENV, BLOB_READ_WRITE_TOKEN: 'tok' };
+    await getBlobStore().put('avatars/abc', Buffer.from('x'), 'image/png');
+    expect(mockPut).toHaveBeenCalled();
+  });
+});
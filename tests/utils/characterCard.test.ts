@@ -0,0 +1,181 @@
+import {
+  CHARACTER_CARD_FORMAT,
+  CHARACTER_CARD_VERSION,
+  CharacterCardError,
+  DEFAULT_AVATAR_URL,
+  MAX_CARD_FILE_BYTES,
+  crc32,
+  createCharacterCard,
+  embedCardInPng,
+  extractCardFromPng,
+  getCardFileName,
+  parseCharacterCard,
+  parseCharacterCardJson,
+  pngBytesFromDataUrl,
+  readCharacterCardFile,
+  readPngTextChunks,
+  serializeCharacterCard,
+} from '../../src/utils/characterCard';
+import type { Bot } from '../../app/components/BotCreator';
+
+// 1x1 transparent PNG
+const PIXEL_PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+const pixel = () => Uint8Array.from(atob(PIXEL_PNG), (c) => c.charCodeAt(0));
+
+const bot: Bot = {
+  name: 'Sherlock Holmes',
+  personality: 'You are Sherlock Holmes, the consulting detective. Ünïcode ✓',
+  avatarUrl: `data:image/png;base64,${PIXEL_PNG}`,
+  voiceConfig: { languageCodes: ['en-GB'], name: 'en-GB-Wavenet-B', ssmlGender: 1, pitch: -2, rate: 1.1 },
+  gender: 'male',
+};
+
+function cardFile(content: string | Uint8Array, name: string, type: string): File {
+  const bytes = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+  const file = new File([bytes as BlobPart], name, { type });
+  // jsdom's File lacks arrayBuffer()
+  Object.defineProperty(file, 'arrayBuffer', { value: async () => bytes.slice().buffer });
+  return file;
+}
+
+describe('characterCard JSON', () => {
+  it('round-trips every bot field', () => {
+    const card = JSON.parse(serializeCharacterCard(bot));
+    expect(card).toMatchObject({ format: CHARACTER_CARD_FORMAT, version: CHARACTER_CARD_VERSION });
+    expect(parseCharacterCard(card)).toEqual(bot);
+  });
+
+  it('keeps the structured personality profile', () => {
+    const profile = { speakingStyle: 'formal', personalityTraits: 'analytical', knowledgeDomains: 'deduction', behavioralGuidelines: '', quirks: 'Plays the violin.' };
+    expect(parseCharacterCardJson(serializeCharacterCard({ ...bot, profile })).profile).toEqual(profile);
+  });
+
+  it('keeps the conversation language and drops unsupported ones', () => {
+    expect(parseCharacterCardJson(serializeCharacterCard({ ...bot, language: 'de' })).language).toBe('de');
+    expect(parseCharacterCard({ ...createCharacterCard(bot), bot: { ...bot, language: 'klingon' } })).not.toHaveProperty('language');
+  });
+
+  it('keeps expression portraits it can display', () => {
+    const expressions = { happy: `/api/avatar/${'a'.repeat(64)}`, angry: 'https://example.com/angry.png' };
+    expect(parseCharacterCardJson(serializeCharacterCard({ ...bot, expressions })).expressions).toEqual({ happy: expressions.happy });
+    expect(parseCharacterCardJson(serializeCharacterCard(bot))).not.toHaveProperty('expressions');
+  });
+
+  it('rejects cards from a newer version or without a character', () => {
+    const card = createCharacterCard(bot);
+    expect(() => parseCharacterCard({ ...card, version: CHARACTER_CARD_VERSION + 1 })).toThrow('newer version');
+    expect(() => parseCharacterCard({ ...card, bot: null })).toThrow(CharacterCardError);
+    expect(() => parseCharacterCard({ ...card, bot: { ...bot, personality: ' ' } })).toThrow('no personality');
+    expect(() => parseCharacterCardJson('{nope')).toThrow('not valid JSON');
+    expect(() => parseCharacterCard({ hello: 'world' })).toThrow('not a character card');
+  });
+
+  it('keeps the voice pronunciations', () => {
+    const pronunciations = [{ text: 'Holmes', phoneme: 'hoʊmz', alphabet: 'ipa' as const }];
+    const voiceConfig = { ...bot.voiceConfig!, pronunciations: [...pronunciations, { text: 'nothing' }] };
+    expect(parseCharacterCardJson(serializeCharacterCard({ ...bot, voiceConfig })).voiceConfig?.pronunciations).toEqual(pronunciations);
+  });
+
+  it('drops avatar URLs the app cannot display and malformed voices', () => {
+    const parsed = parseCharacterCard(createCharacterCard({
+      ...bot,
+      avatarUrl: 'https://example.com/face.png',
+      voiceConfig: { name: 'x' } as unknown as Bot['voiceConfig'],
+    }));
+    expect(parsed.avatarUrl).toBe(DEFAULT_AVATAR_URL);
+    expect(parsed.voiceConfig).toBeNull();
+    expect(parseCharacterCard(createCharacterCard({ ...bot, avatarUrl: '/../secret' })).avatarUrl).toBe(DEFAULT_AVATAR_URL);
+    expect(parseCharacterCard(createCharacterCard({ ...bot, avatarUrl: '/silhouette.svg' })).avatarUrl).toBe('/silhouette.svg');
+    // Offline placeholder portraits are SVG data URLs
+    expect(parseCharacterCard(createCharacterCard({ ...bot, avatarUrl: 'data:image/svg+xml;base64,PHN2Zy8+' })).avatarUrl).toBe('data:image/svg+xml;base64,PHN2Zy8+');
+  });
+
+  it('builds a personality prompt from community V2 and V1 cards', () => {
+    const v2 = parseCharacterCard({
+      spec: 'chara_card_v2',
+      spec_version: '2.0',
+      data: {
+        name: 'Dracula',
+        description: '{{char}} is an ancient count who greets {{user}} warmly.',
+        personality: 'charming, sinister',
+        scenario: 'A castle in Transylvania.',
+        first_mes: 'Welcome to my house!',
+        mes_example: '',
+        extensions: {},
+      },
+    });
+    expect(v2.name).toBe('Dracula');
+    expect(v2.personality).toContain('Dracula is an ancient count who greets the user warmly.');
+    expect(v2.personality).toContain('Personality: charming, sinister');
+    expect(v2.personality).toContain('Scenario: A castle in Transylvania.');
+    expect(v2.voiceConfig).toBeNull();
+    expect(v2.avatarUrl).toBe(DEFAULT_AVATAR_URL);
+
+    const v1 = parseCharacterCard({ name: 'Robin Hood', description: 'An outlaw of Sherwood.' });
+    expect(v1.personality).toBe('You are Robin Hood.\n\nAn outlaw of Sherwood.');
+    expect(() => parseCharacterCard({ spec: 'chara_card_v2', data: { name: 'Empty' } })).toThrow('no personality');
+  });
+
+  it('names exported files after the character', () => {
+    expect(getCardFileName('Sherlock Holmes!', 'png')).toBe('sherlock-holmes.card.png');
+    expect(getCardFileName('???', 'json')).toBe('character.card.json');
+  });
+});
+
+describe('characterCard PNG', () => {
+  it('computes standard CRC-32 checksums', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('embeds a card in a chara tEXt chunk and reads it back', () => {
+    const png = embedCardInPng(pixel(), bot);
+    const texts = readPngTextChunks(png);
+    const embedded = JSON.parse(new TextDecoder().decode(Uint8Array.from(atob(texts.chara), (c) => c.charCodeAt(0))));
+    expect(embedded.spec).toBe('chara_card_v2');
+    expect(embedded.data.description).toBe(bot.personality);
+
+    const imported = extractCardFromPng(png);
+    expect(imported).toEqual({ ...bot, avatarUrl: `data:image/png;base64,${btoa(String.fromCharCode(...png))}` });
+    // The card chunk sits before IEND and carries a valid checksum
+    const view = new DataView(png.buffer);
+    const chunkStart = pixel().length - 12;
+    const length = view.getUint32(chunkStart);
+    expect(String.fromCharCode(...png.subarray(chunkStart + 4, chunkStart + 8))).toBe('tEXt');
+    expect(view.getUint32(chunkStart + 8 + length)).toBe(crc32(png.subarray(chunkStart + 4, chunkStart + 8 + length)));
+    expect(String.fromCharCode(...png.subarray(png.length - 8, png.length - 4))).toBe('IEND');
+  });
+
+  it('replaces a card already embedded in the image', () => {
+    const mycroft = { ...bot, name: 'Mycroft Holmes' };
+    const twice = embedCardInPng(embedCardInPng(pixel(), bot), mycroft);
+    expect(extractCardFromPng(twice).name).toBe('Mycroft Holmes');
+    expect(twice.length).toBe(embedCardInPng(pixel(), mycroft).length);
+  });
+
+  it('reports images without a card and files that are not PNGs', () => {
+    expect(() => extractCardFromPng(pixel())).toThrow('does not contain a character card');
+    expect(() => readPngTextChunks(new TextEncoder().encode('GIF89a'))).toThrow('not a PNG');
+    expect(() => readPngTextChunks(pixel().subarray(0, 30))).toThrow('truncated');
+  });
+
+  it('decodes only PNG data URLs', () => {
+    expect(pngBytesFromDataUrl(bot.avatarUrl)).toEqual(pixel());
+    expect(pngBytesFromDataUrl('/silhouette.svg')).toBeNull();
+  });
+});
+
+describe('readCharacterCardFile', () => {
+  it('reads JSON and PNG cards', async () => {
+    const json = await readCharacterCardFile(cardFile(serializeCharacterCard(bot), 'a.json', 'application/json'));
+    expect(json).toEqual(bot);
+    const png = embedCardInPng(pixel(), bot);
+    const fromPng = await readCharacterCardFile(cardFile(png, 'a.png', 'image/png'));
+    expect(fromPng.name).toBe(bot.name);
+  });
+
+  it('rejects oversized files before reading them', async () => {
+    const file = cardFile('{}', 'big.json', 'application/json');
+    Object.defineProperty(file, 'size', { value: MAX_CARD_FILE_BYTES + 1 });
+    await expect(readCharacterCardFile(file)).rejects.toThrow('too large');
+  });
+});
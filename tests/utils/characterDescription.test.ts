@@ -0,0 +1,38 @@
+import {
+  MAX_DESCRIPTION_FIELD_LENGTH,
+  createEmptyDescription,
+  formatCharacterDescription,
+  parseCharacterDescription,
+} from '../../src/utils/characterDescription';
+
+describe('characterDescription', () => {
+  it('trims and caps fields and ignores unknown or non-string values', () => {
+    const parsed = parseCharacterDescription({
+      backstory: '  A retired smuggler  ',
+      era: 42,
+      appearance: 'x'.repeat(MAX_DESCRIPTION_FIELD_LENGTH + 10),
+      villain: 'yes',
+    });
+    expect(parsed).toEqual({
+      ...createEmptyDescription(),
+      backstory: 'A retired smuggler',
+      appearance: 'x'.repeat(MAX_DESCRIPTION_FIELD_LENGTH),
+    });
+  });
+
+  it('returns null for non-objects and blank descriptions', () => {
+    expect(parseCharacterDescription(null)).toBeNull();
+    expect(parseCharacterDescription('a pirate')).toBeNull();
+    expect(parseCharacterDescription(['a pirate'])).toBeNull();
+    expect(parseCharacterDescription({ backstory: '   ', era: '' })).toBeNull();
+  });
+
+  it('formats only the filled-in fields, in a fixed order', () => {
+    const text = formatCharacterDescription({
+      ...createEmptyDescription(),
+      speakingStyle: 'Sea slang',
+      era: 'Cornwall, 1880s',
+    });
+    expect(text).toBe('Era: Cornwall, 1880s\nSpeaking style: Sea slang');
+  });
+});
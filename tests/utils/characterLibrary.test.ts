@@ -0,0 +1,167 @@
+import storage from '../../src/utils/storage';
+import {
+  LIBRARY_STORAGE_KEY,
+  createThumbnail,
+  deleteCharacter,
+  fitLibraryToBudget,
+  loadLibrary,
+  saveCharacter,
+  searchLibrary,
+  setCharacterPinned,
+  sortLibrary,
+  touchCharacters,
+  type LibraryEntry,
+} from '../../src/utils/characterLibrary';
+import type { Bot } from '../../app/components/BotCreator';
+import { getConversationIdKey, getConversationSessionKey } from '../../app/components/useConversationSync';
+
+const makeBot = (name: string, personality = `You are ${name}.`): Bot => ({
+  name,
+  personality,
+  avatarUrl: `data:image/png;base64,${'A'.repeat(400)}`,
+  voiceConfig: null,
+  gender: null,
+});
+
+describe('characterLibrary', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    document.cookie = 'voiceConfig-Dracula=; expires=Thu, 01 Jan 1970 00:00:00 GMT; path=/';
+  });
+
+  it('adds characters and refreshes them without losing pins or creation time', () => {
+    saveCharacter(makeBot('Dracula'), 'thumb-d', '2026-01-01T00:00:00.000Z');
+    saveCharacter(makeBot('Merlin'), undefined, '2026-01-02T00:00:00.000Z');
+    setCharacterPinned('Dracula', true);
+    const library = saveCharacter(makeBot('Dracula', 'Updated.'), undefined, '2026-01-03T00:00:00.000Z');
+
+    expect(library).toHaveLength(2);
+    const dracula = library.find((e) => e.bot.name === 'Dracula')!;
+    expect(dracula).toMatchObject({
+      thumbnailUrl: 'thumb-d',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      lastChattedAt: '2026-01-03T00:00:00.000Z',
+      pinned: true,
+    });
+    expect(dracula.bot.personality).toBe('Updated.');
+    // Without a thumbnail the avatar stands in for it
+    expect(library.find((e) => e.bot.name === 'Merlin')!.thumbnailUrl).toBe(makeBot('Merlin').avatarUrl);
+  });
+
+  it('orders pinned characters first, then by last chat', () => {
+    saveCharacter(makeBot('A'), undefined, '2026-01-01T00:00:00.000Z');
+    saveCharacter(makeBot('B'), undefined, '2026-01-03T00:00:00.000Z');
+    saveCharacter(makeBot('C'), undefined, '2026-01-02T00:00:00.000Z');
+    setCharacterPinned('A', true);
+    expect(sortLibrary(loadLibrary()).map((e) => e.bot.name)).toEqual(['A', 'B', 'C']);
+  });
+
+  it('marks characters as chatted with without touching the rest', () => {
+    saveCharacter(makeBot('Dracula'), 'thumb-d', '2026-01-01T00:00:00.000Z');
+    saveCharacter(makeBot('Merlin'), undefined, '2026-01-02T00:00:00.000Z');
+    const library = touchCharacters(['Dracula', 'Nobody'], '2026-01-05T00:00:00.000Z');
+    expect(library.map((e) => [e.bot.name, e.lastChattedAt, e.thumbnailUrl])).toEqual([
+      ['Dracula', '2026-01-05T00:00:00.000Z', 'thumb-d'],
+      ['Merlin', '2026-01-02T00:00:00.000Z', makeBot('Merlin').avatarUrl],
+    ]);
+  });
+
+  it('deletes a character together with its chat state', () => {
+    saveCharacter(makeBot('Dracula'));
+    saveCharacter(makeBot('Merlin'));
+    storage.setJSON('chatbot-history-Dracula', []);
+    storage.setJSON('chatbot-branches-Dracula', {});
+    storage.setJSON('chatbot-summary-Dracula', {});
+    storage.setItem('conversation-id-Dracula', 'abc');
+    storage.setVersionedJSON('voiceConfig-Dracula', { name: 'x' }, 1);
+    storage.setJSON('chatbot-history-Merlin', []);
+    storage.setJSON('chatbot-bot', makeBot('Dracula'));
+    storage.setItem('chatbot-bot-timestamp', '1');
+
+    const library = deleteCharacter('Dracula');
+
+    expect(library.map((e) => e.bot.name)).toEqual(['Merlin']);
+    ['chatbot-history-Dracula', 'chatbot-branches-Dracula', 'chatbot-summary-Dracula', 'conversation-id-Dracula',
+      'voiceConfig-Dracula', 'chatbot-bot', 'chatbot-bot-timestamp'].forEach((key) => {
+      expect(storage.getItem(key)).toBeNull();
+    });
+    expect(storage.getItem('chatbot-history-Merlin')).not.toBeNull();
+  });
+
+  it('forgets the server conversation id and its owning session', () => {
+    saveCharacter(makeBot('Dracula'));
+    storage.setItem(getConversationIdKey('Dracula'), 'conversation-1');
+    storage.setItem(getConversationSessionKey('Dracula'), 'session-secret');
+
+    deleteCharacter('Dracula');
+
+    expect(storage.getItem('conversation-id-Dracula')).toBeNull();
+    expect(storage.getItem('conversation-session-Dracula')).toBeNull();
+  });
+
+  it('keeps only thumbnails for the least recent characters once over budget', () => {
+    const entry = (name: string, lastChattedAt: string, pinned = false): LibraryEntry => ({
+      bot: makeBot(name), thumbnailUrl: 'thumb', createdAt: lastChattedAt, lastChattedAt, pinned,
+    });
+    const entries = [
+      entry('Old', '2026-01-01T00:00:00.000Z', true),
+      entry('Older', '2026-01-01T00:00:00.000Z'),
+      entry('New', '2026-01-05T00:00:00.000Z'),
+    ];
+    const size = JSON.stringify(entries).length;
+    const fitted = fitLibraryToBudget(entries, size - 100);
+    expect(fitted.map((e) => e.bot.avatarUrl === 'thumb')).toEqual([false, true, false]);
+    expect(fitLibraryToBudget(entries, size)).toEqual(entries);
+  });
+
+  it('ignores malformed stored libraries and entries', () => {
+    storage.setItem(LIBRARY_STORAGE_KEY, '{not json');
+    expect(loadLibrary()).toEqual([]);
+    storage.setVersionedJSON(LIBRARY_STORAGE_KEY, [{ bot: { name: 'x' } }], 1);
+    expect(loadLibrary()).toEqual([]);
+  });
+
+  it('searches names first, then personalities', () => {
+    saveCharacter(makeBot('Sherlock Holmes', 'A detective in London.'));
+    saveCharacter(makeBot('Dr. Watson', 'Friend of Sherlock.'));
+    saveCharacter(makeBot('Dracula', 'A count.'));
+    expect(searchLibrary(loadLibrary(), ' sherlock ').map((e) => e.bot.name)).toEqual(['Sherlock Holmes', 'Dr. Watson']);
+    expect(searchLibrary(loadLibrary(), '')).toHaveLength(3);
+  });
+
+  it('returns the original URL when no thumbnail can be drawn', async () => {
+    await expect(createThumbnail('/silhouette.svg')).resolves.toBe('/silhouette.svg');
+    const OriginalImage = window.Image;
+    window.Image = class {
+      onerror: (() => void) | null = null;
+      set src(_value: string) { setTimeout(() => this.onerror?.(), 0); }
+    } as unknown as typeof Image;
+    await expect(createThumbnail('data:image/png;base64,AAAA')).resolves.toBe('data:image/png;base64,AAAA');
+    window.Image = OriginalImage;
+  });
+
+  it('uses the server thumbnail for stored portraits', async () => {
+    const stored = `/api/avatar/${'a'.repeat(64)}`;
+    const spy = jest.spyOn(document, 'createElement');
+    await expect(createThumbnail(stored)).resolves.toBe(`${stored}-thumb`);
+    expect(spy).not.toHaveBeenCalled();
+    spy.mockRestore();
+  });
+
+  it('draws a square JPEG thumbnail', async () => {
+    const OriginalImage = window.Image;
+    window.Image = class {
+      naturalWidth = 200;
+      naturalHeight = 100;
+      onload: (() => void) | null = null;
+      set src(_value: string) { setTimeout(() => this.onload?.(), 0); }
+    } as unknown as typeof Image;
+    const drawImage = jest.fn();
+    const canvas = { width: 0, height: 0, getContext: () => ({ drawImage }), toDataURL: () => 'data:image/jpeg;base64,THUMB' };
+    const spy = jest.spyOn(document, 'createElement').mockReturnValue(canvas as unknown as HTMLElement);
+    await expect(createThumbnail('data:image/png;base64,AAAA', 48)).resolves.toBe('data:image/jpeg;base64,THUMB');
+    expect(drawImage).toHaveBeenCalledWith(expect.anything(), 50, 0, 100, 100, 0, 0, 48, 48);
+    spy.mockRestore();
+    window.Image = OriginalImage;
+  });
+});
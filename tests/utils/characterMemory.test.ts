@@ -0,0 +1,202 @@
+/**
+ * @jest-environment node
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const mockGet = jest.fn();
+const mockPut = jest.fn();
+const mockDel = jest.fn();
+jest.mock('@vercel/blob', () => {
+  class BlobNotFoundError extends Error {}
+  return {
+    BlobNotFoundError,
+    get: (...args: unknown[]) => mockGet(...args),
+    put: (...args: unknown[]) => mockPut(...args),
+    del: (...args: unknown[]) => mockDel(...args),
+  };
+});
+
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { error: jest.fn(), info: jest.fn(), warn: jest.fn() },
+}));
+
+import {
+  MAX_MEMORIES_PER_CHARACTER,
+  buildMemoryInstructions,
+  createBlobMemoryStore,
+  createFileMemoryStore,
+  extractMemories,
+  getMemoryStore,
+  isValidUserId,
+  mergeMemories,
+  selectRelevantMemories,
+  setMemoryStore,
+  type CharacterMemory,
+} from '../../src/utils/characterMemory';
+import { BlobNotFoundError } from '@vercel/blob';
+import type { LlmProvider } from '../../src/utils/llm';
+
+const USER = '0f8fad5b-d9cb-469f-a165-70867728950e';
+
+function memory(text: string, overrides: Partial<CharacterMemory> = {}): CharacterMemory {
+  return {
+    id: text,
+    text,
+    category: 'preference',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('isValidUserId', () => {
+  it('accepts uuid-like ids and rejects path segments', () => {
+    expect(isValidUserId(USER)).toBe(true);
+    expect(isValidUserId('../../etc')).toBe(false);
+    expect(isValidUserId(undefined)).toBe(false);
+  });
+});
+
+describe('mergeMemories', () => {
+  it('adds new facts and refreshes ones already known', () => {
+    const existing = [memory('The user loves tea.')];
+    const merged = mergeMemories(existing, [
+      { text: 'the user loves tea', category: 'preference' },
+      { text: "The user's name is Sam.", category: 'identity' },
+      { text: '   ', category: 'story' },
+    ], '2026-02-01T00:00:00.000Z');
+    expect(merged).toHaveLength(2);
+    const tea = merged.find((m) => m.id === 'The user loves tea.')!;
+    expect(tea.updatedAt).toBe('2026-02-01T00:00:00.000Z');
+    expect(tea.createdAt).toBe('2026-01-01T00:00:00.000Z');
+    expect(merged.find((m) => m.category === 'identity')?.text).toBe("The user's name is Sam.");
+  });
+
+  it('drops the least recently seen facts over the limit', () => {
+    const existing = Array.from({ length: MAX_MEMORIES_PER_CHARACTER }, (_, i) =>
+      memory(`fact ${i}`, { updatedAt: `2026-01-01T00:00:${String(i).padStart(2, '0')}.000Z` }));
+    const merged = mergeMemories(existing, [{ text: 'newest', category: 'story' }], '2026-03-01T00:00:00.000Z');
+    expect(merged).toHaveLength(MAX_MEMORIES_PER_CHARACTER);
+    expect(merged[0].text).toBe('newest');
+    expect(merged.some((m) => m.text === 'fact 0')).toBe(false);
+  });
+});
+
+describe('selectRelevantMemories', () => {
+  it('keeps identity facts first, then the facts matching the conversation', () => {
+    const memories = [
+      memory('The user dislikes spiders.', { updatedAt: '2026-01-03T00:00:00.000Z' }),
+      memory('The user is writing a mystery novel.'),
+      memory("The user's name is Sam.", { category: 'identity' }),
+    ];
+    const selected = selectRelevantMemories(memories, 'User: How is my novel going?', 2);
+    expect(selected.map((m) => m.text)).toEqual(["The user's name is Sam.", 'The user is writing a mystery novel.']);
+  });
+
+  it('builds a prompt section only when there is something to remember', () => {
+    expect(buildMemoryInstructions([])).toBe('');
+    expect(buildMemoryInstructions([memory('The user loves tea.')])).toContain('- The user loves tea.');
+  });
+});
+
+describe('file memory store', () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'memories-'));
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('saves, reads and clears memories per user and character', async () => {
+    const store = createFileMemoryStore(dir);
+    expect(await store.get(USER, 'Gandalf')).toEqual([]);
+    await store.save(USER, 'Gandalf', [memory('The user loves tea.')]);
+    expect(await store.get(USER, 'gandalf ')).toHaveLength(1);
+    expect(await store.get(USER, 'Frodo')).toEqual([]);
+    await store.save(USER, 'Gandalf', []);
+    expect(await store.get(USER, 'Gandalf')).toEqual([]);
+    await expect(store.save(USER, 'Gandalf', [])).resolves.toBeUndefined();
+  });
+
+  it('rejects invalid user ids and ignores corrupt files', async () => {
+    const store = createFileMemoryStore(dir);
+    await expect(store.get('../escape', 'Gandalf')).rejects.toThrow('Invalid user id');
+    await store.save(USER, 'Gandalf', [memory('x')]);
+    const [file] = fs.readdirSync(path.join(dir, USER));
+    fs.writeFileSync(path.join(dir, USER, file), '{not json');
+    expect(await store.get(USER, 'Gandalf')).toEqual([]);
+  });
+});
+
+describe('blob memory store', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGet.mockImplementation(async () => ({
+      statusCode: 200,
+      stream: new Response(JSON.stringify({ memories: [memory('The user loves tea.'), { id: 'bad' }] })).body,
+    }));
+  });
+
+  it('reads valid memories privately and treats a missing blob as empty', async () => {
+    const store = createBlobMemoryStore('tok');
+    expect(await store.get(USER, 'Gandalf')).toEqual([memory('The user loves tea.')]);
+    expect(mockGet).toHaveBeenCalledWith(
+      expect.stringMatching(new RegExp(`^memories/${USER}/`)),
+      { access: 'private', token: 'tok', useCache: false },
+    );
+    mockGet.mockResolvedValueOnce(null);
+    expect(await store.get(USER, 'Gandalf')).toEqual([]);
+    mockGet.mockRejectedValueOnce(new BlobNotFoundError());
+    expect(await store.get(USER, 'Gandalf')).toEqual([]);
+  });
+
+  it('writes under the user prefix and deletes when cleared', async () => {
+    const store = createBlobMemoryStore('tok');
+    await store.save(USER, 'Gandalf', [memory('x')]);
+    expect(mockPut).toHaveBeenCalledWith(
+      expect.stringMatching(new RegExp(`^memories/${USER}/[a-f0-9]{32}\\.json$`)),
+      expect.any(String),
+      expect.objectContaining({ access: 'private', allowOverwrite: true, addRandomSuffix: false, token: 'tok' }),
+    );
+    await store.save(USER, 'Gandalf', []);
+    expect(mockDel).toHaveBeenCalledWith(mockPut.mock.calls[0][0], { token: 'tok' });
+  });
+});
+
+describe('getMemoryStore', () => {
+  afterEach(() => setMemoryStore(null));
+
+  it('prefers an explicitly registered store', () => {
+    const custom = { get: jest.fn(), save: jest.fn() };
+    setMemoryStore(custom);
+    expect(getMemoryStore()).toBe(custom);
+  });
+});
+
+describe('extractMemories', () => {
+  function makeProvider(complete: jest.Mock): LlmProvider & { complete: jest.Mock } {
+    return { name: 'fake', getModel: () => 'fake-model', complete, stream: jest.fn() };
+  }
+  const replying = (text: string) => makeProvider(jest.fn().mockResolvedValue({ text, model: 'fake-model' }));
+
+  it('returns the valid facts from the model response', async () => {
+    const provider = replying('```json\n{"memories":[{"text":" The user\'s name is Sam. ","category":"identity"},{"text":"x","category":"gossip"}]}\n```');
+    const result = await extractMemories(provider, ['Bot: Who are you?', 'User: I am Sam.'], 'Gandalf', [memory('The user loves tea.')]);
+    expect(result).toEqual([{ text: "The user's name is Sam.", category: 'identity' }]);
+    const request = provider.complete.mock.calls[0][0];
+    expect(request.tier).toBe('text-simple');
+    expect(request.messages[0].content).toContain('Already known:\n- The user loves tea.');
+    expect(request.messages[0].content).toContain('Gandalf: Who are you?');
+  });
+
+  it('returns no facts when the response is not valid JSON or the call fails', async () => {
+    expect(await extractMemories(replying('no facts'), ['User: hi there friend'], 'Gandalf')).toEqual([]);
+    const failing = makeProvider(jest.fn().mockRejectedValue(new Error('down')));
+    expect(await extractMemories(failing, ['User: hi there friend'], 'Gandalf')).toEqual([]);
+  });
+});
@@ -1,4 +1,5 @@
 import { normalizeClaudeConfig, fetchVoiceConfigFromClaude, mapGenderToSsml, detectVoiceType, CHARACTER_VOICE_MAP } from '../../src/utils/characterVoices';
+import { GOOGLE_VOICE_SNAPSHOT } from '../../src/data/googleVoices';
 
 const createMock = jest.fn();
 class AnthropicMock {
@@ -7,14 +8,18 @@ class AnthropicMock {
 }
 jest.mock('@anthropic-ai/sdk', () => ({ default: AnthropicMock, __esModule: true }));
 
-jest.mock('../../src/utils/claudeModelSelector', () => ({ getClaudeModel: jest.fn(() => 'test-model') }));
+jest.mock('../../src/utils/claudeModelSelector', () => ({ ...jest.requireActual('../../src/utils/claudeModelSelector'), getClaudeModel: jest.fn(() => 'test-model') }));
 
-const mockGetTTSClient = jest.fn();
-jest.mock('../../src/utils/tts', () => ({ getTTSClient: () => mockGetTTSClient() }));
+const mockGetCastingVoices = jest.fn();
+jest.mock('../../src/utils/voiceCatalog', () => ({
+    ...jest.requireActual('../../src/utils/voiceCatalog'),
+    getCastingVoices: () => mockGetCastingVoices(),
+}));
 
 describe('characterVoices - helpers and Claude/TTS interactions', () => {
     beforeEach(() => {
         jest.resetAllMocks();
+        mockGetCastingVoices.mockResolvedValue(GOOGLE_VOICE_SNAPSHOT);
     });
 
     it('normalizeClaudeConfig clamps pitch and rate to allowed ranges', () => {
@@ -24,16 +29,12 @@ describe('characterVoices - helpers and Claude/TTS interactions', () => {
         expect(cfg.gender).toBe('female');
     });
 
-    it('fetchVoiceConfigFromClaude retries when voice name malformed and succeeds', async () => {
-        // first call returns malformed voiceName
-        createMock.mockResolvedValueOnce({ content: [{ type: "text", text: '{"voiceName":"badname","languageCode":"en-US","gender":"male","pitch":0,"rate":1}' }] })
+    it('fetchVoiceConfigFromClaude retries when the voice locale is not in the catalogue and succeeds', async () => {
+        // first call returns a voice in a locale with no voices
+        createMock.mockResolvedValueOnce({ content: [{ type: "text", text: '{"voiceName":"badname","languageCode":"xx-XX","gender":"male","pitch":0,"rate":1}' }] })
             // second call returns valid voiceName
             .mockResolvedValueOnce({ content: [{ type: "text", text: '{"voiceName":"en-US-Wavenet-D","languageCode":"en-US","gender":"male","pitch":2,"rate":1.2}' }] });
 
-        // mock tts client to succeed
-        const ttsClient = { synthesizeSpeech: jest.fn().mockResolvedValue([{ audioContent: 'abc' }]) };
-        mockGetTTSClient.mockReturnValue(ttsClient);
-
         const result = await fetchVoiceConfigFromClaude('Test Name');
         expect(result.voiceName).toBe('en-US-Wavenet-D');
         expect(result.languageCode).toBe('en-US');
@@ -41,15 +42,47 @@ describe('characterVoices - helpers and Claude/TTS interactions', () => {
         expect(result.rate).toBe(1.2);
     });
 
-    it('fetchVoiceConfigFromClaude throws when TTS validation fails after retries', async () => {
-        // make Claude return a valid sounding response
-        createMock.mockResolvedValue({ content: [{ type: "text", text: '{"voiceName":"en-US-Wavenet-D","languageCode":"en-US","gender":"male","pitch":0,"rate":1}' }] });
+    it('fetchVoiceConfigFromClaude casts original characters from their description', async () => {
+        createMock.mockResolvedValueOnce({ content: [{ type: "text", text: '{"voiceName":"en-GB-Wavenet-B","languageCode":"en-GB","gender":"male","pitch":-4,"rate":0.9}' }] });
+
+        const description = { backstory: '', era: 'Cornwall, 1880s', appearance: '', temperament: 'Gruff', speakingStyle: '' };
+        await fetchVoiceConfigFromClaude('Tamsin', 1, description);
+        const content = createMock.mock.calls[0][0].messages[0].content;
+        expect(content).toContain('"Tamsin" (an original character)');
+        expect(content).toContain('Era: Cornwall, 1880s\nTemperament: Gruff');
+    });
+
+    it('fetchVoiceConfigFromClaude throws when no catalogue voice matches after retries', async () => {
+        // make Claude keep choosing a locale the catalogue does not have
+        createMock.mockResolvedValue({ content: [{ type: "text", text: '{"voiceName":"xx-XX-Wavenet-D","languageCode":"xx-XX","gender":"male","pitch":0,"rate":1}' }] });
 
-        // mock tts client to fail
-        const ttsClient = { synthesizeSpeech: jest.fn().mockRejectedValue(new Error('voice missing')) };
-        mockGetTTSClient.mockReturnValue(ttsClient);
+        await expect(fetchVoiceConfigFromClaude('Someone', 2)).rejects.toThrow('No valid voice found after 2 attempts');
+        expect(createMock.mock.calls[1][0].messages[2].content).toContain('no voices for locale "xx-XX"');
+    });
+
+    it('fetchVoiceConfigFromClaude asks for and keeps a voice in the conversation language', async () => {
+        createMock.mockResolvedValueOnce({ content: [{ type: "text", text: '{"voiceName":"en-GB-Wavenet-D","languageCode":"en-GB","gender":"male","pitch":-2,"rate":0.9}' }] });
 
-        await expect(fetchVoiceConfigFromClaude('Someone', 2)).rejects.toThrow(/No valid voice found|failed/i);
+        const result = await fetchVoiceConfigFromClaude('Goethe', 1, null, 'de');
+        expect(createMock.mock.calls[0][0].messages[0].content).toContain('The character speaks German in this conversation');
+        expect(result.languageCode).toBe('de-DE');
+        expect(result.voiceName).toMatch(/^de-DE-Wavenet-/);
+        expect(result.pitch).toBe(-2);
+    });
+
+    it('getVoiceConfigForCharacter keeps the IPA Claude proposes for the character name', async () => {
+        createMock.mockResolvedValueOnce({ content: [{ type: "text", text: '{"voiceName":"en-GB-Wavenet-B","languageCode":"en-GB","gender":"female","pitch":0,"rate":1,"namePronunciation":"/nɪˈmɒzɪniː/"}' }] });
+        const mod = jest.requireActual('../../src/utils/characterVoices');
+        const res = await mod.getVoiceConfigForCharacter('mnemosyne');
+        expect(res.pronunciations).toEqual([{ text: 'Mnemosyne', phoneme: 'nɪˈmɒzɪniː', alphabet: 'ipa' }]);
+    });
+
+    it('getVoiceConfigForCharacter falls back to a voice in the conversation language', async () => {
+        createMock.mockImplementation(() => { throw new Error('claude fail'); });
+        const mod = jest.requireActual('../../src/utils/characterVoices');
+        const res = await mod.getVoiceConfigForCharacter('Victor Hugo Fallback', 'male', null, 'fr');
+        expect(res.languageCodes).toEqual(['fr-FR']);
+        expect(res.ssmlGender).toBe(1);
     });
 
     it('getVoiceConfigForCharacter falls back to default on fetch error', async () => {
@@ -100,23 +133,10 @@ describe('characterVoices - helpers and Claude/TTS interactions', () => {
     });
 
     it('fetchVoiceConfigFromClaude returns with fallback when content[0] is not text type', async () => {
-        // Non-text content returns '{}' → JSON.parse fails with invalid voice → retries exhaust
+        // Non-text content returns '{}' → no voice name → retries exhaust
         createMock.mockResolvedValue({
             content: [{ type: 'image' }]
         });
-        const ttsClient = { synthesizeSpeech: jest.fn().mockRejectedValue(new Error('voice missing')) };
-        mockGetTTSClient.mockReturnValue(ttsClient);
-        await expect(fetchVoiceConfigFromClaude('Test', 1)).rejects.toThrow();
+        await expect(fetchVoiceConfigFromClaude('Test', 1)).rejects.toThrow('No voice name returned after 1 attempts');
     });
-
-    it('isValidGoogleTTSVoice covers non-Error in catch (L93 cond-expr[1])', async () => {
-            // TTS throws a non-Error (string) to trigger String(err) branch in isValidGoogleTTSVoice
-            const ttsClient = { synthesizeSpeech: jest.fn().mockRejectedValue('plain tts failure') };
-            mockGetTTSClient.mockReturnValue(ttsClient);
-            createMock.mockResolvedValue({
-                content: [{ type: 'text', text: '{"voiceName":"en-US-Wavenet-D","languageCode":"en-US","gender":"male","pitch":0,"rate":1}' }]
-            });
-            // All retries will fail validation (TTS throws) → eventually rejects
-            await expect(fetchVoiceConfigFromClaude('Test', 1)).rejects.toThrow();
-        });
 });
@@ -0,0 +1,99 @@
+import { parseSseEvents, readChatResponse } from '../../src/utils/chatStream';
+
+const encoder = new TextEncoder();
+
+/** Minimal event-stream Response delivering `parts` one read at a time. */
+function sseResponse(parts: string[]): Response {
+  const queue = parts.map((part) => encoder.encode(part));
+  return {
+    headers: { get: (name: string) => (name.toLowerCase() === 'content-type' ? 'text/event-stream' : null) },
+    body: {
+      getReader: () => ({
+        read: async () => (queue.length ? { value: queue.shift(), done: false } : { value: undefined, done: true }),
+      }),
+    },
+    json: jest.fn(),
+  } as unknown as Response;
+}
+
+const event = (payload: object) => `data: ${JSON.stringify(payload)}\n\n`;
+
+describe('parseSseEvents', () => {
+  it('returns complete events and keeps the unfinished remainder', () => {
+    const { events, rest } = parseSseEvents(`${event({ chunk: 'Hel', done: false })}: keep-alive\n\ndata: {"chunk":"lo"`);
+    expect(events).toEqual([{ chunk: 'Hel', done: false }]);
+    expect(rest).toBe('data: {"chunk":"lo"');
+  });
+
+  it('skips malformed payloads and handles CRLF separators', () => {
+    const { events } = parseSseEvents('data: not json\r\n\r\ndata: {"done":true}\r\n\r\n');
+    expect(events).toEqual([{ done: true }]);
+  });
+});
+
+describe('readChatResponse', () => {
+  it('reports the accumulated text and resolves with the final event', async () => {
+    const onText = jest.fn();
+    const final = { reply: 'Hello there.', audioFileUrl: '/api/audio?file=a.mp3', done: true };
+    // The second event is split across reads
+    const stream = `${event({ chunk: 'Hello', done: false })}${event({ chunk: ' there', done: false })}${event(final)}`;
+    const result = await readChatResponse(sseResponse([stream.slice(0, 40), stream.slice(40)]), onText);
+
+    expect(onText.mock.calls.map(([text]) => text)).toEqual(['Hello', 'Hello there']);
+    expect(result).toEqual(final);
+  });
+
+  it('hides tone tags, including one that is still arriving', async () => {
+    const onText = jest.fn();
+    const stream = [
+      event({ chunk: 'Listen. [whisp', done: false }),
+      event({ chunk: 'ering] Come closer.', done: false }),
+      event({ reply: 'Listen. Come closer.', done: true }),
+    ];
+    await readChatResponse(sseResponse(stream), onText);
+    expect(onText.mock.calls.map(([text]) => text)).toEqual(['Listen. ', 'Listen. Come closer.']);
+  });
+
+  it('hides the mood tag at the start of the reply while it arrives', async () => {
+    const onText = jest.fn();
+    const stream = [
+      event({ chunk: '[mood:ha', done: false }),
+      event({ chunk: 'ppy] Good', done: false }),
+      event({ chunk: ' morning.', done: false }),
+      event({ reply: 'Good morning.', mood: 'happy', done: true }),
+    ];
+    const result = await readChatResponse(sseResponse(stream), onText);
+    expect(onText.mock.calls.map(([text]) => text)).toEqual(['', 'Good', 'Good morning.']);
+    expect(result.mood).toBe('happy');
+  });
+
+  it('passes sentence clips to onAudio in order', async () => {
+    const onAudio = jest.fn();
+    const stream = [
+      event({ chunk: 'One. Two.', done: false }),
+      event({ audio: '/api/audio?file=1.mp3', done: false }),
+      event({ audio: '/api/audio?file=2.mp3', done: false }),
+      event({ reply: 'One. Two.', done: true }),
+    ];
+    await readChatResponse(sseResponse(stream), jest.fn(), onAudio);
+    expect(onAudio.mock.calls).toEqual([['/api/audio?file=1.mp3'], ['/api/audio?file=2.mp3']]);
+  });
+
+  it('accepts a final event without a trailing blank line', async () => {
+    const result = await readChatResponse(sseResponse(['data: {"reply":"Hi.","done":true}']), jest.fn());
+    expect(result).toEqual({ reply: 'Hi.', done: true });
+  });
+
+  it('rejects on error events and on streams that end early', async () => {
+    await expect(readChatResponse(sseResponse([event({ error: 'Streaming failed', done: true })]), jest.fn()))
+      .rejects.toThrow('Streaming failed');
+    await expect(readChatResponse(sseResponse([event({ chunk: 'Hel', done: false })]), jest.fn()))
+      .rejects.toThrow(/ended before the reply was complete/);
+  });
+
+  it('falls back to JSON for non-streaming responses', async () => {
+    const json = jest.fn().mockResolvedValue({ reply: 'cached' });
+    const res = { headers: { get: () => 'application/json' }, body: null, json } as unknown as Response;
+    await expect(readChatResponse(res, jest.fn())).resolves.toEqual({ reply: 'cached' });
+  });
+});
@@ -1,4 +1,4 @@
-import { getClaudeModel } from '../../src/utils/claudeModelSelector';
+import { getClaudeModel, getLlmProviderName, getModel } from '../../src/utils/claudeModelSelector';
 
 describe('getClaudeModel', () => {
     const OLD_ENV = process.env;
@@ -64,4 +64,33 @@ describe('getClaudeModel', () => {
         // @ts-expect-error test: passing invalid type should throw
         expect(() => getClaudeModel('audio')).toThrow('Unknown model type: audio');
     });
+
+    describe('provider-neutral routing', () => {
+        it('selects the provider from LLM_PROVIDER, defaulting to anthropic', () => {
+            setEnv({ LLM_PROVIDER: undefined });
+            expect(getLlmProviderName()).toBe('anthropic');
+            setEnv({ LLM_PROVIDER: ' OpenAI-Compatible ' });
+            expect(getLlmProviderName()).toBe('openai-compatible');
+            setEnv({ LLM_PROVIDER: 'mystery' });
+            expect(getLlmProviderName()).toBe('anthropic');
+        });
+
+        it('routes tiers to Claude models on anthropic', () => {
+            setEnv({ NODE_ENV: 'production', VERCEL_ENV: undefined, LLM_PROVIDER: undefined });
+            expect(getModel('text')).toBe('claude-sonnet-4-6');
+            expect(getModel('text-simple')).toBe('claude-haiku-4-5-20251001');
+        });
+
+        it('reads per-tier model names for OpenAI-compatible servers', () => {
+            setEnv({ LLM_MODEL: 'llama3.1', LLM_MODEL_TEXT: 'llama3.1:70b', LLM_MODEL_TEXT_SIMPLE: undefined });
+            expect(getModel('text', 'openai-compatible')).toBe('llama3.1:70b');
+            expect(getModel('text-simple', 'openai-compatible')).toBe('llama3.1');
+            setEnv({ LLM_MODEL: undefined, LLM_MODEL_TEXT: undefined });
+            expect(getModel('text', 'openai-compatible')).toBe('local-model');
+        });
+
+        it('names fake models after the tier', () => {
+            expect(getModel('text-simple', 'fake')).toBe('fake-text-simple');
+        });
+    });
 });
@@ -0,0 +1,116 @@
+import storage from '../../src/utils/storage';
+import {
+  estimateEntryTokens,
+  estimateTokens,
+  getContextBudget,
+  getSummaryKey,
+  loadRollingSummary,
+  saveRollingSummary,
+  selectUnsummarized,
+  splitHistoryByBudget,
+  truncateToTokens,
+  type ContextBudget,
+} from '../../src/utils/contextWindow';
+
+const budget: ContextBudget = { historyTokens: 100, retainRatio: 0.5, maxEntryTokens: 40, summaryTokens: 50 };
+// Each entry is 36 characters: 9 tokens plus 4 tokens of overhead
+const entry = (n: number) => `User: message number ${String(n).padStart(3, '0')} padding..`;
+
+describe('contextWindow', () => {
+  const OLD_ENV = process.env;
+  beforeEach(() => {
+    process.env = { ...OLD_ENV };
+    delete process.env.CHAT_HISTORY_TOKEN_BUDGET;
+    localStorage.clear();
+  });
+  afterAll(() => {
+    process.env = OLD_ENV;
+  });
+
+  it('estimates tokens from text length', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('abcde')).toBe(2);
+    expect(estimateEntryTokens(entry(1))).toBe(13);
+  });
+
+  it('truncates long text and marks the cut', () => {
+    expect(truncateToTokens('short', 10)).toBe('short');
+    const cut = truncateToTokens('x'.repeat(100), 5);
+    expect(cut).toHaveLength(20);
+    expect(cut.endsWith('…')).toBe(true);
+  });
+
+  it('uses a larger budget for the production chat model', () => {
+    Object.defineProperty(process.env, 'NODE_ENV', { value: 'production', configurable: true, writable: true, enumerable: true });
+    expect(getContextBudget('text')).toEqual({ historyTokens: 8000, retainRatio: 0.5, maxEntryTokens: 2000, summaryTokens: 400 });
+    expect(getContextBudget('text-simple').historyTokens).toBe(4000);
+  });
+
+  it('lets CHAT_HISTORY_TOKEN_BUDGET override the history size', () => {
+    process.env.CHAT_HISTORY_TOKEN_BUDGET = '1500.7';
+    expect(getContextBudget().historyTokens).toBe(1500);
+    process.env.CHAT_HISTORY_TOKEN_BUDGET = 'lots';
+    expect(getContextBudget().historyTokens).toBe(4000);
+  });
+
+  it('keeps the whole history while it fits the budget', () => {
+    const history = [entry(1), entry(2), entry(3)];
+    expect(splitHistoryByBudget(history, budget)).toEqual({ older: [], recent: history });
+  });
+
+  it('folds older turns and keeps the newest share of the budget once it overflows', () => {
+    const history = Array.from({ length: 10 }, (_, i) => entry(i));
+    const { older, recent } = splitHistoryByBudget(history, budget);
+    // 50 retained tokens fit three 13-token entries
+    expect(recent).toEqual(history.slice(-3));
+    expect(older).toEqual(history.slice(0, -3));
+  });
+
+  it('always keeps the newest entry and caps oversized entries', () => {
+    const huge = `User: ${'y'.repeat(1000)}`;
+    const { older, recent } = splitHistoryByBudget([entry(1), entry(2), entry(3), huge], { ...budget, historyTokens: 40 });
+    expect(recent).toHaveLength(1);
+    expect(estimateTokens(recent[0])).toBeLessThanOrEqual(budget.maxEntryTokens);
+    expect(older).toHaveLength(3);
+  });
+
+  describe('selectUnsummarized', () => {
+    const messages = ['a', 'b', 'c', 'd'].map((id) => ({ id, text: `text ${id}` }));
+
+    it('sends everything when there is no summary', () => {
+      expect(selectUnsummarized(messages, null)).toEqual({ messages, summary: null });
+    });
+
+    it('skips the messages the summary already covers', () => {
+      const summary = { text: 'so far', throughMessageId: 'b' };
+      expect(selectUnsummarized(messages, summary)).toEqual({ messages: messages.slice(2), summary });
+    });
+
+    it('ignores a summary of a message that is not on the active path', () => {
+      const result = selectUnsummarized(messages, { text: 'other branch', throughMessageId: 'zz' });
+      expect(result).toEqual({ messages, summary: null });
+    });
+
+    it('caps the history sent without a summary to the newest messages', () => {
+      // Each message costs 6 tokens
+      expect(selectUnsummarized(messages, null, 13).messages.map((m) => m.id)).toEqual(['c', 'd']);
+      expect(selectUnsummarized(messages, null, 1).messages.map((m) => m.id)).toEqual(['d']);
+    });
+  });
+
+  it('persists and clears the rolling summary', () => {
+    const key = getSummaryKey('Gandalf');
+    expect(key).toBe('chatbot-summary-Gandalf');
+    expect(loadRollingSummary(key)).toBeNull();
+    saveRollingSummary(key, { text: 'They met.', throughMessageId: 'm1' });
+    expect(loadRollingSummary(key)).toEqual({ text: 'They met.', throughMessageId: 'm1' });
+    saveRollingSummary(key, null);
+    expect(storage.getItem(key)).toBeNull();
+  });
+
+  it('ignores malformed stored summaries', () => {
+    storage.setJSON('chatbot-summary-x', { text: 5 });
+    expect(loadRollingSummary('chatbot-summary-x')).toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+import storage from '../../src/utils/storage';
+import {
+  ROOT_BRANCH_KEY,
+  createConversationTree,
+  getActivePath,
+  getBranchInfo,
+  getBranchesKey,
+  loadConversationTree,
+  mergeActivePath,
+  saveConversationTree,
+  selectAlternate,
+} from '../../src/utils/conversationBranches';
+import { createMessage } from '../../src/utils/messages';
+import type { Message } from '../../src/types/message';
+
+const user = (id: string, text = id): Message => createMessage({ id, role: 'user', sender: 'User', text });
+const reply = (id: string, text = id): Message => createMessage({ id, role: 'assistant', sender: 'Gandalf', text });
+
+describe('conversationBranches', () => {
+  const u1 = user('u1');
+  const r1 = reply('r1');
+  const u2 = user('u2');
+  const r2 = reply('r2');
+
+  it('builds a linear tree whose active path is the history', () => {
+    const tree = createConversationTree([u1, r1, u2, r2]);
+    expect(getActivePath(tree)).toEqual([u1, r1, u2, r2]);
+    expect(tree.children[ROOT_BRANCH_KEY]).toEqual(['u1']);
+    expect(getBranchInfo(tree, 'r1')).toBeNull();
+    expect(getBranchInfo(tree, 'missing')).toBeNull();
+  });
+
+  it('returns the same tree when the path is unchanged', () => {
+    const tree = createConversationTree([u1, r1]);
+    expect(mergeActivePath(tree, [u1, r1])).toBe(tree);
+    expect(mergeActivePath(tree, [u1])).toBe(tree);
+  });
+
+  it('keeps a regenerated reply as an alternate and flips between versions', () => {
+    const full = createConversationTree([u1, r1, u2, r2]);
+    const r1b = reply('r1b');
+    const tree = mergeActivePath(full, [u1, r1b]);
+    expect(getActivePath(tree)).toEqual([u1, r1b]);
+    expect(getBranchInfo(tree, 'r1b')).toEqual({ index: 1, total: 2 });
+
+    // Going back restores the original reply and everything that followed it
+    const back = selectAlternate(tree, 'r1b', -1)!;
+    expect(back.path).toEqual([u1, r1, u2, r2]);
+    expect(getBranchInfo(back.tree, 'r1')).toEqual({ index: 0, total: 2 });
+    expect(selectAlternate(back.tree, 'r1', -1)).toBeNull();
+    expect(selectAlternate(back.tree, 'r1', 1)!.path).toEqual([u1, r1b]);
+  });
+
+  it('keeps edited user messages as siblings', () => {
+    const tree = mergeActivePath(createConversationTree([u1, r1, u2, r2]), [u1, r1, user('u2b', 'edited')]);
+    expect(getBranchInfo(tree, 'u2b')).toEqual({ index: 1, total: 2 });
+    expect(selectAlternate(tree, 'u2b', -1)!.path.map((m) => m.id)).toEqual(['u1', 'r1', 'u2', 'r2']);
+  });
+
+  it('updates changed message objects and clears on an empty path', () => {
+    const tree = createConversationTree([u1, r1]);
+    const withAudio = { ...r1, audioFileUrl: '/a.mp3' };
+    const updated = mergeActivePath(tree, [u1, withAudio]);
+    expect(updated.nodes.r1.message).toBe(withAudio);
+    expect(mergeActivePath(updated, [])).toEqual({ nodes: {}, children: {}, selected: {} });
+  });
+
+  describe('persistence', () => {
+    const key = getBranchesKey('Gandalf');
+    beforeEach(() => {
+      storage.clearMemoryFallback();
+      localStorage.clear();
+    });
+
+    it('saves and reloads a tree, reconciling it with the saved history', () => {
+      const tree = mergeActivePath(createConversationTree([u1, r1]), [u1, reply('r1b')]);
+      saveConversationTree(key, tree);
+      const loaded = loadConversationTree(key, [u1, r1]);
+      expect(getActivePath(loaded).map((m) => m.id)).toEqual(['u1', 'r1']);
+      expect(getBranchInfo(loaded, 'r1')).toEqual({ index: 0, total: 2 });
+    });
+
+    it('falls back to the history for missing or corrupt trees and removes empty ones', () => {
+      expect(getActivePath(loadConversationTree(key, [u1]))).toEqual([u1]);
+      storage.setVersionedJSON(key, { nodes: { x: { message: { text: 1 } } }, children: {}, selected: {} }, 1);
+      expect(getActivePath(loadConversationTree(key, [u1]))).toEqual([u1]);
+      saveConversationTree(key, createConversationTree([u1]));
+      saveConversationTree(key, createConversationTree([]));
+      expect(storage.getItem(key)).toBeNull();
+    });
+  });
+});
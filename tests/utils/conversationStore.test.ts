@@ -0,0 +1,227 @@
+/**
+ * @jest-environment node
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const mockGet = jest.fn();
+const mockPut = jest.fn();
+const mockDel = jest.fn();
+const mockList = jest.fn();
+jest.mock('@vercel/blob', () => {
+  class BlobNotFoundError extends Error {}
+  return {
+    BlobNotFoundError,
+    get: (...args: unknown[]) => mockGet(...args),
+    put: (...args: unknown[]) => mockPut(...args),
+    del: (...args: unknown[]) => mockDel(...args),
+    list: (...args: unknown[]) => mockList(...args),
+  };
+});
+
+import {
+  createBlobConversationStore,
+  createFileConversationStore,
+  getConversationStore,
+  isValidConversationId,
+  isValidSessionId,
+  parseConversationInput,
+  setConversationStore,
+  type StoredConversation,
+} from '../../src/utils/conversationStore';
+import { BlobNotFoundError } from '@vercel/blob';
+
+const bot = { name: 'Gandalf', personality: 'wise', avatarUrl: '/silhouette.svg', voiceConfig: null, gender: null };
+
+function makeConversation(overrides: Partial<StoredConversation> = {}): StoredConversation {
+  return {
+    id: 'abcdef123456',
+    sessionId: 'session-1',
+    bot,
+    messages: [{ id: 'm1', role: 'assistant', sender: 'Gandalf', text: 'Hello', timestamp: '2026-01-01T00:00:00.000Z' }],
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('isValidConversationId', () => {
+  it('accepts uuid-like ids and rejects path segments', () => {
+    expect(isValidConversationId('0f8fad5b-d9cb-469f-a165-70867728950e')).toBe(true);
+    expect(isValidConversationId('../../etc/passwd')).toBe(false);
+    expect(isValidConversationId('short')).toBe(false);
+    expect(isValidConversationId(42)).toBe(false);
+  });
+});
+
+describe('isValidSessionId', () => {
+  it('accepts uuid session ids and rejects path segments', () => {
+    expect(isValidSessionId('0f8fad5b-d9cb-469f-a165-70867728950e')).toBe(true);
+    expect(isValidSessionId('../other')).toBe(false);
+    expect(isValidSessionId(undefined)).toBe(false);
+  });
+});
+
+describe('parseConversationInput', () => {
+  const valid = { sessionId: 'session-1', bot, messages: [{ sender: 'User', text: 'hi', extra: 1 }] };
+
+  it('normalizes a valid body', () => {
+    const parsed = parseConversationInput(valid);
+    expect(parsed.ok).toBe(true);
+    if (parsed.ok) {
+      expect(parsed.value.bot).toEqual(bot);
+      expect(parsed.value.messages[0]).toMatchObject({ role: 'user', sender: 'User', text: 'hi' });
+      expect(parsed.value.messages[0].id).toEqual(expect.any(String));
+      expect(parsed.value.messages[0]).not.toHaveProperty('extra');
+      expect(parsed.value.group).toBeUndefined();
+    }
+  });
+
+  it('keeps the bot expression portraits', () => {
+    const expressions = { surprised: `/api/avatar/${'c'.repeat(64)}` };
+    const parsed = parseConversationInput({ ...valid, bot: { ...bot, expressions: { ...expressions, smug: '/x' } } });
+    expect(parsed.ok && parsed.value.bot.expressions).toEqual(expressions);
+  });
+
+  it.each([
+    [null, 'Request body required'],
+    [{ ...valid, sessionId: '' }, 'Invalid sessionId'],
+    [{ ...valid, sessionId: '../session' }, 'Invalid sessionId'],
+    [{ ...valid, bot: { name: '' } }, 'Invalid bot'],
+    [{ ...valid, messages: [{ sender: 'User' }] }, 'Invalid messages'],
+    [{ ...valid, messages: 'nope' }, 'Invalid messages'],
+    [{ ...valid, group: { members: [bot], turnPolicy: 'loudest' } }, 'Invalid group'],
+    [{ ...valid, group: { members: [{}], turnPolicy: 'random' } }, 'Invalid group'],
+  ])('rejects %p', (body, error) => {
+    expect(parseConversationInput(body)).toEqual({ ok: false, error });
+  });
+
+  it('accepts a group', () => {
+    const parsed = parseConversationInput({ ...valid, group: { members: [{ ...bot, name: 'Frodo' }], turnPolicy: 'addressed' } });
+    expect(parsed.ok && parsed.value.group?.members[0].name).toBe('Frodo');
+  });
+});
+
+describe('file conversation store', () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'conversations-'));
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('saves, reads, lists and deletes conversations within a session', async () => {
+    const store = createFileConversationStore(dir);
+    await store.save(makeConversation());
+    await store.save(makeConversation({ id: 'yyyyyyyy8888', updatedAt: '2026-03-01T00:00:00.000Z' }));
+    await store.save(makeConversation({ id: 'zzzzzzzz9999', sessionId: 'session-2', updatedAt: '2026-02-01T00:00:00.000Z' }));
+
+    expect(fs.existsSync(path.join(dir, 'session-1', 'abcdef123456.json'))).toBe(true);
+    expect((await store.get('session-1', 'abcdef123456'))?.messages).toHaveLength(1);
+    expect(await store.list('session-1')).toEqual([
+      expect.objectContaining({ id: 'yyyyyyyy8888' }),
+      expect.objectContaining({ id: 'abcdef123456', botName: 'Gandalf', participantNames: ['Gandalf'], messageCount: 1 }),
+    ]);
+    expect((await store.list('session-2')).map((c) => c.id)).toEqual(['zzzzzzzz9999']);
+
+    expect(await store.delete('session-1', 'abcdef123456')).toBe(true);
+    expect(await store.delete('session-1', 'abcdef123456')).toBe(false);
+    expect(await store.get('session-1', 'abcdef123456')).toBeNull();
+  });
+
+  it('does not reach another session\'s conversations', async () => {
+    const store = createFileConversationStore(dir);
+    await store.save(makeConversation());
+    expect(await store.get('session-2', 'abcdef123456')).toBeNull();
+    expect(await store.delete('session-2', 'abcdef123456')).toBe(false);
+    expect(await store.get('session-1', 'abcdef123456')).not.toBeNull();
+  });
+
+  it('returns an empty list before anything is saved', async () => {
+    expect(await createFileConversationStore(path.join(dir, 'missing')).list('session-1')).toEqual([]);
+  });
+
+  it('rejects invalid ids', async () => {
+    await expect(createFileConversationStore(dir).get('session-1', '../escape')).rejects.toThrow('Invalid conversation id');
+    await expect(createFileConversationStore(dir).list('../escape')).rejects.toThrow('Invalid session id');
+  });
+});
+
+describe('blob conversation store', () => {
+  const blobResult = (conversation: StoredConversation) => ({
+    statusCode: 200,
+    stream: new Response(JSON.stringify(conversation)).body,
+  });
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGet.mockImplementation(async () => blobResult(makeConversation()));
+  });
+
+  it('writes private conversations under the session prefix', async () => {
+    await createBlobConversationStore('tok').save(makeConversation());
+    expect(mockPut).toHaveBeenCalledWith('conversations/session-1/abcdef123456.json', expect.any(String), expect.objectContaining({
+      access: 'private',
+      allowOverwrite: true,
+      addRandomSuffix: false,
+      token: 'tok',
+    }));
+  });
+
+  it('reads a conversation and returns null when missing', async () => {
+    const store = createBlobConversationStore('tok');
+    expect((await store.get('session-1', 'abcdef123456'))?.id).toBe('abcdef123456');
+    expect(mockGet).toHaveBeenCalledWith('conversations/session-1/abcdef123456.json', expect.objectContaining({ access: 'private', token: 'tok' }));
+    mockGet.mockResolvedValueOnce(null);
+    expect(await store.get('session-1', 'abcdef123456')).toBeNull();
+    mockGet.mockRejectedValueOnce(new BlobNotFoundError());
+    expect(await store.get('session-1', 'abcdef123456')).toBeNull();
+  });
+
+  it('deletes existing conversations only', async () => {
+    const store = createBlobConversationStore('tok');
+    expect(await store.delete('session-1', 'abcdef123456')).toBe(true);
+    expect(mockDel).toHaveBeenCalledWith('conversations/session-1/abcdef123456.json', { token: 'tok' });
+    mockGet.mockResolvedValueOnce(null);
+    expect(await store.delete('session-1', 'abcdef123456')).toBe(false);
+  });
+
+  it('pages through the session prefix and reads the newest conversations', async () => {
+    const blob = (id: string, uploadedAt: string) => ({ pathname: `conversations/session-1/${id}.json`, uploadedAt: new Date(uploadedAt) });
+    mockList
+      .mockResolvedValueOnce({ blobs: [blob('aaaaaaaa1111', '2026-01-01')], hasMore: true, cursor: 'next' })
+      .mockResolvedValueOnce({ blobs: [blob('bbbbbbbb2222', '2026-02-01')], hasMore: false });
+    mockGet.mockImplementation(async (pathname: string) => {
+      const id = pathname.split('/').pop()!.replace('.json', '');
+      const updatedAt = id.startsWith('a') ? '2026-01-01T00:00:00.000Z' : '2026-02-01T00:00:00.000Z';
+      return blobResult(makeConversation({ id, updatedAt }));
+    });
+
+    const summaries = await createBlobConversationStore('tok').list('session-1');
+    expect(mockList).toHaveBeenNthCalledWith(1, expect.objectContaining({ prefix: 'conversations/session-1/', cursor: undefined }));
+    expect(mockList).toHaveBeenNthCalledWith(2, expect.objectContaining({ prefix: 'conversations/session-1/', cursor: 'next' }));
+    expect(summaries.map((c) => c.id)).toEqual(['bbbbbbbb2222', 'aaaaaaaa1111']);
+  });
+});
+
+describe('getConversationStore', () => {
+  const OLD_ENV = process.env;
+  afterEach(() => {
+    process.env = OLD_ENV;
+    setConversationStore(null);
+  });
+
+  it('prefers an explicitly registered store', () => {
+    const custom = { get: jest.fn(), save: jest.fn(), delete: jest.fn(), list: jest.fn() };
+    setConversationStore(custom);
+    expect(getConversationStore()).toBe(custom);
+  });
+
+  it('uses Vercel Blob when a token is configured', async () => {
+    process.env = { ...OLD_ENV, BLOB_READ_WRITE_TOKEN: 'tok' };
+    await getConversationStore().save(makeConversation());
+    expect(mockPut).toHaveBeenCalled();
+  });
+});
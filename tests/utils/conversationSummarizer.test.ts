@@ -1,5 +1,5 @@
-import { summarizeConversation, buildClaudeMessages } from '../../src/utils/conversationSummarizer';
-import type { ClaudeMessage } from '../../src/utils/conversationSummarizer';
+import { updateRollingSummary, buildClaudeMessages } from '../../src/utils/conversationSummarizer';
+import type { LlmProvider } from '../../src/utils/llm';
 
 jest.mock('../../src/utils/logger', () => ({
   __esModule: true,
@@ -45,68 +45,76 @@ describe('buildClaudeMessages', () => {
       { role: 'user', content: 'Bye' },
     ]);
   });
+
+  it('does not append an empty user message', () => {
+    expect(buildClaudeMessages(['User: Hi'], '')).toEqual([{ role: 'user', content: 'Hi' }]);
+  });
+
+  it('keeps the speaker identity of [Name]: entries in group conversations', () => {
+    const history = ['User: Who did it?', '[Sherlock Holmes]: The butler.', '[Dr. Watson]: Surely not!'];
+    const result = buildClaudeMessages(history, '', 'Sherlock Holmes');
+    expect(result).toEqual([
+      { role: 'user', content: 'User: Who did it?' },
+      { role: 'assistant', content: 'The butler.' },
+      { role: 'user', content: 'Dr. Watson: Surely not!' },
+    ]);
+  });
+
+  it('merges consecutive turns from other speakers into one user turn', () => {
+    const history = ['[Sherlock Holmes]: Elementary.', '[Dr. Watson]: Quite.'];
+    const result = buildClaudeMessages(history, 'And you, Watson?', 'Dr. Watson');
+    expect(result).toEqual([
+      { role: 'user', content: 'Sherlock Holmes: Elementary.' },
+      { role: 'assistant', content: 'Quite.' },
+      { role: 'user', content: 'User: And you, Watson?' },
+    ]);
+  });
+
+  it('opens a group conversation with a user turn when the speaker spoke first', () => {
+    const result = buildClaudeMessages(['[Dr. Watson]: Hello.', '[Sherlock Holmes]: Hm.'], '', 'Dr. Watson');
+    expect(result[0].role).toBe('user');
+    expect(result[1]).toEqual({ role: 'assistant', content: 'Hello.' });
+  });
 });
 
+function makeProvider(complete: jest.Mock): LlmProvider & { complete: jest.Mock } {
+  return { name: 'fake', getModel: () => 'fake-model', complete, stream: jest.fn() };
+}
+
+function makeTextProvider(text: string) {
+  return makeProvider(jest.fn().mockResolvedValue({ text, model: 'fake-model' }));
+}
+
 // ---------------------------------------------------------------------------
-// summarizeConversation
+// updateRollingSummary
 // ---------------------------------------------------------------------------
 
-describe('summarizeConversation', () => {
-  const messages: ClaudeMessage[] = [
-    { role: 'user', content: 'Hello' },
-    { role: 'assistant', content: 'Hi there' },
-  ];
-
-  function makeAnthropic(textResponse: string) {
-    return {
-      messages: {
-        create: jest.fn().mockResolvedValue({
-          content: [{ type: 'text', text: textResponse }],
-        }),
-      },
-    };
-  }
-
-  it('returns the trimmed text from a successful Claude response', async () => {
-    const anthropic = makeAnthropic('  This is a summary.  ');
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const result = await summarizeConversation(anthropic as any, messages, 'Bot');
-    expect(result).toBe('This is a summary.');
-  });
+describe('updateRollingSummary', () => {
 
-  it('uses the bot name in the conversation text passed to Claude', async () => {
-    const anthropic = makeAnthropic('summary');
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    await summarizeConversation(anthropic as any, messages, 'Sherlock');
-    const callArg = (anthropic.messages.create as jest.Mock).mock.calls[0][0];
-    expect(callArg.messages[0].content).toContain('Sherlock:');
+  it('merges the previous summary with the new entries', async () => {
+    const provider = makeTextProvider(' Updated summary. ');
+    const result = await updateRollingSummary(provider, 'They met at Baker Street.', ['User: Any news?', 'Bot: A new case.'], 'Sherlock', 400);
+    expect(result).toBe('Updated summary.');
+    const callArg = provider.complete.mock.calls[0][0];
+    expect(callArg).toMatchObject({ tier: 'text-simple', maxTokens: 400 });
+    expect(callArg.messages[0].content).toContain('Summary so far:\nThey met at Baker Street.');
+    expect(callArg.messages[0].content).toContain('User: Any news?\nSherlock: A new case.');
   });
 
-  it('formats user messages with "User:" prefix', async () => {
-    const anthropic = makeAnthropic('summary');
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    await summarizeConversation(anthropic as any, messages, 'Bot');
-    const callArg = (anthropic.messages.create as jest.Mock).mock.calls[0][0];
-    expect(callArg.messages[0].content).toContain('User:');
+  it('summarizes the entries alone when there is no previous summary', async () => {
+    const provider = makeTextProvider('summary');
+    await updateRollingSummary(provider, undefined, ['[Dr. Watson]: Remarkable.'], 'Sherlock');
+    const callArg = provider.complete.mock.calls[0][0];
+    expect(callArg.messages[0].content).toBe('Dr. Watson: Remarkable.');
   });
 
-  it('returns fallback text when the response has no text content', async () => {
-    const anthropic = {
-      messages: {
-        create: jest.fn().mockResolvedValue({ content: [{ type: 'image' }] }),
-      },
-    };
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const result = await summarizeConversation(anthropic as any, messages, 'Bot');
-    expect(result).toBe('Previous conversation history.');
+  it('returns null when the response has no text', async () => {
+    const provider = makeTextProvider('   ');
+    expect(await updateRollingSummary(provider, undefined, ['User: hi'], 'Bot')).toBeNull();
   });
 
-  it('returns fallback text and does not throw when Claude rejects', async () => {
-    const anthropic = {
-      messages: { create: jest.fn().mockRejectedValue(new Error('API down')) },
-    };
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const result = await summarizeConversation(anthropic as any, messages, 'Bot');
-    expect(result).toBe('Previous conversation covered various topics.');
+  it('returns null and does not throw when the provider rejects', async () => {
+    const provider = makeProvider(jest.fn().mockRejectedValue(new Error('API down')));
+    expect(await updateRollingSummary(provider, 'old', ['User: hi'], 'Bot')).toBeNull();
   });
 });
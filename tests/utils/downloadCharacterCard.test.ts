@@ -0,0 +1,111 @@
+import { downloadCharacterCard } from '../../src/utils/downloadCharacterCard';
+import type { Bot } from '../../app/components/BotCreator';
+
+const PIXEL_PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+const pixel = () => Uint8Array.from(atob(PIXEL_PNG), (c) => c.charCodeAt(0));
+
+const readBlobText = (blob: Blob) => new Promise<string>((resolve) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.readAsText(blob);
+});
+
+const createObjectURL = jest.fn((_blob: Blob) => 'blob:url');
+const revokeObjectURL = jest.fn();
+
+const bot: Bot = {
+  name: 'Sherlock Holmes',
+  personality: 'You are Sherlock Holmes.',
+  avatarUrl: `data:image/png;base64,${PIXEL_PNG}`,
+  voiceConfig: null,
+  gender: 'male',
+};
+
+describe('downloadCharacterCard', () => {
+  let anchor: { href: string; download: string; click: jest.Mock };
+  let canvas: { width: number; height: number; getContext: jest.Mock; toBlob: jest.Mock };
+  const OriginalImage = window.Image;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    global.URL.createObjectURL = createObjectURL;
+    global.URL.revokeObjectURL = revokeObjectURL;
+    anchor = { href: '', download: '', click: jest.fn() };
+    canvas = {
+      width: 0,
+      height: 0,
+      getContext: jest.fn(() => ({ drawImage: jest.fn() })),
+      toBlob: jest.fn((cb: (b: unknown) => void) => cb({ arrayBuffer: async () => pixel().buffer })),
+    };
+    jest.spyOn(document, 'createElement').mockImplementation(((tag: string) =>
+      tag === 'canvas' ? canvas : anchor) as unknown as typeof document.createElement);
+    jest.spyOn(document.body, 'appendChild').mockReturnValue(anchor as unknown as ChildNode);
+    jest.spyOn(document.body, 'removeChild').mockReturnValue(anchor as unknown as ChildNode);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    window.Image = OriginalImage;
+  });
+
+  it('downloads a JSON card named after the character', async () => {
+    await downloadCharacterCard(bot, 'json');
+    const blob = createObjectURL.mock.calls[0][0];
+    expect(blob.type).toBe('application/json');
+    expect(anchor.download).toBe('sherlock-holmes.card.json');
+    expect(anchor.click).toHaveBeenCalled();
+  });
+
+  it('inlines stored portraits and expressions as data URLs in JSON cards', async () => {
+    const stored = `/api/avatar/${'a'.repeat(64)}`;
+    const fetchMock = jest.fn(async () => ({ ok: true, blob: async () => new Blob([pixel()], { type: 'image/png' }) }));
+    global.fetch = fetchMock as unknown as typeof fetch;
+    await downloadCharacterCard({ ...bot, avatarUrl: stored, expressions: { happy: stored, angry: '/silhouette.svg' } }, 'json');
+
+    const card = JSON.parse(await readBlobText(createObjectURL.mock.calls[0][0]));
+    expect(card.bot.avatarUrl).toBe(`data:image/png;base64,${PIXEL_PNG}`);
+    expect(card.bot.expressions).toEqual({ happy: `data:image/png;base64,${PIXEL_PNG}`, angry: '/silhouette.svg' });
+    expect(fetchMock).toHaveBeenCalledWith(stored);
+  });
+
+  it('fails the JSON export when a stored portrait cannot be fetched', async () => {
+    global.fetch = jest.fn(async () => ({ ok: false })) as unknown as typeof fetch;
+    await expect(downloadCharacterCard({ ...bot, avatarUrl: `/api/avatar/${'b'.repeat(64)}` }, 'json'))
+      .rejects.toThrow('Could not load the character portrait');
+    expect(anchor.click).not.toHaveBeenCalled();
+  });
+
+  it('embeds the card directly in a PNG portrait', async () => {
+    await downloadCharacterCard(bot, 'png');
+    expect(createObjectURL.mock.calls[0][0].type).toBe('image/png');
+    expect(anchor.download).toBe('sherlock-holmes.card.png');
+    expect(canvas.toBlob).not.toHaveBeenCalled();
+  });
+
+  it('redraws other portraits as PNG first', async () => {
+    window.Image = class {
+      naturalWidth = 64;
+      naturalHeight = 64;
+      onload: (() => void) | null = null;
+      onerror: (() => void) | null = null;
+      set src(_value: string) {
+        setTimeout(() => this.onload?.(), 0);
+      }
+    } as unknown as typeof Image;
+    await downloadCharacterCard({ ...bot, avatarUrl: '/silhouette.svg' }, 'png');
+    expect(canvas.width).toBe(64);
+    expect(canvas.toBlob).toHaveBeenCalledWith(expect.any(Function), 'image/png');
+    expect(anchor.click).toHaveBeenCalled();
+  });
+
+  it('fails when the portrait cannot be loaded', async () => {
+    window.Image = class {
+      onerror: (() => void) | null = null;
+      set src(_value: string) {
+        setTimeout(() => this.onerror?.(), 0);
+      }
+    } as unknown as typeof Image;
+    await expect(downloadCharacterCard({ ...bot, avatarUrl: '/missing.svg' }, 'png')).rejects.toThrow('Could not load the character portrait');
+    expect(anchor.click).not.toHaveBeenCalled();
+  });
+});
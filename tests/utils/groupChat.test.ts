@@ -0,0 +1,103 @@
+import {
+  buildGroupContextInstructions,
+  findAddressedParticipants,
+  formatSpeakerEntry,
+  getGroupKey,
+  isTurnPolicy,
+  parseSpeakerEntry,
+  planGroupTurn,
+} from '../../src/utils/groupChat';
+
+const names = ['Sherlock Holmes', 'Dr. Watson', 'Irene Adler'];
+
+describe('speaker entries', () => {
+  it('round-trips a speaker entry', () => {
+    const entry = formatSpeakerEntry('Dr. Watson', 'Quite so.\nIndeed.');
+    expect(entry).toBe('[Dr. Watson]: Quite so.\nIndeed.');
+    expect(parseSpeakerEntry(entry)).toEqual({ speaker: 'Dr. Watson', text: 'Quite so.\nIndeed.' });
+  });
+
+  it('returns null for User:/Bot: entries', () => {
+    expect(parseSpeakerEntry('User: hi')).toBeNull();
+    expect(parseSpeakerEntry('Bot: hello')).toBeNull();
+  });
+});
+
+describe('getGroupKey', () => {
+  it('is independent of join order', () => {
+    expect(getGroupKey([{ name: 'B' }, { name: 'A' }])).toBe('A & B');
+    expect(getGroupKey([{ name: 'A' }, { name: 'B' }])).toBe('A & B');
+  });
+});
+
+describe('isTurnPolicy', () => {
+  it('accepts known policies only', () => {
+    expect(isTurnPolicy('addressed')).toBe(true);
+    expect(isTurnPolicy('loudest')).toBe(false);
+    expect(isTurnPolicy(undefined)).toBe(false);
+  });
+});
+
+describe('findAddressedParticipants', () => {
+  it('matches full and first names in order of mention', () => {
+    expect(findAddressedParticipants('Irene, what does Sherlock Holmes think?', names)).toEqual([
+      'Irene Adler',
+      'Sherlock Holmes',
+    ]);
+  });
+
+  it('matches on word boundaries only', () => {
+    expect(findAddressedParticipants('I love ireneadler fan art', names)).toEqual([]);
+  });
+
+  it('handles names with punctuation', () => {
+    expect(findAddressedParticipants('dr. watson, your view?', names)).toEqual(['Dr. Watson']);
+  });
+});
+
+describe('planGroupTurn', () => {
+  it('round-robin rotates to start after the last speaker', () => {
+    expect(planGroupTurn({ participants: names, userMessage: 'hi', lastSpeaker: 'Dr. Watson', policy: 'round-robin' }))
+      .toEqual(['Irene Adler', 'Sherlock Holmes', 'Dr. Watson']);
+  });
+
+  it('round-robin starts at the first seat without a last speaker', () => {
+    expect(planGroupTurn({ participants: names, userMessage: 'hi', lastSpeaker: null, policy: 'round-robin', maxTurns: 2 }))
+      .toEqual(['Sherlock Holmes', 'Dr. Watson']);
+  });
+
+  it('addressed picks the named characters', () => {
+    expect(planGroupTurn({ participants: names, userMessage: 'Watson, thoughts?', lastSpeaker: null, policy: 'addressed' }))
+      .toEqual(['Dr. Watson']);
+  });
+
+  it('addressed falls back to the next character in rotation', () => {
+    expect(planGroupTurn({ participants: names, userMessage: '', lastSpeaker: 'Sherlock Holmes', policy: 'addressed' }))
+      .toEqual(['Dr. Watson']);
+  });
+
+  it('random never lets the last speaker open the round', () => {
+    const plan = planGroupTurn({
+      participants: names,
+      userMessage: 'hi',
+      lastSpeaker: 'Sherlock Holmes',
+      policy: 'random',
+      random: () => 0.999,
+    });
+    expect(plan).toHaveLength(3);
+    expect(plan[0]).not.toBe('Sherlock Holmes');
+    expect([...plan].sort()).toEqual([...names].sort());
+  });
+
+  it('returns an empty plan without participants', () => {
+    expect(planGroupTurn({ participants: [], userMessage: 'hi', lastSpeaker: null, policy: 'round-robin' })).toEqual([]);
+  });
+});
+
+describe('buildGroupContextInstructions', () => {
+  it('names the speaker and the other characters', () => {
+    const text = buildGroupContextInstructions('Dr. Watson', names);
+    expect(text).toContain('You are Dr. Watson');
+    expect(text).toContain('Sherlock Holmes, Irene Adler');
+  });
+});
@@ -0,0 +1,82 @@
+/** @jest-environment node */
+
+import {
+  createPlaceholderImageProvider,
+  getImageProvider,
+  getImageProviderName,
+  setImageProvider,
+} from '../../../src/utils/imageGen';
+import { createPlaceholderSvg, getInitials, getPlaceholderPalette } from '../../../src/utils/imageGen/placeholderProvider';
+
+describe('placeholder provider', () => {
+  const svgOf = (dataUrl: string | null) => Buffer.from(String(dataUrl).split(',')[1], 'base64').toString();
+
+  it('draws the same initials and colours for the same name', async () => {
+    const provider = createPlaceholderImageProvider();
+    const first = await provider.generate({ prompt: 'A detective', subject: 'Sherlock Holmes' });
+    const second = await provider.generate({ prompt: 'Something else entirely', subject: 'Sherlock Holmes' });
+
+    expect(first).toMatch(/^data:image\/svg\+xml;base64,/);
+    expect(second).toBe(first);
+    expect(svgOf(first)).toContain('>SH</text>');
+    for (const colour of getPlaceholderPalette('Sherlock Holmes')) expect(svgOf(first)).toContain(colour);
+  });
+
+  it('seeds the palette from the name', () => {
+    expect(getPlaceholderPalette('Gandalf')).toEqual(getPlaceholderPalette('  gandalf '));
+    expect(getPlaceholderPalette('Gandalf')).not.toEqual(getPlaceholderPalette('Frodo'));
+  });
+
+  it('takes the initials of the first and last words', () => {
+    expect(getInitials('Gandalf')).toBe('G');
+    expect(getInitials('Jean-Luc Picard')).toBe('JP');
+    expect(getInitials('Ludwig van Beethoven')).toBe('LB');
+    expect(getInitials('émile zola')).toBe('ÉZ');
+    expect(getInitials('  ')).toBe('?');
+  });
+
+  it('draws a square SVG portrait', () => {
+    expect(createPlaceholderSvg('Gandalf')).toMatch(/^<svg [^>]*width="512" height="512"/);
+  });
+});
+
+describe('getImageProvider', () => {
+  const OLD_ENV = process.env;
+  beforeEach(() => {
+    process.env = { ...OLD_ENV };
+    delete process.env.IMAGE_PROVIDER;
+    delete process.env.GOOGLE_CLOUD_PROJECT;
+    setImageProvider(null);
+  });
+  afterAll(() => {
+    process.env = OLD_ENV;
+    setImageProvider(null);
+  });
+
+  it('uses Gemini with a Google Cloud project and the placeholder without one', () => {
+    expect(getImageProviderName()).toBe('placeholder');
+    process.env.GOOGLE_CLOUD_PROJECT = 'my-project';
+    expect(getImageProviderName()).toBe('gemini');
+  });
+
+  it('selects the provider named by IMAGE_PROVIDER and caches it', () => {
+    process.env.IMAGE_PROVIDER = 'openai-compatible';
+    const provider = getImageProvider();
+    expect(provider.name).toBe('openai-compatible');
+    expect(getImageProvider()).toBe(provider);
+
+    setImageProvider(null);
+    process.env.IMAGE_PROVIDER = ' Local ';
+    expect(getImageProvider().name).toBe('local');
+
+    setImageProvider(null);
+    process.env.IMAGE_PROVIDER = 'midjourney';
+    expect(getImageProvider().name).toBe('placeholder');
+  });
+
+  it('prefers an explicitly registered provider', () => {
+    const stub = { name: 'placeholder' as const, generate: jest.fn() };
+    setImageProvider(stub);
+    expect(getImageProvider()).toBe(stub);
+  });
+});
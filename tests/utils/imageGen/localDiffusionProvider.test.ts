@@ -0,0 +1,110 @@
+/** @jest-environment node */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createLocalDiffusionProvider, fillWorkflow } from '../../../src/utils/imageGen/localDiffusionProvider';
+
+const json = (body: unknown) => ({ ok: true, json: async () => body });
+
+describe('createLocalDiffusionProvider', () => {
+  const originalFetch = global.fetch;
+  let mockFetch: jest.Mock;
+  beforeEach(() => {
+    mockFetch = jest.fn();
+    global.fetch = mockFetch as unknown as typeof fetch;
+  });
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  describe('sd-webui', () => {
+    it('paints from the prompt with txt2img', async () => {
+      mockFetch.mockResolvedValue(json({ images: ['cG5n'] }));
+      const provider = createLocalDiffusionProvider({ backend: 'sd-webui', size: 512 });
+
+      await expect(provider.generate({ prompt: 'A wizard', subject: 'Gandalf' })).resolves.toBe('data:image/png;base64,cG5n');
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe('http://127.0.0.1:7860/sdapi/v1/txt2img');
+      expect(JSON.parse(init.body)).toEqual({ prompt: 'A wizard', width: 512, height: 512, steps: 25 });
+    });
+
+    it('repaints a reference image with img2img', async () => {
+      mockFetch.mockResolvedValue(json({ images: ['ZWRpdA=='] }));
+      const provider = createLocalDiffusionProvider({ backend: 'sd-webui', baseUrl: 'http://gpu-box:7860/' });
+
+      await provider.generate({ prompt: 'Now angry', subject: 'Gandalf', reference: 'data:image/png;base64,aW1n' });
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe('http://gpu-box:7860/sdapi/v1/img2img');
+      expect(JSON.parse(init.body)).toEqual(expect.objectContaining({ init_images: ['aW1n'], denoising_strength: 0.5 }));
+    });
+
+    it('reports HTTP errors and missing images', async () => {
+      const provider = createLocalDiffusionProvider({ backend: 'sd-webui' });
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 500 });
+      await expect(provider.generate({ prompt: 'p', subject: 's' })).rejects.toThrow('HTTP 500');
+      mockFetch.mockResolvedValueOnce(json({ images: [] }));
+      await expect(provider.generate({ prompt: 'p', subject: 's' })).resolves.toBeNull();
+    });
+  });
+
+  describe('comfyui', () => {
+    let dir: string;
+    let workflow: string;
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'comfyui-'));
+      workflow = path.join(dir, 'workflow.json');
+      fs.writeFileSync(workflow, JSON.stringify({
+        '3': { class_type: 'KSampler', inputs: { seed: '{{seed}}', steps: 20 } },
+        '6': { class_type: 'CLIPTextEncode', inputs: { text: '{{prompt}}', clip: ['4', 1] } },
+      }));
+    });
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('queues the workflow, waits for it and downloads the first image', async () => {
+      mockFetch
+        .mockResolvedValueOnce(json({ prompt_id: 'p1' }))
+        .mockResolvedValueOnce(json({}))
+        .mockResolvedValueOnce(json({ p1: { outputs: { '9': { images: [{ filename: 'ComfyUI_0001.png', subfolder: '', type: 'output' }] } } } }))
+        .mockResolvedValueOnce({ ok: true, headers: new Headers({ 'content-type': 'image/png' }), arrayBuffer: async () => Buffer.from('png') });
+      const provider = createLocalDiffusionProvider({ backend: 'comfyui', workflow, pollIntervalMs: 0 });
+
+      const result = await provider.generate({ prompt: 'A wizard', subject: 'Gandalf', reference: 'data:image/png;base64,aW1n' });
+
+      expect(result).toBe(`data:image/png;base64,${Buffer.from('png').toString('base64')}`);
+      const queued = JSON.parse(mockFetch.mock.calls[0][1].body).prompt;
+      expect(mockFetch.mock.calls[0][0]).toBe('http://127.0.0.1:8188/prompt');
+      expect(queued['6'].inputs).toEqual({ text: 'A wizard', clip: ['4', 1] });
+      expect(queued['3'].inputs.seed).toEqual(expect.any(Number));
+      expect(mockFetch.mock.calls[1][0]).toBe('http://127.0.0.1:8188/history/p1');
+      expect(mockFetch.mock.calls[3][0]).toBe('http://127.0.0.1:8188/view?filename=ComfyUI_0001.png&subfolder=&type=output');
+    });
+
+    it('gives up when the image takes too long', async () => {
+      mockFetch.mockResolvedValueOnce(json({ prompt_id: 'p1' })).mockResolvedValue(json({}));
+      const provider = createLocalDiffusionProvider({ backend: 'comfyui', workflow, pollIntervalMs: 0, timeoutMs: 0 });
+      await expect(provider.generate({ prompt: 'p', subject: 's' })).rejects.toThrow('did not finish');
+    });
+
+    it('needs a workflow and a queued prompt', async () => {
+      await expect(createLocalDiffusionProvider({ backend: 'comfyui' }).generate({ prompt: 'p', subject: 's' })).rejects.toThrow('workflow');
+      mockFetch.mockResolvedValueOnce(json({ error: 'invalid prompt' }));
+      await expect(createLocalDiffusionProvider({ backend: 'comfyui', workflow }).generate({ prompt: 'p', subject: 's' })).rejects.toThrow('did not queue');
+    });
+
+    it('returns null when the workflow saved no image', async () => {
+      mockFetch.mockResolvedValueOnce(json({ prompt_id: 'p1' })).mockResolvedValueOnce(json({ p1: { outputs: { '9': {} } } }));
+      const provider = createLocalDiffusionProvider({ backend: 'comfyui', workflow, pollIntervalMs: 0 });
+      await expect(provider.generate({ prompt: 'p', subject: 's' })).resolves.toBeNull();
+    });
+  });
+});
+
+describe('fillWorkflow', () => {
+  it('replaces only whole placeholder values', () => {
+    expect(fillWorkflow({ a: ['{{prompt}}', 'keep {{prompt}}'], b: { seed: '{{seed}}' }, c: 3 }, 'hi', 7))
+      .toEqual({ a: ['hi', 'keep {{prompt}}'], b: { seed: 7 }, c: 3 });
+  });
+});
@@ -0,0 +1,67 @@
+/** @jest-environment node */
+
+import { createOpenAiCompatibleImageProvider } from '../../../src/utils/imageGen/openAiCompatibleProvider';
+
+describe('createOpenAiCompatibleImageProvider', () => {
+  const originalFetch = global.fetch;
+  let mockFetch: jest.Mock;
+  beforeEach(() => {
+    mockFetch = jest.fn();
+    global.fetch = mockFetch as unknown as typeof fetch;
+  });
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('posts a generation request and returns the base64 image', async () => {
+    mockFetch.mockResolvedValue({ ok: true, json: async () => ({ data: [{ b64_json: 'aW1n' }] }) });
+    const provider = createOpenAiCompatibleImageProvider({ baseUrl: 'https://api.openai.com/v1/', apiKey: 'secret', model: 'gpt-image-1' });
+
+    await expect(provider.generate({ prompt: 'A wizard', subject: 'Gandalf' })).resolves.toBe('data:image/png;base64,aW1n');
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('https://api.openai.com/v1/images/generations');
+    expect(init.headers.Authorization).toBe('Bearer secret');
+    expect(JSON.parse(init.body)).toEqual({ model: 'gpt-image-1', prompt: 'A wizard', n: 1, size: '1024x1024' });
+  });
+
+  it('downloads images returned as URLs', async () => {
+    mockFetch
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ data: [{ url: 'https://images.example/1.webp' }] }) })
+      .mockResolvedValueOnce({ ok: true, headers: new Headers({ 'content-type': 'image/webp' }), arrayBuffer: async () => Buffer.from('webp') });
+    const provider = createOpenAiCompatibleImageProvider({ baseUrl: 'http://localhost:8080/v1', model: 'sd', size: 512 });
+
+    await expect(provider.generate({ prompt: 'A wizard', subject: 'Gandalf' })).resolves.toBe(`data:image/webp;base64,${Buffer.from('webp').toString('base64')}`);
+    expect(mockFetch.mock.calls[1][0]).toBe('https://images.example/1.webp');
+    expect(mockFetch.mock.calls[0][1].headers.Authorization).toBeUndefined();
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).size).toBe('512x512');
+  });
+
+  it('repaints a reference image through the edits endpoint', async () => {
+    mockFetch.mockResolvedValue({ ok: true, json: async () => ({ data: [{ b64_json: 'ZWRpdA==' }] }) });
+    const provider = createOpenAiCompatibleImageProvider({ baseUrl: 'http://localhost:8080/v1', model: 'gpt-image-1' });
+
+    const result = await provider.generate({ prompt: 'Now smiling', subject: 'Gandalf', reference: 'data:image/png;base64,aW1n' });
+    expect(result).toBe('data:image/png;base64,ZWRpdA==');
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('http://localhost:8080/v1/images/edits');
+    const form = init.body as FormData;
+    expect(form.get('prompt')).toBe('Now smiling');
+    const image = form.get('image') as Blob;
+    expect(image.type).toBe('image/png');
+    expect(Buffer.from(await image.arrayBuffer()).toString()).toBe('img');
+  });
+
+  it('reports HTTP errors and empty responses', async () => {
+    const provider = createOpenAiCompatibleImageProvider({ baseUrl: 'http://localhost:8080/v1', model: 'm' });
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 400 });
+    await expect(provider.generate({ prompt: 'p', subject: 's' })).rejects.toThrow('HTTP 400');
+
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ data: [] }) });
+    await expect(provider.generate({ prompt: 'p', subject: 's' })).resolves.toBeNull();
+
+    mockFetch
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ data: [{ url: 'https://images.example/gone.png' }] }) })
+      .mockResolvedValueOnce({ ok: false, status: 404 });
+    await expect(provider.generate({ prompt: 'p', subject: 's' })).rejects.toThrow('HTTP 404');
+  });
+});
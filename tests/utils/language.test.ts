@@ -0,0 +1,56 @@
+import {
+  LANGUAGES,
+  buildLanguageInstructions,
+  getLanguage,
+  isVoiceInLanguage,
+  parseLanguage,
+  translate,
+} from '../../src/utils/language';
+import { UI_STRINGS } from '../../src/data/uiStrings';
+
+describe('conversation languages', () => {
+  it('parses language codes and locales', () => {
+    expect(parseLanguage('de')).toBe('de');
+    expect(parseLanguage(' FR-fr ')).toBe('fr');
+    expect(parseLanguage('ja')).toBeNull();
+    expect(parseLanguage(42)).toBeNull();
+    expect(getLanguage('pt').voiceLocale).toBe('pt-BR');
+  });
+
+  it('matches voice locales to a language', () => {
+    expect(isVoiceInLanguage('de-AT', 'de')).toBe(true);
+    expect(isVoiceInLanguage('en-GB', 'de')).toBe(false);
+    expect(isVoiceInLanguage(undefined, 'en')).toBe(false);
+  });
+
+  it('only adds prompt instructions for languages other than English', () => {
+    expect(buildLanguageInstructions(null)).toBe('');
+    expect(buildLanguageInstructions('en')).toBe('');
+    expect(buildLanguageInstructions('fr')).toContain('Always reply in French');
+  });
+});
+
+describe('translate', () => {
+  it('returns the string in the chosen language and fills placeholders', () => {
+    expect(translate('de', 'chatSend')).toBe('Senden');
+    expect(translate('en', 'introHow', { dice: 'DICE' })).toContain('click the DICE button');
+    expect(translate('en', 'introHow')).toContain('{arrow}');
+  });
+
+  it('falls back to English for missing translations', () => {
+    const saved = UI_STRINGS.it.chatSend;
+    delete UI_STRINGS.it.chatSend;
+    try {
+      expect(translate('it', 'chatSend')).toBe('Send');
+    } finally {
+      UI_STRINGS.it.chatSend = saved;
+    }
+  });
+
+  it('translates every interface string into every language', () => {
+    const keys = Object.keys(UI_STRINGS.en).sort();
+    for (const { code } of LANGUAGES) {
+      expect(Object.keys(UI_STRINGS[code]).sort()).toEqual(keys);
+    }
+  });
+});
@@ -0,0 +1,61 @@
+import type Anthropic from '@anthropic-ai/sdk';
+jest.mock('../../../src/utils/anthropicClient', () => ({ __esModule: true, default: { messages: {} } }));
+
+import { createAnthropicProvider } from '../../../src/utils/llm/anthropicProvider';
+
+describe('createAnthropicProvider', () => {
+  const request = {
+    tier: 'text-simple' as const,
+    system: 'Be brief.',
+    messages: [{ role: 'user' as const, content: 'Hello' }],
+    maxTokens: 50,
+    temperature: 0.3,
+    stopSequences: ['User:'],
+  };
+
+  function makeClient(overrides: Record<string, unknown>) {
+    return { messages: { create: jest.fn(), stream: jest.fn(), ...overrides } } as unknown as Anthropic & {
+      messages: { create: jest.Mock; stream: jest.Mock };
+    };
+  }
+
+  it('maps requests to the Messages API and returns the first text block', async () => {
+    const client = makeClient({
+      create: jest.fn().mockResolvedValue({
+        content: [{ type: 'text', text: 'Hi.' }],
+        usage: { input_tokens: 7, output_tokens: 2 },
+      }),
+    });
+    const result = await createAnthropicProvider(client).complete(request);
+    expect(result).toEqual({ text: 'Hi.', model: 'claude-haiku-4-5-20251001', usage: { inputTokens: 7, outputTokens: 2 } });
+    expect(client.messages.create).toHaveBeenCalledWith({
+      model: 'claude-haiku-4-5-20251001',
+      system: 'Be brief.',
+      messages: request.messages,
+      max_tokens: 50,
+      temperature: 0.3,
+      stop_sequences: ['User:'],
+    });
+  });
+
+  it('returns empty text when the response has no text block', async () => {
+    const client = makeClient({ create: jest.fn().mockResolvedValue({ content: [{ type: 'tool_use' }] }) });
+    const result = await createAnthropicProvider(client).complete({ tier: 'text', messages: request.messages, maxTokens: 5 });
+    expect(result.text).toBe('');
+    expect(result.usage).toBeUndefined();
+    expect(client.messages.create.mock.calls[0][0]).not.toHaveProperty('system');
+  });
+
+  it('streams text deltas only', async () => {
+    async function* events() {
+      yield { type: 'message_start' };
+      yield { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hel' } };
+      yield { type: 'content_block_delta', delta: { type: 'input_json_delta', partial_json: '{}' } };
+      yield { type: 'content_block_delta', delta: { type: 'text_delta', text: 'lo' } };
+    }
+    const client = makeClient({ stream: jest.fn(() => events()) });
+    const chunks: string[] = [];
+    for await (const chunk of createAnthropicProvider(client).stream(request)) chunks.push(chunk);
+    expect(chunks).toEqual(['Hel', 'lo']);
+  });
+});
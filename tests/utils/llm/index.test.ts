@@ -0,0 +1,59 @@
+jest.mock('../../../src/utils/anthropicClient', () => ({ __esModule: true, default: { messages: {} } }));
+
+import { createFakeProvider, getLlmProvider, setLlmProvider } from '../../../src/utils/llm';
+
+describe('fake provider', () => {
+  it('echoes the last user message by default', async () => {
+    const provider = createFakeProvider();
+    const result = await provider.complete({
+      tier: 'text',
+      system: 'System prompt',
+      messages: [{ role: 'user', content: 'first' }, { role: 'assistant', content: 'reply' }, { role: 'user', content: 'Hello there' }],
+      maxTokens: 10,
+    });
+    expect(result).toEqual({ text: '[text] Hello there', model: 'fake-text', usage: { inputTokens: 10, outputTokens: 5 } });
+  });
+
+  it('uses a fixed or computed reply and streams it word by word', async () => {
+    const request = { tier: 'text-simple' as const, messages: [{ role: 'user' as const, content: 'ping' }], maxTokens: 10 };
+    expect((await createFakeProvider({ reply: '{"ok":true}' }).complete(request)).text).toBe('{"ok":true}');
+
+    const provider = createFakeProvider({ reply: (req) => `You said ${req.messages[0].content}` });
+    const chunks: string[] = [];
+    for await (const chunk of provider.stream(request)) chunks.push(chunk);
+    expect(chunks).toEqual(['You ', 'said ', 'ping']);
+  });
+});
+
+describe('getLlmProvider', () => {
+  const OLD_ENV = process.env;
+  beforeEach(() => {
+    process.env = { ...OLD_ENV };
+    setLlmProvider(null);
+  });
+  afterAll(() => {
+    process.env = OLD_ENV;
+    setLlmProvider(null);
+  });
+
+  it('selects the provider named by LLM_PROVIDER and caches it', () => {
+    process.env.LLM_PROVIDER = 'fake';
+    const provider = getLlmProvider();
+    expect(provider.name).toBe('fake');
+    expect(getLlmProvider()).toBe(provider);
+
+    setLlmProvider(null);
+    process.env.LLM_PROVIDER = 'openai-compatible';
+    expect(getLlmProvider().name).toBe('openai-compatible');
+
+    setLlmProvider(null);
+    delete process.env.LLM_PROVIDER;
+    expect(getLlmProvider().name).toBe('anthropic');
+  });
+
+  it('prefers an explicitly registered provider', () => {
+    const custom = createFakeProvider({ reply: 'custom' });
+    setLlmProvider(custom);
+    expect(getLlmProvider()).toBe(custom);
+  });
+});
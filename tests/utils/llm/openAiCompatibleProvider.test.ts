@@ -0,0 +1,91 @@
+import { createOpenAiCompatibleProvider } from '../../../src/utils/llm/openAiCompatibleProvider';
+
+function streamBody(chunks: string[]) {
+  const queue = chunks.map((c) => Buffer.from(c));
+  return {
+    getReader: () => ({
+      read: async () => (queue.length ? { done: false, value: queue.shift() } : { done: true, value: undefined }),
+    }),
+  };
+}
+
+describe('createOpenAiCompatibleProvider', () => {
+  const originalFetch = global.fetch;
+  let mockFetch: jest.Mock;
+  beforeEach(() => {
+    mockFetch = jest.fn();
+    global.fetch = mockFetch as unknown as typeof fetch;
+  });
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  const request = {
+    tier: 'text' as const,
+    system: 'You are Gandalf.',
+    messages: [{ role: 'user' as const, content: 'Hello' }],
+    maxTokens: 100,
+    temperature: 0.7,
+    stopSequences: ['\nA:', '\nB:', '\nC:', 'User:', 'Bot:'],
+  };
+
+  it('posts a chat completion and maps the reply and usage', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: 'Well met.' } }], usage: { prompt_tokens: 12, completion_tokens: 3 } }),
+    });
+    const provider = createOpenAiCompatibleProvider({ baseUrl: 'http://localhost:11434/v1/', apiKey: 'secret', models: { text: 'llama3.1' } });
+
+    const result = await provider.complete(request);
+
+    expect(result).toEqual({ text: 'Well met.', model: 'llama3.1', usage: { inputTokens: 12, outputTokens: 3 } });
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(init.headers.Authorization).toBe('Bearer secret');
+    expect(JSON.parse(init.body)).toEqual({
+      model: 'llama3.1',
+      messages: [{ role: 'system', content: 'You are Gandalf.' }, { role: 'user', content: 'Hello' }],
+      max_tokens: 100,
+      temperature: 0.7,
+      stop: ['\nA:', '\nB:', '\nC:', 'User:'],
+    });
+  });
+
+  it('falls back to the routed model and tolerates a missing reply', async () => {
+    mockFetch.mockResolvedValue({ ok: true, json: async () => ({}) });
+    const provider = createOpenAiCompatibleProvider({ baseUrl: 'http://localhost:8080/v1' });
+    const result = await provider.complete({ tier: 'text-simple', messages: [{ role: 'user', content: 'ping' }], maxTokens: 5 });
+    expect(result).toEqual({ text: '', model: provider.getModel('text-simple') });
+    expect(mockFetch.mock.calls[0][1].headers.Authorization).toBeUndefined();
+  });
+
+  it('throws on HTTP errors', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 503 });
+    const provider = createOpenAiCompatibleProvider({ baseUrl: 'http://localhost:8080/v1' });
+    await expect(provider.complete(request)).rejects.toThrow('LLM request failed: HTTP 503');
+  });
+
+  it('streams content deltas split across network chunks', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      body: streamBody([
+        'data: {"choices":[{"delta":{"role":"assistant"}}]}\n\ndata: {"choices":[{"delta":{"content":"Well "}}]}\n\n',
+        'data: {"choices":[{"delta":{"cont',
+        'ent":"met."}}]}\n\n: keep-alive\n\ndata: [DONE]\n\n',
+      ]),
+    });
+    const provider = createOpenAiCompatibleProvider({ baseUrl: 'http://localhost:8080/v1' });
+
+    const chunks: string[] = [];
+    for await (const chunk of provider.stream(request)) chunks.push(chunk);
+
+    expect(chunks).toEqual(['Well ', 'met.']);
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).stream).toBe(true);
+  });
+
+  it('rejects a stream without a body', async () => {
+    mockFetch.mockResolvedValue({ ok: true, body: null });
+    const provider = createOpenAiCompatibleProvider({ baseUrl: 'http://localhost:8080/v1' });
+    await expect(provider.stream(request)[Symbol.asyncIterator]().next()).rejects.toThrow('LLM stream has no body');
+  });
+});
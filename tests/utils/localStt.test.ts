@@ -0,0 +1,84 @@
+/**
+ * @jest-environment node
+ */
+
+import { EventEmitter } from 'events';
+import fs from 'fs';
+
+const mockSpawn = jest.fn();
+jest.mock('child_process', () => ({ spawn: (...args: unknown[]) => mockSpawn(...args) }));
+
+import { createWhisperSttEngine, parseWhisperOutput, whisperLanguage } from '../../src/utils/localStt';
+
+function fakeProcess(exitCode: number | null, stdout = '', stderr = '') {
+  const child = Object.assign(new EventEmitter(), {
+    stdout: new EventEmitter(),
+    stderr: new EventEmitter(),
+    kill: jest.fn(),
+  });
+  if (exitCode !== null) {
+    setImmediate(() => {
+      if (stdout) child.stdout.emit('data', stdout);
+      if (stderr) child.stderr.emit('data', stderr);
+      child.emit('close', exitCode);
+    });
+  }
+  return child;
+}
+
+const audio = new Uint8Array([1, 2, 3]);
+
+describe('whisper helpers', () => {
+  it('drops non-speech markers and joins lines', () => {
+    expect(parseWhisperOutput(' Hello there.\n [BLANK_AUDIO]\n (wind blowing) General Kenobi!\n')).toBe('Hello there. General Kenobi!');
+    expect(parseWhisperOutput('[BLANK_AUDIO]\n')).toBe('');
+  });
+
+  it('maps language tags to whisper codes', () => {
+    expect(whisperLanguage('en-GB')).toBe('en');
+    expect(whisperLanguage('FR')).toBe('fr');
+    expect(whisperLanguage(undefined)).toBe('auto');
+    expect(whisperLanguage('not a tag')).toBe('auto');
+  });
+});
+
+describe('createWhisperSttEngine', () => {
+  beforeEach(() => mockSpawn.mockReset());
+
+  it('transcribes a temporary WAV file and removes it', async () => {
+    mockSpawn.mockReturnValue(fakeProcess(0, ' Elementary.\n'));
+    const text = await createWhisperSttEngine({ model: '/models/ggml-base.bin' }).transcribe({ audio, language: 'en-US' });
+
+    expect(text).toBe('Elementary.');
+    const [binary, args] = mockSpawn.mock.calls[0] as [string, string[]];
+    expect(binary).toBe('whisper-cli');
+    expect(args).toEqual(expect.arrayContaining(['-m', '/models/ggml-base.bin', '-l', 'en', '--no-timestamps']));
+    const filePath = args[args.indexOf('-f') + 1];
+    expect(filePath).toMatch(/stt-.+\.wav$/);
+    expect(fs.existsSync(filePath)).toBe(false);
+  });
+
+  it('requires a model and reports failures', async () => {
+    await expect(createWhisperSttEngine().transcribe({ audio })).rejects.toThrow('STT_WHISPER_MODEL');
+
+    mockSpawn.mockReturnValue(fakeProcess(2, '', 'failed to read audio'));
+    await expect(createWhisperSttEngine({ model: 'm.bin', binary: '/opt/whisper' }).transcribe({ audio }))
+      .rejects.toThrow('/opt/whisper exited with code 2: failed to read audio');
+
+    const missing = fakeProcess(null);
+    mockSpawn.mockReturnValue(missing);
+    setImmediate(() => missing.emit('error', new Error('spawn whisper-cli ENOENT')));
+    await expect(createWhisperSttEngine({ model: 'm.bin' }).transcribe({ audio })).rejects.toThrow('ENOENT');
+  });
+
+  it('kills a process that hangs', async () => {
+    const hung = fakeProcess(null);
+    mockSpawn.mockReturnValue(hung);
+    jest.useFakeTimers();
+    const done = createWhisperSttEngine({ model: 'm.bin', timeoutMs: 1000 }).transcribe({ audio });
+    jest.advanceTimersByTime(1000);
+    await expect(done).rejects.toThrow('timed out');
+    expect(hung.kill).toHaveBeenCalled();
+    jest.useRealTimers();
+  });
+});
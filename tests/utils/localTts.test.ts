@@ -0,0 +1,113 @@
+/**
+ * @jest-environment node
+ */
+
+import { EventEmitter } from 'events';
+
+const mockSpawn = jest.fn();
+jest.mock('child_process', () => ({ spawn: (...args: unknown[]) => mockSpawn(...args) }));
+
+import { createLocalTtsEngine, espeakVoice, espeakVoices, piperVoice, readProsody, toPlainText } from '../../src/utils/localTts';
+
+function fakeProcess(exitCode: number | null, stderr = '') {
+  const child = Object.assign(new EventEmitter(), {
+    stderr: new EventEmitter(),
+    stdin: { end: jest.fn() },
+    kill: jest.fn(),
+  });
+  if (exitCode !== null) {
+    setImmediate(() => {
+      if (stderr) child.stderr.emit('data', stderr);
+      child.emit('close', exitCode);
+    });
+  }
+  return child;
+}
+
+const SSML = '<speak><prosody pitch="-4st" rate="120%"> Fish &amp; chips &lt;3 </prosody></speak>';
+const request = { text: SSML, ssml: true, voice: { languageCode: 'en-GB', ssmlGender: 2 }, audioConfig: {}, filePath: '/tmp/a.mp3' };
+
+describe('local TTS helpers', () => {
+  it('strips SSML and decodes entities', () => {
+    expect(toPlainText(SSML, true)).toBe('Fish & chips <3');
+    expect(toPlainText('  <b>as is</b> ', false)).toBe('<b>as is</b>');
+    expect(toPlainText('<speak>Meet <sub alias="Her-FEE-stus">Hephaestus</sub>.<break time="300ms"/>Now.</speak>', true))
+      .toBe('Meet Her-FEE-stus . Now.');
+  });
+
+  it('reads pitch and rate from prosody', () => {
+    expect(readProsody(SSML, true)).toEqual({ pitch: -4, rate: 1.2 });
+    expect(readProsody('<speak>hi</speak>', true)).toEqual({ pitch: 0, rate: 1 });
+    expect(readProsody('plain', false)).toEqual({ pitch: 0, rate: 1 });
+  });
+
+  it('maps language and gender to eSpeak NG voices', () => {
+    expect(espeakVoice('en-GB', 2)).toBe('en-gb+f3');
+    expect(espeakVoice('en-AU', 'MALE')).toBe('en+m3');
+    expect(espeakVoice('de-DE', 1)).toBe('de+m3');
+    expect(espeakVoice(undefined, undefined)).toBe('en-gb+m3');
+  });
+
+  it('offers a male and female eSpeak NG voice per language', () => {
+    const voices = espeakVoices();
+    expect(voices).toContainEqual({ name: 'espeak-fr-FR-female', languageCodes: ['fr-FR'], ssmlGender: 2 });
+    expect(voices.filter((v) => v.languageCodes[0] === 'en-GB').map((v) => v.ssmlGender)).toEqual([1, 2]);
+  });
+
+  it('names a Piper voice after its model and reads the language from it', () => {
+    expect(piperVoice('/models/en_GB-alan-medium.onnx')).toEqual({ name: 'en_GB-alan-medium', languageCodes: ['en-GB'], ssmlGender: 0 });
+    expect(piperVoice('custom.onnx').languageCodes).toEqual([]);
+  });
+});
+
+describe('createLocalTtsEngine', () => {
+  beforeEach(() => mockSpawn.mockReset());
+
+  it('runs eSpeak NG with the voice, rate and pitch and pipes the text', async () => {
+    const child = fakeProcess(0);
+    mockSpawn.mockReturnValue(child);
+    await createLocalTtsEngine().synthesize(request);
+    expect(mockSpawn).toHaveBeenCalledWith('espeak-ng', ['-v', 'en-gb+f3', '-s', '210', '-p', '40', '-w', '/tmp/a.mp3', '--stdin'], expect.any(Object));
+    expect(child.stdin.end).toHaveBeenCalledWith('Fish & chips <3');
+  });
+
+  it('runs Piper with a model and speed', async () => {
+    mockSpawn.mockReturnValue(fakeProcess(0));
+    await createLocalTtsEngine({ backend: 'piper', binary: '/opt/piper/piper', piperModel: 'en_GB-alan.onnx' }).synthesize(request);
+    expect(mockSpawn).toHaveBeenCalledWith(
+      '/opt/piper/piper',
+      ['--model', 'en_GB-alan.onnx', '--output_file', '/tmp/a.mp3', '--length_scale', '0.83'],
+      expect.any(Object),
+    );
+    await expect(createLocalTtsEngine({ backend: 'piper' }).synthesize(request)).rejects.toThrow('TTS_PIPER_MODEL');
+  });
+
+  it('lists the voices of the configured backend', async () => {
+    await expect(createLocalTtsEngine().listVoices()).resolves.toEqual(espeakVoices());
+    await expect(createLocalTtsEngine({ backend: 'piper', piperModel: 'en_GB-alan.onnx' }).listVoices()).resolves.toHaveLength(1);
+    await expect(createLocalTtsEngine({ backend: 'piper' }).listVoices()).resolves.toEqual([]);
+  });
+
+  it('reports failures, missing binaries and empty text', async () => {
+    mockSpawn.mockReturnValue(fakeProcess(1, 'unknown voice'));
+    await expect(createLocalTtsEngine().synthesize(request)).rejects.toThrow('exited with code 1: unknown voice');
+
+    const missing = fakeProcess(null);
+    mockSpawn.mockReturnValue(missing);
+    setImmediate(() => missing.emit('error', new Error('spawn espeak-ng ENOENT')));
+    await expect(createLocalTtsEngine().healthCheck()).rejects.toThrow('ENOENT');
+
+    await expect(createLocalTtsEngine().synthesize({ ...request, text: '<speak> </speak>' })).rejects.toThrow('Nothing to synthesize');
+  });
+
+  it('kills a process that hangs', async () => {
+    jest.useFakeTimers();
+    const hung = fakeProcess(null);
+    mockSpawn.mockReturnValue(hung);
+    const done = createLocalTtsEngine({ timeoutMs: 1000 }).healthCheck();
+    jest.advanceTimersByTime(1000);
+    await expect(done).rejects.toThrow('timed out');
+    expect(hung.kill).toHaveBeenCalled();
+    jest.useRealTimers();
+  });
+});
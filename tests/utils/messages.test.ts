@@ -0,0 +1,91 @@
+import storage from '../../src/utils/storage';
+import {
+  createMessage,
+  createUserMessage,
+  loadChatHistory,
+  normalizeMessage,
+  normalizeMessages,
+  saveChatHistory,
+} from '../../src/utils/messages';
+import { MESSAGE_SCHEMA_VERSION } from '../../src/types/message';
+
+describe('messages', () => {
+  beforeEach(() => {
+    storage.clearMemoryFallback();
+    localStorage.clear();
+  });
+
+  it('creates messages with an id, timestamp and role', () => {
+    const msg = createUserMessage('hi');
+    expect(msg).toMatchObject({ role: 'user', sender: 'User', text: 'hi' });
+    expect(msg.id).toEqual(expect.any(String));
+    expect(Date.parse(msg.timestamp)).not.toBeNaN();
+    expect(createUserMessage('hi').id).not.toBe(msg.id);
+    expect(createMessage({ role: 'assistant', sender: 'Gandalf', text: 'x', id: 'fixed' }).id).toBe('fixed');
+  });
+
+  it('upgrades legacy messages and infers the role from the sender', () => {
+    expect(normalizeMessage({ sender: 'User', text: 'hi' })).toMatchObject({ role: 'user' });
+    expect(normalizeMessage({ sender: 'Gandalf', text: 'hello', audioFileUrl: '/a.mp3' }))
+      .toMatchObject({ role: 'assistant', sender: 'Gandalf', audioFileUrl: '/a.mp3' });
+    expect(normalizeMessage({ text: 'no sender' })).toBeNull();
+    expect(normalizeMessage(null)).toBeNull();
+  });
+
+  it('keeps existing fields and drops malformed metadata', () => {
+    const msg = {
+      id: 'm1',
+      role: 'assistant',
+      sender: 'User',
+      text: 'a character called User',
+      timestamp: '2026-01-01T00:00:00.000Z',
+      model: 'claude-test',
+      usage: { inputTokens: 10, outputTokens: 5 },
+      requestId: 'req-1',
+    };
+    expect(normalizeMessage(msg)).toEqual(msg);
+    const upgraded = normalizeMessage({ ...msg, role: 'narrator', timestamp: 'soon', usage: { inputTokens: '1' } })!;
+    expect(upgraded.role).toBe('user');
+    expect(upgraded.timestamp).not.toBe('soon');
+    expect(upgraded).not.toHaveProperty('usage');
+  });
+
+  it('keeps a known reply mood only', () => {
+    const msg = { sender: 'Gandalf', role: 'assistant', text: 'Ha!' };
+    expect(normalizeMessage({ ...msg, mood: 'happy' })?.mood).toBe('happy');
+    expect(normalizeMessage({ ...msg, mood: 'smug' })).not.toHaveProperty('mood');
+  });
+
+  it('normalizes arrays and ignores non-arrays', () => {
+    expect(normalizeMessages([{ sender: 'User', text: 'a' }, 42, { text: 'b' }])).toHaveLength(1);
+    expect(normalizeMessages({ sender: 'User', text: 'a' })).toEqual([]);
+  });
+
+  it('migrates a legacy history to the current schema on load', () => {
+    const key = 'chatbot-history-Gandalf';
+    storage.setItem(key, JSON.stringify([{ sender: 'User', text: 'hi' }, { sender: 'Gandalf', text: 'hello' }]));
+    const history = loadChatHistory(key);
+    expect(history.map((m) => m.role)).toEqual(['user', 'assistant']);
+    const stored = storage.getVersionedJSON<unknown[]>(key)!;
+    expect(stored.v).toBe(MESSAGE_SCHEMA_VERSION);
+    expect(stored.payload).toEqual(history);
+    // Ids are stable once migrated
+    expect(loadChatHistory(key)).toEqual(history);
+  });
+
+  it('upgrades histories wrapped by an earlier startup migration', () => {
+    const key = 'chatbot-history-Gandalf';
+    storage.setVersionedJSON(key, [{ sender: 'Gandalf', text: 'hello' }], 1);
+    expect(loadChatHistory(key)[0]).toMatchObject({ role: 'assistant', text: 'hello' });
+    expect(storage.getVersionedJSON(key)!.v).toBe(MESSAGE_SCHEMA_VERSION);
+  });
+
+  it('returns an empty history for missing or corrupt data and round-trips saves', () => {
+    expect(loadChatHistory('chatbot-history-missing')).toEqual([]);
+    storage.setItem('chatbot-history-bad', 'invalid{');
+    expect(loadChatHistory('chatbot-history-bad')).toEqual([]);
+    const messages = [createUserMessage('hi')];
+    saveChatHistory('chatbot-history-saved', messages);
+    expect(loadChatHistory('chatbot-history-saved')).toEqual(messages);
+  });
+});
@@ -0,0 +1,60 @@
+import {
+  MAX_PROFILE_FIELD_LENGTH,
+  RESPONSE_CONSTRAINTS,
+  buildPersonalityPrompt,
+  createEmptyProfile,
+  parsePersonalityProfile,
+} from '../../src/utils/personalityProfile';
+
+const holmes = {
+  speakingStyle: 'formal and articulate',
+  personalityTraits: 'confident, analytical',
+  knowledgeDomains: 'deduction, chemistry',
+  behavioralGuidelines: 'Shows impatience with obvious observations.',
+  quirks: 'Plays the violin when thinking.',
+};
+
+describe('parsePersonalityProfile', () => {
+  it('trims and caps fields, keeping optional ones only when filled', () => {
+    const profile = parsePersonalityProfile({
+      ...holmes,
+      speakingStyle: `  ${'x'.repeat(MAX_PROFILE_FIELD_LENGTH + 10)}  `,
+      scenario: '   ',
+      exampleDialogue: 'User: Hello\nSherlock: You have been in Afghanistan, I perceive.',
+      extra: 'ignored',
+    });
+    expect(profile?.speakingStyle).toHaveLength(MAX_PROFILE_FIELD_LENGTH);
+    expect(profile).not.toHaveProperty('scenario');
+    expect(profile).not.toHaveProperty('extra');
+    expect(profile?.exampleDialogue).toContain('Afghanistan');
+  });
+
+  it('fills missing required fields and rejects non-profiles', () => {
+    expect(parsePersonalityProfile({ quirks: 'Hums.' })).toEqual({ ...createEmptyProfile(), quirks: 'Hums.' });
+    expect(parsePersonalityProfile({ speakingStyle: 5 })).toBeNull();
+    expect(parsePersonalityProfile('text')).toBeNull();
+    expect(parsePersonalityProfile([holmes])).toBeNull();
+  });
+});
+
+describe('buildPersonalityPrompt', () => {
+  it('lays out each field and the response constraints', () => {
+    const prompt = buildPersonalityPrompt('Sherlock Holmes', holmes);
+    expect(prompt.startsWith('You are Sherlock Holmes.')).toBe(true);
+    expect(prompt).toContain('SPEAKING STYLE: formal and articulate');
+    expect(prompt).toContain('QUIRKS: Plays the violin when thinking.');
+    expect(prompt).not.toContain('SETTING');
+    expect(prompt.endsWith(RESPONSE_CONSTRAINTS)).toBe(true);
+  });
+
+  it('adds the setting and example dialogue when present and defaults empty fields', () => {
+    const prompt = buildPersonalityPrompt('Dracula', {
+      ...createEmptyProfile(),
+      scenario: 'A castle in Transylvania.',
+      exampleDialogue: 'User: Hello\nDracula: Welcome to my house!',
+    });
+    expect(prompt).toContain('SPEAKING STYLE: Natural and authentic to character');
+    expect(prompt).toContain('SETTING: A castle in Transylvania.');
+    expect(prompt).toContain('EXAMPLE DIALOGUE (match this voice; do not repeat it verbatim):\nUser: Hello');
+  });
+});
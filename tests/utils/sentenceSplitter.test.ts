@@ -0,0 +1,39 @@
+import { createSentenceSplitter, splitSentences } from '../../src/utils/sentenceSplitter';
+
+describe('splitSentences', () => {
+  it('splits on terminal punctuation and line breaks', () => {
+    expect(splitSentences('Elementary! Is it not? Quite.\nNext line'))
+      .toEqual(['Elementary!', 'Is it not?', 'Quite.', 'Next line']);
+  });
+
+  it('keeps closing quotes and ellipses with their sentence', () => {
+    expect(splitSentences('He said "Run!" Well... I did.')).toEqual(['He said "Run!"', 'Well...', 'I did.']);
+  });
+
+  it('does not split abbreviations, initials, decimals or emotes', () => {
+    expect(splitSentences('Dr. Watson met J. R. Tolkien at 3.5 past. *He smiles. Then nods.* Fine.'))
+      .toEqual(['Dr. Watson met J. R. Tolkien at 3.5 past.', '*He smiles. Then nods.* Fine.']);
+  });
+
+  it('returns nothing for blank text', () => {
+    expect(splitSentences('  \n ')).toEqual([]);
+  });
+});
+
+describe('createSentenceSplitter', () => {
+  it('returns sentences once the text after them arrives', () => {
+    const splitter = createSentenceSplitter();
+    expect(splitter.push('Hello there')).toEqual([]);
+    // "there." could still be followed by more text, so it waits for the space
+    expect(splitter.push('.')).toEqual([]);
+    expect(splitter.push(' How are')).toEqual(['Hello there.']);
+    expect(splitter.push(' you? I am well. And')).toEqual(['How are you?', 'I am well.']);
+    expect(splitter.push(' you')).toEqual([]);
+  });
+
+  it('waits for an emote to close before splitting inside it', () => {
+    const splitter = createSentenceSplitter();
+    expect(splitter.push('*Bows. Smiles')).toEqual([]);
+    expect(splitter.push('.* Welcome. ')).toEqual(['*Bows. Smiles.* Welcome.']);
+  });
+});
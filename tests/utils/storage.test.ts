@@ -33,6 +33,18 @@ describe('storage migration helper', () => {
     expect(migrated!.v).toBe(1); // Version should remain unchanged
   });
 
+  it('upgrades an older versioned record when a transform is provided', () => {
+    const key = 'voiceConfig-Upgrade';
+    const createdAt = '2024-01-01T00:00:00.000Z';
+    storage.setItem(key, JSON.stringify({ v: 1, createdAt, payload: { voice: 'x' } }));
+    const migrated = migrateToVersioned(key, 2, (p) => ({ ...(p as object), upgraded: true }));
+    expect(migrated).toEqual({ v: 2, createdAt, payload: { voice: 'x', upgraded: true } });
+    expect(getVersionedJSON(key)!.v).toBe(2);
+    // Current records are left alone
+    const again = migrateToVersioned(key, 2, () => ({ replaced: true }));
+    expect(again!.payload).toEqual({ voice: 'x', upgraded: true });
+  });
+
   it('returns null for invalid JSON', () => {
     const key = 'voiceConfig-Bad';
     storage.setItem(key, 'not-json');
@@ -0,0 +1,38 @@
+/**
+ * @jest-environment node
+ */
+
+import { getSttEngine, getSttEngineName, isSttEnabled, setSttEngine, transcribeSpeech } from '../../src/utils/stt';
+
+describe('stt engine selection', () => {
+  const original = process.env.STT_ENGINE;
+
+  afterEach(() => {
+    setSttEngine(null);
+    if (original === undefined) delete process.env.STT_ENGINE;
+    else process.env.STT_ENGINE = original;
+  });
+
+  it('is disabled unless STT_ENGINE selects an engine', async () => {
+    delete process.env.STT_ENGINE;
+    expect(getSttEngineName()).toBe('none');
+    expect(isSttEnabled()).toBe(false);
+    await expect(transcribeSpeech({ audio: new Uint8Array() })).rejects.toThrow('disabled');
+
+    process.env.STT_ENGINE = 'bogus';
+    expect(getSttEngineName()).toBe('none');
+  });
+
+  it('creates the whisper engine from the environment', () => {
+    process.env.STT_ENGINE = ' Whisper ';
+    expect(getSttEngine().name).toBe('whisper');
+    expect(isSttEnabled()).toBe(true);
+  });
+
+  it('uses a registered engine', async () => {
+    const transcribe = jest.fn().mockResolvedValue('hello');
+    setSttEngine({ name: 'whisper', transcribe });
+    await expect(transcribeSpeech({ audio: new Uint8Array([1]), language: 'en' })).resolves.toBe('hello');
+    expect(transcribe).toHaveBeenCalledWith({ audio: new Uint8Array([1]), language: 'en' });
+  });
+});
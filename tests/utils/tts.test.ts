@@ -0,0 +1,155 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs';
+
+const mockSynthesizeSpeech = jest.fn();
+const mockListVoices = jest.fn();
+jest.mock('@google-cloud/text-to-speech', () => ({
+  __esModule: true,
+  default: { TextToSpeechClient: jest.fn(() => ({ synthesizeSpeech: mockSynthesizeSpeech, listVoices: mockListVoices })) },
+  protos: {
+    google: { cloud: { texttospeech: { v1: { SsmlVoiceGender: { SSML_VOICE_GENDER_UNSPECIFIED: 0, MALE: 1, FEMALE: 2 }, AudioEncoding: { MP3: 2 } } } } },
+  },
+}));
+
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { error: jest.fn(), info: jest.fn(), warn: jest.fn() },
+  sanitizeLogMeta: (m: unknown) => m,
+}));
+
+import {
+  __resetSingletonsForTest,
+  createGoogleTtsEngine,
+  createSilentTtsEngine,
+  getTtsEngine,
+  getTtsEngineName,
+  isTtsEnabled,
+  setTtsEngine,
+  synthesizeSpeechToFile,
+  type TtsEngine,
+} from '../../src/utils/tts';
+
+describe('tts engine selection', () => {
+  const OLD_ENV = process.env;
+  beforeEach(() => {
+    process.env = { ...OLD_ENV };
+    delete process.env.TTS_ENGINE;
+    delete process.env.GOOGLE_APPLICATION_CREDENTIALS_JSON;
+    setTtsEngine(null);
+  });
+  afterAll(() => {
+    process.env = OLD_ENV;
+    setTtsEngine(null);
+  });
+
+  it('uses Google only when its credentials are configured', () => {
+    expect(getTtsEngineName()).toBe('none');
+    process.env.GOOGLE_APPLICATION_CREDENTIALS_JSON = 'config/gcp-key.json';
+    expect(getTtsEngineName()).toBe('google');
+  });
+
+  it('lets TTS_ENGINE pick the engine', () => {
+    process.env.GOOGLE_APPLICATION_CREDENTIALS_JSON = 'config/gcp-key.json';
+    process.env.TTS_ENGINE = ' None ';
+    expect(getTtsEngineName()).toBe('none');
+    process.env.TTS_ENGINE = 'local';
+    expect(getTtsEngine().name).toBe('local');
+    expect(isTtsEnabled()).toBe(true);
+  });
+
+  it('is disabled without an engine and caches the selection', () => {
+    const engine = getTtsEngine();
+    expect(engine.name).toBe('none');
+    expect(getTtsEngine()).toBe(engine);
+    expect(isTtsEnabled()).toBe(false);
+  });
+});
+
+describe('synthesizeSpeechToFile', () => {
+  const engine: TtsEngine & { synthesize: jest.Mock } = { name: 'local', synthesize: jest.fn(), listVoices: jest.fn(), healthCheck: jest.fn() };
+  beforeEach(() => {
+    engine.synthesize.mockReset();
+    setTtsEngine(engine);
+  });
+  afterAll(() => setTtsEngine(null));
+
+  it('validates the output path before synthesizing', async () => {
+    await expect(synthesizeSpeechToFile({ text: 'hi', filePath: 'relative.mp3' })).rejects.toThrow('absolute path');
+    await expect(synthesizeSpeechToFile({ text: 'hi', filePath: path.join(os.tmpdir(), 'a.wav') })).rejects.toThrow('.mp3');
+    await expect(synthesizeSpeechToFile({ text: 'hi', filePath: path.resolve('/not-tmp-dir/a.mp3') })).rejects.toThrow('system temp');
+    expect(engine.synthesize).not.toHaveBeenCalled();
+  });
+
+  it('passes a Google-style voice selection to the engine', async () => {
+    const filePath = path.join(os.tmpdir(), 'reply.mp3');
+    await synthesizeSpeechToFile({ text: '<speak>hi</speak>', filePath, ssml: true, voice: { languageCodes: ['de-DE'], name: 'de-DE-Wavenet-B' } });
+    const request = engine.synthesize.mock.calls[0][0];
+    expect(request).toMatchObject({ text: '<speak>hi</speak>', ssml: true, filePath, voice: { languageCode: 'de-DE', name: 'de-DE-Wavenet-B' } });
+    expect(request.voice).not.toHaveProperty('languageCodes');
+  });
+
+  it('fails when text-to-speech is disabled', async () => {
+    setTtsEngine(createSilentTtsEngine());
+    await expect(synthesizeSpeechToFile({ text: 'hi', filePath: path.join(os.tmpdir(), 'x.mp3') })).rejects.toThrow('disabled');
+  });
+});
+
+describe('Google TTS engine', () => {
+  const filePath = path.join(os.tmpdir(), `google-engine-${process.pid}.mp3`);
+  const request = { text: 'hi', ssml: false, voice: { languageCode: 'en-GB' }, audioConfig: {}, filePath };
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockSynthesizeSpeech.mockReset();
+    __resetSingletonsForTest(() => ({ client_email: 'svc@example.com', private_key: 'key' }));
+  });
+  afterEach(() => {
+    jest.useRealTimers();
+    fs.rmSync(filePath, { force: true });
+  });
+  afterAll(() => __resetSingletonsForTest(null));
+
+  it('retries transient failures and writes the audio', async () => {
+    mockSynthesizeSpeech
+      .mockRejectedValueOnce(new Error('unavailable'))
+      .mockResolvedValueOnce([{ audioContent: Buffer.from('mp3') }]);
+    const done = createGoogleTtsEngine().synthesize(request);
+    await jest.advanceTimersByTimeAsync(500);
+    await done;
+    expect(mockSynthesizeSpeech).toHaveBeenCalledTimes(2);
+    expect(mockSynthesizeSpeech.mock.calls[0][0].input).toEqual({ text: 'hi' });
+    expect(fs.readFileSync(filePath, 'utf8')).toBe('mp3');
+  });
+
+  it('gives up after three attempts', async () => {
+    mockSynthesizeSpeech.mockResolvedValue([{}]);
+    const done = createGoogleTtsEngine().synthesize({ ...request, ssml: true });
+    const assertion = expect(done).rejects.toThrow('missing audioContent');
+    await jest.advanceTimersByTimeAsync(1000);
+    await assertion;
+    expect(mockSynthesizeSpeech).toHaveBeenCalledTimes(3);
+  });
+
+  it('health-checks with a short synthesis', async () => {
+    mockSynthesizeSpeech.mockResolvedValueOnce([{ audioContent: 'x' }]).mockResolvedValueOnce([{}]);
+    await expect(createGoogleTtsEngine().healthCheck()).resolves.toBeUndefined();
+    await expect(createGoogleTtsEngine().healthCheck()).rejects.toThrow('No audio content');
+  });
+
+  it('lists named voices with numeric genders', async () => {
+    mockListVoices.mockResolvedValueOnce([{
+      voices: [
+        { name: 'en-GB-Wavenet-A', languageCodes: ['en-GB'], ssmlGender: 'FEMALE' },
+        { name: 'en-US-Standard-B', languageCodes: ['en-US'], ssmlGender: 1 },
+        { name: 'mystery', ssmlGender: 'OTHER' },
+        { languageCodes: ['fr-FR'], ssmlGender: 'MALE' },
+      ],
+    }]);
+    await expect(createGoogleTtsEngine().listVoices()).resolves.toEqual([
+      { name: 'en-GB-Wavenet-A', languageCodes: ['en-GB'], ssmlGender: 2 },
+      { name: 'en-US-Standard-B', languageCodes: ['en-US'], ssmlGender: 1 },
+      { name: 'mystery', languageCodes: [], ssmlGender: 0 },
+    ]);
+    await expect(createSilentTtsEngine().listVoices()).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * @jest-environment node
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+jest.mock('../../src/utils/logger', () => ({
+  __esModule: true,
+  default: { error: jest.fn(), info: jest.fn(), warn: jest.fn() },
+  sanitizeLogMeta: (m: unknown) => m,
+}));
+
+import {
+  __resetVoiceCatalogForTest,
+  findVoice,
+  getCastingVoices,
+  getVoiceCatalog,
+  listLocales,
+  suggestVoice,
+  VOICE_CATALOG_TTL_MS,
+} from '../../src/utils/voiceCatalog';
+import { setTtsEngine, type TtsEngine, type TtsVoice } from '../../src/utils/tts';
+import { GOOGLE_VOICE_SNAPSHOT } from '../../src/data/googleVoices';
+
+const voices: TtsVoice[] = [
+  { name: 'en-GB-Wavenet-A', languageCodes: ['en-GB'], ssmlGender: 2 },
+  { name: 'en-GB-Wavenet-B', languageCodes: ['en-GB'], ssmlGender: 1 },
+  { name: 'en-GB-Neural2-D', languageCodes: ['en-GB'], ssmlGender: 1 },
+  { name: 'fr-FR-Standard-A', languageCodes: ['fr-FR'], ssmlGender: 2 },
+];
+
+describe('voice catalogue', () => {
+  const cacheFile = path.join(os.tmpdir(), `voice-catalog-${process.pid}.json`);
+  const engine = { name: 'google', synthesize: jest.fn(), listVoices: jest.fn(), healthCheck: jest.fn() } satisfies TtsEngine;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    engine.listVoices.mockResolvedValue(voices);
+    setTtsEngine(engine);
+    __resetVoiceCatalogForTest();
+    fs.rmSync(cacheFile, { force: true });
+  });
+  afterEach(() => jest.restoreAllMocks());
+  afterAll(() => {
+    setTtsEngine(null);
+    fs.rmSync(cacheFile, { force: true });
+  });
+
+  it('fetches Google voices once and writes them to the disk cache', async () => {
+    await expect(getVoiceCatalog({ cacheFile })).resolves.toEqual({ engine: 'google', voices, source: 'live' });
+    await expect(getVoiceCatalog({ cacheFile })).resolves.toMatchObject({ source: 'live' });
+    expect(engine.listVoices).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(fs.readFileSync(cacheFile, 'utf8')).voices).toEqual(voices);
+  });
+
+  it('shares one fetch between concurrent callers', async () => {
+    await Promise.all([getVoiceCatalog({ cacheFile }), getVoiceCatalog({ cacheFile })]);
+    expect(engine.listVoices).toHaveBeenCalledTimes(1);
+  });
+
+  it('reads a fresh disk cache without calling the engine', async () => {
+    fs.writeFileSync(cacheFile, JSON.stringify({ fetchedAt: Date.now() - 1000, voices: voices.slice(0, 1) }));
+    await expect(getVoiceCatalog({ cacheFile })).resolves.toEqual({ engine: 'google', voices: voices.slice(0, 1), source: 'cache' });
+    expect(engine.listVoices).not.toHaveBeenCalled();
+  });
+
+  it('refreshes an expired disk cache', async () => {
+    fs.writeFileSync(cacheFile, JSON.stringify({ fetchedAt: Date.now() - VOICE_CATALOG_TTL_MS - 1, voices: voices.slice(0, 1) }));
+    await expect(getVoiceCatalog({ cacheFile })).resolves.toMatchObject({ voices, source: 'live' });
+  });
+
+  it('falls back to a stale cache, then to the bundled snapshot, when Google cannot be reached', async () => {
+    engine.listVoices.mockRejectedValue(new Error('offline'));
+    fs.writeFileSync(cacheFile, JSON.stringify({ fetchedAt: 0, voices: voices.slice(0, 2) }));
+    await expect(getVoiceCatalog({ cacheFile })).resolves.toMatchObject({ voices: voices.slice(0, 2), source: 'stale-cache' });
+
+    __resetVoiceCatalogForTest();
+    fs.rmSync(cacheFile);
+    await expect(getVoiceCatalog({ cacheFile })).resolves.toMatchObject({ voices: GOOGLE_VOICE_SNAPSHOT, source: 'snapshot' });
+    expect(fs.existsSync(cacheFile)).toBe(false);
+  });
+
+  it('asks Google again a few minutes after a failed fetch', async () => {
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    engine.listVoices.mockRejectedValueOnce(new Error('offline'));
+    await getVoiceCatalog({ cacheFile });
+    await getVoiceCatalog({ cacheFile });
+    expect(engine.listVoices).toHaveBeenCalledTimes(1);
+    clock.mockReturnValue(now + 5 * 60 * 1000 + 1);
+    await expect(getVoiceCatalog({ cacheFile })).resolves.toMatchObject({ source: 'live' });
+  });
+
+  it('treats an empty voice list as a failure', async () => {
+    engine.listVoices.mockResolvedValueOnce([]);
+    await expect(getVoiceCatalog({ cacheFile })).resolves.toMatchObject({ source: 'snapshot' });
+  });
+
+  it('asks other engines directly and casts from the snapshot for them', async () => {
+    const local = { ...engine, name: 'local' as const, listVoices: jest.fn().mockResolvedValue(voices.slice(3)) };
+    setTtsEngine(local);
+    await expect(getVoiceCatalog({ cacheFile })).resolves.toEqual({ engine: 'local', voices: voices.slice(3), source: 'live' });
+    await expect(getCastingVoices({ cacheFile })).resolves.toBe(GOOGLE_VOICE_SNAPSHOT);
+    setTtsEngine(engine);
+    await expect(getCastingVoices({ cacheFile })).resolves.toEqual(voices);
+  });
+});
+
+describe('voice catalogue helpers', () => {
+  it('finds voices and lists locales', () => {
+    expect(findVoice(voices, 'en-GB-Wavenet-B')).toBe(voices[1]);
+    expect(findVoice(voices, 'en-GB-Wavenet-Z')).toBeUndefined();
+    expect(listLocales(voices)).toEqual(['en-GB', 'fr-FR']);
+  });
+
+  it('suggests a voice in the same locale, gender and family', () => {
+    expect(suggestVoice(voices, { languageCode: 'en-GB', ssmlGender: 1, name: 'en-GB-Neural2-Z' })?.name).toBe('en-GB-Neural2-D');
+    expect(suggestVoice(voices, { languageCode: 'en-gb', ssmlGender: 1, name: 'en-GB-Studio-Z' })?.name).toBe('en-GB-Wavenet-B');
+    expect(suggestVoice(voices, { languageCode: 'fr-FR', ssmlGender: 1 })?.name).toBe('fr-FR-Standard-A');
+    expect(suggestVoice(voices, { languageCode: 'en-GB' })?.name).toBe('en-GB-Wavenet-A');
+    expect(suggestVoice(voices, { languageCode: 'de-DE', ssmlGender: 1 })).toBeUndefined();
+  });
+
+  it('bundles a snapshot of well-formed Google voices', () => {
+    expect(GOOGLE_VOICE_SNAPSHOT.length).toBeGreaterThan(100);
+    expect(findVoice(GOOGLE_VOICE_SNAPSHOT, 'en-GB-Wavenet-D')).toEqual({ name: 'en-GB-Wavenet-D', languageCodes: ['en-GB'], ssmlGender: 1 });
+    for (const voice of GOOGLE_VOICE_SNAPSHOT) {
+      expect(voice.name).toMatch(/^[a-z]{2,3}-[A-Z]{2}-(Standard|Wavenet|Neural2|Studio)-[A-Z]$/);
+      expect([1, 2]).toContain(voice.ssmlGender);
+    }
+  });
+});
@@ -1,4 +1,12 @@
-import { normalizeStudioVoice, buildSsml } from '../../src/utils/voiceHelpers';
+import {
+  normalizeStudioVoice,
+  buildSsml,
+  escapeSsml,
+  parsePronunciations,
+  stripToneTags,
+  MAX_PRONUNCIATIONS,
+  SPEECH_TONES,
+} from '../../src/utils/voiceHelpers';
 import type { CharacterVoiceConfig } from '../../src/utils/characterVoices';
 
 function makeVoice(overrides: Partial<CharacterVoiceConfig> = {}): CharacterVoiceConfig {
@@ -97,3 +105,76 @@ describe('buildSsml', () => {
     expect(buildSsml('Test', voice)).toBe('<speak>Test</speak>');
   });
 });
+
+describe('SSML text handling', () => {
+  const voice = makeVoice({ pitch: 0, rate: 1 });
+  const body = (ssml: string) => ssml.replace(/^<speak><prosody pitch="0st" rate="100%"> /, '').replace(/ <\/prosody><\/speak>$/, '');
+
+  it('escapes markup characters', () => {
+    expect(escapeSsml('Tom & "Jerry" <3')).toBe('Tom &amp; &quot;Jerry&quot; &lt;3');
+    expect(body(buildSsml('Fish & chips <3', voice))).toBe('Fish &amp; chips &lt;3');
+  });
+
+  it('pauses between sentences and longer at an ellipsis', () => {
+    expect(body(buildSsml('Hello. Well... I suppose so. Wait…', voice))).toBe(
+      'Hello.<break time="300ms"/>Well<break time="600ms"/>I suppose so.<break time="300ms"/>Wait<break time="600ms"/>',
+    );
+  });
+
+  it('turns tone tags into per-sentence prosody', () => {
+    expect(body(buildSsml('Calm now. [ANGRY] Get out! [sad] Please.', voice))).toBe(
+      'Calm now.<break time="300ms"/><prosody pitch="+2st" rate="110%" volume="loud">Get out!</prosody>'
+        + '<break time="300ms"/><prosody pitch="-3st" rate="85%" volume="soft">Please.</prosody>',
+    );
+    expect(buildSsml('Oh [excited] yes!', makeVoice({ name: 'en-US-Studio-O' })))
+      .toBe('<speak>Oh <prosody rate="115%" volume="loud">yes!</prosody></speak>');
+    expect(body(buildSsml('[whispering]', voice))).toBe('');
+  });
+
+  it('applies pronunciations as phoneme or sub on whole words', () => {
+    const withLexicon = makeVoice({
+      pitch: 0,
+      rate: 1,
+      pronunciations: [
+        { text: 'Hephaestus', phoneme: 'hɪˈfiːstəs' },
+        { text: 'Iapetus', phoneme: 'aɪˈæpɪtəs', alphabet: 'x-sampa' },
+        { text: 'Mnemosyne', alias: 'nee-MOZ-ih-nee' },
+        { text: 'Ignored' },
+      ],
+    });
+    expect(body(buildSsml('hephaestus met Mnemosyne & Iapetuses.', withLexicon))).toBe(
+      '<phoneme alphabet="ipa" ph="hɪˈfiːstəs">hephaestus</phoneme> met <sub alias="nee-MOZ-ih-nee">Mnemosyne</sub> &amp; Iapetuses.',
+    );
+  });
+
+  it('reads names from the shared lexicon for the voice language, unless the voice overrides them', () => {
+    expect(body(buildSsml('Hail Hephaestus.', voice))).toBe('Hail <phoneme alphabet="ipa" ph="hɪˈfiːstəs">Hephaestus</phoneme>.');
+    const own = makeVoice({ pitch: 0, rate: 1, pronunciations: [{ text: 'hephaestus', alias: 'heff-ICE-tus' }] });
+    expect(body(buildSsml('Hail Hephaestus.', own))).toBe('Hail <sub alias="heff-ICE-tus">Hephaestus</sub>.');
+    const german = makeVoice({ languageCodes: ['de-DE'], name: 'de-DE-Wavenet-B', pitch: 0, rate: 1 });
+    expect(body(buildSsml('Hephaestus.', german))).toBe('Hephaestus.');
+  });
+
+  it('cleans up pronunciation entries', () => {
+    expect(parsePronunciations([
+      { text: ' Nyx ', phoneme: ' nɪks ', alphabet: 'klingon', alias: 'nicks' },
+      { text: 'Eos', alias: 'EE-oss', alphabet: 'ipa' },
+      { text: 'Iapetus', phoneme: 'aI"{pIt@s', alphabet: 'x-sampa' },
+      { text: '', alias: 'nothing' },
+      { text: 'Nothing' },
+      'Erebus',
+    ])).toEqual([
+      { text: 'Nyx', phoneme: 'nɪks', alphabet: 'ipa' },
+      { text: 'Eos', alias: 'EE-oss' },
+      { text: 'Iapetus', phoneme: 'aI"{pIt@s', alphabet: 'x-sampa' },
+    ]);
+    expect(parsePronunciations({ text: 'Nyx' })).toEqual([]);
+    const many = Array.from({ length: MAX_PRONUNCIATIONS + 5 }, (_, i) => ({ text: `word${i}`, alias: 'x' }));
+    expect(parsePronunciations(many)).toHaveLength(MAX_PRONUNCIATIONS);
+  });
+
+  it('strips tone tags from displayed text', () => {
+    expect(stripToneTags('Fine. [Whispering] They are listening. [calm] Ok.')).toBe('Fine. They are listening. [calm] Ok.');
+    expect(SPEECH_TONES).toEqual(['angry', 'whispering', 'excited', 'sad']);
+  });
+});
@@ -0,0 +1,27 @@
+import { encodeWav, isWav, SPEECH_SAMPLE_RATE, wavDurationSeconds } from '../../src/utils/wav';
+
+describe('wav', () => {
+  it('encodes mono 16-bit PCM with a RIFF header', () => {
+    const wav = encodeWav(new Float32Array([0, 1, -1, 2]));
+    const view = new DataView(wav.buffer);
+    expect(wav.length).toBe(44 + 8);
+    expect(isWav(wav)).toBe(true);
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(view.getUint32(24, true)).toBe(SPEECH_SAMPLE_RATE);
+    expect(view.getUint32(40, true)).toBe(8);
+    // Samples are clamped to [-1, 1]
+    expect([0, 1, 2, 3].map((i) => view.getInt16(44 + i * 2, true))).toEqual([0, 32767, -32768, 32767]);
+  });
+
+  it('computes the duration from the byte rate', () => {
+    expect(wavDurationSeconds(encodeWav(new Float32Array(SPEECH_SAMPLE_RATE * 2)))).toBe(2);
+    expect(wavDurationSeconds(encodeWav(new Float32Array(8000), 8000))).toBe(1);
+  });
+
+  it('rejects other data', () => {
+    const notWav = new Uint8Array(64);
+    expect(isWav(notWav)).toBe(false);
+    expect(isWav(new Uint8Array([82, 73, 70, 70]))).toBe(false);
+    expect(wavDurationSeconds(notWav)).toBe(0);
+  });
+});